@@ -0,0 +1,167 @@
+// netlify/functions/booking-requests.ts
+// Drop box for the public booking-request form. The form seals each request
+// to the provider's public key before posting — this function only stores
+// and hands back ciphertext, and never holds a key that could open it.
+//
+// Actions (POST body: { action, inboxId, ...params }):
+//   register — { token }        claim the inbox id (first caller wins)
+//   submit   — { data }         queue a sealed request (anyone with the link)
+//   pull     — { token }        list queued requests
+//   ack      — { token, keys }  delete requests the device has stored
+//   close    — { token }        delete the inbox and everything queued in it
+//
+// Only the sha256 of the owner token is stored. Submitting to an inbox that
+// was never registered (or was closed) fails, so old links stop working.
+//
+// ENV VARS REQUIRED:
+//   BLOBS_TOKEN        — Netlify personal access token (same as used by stripe-webhook)
+//   NETLIFY_SITE_ID    — your Netlify site ID
+
+import type { Handler } from '@netlify/functions'
+import { getStore } from '@netlify/blobs'
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { checkRateLimit } from './rate-limit'
+
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || 'https://companion1.netlify.app'
+
+const headers = {
+  'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json',
+}
+
+const ID_RE = /^[0-9a-f]{32}$/
+const TOKEN_RE = /^[0-9a-f]{64}$/
+const BASE64_RE = /^[A-Za-z0-9+/]+={0,2}$/
+const MAX_ENTRY_BYTES = 16 * 1024
+const MAX_QUEUED = 200
+
+interface InboxRecord {
+  tokenHash: string
+  createdAt: number
+}
+
+function requestStore() {
+  return getStore({
+    name: 'booking-requests',
+    consistency: 'strong',
+    siteID: process.env.NETLIFY_SITE_ID,
+    token: process.env.BLOBS_TOKEN,
+  })
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function tokenMatches(token: unknown, record: InboxRecord): boolean {
+  if (typeof token !== 'string' || !TOKEN_RE.test(token)) return false
+  return timingSafeEqual(Buffer.from(hashToken(token), 'hex'), Buffer.from(record.tokenHash, 'hex'))
+}
+
+/** Sortable entry key: zero-padded base-36 timestamp + random suffix for same-ms submits. */
+function entryKey(inboxId: string): string {
+  return `entries/${inboxId}/${Date.now().toString(36).padStart(10, '0')}-${randomBytes(4).toString('hex')}`
+}
+
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return { statusCode: 204, headers, body: '' }
+  if (event.httpMethod !== 'POST') {
+    return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) }
+  }
+
+  try {
+    const body = JSON.parse(event.body || '{}')
+    const { action, inboxId } = body
+
+    // Rate limit: the public form gets 5 submits per minute per IP; the app's own calls 30
+    const limited = action === 'submit'
+      ? await checkRateLimit(event, 'booking-requests-submit', { maxRequests: 5, windowMs: 60_000 })
+      : await checkRateLimit(event, 'booking-requests', { maxRequests: 30, windowMs: 60_000 })
+    if (limited) return limited
+
+    if (typeof inboxId !== 'string' || !ID_RE.test(inboxId)) {
+      return { statusCode: 400, headers, body: JSON.stringify({ error: 'Invalid inbox id' }) }
+    }
+
+    const store = requestStore()
+    const inbox = await store.get(`inbox/${inboxId}`, { type: 'json' }) as InboxRecord | null
+
+    // ── REGISTER ──
+    if (action === 'register') {
+      const { token } = body
+      if (typeof token !== 'string' || !TOKEN_RE.test(token)) {
+        return { statusCode: 400, headers, body: JSON.stringify({ error: 'Invalid token' }) }
+      }
+      if (inbox && !tokenMatches(token, inbox)) {
+        return { statusCode: 403, headers, body: JSON.stringify({ error: 'Forbidden' }) }
+      }
+      if (!inbox) {
+        const record: InboxRecord = { tokenHash: hashToken(token), createdAt: Date.now() }
+        await store.setJSON(`inbox/${inboxId}`, record)
+      }
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true }) }
+    }
+
+    // ── SUBMIT ──
+    if (action === 'submit') {
+      // Same 404 for an unknown and a closed inbox — nothing to probe
+      if (!inbox) return { statusCode: 404, headers, body: JSON.stringify({ error: 'Not found' }) }
+      const { data } = body
+      if (typeof data !== 'string' || !BASE64_RE.test(data)) {
+        return { statusCode: 400, headers, body: JSON.stringify({ error: 'Invalid request' }) }
+      }
+      if (data.length > MAX_ENTRY_BYTES) {
+        return { statusCode: 413, headers, body: JSON.stringify({ error: 'Request too large' }) }
+      }
+      const { blobs } = await store.list({ prefix: `entries/${inboxId}/` })
+      if (blobs.length >= MAX_QUEUED) {
+        return { statusCode: 429, headers, body: JSON.stringify({ error: 'Inbox full' }) }
+      }
+      await store.set(entryKey(inboxId), data)
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true }) }
+    }
+
+    // Everything below is the owner's
+    if (!inbox || !tokenMatches(body.token, inbox)) {
+      return { statusCode: 403, headers, body: JSON.stringify({ error: 'Forbidden' }) }
+    }
+
+    // ── PULL ──
+    if (action === 'pull') {
+      const { blobs } = await store.list({ prefix: `entries/${inboxId}/` })
+      const entries: { key: string; data: string }[] = []
+      for (const key of blobs.map(b => b.key).sort()) {
+        const data = await store.get(key, { type: 'text' })
+        if (data) entries.push({ key, data })
+      }
+      return { statusCode: 200, headers, body: JSON.stringify({ entries }) }
+    }
+
+    // ── ACK ──
+    if (action === 'ack') {
+      const { keys } = body
+      if (!Array.isArray(keys) || keys.length > MAX_QUEUED) {
+        return { statusCode: 400, headers, body: JSON.stringify({ error: 'Invalid keys' }) }
+      }
+      for (const key of keys) {
+        if (typeof key === 'string' && key.startsWith(`entries/${inboxId}/`)) await store.delete(key)
+      }
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true }) }
+    }
+
+    // ── CLOSE ──
+    if (action === 'close') {
+      const { blobs } = await store.list({ prefix: `entries/${inboxId}/` })
+      for (const b of blobs) await store.delete(b.key)
+      await store.delete(`inbox/${inboxId}`)
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true }) }
+    }
+
+    return { statusCode: 400, headers, body: JSON.stringify({ error: 'Unknown action' }) }
+  } catch (err) {
+    console.error('Booking request error:', err)
+    return { statusCode: 500, headers, body: JSON.stringify({ error: 'Server error' }) }
+  }
+}
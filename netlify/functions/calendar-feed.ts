@@ -0,0 +1,128 @@
+// netlify/functions/calendar-feed.ts
+// Read-only calendar subscription feed. The app publishes a ready-made
+// VCALENDAR; phone and desktop calendars poll it with GET.
+//
+//   POST { action: 'publish', feedId, token, ics }  — create or replace the feed
+//   POST { action: 'unpublish', feedId, token }     — delete it
+//   GET  ?id=<feedId>&token=<token>                 — text/calendar
+//
+// The first publish claims the feed id: only the sha256 of its token is
+// stored, and every later request must present the same token. Unlike sync,
+// the feed is plaintext (calendar apps can't decrypt) — the app defaults
+// it to privacy mode, with neutral titles and no names or addresses.
+//
+// ENV VARS REQUIRED:
+//   BLOBS_TOKEN        — Netlify personal access token (same as used by stripe-webhook)
+//   NETLIFY_SITE_ID    — your Netlify site ID
+
+import type { Handler } from '@netlify/functions'
+import { getStore } from '@netlify/blobs'
+import { createHash, timingSafeEqual } from 'crypto'
+import { checkRateLimit } from './rate-limit'
+
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || 'https://companion1.netlify.app'
+
+const headers = {
+  'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Content-Type': 'application/json',
+}
+
+const ID_RE = /^[0-9a-f]{32}$/
+const TOKEN_RE = /^[0-9a-f]{64}$/
+const MAX_FEED_BYTES = 1024 * 1024
+
+interface FeedRecord {
+  tokenHash: string
+  ics: string
+  updatedAt: number
+}
+
+function feedStore() {
+  return getStore({
+    name: 'calendar-feeds',
+    consistency: 'strong',
+    siteID: process.env.NETLIFY_SITE_ID,
+    token: process.env.BLOBS_TOKEN,
+  })
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function tokenMatches(token: string, record: FeedRecord): boolean {
+  return timingSafeEqual(Buffer.from(hashToken(token), 'hex'), Buffer.from(record.tokenHash, 'hex'))
+}
+
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return { statusCode: 204, headers, body: '' }
+
+  // Rate limit: 30 requests per minute per IP (calendar apps poll, the app republishes on change)
+  const limited = await checkRateLimit(event, 'calendar-feed', { maxRequests: 30, windowMs: 60_000 })
+  if (limited) return limited
+
+  try {
+    const store = feedStore()
+
+    // ── SUBSCRIBE ──
+    if (event.httpMethod === 'GET') {
+      const id = event.queryStringParameters?.id ?? ''
+      const token = event.queryStringParameters?.token ?? ''
+      // Same 404 for a bad id, a bad token and a missing feed — nothing to probe
+      const notFound = { statusCode: 404, headers: { 'Content-Type': 'text/plain' }, body: 'Not found' }
+      if (!ID_RE.test(id) || !TOKEN_RE.test(token)) return notFound
+      const record = await store.get(id, { type: 'json' }) as FeedRecord | null
+      if (!record || !tokenMatches(token, record)) return notFound
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Cache-Control': 'private, no-store',
+          'Content-Disposition': 'inline; filename="calendar.ics"',
+        },
+        body: record.ics,
+      }
+    }
+
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) }
+    }
+
+    const body = JSON.parse(event.body || '{}')
+    const { action, feedId, token } = body
+    if (typeof feedId !== 'string' || !ID_RE.test(feedId) || typeof token !== 'string' || !TOKEN_RE.test(token)) {
+      return { statusCode: 400, headers, body: JSON.stringify({ error: 'Invalid feed id or token' }) }
+    }
+    const existing = await store.get(feedId, { type: 'json' }) as FeedRecord | null
+    if (existing && !tokenMatches(token, existing)) {
+      return { statusCode: 403, headers, body: JSON.stringify({ error: 'Forbidden' }) }
+    }
+
+    // ── PUBLISH ──
+    if (action === 'publish') {
+      const { ics } = body
+      if (typeof ics !== 'string' || !ics.startsWith('BEGIN:VCALENDAR')) {
+        return { statusCode: 400, headers, body: JSON.stringify({ error: 'Invalid calendar' }) }
+      }
+      if (ics.length > MAX_FEED_BYTES) {
+        return { statusCode: 413, headers, body: JSON.stringify({ error: 'Calendar too large' }) }
+      }
+      const record: FeedRecord = { tokenHash: hashToken(token), ics, updatedAt: Date.now() }
+      await store.setJSON(feedId, record)
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true }) }
+    }
+
+    // ── UNPUBLISH ──
+    if (action === 'unpublish') {
+      if (existing) await store.delete(feedId)
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true }) }
+    }
+
+    return { statusCode: 400, headers, body: JSON.stringify({ error: 'Unknown action' }) }
+  } catch (err) {
+    console.error('Calendar feed error:', err)
+    return { statusCode: 500, headers, body: JSON.stringify({ error: 'Server error' }) }
+  }
+}
@@ -0,0 +1,250 @@
+// netlify/functions/sync.ts
+// Dumb encrypted blob relay for multi-device sync.
+// Entries are sealed on-device with the user's master key — this function
+// never sees plaintext, keys, or even which tables changed.
+//
+// Actions (POST body: { action, vaultId, ...params }):
+//   push — { entries: string[] } appends opaque entries to the vault
+//   pull — { cursor: string | null, device?: string } returns entries stored
+//          after the cursor
+//
+// Ordering: entry keys are sequence numbers the relay hands out from a
+// per-vault counter, reserved with a compare-and-set on the counter blob.
+// A push that reserved a number but hasn't landed yet leaves a gap; pulls
+// stop before it so no device's cursor moves past an entry still in flight.
+// A gap whose later entries landed more than GAP_TIMEOUT_MS ago belongs to a
+// push that died mid-way and is skipped.
+//
+// The vault id is a 64-char hex value derived from the master key; anyone
+// holding it can read ciphertext, but only devices with the key can open it.
+//
+// Retention: each pull records the cursor the device has applied (an ack).
+// Entries every recently-seen device has pulled are deleted. A device that
+// is new to a pruned vault, or was away long enough to miss pruned entries,
+// resumes after the pruned range and the vault asks every device for a
+// snapshot — a re-push of its full state — so nothing pruned is lost to it.
+//
+// ENV VARS REQUIRED:
+//   BLOBS_TOKEN        — Netlify personal access token (same as used by stripe-webhook)
+//   NETLIFY_SITE_ID    — your Netlify site ID
+
+import type { Handler } from '@netlify/functions'
+import { getStore } from '@netlify/blobs'
+import { checkRateLimit } from './rate-limit'
+
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || 'https://companion1.netlify.app'
+
+const headers = {
+  'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json',
+}
+
+const VAULT_ID_RE = /^[0-9a-f]{64}$/
+const MAX_ENTRIES_PER_PUSH = 20
+const MAX_ENTRY_BYTES = 512 * 1024
+const PULL_PAGE_SIZE = 50
+const DEVICE_ID_RE = /^[0-9a-zA-Z-]{8,64}$/
+/** Devices that haven't pulled for this long no longer hold entries back */
+const DEVICE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const MAX_PRUNE_DELETES = 500
+/** Sequence numbers probed per pull — bounds the work when a page spans gaps */
+const MAX_PULL_PROBES = PULL_PAGE_SIZE * 2
+/** Longer than any function invocation, so an older gap can no longer be filled */
+const GAP_TIMEOUT_MS = 60 * 1000
+const MAX_RESERVE_ATTEMPTS = 5
+
+function syncStore() {
+  return getStore({
+    name: 'sync-vaults',
+    consistency: 'strong',
+    siteID: process.env.NETLIFY_SITE_ID,
+    token: process.env.BLOBS_TOKEN,
+  })
+}
+
+interface VaultMeta {
+  prunedThrough: string | null     // every entry key <= this has been deleted
+  prunedAt: number
+  snapshotRequestedAt: number
+}
+
+interface DeviceAck {
+  cursor: string
+  at: number
+}
+
+interface VaultCounter {
+  next: number                     // first sequence number not yet handed out
+}
+
+type SyncStore = ReturnType<typeof syncStore>
+
+/** Sortable entry key: the zero-padded sequence number. */
+const entryKey = (vaultId: string, seq: number) => `${vaultId}/${String(seq).padStart(12, '0')}`
+const entrySeq = (vaultId: string, key: string) => Number(key.slice(vaultId.length + 1))
+const isEntryKey = (vaultId: string, key: unknown): key is string =>
+  typeof key === 'string' && new RegExp(`^${vaultId}/\\d{12}$`).test(key)
+
+const metaKey = (vaultId: string) => `${vaultId}.meta`
+const counterKey = (vaultId: string) => `${vaultId}.seq`
+const ackPrefix = (vaultId: string) => `${vaultId}.acks/`
+
+/**
+ * Reserve `count` consecutive sequence numbers; returns the first, or null
+ * when other pushes kept winning the compare-and-set.
+ */
+async function reserveSeq(store: SyncStore, vaultId: string, count: number): Promise<number | null> {
+  for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+    const current = await store.getWithMetadata(counterKey(vaultId), { type: 'json' })
+    const first = (current?.data as VaultCounter | undefined)?.next ?? 1
+    const counter: VaultCounter = { next: first + count }
+    const { modified } = current?.etag
+      ? await store.setJSON(counterKey(vaultId), counter, { onlyIfMatch: current.etag })
+      : await store.setJSON(counterKey(vaultId), counter, { onlyIfNew: true })
+    if (modified) return first
+  }
+  return null
+}
+
+async function readCounter(store: SyncStore, vaultId: string): Promise<number> {
+  const counter = await store.get(counterKey(vaultId), { type: 'json' }) as VaultCounter | null
+  return counter?.next ?? 1
+}
+
+async function readMeta(store: SyncStore, vaultId: string): Promise<VaultMeta> {
+  const meta = await store.get(metaKey(vaultId), { type: 'json' }) as VaultMeta | null
+  return meta ?? { prunedThrough: null, prunedAt: 0, snapshotRequestedAt: 0 }
+}
+
+/** Delete entries every device seen within DEVICE_RETENTION_MS has pulled. At most hourly per vault. */
+async function prune(store: SyncStore, vaultId: string, meta: VaultMeta): Promise<void> {
+  const now = Date.now()
+  if (now - meta.prunedAt < PRUNE_INTERVAL_MS) return
+  meta.prunedAt = now
+
+  const cursors: string[] = []
+  const { blobs: acks } = await store.list({ prefix: ackPrefix(vaultId) })
+  for (const { key } of acks) {
+    const ack = await store.get(key, { type: 'json' }) as DeviceAck | null
+    if (!ack || now - ack.at > DEVICE_RETENTION_MS) {
+      await store.delete(key)
+      continue
+    }
+    cursors.push(ack.cursor)
+  }
+
+  const through = cursors.sort()[0]
+  if (through && (!meta.prunedThrough || through > meta.prunedThrough)) {
+    const from = meta.prunedThrough ? entrySeq(vaultId, meta.prunedThrough) + 1 : 1
+    const to = Math.min(entrySeq(vaultId, through), from + MAX_PRUNE_DELETES - 1)
+    for (let seq = from; seq <= to; seq++) await store.delete(entryKey(vaultId, seq))
+    meta.prunedThrough = entryKey(vaultId, to)
+  }
+  await store.setJSON(metaKey(vaultId), meta)
+}
+
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return { statusCode: 204, headers, body: '' }
+  if (event.httpMethod !== 'POST') {
+    return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) }
+  }
+
+  // Rate limit: 60 requests per minute per IP (a sync round pages through several pulls)
+  const limited = await checkRateLimit(event, 'sync', { maxRequests: 60, windowMs: 60_000 })
+  if (limited) return limited
+
+  try {
+    const body = JSON.parse(event.body || '{}')
+    const { action, vaultId } = body
+
+    if (typeof vaultId !== 'string' || !VAULT_ID_RE.test(vaultId)) {
+      return { statusCode: 400, headers, body: JSON.stringify({ error: 'Invalid vault id' }) }
+    }
+
+    const store = syncStore()
+
+    // ── PUSH ──
+    if (action === 'push') {
+      const { entries } = body
+      if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_ENTRIES_PER_PUSH) {
+        return { statusCode: 400, headers, body: JSON.stringify({ error: 'Invalid entries' }) }
+      }
+      for (const data of entries) {
+        if (typeof data !== 'string' || data.length > MAX_ENTRY_BYTES) {
+          return { statusCode: 413, headers, body: JSON.stringify({ error: 'Entry too large' }) }
+        }
+      }
+      const first = await reserveSeq(store, vaultId, entries.length)
+      if (first === null) {
+        return { statusCode: 503, headers, body: JSON.stringify({ error: 'Vault busy, retry' }) }
+      }
+      for (let i = 0; i < entries.length; i++) {
+        await store.set(entryKey(vaultId, first + i), entries[i], { metadata: { at: Date.now() } })
+      }
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true }) }
+    }
+
+    // ── PULL ──
+    if (action === 'pull') {
+      let cursor = isEntryKey(vaultId, body.cursor) ? body.cursor : null
+      const device = typeof body.device === 'string' && DEVICE_ID_RE.test(body.device) ? body.device : null
+      const meta = await readMeta(store, vaultId)
+
+      // A device new to a pruned vault, or one whose next entries were pruned
+      // while it was away, has missed changes: resume after the pruned range
+      // and ask the other devices to re-push their state
+      if (meta.prunedThrough && (cursor === null || cursor < meta.prunedThrough)) {
+        cursor = meta.prunedThrough
+        meta.snapshotRequestedAt = Date.now()
+        await store.setJSON(metaKey(vaultId), meta)
+      }
+      if (cursor && device) {
+        const ack: DeviceAck = { cursor, at: Date.now() }
+        await store.setJSON(`${ackPrefix(vaultId)}${device}`, ack)
+      }
+
+      // Walk the sequence after the cursor. A missing number is a push still
+      // in flight unless an entry after it landed more than GAP_TIMEOUT_MS ago
+      const next = await readCounter(store, vaultId)
+      const entries: { key: string; data: string }[] = []
+      let seq = cursor ? entrySeq(vaultId, cursor) + 1 : 1
+      const end = Math.min(next, seq + MAX_PULL_PROBES)
+      let gapOpen = false
+      let blocked = false
+      for (; seq < end && entries.length < PULL_PAGE_SIZE; seq++) {
+        const key = entryKey(vaultId, seq)
+        const entry = await store.getWithMetadata(key, { type: 'text' })
+        if (!entry) {
+          gapOpen = true
+          continue
+        }
+        if (gapOpen && Date.now() - Number(entry.metadata.at ?? 0) < GAP_TIMEOUT_MS) {
+          blocked = true
+          break
+        }
+        gapOpen = false
+        entries.push({ key, data: entry.data })
+      }
+      const hasMore = !blocked && !gapOpen && seq < next
+      if (!hasMore) await prune(store, vaultId, meta)
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          entries,
+          cursor: entries.length ? entries[entries.length - 1].key : cursor,
+          hasMore,
+          snapshotRequestedAt: meta.snapshotRequestedAt,
+        }),
+      }
+    }
+
+    return { statusCode: 400, headers, body: JSON.stringify({ error: 'Unknown action' }) }
+  } catch (err) {
+    console.error('Sync error:', err)
+    return { statusCode: 500, headers, body: JSON.stringify({ error: 'Server error' }) }
+  }
+}
@@ -42,6 +42,9 @@ self.addEventListener('fetch', (event) => {
   // Don't cache API calls — stale responses could bypass server-side checks
   if (request.url.includes('/.netlify/functions/')) return
 
+  // The public booking-request form is its own page — never cache it as the app shell
+  if (new URL(request.url).pathname.startsWith('/request')) return
+
   // SPA navigation requests — always serve index.html (network-first, cache fallback)
   if (request.mode === 'navigate') {
     event.respondWith(
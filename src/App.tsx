@@ -25,8 +25,15 @@ import { ToastContainer, showToast } from './components/Toast'
 
 import { migrateToPaymentLedger } from './db'
 import { initFieldEncryption } from './db/fieldCrypto'
+import { purgeExpiredTrash } from './db/trash'
+import { buildSearchIndex, clearSearchIndex, type SearchTarget } from './db/searchIndex'
+import { SearchPalette } from './components/SearchPalette'
 import { useServiceWorker } from './hooks/useServiceWorker'
 import { useOnlineStatus } from './hooks/useOnlineStatus'
+import { useSyncStatus } from './hooks/useSyncStatus'
+import { useCalendarFeed } from './hooks/useCalendarFeed'
+import { useInquiryInbox } from './hooks/useInquiryInbox'
+import { SyncStatusIndicator } from './components/SyncStatusIndicator'
 import { useHashNav, parseNavHash } from './hooks/useHashNav'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import { AlertTriangle } from 'lucide-react'
@@ -95,6 +102,15 @@ export default function App() {
     }
   }, [isOnline])
 
+  // Encrypted multi-device sync (opt-in) — runs only while unlocked and online
+  const syncStatus = useSyncStatus(isOnline, pinEnabled && isLocked)
+
+  // Published calendar feed (opt-in) — republished when bookings change
+  useCalendarFeed(isOnline, pinEnabled && isLocked)
+
+  // Booking requests from the public form (opt-in) — pulled and opened on this device
+  useInquiryInbox(isOnline, pinEnabled && isLocked)
+
   // One-time migration: hash any existing plaintext PIN (4-digit numeric string)
   useEffect(() => {
     if (pinEnabled && pinCode && pinCode.length <= 6 && /^\d+$/.test(pinCode)) {
@@ -165,6 +181,21 @@ export default function App() {
     migrateToPaymentLedger().catch(err => console.error('Payment ledger migration failed:', err))
   }, [])
 
+  // Global search index: built from decrypted records after unlock, dropped on lock
+  const appLocked = pinEnabled && isLocked
+  useEffect(() => {
+    if (appLocked) {
+      clearSearchIndex()
+      return
+    }
+    buildSearchIndex().catch(err => console.error('Search index build failed:', err))
+  }, [appLocked])
+
+  // Permanently remove trash entries past the retention window
+  useEffect(() => {
+    purgeExpiredTrash().catch(err => console.error('Trash purge failed:', err))
+  }, [])
+
   const { pushNav, replaceNav } = useHashNav(activeTab, screen, setActiveTab, setScreen)
 
   function handleTabChange(tab: number) {
@@ -180,6 +211,12 @@ export default function App() {
     pushNav(1, { type: 'bookingDetail', bookingId })
   }
 
+  function openSearchResult(target: SearchTarget) {
+    if (target.screen === 'client') openClient(target.id)
+    else if (target.screen === 'booking') openBooking(target.id)
+    else handleTabChange(4)
+  }
+
   function goBack() {
     // Prefer browser back so the history stack stays consistent
     if (history.length > 1) {
@@ -326,8 +363,10 @@ export default function App() {
           You're offline — some features require a connection
         </div>
       )}
+      <SyncStatusIndicator status={syncStatus} isOnline={isOnline} />
       <FreeBanner onUpgrade={() => setShowPaywall(true)} />
       <ToastContainer />
+      <SearchPalette onNavigate={openSearchResult} />
       <Suspense fallback={<div style={{ minHeight: '100vh', backgroundColor: 'var(--bg-primary)' }} />}>
         {renderContent()}
       </Suspense>
@@ -1,354 +1,35 @@
 import { useState, useRef, useEffect } from 'react'
 import { useScrollLock } from '../hooks/useScrollLock'
 import {
-  Download, Upload, X, CheckCircle, AlertCircle, Lock, Unlock, Database, FileSpreadsheet
+  Download, Upload, X, CheckCircle, AlertCircle, Lock, Unlock, Database, FileSpreadsheet,
+  Layers, FolderOpen, Clock,
 } from 'lucide-react'
 import { db } from '../db'
 import { ConfirmDialog } from './ConfirmDialog'
+import { RestorePreview } from './RestorePreview'
+import { FieldToggle } from './FormFields'
 import { recordBackupTimestamp } from '../hooks/useBackupReminder'
-import { lsKey } from '../hooks/useSettings'
+import { useLocalStorage } from '../hooks/useSettings'
+import {
+  CURRENT_BACKUP_VERSION, encryptData, decryptData, downloadFile, downloadBlob,
+  type BackupPayload, type BackupTableName,
+} from '../utils/backup'
+import {
+  BACKUP_CONTAINER_EXTENSION, writeBackupContainer, createBlobSink, isBackupContainer, readBackupContainer,
+} from '../utils/backupContainer'
+import { previewRestore, restoreSelectedTables, type TableDiff, type RestoreMode } from '../utils/selectiveRestore'
+import {
+  AUTO_BACKUP_ENABLED_KEY, prepareArchive, archiveFilename, restoreArchiveChain,
+  getChainSummary, resetBackupChain, setAutoBackupPassword, hasAutoBackupPassword,
+  supportsBackupFolder, chooseBackupFolder, getBackupFolderName, clearBackupFolder, runScheduledBackup,
+  type ChainSummary,
+} from '../utils/incrementalBackup'
 
 interface BackupRestoreProps {
   isOpen: boolean
   onClose: () => void
 }
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// CRYPTO HELPERS (AES-GCM via Web Crypto API)
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-async function deriveKey(password: string, salt: Uint8Array, iterations = 200_000): Promise<CryptoKey> {
-  const enc = new TextEncoder()
-  const baseKey = await crypto.subtle.importKey('raw', enc.encode(password), 'PBKDF2', false, ['deriveKey'])
-  return crypto.subtle.deriveKey(
-    { name: 'PBKDF2', salt: salt.buffer as ArrayBuffer, iterations, hash: 'SHA-256' },
-    baseKey,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
-  )
-}
-
-async function encryptData(data: string, password: string): Promise<string> {
-  const salt = crypto.getRandomValues(new Uint8Array(16))
-  const iv = crypto.getRandomValues(new Uint8Array(12))
-  const key = await deriveKey(password, salt)
-  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(data))
-  // Combine salt + iv + ciphertext, encode as base64
-  const combined = new Uint8Array(salt.length + iv.length + new Uint8Array(encrypted).length)
-  combined.set(salt, 0)
-  combined.set(iv, salt.length)
-  combined.set(new Uint8Array(encrypted), salt.length + iv.length)
-  // NOTE: Do NOT use btoa(String.fromCharCode(...combined)) — spreading a large
-  // Uint8Array as function arguments will exceed the JS call stack limit on any
-  // backup with substantial data (typically > ~50k records).
-  let binary = ''
-  combined.forEach(byte => { binary += String.fromCharCode(byte) })
-  return btoa(binary)
-}
-
-async function decryptData(encoded: string, password: string): Promise<string> {
-  const binary = atob(encoded)
-  const combined = new Uint8Array(binary.length)
-  for (let i = 0; i < binary.length; i++) combined[i] = binary.charCodeAt(i)
-  const salt = combined.slice(0, 16)
-  const iv = combined.slice(16, 28)
-  const ciphertext = combined.slice(28)
-  // Try current iteration count first (200k), fall back to legacy (100k)
-  try {
-    const key = await deriveKey(password, salt, 200_000)
-    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext)
-    return new TextDecoder().decode(decrypted)
-  } catch {
-    const key = await deriveKey(password, salt, 100_000)
-    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext)
-    return new TextDecoder().decode(decrypted)
-  }
-}
-
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// BACKUP / RESTORE
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-// Bump this when adding new tables or making breaking schema changes.
-// Backups from a NEWER version than this will be rejected to prevent
-// silent data loss (future tables/fields would be silently dropped).
-// Backups from OLDER versions are fine — missing tables are just empty.
-const CURRENT_BACKUP_VERSION = 3
-
-interface BackupPayload {
-  version: number
-  created: string
-  tables: {
-    clients: unknown[]
-    bookings: unknown[]
-    transactions: unknown[]
-    availability: unknown[]
-    safetyContacts: unknown[]
-    safetyChecks: unknown[]
-    incidents: unknown[]
-    serviceRates: unknown[]
-    payments?: unknown[]
-    journalEntries?: unknown[]
-    incallVenues?: unknown[]
-    // screeningDocs and venueDocs have Blob data — encoded as base64
-    screeningDocs?: unknown[]
-    venueDocs?: unknown[]
-    bookingChecklist?: unknown[]
-  }
-  // Profile & settings from localStorage
-  profile?: Record<string, string>
-}
-
-// ── Blob ↔ Base64 helpers ──────────────────────────────────────────────
-
-async function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onload = () => {
-      const result = reader.result as string
-      // Strip the data:…;base64, prefix
-      resolve(result.split(',')[1] ?? '')
-    }
-    reader.onerror = reject
-    reader.readAsDataURL(blob)
-  })
-}
-
-function base64ToBlob(b64: string, mimeType: string): Blob {
-  const binary = atob(b64)
-  const bytes = new Uint8Array(binary.length)
-  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
-  return new Blob([bytes], { type: mimeType })
-}
-
-// localStorage keys to include in backup
-const PROFILE_LS_KEYS = [
-  'profileWorkingName', 'profileWorkEmail', 'profileWorkPhone',
-  'profileWebsite', 'profileTagline', 'profileSetupDone',
-  'defaultDepositType', 'defaultDepositPercentage', 'defaultDepositFlat',
-  'currency', 'introTemplate', 'directionsTemplate',
-  'taxRate', 'setAsideRate',
-  'goalWeekly', 'goalMonthly', 'goalQuarterly', 'goalYearly',
-  'darkMode', 'oledBlack', 'remindersEnabled',
-  'financeCards_v2', 'financeHintDismissed',
-  'defaultChecklistItems', 'stealthEnabled',
-]
-
-export async function createBackup(): Promise<BackupPayload> {
-  // Serialize screeningDocs (Blob → base64)
-  const rawScreeningDocs = await db.screeningDocs.toArray()
-  const screeningDocs = await Promise.all(rawScreeningDocs.map(async doc => ({
-    ...doc,
-    data: await blobToBase64(doc.data),
-    _blobMime: doc.mimeType,
-  })))
-
-  // Serialize venueDocs (Blob → base64)
-  const rawVenueDocs = await db.venueDocs.toArray()
-  const venueDocs = await Promise.all(rawVenueDocs.map(async doc => ({
-    ...doc,
-    data: await blobToBase64(doc.data),
-    _blobMime: doc.mimeType,
-  })))
-
-  // Snapshot localStorage profile settings
-  const profile: Record<string, string> = {}
-  for (const key of PROFILE_LS_KEYS) {
-    const val = localStorage.getItem(lsKey(key))
-    if (val !== null) profile[key] = val
-  }
-
-  return {
-    version: CURRENT_BACKUP_VERSION,
-    created: new Date().toISOString(),
-    tables: {
-      clients: await db.clients.toArray(),
-      bookings: await db.bookings.toArray(),
-      transactions: await db.transactions.toArray(),
-      availability: await db.availability.toArray(),
-      safetyContacts: await db.safetyContacts.toArray(),
-      safetyChecks: await db.safetyChecks.toArray(),
-      incidents: await db.incidents.toArray(),
-      serviceRates: await db.serviceRates.toArray(),
-      payments: await db.payments.toArray(),
-      journalEntries: await db.journalEntries.toArray(),
-      incallVenues: await db.incallVenues.toArray(),
-      screeningDocs,
-      venueDocs,
-      bookingChecklist: await db.bookingChecklist.toArray(),
-    },
-    profile,
-  }
-}
-
-async function restoreBackup(payload: BackupPayload): Promise<{ total: number }> {
-  let total = 0
-
-  // ─── Validate record shapes before touching the database ────────────
-  // Every record in every table must have an 'id' field at minimum.
-  // Key tables also check for their most critical required fields so a
-  // malformed or crafted backup can't inject broken records.
-  const requiredFields: Record<string, string[]> = {
-    clients:        ['id', 'alias'],
-    bookings:       ['id'],
-    transactions:   ['id', 'amount'],
-    availability:   ['id', 'date'],
-    safetyContacts: ['id', 'name'],
-    safetyChecks:   ['id'],
-    incidents:      ['id'],
-    serviceRates:   ['id'],
-    payments:       ['id', 'bookingId'],
-    journalEntries: ['id', 'bookingId', 'clientId'],
-    incallVenues:   ['id', 'name'],
-    screeningDocs:  ['id', 'clientId'],
-    venueDocs:      ['id', 'venueId'],
-    bookingChecklist: ['id', 'bookingId'],
-  }
-
-  const t = payload.tables
-  for (const [tableName, records] of Object.entries(t)) {
-    if (!Array.isArray(records) || records.length === 0) continue
-    const fields = requiredFields[tableName] ?? ['id']
-    for (const record of records) {
-      if (!record || typeof record !== 'object') {
-        throw new Error(`Invalid record in "${tableName}": not an object`)
-      }
-      const rec = record as Record<string, unknown>
-      for (const field of fields) {
-        if (!(field in rec) || rec[field] === undefined || rec[field] === null) {
-          throw new Error(`Invalid record in "${tableName}": missing required field "${field}"`)
-        }
-      }
-      // id must be a string — numeric ids cause silent IndexedDB query mismatches
-      if (typeof rec.id !== 'string') {
-        rec.id = String(rec.id)
-      }
-    }
-  }
-
-  // ─── Reconstitute Date objects from ISO strings ──────────────────────
-  // JSON.stringify converts Dates to ISO strings; JSON.parse leaves them
-  // as strings. IndexedDB indexes distinguish types, so string dates break
-  // every .where() and .orderBy() on date-indexed fields.
-  const dateFields: Record<string, string[]> = {
-    clients:        ['dateAdded', 'lastSeen', 'birthday', 'clientSince'],
-    bookings:       ['dateTime', 'createdAt', 'confirmedAt', 'completedAt', 'cancelledAt'],
-    transactions:   ['date'],
-    availability:   ['date'],
-    safetyChecks:   ['scheduledTime', 'checkedInAt'],
-    incidents:      ['date'],
-    payments:       ['date'],
-    journalEntries: ['date', 'createdAt', 'updatedAt'],
-    incallVenues:   ['createdAt', 'updatedAt'],
-    screeningDocs:  ['uploadedAt'],
-    venueDocs:      ['uploadedAt'],
-    bookingChecklist: ['createdAt'],
-  }
-
-  for (const [tableName, fields] of Object.entries(dateFields)) {
-    const records = (t as Record<string, unknown[]>)[tableName]
-    if (!Array.isArray(records)) continue
-    for (const record of records) {
-      const rec = record as Record<string, unknown>
-      for (const f of fields) {
-        if (typeof rec[f] === 'string') {
-          const d = new Date(rec[f] as string)
-          if (!isNaN(d.getTime())) rec[f] = d
-        }
-      }
-    }
-  }
-
-  // ─── Reconstitute Blobs from base64 ─────────────────────────────────
-  if (Array.isArray(t.screeningDocs)) {
-    for (const rec of t.screeningDocs) {
-      const r = rec as Record<string, unknown>
-      if (typeof r.data === 'string' && r.data.length > 0) {
-        r.data = base64ToBlob(r.data as string, (r._blobMime as string) || (r.mimeType as string) || 'application/octet-stream')
-      }
-      delete r._blobMime
-    }
-  }
-  if (Array.isArray(t.venueDocs)) {
-    for (const rec of t.venueDocs) {
-      const r = rec as Record<string, unknown>
-      if (typeof r.data === 'string' && r.data.length > 0) {
-        r.data = base64ToBlob(r.data as string, (r._blobMime as string) || (r.mimeType as string) || 'application/octet-stream')
-      }
-      delete r._blobMime
-    }
-  }
-
-  // Clear all tables and restore data atomically
-  await db.transaction('rw',
-    [db.clients, db.bookings, db.transactions, db.availability, db.safetyContacts,
-     db.safetyChecks, db.incidents, db.serviceRates, db.payments, db.journalEntries,
-     db.incallVenues, db.screeningDocs, db.venueDocs, db.bookingChecklist],
-    async () => {
-      await db.clients.clear()
-      await db.bookings.clear()
-      await db.transactions.clear()
-      await db.availability.clear()
-      await db.safetyContacts.clear()
-      await db.safetyChecks.clear()
-      await db.incidents.clear()
-      await db.serviceRates.clear()
-      await db.payments.clear()
-      await db.journalEntries.clear()
-      await db.incallVenues.clear()
-      await db.screeningDocs.clear()
-      await db.venueDocs.clear()
-      await db.bookingChecklist.clear()
-
-      if (t.clients?.length)          { await db.clients.bulkPut(t.clients as any); total += t.clients.length }
-      if (t.bookings?.length)         { await db.bookings.bulkPut(t.bookings as any); total += t.bookings.length }
-      if (t.transactions?.length)     { await db.transactions.bulkPut(t.transactions as any); total += t.transactions.length }
-      if (t.availability?.length)     { await db.availability.bulkPut(t.availability as any); total += t.availability.length }
-      if (t.safetyContacts?.length)   { await db.safetyContacts.bulkPut(t.safetyContacts as any); total += t.safetyContacts.length }
-      if (t.safetyChecks?.length)     { await db.safetyChecks.bulkPut(t.safetyChecks as any); total += t.safetyChecks.length }
-      if (t.incidents?.length)        { await db.incidents.bulkPut(t.incidents as any); total += t.incidents.length }
-      if (t.serviceRates?.length)     { await db.serviceRates.bulkPut(t.serviceRates as any); total += t.serviceRates.length }
-      if (t.payments?.length)         { await db.payments.bulkPut(t.payments as any); total += t.payments.length }
-      if (t.journalEntries?.length)   { await db.journalEntries.bulkPut(t.journalEntries as any); total += t.journalEntries.length }
-      if (t.incallVenues?.length)     { await db.incallVenues.bulkPut(t.incallVenues as any); total += t.incallVenues.length }
-      if (t.screeningDocs?.length)    { await db.screeningDocs.bulkPut(t.screeningDocs as any); total += t.screeningDocs.length }
-      if (t.venueDocs?.length)        { await db.venueDocs.bulkPut(t.venueDocs as any); total += t.venueDocs.length }
-      if (t.bookingChecklist?.length) { await db.bookingChecklist.bulkPut(t.bookingChecklist as any); total += t.bookingChecklist.length }
-    }
-  )
-
-  // ─── Restore localStorage profile settings ──────────────────────────
-  if (payload.profile && typeof payload.profile === 'object') {
-    for (const [key, val] of Object.entries(payload.profile)) {
-      if (typeof val === 'string') {
-        localStorage.setItem(lsKey(key), val)
-        // Notify mounted useLocalStorage hooks
-        try {
-          window.dispatchEvent(new CustomEvent('ls-sync', { detail: { key: lsKey(key), value: JSON.parse(val) } }))
-        } catch {
-          window.dispatchEvent(new CustomEvent('ls-sync', { detail: { key: lsKey(key), value: val } }))
-        }
-      }
-    }
-  }
-
-  return { total }
-}
-
-function downloadFile(content: string, filename: string) {
-  const blob = new Blob([content], { type: 'application/json' })
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = filename
-  document.body.appendChild(a)
-  a.click()
-  document.body.removeChild(a)
-  // Delay revoking — Android needs time to start the download
-  setTimeout(() => URL.revokeObjectURL(url), 5000)
-}
-
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // COMPONENT
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -360,9 +41,16 @@ export function BackupRestoreModal({ isOpen, onClose }: BackupRestoreProps) {
   const [status, setStatus] = useState<{ type: 'success' | 'error'; msg: string } | null>(null)
   const [working, setWorking] = useState(false)
   const [exporting, setExporting] = useState(false)
-  const [pendingFile, setPendingFile] = useState<File | null>(null)
+  const [pendingFiles, setPendingFiles] = useState<File[]>([])
+  const [preview, setPreview] = useState<{ payload: BackupPayload; diffs: TableDiff[] } | null>(null)
+  const [confirmReplaceAll, setConfirmReplaceAll] = useState(false)
+  const [chain, setChain] = useState<ChainSummary | null>(null)
   const fileRef = useRef<HTMLInputElement>(null)
 
+  useEffect(() => {
+    if (isOpen) getChainSummary().then(setChain).catch(() => {})
+  }, [isOpen])
+
   // Escape key closes modal
   useEffect(() => {
     if (!isOpen) return
@@ -377,24 +65,47 @@ export function BackupRestoreModal({ isOpen, onClose }: BackupRestoreProps) {
     setWorking(true)
     setStatus(null)
     try {
-      const payload = await createBackup()
-      const json = JSON.stringify(payload, null, 2)
-
-      const totalRecords = Object.values(payload.tables).reduce((sum, arr) => sum + arr.length, 0)
-
-      if (useEncryption && password.trim()) {
-        const encrypted = await encryptData(json, password.trim())
-        const wrapper = JSON.stringify({ encrypted: true, data: encrypted })
-        const date = new Date().toISOString().split('T')[0]
-        downloadFile(wrapper, `companion-backup-${date}.enc.json`)
-        recordBackupTimestamp()
-        setStatus({ type: 'success', msg: `Encrypted backup saved — ${totalRecords} records` })
-      } else {
-        const date = new Date().toISOString().split('T')[0]
-        downloadFile(json, `companion-backup-${date}.json`)
-        recordBackupTimestamp()
-        setStatus({ type: 'success', msg: `Backup saved — ${totalRecords} records` })
+      // Streamed container — documents stay binary and are encrypted in
+      // chunks, so large photo libraries don't exhaust memory on older phones
+      const encrypt = useEncryption && !!password.trim()
+      const { sink, finish } = createBlobSink()
+      const { records } = await writeBackupContainer(sink, encrypt ? password.trim() : undefined)
+      const date = new Date().toISOString().split('T')[0]
+      downloadBlob(finish(), `companion-backup-${date}${BACKUP_CONTAINER_EXTENSION}`)
+      recordBackupTimestamp()
+      setStatus({ type: 'success', msg: `${encrypt ? 'Encrypted backup' : 'Backup'} saved — ${records} records` })
+    } catch (err) {
+      setStatus({ type: 'error', msg: `Backup failed: ${(err as Error).message}` })
+    }
+    setWorking(false)
+  }
+
+  async function handleIncremental() {
+    setWorking(true)
+    setStatus(null)
+    try {
+      const archive = await prepareArchive()
+      const isBase = archive.payload.kind !== 'delta'
+      if (!isBase && archive.changes === 0) {
+        setStatus({ type: 'success', msg: 'No changes since the last incremental backup' })
+        setWorking(false)
+        return
       }
+      const json = JSON.stringify(archive.payload)
+      const encrypt = useEncryption && !!password.trim()
+      const content = encrypt
+        ? JSON.stringify({ encrypted: true, data: await encryptData(json, password.trim()) })
+        : json
+      downloadFile(content, archiveFilename(archive.payload, encrypt))
+      await archive.commit()
+      recordBackupTimestamp()
+      setChain(await getChainSummary())
+      setStatus({
+        type: 'success',
+        msg: isBase
+          ? `Base snapshot saved — ${archive.changes} records`
+          : `Incremental backup #${archive.payload.archive?.seq} saved — ${archive.changes} changes`,
+      })
     } catch (err) {
       setStatus({ type: 'error', msg: `Backup failed: ${(err as Error).message}` })
     }
@@ -402,61 +113,101 @@ export function BackupRestoreModal({ isOpen, onClose }: BackupRestoreProps) {
   }
 
   async function handleRestore(e: React.ChangeEvent<HTMLInputElement>) {
-    const file = e.target.files?.[0]
-    if (!file) return
-    setPendingFile(file)
+    const files = Array.from(e.target.files ?? [])
+    if (files.length === 0) return
     if (fileRef.current) fileRef.current.value = ''
-  }
+    if (files.length > 1) {
+      setPendingFiles(files)
+      return
+    }
 
-  async function confirmRestore() {
-    if (!pendingFile) return
+    // Single backup: show what it would change before touching anything
     setWorking(true)
     setStatus(null)
-    setPendingFile(null)
-
     try {
-      const text = await pendingFile.text()
-      let parsed = JSON.parse(text)
-
-      // Check if encrypted
-      if (parsed.encrypted) {
-        if (!password.trim()) {
-          setStatus({ type: 'error', msg: 'This backup is encrypted — enter the password above' })
-          setWorking(false)
-          return
-        }
-        try {
-          const decrypted = await decryptData(parsed.data, password.trim())
-          parsed = JSON.parse(decrypted)
-        } catch {
-          setStatus({ type: 'error', msg: 'Wrong password or corrupted backup' })
-          setWorking(false)
-          return
-        }
+      const payload = await readBackupFile(files[0])
+      if (payload.kind === 'delta') {
+        throw new Error('This is an incremental backup — select it together with its base snapshot')
       }
+      setPreview({ payload, diffs: await previewRestore(payload) })
+    } catch (err) {
+      setStatus({ type: 'error', msg: `Restore failed: ${(err as Error).message}` })
+    }
+    setWorking(false)
+  }
 
-      if (!parsed.version || !parsed.tables) {
-        setStatus({ type: 'error', msg: 'Invalid backup file format' })
-        setWorking(false)
-        return
-      }
+  async function handleSelectiveRestore(tables: BackupTableName[], mode: RestoreMode) {
+    if (!preview) return
+    setWorking(true)
+    setStatus(null)
+    try {
+      const { written } = await restoreSelectedTables(preview.payload, tables, mode)
+      setPreview(null)
+      setStatus({
+        type: 'success',
+        msg: mode === 'merge'
+          ? `Merged ${written} record${written !== 1 ? 's' : ''} from backup`
+          : `Replaced ${tables.length} table${tables.length !== 1 ? 's' : ''} — ${written} records restored`,
+      })
+    } catch (err) {
+      setStatus({ type: 'error', msg: `Restore failed: ${(err as Error).message}` })
+    }
+    setWorking(false)
+  }
 
-      // Reject backups from a newer version — they may contain tables or
-      // fields this version doesn't know about, causing silent data loss.
-      if (parsed.version > CURRENT_BACKUP_VERSION) {
-        setStatus({
-          type: 'error',
-          msg: `This backup is from a newer version of Companion (v${parsed.version}). Please update the app before restoring (current: v${CURRENT_BACKUP_VERSION}).`,
-        })
-        setWorking(false)
-        return
+  async function readBackupFile(file: File): Promise<BackupPayload> {
+    if (await isBackupContainer(file)) return readBackupContainer(file, password.trim() || undefined)
+
+    // Legacy JSON backups (CURRENT_BACKUP_VERSION 3 and earlier, incremental archives)
+    let parsed = JSON.parse(await file.text())
+
+    // Check if encrypted
+    if (parsed.encrypted) {
+      if (!password.trim()) throw new Error('This backup is encrypted — enter the password above')
+      try {
+        parsed = JSON.parse(await decryptData(parsed.data, password.trim()))
+      } catch {
+        throw new Error(`Wrong password or corrupted backup (${file.name})`)
       }
+    }
+
+    if (!parsed.version || !parsed.tables) throw new Error(`Invalid backup file format (${file.name})`)
+
+    // Reject full backups and incremental archives from a newer version —
+    // they may contain tables or fields this version doesn't know about,
+    // causing silent data loss. Both share CURRENT_BACKUP_VERSION; `kind`
+    // tells a delta apart, and restoreArchiveChain() applies it on its base.
+    if (parsed.version > CURRENT_BACKUP_VERSION) {
+      throw new Error(`This backup is from a newer version of Companion (v${parsed.version}). Please update the app before restoring (current: v${CURRENT_BACKUP_VERSION}).`)
+    }
+    return parsed as BackupPayload
+  }
+
+  async function confirmRestore() {
+    const files = pendingFiles
+    const previewed = confirmReplaceAll ? preview?.payload : undefined
+    if (files.length === 0 && !previewed) return
+    setWorking(true)
+    setStatus(null)
+    setPendingFiles([])
+    setConfirmReplaceAll(false)
+    setPreview(null)
 
-      const result = await restoreBackup(parsed as BackupPayload)
+    try {
+      const payloads: BackupPayload[] = previewed ? [previewed] : []
+      for (const file of files) payloads.push(await readBackupFile(file))
+
+      const result = await restoreArchiveChain(payloads)
       // Reset migration flag in Dexie so migrateToPaymentLedger() re-runs in case
       // this backup pre-dates the payments ledger (has no payments table).
       await db.meta.delete('paymentsLedgerMigrated')
-      setStatus({ type: 'success', msg: `Restored ${result.total} records from backup` })
+      setChain(null)
+      setStatus({
+        type: 'success',
+        msg: result.archives > 1
+          ? `Restored ${result.total} records from ${result.archives} backup files`
+          : `Restored ${result.total} records from backup`,
+      })
     } catch (err) {
       setStatus({ type: 'error', msg: `Restore failed: ${(err as Error).message}` })
     }
@@ -550,8 +301,33 @@ export function BackupRestoreModal({ isOpen, onClose }: BackupRestoreProps) {
             <p className="text-[10px] text-center mt-2" style={{ color: 'var(--text-secondary)' }}>
               Includes all clients, bookings, finances, venues, journals, safety data, screening docs, and settings
             </p>
+            <button
+              onClick={handleIncremental}
+              disabled={working || (useEncryption && !password.trim())}
+              className="w-full flex items-center justify-center gap-2 p-3 mt-3 rounded-xl font-medium text-sm border active:scale-[0.98] disabled:opacity-40"
+              style={{ borderColor: '#a855f7', color: '#a855f7' }}
+            >
+              <Layers size={16} />
+              {chain ? 'Download Incremental Backup' : 'Start Incremental Backups'}
+            </button>
+            <p className="text-[10px] text-center mt-2" style={{ color: 'var(--text-secondary)' }}>
+              {chain
+                ? `Only changes since ${new Date(chain.lastCreated).toLocaleDateString()} · base from ${new Date(chain.baseCreated).toLocaleDateString()} + ${chain.seq} incremental${chain.seq !== 1 ? 's' : ''}`
+                : 'Saves a base snapshot first, then only what changed — keep every file of the chain'}
+            </p>
+            {chain && (
+              <button
+                onClick={async () => { await resetBackupChain(); setChain(null) }}
+                disabled={working}
+                className="block mx-auto mt-1 text-[10px] font-medium text-purple-500 active:opacity-70"
+              >
+                Start a new base snapshot next time
+              </button>
+            )}
           </div>
 
+          <ScheduledBackupSection password={useEncryption ? password.trim() : ''} onStatus={setStatus} />
+
           {/* Export to Excel */}
           <div>
             <p className="text-xs font-semibold uppercase mb-3" style={{ color: 'var(--text-secondary)' }}>Export to Excel</p>
@@ -586,23 +362,38 @@ export function BackupRestoreModal({ isOpen, onClose }: BackupRestoreProps) {
             <input
               ref={fileRef}
               type="file"
-              accept=".json"
+              accept=".json,.cbak"
+              multiple
               onChange={handleRestore}
               className="hidden"
             />
-            <button
-              onClick={() => fileRef.current?.click()}
-              disabled={working}
-              className="w-full flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed transition-colors active:scale-[0.98]"
-              style={{ borderColor: 'var(--border)', color: 'var(--text-secondary)' }}
-            >
-              <Upload size={18} />
-              <span className="text-sm font-medium">
-                {working ? 'Restoring...' : 'Choose backup file'}
-              </span>
-            </button>
-            <p className="text-[10px] text-center mt-2 text-red-400">
-              Warning: Restoring will replace ALL current data
+            {preview ? (
+              <RestorePreview
+                created={preview.payload.created}
+                diffs={preview.diffs}
+                working={working}
+                onRestoreSelected={handleSelectiveRestore}
+                onReplaceAll={() => setConfirmReplaceAll(true)}
+                onCancel={() => setPreview(null)}
+              />
+            ) : (
+              <button
+                onClick={() => fileRef.current?.click()}
+                disabled={working}
+                className="w-full flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed transition-colors active:scale-[0.98]"
+                style={{ borderColor: 'var(--border)', color: 'var(--text-secondary)' }}
+              >
+                <Upload size={18} />
+                <span className="text-sm font-medium">
+                  {working ? 'Restoring...' : 'Choose backup file(s)'}
+                </span>
+              </button>
+            )}
+            <p className="text-[10px] text-center mt-2" style={{ color: 'var(--text-secondary)' }}>
+              A single backup is compared with this device first — restore only some tables, merge, or replace everything.
+            </p>
+            <p className="text-[10px] text-center mt-1" style={{ color: 'var(--text-secondary)' }}>
+              For incremental backups, select the base snapshot and all of its incremental files together.
             </p>
             <p className="text-[10px] text-center mt-1" style={{ color: 'var(--text-secondary)' }}>
               If PIN lock is enabled, encrypted fields (contacts, notes) are only readable when restored on the same device. To transfer to a new device, disable PIN lock before backing up.
@@ -628,14 +419,130 @@ export function BackupRestoreModal({ isOpen, onClose }: BackupRestoreProps) {
       </div>
     </div>
     <ConfirmDialog
-      isOpen={!!pendingFile}
+      isOpen={pendingFiles.length > 0 || confirmReplaceAll}
       title="Restore Backup"
-      message="This will REPLACE all current data with the backup. This cannot be undone."
+      message={pendingFiles.length > 1
+        ? `This will REPLACE all current data with the ${pendingFiles.length} selected backup files. This cannot be undone.`
+        : 'This will REPLACE all current data with the backup. This cannot be undone.'}
       confirmLabel="Replace All Data"
       confirmColor="#f97316"
       onConfirm={confirmRestore}
-      onCancel={() => setPendingFile(null)}
+      onCancel={() => { setPendingFiles([]); setConfirmReplaceAll(false) }}
     />
     </>
   )
 }
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SCHEDULED BACKUPS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function ScheduledBackupSection({ password, onStatus }: {
+  password: string
+  onStatus: (status: { type: 'success' | 'error'; msg: string } | null) => void
+}) {
+  const [enabled, setEnabled] = useLocalStorage(AUTO_BACKUP_ENABLED_KEY, false)
+  const [hasKey, setHasKey] = useState(false)
+  const [folder, setFolder] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    hasAutoBackupPassword().then(setHasKey).catch(() => {})
+    getBackupFolderName().then(setFolder).catch(() => {})
+  }, [])
+
+  async function handleUsePassword() {
+    setBusy(true)
+    try {
+      await setAutoBackupPassword(password)
+      setHasKey(true)
+      onStatus({ type: 'success', msg: 'Scheduled backups will use this password' })
+    } catch (err) {
+      onStatus({ type: 'error', msg: `Could not save key: ${(err as Error).message}` })
+    }
+    setBusy(false)
+  }
+
+  async function handleChooseFolder() {
+    try {
+      setFolder(await chooseBackupFolder())
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') onStatus({ type: 'error', msg: `Folder access failed: ${(err as Error).message}` })
+    }
+  }
+
+  async function handleRunNow() {
+    setBusy(true)
+    onStatus(null)
+    try {
+      const result = await runScheduledBackup(true)
+      if (result.status === 'saved') {
+        onStatus({ type: 'success', msg: `Scheduled backup saved${result.target === 'folder' ? ` to ${folder}` : ''} — ${result.changes} changes` })
+      } else if (result.status === 'unchanged') {
+        onStatus({ type: 'success', msg: 'Nothing changed since the last backup' })
+      } else {
+        onStatus({ type: 'error', msg: result.reason })
+      }
+    } catch (err) {
+      onStatus({ type: 'error', msg: `Backup failed: ${(err as Error).message}` })
+    }
+    setBusy(false)
+  }
+
+  return (
+    <div>
+      <p className="text-xs font-semibold uppercase mb-3" style={{ color: 'var(--text-secondary)' }}>Scheduled Backups</p>
+      <div className="rounded-xl p-3" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+        <FieldToggle
+          label="Back up automatically"
+          value={enabled}
+          onChange={setEnabled}
+          disabled={!hasKey}
+          hint={hasKey
+            ? 'When a backup is due (see Backup Reminder in Settings), an encrypted incremental backup is saved on app open.'
+            : 'Enter a password above and tap "Use this password" to turn on scheduled backups.'}
+        />
+        <button
+          onClick={handleUsePassword}
+          disabled={busy || !password}
+          className="flex items-center gap-2 text-xs font-medium text-purple-500 active:opacity-70 disabled:opacity-40 mb-2"
+        >
+          <Lock size={12} />
+          {hasKey ? 'Change to the password above' : 'Use this password'}
+        </button>
+        {supportsBackupFolder() ? (
+          <div className="flex items-center gap-2 mb-2">
+            <button
+              onClick={handleChooseFolder}
+              className="flex items-center gap-2 text-xs font-medium text-purple-500 active:opacity-70"
+            >
+              <FolderOpen size={12} />
+              {folder ? `Saving to "${folder}"` : 'Choose backup folder'}
+            </button>
+            {folder && (
+              <button
+                onClick={async () => { await clearBackupFolder(); setFolder(null) }}
+                className="text-[10px]"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ) : (
+          <p className="text-[10px] mb-2" style={{ color: 'var(--text-secondary)' }}>
+            This browser can't write to a folder — scheduled backups will remind you to download instead.
+          </p>
+        )}
+        <button
+          onClick={handleRunNow}
+          disabled={busy || !hasKey}
+          className="flex items-center gap-2 text-xs font-medium text-purple-500 active:opacity-70 disabled:opacity-40"
+        >
+          <Clock size={12} />
+          {busy ? 'Saving...' : 'Run scheduled backup now'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react'
+import { CalendarDays, Copy, ExternalLink, RefreshCw } from 'lucide-react'
+import { FieldToggle } from './FormFields'
+import { ConfirmDialog } from './ConfirmDialog'
+import { showToast } from './Toast'
+import { useLocalStorage } from '../hooks/useSettings'
+import { downloadCalendarICS } from '../utils/icsExport'
+import {
+  CALENDAR_PRIVACY_KEY, CALENDAR_ALARM_KEY, CALENDAR_AVAILABILITY_KEY, CALENDAR_FEED_KEY,
+  calendarOptions, createCalendarFeed, calendarFeedUrl, publishCalendarFeed, unpublishCalendarFeed,
+  type CalendarFeed,
+} from '../utils/calendarFeed'
+
+const ALARM_OPTIONS = [0, 15, 30, 60]
+
+/** Settings → Calendar: full .ics export and the subscription feed. */
+export function CalendarFeedSettings() {
+  const [privacy, setPrivacy] = useLocalStorage(CALENDAR_PRIVACY_KEY, true)
+  const [alarmMinutes, setAlarmMinutes] = useLocalStorage(CALENDAR_ALARM_KEY, 30)
+  const [includeAvailability, setIncludeAvailability] = useLocalStorage(CALENDAR_AVAILABILITY_KEY, true)
+  const [feed, setFeed] = useLocalStorage<CalendarFeed | null>(CALENDAR_FEED_KEY, null)
+  const [busy, setBusy] = useState(false)
+  const [confirm, setConfirm] = useState<'disable' | 'reset' | null>(null)
+
+  // Feed options changed — republish now rather than on the next background round
+  useEffect(() => {
+    if (feed) publishCalendarFeed(feed).catch(err => console.error('Calendar feed publish failed:', err))
+  }, [privacy, alarmMinutes, includeAvailability]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  async function handleExport() {
+    try {
+      await downloadCalendarICS(calendarOptions())
+      showToast('Calendar exported')
+    } catch (err) {
+      showToast(`Export failed: ${(err as Error).message}`, 'error')
+    }
+  }
+
+  async function startFeed() {
+    const next = createCalendarFeed()
+    await publishCalendarFeed(next, true)
+    setFeed(next)
+  }
+
+  async function handleToggle(value: boolean) {
+    if (!value) {
+      setConfirm('disable')
+      return
+    }
+    setBusy(true)
+    try {
+      await startFeed()
+      showToast('Calendar feed published')
+    } catch (err) {
+      showToast(`Publish failed: ${(err as Error).message}`, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleConfirm() {
+    const action = confirm
+    setConfirm(null)
+    if (!feed) return
+    setBusy(true)
+    try {
+      await unpublishCalendarFeed(feed)
+      if (action === 'reset') {
+        await startFeed()
+        showToast('New link created — subscribe again on your devices')
+      } else {
+        setFeed(null)
+        showToast('Calendar feed turned off')
+      }
+    } catch (err) {
+      showToast(`Update failed: ${(err as Error).message}`, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function copyLink() {
+    if (!feed) return
+    navigator.clipboard?.writeText(calendarFeedUrl(feed))
+      .then(() => showToast('Calendar link copied'))
+      .catch(() => showToast('Copy failed', 'error'))
+  }
+
+  return (
+    <div className="mb-3">
+      <button type="button" onClick={handleExport}
+        className="flex items-center gap-3 w-full py-2.5 mb-1 active:opacity-70">
+        <CalendarDays size={16} style={{ color: '#a855f7' }} />
+        <span className="text-sm font-medium text-purple-500">Export Calendar (.ics)</span>
+      </button>
+      <p className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+        All upcoming bookings{includeAvailability ? ' and the next two months of availability' : ''} in one file.
+        Importing it again updates events instead of duplicating them.
+      </p>
+
+      <FieldToggle
+        label="Privacy Mode"
+        value={privacy}
+        onChange={setPrivacy}
+        hint={privacy
+          ? 'Events are titled "Appointment" — no client names, addresses, amounts or notes.'
+          : 'Events include client aliases, addresses, totals and notes.'}
+      />
+      <FieldToggle
+        label="Include Availability"
+        value={includeAvailability}
+        onChange={setIncludeAvailability}
+        hint="Open hours show as free time; Busy and Off days as all-day events."
+      />
+      <div className="mb-3">
+        <label className="text-xs font-semibold block mb-1.5" style={{ color: 'var(--text-primary)' }}>
+          Reminder
+        </label>
+        <div className="flex gap-2 flex-wrap">
+          {ALARM_OPTIONS.map(mins => (
+            <button
+              key={mins}
+              type="button"
+              onClick={() => setAlarmMinutes(mins)}
+              aria-pressed={alarmMinutes === mins}
+              className="px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors"
+              style={{
+                backgroundColor: alarmMinutes === mins ? '#a855f7' : 'var(--bg-primary)',
+                color: alarmMinutes === mins ? '#fff' : 'var(--text-secondary)',
+                border: `1px solid ${alarmMinutes === mins ? '#a855f7' : 'var(--border)'}`,
+              }}
+            >
+              {mins === 0 ? 'None' : mins === 60 ? '1 hour before' : `${mins} min before`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <FieldToggle
+        label="Calendar Subscription"
+        value={!!feed}
+        onChange={handleToggle}
+        disabled={busy}
+        hint={feed
+          ? 'Your calendar app checks this link for changes — usually every hour or so.'
+          : 'Publish a private link your phone calendar can subscribe to. It stays up to date while this app is in use.'}
+      />
+      {feed && (
+        <div className="rounded-lg px-3 py-2.5 mb-2" style={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border)' }}>
+          {!privacy && (
+            <p className="text-[11px] mb-2" style={{ color: '#f97316' }}>
+              Privacy Mode is off — the feed is stored unencrypted on the server and includes client details.
+            </p>
+          )}
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-[11px] font-mono break-all p-2 rounded-lg" style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}>
+              {calendarFeedUrl(feed)}
+            </code>
+            <button type="button" onClick={copyLink} className="p-2" style={{ color: 'var(--text-secondary)' }} aria-label="Copy calendar link">
+              <Copy size={14} />
+            </button>
+          </div>
+          <div className="flex items-center gap-4 mt-2">
+            <a href={calendarFeedUrl(feed)} className="flex items-center gap-1 text-xs font-medium text-purple-500 active:opacity-70">
+              <ExternalLink size={12} />
+              Subscribe
+            </a>
+            <button type="button" onClick={() => setConfirm('reset')} disabled={busy}
+              className="flex items-center gap-1 text-xs font-medium text-purple-500 active:opacity-70 disabled:opacity-40">
+              <RefreshCw size={12} />
+              Reset link
+            </button>
+          </div>
+          <p className="text-[11px] mt-2" style={{ color: 'var(--text-secondary)' }}>
+            Anyone with this link can see the calendar. Reset it if it was shared by mistake.
+          </p>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirm !== null}
+        title={confirm === 'reset' ? 'Reset Calendar Link' : 'Turn Off Calendar Subscription'}
+        message={confirm === 'reset'
+          ? 'The current link stops working and a new one is created. Devices subscribed to the old link need to subscribe again.'
+          : 'The published calendar is deleted. Subscribed calendars keep their last copy until they next refresh.'}
+        confirmLabel={confirm === 'reset' ? 'Reset' : 'Turn Off'}
+        onConfirm={handleConfirm}
+        onCancel={() => setConfirm(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { useRef, useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { CalendarX, Trash2 } from 'lucide-react'
+import { db } from '../db'
+import { ConfirmDialog } from './ConfirmDialog'
+import { showToast } from './Toast'
+import { importCalendarFile, removeCalendarSource } from '../utils/icsImport'
+
+/** Settings → Calendar: import personal calendars (.ics) as blocked time. */
+export function CalendarImportSettings() {
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [importing, setImporting] = useState(false)
+  const [removeTarget, setRemoveTarget] = useState<string | null>(null)
+  const sources = useLiveQuery(async () => {
+    const counts = new Map<string, number>()
+    await db.blockedTimes.each(b => counts.set(b.source, (counts.get(b.source) ?? 0) + 1))
+    return [...counts].sort(([a], [b]) => a.localeCompare(b))
+  }) ?? []
+
+  async function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length === 0) return
+    setImporting(true)
+    try {
+      for (const file of files) {
+        const { source, added, updated, removed } = await importCalendarFile(file)
+        const parts = [`${added} added`]
+        if (updated) parts.push(`${updated} updated`)
+        if (removed) parts.push(`${removed} removed`)
+        showToast(`${source}: ${parts.join(', ')}`)
+      }
+    } catch (err) {
+      showToast(`Import failed: ${(err as Error).message}`, 'error')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  async function handleRemove() {
+    const source = removeTarget
+    setRemoveTarget(null)
+    if (!source) return
+    await removeCalendarSource(source)
+    showToast(`${source} removed`)
+  }
+
+  return (
+    <div className="mb-3">
+      <input ref={fileRef} type="file" accept=".ics,text/calendar" multiple onChange={handleFiles} className="hidden" />
+      <button type="button" onClick={() => fileRef.current?.click()} disabled={importing}
+        className="flex items-center gap-3 w-full py-2.5 mb-1 active:opacity-70 disabled:opacity-40">
+        <CalendarX size={16} style={{ color: '#a855f7' }} />
+        <span className="text-sm font-medium text-purple-500">{importing ? 'Importing…' : 'Import Calendar (.ics)'}</span>
+      </button>
+      <p className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+        Personal events show greyed out on the schedule and count as conflicts when booking. The file is read on
+        this device only. Import a newer export of the same calendar to update it.
+      </p>
+
+      {sources.length > 0 && (
+        <div className="rounded-lg mb-2" style={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border)' }}>
+          {sources.map(([source, count], i) => (
+            <div key={source} className="flex items-center gap-3 px-3 py-2"
+              style={{ borderTop: i > 0 ? '1px solid var(--border)' : undefined }}>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>{source}</p>
+                <p className="text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+                  {count} blocked {count === 1 ? 'time' : 'times'}
+                </p>
+              </div>
+              <button type="button" onClick={() => setRemoveTarget(source)} className="p-2"
+                style={{ color: 'var(--text-secondary)' }} aria-label={`Remove ${source}`}>
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={removeTarget !== null}
+        title="Remove Imported Calendar"
+        message={`All blocked time from "${removeTarget ?? ''}" is removed from your schedule. The calendar itself isn't changed.`}
+        confirmLabel="Remove"
+        onConfirm={handleRemove}
+        onCancel={() => setRemoveTarget(null)}
+      />
+    </div>
+  )
+}
@@ -1,8 +1,15 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { useScrollLock } from '../hooks/useScrollLock'
 import { useLiveQuery } from 'dexie-react-hooks'
-import { db, formatCurrency, recordBookingPayment, newId } from '../db'
+import { db, formatCurrency, recordBookingPayment, newId, bookingEndTime } from '../db'
 import { showToast } from './Toast'
+import { WaitlistOffers } from './WaitlistOffers'
+import { fmtDateAndTime } from '../utils/dateFormat'
+import { bookingTimeZone } from '../utils/timeZone'
+import { isRecurring, cancelSeries } from '../utils/recurrence'
+import type { SeriesScope } from '../utils/recurrence'
+import { findWaitlistMatches } from '../utils/waitlist'
+import type { WaitlistMatch } from '../utils/waitlist'
 import type { Booking, BookingStatus, PaymentMethod, CancelledBy, DepositOutcome } from '../types'
 
 const paymentMethods: PaymentMethod[] = ['Cash', 'e-Transfer', 'Crypto', 'Venmo', 'Cash App', 'Zelle', 'Gift Card', 'Other']
@@ -20,7 +27,10 @@ export function CancellationSheet({ booking, mode, onClose }: CancellationSheetP
   const [depositOutcome, setDepositOutcome] = useState<DepositOutcome | ''>('')
   const [feeAmount, setFeeAmount] = useState('')
   const [feeMethod, setFeeMethod] = useState<PaymentMethod | ''>('')
+  const [scope, setScope] = useState<SeriesScope>('this')
   const [saving, setSaving] = useState(false)
+  // Set once the slot is freed and waitlisted clients fit it
+  const [offers, setOffers] = useState<WaitlistMatch[] | null>(null)
 
   const client = useLiveQuery(
     () => booking?.clientId ? db.clients.get(booking.clientId) : undefined,
@@ -41,6 +51,8 @@ export function CancellationSheet({ booking, mode, onClose }: CancellationSheetP
       setDepositOutcome('')
       setFeeAmount('')
       setFeeMethod('')
+      setScope('this')
+      setOffers(null)
     }
   }, [booking?.id, mode])
 
@@ -146,12 +158,23 @@ export function CancellationSheet({ booking, mode, onClose }: CancellationSheetP
       }
     })
 
+    // Cancel the rest of the series too, and stop it generating more
+    const others = mode === 'cancel' && scope !== 'this'
+      ? await cancelSeries(booking, scope, { cancelledBy, cancellationReason: cancelReason.trim() || undefined })
+      : 0
+
     showToast(
       mode === 'noshow'
-        ? fee > 0 ? `Marked no-show · ${formatCurrency(fee)} fee recorded` : 'Marked as no-show'
-        : fee > 0 ? `Booking cancelled · ${formatCurrency(fee)} fee recorded` : 'Booking cancelled'
+        ? fee > 0 ? `Marked no-show · ${formatCurrency(fee, booking.currency)} fee recorded` : 'Marked as no-show'
+        : others > 0 ? `${others + 1} bookings cancelled${fee > 0 ? ` · ${formatCurrency(fee, booking.currency)} fee recorded` : ''}`
+        : fee > 0 ? `Booking cancelled · ${formatCurrency(fee, booking.currency)} fee recorded` : 'Booking cancelled'
     )
-    onClose()
+
+    // Offer the freed time to the waitlist before closing
+    const matches = await findWaitlistMatches(new Date(booking.dateTime), bookingEndTime(booking), booking.clientId)
+      .catch(() => [])
+    if (matches.length > 0) setOffers(matches)
+    else onClose()
     } catch (err) {
       showToast(`Failed to ${mode === 'noshow' ? 'mark no-show' : 'cancel booking'}`, 'error')
     } finally {
@@ -170,13 +193,31 @@ export function CancellationSheet({ booking, mode, onClose }: CancellationSheetP
       >
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-base font-bold" style={{ color: 'var(--text-primary)' }}>
-            {mode === 'noshow' ? 'Mark as No-Show' : 'Cancel Booking'}
+            {offers ? 'Slot Opened' : mode === 'noshow' ? 'Mark as No-Show' : 'Cancel Booking'}
           </h3>
           <button onClick={onClose} className="text-sm" style={{ color: 'var(--text-secondary)' }}>
             Dismiss
           </button>
         </div>
 
+        {offers ? (
+          <>
+            <p className="text-sm mb-1" style={{ color: 'var(--text-primary)' }}>
+              {fmtDateAndTime(new Date(booking.dateTime))} is free again.
+            </p>
+            <p className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+              {offers.length === 1 ? '1 waitlisted client wants' : `${offers.length} waitlisted clients want`} this time — most reliable first.
+            </p>
+            <WaitlistOffers slot={new Date(booking.dateTime)} timeZone={bookingTimeZone(booking)} matches={offers} />
+            <button
+              onClick={onClose}
+              className="w-full mt-4 py-3 rounded-xl text-sm font-semibold"
+              style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-secondary)', border: '1px solid var(--border)' }}
+            >
+              Done
+            </button>
+          </>
+        ) : (<>
         {/* Cancelled by (cancel only) */}
         {mode === 'cancel' && (
           <div className="mb-4">
@@ -202,6 +243,40 @@ export function CancellationSheet({ booking, mode, onClose }: CancellationSheetP
           </div>
         )}
 
+        {/* Series scope (cancel only, recurring bookings) */}
+        {mode === 'cancel' && isRecurring(booking) && (
+          <div className="mb-4">
+            <label className="text-xs font-medium mb-1.5 block" style={{ color: 'var(--text-secondary)' }}>
+              Recurring booking — cancel
+            </label>
+            <div className="flex rounded-lg overflow-hidden" style={{ border: '1px solid var(--border)' }}>
+              {([
+                ['this', 'This one'],
+                ['following', 'This & following'],
+                ['all', 'All upcoming'],
+              ] as [SeriesScope, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  aria-pressed={scope === value}
+                  onClick={() => setScope(value)}
+                  className="flex-1 py-2 text-xs font-semibold transition-colors"
+                  style={{
+                    backgroundColor: scope === value ? '#a855f7' : 'transparent',
+                    color: scope === value ? '#fff' : 'var(--text-secondary)',
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {scope !== 'this' && (
+              <p className="text-[10px] mt-1.5" style={{ color: 'var(--text-secondary)' }}>
+                The series ends here — no new occurrences will be added. The fee and deposit below apply to this booking only.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Reason (cancel only) */}
         {mode === 'cancel' && (
           <div className="mb-4">
@@ -226,7 +301,7 @@ export function CancellationSheet({ booking, mode, onClose }: CancellationSheetP
             style={{ backgroundColor: 'var(--bg-secondary)', border: '1px solid var(--border)' }}
           >
             <p className="text-xs font-semibold mb-1" style={{ color: 'var(--text-secondary)' }}>
-              Deposit received: {formatCurrency(totalDeposits)}
+              Deposit received: {formatCurrency(totalDeposits, booking.currency)}
             </p>
             <p className="text-[10px] mb-3" style={{ color: 'var(--text-secondary)' }}>
               What happened to the deposit?
@@ -313,10 +388,11 @@ export function CancellationSheet({ booking, mode, onClose }: CancellationSheetP
           style={{ backgroundColor: mode === 'noshow' ? '#ef4444' : '#6b7280' }}
         >
           {mode === 'noshow'
-            ? `Mark No-Show${feeAmount && parseFloat(feeAmount) > 0 ? ` · Record ${formatCurrency(parseFloat(feeAmount))} Fee` : ''}`
-            : `Cancel Booking${feeAmount && parseFloat(feeAmount) > 0 ? ` · Record ${formatCurrency(parseFloat(feeAmount))} Fee` : ''}`
+            ? `Mark No-Show${feeAmount && parseFloat(feeAmount) > 0 ? ` · Record ${formatCurrency(parseFloat(feeAmount), booking.currency)} Fee` : ''}`
+            : `Cancel Booking${feeAmount && parseFloat(feeAmount) > 0 ? ` · Record ${formatCurrency(parseFloat(feeAmount), booking.currency)} Fee` : ''}`
           }
         </button>
+        </>)}
       </div>
     </div>
   )
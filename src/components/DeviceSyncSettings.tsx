@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react'
+import { RefreshCw, Smartphone, Copy, Link } from 'lucide-react'
+import { FieldToggle } from './FormFields'
+import { ConfirmDialog } from './ConfirmDialog'
+import { PinLock } from './PinLock'
+import { showToast } from './Toast'
+import { useLocalStorage, lsKey } from '../hooks/useSettings'
+import { exportMasterKey, adoptMasterKey, isFieldEncryptionReady } from '../db/fieldCrypto'
+import {
+  SYNC_ENABLED_KEY, enableSync, disableSync, syncNow,
+  getSyncStatus, subscribeSyncStatus, type SyncStatus,
+} from '../db/sync'
+
+interface DeviceSyncSettingsProps {
+  pinEnabled: boolean
+}
+
+function formatLastSynced(ts?: number): string {
+  if (!ts) return 'Not synced yet'
+  const mins = Math.floor((Date.now() - ts) / 60_000)
+  if (mins < 1) return 'Last synced: just now'
+  if (mins < 60) return `Last synced: ${mins} min ago`
+  const hours = Math.floor(mins / 60)
+  if (hours < 24) return `Last synced: ${hours}h ago`
+  return `Last synced: ${new Date(ts).toLocaleDateString()}`
+}
+
+/** Settings → Data: opt-in encrypted sync and device pairing. */
+export function DeviceSyncSettings({ pinEnabled }: DeviceSyncSettingsProps) {
+  const [syncEnabled] = useLocalStorage(SYNC_ENABLED_KEY, false)
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus)
+  const [busy, setBusy] = useState(false)
+  const [showCode, setShowCode] = useState(false)
+  const [showJoin, setShowJoin] = useState(false)
+  const [pendingCode, setPendingCode] = useState<string | null>(null)
+  const [showDisableConfirm, setShowDisableConfirm] = useState(false)
+
+  useEffect(() => subscribeSyncStatus(setStatus), [])
+
+  if (!pinEnabled) {
+    return (
+      <p className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+        Device Sync requires PIN Lock — your data is encrypted with your PIN-protected key before it leaves this device.
+      </p>
+    )
+  }
+
+  async function handleToggle(value: boolean) {
+    if (!value) {
+      setShowDisableConfirm(true)
+      return
+    }
+    setBusy(true)
+    try {
+      await enableSync()
+      showToast('Device Sync enabled')
+    } catch (err) {
+      showToast(`Sync failed: ${(err as Error).message}`, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleJoin(pin: string) {
+    const code = pendingCode
+    setPendingCode(null)
+    if (!code) return
+    setBusy(true)
+    try {
+      await adoptMasterKey(code, pin)
+      await enableSync()
+      showToast('Device paired — syncing')
+    } catch (err) {
+      showToast(`Pairing failed: ${(err as Error).message}`, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="mb-3">
+      <FieldToggle
+        label="Device Sync"
+        value={syncEnabled}
+        onChange={handleToggle}
+        disabled={busy || !isFieldEncryptionReady()}
+        hint={syncEnabled
+          ? 'Changes are end-to-end encrypted and synced between your paired devices.'
+          : 'Keep your phone and tablet in step. Data is encrypted on this device before upload.'}
+      />
+      {syncEnabled && (
+        <div className="rounded-lg px-3 py-2.5 mb-2" style={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border)' }}>
+          <div className="flex items-center justify-between">
+            <span className="text-xs" style={{ color: status.state === 'error' ? '#ef4444' : 'var(--text-secondary)' }}>
+              {status.state === 'syncing'
+                ? 'Syncing…'
+                : status.state === 'error'
+                  ? `Sync error: ${status.error ?? 'unknown'}`
+                  : formatLastSynced(status.lastSyncedAt)}
+            </span>
+            <button
+              type="button"
+              onClick={() => syncNow()}
+              disabled={status.state === 'syncing'}
+              className="flex items-center gap-1 text-xs font-medium text-purple-500 active:opacity-70 disabled:opacity-40"
+            >
+              <RefreshCw size={12} className={status.state === 'syncing' ? 'animate-spin' : ''} />
+              Sync now
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowCode(v => !v)}
+            className="flex items-center gap-2 mt-2 text-xs font-medium text-purple-500 active:opacity-70"
+          >
+            <Smartphone size={12} />
+            {showCode ? 'Hide pairing code' : 'Pair another device'}
+          </button>
+          {showCode && (
+            <div className="mt-2">
+              <p className="text-[11px] mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                On the other device, enable PIN Lock, then choose "Join existing sync" and paste this code.
+                Anyone with this code and your synced data can read it — never share it.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-[11px] font-mono break-all p-2 rounded-lg" style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}>
+                  {exportMasterKey()}
+                </code>
+                <button
+                  type="button"
+                  onClick={() => {
+                    navigator.clipboard?.writeText(exportMasterKey())
+                      .then(() => showToast('Pairing code copied'))
+                      .catch(() => showToast('Copy failed', 'error'))
+                  }}
+                  className="p-2"
+                  style={{ color: 'var(--text-secondary)' }}
+                  aria-label="Copy pairing code"
+                >
+                  <Copy size={14} />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      {!syncEnabled && (
+        <button
+          type="button"
+          onClick={() => setShowJoin(true)}
+          disabled={busy}
+          className="flex items-center gap-2 text-xs font-medium text-purple-500 active:opacity-70 disabled:opacity-40"
+        >
+          <Link size={12} />
+          Join existing sync
+        </button>
+      )}
+
+      <ConfirmDialog
+        isOpen={showJoin}
+        title="Join Existing Sync"
+        message="Paste the pairing code from your other device. This device will switch to that device's encryption key and merge its data with yours."
+        confirmLabel="Continue"
+        confirmColor="#a855f7"
+        inputPlaceholder="Pairing code"
+        onConfirm={(code) => {
+          setShowJoin(false)
+          if (code?.trim()) setPendingCode(code.trim())
+        }}
+        onCancel={() => setShowJoin(false)}
+      />
+      <ConfirmDialog
+        isOpen={showDisableConfirm}
+        title="Turn Off Device Sync"
+        message="This device will stop sending and receiving changes. Data already on your other devices is not affected."
+        confirmLabel="Turn Off"
+        onConfirm={async () => {
+          setShowDisableConfirm(false)
+          await disableSync()
+          showToast('Device Sync turned off')
+        }}
+        onCancel={() => setShowDisableConfirm(false)}
+      />
+
+      {/* Verify PIN before re-keying — the master key is re-wrapped with it */}
+      {pendingCode && (
+        <PinLock
+          correctPin={localStorage.getItem(lsKey('pinCode'))?.replace(/^"|"$/g, '') || ''}
+          isSetup={false}
+          onCancel={() => setPendingCode(null)}
+          onUnlock={handleJoin}
+        />
+      )}
+    </div>
+  )
+}
@@ -84,11 +84,13 @@ export function FieldTextArea({ label, value, onChange, placeholder, hint, icon
   )
 }
 
-export function deriveCurrencySymbol(): string {
+export function deriveCurrencySymbol(code?: string): string {
   try {
-    const raw = localStorage.getItem(lsKey('currency')) || 'USD'
-    let currency: string
-    try { currency = JSON.parse(raw) } catch { currency = raw }
+    let currency = code
+    if (!currency) {
+      const raw = localStorage.getItem(lsKey('currency')) || 'USD'
+      try { currency = JSON.parse(raw) as string } catch { currency = raw }
+    }
     const parts = new Intl.NumberFormat(navigator.language || 'en-US', {
       style: 'currency', currency,
     }).formatToParts(0)
@@ -98,11 +100,11 @@ export function deriveCurrencySymbol(): string {
   }
 }
 
-export function FieldCurrency({ label, value, onChange, hint }:
-  { label: string; value: number; onChange: (v: number) => void; hint?: string }
+export function FieldCurrency({ label, value, onChange, hint, currency }:
+  { label: string; value: number; onChange: (v: number) => void; hint?: string; currency?: string }
 ) {
   const id = useId()
-  const symbol = deriveCurrencySymbol()
+  const symbol = deriveCurrencySymbol(currency)
   const [rawText, setRawText] = React.useState('')
   const [focused, setFocused] = React.useState(false)
 
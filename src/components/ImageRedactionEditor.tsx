@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { X, Undo2, Eraser, Check, ShieldCheck } from 'lucide-react'
+import { useScrollLock } from '../hooks/useScrollLock'
+import { useDocPreviewUrl } from '../hooks/useDocUrls'
+import { useLocalStorage } from '../hooks/useSettings'
+import {
+  sanitizeImage, SCREENING_MAX_DIMENSION_KEY, DEFAULT_SCREENING_MAX_DIMENSION, MAX_DIMENSION_OPTIONS,
+  type RedactionRect,
+} from '../utils/imageSanitize'
+
+interface ImageRedactionEditorProps {
+  file: File
+  /** e.g. "2 of 3" when several images were picked at once */
+  counter?: string
+  /** Sanitized image, plus whether the untouched original should be stored too */
+  onSave: (processed: Blob, keepOriginal: boolean) => Promise<void>
+  /** Image couldn't be decoded here (e.g. HEIC) and the user chose to store it as-is */
+  onKeepOriginal: () => Promise<void>
+  onSkip: () => void
+}
+
+const MIN_RECT = 0.01 // ignore taps — boxes smaller than 1% of the image
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n))
+
+function normalize(a: { x: number; y: number }, b: { x: number; y: number }): RedactionRect {
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), w: Math.abs(b.x - a.x), h: Math.abs(b.y - a.y) }
+}
+
+/**
+ * Full-screen step between picking a screening photo and saving it: black out
+ * ID numbers, addresses or faces, pick a size, then save a re-encoded copy
+ * with all metadata stripped. The original is only stored if asked for.
+ */
+export function ImageRedactionEditor({ file, counter, onSave, onKeepOriginal, onSkip }: ImageRedactionEditorProps) {
+  useScrollLock(true)
+  const [unreadable, setUnreadable] = useState(false)
+  const [rects, setRects] = useState<RedactionRect[]>([])
+  const [draft, setDraft] = useState<RedactionRect | null>(null)
+  const [keepOriginal, setKeepOriginal] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [maxDimension, setMaxDimension] = useLocalStorage(SCREENING_MAX_DIMENSION_KEY, DEFAULT_SCREENING_MAX_DIMENSION)
+  const surfaceRef = useRef<HTMLDivElement>(null)
+  const startRef = useRef<{ x: number; y: number } | null>(null)
+
+  // The original is shown from memory only — never written anywhere
+  const original = useMemo(() => ({ id: file.name, data: file, mimeType: file.type }), [file])
+  const { url } = useDocPreviewUrl(original)
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape' && !saving) onSkip()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onSkip, saving])
+
+  function pointAt(e: React.PointerEvent) {
+    const box = surfaceRef.current!.getBoundingClientRect()
+    return { x: clamp01((e.clientX - box.left) / box.width), y: clamp01((e.clientY - box.top) / box.height) }
+  }
+
+  function handlePointerDown(e: React.PointerEvent) {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    startRef.current = pointAt(e)
+  }
+
+  function handlePointerMove(e: React.PointerEvent) {
+    if (startRef.current) setDraft(normalize(startRef.current, pointAt(e)))
+  }
+
+  function handlePointerUp(e: React.PointerEvent) {
+    if (!startRef.current) return
+    const rect = normalize(startRef.current, pointAt(e))
+    startRef.current = null
+    setDraft(null)
+    if (rect.w >= MIN_RECT && rect.h >= MIN_RECT) setRects(prev => [...prev, rect])
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    if (unreadable) {
+      await onKeepOriginal()
+      setSaving(false)
+      return
+    }
+    let processed: Blob
+    try {
+      processed = await sanitizeImage(file, { maxDimension, redactions: rects })
+    } catch (err) {
+      console.error('Image processing failed:', err)
+      setUnreadable(true)
+      setSaving(false)
+      return
+    }
+    await onSave(processed, keepOriginal)
+    setSaving(false)
+  }
+
+  const boxes = draft ? [...rects, draft] : rects
+
+  return (
+    <div className="fixed inset-0 z-[200] flex flex-col" role="dialog" aria-modal="true" aria-label="Redact image"
+      style={{ backgroundColor: 'rgba(0,0,0,0.95)' }}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 safe-top">
+        <button onClick={onSkip} disabled={saving} className="text-white/80 active:text-white" aria-label="Skip this image">
+          <X size={24} />
+        </button>
+        <div className="text-center">
+          <p className="text-white text-sm font-medium truncate max-w-[200px]">{file.name}</p>
+          {counter && <p className="text-white/50 text-[10px]">{counter}</p>}
+        </div>
+        <div className="w-6" />
+      </div>
+
+      {/* Canvas */}
+      <div className="flex-1 flex items-center justify-center px-4 overflow-hidden">
+        {unreadable ? (
+          <p className="text-white/70 text-sm text-center max-w-xs">
+            This image format can't be edited on this device, so its metadata can't be removed.
+            Convert it to JPEG or PNG, or store the original as-is.
+          </p>
+        ) : url && (
+          <div
+            ref={surfaceRef}
+            className="relative inline-block select-none"
+            style={{ touchAction: 'none', cursor: 'crosshair' }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => { startRef.current = null; setDraft(null) }}
+          >
+            <img
+              src={url}
+              alt={file.name}
+              draggable={false}
+              onError={() => setUnreadable(true)}
+              className="block max-w-full object-contain rounded-lg pointer-events-none"
+              style={{ maxHeight: '60vh' }}
+            />
+            {boxes.map((r, i) => (
+              <div
+                key={i}
+                className="absolute"
+                style={{
+                  left: `${r.x * 100}%`, top: `${r.y * 100}%`, width: `${r.w * 100}%`, height: `${r.h * 100}%`,
+                  backgroundColor: r === draft ? 'rgba(0,0,0,0.6)' : '#000',
+                  outline: r === draft ? '1px dashed #a855f7' : undefined,
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="px-4 pt-3 pb-4 safe-bottom space-y-3">
+        {!unreadable && (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-white/60 text-[11px]">
+                Drag over ID numbers, addresses or faces to black them out.
+              </p>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => setRects(prev => prev.slice(0, -1))}
+                  disabled={rects.length === 0 || saving}
+                  className="p-2 rounded-lg bg-white/10 text-white disabled:opacity-30"
+                  aria-label="Undo last box"
+                >
+                  <Undo2 size={16} />
+                </button>
+                <button
+                  onClick={() => setRects([])}
+                  disabled={rects.length === 0 || saving}
+                  className="p-2 rounded-lg bg-white/10 text-white disabled:opacity-30"
+                  aria-label="Clear all boxes"
+                >
+                  <Eraser size={16} />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-white/60 text-[11px] shrink-0">Size</span>
+              {MAX_DIMENSION_OPTIONS.map(dim => (
+                <button
+                  key={dim}
+                  type="button"
+                  onClick={() => setMaxDimension(dim)}
+                  aria-pressed={maxDimension === dim}
+                  className="px-2.5 py-1 rounded-lg text-[11px] font-semibold"
+                  style={{
+                    backgroundColor: maxDimension === dim ? '#a855f7' : 'rgba(255,255,255,0.1)',
+                    color: '#fff',
+                  }}
+                >
+                  {dim === 0 ? 'Full' : `${dim}px`}
+                </button>
+              ))}
+            </div>
+
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={keepOriginal}
+                onChange={e => setKeepOriginal(e.target.checked)}
+                className="accent-purple-500 mt-0.5"
+              />
+              <span className="text-white/70 text-[11px]">
+                Also keep the unedited original — unredacted, full size, with its location and camera metadata
+              </span>
+            </label>
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onSkip}
+            disabled={saving}
+            className="flex-1 py-3 rounded-xl text-sm font-semibold bg-white/10 text-white disabled:opacity-50"
+          >
+            Skip
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || (!url && !unreadable)}
+            className="flex-1 py-3 rounded-xl text-sm font-semibold text-white flex items-center justify-center gap-1.5 disabled:opacity-50"
+            style={{ backgroundColor: '#a855f7' }}
+          >
+            {unreadable ? <Check size={16} /> : <ShieldCheck size={16} />}
+            {saving ? 'Saving…' : unreadable ? 'Store Original' : 'Save Clean Copy'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
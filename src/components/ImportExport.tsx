@@ -1,7 +1,9 @@
 import { useState, useRef, useEffect } from 'react'
 import { useScrollLock } from '../hooks/useScrollLock'
 import { Upload, X, FileSpreadsheet, FileText, CheckCircle, AlertCircle } from 'lucide-react'
-import { db, newId } from '../db'
+import { db, newId, getCurrency } from '../db'
+import { contactHashesOf, findClientsByContact } from '../db/blindIndex'
+import { isCurrencyCode } from '../utils/fx'
 import type {
   Client, Transaction, ClientTag, SafetyContact,
   ContactMethod, ScreeningStatus, ScreeningMethod, RiskLevel,
@@ -129,6 +131,7 @@ async function exportTransactions(format: Format) {
       Type: t.type,
       Category: t.category,
       Amount: t.amount,
+      Currency: t.currency ?? getCurrency(),
       'Payment Method': t.paymentMethod ?? '',
       Notes: t.notes,
       Client: clientAlias,
@@ -311,14 +314,16 @@ function validateEnum<T extends string>(value: string, allowed: T[], fallback: T
   return allowed.includes(value as T) ? (value as T) : fallback
 }
 
-async function importClients(rows: Record<string, unknown>[]): Promise<{ imported: number; skipped: number; duplicates: number }> {
+async function importClients(rows: Record<string, unknown>[]): Promise<{ imported: number; skipped: number; duplicates: number; blacklisted: number }> {
   const { isPro, getActiveClientCount, FREE_CLIENT_LIMIT } = await import('./planLimits')
   const pro = isPro()
-  const existingClients = await db.clients.toArray()
-  const existingAliases = new Set(existingClients.map(c => c.alias.toLowerCase()))
+  // Aliases and contact hashes are both indexed — no need to load (and decrypt) every client
+  const existingAliases = new Set((await db.clients.orderBy('alias').keys()).map(a => String(a).toLowerCase()))
+  const importedContacts = new Set<string>()
   let imported = 0
   let skipped = 0
   let duplicates = 0
+  let blacklisted = 0
   let activeCount = pro ? 0 : await getActiveClientCount()
   for (const row of rows) {
     if (!pro && activeCount >= FREE_CLIENT_LIMIT) {
@@ -329,9 +334,20 @@ async function importClients(rows: Record<string, unknown>[]): Promise<{ importe
     const alias = String(row['Alias'] ?? row['alias'] ?? '').trim()
     if (!alias) continue
 
-    // Skip duplicates by alias
+    // Skip duplicates by alias, or by a phone/email/handle already on file (or earlier in this file)
     if (existingAliases.has(alias.toLowerCase())) { duplicates++; continue }
+    const contacts = ['Phone', 'Email', 'Telegram', 'Signal', 'WhatsApp']
+      .map(k => String(row[k] ?? row[k.toLowerCase()] ?? '').trim())
+    const hashes = contactHashesOf(contacts)
+    if (hashes.some(h => importedContacts.has(h))) { duplicates++; continue }
+    const matches = await findClientsByContact(contacts)
+    if (matches.length > 0) {
+      duplicates++
+      if (matches.some(c => c.isBlocked)) blacklisted++
+      continue
+    }
     existingAliases.add(alias.toLowerCase())
+    for (const h of hashes) importedContacts.add(h)
 
     const client: Client = {
       id: newId(),
@@ -368,7 +384,7 @@ async function importClients(rows: Record<string, unknown>[]): Promise<{ importe
     if (!client.isBlocked) activeCount++
     imported++
   }
-  return { imported, skipped, duplicates }
+  return { imported, skipped, duplicates, blacklisted }
 }
 
 async function importTransactions(rows: Record<string, unknown>[]): Promise<number> {
@@ -377,9 +393,11 @@ async function importTransactions(rows: Record<string, unknown>[]): Promise<numb
     const amount = Number(row['Amount'] ?? row['amount'] ?? 0)
     if (!amount) continue
 
+    const currency = String(row['Currency'] ?? row['currency'] ?? '').trim().toUpperCase()
     const t: Transaction = {
       id: newId(),
       amount,
+      currency: isCurrencyCode(currency) ? currency : undefined,
       type: validateEnum(String(row['Type'] ?? row['type'] ?? 'income'), VALID_TRANSACTION_TYPES, 'income'),
       category: validateEnum(String(row['Category'] ?? row['category'] ?? 'other'), VALID_TRANSACTION_CATEGORIES, 'other'),
       paymentMethod: (() => {
@@ -574,6 +592,7 @@ export function ImportExportModal({ isOpen, onClose, initialTab = 'clients' }: I
         count = result.imported
         const parts: string[] = []
         if (result.duplicates > 0) parts.push(`${result.duplicates} duplicate${result.duplicates !== 1 ? 's' : ''} skipped`)
+        if (result.blacklisted > 0) parts.push(`${result.blacklisted} matched your blacklist`)
         if (result.skipped > 0) parts.push(`${result.skipped} skipped — free plan limit reached`)
         if (parts.length) skippedMsg = ` (${parts.join(', ')})`
       } else if (dataType === 'transactions') {
@@ -734,7 +753,7 @@ export function ImportExportModal({ isOpen, onClose, initialTab = 'clients' }: I
               {dataType === 'transactions' && (
                 <>
                   <p><strong style={{ color: 'var(--text-primary)' }}>Required:</strong> Amount</p>
-                  <p><strong style={{ color: 'var(--text-primary)' }}>Optional:</strong> Date, Type (income/expense), Category (booking/tip/gift/refund/supplies/travel/advertising/clothing/health/rent/phone/other), Payment Method, Notes</p>
+                  <p><strong style={{ color: 'var(--text-primary)' }}>Optional:</strong> Date, Currency (e.g. EUR), Type (income/expense), Category (booking/tip/gift/refund/supplies/travel/advertising/clothing/health/rent/phone/other), Payment Method, Notes</p>
                 </>
               )}
               {dataType === 'safety_contacts' && (
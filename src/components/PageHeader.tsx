@@ -1,4 +1,6 @@
 import type { ReactNode } from 'react'
+import { Search } from 'lucide-react'
+import { openSearchPalette } from './searchPaletteState'
 
 interface PageHeaderProps {
   title: string
@@ -18,6 +20,10 @@ export function PageHeader({ title, children }: PageHeaderProps) {
           {title}
         </h1>
         <div className="flex items-center gap-2">
+          <button onClick={openSearchPalette} className="p-2 rounded-lg" style={{ color: 'var(--text-secondary)' }}
+            aria-label="Search everything">
+            <Search size={18} />
+          </button>
           {children}
         </div>
       </div>
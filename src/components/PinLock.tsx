@@ -164,7 +164,8 @@ export function PinLock({ onUnlock, correctPin, isSetup, onSetPin, onCancel }: P
       hashPin(pinSnapshot).then(async hash => {
         if (cancelled) { verifyingRef.current = false; return }
 
-        // Duress PIN check — wipe all data silently
+        // Duress PIN check — wipe all data silently. Deletes the whole database,
+        // trash included; never route this through moveToTrash().
         const duressRaw = localStorage.getItem(lsKey('duressPin'))
         const duressHash = duressRaw ? duressRaw.replace(/^"|"$/g, '') : ''
         if (duressHash && hash === duressHash) {
@@ -0,0 +1,240 @@
+import { useState, useRef } from 'react'
+import { useScrollLock } from '../hooks/useScrollLock'
+import { useDocThumbUrls, useDocPreviewUrl } from '../hooks/useDocUrls'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Camera, X, FileText, Trash2, ChevronLeft, ChevronRight } from 'lucide-react'
+import { db } from '../db'
+import { addReceipt, isReceiptFile, RECEIPT_MAX_BYTES } from '../utils/receipts'
+import { showToast } from './Toast'
+import type { Receipt } from '../types'
+
+interface ReceiptManagerProps {
+  /** Saved transaction — receipts are stored as soon as they're picked */
+  transactionId?: string
+  /** New transaction — files are held here until the caller saves them with addReceipt */
+  pending?: File[]
+  onPendingChange?: (files: File[]) => void
+}
+
+function useTransactionReceipts(transactionId: string | undefined): Receipt[] {
+  return useLiveQuery(
+    () => transactionId ? db.receipts.where('transactionId').equals(transactionId).sortBy('uploadedAt') : [],
+    [transactionId]
+  ) ?? []
+}
+
+function FileTile({ filename }: { filename: string }) {
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-0.5" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+      <FileText size={16} style={{ color: 'var(--text-secondary)' }} />
+      <span className="text-[8px] px-1 truncate w-full text-center" style={{ color: 'var(--text-secondary)' }}>
+        {filename.split('.').pop()?.toUpperCase()}
+      </span>
+    </div>
+  )
+}
+
+/** Full-screen receipt viewer with paging; closes itself if the receipt can't be opened */
+function ReceiptPreview({ receipts, receipt, onSelect, onClose, onDelete }: {
+  receipts: Receipt[]
+  receipt: Receipt
+  onSelect: (r: Receipt) => void
+  onClose: () => void
+  onDelete?: (id: string) => void
+}) {
+  useScrollLock(true)
+  const { url } = useDocPreviewUrl(receipt, error => {
+    showToast(error, 'error')
+    onClose()
+  })
+  const idx = receipts.findIndex(r => r.id === receipt.id)
+
+  if (!url) return null
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col" style={{ backgroundColor: 'rgba(0,0,0,0.95)' }}>
+      <div className="flex items-center justify-between px-4 py-3 shrink-0">
+        <button onClick={onClose} style={{ color: '#fff' }} aria-label="Close receipt">
+          <X size={22} />
+        </button>
+        <span className="text-xs text-white/60 truncate px-2">
+          {receipts.length > 1 ? `${idx + 1} of ${receipts.length} · ` : ''}{receipt.filename}
+        </span>
+        {onDelete ? (
+          <button onClick={() => onDelete(receipt.id)} aria-label="Delete receipt">
+            <Trash2 size={18} className="text-red-400" />
+          </button>
+        ) : <span className="w-[18px]" />}
+      </div>
+      <div className="flex-1 flex items-center justify-center overflow-auto p-4">
+        {receipt.mimeType.startsWith('image/') ? (
+          <img src={url} className="max-w-full max-h-full object-contain" alt="" />
+        ) : (
+          <iframe src={url} className="w-full h-full rounded-lg bg-white" title={receipt.filename} />
+        )}
+      </div>
+      {receipts.length > 1 && (
+        <div className="flex justify-between px-8 pb-6">
+          <button
+            onClick={() => onSelect(receipts[(idx - 1 + receipts.length) % receipts.length])}
+            className="p-3 rounded-full bg-white/10"
+            aria-label="Previous receipt"
+          >
+            <ChevronLeft size={20} className="text-white" />
+          </button>
+          <button
+            onClick={() => onSelect(receipts[(idx + 1) % receipts.length])}
+            className="p-3 rounded-full bg-white/10"
+            aria-label="Next receipt"
+          >
+            <ChevronRight size={20} className="text-white" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ReceiptManager({ transactionId, pending, onPendingChange }: ReceiptManagerProps) {
+  const receipts = useTransactionReceipts(transactionId)
+  const [previewReceipt, setPreviewReceipt] = useState<Receipt | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  // Blobs may be sealed at rest — opened on demand, plaintext kept in memory only
+  const getThumbUrl = useDocThumbUrls(receipts)
+
+  async function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = e.target.files
+    if (!files) return
+    const accepted: File[] = []
+    for (const file of Array.from(files)) {
+      if (!isReceiptFile(file)) {
+        showToast('Only images and PDFs are supported')
+        continue
+      }
+      if (file.size > RECEIPT_MAX_BYTES) {
+        showToast(`${file.name} exceeds 10 MB limit`)
+        continue
+      }
+      accepted.push(file)
+    }
+    e.target.value = ''
+
+    if (!transactionId) {
+      if (accepted.length > 0) onPendingChange?.([...(pending ?? []), ...accepted])
+      return
+    }
+    let uploaded = 0
+    for (const file of accepted) {
+      try {
+        await addReceipt(transactionId, file)
+        uploaded++
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+          showToast('Storage full — delete old files to free space', 'error')
+          break
+        }
+        showToast(`Failed to attach ${file.name}`, 'error')
+      }
+    }
+    if (uploaded > 0) showToast(`${uploaded} receipt${uploaded > 1 ? 's' : ''} attached`)
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      await db.receipts.delete(id)
+      if (previewReceipt?.id === id) setPreviewReceipt(null)
+      showToast('Receipt deleted')
+    } catch {
+      showToast('Failed to delete receipt', 'error')
+    }
+  }
+
+  return (
+    <>
+      <div className="flex gap-2 overflow-x-auto pb-1 mb-3" style={{ scrollbarWidth: 'none' }}>
+        {receipts.map(r => (
+          <div key={r.id} className="relative shrink-0 w-16 h-16">
+            <button
+              type="button"
+              onClick={() => setPreviewReceipt(r)}
+              className="w-full h-full rounded-lg overflow-hidden"
+              style={{ border: '1px solid var(--border)' }}
+              aria-label={`View ${r.filename}`}
+            >
+              {r.mimeType.startsWith('image/') && getThumbUrl(r.id)
+                ? <img src={getThumbUrl(r.id)} className="w-full h-full object-cover" alt="" />
+                : <FileTile filename={r.filename} />}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(r.id)}
+              className="absolute -top-0.5 -right-0.5 w-5 h-5 rounded-full bg-red-500 flex items-center justify-center"
+              aria-label={`Delete ${r.filename}`}
+            >
+              <X size={10} className="text-white" />
+            </button>
+          </div>
+        ))}
+        {!transactionId && pending?.map((file, i) => (
+          <div key={`${file.name}-${i}`} className="relative shrink-0 w-16 h-16 rounded-lg overflow-hidden"
+            style={{ border: '1px solid var(--border)' }} title={file.name}>
+            <FileTile filename={file.name} />
+            <button
+              type="button"
+              onClick={() => onPendingChange?.(pending.filter((_, j) => j !== i))}
+              className="absolute -top-0.5 -right-0.5 w-5 h-5 rounded-full bg-red-500 flex items-center justify-center"
+              aria-label={`Remove ${file.name}`}
+            >
+              <X size={10} className="text-white" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="shrink-0 w-16 h-16 rounded-lg flex items-center justify-center"
+          style={{ border: '2px dashed var(--border)' }}
+          aria-label="Attach receipt"
+        >
+          <Camera size={20} style={{ color: 'var(--text-secondary)' }} />
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*,.pdf"
+          multiple
+          onChange={handleFiles}
+          className="hidden"
+        />
+      </div>
+
+      {previewReceipt && (
+        <ReceiptPreview
+          receipts={receipts}
+          receipt={previewReceipt}
+          onSelect={setPreviewReceipt}
+          onClose={() => setPreviewReceipt(null)}
+          onDelete={handleDelete}
+        />
+      )}
+    </>
+  )
+}
+
+/** Read-only viewer for a transaction's receipts, opened from a list row */
+export function ReceiptViewer({ transactionId, onClose }: { transactionId: string; onClose: () => void }) {
+  const receipts = useTransactionReceipts(transactionId)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const receipt = receipts.find(r => r.id === selectedId) ?? receipts[0]
+
+  if (!receipt) return null
+  return (
+    <ReceiptPreview
+      receipts={receipts}
+      receipt={receipt}
+      onSelect={r => setSelectedId(r.id)}
+      onClose={onClose}
+    />
+  )
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react'
+import { GitMerge, Replace, RotateCcw } from 'lucide-react'
+import { ConfirmDialog } from './ConfirmDialog'
+import type { BackupTableName } from '../utils/backup'
+import type { TableDiff, RestoreMode } from '../utils/selectiveRestore'
+
+interface RestorePreviewProps {
+  created: string
+  diffs: TableDiff[]
+  working: boolean
+  onRestoreSelected: (tables: BackupTableName[], mode: RestoreMode) => void
+  onReplaceAll: () => void
+  onCancel: () => void
+}
+
+function Count({ n, color }: { n: number; color: string }) {
+  return (
+    <span className="w-10 text-right tabular-nums" style={{ color: n > 0 ? color : 'var(--text-secondary)', opacity: n > 0 ? 1 : 0.5 }}>
+      {n}
+    </span>
+  )
+}
+
+/** Per-table diff of a backup against this device, with table-level restore. */
+export function RestorePreview({ created, diffs, working, onRestoreSelected, onReplaceAll, onCancel }: RestorePreviewProps) {
+  const [selected, setSelected] = useState<Set<BackupTableName>>(
+    () => new Set(diffs.filter(d => d.added > 0 || d.changed > 0).map(d => d.table))
+  )
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [confirmReplace, setConfirmReplace] = useState(false)
+
+  function toggle(table: BackupTableName) {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(table)) next.delete(table)
+      else next.add(table)
+      return next
+    })
+  }
+
+  const chosen = diffs.filter(d => selected.has(d.table))
+  const lostLocal = chosen.reduce((sum, d) => sum + d.localOnly, 0)
+
+  function handleRestore() {
+    if (mode === 'replace') setConfirmReplace(true)
+    else onRestoreSelected([...selected], mode)
+  }
+
+  return (
+    <div className="rounded-xl p-3 space-y-3" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+      <div>
+        <p className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>
+          Backup from {new Date(created).toLocaleString()}
+        </p>
+        <p className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>
+          Compared with the data on this device. Choose what to bring back.
+        </p>
+      </div>
+
+      <div className="text-xs">
+        <div className="flex items-center gap-1 pb-1 mb-1 border-b text-[10px] font-semibold uppercase" style={{ borderColor: 'var(--border)', color: 'var(--text-secondary)' }}>
+          <span className="flex-1">Table</span>
+          <span className="w-10 text-right">New</span>
+          <span className="w-10 text-right">Diff</span>
+          <span className="w-10 text-right">Same</span>
+          <span className="w-10 text-right">Local</span>
+        </div>
+        {diffs.map(d => (
+          <label key={d.table} className="flex items-center gap-1 py-1.5 cursor-pointer">
+            <span className="flex-1 flex items-center gap-2 min-w-0" style={{ color: 'var(--text-primary)' }}>
+              <input
+                type="checkbox"
+                checked={selected.has(d.table)}
+                onChange={() => toggle(d.table)}
+                className="accent-purple-500"
+              />
+              <span className="truncate">{d.label}</span>
+            </span>
+            <Count n={d.added} color="#22c55e" />
+            <Count n={d.changed} color="#f97316" />
+            <Count n={d.identical} color="var(--text-secondary)" />
+            <Count n={d.localOnly} color="#3b82f6" />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        {([
+          ['merge', 'Merge (keep newer)', GitMerge],
+          ['replace', 'Replace tables', Replace],
+        ] as const).map(([value, label, Icon]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setMode(value)}
+            aria-pressed={mode === value}
+            className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs font-semibold"
+            style={{
+              backgroundColor: mode === value ? '#a855f7' : 'var(--bg-card)',
+              color: mode === value ? '#fff' : 'var(--text-secondary)',
+              border: `1px solid ${mode === value ? '#a855f7' : 'var(--border)'}`,
+            }}
+          >
+            <Icon size={12} />
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>
+        {mode === 'merge'
+          ? 'Adds records missing here and updates a record only when the backup copy is newer. Nothing on this device is deleted.'
+          : 'Each selected table is made to match the backup exactly — records that exist only on this device are removed.'}
+        {' '}Profile and settings are left unchanged.
+      </p>
+
+      <button
+        type="button"
+        onClick={handleRestore}
+        disabled={working || selected.size === 0}
+        className="w-full flex items-center justify-center gap-2 p-3 rounded-xl font-medium text-sm text-white bg-purple-600 active:scale-[0.98] disabled:opacity-40"
+      >
+        <RotateCcw size={16} />
+        {working ? 'Restoring...' : `Restore ${selected.size} table${selected.size !== 1 ? 's' : ''}`}
+      </button>
+      <div className="flex justify-between">
+        <button type="button" onClick={onCancel} disabled={working} className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+          Cancel
+        </button>
+        <button type="button" onClick={onReplaceAll} disabled={working} className="text-xs font-medium text-red-400">
+          Replace all data instead
+        </button>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmReplace}
+        title="Replace Selected Tables"
+        message={lostLocal > 0
+          ? `${lostLocal} record${lostLocal !== 1 ? 's' : ''} that exist only on this device will be deleted. This cannot be undone.`
+          : 'The selected tables will be replaced with the backup. This cannot be undone.'}
+        confirmLabel="Replace"
+        confirmColor="#f97316"
+        onConfirm={() => { setConfirmReplace(false); onRestoreSelected([...selected], 'replace') }}
+        onCancel={() => setConfirmReplace(false)}
+      />
+    </div>
+  )
+}
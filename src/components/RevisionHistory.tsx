@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Pencil, Trash2, RotateCcw } from 'lucide-react'
+import { db } from '../db'
+import { mergeHistory, revertToRevision, type RecordRevision, type RevisionedTable } from '../db/revisions'
+import { fmtDateAndTime } from '../utils/dateFormat'
+import { ConfirmDialog } from './ConfirmDialog'
+import { showToast } from './Toast'
+
+interface RevisionHistoryProps {
+  table: RevisionedTable
+  recordId: string
+}
+
+const PAGE_SIZE = 10
+
+const CHILD_LABELS: Partial<Record<RevisionedTable, string>> = {
+  payments: 'Payment',
+  incidents: 'Incident',
+}
+
+/** "screeningStatus" → "Screening status" */
+function fieldLabel(field: string): string {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (value instanceof Date) return fmtDateAndTime(value)
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—'
+    return value.map(v => (v && typeof v === 'object' && 'name' in v ? String(v.name) : formatValue(v))).join(', ')
+  }
+  if (typeof value === 'object') return JSON.stringify(value)
+  const text = String(value)
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text
+}
+
+function describe(rev: RecordRevision, ownTable: RevisionedTable): string {
+  const child = rev.table !== ownTable ? CHILD_LABELS[rev.table] : undefined
+  if (rev.action === 'delete') return child ? `${child} deleted` : 'Deleted'
+  if (rev.action === 'revert') return child ? `${child} reverted` : 'Reverted'
+  return child ? `${child} edited` : 'Edited'
+}
+
+/** Field-level change log for a record and its child records, with revert. */
+export function RevisionHistory({ table, recordId }: RevisionHistoryProps) {
+  const history = useLiveQuery(async () => {
+    const [own, children] = await Promise.all([
+      db.revisions.where('[table+recordId]').equals([table, recordId]).toArray(),
+      db.revisions.where('ownerId').equals(recordId).toArray(),
+    ])
+    return mergeHistory(own, children)
+  }, [table, recordId])
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  const [pendingRevert, setPendingRevert] = useState<RecordRevision | null>(null)
+
+  if (!history) return null
+  if (history.length === 0) {
+    return (
+      <p className="text-xs pt-2" style={{ color: 'var(--text-secondary)' }}>
+        No changes recorded yet. Edits made from now on will appear here and can be reverted.
+      </p>
+    )
+  }
+
+  async function handleRevert() {
+    const rev = pendingRevert
+    setPendingRevert(null)
+    if (!rev) return
+    try {
+      await revertToRevision(rev.id)
+      showToast(rev.action === 'delete' ? 'Record restored' : 'Reverted to earlier version')
+    } catch (err) {
+      showToast(`Revert failed: ${(err as Error).message}`, 'error')
+    }
+  }
+
+  return (
+    <div className="pt-1">
+      {history.slice(0, limit).map(rev => {
+        const isDelete = rev.action === 'delete'
+        const Icon = isDelete ? Trash2 : rev.action === 'revert' ? RotateCcw : Pencil
+        return (
+          <div key={rev.id} className="py-2 border-b last:border-b-0" style={{ borderColor: 'var(--border)' }}>
+            <div className="flex items-center gap-2">
+              <Icon size={12} style={{ color: isDelete ? '#ef4444' : '#a855f7' }} />
+              <span className="text-xs font-semibold flex-1" style={{ color: 'var(--text-primary)' }}>
+                {describe(rev, table)}
+              </span>
+              <span className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>
+                {fmtDateAndTime(new Date(rev.at))}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPendingRevert(rev)}
+                className="text-[11px] font-medium text-purple-500 active:opacity-70 ml-1"
+              >
+                {isDelete ? 'Restore' : 'Revert'}
+              </button>
+            </div>
+            {!isDelete && (
+              <div className="mt-1 space-y-0.5 pl-5">
+                {rev.changes.map(c => (
+                  <p key={c.field} className="text-[11px] break-words" style={{ color: 'var(--text-secondary)' }}>
+                    <span style={{ color: 'var(--text-primary)' }}>{fieldLabel(c.field)}:</span>{' '}
+                    {'from' in c && <span className="line-through opacity-70">{formatValue(c.from)}</span>}
+                    {'from' in c && ' → '}
+                    {formatValue(c.to)}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+      {history.length > limit && (
+        <button
+          type="button"
+          onClick={() => setLimit(l => l + PAGE_SIZE)}
+          className="w-full text-xs font-medium text-purple-500 pt-2 active:opacity-70"
+        >
+          Show older changes ({history.length - limit})
+        </button>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!pendingRevert}
+        title={pendingRevert?.action === 'delete' ? 'Restore Deleted Record' : 'Revert Changes'}
+        message={pendingRevert?.action === 'delete'
+          ? 'Bring this record back as it was just before it was deleted?'
+          : 'Roll this record back to how it looked before this change? This edit and any later ones are undone, and the revert itself is added to the history.'}
+        confirmLabel={pendingRevert?.action === 'delete' ? 'Restore' : 'Revert'}
+        confirmColor="#a855f7"
+        onConfirm={handleRevert}
+        onCancel={() => setPendingRevert(null)}
+      />
+    </div>
+  )
+}
@@ -1,10 +1,14 @@
-import { useState, useRef, useEffect, useMemo, useCallback } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import { useScrollLock } from '../hooks/useScrollLock'
+import { useDocThumbUrls, useDocPreviewUrl } from '../hooks/useDocUrls'
 import { useLiveQuery } from 'dexie-react-hooks'
 import { Plus, X, FileText, ZoomIn, Trash2, ChevronLeft, ChevronRight } from 'lucide-react'
 import { fmtMediumDate } from '../utils/dateFormat'
 import { db, newId } from '../db'
+import { sealDocBlob } from '../db/docCrypto'
 import { showToast } from './Toast'
+import { ImageRedactionEditor } from './ImageRedactionEditor'
+import { sanitizedFilename } from '../utils/imageSanitize'
 import type { ScreeningDoc } from '../types'
 
 interface ScreeningProofManagerProps {
@@ -20,57 +24,43 @@ export function ScreeningProofManager({ clientId, editable = false }: ScreeningP
 
   const [previewDoc, setPreviewDoc] = useState<ScreeningDoc | null>(null)
   useScrollLock(!!previewDoc)
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
-  const thumbUrlsRef = useRef(new Map<string, string>())
-  const [, forceRender] = useState(0)
+  const [redactQueue, setRedactQueue] = useState<{ key: string; file: File }[]>([])
   const fileInput = useRef<HTMLInputElement>(null)
 
-  const docIdKey = useMemo(() => docs.map(d => d.id).join(','), [docs])
+  // Blobs may be sealed at rest — opened on demand, plaintext kept in memory only
+  const getThumbUrl = useDocThumbUrls(docs)
+  const { url: previewUrl } = useDocPreviewUrl(previewDoc, error => {
+    showToast(error, 'error')
+    setPreviewDoc(null)
+  })
 
-  // Generate object URLs for thumbnails
-  useEffect(() => {
-    const prev = thumbUrlsRef.current
-    const next = new Map<string, string>()
-
-    for (const doc of docs) {
-      const existing = prev.get(doc.id)
-      if (existing) {
-        next.set(doc.id, existing)
-      } else if (doc.mimeType.startsWith('image/')) {
-        next.set(doc.id, URL.createObjectURL(doc.data))
+  /** Seal and store one document; toasts on failure. */
+  async function saveDoc(data: Blob, filename: string, mimeType: string): Promise<'saved' | 'failed' | 'full'> {
+    try {
+      const doc: ScreeningDoc = {
+        id: newId(),
+        clientId,
+        filename,
+        mimeType,
+        ...(await sealDocBlob(data)),
+        uploadedAt: new Date(),
       }
+      await db.screeningDocs.add(doc)
+      return 'saved'
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+        showToast('Storage full — delete old files to free space', 'error')
+        return 'full'
+      }
+      showToast(`Failed to upload ${filename}`, 'error')
+      return 'failed'
     }
-
-    // Revoke URLs only for removed docs
-    for (const [id, url] of prev) {
-      if (!next.has(id)) URL.revokeObjectURL(url)
-    }
-
-    thumbUrlsRef.current = next
-    forceRender(n => n + 1)
-
-    return () => {
-      // Revoke all on unmount
-      for (const url of thumbUrlsRef.current.values()) URL.revokeObjectURL(url)
-    }
-  }, [docIdKey])
-
-  const getThumbUrl = useCallback((id: string) => thumbUrlsRef.current.get(id), [docIdKey])
-
-  // Generate preview URL
-  useEffect(() => {
-    if (previewDoc) {
-      const url = URL.createObjectURL(previewDoc.data)
-      setPreviewUrl(url)
-      return () => URL.revokeObjectURL(url)
-    } else {
-      setPreviewUrl(null)
-    }
-  }, [previewDoc])
+  }
 
   async function handleUpload(files: FileList | null) {
     if (!files) return
     let uploaded = 0
+    const images: File[] = []
     for (const file of Array.from(files)) {
       if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
         showToast('Only images and PDFs are supported')
@@ -80,33 +70,38 @@ export function ScreeningProofManager({ clientId, editable = false }: ScreeningP
         showToast('File too large (10 MB max)')
         continue
       }
-      try {
-        const doc: ScreeningDoc = {
-          id: newId(),
-          clientId,
-          filename: file.name,
-          mimeType: file.type,
-          data: file,
-          uploadedAt: new Date(),
-        }
-        await db.screeningDocs.add(doc)
-        uploaded++
-      } catch (err) {
-        if (err instanceof DOMException && err.name === 'QuotaExceededError') {
-          showToast('Storage full — delete old files to free space', 'error')
-          break
-        }
-        showToast(`Failed to upload ${file.name}`, 'error')
+      // Images go through the redaction editor first; PDFs are stored as picked
+      if (file.type.startsWith('image/')) {
+        images.push(file)
         continue
       }
+      const result = await saveDoc(file, file.name, file.type)
+      if (result === 'full') break
+      if (result === 'saved') uploaded++
     }
     if (uploaded > 0) showToast(`${uploaded} file${uploaded > 1 ? 's' : ''} added`)
+    if (images.length > 0) setRedactQueue(prev => [...prev, ...images.map(file => ({ key: newId(), file }))])
     if (fileInput.current) fileInput.current.value = ''
   }
 
+  const pendingImage = redactQueue[0]
+
+  async function handleSaveClean(processed: Blob, keepOriginal: boolean) {
+    const { file } = pendingImage
+    const result = await saveDoc(processed, sanitizedFilename(file.name, processed.type), processed.type)
+    if (result === 'saved' && keepOriginal) await saveDoc(file, file.name, file.type)
+    if (result === 'saved') showToast(keepOriginal ? 'Clean copy and original added' : 'Clean copy added')
+    setRedactQueue(prev => (result === 'full' ? [] : prev.slice(1)))
+  }
+
+  async function handleKeepOriginal() {
+    const { file } = pendingImage
+    const result = await saveDoc(file, file.name, file.type)
+    if (result === 'saved') showToast('Original added')
+    setRedactQueue(prev => (result === 'full' ? [] : prev.slice(1)))
+  }
+
   async function handleDelete(doc: ScreeningDoc) {
-    const url = thumbUrlsRef.current.get(doc.id)
-    if (url) { URL.revokeObjectURL(url); thumbUrlsRef.current.delete(doc.id) }
     await db.screeningDocs.delete(doc.id)
     if (previewDoc?.id === doc.id) setPreviewDoc(null)
     showToast('Document removed')
@@ -217,6 +212,18 @@ export function ScreeningProofManager({ clientId, editable = false }: ScreeningP
         )}
       </div>
 
+      {/* Redact + strip metadata before an image is stored */}
+      {pendingImage && (
+        <ImageRedactionEditor
+          key={pendingImage.key}
+          file={pendingImage.file}
+          counter={redactQueue.length > 1 ? `${redactQueue.length - 1} more after this` : undefined}
+          onSave={handleSaveClean}
+          onKeepOriginal={handleKeepOriginal}
+          onSkip={() => setRedactQueue(prev => prev.slice(1))}
+        />
+      )}
+
       {/* Full-screen preview overlay */}
       {previewDoc && previewUrl && (
         <div className="fixed inset-0 z-[200] flex flex-col" role="dialog" aria-modal="true" aria-label="Document preview"
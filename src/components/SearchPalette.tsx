@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from 'react'
+import { Search, Users, CalendarDays, BookOpen, ShieldAlert, X } from 'lucide-react'
+import {
+  searchIndex, subscribeSearchIndex, isSearchIndexReady,
+  type SearchResult, type SearchResultType, type SearchTarget,
+} from '../db/searchIndex'
+import { useScrollLock } from '../hooks/useScrollLock'
+import { onOpenSearchPalette } from './searchPaletteState'
+import { fmtMediumDate } from '../utils/dateFormat'
+
+const TYPE_META: Record<SearchResultType, { label: string; icon: typeof Users; color: string }> = {
+  client: { label: 'Client', icon: Users, color: '#a855f7' },
+  booking: { label: 'Booking', icon: CalendarDays, color: '#3b82f6' },
+  journal: { label: 'Journal', icon: BookOpen, color: '#22c55e' },
+  incident: { label: 'Incident', icon: ShieldAlert, color: '#ef4444' },
+}
+
+interface SearchPaletteProps {
+  onNavigate: (target: SearchTarget) => void
+}
+
+function Snippet({ result }: { result: SearchResult }) {
+  if (!result.snippet) return null
+  const [from, to] = result.highlight ?? [0, 0]
+  return (
+    <p className="text-xs mt-0.5 line-clamp-2" style={{ color: 'var(--text-secondary)' }}>
+      {result.field && <span className="font-medium">{result.field}: </span>}
+      {result.snippet.slice(0, from)}
+      {to > from && <mark className="bg-purple-500/25 rounded-sm" style={{ color: 'var(--text-primary)' }}>{result.snippet.slice(from, to)}</mark>}
+      {result.snippet.slice(to)}
+    </p>
+  )
+}
+
+/**
+ * Command-palette search over clients, bookings, journal entries and incidents.
+ * Mounted once in App while unlocked; queries the in-memory index.
+ */
+export function SearchPalette({ onNavigate }: SearchPaletteProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [active, setActive] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [, setIndexVersion] = useState(0)
+  useScrollLock(isOpen)
+
+  // Re-render when the index is built, cleared or updated so open results stay live
+  useEffect(() => subscribeSearchIndex(() => setIndexVersion(v => v + 1)), [])
+
+  useEffect(() => {
+    const open = () => { setQuery(''); setActive(0); setIsOpen(true) }
+    const unsubscribe = onOpenSearchPalette(open)
+    function onKey(e: KeyboardEvent) {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        open()
+      }
+    }
+    document.addEventListener('keydown', onKey)
+    return () => {
+      unsubscribe()
+      document.removeEventListener('keydown', onKey)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus()
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const ready = isSearchIndexReady()
+  const results = query.trim() ? searchIndex(query) : []
+  const selected = Math.min(active, Math.max(0, results.length - 1))
+
+  function choose(result: SearchResult) {
+    setIsOpen(false)
+    onNavigate(result.target)
+  }
+
+  function onInputKey(e: React.KeyboardEvent) {
+    if (e.key === 'Escape') setIsOpen(false)
+    else if (e.key === 'ArrowDown') { e.preventDefault(); setActive(Math.min(selected + 1, results.length - 1)) }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setActive(Math.max(selected - 1, 0)) }
+    else if (e.key === 'Enter' && results[selected]) choose(results[selected])
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center" role="dialog" aria-modal="true" aria-label="Search">
+      <div className="absolute inset-0 bg-black/50" onClick={() => setIsOpen(false)} />
+      <div
+        className="relative w-full max-w-lg mx-auto rounded-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--bg-card)', maxHeight: '80vh', width: 'calc(100% - 24px)', marginTop: 'calc(env(safe-area-inset-top, 0px) + 12px)' }}
+      >
+        <div className="flex items-center gap-2 px-3 border-b" style={{ borderColor: 'var(--border)' }}>
+          <Search size={16} style={{ color: 'var(--text-secondary)' }} />
+          <input
+            ref={inputRef}
+            type="search"
+            value={query}
+            onChange={e => { setQuery(e.target.value); setActive(0) }}
+            onKeyDown={onInputKey}
+            placeholder="Search clients, bookings, journal, incidents"
+            aria-label="Search everything"
+            autoComplete="off"
+            className="flex-1 py-3 text-sm bg-transparent outline-none"
+            style={{ color: 'var(--text-primary)', fontSize: '16px' }}
+          />
+          <button type="button" onClick={() => setIsOpen(false)} className="p-1.5" style={{ color: 'var(--text-secondary)' }} aria-label="Close search">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto" role="listbox" aria-label="Search results">
+          {!ready && (
+            <p className="text-xs text-center py-6" style={{ color: 'var(--text-secondary)' }}>Preparing search…</p>
+          )}
+          {ready && query.trim() && results.length === 0 && (
+            <p className="text-xs text-center py-6" style={{ color: 'var(--text-secondary)' }}>No matches for “{query.trim()}”</p>
+          )}
+          {ready && !query.trim() && (
+            <p className="text-xs text-center py-6 px-6" style={{ color: 'var(--text-secondary)' }}>
+              Searches names, contact details, notes, journal entries and incident reports. The index lives in memory only and is cleared when the app locks.
+            </p>
+          )}
+          {results.map((r, i) => {
+            const meta = TYPE_META[r.type]
+            const Icon = meta.icon
+            return (
+              <button
+                key={r.key}
+                type="button"
+                role="option"
+                aria-selected={i === selected}
+                onClick={() => choose(r)}
+                onMouseEnter={() => setActive(i)}
+                className="w-full flex items-start gap-3 px-3 py-2.5 text-left border-b last:border-b-0"
+                style={{ borderColor: 'var(--border)', backgroundColor: i === selected ? 'var(--bg-secondary)' : undefined }}
+              >
+                <Icon size={16} className="mt-0.5 shrink-0" style={{ color: meta.color }} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>{r.title}</span>
+                    <span className="text-[10px] shrink-0" style={{ color: 'var(--text-secondary)' }}>
+                      {meta.label}{r.date ? ` · ${fmtMediumDate(new Date(r.date))}` : ''}
+                    </span>
+                  </div>
+                  <Snippet result={r} />
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
+
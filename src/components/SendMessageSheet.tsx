@@ -4,6 +4,8 @@ import { useLiveQuery } from 'dexie-react-hooks'
 import { Send, Copy, Phone, Mail, MessageSquare } from 'lucide-react'
 import { db, formatCurrency, bookingTotal, bookingDurationFormatted } from '../db'
 import { fmtFullDayDate, fmtTime } from '../utils/dateFormat'
+import { bookingTimeZone } from '../utils/timeZone'
+import { tourPlaceholders } from '../utils/tours'
 import { showToast } from './Toast'
 import { contactMethodMeta, getContactValue, openChannel } from '../utils/contactChannel'
 import { fieldInputStyle } from './FormFields'
@@ -25,6 +27,9 @@ export type MessageTemplateType =
   | 'cancellation'
   | 'thankYou'
   | 'directions'
+  | 'openTimes'
+  | 'touring'
+  | 'slotOpened'
 
 interface TemplateConfig {
   key: MessageTemplateType
@@ -84,6 +89,27 @@ const TEMPLATES: TemplateConfig[] = [
     defaultText: 'Hi! Here are the directions:\n\n📍 {address}\n\n{directions}\n\n— {name}',
     requiresBooking: true,
   },
+  {
+    key: 'openTimes',
+    label: 'Open Times',
+    storageKey: 'tplOpenTimes',
+    defaultText: "Hi {client}! Here's when I'm free:\n\n{slots}\n\nLet me know what works best for you.\n\n— {name}",
+    requiresBooking: false,
+  },
+  {
+    key: 'touring',
+    label: 'Touring',
+    storageKey: 'tplTouring',
+    defaultText: "Hi {client}! I'll be in {tourCity} {tourDates} and have a few openings. Let me know if you'd like to meet while I'm there!\n\n— {name}",
+    requiresBooking: false,
+  },
+  {
+    key: 'slotOpened',
+    label: 'Slot Opened',
+    storageKey: 'tplSlotOpened',
+    defaultText: "Hi {client}! A spot just opened up on {openSlot}. You asked to hear if anything came free — would you like it?\n\n— {name}",
+    requiresBooking: false,
+  },
 ]
 
 // ── Placeholder resolution ──────────────────────────────────────
@@ -101,6 +127,9 @@ function resolveTemplatePlaceholders(
   venue: IncallVenue | null | undefined,
   totalPaid: number,
   serviceRates: { name: string; duration: number; rate: number }[],
+  slots?: string,
+  tour?: { tourCity: string; tourDates: string },
+  openSlot?: string,
 ): string {
   const workingName = localStorage.getItem(lsKey('profileWorkingName'))?.replace(/^"|"$/g, '') || ''
   const workEmail = localStorage.getItem(lsKey('profileWorkEmail'))?.replace(/^"|"$/g, '') || ''
@@ -110,7 +139,7 @@ function resolveTemplatePlaceholders(
   // Deposit string
   let depositStr: string
   if (booking && booking.depositAmount > 0) {
-    depositStr = formatCurrency(booking.depositAmount)
+    depositStr = formatCurrency(booking.depositAmount, booking.currency)
   } else {
     const depositType = localStorage.getItem(lsKey('defaultDepositType'))?.replace(/^"|"$/g, '') || 'percent'
     const depositPct = parseInt(localStorage.getItem(lsKey('defaultDepositPercentage'))?.replace(/^"|"$/g, '') || '25')
@@ -153,13 +182,22 @@ function resolveTemplatePlaceholders(
     .replace(/\{address\}/g, safe(venue?.address || ''))
     .replace(/\{directions\}/g, safe(venue?.directions || ''))
 
+  if (slots) result = result.replace(/\{slots\}/g, safe(slots))
+  if (openSlot) result = result.replace(/\{openSlot\}/g, safe(openSlot))
+  if (tour) {
+    result = result
+      .replace(/\{tourCity\}/g, safe(tour.tourCity))
+      .replace(/\{tourDates\}/g, safe(tour.tourDates))
+  }
+
   if (booking) {
     result = result
-      .replace(/\{date\}/g, safe(fmtFullDayDate(new Date(booking.dateTime))))
-      .replace(/\{time\}/g, safe(fmtTime(new Date(booking.dateTime))))
+      // The client's clock: the booking's own zone
+      .replace(/\{date\}/g, safe(fmtFullDayDate(new Date(booking.dateTime), bookingTimeZone(booking))))
+      .replace(/\{time\}/g, safe(fmtTime(new Date(booking.dateTime), bookingTimeZone(booking))))
       .replace(/\{duration\}/g, safe(bookingDurationFormatted(booking.duration)))
-      .replace(/\{rate\}/g, safe(formatCurrency(total)))
-      .replace(/\{balance\}/g, safe(formatCurrency(balance)))
+      .replace(/\{rate\}/g, safe(formatCurrency(total, booking.currency)))
+      .replace(/\{balance\}/g, safe(formatCurrency(balance, booking.currency)))
   }
 
   return result
@@ -173,16 +211,26 @@ interface SendMessageSheetProps {
   client: Client
   booking?: Booking | null
   venue?: IncallVenue | null
+  /** Pre-formatted free times from the slot finder, for the {slots} placeholder */
+  slots?: string
+  /** A freed time offered to a waitlisted client, for the {openSlot} placeholder */
+  openSlot?: string
 }
 
-export function SendMessageSheet({ isOpen, onClose, client, booking, venue }: SendMessageSheetProps) {
+export function SendMessageSheet({ isOpen, onClose, client, booking, venue, slots, openSlot }: SendMessageSheetProps) {
   useScrollLock(isOpen)
   const hasBooking = !!booking
   const hasDirections = !!(venue?.directions && venue.directions.length > 0)
+  // {tourCity}/{tourDates}: the current or next stop of the active or next tour
+  const tours = useLiveQuery(() => db.tours.toArray())
+  const tour = tours ? tourPlaceholders(tours) : undefined
 
   // Filter templates based on context
   const availableTemplates = TEMPLATES.filter(t => {
     if (t.key === 'directions') return hasDirections
+    if (t.key === 'openTimes') return !!slots
+    if (t.key === 'touring') return !!tour
+    if (t.key === 'slotOpened') return !!openSlot
     if (t.requiresBooking) return hasBooking
     return true
   })
@@ -211,7 +259,7 @@ export function SendMessageSheet({ isOpen, onClose, client, booking, venue }: Se
     prevOpenRef.current = isOpen
     if (justOpened) {
       setSent(false)
-      setSelectedType(availableTemplates[0]?.key ?? 'intro')
+      setSelectedType(openSlot ? 'slotOpened' : slots ? 'openTimes' : availableTemplates[0]?.key ?? 'intro')
     }
   }, [isOpen])
 
@@ -221,8 +269,8 @@ export function SendMessageSheet({ isOpen, onClose, client, booking, venue }: Se
     const config = TEMPLATES.find(t => t.key === selectedType)
     if (!config) return
     const template = loadTemplate(config)
-    setMessage(resolveTemplatePlaceholders(template, client, booking, venue, totalPaid, serviceRates))
-  }, [isOpen, selectedType, client.id, booking?.id, totalPaid, serviceRates.length])
+    setMessage(resolveTemplatePlaceholders(template, client, booking, venue, totalPaid, serviceRates, slots, tour, openSlot))
+  }, [isOpen, selectedType, client.id, booking?.id, totalPaid, serviceRates.length, slots, tour?.tourCity, tour?.tourDates, openSlot])
 
   // Focus management + Escape key — must be before early return to satisfy Rules of Hooks
   const sheetRef = useRef<HTMLDivElement>(null)
@@ -1,12 +1,14 @@
 import { useRef, useState, useCallback } from 'react'
 import { useLiveQuery } from 'dexie-react-hooks'
-import { isToday, isTomorrow, differenceInDays, startOfDay, addMinutes } from 'date-fns'
+import { differenceInCalendarDays, addMinutes } from 'date-fns'
 import { db, newId, formatCurrency, bookingTotal, bookingDurationFormatted, completeBookingPayment, recordBookingPayment, removeBookingPayment as removePayment, downgradeBookingsOnUnscreen, advanceBookingsOnScreen } from '../db'
 import { StatusBadge } from './StatusBadge'
 import { showToast } from './Toast'
 import { MiniTags } from './TagPicker'
 import { VerifiedBadge } from './VerifiedBadge'
-import { fmtTime, fmtWeekday, fmtShortDayDate } from '../utils/dateFormat'
+import { fmtWeekday, fmtShortDayDate } from '../utils/dateFormat'
+import { bookingTimeZone, fmtBookingTime, zonedWallTime } from '../utils/timeZone'
+import { isRecurring, recurrenceLabel } from '../utils/recurrence'
 import { bookingStatusColors, screeningStatusColors } from '../types'
 import type { Booking, BookingStatus, Client, ScreeningStatus, AvailabilityStatus } from '../types'
 
@@ -14,12 +16,17 @@ import type { Booking, BookingStatus, Client, ScreeningStatus, AvailabilityStatu
 // HELPERS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-function formatRelativeDate(dt: Date): string {
-  if (isToday(dt)) return `Today · ${fmtTime(dt)}`
-  if (isTomorrow(dt)) return `Tomorrow · ${fmtTime(dt)}`
-  const daysAway = differenceInDays(startOfDay(dt), startOfDay(new Date()))
-  if (daysAway > 1 && daysAway <= 6) return `${fmtWeekday(dt)} · ${fmtTime(dt)}`
-  return `${fmtShortDayDate(dt)} · ${fmtTime(dt)}`
+/** Day and time in the booking's zone (days compared on that zone's calendar) */
+function formatRelativeDate(booking: Booking): string {
+  const zone = bookingTimeZone(booking)
+  const time = fmtBookingTime(booking)
+  const day = zonedWallTime(new Date(booking.dateTime), zone)
+  const today = zonedWallTime(new Date(), zone)
+  const daysAway = differenceInCalendarDays(day, today)
+  if (daysAway === 0) return `Today · ${time}`
+  if (daysAway === 1) return `Tomorrow · ${time}`
+  if (daysAway > 1 && daysAway <= 6) return `${fmtWeekday(day)} · ${time}`
+  return `${fmtShortDayDate(day)} · ${time}`
 }
 
 const availDotColors: Record<AvailabilityStatus, string> = {
@@ -441,13 +448,13 @@ export function SwipeableBookingRow({ booking, client, onOpen, onCompleted, onCa
               />
             )}
             <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
-              {formatRelativeDate(new Date(booking.dateTime))} · {bookingDurationFormatted(booking.duration)}
+              {formatRelativeDate(booking)} · {bookingDurationFormatted(booking.duration)}
             </p>
           </div>
           <div className="flex items-center gap-1.5 mt-0.5">
             {client?.tags && <MiniTags tags={client.tags} />}
-            {booking.recurrence && booking.recurrence !== 'none' && (
-              <span className="text-[9px] text-purple-500 font-medium">🔄 {booking.recurrence === 'weekly' ? 'Weekly' : booking.recurrence === 'biweekly' ? 'Biweekly' : 'Monthly'}</span>
+            {isRecurring(booking) && (
+              <span className="text-[9px] text-purple-500 font-medium">🔄 {recurrenceLabel(booking)}</span>
             )}
           </div>
         </div>
@@ -456,7 +463,7 @@ export function SwipeableBookingRow({ booking, client, onOpen, onCompleted, onCa
         <div className="text-right shrink-0">
           <StatusBadge text={booking.status} color={bookingStatusColors[booking.status]} />
           <p className="text-xs font-medium mt-1" style={{ color: 'var(--text-secondary)' }}>
-            {formatCurrency(bookingTotal(booking))}
+            {formatCurrency(bookingTotal(booking), booking.currency)}
           </p>
           {/* Mini indicators row */}
           <div className="flex items-center justify-end gap-1 mt-0.5">
@@ -0,0 +1,45 @@
+import { RefreshCw, CloudOff, Cloud } from 'lucide-react'
+import { syncNow, type SyncStatus } from '../db/sync'
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus
+  isOnline: boolean
+}
+
+/**
+ * Small floating pill showing device sync state. Hidden when sync is off or idle
+ * and online; offline + sync on shows that changes are queued. Tap to retry on error.
+ */
+export function SyncStatusIndicator({ status, isOnline }: SyncStatusIndicatorProps) {
+  if (status.state === 'off') return null
+  if (status.state === 'idle' && isOnline) return null
+
+  const offline = !isOnline
+  const isError = status.state === 'error' && !offline
+  const color = isError ? '#ef4444' : offline ? '#facc15' : '#c084fc'
+  const label = offline
+    ? 'Sync paused'
+    : isError
+      ? 'Sync failed — tap to retry'
+      : 'Syncing…'
+
+  return (
+    <button
+      type="button"
+      onClick={() => { if (isError) syncNow() }}
+      disabled={!isError}
+      title={isError ? status.error : undefined}
+      className="fixed right-3 z-40 flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[11px] font-semibold backdrop-blur-xl"
+      style={{
+        top: 'calc(env(safe-area-inset-top, 0px) + 56px)',
+        backgroundColor: 'rgba(30,30,30,0.85)',
+        border: `1px solid ${color}40`,
+        color,
+      }}
+      aria-live="polite"
+    >
+      {offline ? <CloudOff size={12} /> : isError ? <Cloud size={12} /> : <RefreshCw size={12} className="animate-spin" />}
+      {label}
+    </button>
+  )
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Users, CalendarDays, Building2, ShieldAlert, RotateCcw, Trash2 } from 'lucide-react'
+import { db } from '../db'
+import {
+  restoreFromTrash, purgeTrashEntry, emptyTrash, purgeExpiredTrash, trashEntrySize,
+  TRASH_RETENTION_KEY, DEFAULT_TRASH_RETENTION, type TrashEntry, type TrashKind,
+} from '../db/trash'
+import { useLocalStorage } from '../hooks/useSettings'
+import { fmtDateAndTime } from '../utils/dateFormat'
+import { Modal } from './Modal'
+import { ConfirmDialog } from './ConfirmDialog'
+import { showToast } from './Toast'
+
+interface TrashModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const KIND_ICONS: Record<TrashKind, typeof Users> = {
+  client: Users,
+  booking: CalendarDays,
+  venue: Building2,
+  incident: ShieldAlert,
+}
+
+const RETENTION_OPTIONS = [7, 30, 90, 365] as const
+
+function daysLeft(entry: TrashEntry, retentionDays: number): number {
+  const expires = new Date(entry.deletedAt).getTime() + retentionDays * 86_400_000
+  return Math.max(0, Math.ceil((expires - Date.now()) / 86_400_000))
+}
+
+/** Deleted clients, bookings, venues and incidents — restore or purge. */
+export function TrashModal({ isOpen, onClose }: TrashModalProps) {
+  // Entries carry full records (documents included) — only load while open
+  const entries = useLiveQuery(
+    () => (isOpen ? db.trash.orderBy('deletedAt').reverse().toArray() : []),
+    [isOpen],
+  )
+  const [retentionDays, setRetentionDays] = useLocalStorage(TRASH_RETENTION_KEY, DEFAULT_TRASH_RETENTION)
+  const [pendingPurge, setPendingPurge] = useState<TrashEntry | null>(null)
+  const [confirmEmpty, setConfirmEmpty] = useState(false)
+  const [working, setWorking] = useState(false)
+
+  // A shorter retention takes effect right away
+  useEffect(() => {
+    if (isOpen) purgeExpiredTrash().catch(err => console.error('Trash purge failed:', err))
+  }, [isOpen, retentionDays])
+
+  async function handleRestore(entry: TrashEntry) {
+    setWorking(true)
+    try {
+      await restoreFromTrash(entry.id)
+      showToast(`Restored ${entry.label}`)
+    } catch (err) {
+      showToast(`Restore failed: ${(err as Error).message}`, 'error')
+    }
+    setWorking(false)
+  }
+
+  async function handlePurge() {
+    const entry = pendingPurge
+    setPendingPurge(null)
+    if (!entry) return
+    await purgeTrashEntry(entry.id)
+    showToast(`${entry.label} deleted permanently`)
+  }
+
+  async function handleEmpty() {
+    setConfirmEmpty(false)
+    await emptyTrash()
+    showToast('Trash emptied')
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Trash">
+      <div className="px-4 py-2">
+        <div className="mb-4">
+          <label className="text-xs font-semibold block mb-1.5" style={{ color: 'var(--text-primary)' }}>
+            Keep Deleted Items For
+          </label>
+          <div className="flex gap-2 flex-wrap">
+            {RETENTION_OPTIONS.map(days => (
+              <button
+                key={days}
+                type="button"
+                onClick={() => setRetentionDays(days)}
+                aria-pressed={retentionDays === days}
+                className="px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors"
+                style={{
+                  backgroundColor: retentionDays === days ? '#a855f7' : 'var(--bg-primary)',
+                  color: retentionDays === days ? '#fff' : 'var(--text-secondary)',
+                  border: `1px solid ${retentionDays === days ? '#a855f7' : 'var(--border)'}`,
+                }}
+              >
+                {days === 365 ? '1 year' : `${days} days`}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs mt-1.5" style={{ color: 'var(--text-secondary)' }}>
+            Deleted items and everything attached to them are kept here, then erased for good. Trash stays on this device — it isn't synced or backed up.
+          </p>
+        </div>
+
+        {entries && entries.length === 0 && (
+          <div className="flex flex-col items-center py-10 text-center">
+            <Trash2 size={28} style={{ color: 'var(--text-secondary)', opacity: 0.5 }} />
+            <p className="text-sm mt-2" style={{ color: 'var(--text-secondary)' }}>Trash is empty</p>
+          </div>
+        )}
+
+        {entries?.map(entry => {
+          const Icon = KIND_ICONS[entry.kind]
+          const extra = trashEntrySize(entry) - 1
+          const left = daysLeft(entry, retentionDays)
+          return (
+            <div key={entry.id} className="flex items-center gap-3 py-2.5 border-b" style={{ borderColor: 'var(--border)' }}>
+              <Icon size={16} style={{ color: '#a855f7' }} className="shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>{entry.label}</p>
+                <p className="text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+                  Deleted {fmtDateAndTime(new Date(entry.deletedAt))}
+                  {extra > 0 && ` · +${extra} linked record${extra !== 1 ? 's' : ''}`}
+                  {' · '}{left === 0 ? 'erased soon' : `${left} day${left !== 1 ? 's' : ''} left`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRestore(entry)}
+                disabled={working}
+                className="p-2 text-purple-500 active:opacity-70 disabled:opacity-40"
+                aria-label={`Restore ${entry.label}`}
+              >
+                <RotateCcw size={16} />
+              </button>
+              <button
+                type="button"
+                onClick={() => setPendingPurge(entry)}
+                disabled={working}
+                className="p-2 text-red-500 active:opacity-70 disabled:opacity-40"
+                aria-label={`Delete ${entry.label} permanently`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          )
+        })}
+
+        {entries && entries.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setConfirmEmpty(true)}
+            className="w-full py-3 mt-3 text-sm font-medium text-red-500 active:opacity-70"
+          >
+            Empty Trash
+          </button>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!pendingPurge}
+        title="Delete Permanently"
+        message={`Erase ${pendingPurge?.label ?? 'this item'} and everything attached to it? This cannot be undone.`}
+        confirmLabel="Delete"
+        onConfirm={handlePurge}
+        onCancel={() => setPendingPurge(null)}
+      />
+      <ConfirmDialog
+        isOpen={confirmEmpty}
+        title="Empty Trash"
+        message={`Permanently erase all ${entries?.length ?? 0} item${entries?.length !== 1 ? 's' : ''} in the trash? This cannot be undone.`}
+        confirmLabel="Empty Trash"
+        onConfirm={handleEmpty}
+        onCancel={() => setConfirmEmpty(false)}
+      />
+    </Modal>
+  )
+}
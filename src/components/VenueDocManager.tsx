@@ -1,8 +1,10 @@
-import { useState, useRef, useEffect, useMemo } from 'react'
+import { useState, useRef } from 'react'
 import { useScrollLock } from '../hooks/useScrollLock'
+import { useDocThumbUrls, useDocPreviewUrl } from '../hooks/useDocUrls'
 import { useLiveQuery } from 'dexie-react-hooks'
 import { Plus, X, FileText, Trash2, ChevronLeft, ChevronRight } from 'lucide-react'
 import { db, newId } from '../db'
+import { sealDocBlob } from '../db/docCrypto'
 import { showToast } from './Toast'
 import type { VenueDoc } from '../types'
 
@@ -19,45 +21,14 @@ export function VenueDocManager({ venueId, editable = false }: VenueDocManagerPr
 
   const [previewDoc, setPreviewDoc] = useState<VenueDoc | null>(null)
   useScrollLock(!!previewDoc)
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
-  const thumbUrlsRef = useRef(new Map<string, string>())
-  const [, forceRender] = useState(0)
   const fileInput = useRef<HTMLInputElement>(null)
 
-  const docIdKey = useMemo(() => docs.map(d => d.id).join(), [docs])
-
-  useEffect(() => {
-    const prev = thumbUrlsRef.current
-    const next = new Map<string, string>()
-    for (const doc of docs) {
-      const existing = prev.get(doc.id)
-      if (existing) {
-        next.set(doc.id, existing)
-      } else if (doc.mimeType.startsWith('image/')) {
-        next.set(doc.id, URL.createObjectURL(doc.data))
-      }
-    }
-    // Revoke URLs only for removed docs
-    for (const [id, url] of prev) {
-      if (!next.has(id)) URL.revokeObjectURL(url)
-    }
-    thumbUrlsRef.current = next
-    forceRender(n => n + 1)
-  }, [docIdKey])
-
-  // Revoke all blob URLs on unmount only
-  useEffect(() => {
-    return () => { for (const url of thumbUrlsRef.current.values()) URL.revokeObjectURL(url) }
-  }, [])
-
-  useEffect(() => {
-    if (previewDoc) {
-      const url = URL.createObjectURL(previewDoc.data)
-      setPreviewUrl(url)
-      return () => URL.revokeObjectURL(url)
-    }
-    setPreviewUrl(null)
-  }, [previewDoc])
+  // Blobs may be sealed at rest — opened on demand, plaintext kept in memory only
+  const getThumbUrl = useDocThumbUrls(docs)
+  const { url: previewUrl } = useDocPreviewUrl(previewDoc, error => {
+    showToast(error, 'error')
+    setPreviewDoc(null)
+  })
 
   async function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
     const files = e.target.files
@@ -78,7 +49,7 @@ export function VenueDocManager({ venueId, editable = false }: VenueDocManagerPr
           venueId,
           filename: file.name,
           mimeType: file.type,
-          data: file,
+          ...(await sealDocBlob(file)),
           uploadedAt: new Date(),
         })
         uploaded++
@@ -118,8 +89,8 @@ export function VenueDocManager({ venueId, editable = false }: VenueDocManagerPr
             className="relative shrink-0 w-16 h-16 rounded-lg overflow-hidden"
             style={{ border: '1px solid var(--border)' }}
           >
-            {doc.mimeType.startsWith('image/') && thumbUrlsRef.current.get(doc.id) ? (
-              <img src={thumbUrlsRef.current.get(doc.id)} className="w-full h-full object-cover" alt="" />
+            {doc.mimeType.startsWith('image/') && getThumbUrl(doc.id) ? (
+              <img src={getThumbUrl(doc.id)} className="w-full h-full object-cover" alt="" />
             ) : (
               <div className="w-full h-full flex flex-col items-center justify-center gap-0.5" style={{ backgroundColor: 'var(--bg-secondary)' }}>
                 <FileText size={16} style={{ color: 'var(--text-secondary)' }} />
@@ -0,0 +1,78 @@
+import { useState } from 'react'
+import { Check, MessageSquare } from 'lucide-react'
+import { SendMessageSheet } from './SendMessageSheet'
+import { StatusBadge } from './StatusBadge'
+import { showToast } from './Toast'
+import { formatOpenSlot, markWaitlistFulfilled, waitlistWindow } from '../utils/waitlist'
+import { fmtTime } from '../utils/dateFormat'
+import { riskLevelColors } from '../types'
+import type { WaitlistMatch } from '../utils/waitlist'
+
+interface WaitlistOffersProps {
+  /** Start of the time that came free */
+  slot: Date
+  /** Zone the slot is kept in — the cancelled booking's (unset = device zone) */
+  timeZone?: string
+  matches: WaitlistMatch[]
+}
+
+/**
+ * Waitlisted clients a freed slot fits, most reliable first — each can be
+ * sent the "slot opened" template, then marked booked to leave the waitlist.
+ */
+export function WaitlistOffers({ slot, timeZone, matches }: WaitlistOffersProps) {
+  const [messaging, setMessaging] = useState<WaitlistMatch | null>(null)
+  const [fulfilled, setFulfilled] = useState<Set<string>>(new Set())
+
+  async function handleBooked(match: WaitlistMatch) {
+    try {
+      await markWaitlistFulfilled(match.entry.id)
+      setFulfilled(prev => new Set(prev).add(match.entry.id))
+      showToast(`${match.client.alias} taken off the waitlist`)
+    } catch {
+      showToast('Could not update waitlist', 'error')
+    }
+  }
+
+  return (
+    <>
+      <div className="space-y-2">
+        {matches.map(match => {
+          const { start, end } = waitlistWindow(match.entry)
+          const done = fulfilled.has(match.entry.id)
+          return (
+            <div key={match.entry.id} className="flex items-center gap-3 p-3 rounded-xl"
+              style={{ backgroundColor: 'var(--bg-secondary)', border: '1px solid var(--border)', opacity: done ? 0.5 : 1 }}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-semibold truncate" style={{ color: 'var(--text-primary)' }}>{match.client.alias}</p>
+                  <StatusBadge text={match.client.riskLevel} color={riskLevelColors[match.client.riskLevel]} size="sm" />
+                </div>
+                <p className="text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+                  Wants {fmtTime(start)} – {fmtTime(end)} · {Math.round(match.reliability * 100)}% reliable
+                </p>
+              </div>
+              <button type="button" onClick={() => setMessaging(match)} disabled={done} aria-label={`Message ${match.client.alias}`}
+                className="p-2 rounded-lg disabled:opacity-40" style={{ backgroundColor: 'rgba(168,85,247,0.12)', color: '#a855f7' }}>
+                <MessageSquare size={16} />
+              </button>
+              <button type="button" onClick={() => handleBooked(match)} disabled={done} aria-label={`Mark ${match.client.alias} booked`}
+                className="p-2 rounded-lg disabled:opacity-40" style={{ backgroundColor: 'rgba(34,197,94,0.12)', color: '#22c55e' }}>
+                <Check size={16} />
+              </button>
+            </div>
+          )
+        })}
+      </div>
+
+      {messaging && (
+        <SendMessageSheet
+          isOpen={!!messaging}
+          onClose={() => setMessaging(null)}
+          client={messaging.client}
+          openSlot={formatOpenSlot(slot, timeZone)}
+        />
+      )}
+    </>
+  )
+}
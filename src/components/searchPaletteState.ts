@@ -0,0 +1,11 @@
+const openListeners = new Set<() => void>()
+
+/** Open the global search palette from anywhere (PageHeader, keyboard shortcut). */
+export function openSearchPalette(): void {
+  openListeners.forEach(fn => fn())
+}
+
+export function onOpenSearchPalette(fn: () => void): () => void {
+  openListeners.add(fn)
+  return () => { openListeners.delete(fn) }
+}
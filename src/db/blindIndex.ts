@@ -0,0 +1,98 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Blind index — indexed lookups on encrypted contact fields
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// Each client carries `contactHashes`: one keyed hash per normalized phone,
+// email or messenger handle, stored in a multiEntry index. "Does this number
+// already exist / is it blacklisted" is then a single indexed query instead
+// of decrypting and comparing every client.
+//
+// Values are normalized by kind, not by field — the same number entered as
+// phone on one client and WhatsApp on another still matches.
+//
+// With PIN lock on, hashes are HMACs under a sub-key of the master key
+// (keyedHashSync). With it off the data is plaintext anyway, so the
+// normalized value is used directly ("p:" prefix). The field-encryption
+// migrations call reindexContactHashes() whenever that mode or the key changes.
+
+import { decryptFieldSync, keyedHashSync } from './fieldCrypto'
+import type { Client } from '../types'
+
+export const CONTACT_FIELDS = ['phone', 'email', 'telegram', 'signal', 'whatsapp'] as const
+export type ContactField = typeof CONTACT_FIELDS[number]
+
+const SEALED_PREFIX = 'enc:'
+const MIN_PHONE_DIGITS = 7
+
+/**
+ * Canonical form of a contact value, tagged with its kind:
+ * "+1 (555) 010-0199" → "phone:15550100199", " Foo@Example.com" → "email:foo@example.com",
+ * "@handle" → "handle:handle".
+ */
+export function normalizeContact(value: string): string | null {
+  const v = value.trim().toLowerCase()
+  if (!v) return null
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v)) return `email:${v}`
+  const digits = v.replace(/\D/g, '')
+  if (/^[\d\s()+.-]+$/.test(v) && digits.length >= MIN_PHONE_DIGITS) return `phone:${digits}`
+  const handle = v.replace(/^@+/, '').replace(/\s+/g, '')
+  return handle ? `handle:${handle}` : null
+}
+
+function hashContact(normalized: string, keyed: boolean): string {
+  return (keyed ? keyedHashSync(normalized) : null) ?? `p:${normalized}`
+}
+
+/**
+ * Blind-index entries for a client record. Sealed values are opened with the
+ * loaded key; returns null if a value is sealed and can't be opened (locked),
+ * so callers leave the stored hashes alone rather than drop them.
+ */
+export function contactHashesFor(record: Partial<Record<ContactField, unknown>>, keyed = true): string[] | null {
+  const hashes = new Set<string>()
+  for (const field of CONTACT_FIELDS) {
+    const raw = record[field]
+    if (typeof raw !== 'string' || !raw) continue
+    const value = raw.startsWith(SEALED_PREFIX) ? decryptFieldSync(raw) : raw
+    if (!value || value.startsWith(SEALED_PREFIX) || value === '[encrypted]') return null
+    const normalized = normalizeContact(value)
+    if (normalized) hashes.add(hashContact(normalized, keyed))
+  }
+  return [...hashes]
+}
+
+/** Blind-index entries for loose values (import rows, a number typed into a form). */
+export function contactHashesOf(values: (string | undefined | null)[]): string[] {
+  const hashes = new Set<string>()
+  for (const value of values) {
+    const normalized = value ? normalizeContact(value) : null
+    if (normalized) hashes.add(hashContact(normalized, true))
+  }
+  return [...hashes]
+}
+
+/** Clients sharing any contact value with `values` — an indexed query, no decryption scan. */
+export async function findClientsByContact(values: (string | undefined | null)[]): Promise<Client[]> {
+  const hashes = contactHashesOf(values)
+  if (hashes.length === 0) return []
+  const { db } = await import('./index')
+  return db.clients.where('contactHashes').anyOf(hashes).distinct().toArray()
+}
+
+/** Whether any of `values` belongs to a blacklisted client. */
+export async function isContactBlacklisted(values: (string | undefined | null)[]): Promise<boolean> {
+  return (await findClientsByContact(values)).some(c => c.isBlocked)
+}
+
+/**
+ * Recompute every client's hashes. Runs inside the field-encryption
+ * migrations (hooks bypassed, so values arrive sealed and are opened here);
+ * `keyed: false` while PIN lock is being turned off.
+ */
+export async function reindexContactHashes(keyed = true): Promise<void> {
+  const { db } = await import('./index')
+  await db.clients.toCollection().modify(client => {
+    const hashes = contactHashesFor(client, keyed)
+    if (hashes) client.contactHashes = hashes
+  })
+}
@@ -0,0 +1,121 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Document blob encryption — screening docs, venue docs and receipts
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// ID photos, venue paperwork and receipts are stored as Blobs, which the synchronous
+// field-encryption hooks can't read. Instead the write paths seal the bytes
+// explicitly (sealDocBlob) and mark the record `encrypted: true`; viewers
+// open them on demand (openDocBlob) and only ever hold the plaintext in
+// memory — object URLs and thumbnails are built from the opened Blob.
+//
+// Sealed format: Blob( nonce || secretbox ciphertext ), type octet-stream.
+// The field-encryption migrations call sealAllDocBlobs() / openAllDocBlobs()
+// when PIN lock is turned on or off, covering documents held in the trash.
+// Backups always carry plaintext documents (like every other field) and are
+// re-sealed with this device's key on restore.
+
+import { isFieldEncryptionReady, sealBytesSync, openBytesSync } from './fieldCrypto'
+
+export const DOC_TABLES = ['screeningDocs', 'venueDocs', 'receipts'] as const
+export type DocTable = typeof DOC_TABLES[number]
+
+/** The fields of a ScreeningDoc / VenueDoc / Receipt this module works with */
+export interface DocLike {
+  data: Blob
+  mimeType: string
+  encrypted?: boolean
+}
+
+function isDocLike(row: Record<string, unknown>): row is Record<string, unknown> & DocLike {
+  return row.data instanceof Blob && typeof row.mimeType === 'string'
+}
+
+/** Seal a document's bytes if a key is loaded; pass through otherwise. */
+export async function sealDocBlob(data: Blob): Promise<{ data: Blob; encrypted?: true }> {
+  if (!isFieldEncryptionReady()) return { data }
+  const sealed = sealBytesSync(new Uint8Array(await data.arrayBuffer()))
+  return { data: new Blob([sealed as Uint8Array<ArrayBuffer>], { type: 'application/octet-stream' }), encrypted: true }
+}
+
+/** Plaintext Blob for a document, typed with its mimeType. Throws if it can't be opened. */
+export async function openDocBlob(doc: DocLike): Promise<Blob> {
+  if (!doc.encrypted) return doc.data
+  if (!isFieldEncryptionReady()) throw new Error('Document is encrypted — unlock to view')
+  const opened = openBytesSync(new Uint8Array(await doc.data.arrayBuffer()))
+  if (!opened) throw new Error('Document could not be decrypted')
+  return new Blob([opened as Uint8Array<ArrayBuffer>], { type: doc.mimeType })
+}
+
+/** Copy of a document record with plaintext data — for backups and exports. */
+export async function openDocRecord<T extends DocLike>(doc: T): Promise<T> {
+  if (!doc.encrypted) return doc
+  const plain = { ...doc, data: await openDocBlob(doc) }
+  delete plain.encrypted
+  return plain
+}
+
+/** Seal plaintext document records in place — for restoring backups. */
+export async function sealDocRecords(rows: unknown[] | undefined): Promise<void> {
+  if (!rows || !isFieldEncryptionReady()) return
+  for (const row of rows) {
+    const doc = row as Record<string, unknown>
+    if (doc.encrypted || !(doc.data instanceof Blob)) continue
+    Object.assign(doc, await sealDocBlob(doc.data))
+  }
+}
+
+// ── Migrations ─────────────────────────────────────────────────────────
+
+type DocTransform = (doc: DocLike) => Promise<Partial<DocLike> | null>
+
+const sealTransform: DocTransform = async (doc) =>
+  doc.encrypted || !(doc.data instanceof Blob) ? null : sealDocBlob(doc.data)
+
+const openTransform: DocTransform = async (doc) =>
+  doc.encrypted ? { data: await openDocBlob(doc), encrypted: undefined } : null
+
+/**
+ * One document at a time (outside a transaction — reading a Blob isn't an
+ * IndexedDB request), so only a single file is ever in memory.
+ */
+async function transformAllDocs(transform: DocTransform): Promise<void> {
+  const { db } = await import('./index')
+  for (const table of DOC_TABLES) {
+    const ids = await db.table(table).toCollection().primaryKeys()
+    for (const id of ids) {
+      const doc = await db.table(table).get(id) as DocLike | undefined
+      if (!doc) continue
+      const updates = await transform(doc)
+      if (updates) await db.table(table).update(id, updates)
+    }
+  }
+
+  const entryIds = await db.trash.toCollection().primaryKeys()
+  for (const id of entryIds) {
+    const entry = await db.trash.get(id)
+    if (!entry) continue
+    let changed = false
+    for (const table of DOC_TABLES) {
+      for (const row of entry.records[table] ?? []) {
+        if (!isDocLike(row)) continue
+        // An unreadable trashed file stays sealed rather than block the migration
+        const updates = await transform(row).catch(() => null)
+        if (!updates) continue
+        Object.assign(row, updates)
+        if (updates.encrypted === undefined) delete row.encrypted
+        changed = true
+      }
+    }
+    if (changed) await db.trash.update(id, { records: entry.records })
+  }
+}
+
+/** Seal every plaintext document blob — run when field encryption is enabled. */
+export function sealAllDocBlobs(): Promise<void> {
+  return transformAllDocs(sealTransform)
+}
+
+/** Open every sealed document blob — run before the key is removed. Throws rather than lose a file. */
+export function openAllDocBlobs(): Promise<void> {
+  return transformAllDocs(openTransform)
+}
@@ -16,6 +16,7 @@
 //
 // Encrypted field format:  enc:{base64( nonce || ciphertext )}
 // The "enc:" prefix distinguishes encrypted from plaintext values.
+// Document Blobs are sealed separately, see docCrypto.ts.
 
 import type naclType from 'tweetnacl'
 let nacl: typeof naclType
@@ -39,6 +40,12 @@ export const SENSITIVE_FIELDS: Record<string, string[]> = {
     'address', 'directions', 'contactName', 'contactPhone', 'contactEmail',
     'accessNotes', 'bookingNotes', 'costNotes', 'notes',
   ],
+  blockedTimes: ['title', 'location'],
+  tours: ['notes'],
+  waitlist: ['notes'],
+  taxPayments: ['notes'],
+  recurringExpenses: ['name', 'notes'],
+  inquiries: ['name', 'contact', 'message'],
 }
 
 // ── Module state (memory-only) ─────────────────────────────────────────
@@ -50,6 +57,16 @@ export function isFieldEncryptionReady(): boolean {
   return _key !== null
 }
 
+/**
+ * True when a PIN-wrapped key exists but hasn't been unlocked yet — sensitive
+ * fields written now would land in plaintext, so background writers wait.
+ */
+export async function isFieldEncryptionLocked(): Promise<boolean> {
+  if (_key) return false
+  const { db } = await import('./index')
+  return !!(await db.meta.get('field_encryption_key'))?.value
+}
+
 /** True when migration is in progress — hooks should pass through. */
 export function shouldBypassHooks(): boolean {
   return _bypassHooks
@@ -57,7 +74,10 @@ export function shouldBypassHooks(): boolean {
 
 export function clearFieldEncryption(): void {
   if (_key) _key.fill(0)
+  if (_blindKey) _blindKey.fill(0)
   _key = null
+  _blindKey = null
+  _blindKeySource = null
 }
 
 // ── Helpers ────────────────────────────────────────────────────────────
@@ -116,6 +136,100 @@ export function decryptFieldSync(value: string | undefined | null): string | und
   }
 }
 
+// ── Opaque payload encrypt / decrypt (sync envelopes) ──────────────────
+
+/** Seal a string with the master key → base64( nonce || ciphertext ). */
+export function sealStringSync(value: string): string {
+  if (!_key) throw new Error('Encryption not initialized')
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
+  const sealed = nacl.secretbox(encoder.encode(value), nonce, _key)
+  const combined = new Uint8Array(nonce.length + sealed.length)
+  combined.set(nonce, 0)
+  combined.set(sealed, nonce.length)
+  return toBase64(combined)
+}
+
+/** Open a payload produced by sealStringSync. Returns null on auth failure. */
+export function openStringSync(sealed: string): string | null {
+  if (!_key) throw new Error('Encryption not initialized')
+  try {
+    const combined = fromBase64(sealed)
+    const nonce = combined.slice(0, nacl.secretbox.nonceLength)
+    const opened = nacl.secretbox.open(combined.slice(nacl.secretbox.nonceLength), nonce, _key)
+    return opened ? decoder.decode(opened) : null
+  } catch {
+    return null
+  }
+}
+
+/** Seal raw bytes (document blobs) with the master key → nonce || ciphertext. */
+export function sealBytesSync(bytes: Uint8Array): Uint8Array {
+  if (!_key) throw new Error('Encryption not initialized')
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
+  const sealed = nacl.secretbox(bytes, nonce, _key)
+  const combined = new Uint8Array(nonce.length + sealed.length)
+  combined.set(nonce, 0)
+  combined.set(sealed, nonce.length)
+  return combined
+}
+
+/** Open bytes produced by sealBytesSync. Returns null on auth failure. */
+export function openBytesSync(combined: Uint8Array): Uint8Array | null {
+  if (!_key) throw new Error('Encryption not initialized')
+  if (combined.length < nacl.secretbox.nonceLength + nacl.secretbox.overheadLength) return null
+  const nonce = combined.subarray(0, nacl.secretbox.nonceLength)
+  return nacl.secretbox.open(combined.subarray(nacl.secretbox.nonceLength), nonce, _key)
+}
+
+/**
+ * Derive a purpose-specific 32-byte key from the master key (SHA-512 of key || label).
+ * Used where the master key itself must never leave the device, e.g. the sync vault id.
+ */
+export function deriveSubKeySync(label: string): Uint8Array {
+  if (!_key) throw new Error('Encryption not initialized')
+  const labelBytes = encoder.encode(label)
+  const input = new Uint8Array(_key.length + labelBytes.length)
+  input.set(_key, 0)
+  input.set(labelBytes, _key.length)
+  return nacl.hash(input).slice(0, 32)
+}
+
+// ── Keyed hash (blind index) ───────────────────────────────────────────
+
+const HMAC_BLOCK_BYTES = 128 // SHA-512 block size
+let _blindKey: Uint8Array | null = null
+let _blindKeySource: Uint8Array | null = null
+
+/**
+ * HMAC-SHA-512 of `value` under a sub-key of the master key, truncated to
+ * 128 bits → base64. Equal inputs give equal outputs, so sealed values can be
+ * matched through an index without the index revealing them.
+ * Returns null when no master key is loaded (PIN lock off, or still locked).
+ */
+export function keyedHashSync(value: string): string | null {
+  if (!_key) return null
+  if (_blindKeySource !== _key) {
+    _blindKey = deriveSubKeySync('companion-blind-index-v1')
+    _blindKeySource = _key
+  }
+  const inner = new Uint8Array(HMAC_BLOCK_BYTES)
+  const outer = new Uint8Array(HMAC_BLOCK_BYTES)
+  inner.set(_blindKey!)
+  outer.set(_blindKey!)
+  for (let i = 0; i < HMAC_BLOCK_BYTES; i++) {
+    inner[i] ^= 0x36
+    outer[i] ^= 0x5c
+  }
+  const msg = encoder.encode(value)
+  const innerInput = new Uint8Array(HMAC_BLOCK_BYTES + msg.length)
+  innerInput.set(inner)
+  innerInput.set(msg, HMAC_BLOCK_BYTES)
+  const outerInput = new Uint8Array(HMAC_BLOCK_BYTES + 64)
+  outerInput.set(outer)
+  outerInput.set(nacl.hash(innerInput), HMAC_BLOCK_BYTES)
+  return toBase64(nacl.hash(outerInput).slice(0, 16))
+}
+
 // ── Record-level helpers (for Dexie hooks) ─────────────────────────────
 
 /** Encrypt sensitive fields in a record (synchronous, for creating/updating hooks). */
@@ -226,8 +340,10 @@ export async function initFieldEncryption(pin: string): Promise<void> {
   const { db } = await import('./index')
   const record = await db.meta.get('field_encryption_key')
   // Versioned re-encrypt: pick up newly added sensitive fields for existing users
-  // Bump this number whenever SENSITIVE_FIELDS is expanded.
-  const ENCRYPT_SCHEMA_VERSION = 3
+  // Bump this number whenever SENSITIVE_FIELDS is expanded or the blind index
+  // scheme changes (the migration also rebuilds clients' contactHashes and
+  // seals document blobs).
+  const ENCRYPT_SCHEMA_VERSION = 11
   if (record?.value) {
     _key = await unwrapFromStore(pin)
   } else {
@@ -252,6 +368,35 @@ export async function reWrapMasterKey(newPin: string): Promise<void> {
   await wrapAndStore(newPin, _key)
 }
 
+/**
+ * Export the master key for pairing another device (sync).
+ * The code is as sensitive as the PIN-unlocked database itself.
+ */
+export function exportMasterKey(): string {
+  if (!_key) throw new Error('Encryption not initialized')
+  return toBase64(_key)
+}
+
+/**
+ * Replace this device's master key with one exported from another device.
+ * Existing data is decrypted with the old key, then re-encrypted with the new one.
+ */
+export async function adoptMasterKey(encodedKey: string, pin: string): Promise<void> {
+  if (!nacl) nacl = (await import('tweetnacl')).default
+  let newKey: Uint8Array
+  try {
+    newKey = fromBase64(encodedKey.trim())
+  } catch {
+    throw new Error('Invalid pairing code')
+  }
+  if (newKey.length !== 32) throw new Error('Invalid pairing code')
+  if (_key) await migrateAllToPlaintext()
+  clearFieldEncryption()
+  _key = newKey
+  await wrapAndStore(pin, _key)
+  await migrateAllToEncrypted()
+}
+
 /**
  * Disable encryption: decrypt all data → remove key → clear memory.
  */
@@ -297,6 +442,18 @@ async function migrateAllToEncrypted(): Promise<void> {
         }
       })
     }
+
+    const { transformSealedValues } = await import('./revisions')
+    await transformSealedValues(v => encryptFieldSync(v) as string)
+    const { transformTrashValues } = await import('./trash')
+    await transformTrashValues(v => encryptFieldSync(v) as string)
+
+    // Plain contact hashes → keyed hashes under the (possibly new) master key
+    const { reindexContactHashes } = await import('./blindIndex')
+    await reindexContactHashes()
+
+    const { sealAllDocBlobs } = await import('./docCrypto')
+    await sealAllDocBlobs()
   } finally {
     _bypassHooks = false
   }
@@ -334,6 +491,25 @@ async function migrateAllToPlaintext(): Promise<void> {
         }
       })
     }
+
+    // History is best-effort: an unreadable old value shouldn't block disabling PIN
+    const { transformSealedValues } = await import('./revisions')
+    await transformSealedValues(v => (v.startsWith(ENC_PREFIX) ? decryptFieldSync(v) as string : v))
+
+    // Trashed records are real data: keep a value sealed rather than lose it
+    const { transformTrashValues } = await import('./trash')
+    await transformTrashValues(v => {
+      if (!v.startsWith(ENC_PREFIX)) return v
+      const opened = decryptFieldSync(v) as string
+      return opened === '[encrypted]' ? v : opened
+    })
+
+    // The key is about to go — fall back to plain contact hashes
+    const { reindexContactHashes } = await import('./blindIndex')
+    await reindexContactHashes(false)
+
+    const { openAllDocBlobs } = await import('./docCrypto')
+    await openAllDocBlobs()
   } finally {
     _bypassHooks = false
   }
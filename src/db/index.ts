@@ -1,17 +1,33 @@
-import Dexie, { type EntityTable } from 'dexie'
+import Dexie, { type EntityTable, type Transaction as DexieTransaction } from 'dexie'
 import { lsKey } from '../hooks/useSettings'
 import type {
-  Client, Booking, Transaction, DayAvailability,
+  Client, Booking, Transaction, DayAvailability, AvailabilityTemplate,
   SafetyContact, SafetyCheck, IncidentLog, ServiceRate, BookingPayment, JournalEntry, ScreeningDoc,
-  IncallVenue, VenueDoc, ChecklistItem
+  IncallVenue, VenueDoc, ChecklistItem, BlockedTime, Tour, WaitlistEntry, Inquiry, FxRate, TaxPayment, Receipt,
+  RecurringExpense
 } from '../types'
 import type { PaymentLabel, PaymentMethod, ScreeningStatus, BookingStatus } from '../types'
+import type { SyncRecordMeta } from './sync'
+import type { RecordRevision } from './revisions'
+import type { TrashEntry } from './trash'
+import { CONTACT_FIELDS, contactHashesFor } from './blindIndex'
+
+/** Tables whose amounts carry a `currency` */
+const CURRENCY_TABLES = ['bookings', 'transactions', 'payments', 'recurringExpenses'] as const
 
 class CompanionDatabase extends Dexie {
   clients!: EntityTable<Client, 'id'>
   bookings!: EntityTable<Booking, 'id'>
   transactions!: EntityTable<Transaction, 'id'>
   availability!: EntityTable<DayAvailability, 'id'>
+  availabilityTemplates!: EntityTable<AvailabilityTemplate, 'id'>
+  blockedTimes!: EntityTable<BlockedTime, 'id'>
+  tours!: EntityTable<Tour, 'id'>
+  waitlist!: EntityTable<WaitlistEntry, 'id'>
+  inquiries!: EntityTable<Inquiry, 'id'>
+  fxRates!: EntityTable<FxRate, 'id'>
+  taxPayments!: EntityTable<TaxPayment, 'id'>
+  recurringExpenses!: EntityTable<RecurringExpense, 'id'>
   safetyContacts!: EntityTable<SafetyContact, 'id'>
   safetyChecks!: EntityTable<SafetyCheck, 'id'>
   incidents!: EntityTable<IncidentLog, 'id'>
@@ -21,7 +37,11 @@ class CompanionDatabase extends Dexie {
   screeningDocs!: EntityTable<ScreeningDoc, 'id'>
   incallVenues!: EntityTable<IncallVenue, 'id'>
   venueDocs!: EntityTable<VenueDoc, 'id'>
+  receipts!: EntityTable<Receipt, 'id'>
   bookingChecklist!: EntityTable<ChecklistItem, 'id'>
+  syncMeta!: EntityTable<SyncRecordMeta, 'key'>
+  revisions!: EntityTable<RecordRevision, 'id'>
+  trash!: EntityTable<TrashEntry, 'id'>
   meta!: Dexie.Table<{ key: string; value: unknown }, string>
 
   constructor() {
@@ -214,6 +234,378 @@ class CompanionDatabase extends Dexie {
       bookingChecklist: 'id, bookingId, sortOrder',
       meta: 'key',
     })
+
+    // v12: Add per-record sync stamps / tombstones for multi-device sync
+    this.version(12).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      meta: 'key',
+    })
+
+    // v13: Add per-record revision history
+    this.version(13).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      meta: 'key',
+    })
+
+    // v14: Add trash bin for soft-deleted records
+    this.version(14).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v15: Add blind-index contact hashes to clients
+    this.version(15).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    }).upgrade(tx => {
+      // Plaintext clients get their blind index now; sealed ones are
+      // indexed by the ENCRYPT_SCHEMA_VERSION migration after unlock
+      return tx.table('clients').toCollection().modify(client => {
+        const hashes = contactHashesFor(client)
+        if (hashes) client.contactHashes = hashes
+      })
+    })
+
+    // v16: Add weekly availability templates (per-date rows become overrides)
+    this.version(16).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v17: Add blocked time imported from external calendars (.ics)
+    this.version(17).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      blockedTimes: 'id, uid, source, start',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v18: Add tours (multi-city trips)
+    this.version(18).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      blockedTimes: 'id, uid, source, start',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      tours: 'id, createdAt',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v19: Add waitlist (clients waiting on a day/time window)
+    this.version(19).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      blockedTimes: 'id, uid, source, start',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      tours: 'id, createdAt',
+      waitlist: 'id, clientId, date, createdAt',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v20: Add inquiries (booking requests pulled from the public form)
+    this.version(20).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      blockedTimes: 'id, uid, source, start',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      tours: 'id, createdAt',
+      waitlist: 'id, clientId, date, createdAt',
+      inquiries: 'id, status, receivedAt',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v21: Add FX rates (multi-currency ledger)
+    this.version(21).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      blockedTimes: 'id, uid, source, start',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      tours: 'id, createdAt',
+      waitlist: 'id, clientId, date, createdAt',
+      inquiries: 'id, status, receivedAt',
+      fxRates: 'id, base, quote, date',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v22: Add estimated tax payments
+    this.version(22).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      blockedTimes: 'id, uid, source, start',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      tours: 'id, createdAt',
+      waitlist: 'id, clientId, date, createdAt',
+      inquiries: 'id, status, receivedAt',
+      fxRates: 'id, base, quote, date',
+      taxPayments: 'id, taxYear, date',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v23: Add expense receipts
+    this.version(23).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      blockedTimes: 'id, uid, source, start',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      receipts: 'id, transactionId, uploadedAt',
+      tours: 'id, createdAt',
+      waitlist: 'id, clientId, date, createdAt',
+      inquiries: 'id, status, receivedAt',
+      fxRates: 'id, base, quote, date',
+      taxPayments: 'id, taxYear, date',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v24: Add recurring expenses
+    this.version(24).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      blockedTimes: 'id, uid, source, start',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      receipts: 'id, transactionId, uploadedAt',
+      tours: 'id, createdAt',
+      waitlist: 'id, clientId, date, createdAt',
+      inquiries: 'id, status, receivedAt',
+      fxRates: 'id, base, quote, date',
+      taxPayments: 'id, taxYear, date',
+      recurringExpenses: 'id, startDate',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    })
+
+    // v25: Stamp the home currency on money records written before currencies
+    // were per-record, so changing it later doesn't re-denominate them
+    this.version(25).stores({
+      clients: 'id, alias, screeningStatus, riskLevel, isBlocked, isPinned, dateAdded, *contactHashes',
+      bookings: 'id, clientId, dateTime, status, createdAt, recurrenceRootId',
+      transactions: 'id, bookingId, type, category, date',
+      availability: 'id, date',
+      availabilityTemplates: 'id, weekday',
+      blockedTimes: 'id, uid, source, start',
+      safetyContacts: 'id, isPrimary, isActive',
+      safetyChecks: 'id, bookingId, status, scheduledTime',
+      incidents: 'id, clientId, bookingId, date, severity',
+      serviceRates: 'id, sortOrder, isActive',
+      payments: 'id, bookingId, label, date',
+      journalEntries: 'id, bookingId, clientId, date',
+      screeningDocs: 'id, clientId, uploadedAt',
+      incallVenues: 'id, city, isFavorite, isArchived, createdAt',
+      venueDocs: 'id, venueId, uploadedAt',
+      receipts: 'id, transactionId, uploadedAt',
+      tours: 'id, createdAt',
+      waitlist: 'id, clientId, date, createdAt',
+      inquiries: 'id, status, receivedAt',
+      fxRates: 'id, base, quote, date',
+      taxPayments: 'id, taxYear, date',
+      recurringExpenses: 'id, startDate',
+      bookingChecklist: 'id, bookingId, sortOrder',
+      syncMeta: 'key, dirty',
+      revisions: 'id, [table+recordId], ownerId, at',
+      trash: 'id, kind, deletedAt',
+      meta: 'key',
+    }).upgrade(tx => {
+      const home = getCurrency()
+      return Promise.all(CURRENCY_TABLES.map(name => tx.table(name).toCollection().modify(row => {
+        if (!row.currency) row.currency = home
+      })))
+    })
   }
 }
 
@@ -268,6 +660,115 @@ for (const [tableName, fields] of Object.entries(SENSITIVE_FIELDS)) {
   })
 }
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CURRENCY STAMP HOOKS
+// Money records keep the currency they were written in. New rows without
+// one get the home currency now, not whatever it is when a report runs.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+for (const tableName of CURRENCY_TABLES) {
+  db.table(tableName).hook('creating', function (_primKey: unknown, obj: { currency?: string }) {
+    if (!obj.currency) obj.currency = getCurrency()
+  })
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SYNC CHANGE TRACKING HOOKS
+// Stamp every local write so the sync engine knows what to push.
+// No-ops unless device sync is enabled; remote applies are skipped.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { SYNCED_TABLES, recordLocalChange, isRemoteSyncTransaction } from './sync'
+
+for (const tableName of SYNCED_TABLES) {
+  const table = db.table(tableName)
+
+  table.hook('creating', function (primKey: unknown, obj: { id?: unknown }, trans: unknown) {
+    if (shouldBypassHooks() || isRemoteSyncTransaction(trans)) return
+    recordLocalChange(tableName, String(primKey ?? obj.id), Object.keys(obj), false)
+  })
+
+  table.hook('updating', function (mods: object, primKey: unknown, _obj: unknown, trans: unknown) {
+    if (shouldBypassHooks() || isRemoteSyncTransaction(trans)) return
+    // Key paths like "tags.0" collapse to their top-level field
+    const fields = Object.keys(mods).map(k => k.split('.')[0])
+    recordLocalChange(tableName, String(primKey), fields, false)
+  })
+
+  table.hook('deleting', function (primKey: unknown, _obj: unknown, trans: unknown) {
+    if (shouldBypassHooks() || isRemoteSyncTransaction(trans)) return
+    recordLocalChange(tableName, String(primKey), [], true)
+  })
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// REVISION HISTORY HOOKS
+// Field-level change log for edits and deletes; written after commit.
+// Registered after the encryption hooks, so sensitive values arrive sealed.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { REVISIONED_TABLES, recordUpdate, recordDelete } from './revisions'
+
+for (const tableName of REVISIONED_TABLES) {
+  const table = db.table(tableName)
+
+  table.hook('updating', function (mods: object, primKey: unknown, obj: object, trans: DexieTransaction) {
+    if (shouldBypassHooks()) return
+    recordUpdate(tableName, primKey, mods as Record<string, unknown>, obj as Record<string, unknown>, trans)
+  })
+
+  table.hook('deleting', function (primKey: unknown, obj: object, trans: DexieTransaction) {
+    if (shouldBypassHooks()) return
+    recordDelete(tableName, primKey, obj as Record<string, unknown>, trans)
+  })
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SEARCH INDEX HOOKS
+// Keep the in-memory search index current; touched records are
+// re-read and re-indexed once the transaction commits.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+import { SEARCH_TABLES, noteSearchChange } from './searchIndex'
+
+for (const tableName of SEARCH_TABLES) {
+  const table = db.table(tableName)
+
+  table.hook('creating', function (primKey: unknown, obj: { id?: unknown }, trans: DexieTransaction) {
+    if (shouldBypassHooks()) return
+    noteSearchChange(tableName, String(primKey ?? obj.id), trans)
+  })
+
+  table.hook('updating', function (_mods: object, primKey: unknown, _obj: unknown, trans: DexieTransaction) {
+    if (shouldBypassHooks()) return
+    noteSearchChange(tableName, String(primKey), trans)
+  })
+
+  table.hook('deleting', function (primKey: unknown, _obj: unknown, trans: DexieTransaction) {
+    if (shouldBypassHooks()) return
+    noteSearchChange(tableName, String(primKey), trans)
+  })
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BLIND INDEX HOOKS
+// Keep clients' contactHashes in step with their contact fields.
+// Registered last so the derived column stays out of history and sync diffs.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+db.clients.hook('creating', function (_primKey: unknown, obj: Client) {
+  if (shouldBypassHooks()) return
+  const hashes = contactHashesFor(obj)
+  if (hashes) obj.contactHashes = hashes
+})
+
+db.clients.hook('updating', function (mods: object, _primKey: unknown, obj: Client) {
+  if (shouldBypassHooks()) return
+  if (!CONTACT_FIELDS.some(f => f in mods)) return
+  const hashes = contactHashesFor({ ...obj, ...mods })
+  return hashes ? { contactHashes: hashes } : undefined
+})
+
 // Helper: generate UUID
 export function newId(): string {
   // crypto.randomUUID() not available in all browsers (e.g. older Samsung Internet)
@@ -328,7 +829,9 @@ export function createBooking(data: Partial<Booking>): Booking {
     locationAddress: data.locationAddress,
     locationNotes: data.locationNotes,
     venueId: data.venueId,
+    timeZone: data.timeZone,
     status: data.status ?? 'To Be Confirmed',
+    currency: data.currency,
     baseRate: data.baseRate ?? 0,
     extras: data.extras ?? 0,
     travelFee: data.travelFee ?? 0,
@@ -347,6 +850,9 @@ export function createBooking(data: Partial<Booking>): Booking {
     safetyCheckMinutesAfter: data.safetyCheckMinutesAfter ?? 15,
     safetyContactId: data.safetyContactId,
     recurrence: data.recurrence ?? 'none',
+    rrule: data.rrule,
+    recurrenceDate: data.recurrenceDate,
+    recurrenceExceptions: data.recurrenceExceptions,
     parentBookingId: data.parentBookingId,
     recurrenceRootId: data.recurrenceRootId ?? data.parentBookingId,
   }
@@ -358,11 +864,15 @@ export function createTransaction(data: Partial<Transaction> & { amount: number;
     id: newId(),
     bookingId: data.bookingId,
     amount: data.amount,
+    currency: data.currency,
     type: data.type,
     category: data.category ?? 'other',
     paymentMethod: data.paymentMethod,
     date: data.date ?? new Date(),
     notes: data.notes ?? '',
+    tourId: data.tourId,
+    recurringExpenseId: data.recurringExpenseId,
+    venueId: data.venueId,
   }
 }
 
@@ -453,9 +963,8 @@ export function getCurrency(): string {
   } catch { return DEFAULT_CURRENCY }
 }
 
-// Helper: format currency — reads currency from localStorage, locale from browser
-export function formatCurrency(amount: number): string {
-  const currency = getCurrency()
+// Helper: format currency — home currency from localStorage unless given, locale from browser
+export function formatCurrency(amount: number, currency: string = getCurrency()): string {
   const locale = typeof navigator !== 'undefined' ? navigator.language : 'en-US'
   try {
     return new Intl.NumberFormat(locale, {
@@ -488,10 +997,13 @@ export async function recordBookingPayment(opts: {
 }): Promise<string> {
   const paymentId = newId()
   await db.transaction('rw', [db.payments, db.transactions, db.bookings], async () => {
+    // Payments are in the booking's currency, so its balance never needs converting
+    const currency = (await db.bookings.get(opts.bookingId))?.currency
     await db.payments.add({
       id: paymentId,
       bookingId: opts.bookingId,
       amount: opts.amount,
+      currency,
       method: opts.method,
       label: opts.label,
       date: new Date(),
@@ -504,6 +1016,7 @@ export async function recordBookingPayment(opts: {
         bookingId: opts.bookingId,
         paymentId,
         amount: opts.amount,
+        currency,
         type: 'income',
         category: opts.label === 'Tip' ? 'tip' : opts.label === 'Cancellation Fee' ? 'other' : 'booking',
         paymentMethod: opts.method,
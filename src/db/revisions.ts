@@ -0,0 +1,265 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Revision history — field-level change log with revert
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// Dexie hooks (registered in db/index.ts) capture every update and delete on
+// the tracked tables as a list of { field, from, to } changes. Revisions are
+// queued per transaction and only written once it commits, so aborted edits
+// leave no history behind.
+//
+// Reverting walks back from the current record, undoing revisions newest
+// first; a delete revision carries the full pre-delete record so deleted
+// rows can be brought back. Creates aren't logged — nothing before a record
+// existed can be reverted to.
+//
+// Values of SENSITIVE_FIELDS are stored sealed with the field-encryption key
+// (same "enc:" format as the source tables) and decrypted when read back.
+
+import Dexie, { type Transaction } from 'dexie'
+import { SENSITIVE_FIELDS, encryptFieldSync, decryptFieldSync } from './fieldCrypto'
+
+export const REVISIONED_TABLES = ['clients', 'bookings', 'payments', 'incidents'] as const
+export type RevisionedTable = typeof REVISIONED_TABLES[number]
+
+/** Oldest revisions beyond this are pruned per record. */
+const MAX_REVISIONS_PER_RECORD = 100
+
+// Derived columns maintained by other hooks — not user edits
+const UNTRACKED_FIELDS = new Set(['contactHashes'])
+
+// Child records show up in their parent's history (payments → booking, incidents → client)
+const OWNER_FIELD: Partial<Record<RevisionedTable, string>> = {
+  payments: 'bookingId',
+  incidents: 'clientId',
+}
+
+export interface FieldChange {
+  field: string
+  from?: unknown
+  to?: unknown
+}
+
+export interface RecordRevision {
+  id: string
+  table: RevisionedTable
+  recordId: string
+  /** Parent record id for child tables, see OWNER_FIELD */
+  ownerId?: string
+  /** Epoch ms, strictly increasing within a session so order is stable */
+  at: number
+  action: 'update' | 'delete' | 'revert'
+  changes: FieldChange[]
+  /** For 'revert': the revision the record was rolled back to */
+  revertedTo?: string
+}
+
+// ── Recording ──────────────────────────────────────────────────────────
+
+const pendingByTransaction = new WeakMap<object, RecordRevision[]>()
+const excludedTransactions = new WeakSet<object>()
+const revertTargets = new WeakMap<object, string>()
+let lastStamp = 0
+
+function nextStamp(): number {
+  lastStamp = Math.max(Date.now(), lastStamp + 1)
+  return lastStamp
+}
+
+/**
+ * Keep a transaction's writes out of the history — used by backup restores,
+ * which would otherwise log a delete snapshot of every record they replace.
+ */
+export function excludeFromHistory(trans: Transaction | null | undefined): void {
+  if (trans) excludedTransactions.add(trans)
+}
+
+function isSensitive(table: string, field: string): boolean {
+  return SENSITIVE_FIELDS[table]?.includes(field) ?? false
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+  if (a === undefined || b === undefined || a === null || b === null) return a === b
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/** Seal a string value of a sensitive field; encryptFieldSync leaves already-sealed values alone. */
+function sealValue(table: string, field: string, value: unknown): unknown {
+  return isSensitive(table, field) && typeof value === 'string' ? encryptFieldSync(value) : value
+}
+
+function openValue(table: string, field: string, value: unknown): unknown {
+  return isSensitive(table, field) && typeof value === 'string' ? decryptFieldSync(value) : value
+}
+
+function queue(trans: Transaction, revision: Omit<RecordRevision, 'id' | 'at' | 'action'> & { action: 'update' | 'delete' }): void {
+  if (excludedTransactions.has(trans)) return
+  const revertedTo = revertTargets.get(trans)
+  const full: RecordRevision = {
+    ...revision,
+    id: crypto.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    at: nextStamp(),
+    ...(revertedTo ? { action: 'revert', revertedTo } : {}),
+  }
+  let pending = pendingByTransaction.get(trans)
+  if (!pending) {
+    pending = []
+    pendingByTransaction.set(trans, pending)
+    trans.on('complete', () => {
+      const batch = pendingByTransaction.get(trans) ?? []
+      pendingByTransaction.delete(trans)
+      writeRevisions(batch).catch(err => console.error('[revisions] Failed to record history:', err))
+    })
+  }
+  pending.push(full)
+}
+
+function ownerOf(table: RevisionedTable, obj: Record<string, unknown>): string | undefined {
+  const field = OWNER_FIELD[table]
+  const value = field ? obj[field] : undefined
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * updating hook: `obj` is the stored record and `mods` the changes — sensitive
+ * values in either may be sealed, since the encryption hook runs first.
+ */
+export function recordUpdate(
+  table: RevisionedTable, primKey: unknown, mods: Record<string, unknown>,
+  obj: Record<string, unknown>, trans: Transaction,
+): void {
+  const after = Dexie.deepClone(obj)
+  for (const [keyPath, value] of Object.entries(mods)) {
+    if (value === undefined) Dexie.delByKeyPath(after, keyPath)
+    else Dexie.setByKeyPath(after, keyPath, value)
+  }
+  const fields = new Set(Object.keys(mods).map(k => k.split('.')[0]).filter(f => !UNTRACKED_FIELDS.has(f)))
+  const changes: FieldChange[] = []
+  for (const field of fields) {
+    const before = obj[field]
+    const next = after[field]
+    // Sensitive values may already be sealed (random nonce) — compare plaintext
+    if (sameValue(openValue(table, field, before), openValue(table, field, next))) continue
+    changes.push({ field, from: sealValue(table, field, before), to: sealValue(table, field, next) })
+  }
+  if (changes.length === 0) return
+  queue(trans, { table, recordId: String(primKey), ownerId: ownerOf(table, after), action: 'update', changes })
+}
+
+/** deleting hook: keep the whole record so a revert can recreate it. */
+export function recordDelete(table: RevisionedTable, primKey: unknown, obj: Record<string, unknown>, trans: Transaction): void {
+  const changes = Object.entries(obj)
+    .filter(([, v]) => v !== undefined)
+    .map(([field, value]) => ({ field, from: sealValue(table, field, value) }))
+  queue(trans, { table, recordId: String(primKey), ownerId: ownerOf(table, obj), action: 'delete', changes })
+}
+
+async function writeRevisions(batch: RecordRevision[]): Promise<void> {
+  if (batch.length === 0) return
+  const { db } = await import('./index')
+  await Dexie.ignoreTransaction(() => db.transaction('rw', db.revisions, async () => {
+    await db.revisions.bulkAdd(batch)
+    const touched = new Set(batch.map(r => `${r.table}\u0000${r.recordId}`))
+    for (const key of touched) {
+      const [table, recordId] = key.split('\u0000')
+      const revs = await db.revisions.where('[table+recordId]').equals([table, recordId]).sortBy('at')
+      if (revs.length > MAX_REVISIONS_PER_RECORD) {
+        await db.revisions.bulkDelete(revs.slice(0, revs.length - MAX_REVISIONS_PER_RECORD).map(r => r.id))
+      }
+    }
+  }))
+}
+
+// ── Reading ────────────────────────────────────────────────────────────
+
+function decryptRevision(rev: RecordRevision): RecordRevision {
+  return {
+    ...rev,
+    changes: rev.changes.map(c => ({
+      field: c.field,
+      ...('from' in c ? { from: openValue(rev.table, c.field, c.from) } : {}),
+      ...('to' in c ? { to: openValue(rev.table, c.field, c.to) } : {}),
+    })),
+  }
+}
+
+/**
+ * Combine a record's own revisions with its children's (payments of a
+ * booking, incidents of a client): newest first, sensitive values decrypted.
+ * Takes raw rows so callers can query inside useLiveQuery.
+ */
+export function mergeHistory(own: RecordRevision[], children: RecordRevision[]): RecordRevision[] {
+  return [...own, ...children]
+    .sort((a, b) => b.at - a.at)
+    .map(decryptRevision)
+}
+
+// ── Revert ─────────────────────────────────────────────────────────────
+
+/**
+ * Roll a record back to its state just before `revisionId` was applied,
+ * undoing that change and every later one (for a delete: undelete).
+ * The revert itself is logged as a new revision, so it can be undone too.
+ */
+export async function revertToRevision(revisionId: string): Promise<void> {
+  const { db } = await import('./index')
+  const target = await db.revisions.get(revisionId)
+  if (!target) throw new Error('Revision not found')
+
+  const table = db.table(target.table)
+  const newer = (await db.revisions
+    .where('[table+recordId]').equals([target.table, target.recordId])
+    .sortBy('at'))
+    .filter(r => r.at >= target.at)
+    .reverse()
+    .map(decryptRevision)
+
+  await db.transaction('rw', table, async (trans) => {
+    revertTargets.set(trans, target.id)
+    const current = await table.get(target.recordId) as Record<string, unknown> | undefined
+    let state: Record<string, unknown> | null = current ? { ...current } : null
+    for (const rev of newer) {
+      if (rev.action === 'delete') {
+        state = Object.fromEntries(rev.changes.map(c => [c.field, c.from]))
+        continue
+      }
+      if (!state) continue
+      // An undelete logs only `to` values — before it, the record didn't exist
+      if (rev.changes.every(c => !('from' in c))) {
+        state = null
+        continue
+      }
+      for (const c of rev.changes) {
+        if (c.from === undefined) delete state[c.field]
+        else state[c.field] = c.from
+      }
+    }
+    if (!state) throw new Error('Nothing to restore for this record')
+    if (!current) {
+      // Recreating a deleted record: log it as a revert with the restored fields
+      const restored = state
+      queue(trans, {
+        table: target.table, recordId: target.recordId, ownerId: ownerOf(target.table, restored), action: 'update',
+        changes: Object.entries(restored).map(([field, value]) => ({ field, to: sealValue(target.table, field, value) })),
+      })
+    }
+    await table.put(state)
+  })
+}
+
+/**
+ * Apply `transform` to every stored sensitive value — called by the field
+ * encryption migrations so history follows the source tables when PIN lock
+ * is turned on or off, or the master key changes.
+ */
+export async function transformSealedValues(transform: (value: string) => string): Promise<void> {
+  const { db } = await import('./index')
+  await db.revisions.toCollection().modify(rev => {
+    for (const c of rev.changes) {
+      if (!isSensitive(rev.table, c.field)) continue
+      if (typeof c.from === 'string') c.from = transform(c.from)
+      if (typeof c.to === 'string') c.to = transform(c.to)
+    }
+  })
+}
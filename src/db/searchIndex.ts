@@ -0,0 +1,335 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Global search — in-memory inverted index over decrypted records
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// Sensitive fields are stored sealed, so IndexedDB can't index them. Instead
+// the index is built in memory from decrypted records once the app is
+// unlocked, kept current by Dexie hooks (registered in db/index.ts), and
+// thrown away on lock. Nothing derived from it is ever persisted.
+//
+// Hooks only note which records a transaction touched; once it commits the
+// records are re-read (through the decrypting reading hook) and re-indexed,
+// so aborted writes never reach the index and values are never sealed.
+
+import Dexie, { type Transaction } from 'dexie'
+import type { Client, Booking, JournalEntry, IncidentLog } from '../types'
+
+export const SEARCH_TABLES = ['clients', 'bookings', 'journalEntries', 'incidents'] as const
+export type SearchTable = typeof SEARCH_TABLES[number]
+
+/** Record type stored in each searched table. */
+interface SearchRows {
+  clients: Client
+  bookings: Booking
+  journalEntries: JournalEntry
+  incidents: IncidentLog
+}
+
+export type SearchResultType = 'client' | 'booking' | 'journal' | 'incident'
+
+/** Where a result opens — incidents not tied to a client or booking open the Safety tab. */
+export type SearchTarget =
+  | { screen: 'client'; id: string }
+  | { screen: 'booking'; id: string }
+  | { screen: 'safety' }
+
+export interface SearchResult {
+  key: string
+  type: SearchResultType
+  title: string
+  /** Label of the field the snippet comes from, e.g. "Notes" */
+  field?: string
+  snippet?: string
+  /** Range of the first hit within `snippet`, for highlighting */
+  highlight?: [number, number]
+  date?: Date
+  target: SearchTarget
+}
+
+interface IndexedDoc {
+  type: SearchResultType
+  /** Fixed title, or resolved from the linked client's alias at query time */
+  title?: string
+  clientId?: string
+  date?: Date
+  target: SearchTarget
+  fields: [label: string, text: string][]
+}
+
+const TABLE_TYPES: Record<SearchTable, SearchResultType> = {
+  clients: 'client',
+  bookings: 'booking',
+  journalEntries: 'journal',
+  incidents: 'incident',
+}
+
+// Shown first when scores tie
+const TYPE_ORDER: SearchResultType[] = ['client', 'booking', 'journal', 'incident']
+
+const PHONE_FIELDS = ['Phone', 'WhatsApp', 'Signal']
+const DEFAULT_LIMIT = 40
+const SNIPPET_BEFORE = 30
+const SNIPPET_LENGTH = 110
+
+// ── Module state (memory-only) ─────────────────────────────────────────
+
+let docs: Map<string, IndexedDoc> | null = null
+const postings = new Map<string, Set<string>>()
+const docTokens = new Map<string, string[]>()
+let building: Promise<void> | null = null
+let generation = 0
+const listeners = new Set<() => void>()
+
+function notify() {
+  listeners.forEach(fn => fn())
+}
+
+/** Subscribe to index changes (built, cleared, records re-indexed). */
+export function subscribeSearchIndex(fn: () => void): () => void {
+  listeners.add(fn)
+  return () => { listeners.delete(fn) }
+}
+
+export function isSearchIndexReady(): boolean {
+  return docs !== null
+}
+
+// ── Tokenizing ─────────────────────────────────────────────────────────
+
+function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+function docKey(type: SearchResultType, id: string): string {
+  return `${type}:${id}`
+}
+
+const text = (v: unknown) => (typeof v === 'string' ? v : '')
+
+/** Per-table extraction of the searchable fields, typed against each table's record. */
+const EXTRACTORS: { [T in SearchTable]: (row: SearchRows[T]) => IndexedDoc } = {
+  clients: c => ({
+    type: 'client',
+    title: c.alias,
+    date: c.lastSeen ?? c.dateAdded,
+    target: { screen: 'client', id: c.id },
+    fields: [
+      ['Alias', c.alias], ['Nickname', text(c.nickname)],
+      ['Phone', text(c.phone)], ['Email', text(c.email)], ['Telegram', text(c.telegram)],
+      ['Signal', text(c.signal)], ['WhatsApp', text(c.whatsapp)], ['Address', text(c.address)],
+      ['Tags', (c.tags ?? []).map(t => t.name).join(', ')],
+      ['Notes', text(c.notes)], ['Preferences', text(c.preferences)], ['Boundaries', text(c.boundaries)],
+      ['Reference', text(c.referenceSource)], ['Verification', text(c.verificationNotes)],
+    ],
+  }),
+  bookings: b => ({
+    type: 'booking',
+    clientId: b.clientId,
+    date: b.dateTime,
+    target: { screen: 'booking', id: b.id },
+    fields: [
+      ['Location', text(b.locationAddress)], ['Location notes', text(b.locationNotes)],
+      ['Notes', text(b.notes)], ['Cancellation', text(b.cancellationReason)],
+    ],
+  }),
+  journalEntries: j => ({
+    type: 'journal',
+    clientId: j.clientId,
+    date: j.date,
+    target: { screen: 'booking', id: j.bookingId },
+    fields: [['Journal', text(j.notes)], ['Timing', text(j.timingNotes)], ['Tags', (j.tags ?? []).join(', ')]],
+  }),
+  incidents: i => ({
+    type: 'incident',
+    clientId: i.clientId,
+    date: i.date,
+    target: i.clientId ? { screen: 'client', id: i.clientId }
+      : i.bookingId ? { screen: 'booking', id: i.bookingId }
+      : { screen: 'safety' },
+    fields: [['Incident', text(i.description)], ['Action taken', text(i.actionTaken)], ['Severity', i.severity]],
+  }),
+}
+
+function removeDoc(key: string) {
+  for (const token of docTokens.get(key) ?? []) {
+    const set = postings.get(token)
+    set?.delete(key)
+    if (set?.size === 0) postings.delete(token)
+  }
+  docTokens.delete(key)
+  docs?.delete(key)
+}
+
+function putDoc<T extends SearchTable>(table: T, rec: SearchRows[T]) {
+  if (!docs) return
+  const doc = EXTRACTORS[table](rec)
+  const key = docKey(doc.type, rec.id)
+  removeDoc(key)
+  const tokens = new Set<string>()
+  for (const [label, text] of doc.fields) {
+    if (!text) continue
+    for (const t of tokenize(text)) tokens.add(t)
+    // Phone numbers match however they're typed: "555 0100" → "5550100"
+    if (PHONE_FIELDS.includes(label)) {
+      const digits = text.replace(/\D/g, '')
+      if (digits.length >= 4) tokens.add(digits)
+    }
+  }
+  for (const t of tokens) {
+    let set = postings.get(t)
+    if (!set) postings.set(t, set = new Set())
+    set.add(key)
+  }
+  docTokens.set(key, [...tokens])
+  docs.set(key, doc)
+}
+
+// ── Lifecycle ──────────────────────────────────────────────────────────
+
+/** Build the index from the current (decrypted) records. Call after unlock. */
+export function buildSearchIndex(): Promise<void> {
+  const gen = ++generation
+  building = (async () => {
+    const { db } = await import('./index')
+    const [clients, bookings, journalEntries, incidents] = await Promise.all([
+      db.clients.toArray(), db.bookings.toArray(), db.journalEntries.toArray(), db.incidents.toArray(),
+    ])
+    if (gen !== generation) return
+    docs = new Map()
+    postings.clear()
+    docTokens.clear()
+    for (const rec of clients) putDoc('clients', rec)
+    for (const rec of bookings) putDoc('bookings', rec)
+    for (const rec of journalEntries) putDoc('journalEntries', rec)
+    for (const rec of incidents) putDoc('incidents', rec)
+    notify()
+  })().finally(() => {
+    if (gen === generation) building = null
+  })
+  return building
+}
+
+/** Drop everything — called when the app locks. */
+export function clearSearchIndex(): void {
+  generation++
+  building = null
+  docs = null
+  postings.clear()
+  docTokens.clear()
+  notify()
+}
+
+// ── Change tracking ────────────────────────────────────────────────────
+
+const pendingByTransaction = new WeakMap<object, Set<string>>()
+
+/** Called from the Dexie hooks for any create, update or delete on SEARCH_TABLES. */
+export function noteSearchChange(table: SearchTable, id: string, trans: Transaction): void {
+  if (!docs && !building) return
+  let pending = pendingByTransaction.get(trans)
+  if (!pending) {
+    pending = new Set()
+    pendingByTransaction.set(trans, pending)
+    trans.on('complete', () => {
+      const batch = pendingByTransaction.get(trans) ?? new Set<string>()
+      pendingByTransaction.delete(trans)
+      reindex(batch).catch(err => console.error('[search] Failed to update index:', err))
+    })
+  }
+  pending.add(`${table}\u0000${id}`)
+}
+
+async function reindex(batch: Set<string>): Promise<void> {
+  if (building) await building
+  const gen = generation
+  const { db } = await import('./index')
+  for (const entry of batch) {
+    const [table, id] = entry.split('\u0000') as [SearchTable, string]
+    const rec: SearchRows[SearchTable] | undefined = await Dexie.ignoreTransaction(() => db.table(table).get(id))
+    if (gen !== generation || !docs) return
+    if (rec) putDoc(table, rec)
+    else removeDoc(docKey(TABLE_TYPES[table], id))
+  }
+  notify()
+}
+
+// ── Querying ───────────────────────────────────────────────────────────
+
+function makeSnippet(text: string, term: string): { snippet: string; highlight?: [number, number] } {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  const at = flat.toLowerCase().indexOf(term)
+  if (at < 0) return { snippet: flat.length > SNIPPET_LENGTH ? `${flat.slice(0, SNIPPET_LENGTH)}…` : flat }
+  const start = Math.max(0, at - SNIPPET_BEFORE)
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH)
+  const prefix = start > 0 ? '…' : ''
+  return {
+    snippet: `${prefix}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`,
+    highlight: [prefix.length + at - start, prefix.length + at - start + term.length],
+  }
+}
+
+/** Documents with a token starting with `term`, weighted 2 for a whole-word hit. */
+function matchTerm(term: string): Map<string, number> {
+  const hits = new Map<string, number>()
+  for (const [token, keys] of postings) {
+    if (!token.startsWith(term)) continue
+    const weight = token === term ? 2 : 1
+    for (const k of keys) hits.set(k, Math.max(hits.get(k) ?? 0, weight))
+  }
+  return hits
+}
+
+/**
+ * Find records containing every word of `query` (each word matches as a
+ * prefix). Results are ranked by whole-word hits, then type, then recency.
+ */
+export function searchIndex(query: string, limit = DEFAULT_LIMIT): SearchResult[] {
+  if (!docs) return []
+  const terms = [...new Set(tokenize(query))]
+  if (terms.length === 0) return []
+
+  let scores = matchTerm(terms[0])
+  for (const term of terms.slice(1)) {
+    const hits = matchTerm(term)
+    const next = new Map<string, number>()
+    for (const [k, w] of hits) {
+      const prev = scores.get(k)
+      if (prev !== undefined) next.set(k, prev + w)
+    }
+    scores = next
+  }
+  // "555-0100" tokenizes to two words — also try it as one run of digits
+  const digits = query.replace(/\D/g, '')
+  if (terms.length > 1 && digits.length >= 4 && /^[\d\s()+.-]+$/.test(query.trim())) {
+    for (const [k, w] of matchTerm(digits)) scores.set(k, Math.max(scores.get(k) ?? 0, w * terms.length))
+  }
+
+  const first = normalize(terms[0])
+  return [...scores]
+    .map(([key, score]) => ({ key, score, doc: docs!.get(key)! }))
+    .filter(r => r.doc)
+    .sort((a, b) =>
+      b.score - a.score
+      || TYPE_ORDER.indexOf(a.doc.type) - TYPE_ORDER.indexOf(b.doc.type)
+      || (b.doc.date ? new Date(b.doc.date).getTime() : 0) - (a.doc.date ? new Date(a.doc.date).getTime() : 0))
+    .slice(0, limit)
+    .map(({ key, doc }) => {
+      const clientAlias = doc.clientId ? docs!.get(docKey('client', doc.clientId))?.title : undefined
+      const title = doc.title ?? clientAlias ?? (doc.type === 'incident' ? 'Incident' : 'No client')
+      // Clients are found by name often enough that repeating it as a snippet is noise
+      const hit = doc.fields.find(([label, text]) => text && label !== 'Alias' && normalize(text).includes(first))
+        ?? (digits.length >= 4 ? doc.fields.find(([label, text]) => PHONE_FIELDS.includes(label) && text.replace(/\D/g, '').includes(digits)) : undefined)
+      return {
+        key,
+        type: doc.type,
+        title,
+        date: doc.date,
+        target: doc.target,
+        ...(hit ? { field: hit[0], ...makeSnippet(hit[1], first) } : {}),
+      }
+    })
+}
@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { db, newId } from './index'
+import { lsKey } from '../hooks/useSettings'
+import { initFieldEncryption, sealStringSync } from './fieldCrypto'
+import {
+  SYNC_ENABLED_KEY, createMemorySyncTransport, enableSync, getSyncStatus, setSyncTransport, syncNow,
+} from './sync'
+import type { SyncTransport } from './sync'
+import type { Client } from '../types'
+
+const LIMIT = 200_000
+
+function client(notes: string): Client {
+  return {
+    id: newId(), alias: 'A', preferredContact: 'Text', screeningStatus: 'Screened', riskLevel: 'Low Risk',
+    isBlocked: false, notes, preferences: '', boundaries: '', dateAdded: new Date(), tags: [],
+    isPinned: false, requiresSafetyCheck: false,
+  }
+}
+
+describe('sync push batching', () => {
+  const pushed: number[] = []
+
+  beforeAll(async () => {
+    await initFieldEncryption('1234')
+    localStorage.setItem(lsKey(SYNC_ENABLED_KEY), 'true')
+    const relay = createMemorySyncTransport({ maxEntryBytes: LIMIT })
+    const recording: SyncTransport = {
+      async push(vaultId, entries) {
+        await relay.push(vaultId, entries)
+        pushed.push(...entries.map(e => e.length))
+      },
+      pull: relay.pull,
+    }
+    setSyncTransport(recording)
+  })
+
+  it('splits envelopes the relay rejects as too large and leaves only an oversized record dirty', async () => {
+    await db.clients.bulkAdd(Array.from({ length: 30 }, () => client('x'.repeat(20_000))))
+    const huge = client('y'.repeat(LIMIT))
+    await db.clients.add(huge)
+
+    await syncNow()
+
+    expect(getSyncStatus().state).toBe('idle')
+    expect(pushed.length).toBeGreaterThan(2)
+    expect(pushed.every(n => n <= LIMIT)).toBe(true)
+    const dirty = await db.syncMeta.where('dirty').equals(1).toArray()
+    expect(dirty.map(m => m.recordId)).toEqual([huge.id])
+  })
+})
+
+describe('enabling sync', () => {
+  it('lets newer copies on the relay win over records that predate sync', async () => {
+    const stale = client('stale')
+    await db.clients.add(stale)
+    localStorage.removeItem(lsKey(SYNC_ENABLED_KEY))
+
+    // Another device edited the same client an hour ago — before this device turned sync on
+    const editedAt = Date.now() - 60 * 60 * 1000
+    const fresh = { ...stale, notes: 'fresh' }
+    const envelope = JSON.stringify({
+      v: 1,
+      device: 'other-device',
+      changes: [{
+        t: 'clients', id: stale.id, at: editedAt,
+        fs: Object.fromEntries(Object.keys(fresh).map(f => [f, editedAt])),
+        rec: { ...fresh, dateAdded: { $date: fresh.dateAdded.getTime() } },
+      }],
+    })
+    const relay = createMemorySyncTransport()
+    let seeded = false
+    setSyncTransport({
+      push: relay.push,
+      async pull(vaultId, cursor, deviceId) {
+        if (!seeded) {
+          await relay.push(vaultId, [sealStringSync(envelope)])
+          seeded = true
+        }
+        return relay.pull(vaultId, cursor, deviceId)
+      },
+    })
+
+    await enableSync()
+
+    expect(getSyncStatus().state).toBe('idle')
+    expect((await db.clients.get(stale.id))?.notes).toBe('fresh')
+  })
+})
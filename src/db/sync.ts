@@ -0,0 +1,613 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// End-to-end encrypted multi-device sync
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// Opt-in. Every local write to a synced table is stamped in `syncMeta`
+// (by the hooks in db/index.ts). A sync round:
+//   1. push — dirty records are read (decrypted), bundled into an envelope,
+//      sealed with the field-encryption master key and posted to the blob
+//      endpoint. The server only ever sees opaque base64.
+//   2. pull — envelopes from other devices are fetched after our cursor,
+//      opened, and merged into the local tables.
+//
+// Conflict resolution:
+//   • Most tables: last-writer-wins on the record's `updatedAt` stamp.
+//   • clients: field-level merge — each field carries its own stamp, so
+//     editing a phone number on one device and notes on another keeps both.
+//   • Deletes are tombstones (stamped like any other write), so a stale
+//     device can't resurrect a record it never saw deleted.
+// Ties on equal stamps are broken by device id so every device converges.
+//
+// All devices in a vault share one master key (see exportMasterKey /
+// adoptMasterKey). The vault id is derived from that key, never the key itself.
+// Screening and venue documents are not synced — blobs are too large for the
+// change log and stay on the device they were uploaded on.
+
+import Dexie, { type Table } from 'dexie'
+import { lsKey } from '../hooks/useSettings'
+import {
+  isFieldEncryptionReady, sealStringSync, openStringSync, deriveSubKeySync,
+} from './fieldCrypto'
+
+export const SYNCED_TABLES = [
+  'clients', 'bookings', 'transactions', 'availability', 'safetyContacts',
+  'safetyChecks', 'incidents', 'serviceRates', 'payments', 'journalEntries',
+  'incallVenues', 'bookingChecklist', 'availabilityTemplates', 'blockedTimes',
+  'tours', 'waitlist', 'fxRates', 'taxPayments', 'recurringExpenses',
+] as const
+
+/** Tables merged field-by-field instead of whole-record last-writer-wins. */
+const FIELD_MERGE_TABLES = new Set<string>(['clients'])
+
+export interface SyncRecordMeta {
+  key: string                            // "table:recordId"
+  table: string
+  recordId: string
+  updatedAt: number                      // ms — last write stamp (local or merged)
+  fieldStamps?: Record<string, number>   // field-merge tables only
+  deleted?: 1                            // tombstone
+  dirty: 0 | 1                           // 1 = not yet pushed
+}
+
+interface SyncChange {
+  t: string
+  id: string
+  at: number
+  del?: true
+  fs?: Record<string, number>
+  rec?: Record<string, unknown>
+}
+
+interface SyncEnvelope {
+  v: 1
+  device: string
+  changes: SyncChange[]
+}
+
+// ── Transport ──────────────────────────────────────────────────────────
+
+export interface SyncPullResult {
+  entries: { key: string; data: string }[]
+  cursor: string | null
+  hasMore: boolean
+  /** Set when the relay has pruned entries a device missed — every device re-pushes its state */
+  snapshotRequestedAt?: number
+}
+
+/**
+ * A dumb blob store: append opaque entries, list entries after a cursor.
+ * The device id lets the relay prune entries every device has pulled.
+ */
+export interface SyncTransport {
+  push(vaultId: string, entries: string[]): Promise<void>
+  pull(vaultId: string, cursor: string | null, deviceId: string): Promise<SyncPullResult>
+}
+
+const SYNC_ENDPOINT = '/.netlify/functions/sync'
+
+/** A transport failure carrying the relay's HTTP status (413 = envelope too large). */
+export type SyncHttpError = Error & { status?: number }
+
+function httpError(message: string, status: number): SyncHttpError {
+  return Object.assign(new Error(message), { status })
+}
+
+export const netlifySyncTransport: SyncTransport = {
+  async push(vaultId, entries) {
+    const res = await fetch(SYNC_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'push', vaultId, entries }),
+    })
+    if (!res.ok) throw httpError(`Sync push failed (${res.status})`, res.status)
+  },
+  async pull(vaultId, cursor, deviceId) {
+    const res = await fetch(SYNC_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'pull', vaultId, cursor, device: deviceId }),
+    })
+    if (!res.ok) throw httpError(`Sync pull failed (${res.status})`, res.status)
+    return res.json()
+  },
+}
+
+/**
+ * In-memory transport — a drop-in stand-in for the Netlify function in tests.
+ * Entries longer than `maxEntryBytes` are rejected with a 413, like the relay.
+ */
+export function createMemorySyncTransport({ maxEntryBytes = Infinity } = {}): SyncTransport {
+  const vaults = new Map<string, { key: string; data: string }[]>()
+  let seq = 0
+  return {
+    async push(vaultId, entries) {
+      if (entries.some(data => data.length > maxEntryBytes)) throw httpError('Sync push failed (413)', 413)
+      const list = vaults.get(vaultId) ?? []
+      for (const data of entries) list.push({ key: String(++seq).padStart(12, '0'), data })
+      vaults.set(vaultId, list)
+    },
+    async pull(vaultId, cursor) {
+      const after = (vaults.get(vaultId) ?? []).filter(e => cursor === null || e.key > cursor)
+      const entries = after.slice(0, 50)
+      return {
+        entries,
+        cursor: entries.length ? entries[entries.length - 1].key : cursor,
+        hasMore: after.length > entries.length,
+      }
+    },
+  }
+}
+
+let _transport: SyncTransport = netlifySyncTransport
+
+export function setSyncTransport(transport: SyncTransport): void {
+  _transport = transport
+}
+
+// ── Settings & status ──────────────────────────────────────────────────
+
+export const SYNC_ENABLED_KEY = 'syncEnabled'
+const DEVICE_ID_KEY = 'sync_device_id'
+const CURSOR_KEY = 'sync_cursor'
+const LAST_SYNC_KEY = 'sync_last_at'
+const SNAPSHOT_KEY = 'sync_snapshot_at'
+const PUSH_BATCH_SIZE = 100
+/**
+ * Plaintext budget per envelope. Sealing base64-encodes, so 256 KB stays well
+ * under the relay's 512 KB entry limit; a 413 still halves the batch.
+ */
+const PUSH_BATCH_BYTES = 256 * 1024
+
+export function isSyncEnabled(): boolean {
+  try {
+    return localStorage.getItem(lsKey(SYNC_ENABLED_KEY)) === 'true'
+  } catch { return false }
+}
+
+function setSyncEnabledFlag(value: boolean) {
+  localStorage.setItem(lsKey(SYNC_ENABLED_KEY), JSON.stringify(value))
+  window.dispatchEvent(new CustomEvent('ls-sync', { detail: { key: lsKey(SYNC_ENABLED_KEY), value } }))
+}
+
+export type SyncState = 'off' | 'idle' | 'syncing' | 'error'
+
+export interface SyncStatus {
+  state: SyncState
+  lastSyncedAt?: number
+  error?: string
+}
+
+let _status: SyncStatus = { state: isSyncEnabled() ? 'idle' : 'off' }
+const statusListeners = new Set<(s: SyncStatus) => void>()
+
+function setStatus(next: Partial<SyncStatus>) {
+  _status = { ..._status, ...next }
+  statusListeners.forEach(fn => fn(_status))
+}
+
+export function getSyncStatus(): SyncStatus {
+  return _status
+}
+
+export function subscribeSyncStatus(fn: (s: SyncStatus) => void): () => void {
+  statusListeners.add(fn)
+  return () => { statusListeners.delete(fn) }
+}
+
+// ── Local change tracking (called from Dexie hooks) ────────────────────
+
+const remoteTransactions = new WeakSet<object>()
+
+/** True when the hook fired inside a transaction that is applying remote changes. */
+export function isRemoteSyncTransaction(trans: unknown): boolean {
+  return typeof trans === 'object' && trans !== null && remoteTransactions.has(trans)
+}
+
+interface PendingChange {
+  table: string
+  id: string
+  fields: Set<string>
+  deleted: boolean
+  at: number
+}
+
+const pending = new Map<string, PendingChange>()
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+let lastStamp = 0
+
+/** Monotonic ms stamp — two writes in the same millisecond still order correctly. */
+function nextStamp(): number {
+  lastStamp = Math.max(Date.now(), lastStamp + 1)
+  return lastStamp
+}
+
+function metaKey(table: string, id: string): string {
+  return `${table}:${id}`
+}
+
+/**
+ * Queue a local write for sync. Synchronous so it can run inside Dexie hooks;
+ * the stamp is persisted after the current transaction via flushPendingChanges().
+ */
+export function recordLocalChange(table: string, id: string, fields: string[], deleted: boolean): void {
+  if (!isSyncEnabled()) return
+  const key = metaKey(table, id)
+  const existing = pending.get(key)
+  const entry: PendingChange = existing && !deleted && !existing.deleted
+    ? existing
+    : { table, id, fields: new Set(), deleted, at: 0 }
+  for (const f of fields) entry.fields.add(f)
+  entry.deleted = deleted
+  entry.at = nextStamp()
+  pending.set(key, entry)
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      flushTimer = null
+      flushPendingChanges().catch(err => console.error('[sync] Failed to record changes:', err))
+    }, 0)
+  }
+}
+
+/**
+ * Clear a table inside the caller's transaction. Table.clear() fires no
+ * deleting hooks, so records of a synced table are tombstoned first —
+ * otherwise other devices would push back what a restore removed. Records
+ * written again afterwards are re-stamped by the creating hook as live.
+ */
+export async function clearSyncedTable(table: Table): Promise<void> {
+  if (isSyncEnabled() && (SYNCED_TABLES as readonly string[]).includes(table.name)) {
+    for (const id of await table.toCollection().primaryKeys()) {
+      recordLocalChange(table.name, String(id), [], true)
+    }
+  }
+  await table.clear()
+}
+
+async function flushPendingChanges(): Promise<void> {
+  if (pending.size === 0) return
+  const batch = [...pending.values()]
+  pending.clear()
+  const { db } = await import('./index')
+  await Dexie.ignoreTransaction(() => db.transaction('rw', db.syncMeta, async () => {
+    for (const change of batch) {
+      const key = metaKey(change.table, change.id)
+      const prev = await db.syncMeta.get(key)
+      let fieldStamps: Record<string, number> | undefined
+      if (FIELD_MERGE_TABLES.has(change.table) && !change.deleted) {
+        fieldStamps = { ...(prev?.fieldStamps ?? {}) }
+        for (const f of change.fields) fieldStamps[f] = change.at
+      }
+      await db.syncMeta.put({
+        key,
+        table: change.table,
+        recordId: change.id,
+        updatedAt: change.at,
+        fieldStamps: change.deleted ? prev?.fieldStamps : fieldStamps,
+        ...(change.deleted ? { deleted: 1 as const } : {}),
+        dirty: 1,
+      })
+    }
+  }))
+}
+
+// ── Serialization ──────────────────────────────────────────────────────
+// Dates are tagged so they round-trip as Date objects — IndexedDB indexes
+// distinguish strings from Dates, so untagged ISO strings would break queries.
+
+function tagDates(this: Record<string, unknown>, key: string, value: unknown) {
+  const raw = this[key]
+  return raw instanceof Date ? { $date: raw.getTime() } : value
+}
+
+function serializeEnvelope(envelope: SyncEnvelope): string {
+  return JSON.stringify(envelope, tagDates)
+}
+
+const utf8 = new TextEncoder()
+
+/** Serialized size of one change, as it will sit inside an envelope. */
+function changeBytes(change: SyncChange): number {
+  return utf8.encode(JSON.stringify(change, tagDates)).length + 1
+}
+
+function parseEnvelope(json: string): SyncEnvelope {
+  return JSON.parse(json, (_key, value) => {
+    if (value && typeof value === 'object' && typeof value.$date === 'number' && Object.keys(value).length === 1) {
+      return new Date(value.$date)
+    }
+    return value
+  })
+}
+
+// ── Identity ───────────────────────────────────────────────────────────
+
+function toHex(bytes: Uint8Array): string {
+  return [...bytes].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Vault id shared by every device holding the same master key. */
+function getVaultId(): string {
+  return toHex(deriveSubKeySync('companion-sync-vault-v1'))
+}
+
+async function getDeviceId(): Promise<string> {
+  const { db, newId } = await import('./index')
+  const existing = await db.meta.get(DEVICE_ID_KEY)
+  if (typeof existing?.value === 'string') return existing.value
+  const id = newId()
+  await db.meta.put({ key: DEVICE_ID_KEY, value: id })
+  return id
+}
+
+/** Deterministic winner for equal stamps: higher device id wins. */
+function remoteWins(remoteAt: number, remoteDevice: string, localAt: number, localDevice: string): boolean {
+  if (remoteAt !== localAt) return remoteAt > localAt
+  return remoteDevice > localDevice
+}
+
+// ── Push ───────────────────────────────────────────────────────────────
+
+interface PushItem {
+  meta: SyncRecordMeta
+  change: SyncChange
+}
+
+/**
+ * Seal and push one envelope. A 413 from the relay halves the batch and
+ * retries each half; a single record still too large is left dirty (and
+ * logged) so the rest of the round goes through.
+ */
+async function pushBatch(vaultId: string, deviceId: string, items: PushItem[]): Promise<void> {
+  const { db } = await import('./index')
+  const sealed = sealStringSync(serializeEnvelope({ v: 1, device: deviceId, changes: items.map(i => i.change) }))
+  try {
+    await _transport.push(vaultId, [sealed])
+  } catch (err) {
+    if ((err as SyncHttpError).status !== 413) throw err
+    if (items.length === 1) {
+      console.warn('[sync] Record too large to sync, will retry after it changes:', items[0].meta.key)
+      return
+    }
+    const mid = Math.ceil(items.length / 2)
+    await pushBatch(vaultId, deviceId, items.slice(0, mid))
+    await pushBatch(vaultId, deviceId, items.slice(mid))
+    return
+  }
+
+  // Clear the dirty flag only where nothing changed while we were pushing
+  await db.transaction('rw', db.syncMeta, async () => {
+    for (const { meta } of items) {
+      const current = await db.syncMeta.get(meta.key)
+      if (current && current.updatedAt === meta.updatedAt) {
+        await db.syncMeta.update(meta.key, { dirty: 0 })
+      }
+    }
+  })
+}
+
+/** Push dirty records in envelopes capped by record count and serialized size. */
+async function pushChanges(vaultId: string, deviceId: string): Promise<void> {
+  const { db } = await import('./index')
+  const dirty = await db.syncMeta.where('dirty').equals(1).toArray()
+  let batch: PushItem[] = []
+  let bytes = 0
+  for (const m of dirty) {
+    const table = db.table(m.table)
+    const rec = m.deleted ? undefined : await table.get(m.recordId)
+    const change: SyncChange = rec
+      ? { t: m.table, id: m.recordId, at: m.updatedAt, fs: m.fieldStamps, rec }
+      : { t: m.table, id: m.recordId, at: m.updatedAt, del: true }
+    const size = changeBytes(change)
+    if (batch.length > 0 && (batch.length >= PUSH_BATCH_SIZE || bytes + size > PUSH_BATCH_BYTES)) {
+      await pushBatch(vaultId, deviceId, batch)
+      batch = []
+      bytes = 0
+    }
+    batch.push({ meta: m, change })
+    bytes += size
+  }
+  if (batch.length > 0) await pushBatch(vaultId, deviceId, batch)
+}
+
+// ── Pull & merge ───────────────────────────────────────────────────────
+
+async function applyRemoteChange(change: SyncChange, remoteDevice: string, deviceId: string): Promise<void> {
+  if (!(SYNCED_TABLES as readonly string[]).includes(change.t)) return
+  if (!change.del && (!change.rec || change.rec.id !== change.id)) return
+  const { db } = await import('./index')
+  const table = db.table(change.t)
+  const key = metaKey(change.t, change.id)
+
+  await db.transaction('rw', table, db.syncMeta, async (tx) => {
+    remoteTransactions.add(tx)
+    const local = await db.syncMeta.get(key)
+    const current = local?.deleted ? undefined : await table.get(change.id)
+
+    // Field-level merge when both sides have a live record
+    if (FIELD_MERGE_TABLES.has(change.t) && !change.del && local && current) {
+      const localStamps = local.fieldStamps ?? {}
+      const stamps = { ...localStamps }
+      const merged: Record<string, unknown> = { ...current }
+      let took = false
+      for (const [field, remoteAt] of Object.entries(change.fs ?? {})) {
+        if (remoteWins(remoteAt, remoteDevice, localStamps[field] ?? 0, deviceId)) {
+          merged[field] = change.rec![field]
+          stamps[field] = remoteAt
+          took = true
+        }
+      }
+      if (took) await table.put(merged)
+      await db.syncMeta.put({
+        ...local,
+        updatedAt: Math.max(local.updatedAt, change.at),
+        fieldStamps: stamps,
+      })
+      return
+    }
+
+    // Whole-record last-writer-wins (including tombstones)
+    if (local && !remoteWins(change.at, remoteDevice, local.updatedAt, deviceId)) return
+    if (change.del) {
+      await table.delete(change.id)
+    } else {
+      await table.put(change.rec!)
+    }
+    await db.syncMeta.put({
+      key,
+      table: change.t,
+      recordId: change.id,
+      updatedAt: change.at,
+      fieldStamps: change.fs,
+      ...(change.del ? { deleted: 1 as const } : {}),
+      dirty: 0,
+    })
+  })
+}
+
+async function pullChanges(vaultId: string, deviceId: string): Promise<{ applied: number; snapshotRequestedAt: number }> {
+  const { db } = await import('./index')
+  let cursor = ((await db.meta.get(CURSOR_KEY))?.value as string | undefined) ?? null
+  let applied = 0
+  let snapshotRequestedAt = 0
+  for (;;) {
+    const result = await _transport.pull(vaultId, cursor, deviceId)
+    snapshotRequestedAt = Math.max(snapshotRequestedAt, result.snapshotRequestedAt ?? 0)
+    for (const entry of result.entries) {
+      const json = openStringSync(entry.data)
+      if (json === null) {
+        console.warn('[sync] Skipping entry that failed authentication:', entry.key)
+        continue
+      }
+      const envelope = parseEnvelope(json)
+      if (envelope.v !== 1 || envelope.device === deviceId) continue
+      for (const change of envelope.changes) {
+        await applyRemoteChange(change, envelope.device, deviceId)
+        applied++
+      }
+    }
+    cursor = result.cursor
+    await db.meta.put({ key: CURSOR_KEY, value: cursor })
+    if (!result.hasMore || result.entries.length === 0) break
+  }
+  return { applied, snapshotRequestedAt }
+}
+
+/**
+ * Honour a snapshot request from the relay: mark every record and tombstone
+ * dirty, keeping its stamps, so the next push re-sends this device's full
+ * state for a device that missed pruned entries. True when there's a new request.
+ */
+async function markSnapshotDirty(requestedAt: number): Promise<boolean> {
+  const { db } = await import('./index')
+  const handled = (await db.meta.get(SNAPSHOT_KEY))?.value as number | undefined
+  if (requestedAt <= (handled ?? 0)) return false
+  await db.syncMeta.toCollection().modify({ dirty: 1 })
+  await db.meta.put({ key: SNAPSHOT_KEY, value: requestedAt })
+  return true
+}
+
+// ── Public API ─────────────────────────────────────────────────────────
+
+let running: Promise<void> | null = null
+
+/** Run one push + pull round. Concurrent callers share the in-flight round. */
+export function syncNow(): Promise<void> {
+  if (running) return running
+  running = (async () => {
+    if (!isSyncEnabled() || !isFieldEncryptionReady()) {
+      setStatus({ state: isSyncEnabled() ? 'idle' : 'off' })
+      return
+    }
+    setStatus({ state: 'syncing', error: undefined })
+    try {
+      await flushPendingChanges()
+      const vaultId = getVaultId()
+      const deviceId = await getDeviceId()
+      await pushChanges(vaultId, deviceId)
+      const { snapshotRequestedAt } = await pullChanges(vaultId, deviceId)
+      if (await markSnapshotDirty(snapshotRequestedAt)) await pushChanges(vaultId, deviceId)
+      const now = Date.now()
+      const { db } = await import('./index')
+      await db.meta.put({ key: LAST_SYNC_KEY, value: now })
+      setStatus({ state: 'idle', lastSyncedAt: now })
+    } catch (err) {
+      console.error('[sync] Sync failed:', err)
+      setStatus({ state: 'error', error: (err as Error).message })
+    }
+  })().finally(() => { running = null })
+  return running
+}
+
+/** Load the persisted last-sync time into the status (on app start). */
+export async function loadSyncStatus(): Promise<void> {
+  const { db } = await import('./index')
+  const last = await db.meta.get(LAST_SYNC_KEY)
+  let state = _status.state
+  if (!isSyncEnabled()) state = 'off'
+  else if (state === 'off') state = 'idle'
+  setStatus({
+    state,
+    lastSyncedAt: typeof last?.value === 'number' ? last.value : undefined,
+  })
+}
+
+/** The record's own modification time, or 0 when it doesn't keep one. */
+function modifiedAt(rec: Record<string, unknown>): number {
+  return rec.updatedAt instanceof Date ? rec.updatedAt.getTime() : 0
+}
+
+/**
+ * Mark every existing record dirty so the next round pushes a full copy.
+ * Records are stamped with their real modification time (0 when unknown),
+ * not the time sync was enabled — otherwise a stale device joining a vault
+ * would win last-writer-wins against newer copies already on the relay.
+ */
+async function markAllDirty(): Promise<void> {
+  const { db } = await import('./index')
+  for (const tableName of SYNCED_TABLES) {
+    const records: Record<string, unknown>[] = await db.table(tableName).toArray()
+    const metas: SyncRecordMeta[] = records.map(r => {
+      const at = modifiedAt(r)
+      return {
+        key: metaKey(tableName, String(r.id)),
+        table: tableName,
+        recordId: String(r.id),
+        updatedAt: at,
+        fieldStamps: FIELD_MERGE_TABLES.has(tableName)
+          ? Object.fromEntries(Object.keys(r).map(f => [f, at]))
+          : undefined,
+        dirty: 1,
+      }
+    })
+    await db.syncMeta.bulkPut(metas)
+  }
+}
+
+/**
+ * Turn on sync for this device. Requires field encryption (PIN lock) —
+ * the master key is what seals every envelope.
+ */
+export async function enableSync(): Promise<void> {
+  if (!isFieldEncryptionReady()) throw new Error('Set up a PIN first — sync is encrypted with your PIN-protected key')
+  const { db } = await import('./index')
+  await db.syncMeta.clear()
+  await db.meta.delete(CURSOR_KEY)
+  // The full push below answers any snapshot request made before now
+  await db.meta.put({ key: SNAPSHOT_KEY, value: Date.now() })
+  setSyncEnabledFlag(true)
+  await markAllDirty()
+  setStatus({ state: 'idle', error: undefined })
+  await syncNow()
+}
+
+/** Turn off sync and forget all local sync state. Remote copies are left as-is. */
+export async function disableSync(): Promise<void> {
+  setSyncEnabledFlag(false)
+  pending.clear()
+  const { db } = await import('./index')
+  await db.syncMeta.clear()
+  await db.meta.delete(CURSOR_KEY)
+  await db.meta.delete(LAST_SYNC_KEY)
+  await db.meta.delete(SNAPSHOT_KEY)
+  setStatus({ state: 'off', lastSyncedAt: undefined, error: undefined })
+}
@@ -0,0 +1,228 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Trash — soft delete with a retention window
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// Deleting a client, booking, venue or incident moves the record and
+// everything that cascades with it (payments, transactions, journal entries,
+// checklist items, documents…) into a single trash entry, removed from the
+// source tables in one transaction. Restoring puts the whole group back.
+// Entries older than the retention setting are purged on app start.
+//
+// Trashed records keep SENSITIVE_FIELDS sealed with the field-encryption key,
+// like the source tables. The trash is device-local: it isn't synced or
+// backed up, and the duress / reset wipes (db.delete()) take it with them.
+
+import { lsKey } from '../hooks/useSettings'
+import { fmtMediumDate } from '../utils/dateFormat'
+import { SENSITIVE_FIELDS, encryptRecordSync, decryptRecordSync } from './fieldCrypto'
+import { excludeFromHistory } from './revisions'
+
+export type TrashKind = 'client' | 'booking' | 'venue' | 'incident'
+
+export const TRASH_TABLES = [
+  'clients', 'bookings', 'payments', 'transactions', 'safetyChecks', 'bookingChecklist',
+  'incidents', 'journalEntries', 'screeningDocs', 'incallVenues', 'venueDocs', 'waitlist', 'receipts',
+] as const
+export type TrashTable = typeof TRASH_TABLES[number]
+
+/** A reference cleared on a record that stayed behind (e.g. a booking's venueId). */
+interface ClearedLink {
+  table: TrashTable
+  id: string
+  field: string
+  value: string
+}
+
+export interface TrashEntry {
+  id: string
+  kind: TrashKind
+  /** Id of the record that was deleted (the group's root) */
+  recordId: string
+  /** Display name captured at delete time — alias, venue name, etc. (never a sensitive field) */
+  label: string
+  deletedAt: Date
+  records: Partial<Record<TrashTable, Record<string, unknown>[]>>
+  clearedLinks?: ClearedLink[]
+}
+
+export const TRASH_RETENTION_KEY = 'trashRetentionDays'
+export const DEFAULT_TRASH_RETENTION = 30 // days
+
+export function getTrashRetentionDays(): number {
+  const raw = localStorage.getItem(lsKey(TRASH_RETENTION_KEY))
+  if (!raw) return DEFAULT_TRASH_RETENTION
+  const n = parseInt(raw, 10)
+  return isNaN(n) || n <= 0 ? DEFAULT_TRASH_RETENTION : n
+}
+
+// ── Move to trash ──────────────────────────────────────────────────────
+
+type Group = Partial<Record<TrashTable, Record<string, unknown>[]>>
+
+async function gather(kind: TrashKind, recordId: string): Promise<{ group: Group; label: string; links: ClearedLink[] }> {
+  const { db } = await import('./index')
+  const group: Group = {}
+  const links: ClearedLink[] = []
+  const add = (table: TrashTable, rows: object[]) => {
+    if (rows.length) group[table] = [...(group[table] ?? []), ...(rows as Record<string, unknown>[])]
+  }
+
+  switch (kind) {
+    case 'client': {
+      const client = await db.clients.get(recordId)
+      if (!client) throw new Error('Client not found')
+      const bookings = await db.bookings.where('clientId').equals(recordId).toArray()
+      const bookingIds = bookings.map(b => b.id)
+      add('clients', [client])
+      add('bookings', bookings)
+      if (bookingIds.length) {
+        add('payments', await db.payments.where('bookingId').anyOf(bookingIds).toArray())
+        const transactions = await db.transactions.where('bookingId').anyOf(bookingIds).toArray()
+        add('transactions', transactions)
+        add('receipts', await db.receipts.where('transactionId').anyOf(transactions.map(t => t.id)).toArray())
+        add('safetyChecks', await db.safetyChecks.where('bookingId').anyOf(bookingIds).toArray())
+        add('bookingChecklist', await db.bookingChecklist.where('bookingId').anyOf(bookingIds).toArray())
+      }
+      add('incidents', await db.incidents.where('clientId').equals(recordId).toArray())
+      add('journalEntries', await db.journalEntries.where('clientId').equals(recordId).toArray())
+      add('screeningDocs', await db.screeningDocs.where('clientId').equals(recordId).toArray())
+      add('waitlist', await db.waitlist.where('clientId').equals(recordId).toArray())
+      return { group, label: client.alias, links }
+    }
+    case 'booking': {
+      const booking = await db.bookings.get(recordId)
+      if (!booking) throw new Error('Booking not found')
+      add('bookings', [booking])
+      add('payments', await db.payments.where('bookingId').equals(recordId).toArray())
+      const transactions = await db.transactions.where('bookingId').equals(recordId).toArray()
+      add('transactions', transactions)
+      add('receipts', await db.receipts.where('transactionId').anyOf(transactions.map(t => t.id)).toArray())
+      add('safetyChecks', await db.safetyChecks.where('bookingId').equals(recordId).toArray())
+      add('journalEntries', await db.journalEntries.where('bookingId').equals(recordId).toArray())
+      add('incidents', await db.incidents.where('bookingId').equals(recordId).toArray())
+      add('bookingChecklist', await db.bookingChecklist.where('bookingId').equals(recordId).toArray())
+      // Re-parent child bookings so the recurring chain isn't broken
+      const children = await db.bookings.filter(b => b.parentBookingId === recordId).toArray()
+      for (const child of children) links.push({ table: 'bookings', id: child.id, field: 'parentBookingId', value: recordId })
+      const client = booking.clientId ? await db.clients.get(booking.clientId) : undefined
+      return { group, label: `${client?.alias ?? 'Booking'} · ${fmtMediumDate(new Date(booking.dateTime))}`, links }
+    }
+    case 'venue': {
+      const venue = await db.incallVenues.get(recordId)
+      if (!venue) throw new Error('Venue not found')
+      add('incallVenues', [venue])
+      add('venueDocs', await db.venueDocs.where('venueId').equals(recordId).toArray())
+      const bookings = await db.bookings.filter(b => b.venueId === recordId).toArray()
+      for (const b of bookings) links.push({ table: 'bookings', id: b.id, field: 'venueId', value: recordId })
+      return { group, label: venue.name, links }
+    }
+    case 'incident': {
+      const incident = await db.incidents.get(recordId)
+      if (!incident) throw new Error('Incident not found')
+      add('incidents', [incident])
+      const client = incident.clientId ? await db.clients.get(incident.clientId) : undefined
+      const label = `${incident.severity.charAt(0).toUpperCase()}${incident.severity.slice(1)} incident`
+      return { group, label: client ? `${label} · ${client.alias}` : label, links }
+    }
+  }
+}
+
+/**
+ * Move a record and its dependents to the trash. Returns the trash entry id,
+ * which restoreFromTrash() takes — handy for an undo toast.
+ */
+export async function moveToTrash(kind: TrashKind, recordId: string): Promise<string> {
+  const { db, newId } = await import('./index')
+  const { group, label, links } = await gather(kind, recordId)
+
+  const entry: TrashEntry = {
+    id: newId(),
+    kind,
+    recordId,
+    label,
+    deletedAt: new Date(),
+    records: Object.fromEntries(
+      Object.entries(group).map(([table, rows]) => [table, rows.map(r => encryptRecordSync(table, r))])
+    ),
+    ...(links.length ? { clearedLinks: links } : {}),
+  }
+
+  const tables = ['trash', ...Object.keys(group), ...links.map(l => l.table)]
+  await db.transaction('rw', [...new Set(tables)], async (trans) => {
+    // The trash entry is the undo path — keep per-row delete snapshots out of the history
+    excludeFromHistory(trans)
+    for (const link of links) {
+      await db.table(link.table).update(link.id, { [link.field]: undefined })
+    }
+    for (const [table, rows] of Object.entries(group)) {
+      await db.table(table).bulkDelete(rows.map(r => r.id as string))
+    }
+    await db.trash.add(entry)
+  })
+  return entry.id
+}
+
+// ── Restore / purge ────────────────────────────────────────────────────
+
+/** Put every record of a trash entry back and re-link references cleared at delete time. */
+export async function restoreFromTrash(entryId: string): Promise<void> {
+  const { db } = await import('./index')
+  const entry = await db.trash.get(entryId)
+  if (!entry) throw new Error('This item is no longer in the trash')
+
+  const tables = ['trash', ...Object.keys(entry.records), ...(entry.clearedLinks ?? []).map(l => l.table)]
+  await db.transaction('rw', [...new Set(tables)], async (trans) => {
+    excludeFromHistory(trans)
+    for (const [table, rows] of Object.entries(entry.records)) {
+      // Decrypt first so the creating hook seals with the current key
+      if (rows.length) await db.table(table).bulkPut(rows.map(r => decryptRecordSync(table, r)))
+    }
+    for (const link of entry.clearedLinks ?? []) {
+      const row = await db.table(link.table).get(link.id) as Record<string, unknown> | undefined
+      // Don't clobber a link the user has set to something else since
+      if (row && !row[link.field]) await db.table(link.table).update(link.id, { [link.field]: link.value })
+    }
+    await db.trash.delete(entryId)
+  })
+}
+
+export async function purgeTrashEntry(entryId: string): Promise<void> {
+  const { db } = await import('./index')
+  await db.trash.delete(entryId)
+}
+
+export async function emptyTrash(): Promise<void> {
+  const { db } = await import('./index')
+  await db.trash.clear()
+}
+
+/** Permanently delete entries past the retention window. Returns how many were purged. */
+export async function purgeExpiredTrash(): Promise<number> {
+  const { db } = await import('./index')
+  const cutoff = new Date(Date.now() - getTrashRetentionDays() * 86_400_000)
+  return db.trash.where('deletedAt').below(cutoff).delete()
+}
+
+/** Count of records in an entry, root included. */
+export function trashEntrySize(entry: TrashEntry): number {
+  return Object.values(entry.records).reduce((sum, rows) => sum + (rows?.length ?? 0), 0)
+}
+
+/**
+ * Apply `transform` to every sealed value held in the trash — called by the
+ * field encryption migrations alongside transformSealedValues().
+ */
+export async function transformTrashValues(transform: (value: string) => string): Promise<void> {
+  const { db } = await import('./index')
+  await db.trash.toCollection().modify(entry => {
+    for (const [table, rows] of Object.entries(entry.records)) {
+      const fields = SENSITIVE_FIELDS[table]
+      if (!fields || !rows) continue
+      for (const row of rows) {
+        for (const f of fields) {
+          if (typeof row[f] === 'string' && row[f] !== '') row[f] = transform(row[f] as string)
+        }
+      }
+    }
+  })
+}
@@ -1,7 +1,11 @@
 import { useEffect } from 'react'
-import { addWeeks, addMonths, addMinutes } from 'date-fns'
-import { db, createBooking, completeBookingPayment, newId } from '../db'
-import { isPro, canAddBooking } from '../components/planLimits'
+import { addMinutes } from 'date-fns'
+import { db, completeBookingPayment, newId } from '../db'
+import { isPro } from '../components/planLimits'
+import { isFieldEncryptionLocked } from '../db/fieldCrypto'
+import { materializeAllSeries } from '../utils/recurrence'
+import { postDueExpenses } from '../utils/recurringExpenses'
+import { postVenueCosts } from '../utils/venueCosts'
 
 function sendCompletionNotification(clientAlias: string, durationMin: number) {
   if (!('Notification' in window)) return
@@ -25,7 +29,9 @@ function sendCompletionNotification(clientAlias: string, durationMin: number) {
  * - In Progress → Completed: 5 minutes after scheduled end time (dateTime + duration)
  *
  * Also:
- * - Spawns the next occurrence of recurring bookings when one completes
+ * - Creates upcoming occurrences of recurring series (see utils/recurrence.ts)
+ * - Posts recurring expenses that have come due (see utils/recurringExpenses.ts)
+ * - Records incall venue costs of completed bookings, if set to (see utils/venueCosts.ts)
  * - Creates safety check-ins when bookings go In Progress (if requiresSafetyCheck)
  * - Auto-transitions pending safety checks → overdue when scheduledTime + buffer has passed
  *
@@ -47,12 +53,6 @@ export function useAutoStatusTransitions() {
           'Pending Deposit', 'Confirmed', 'In Progress', 'Completed'
         ]).toArray()
 
-      // Pre-build set of booking IDs that already have recurring children (avoids N full-table scans)
-      const parentIdsWithChildren = new Set<string>()
-      await db.bookings.each(child => {
-        if (child.parentBookingId) parentIdsWithChildren.add(child.parentBookingId)
-      })
-
       for (const b of bookings) {
         const startTime = new Date(b.dateTime).getTime()
         const endTime = startTime + b.duration * 60_000
@@ -107,55 +107,17 @@ export function useAutoStatusTransitions() {
           // Nudge to write session notes
           sendCompletionNotification(clientAlias, b.duration)
         }
+      }
 
-        // Spawn next recurring booking if this one completed
-        const effectiveStatus = (await db.bookings.get(b.id))?.status ?? b.status
-        if (effectiveStatus === 'Completed' && b.recurrence && b.recurrence !== 'none') {
-          if (!parentIdsWithChildren.has(b.id)) {
-            // Only auto-create if client still exists and is screened
-            const recurClient = b.clientId ? await db.clients.get(b.clientId) : null
-            if (!recurClient) continue // client was deleted
-            if (recurClient.screeningStatus !== 'Screened') continue
-
-            // Respect free plan booking limit
-            if (!await canAddBooking()) continue
-
-            const currentDate = new Date(b.dateTime)
-            let nextDate: Date
-            switch (b.recurrence) {
-              case 'weekly': nextDate = addWeeks(currentDate, 1); break
-              case 'biweekly': nextDate = addWeeks(currentDate, 2); break
-              case 'monthly': nextDate = addMonths(currentDate, 1); break
-              default: continue
-            }
+      // Keep recurring series filled out to the horizon (also picks up the
+      // next occurrence once a free-plan booking completes)
+      await materializeAllSeries()
 
-            const needsDeposit = (b.depositAmount ?? 0) > 0
-            const nextBooking = createBooking({
-              clientId: b.clientId,
-              dateTime: nextDate,
-              duration: b.duration,
-              locationType: b.locationType,
-              locationAddress: b.locationAddress,
-              locationNotes: b.locationNotes,
-              venueId: b.venueId,
-              status: needsDeposit ? 'Pending Deposit' : 'Confirmed',
-              confirmedAt: needsDeposit ? undefined : new Date(),
-              baseRate: b.baseRate,
-              extras: b.extras,
-              travelFee: b.travelFee,
-              depositAmount: b.depositAmount,
-              depositMethod: b.depositMethod,
-              paymentMethod: b.paymentMethod,
-              requiresSafetyCheck: b.requiresSafetyCheck,
-              safetyCheckMinutesAfter: b.safetyCheckMinutesAfter,
-              safetyContactId: b.safetyContactId,
-              recurrence: b.recurrence,
-              parentBookingId: b.id,
-              recurrenceRootId: b.recurrenceRootId ?? b.id,
-            })
-            await db.bookings.add(nextBooking)
-          }
-        }
+      // Post rent, phone and other recurring bills on their day — once
+      // unlocked, so their names and notes are sealed like any other edit
+      if (!(await isFieldEncryptionLocked())) {
+        await postDueExpenses()
+        await postVenueCosts()
       }
 
       // Auto-transition pending safety checks → overdue
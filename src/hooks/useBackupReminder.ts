@@ -34,6 +34,8 @@ export function getBackupReminderInterval(): number {
  *  - reminder interval is not 0 (disabled)
  *  - interval has elapsed since last backup (or never backed up)
  *  - the DB has real data worth protecting (at least 1 client or booking)
+ * When scheduled backups are on, the due archive is written first and the
+ * reminder only shows if that fails (no password, folder permission lost).
  */
 export function useBackupReminder(): { shouldRemind: boolean; daysSince: number | null } {
   const [shouldRemind, setShouldRemind] = useState(false)
@@ -51,10 +53,18 @@ export function useBackupReminder(): { shouldRemind: boolean; daysSince: number
     if (!isDue) return
 
     // Only remind if the DB has real data
-    Promise.all([db.clients.count(), db.bookings.count()]).then(([clients, bookings]) => {
-      if (clients > 0 || bookings > 0) {
-        setShouldRemind(true)
+    Promise.all([db.clients.count(), db.bookings.count()]).then(async ([clients, bookings]) => {
+      if (clients === 0 && bookings === 0) return
+      // Lazy import — incrementalBackup depends on this module
+      const { isAutoBackupEnabled, runScheduledBackup } = await import('../utils/incrementalBackup')
+      if (isAutoBackupEnabled()) {
+        const result = await runScheduledBackup().catch(() => null)
+        if (result && result.status !== 'needs-attention') {
+          setDays(0)
+          return
+        }
       }
+      setShouldRemind(true)
     }).catch(() => {}) // DB not ready — silently skip reminder check
   }, [])
 
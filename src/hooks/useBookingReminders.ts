@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react'
 import { db, bookingDurationFormatted } from '../db'
+import { fmtBookingTime } from '../utils/timeZone'
 
 /**
  * Booking Reminders using the Web Notifications API.
@@ -78,7 +79,7 @@ export function useBookingReminders(enabled: boolean) {
           // Look up venue name
           const venue = await db.incallVenues.get(b.venueId)
           new Notification('📍 Send directions to client', {
-            body: `${name} — ${venue?.name ?? 'Incall'} · Booking at ${new Date(b.dateTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`,
+            body: `${name} — ${venue?.name ?? 'Incall'} · Booking at ${fmtBookingTime(b)}`,
             icon: '/icon-192.png',
             tag: key8h,
           })
@@ -0,0 +1,31 @@
+import { useEffect } from 'react'
+import { useLocalStorage } from './useSettings'
+import { CALENDAR_FEED_KEY, publishCalendarFeed, type CalendarFeed } from '../utils/calendarFeed'
+
+const FEED_INTERVAL_MS = 5 * 60_000
+
+/**
+ * Keeps the published calendar feed current: on unlock, every 5 minutes and
+ * when the app returns to the foreground. Only uploads when the calendar
+ * changed. Does nothing while the feed is off, offline, or locked.
+ */
+export function useCalendarFeed(isOnline: boolean, isLocked: boolean): void {
+  const [feed] = useLocalStorage<CalendarFeed | null>(CALENDAR_FEED_KEY, null)
+
+  useEffect(() => {
+    if (!feed || !isOnline || isLocked) return
+    function publish() {
+      publishCalendarFeed(feed!).catch(err => console.error('Calendar feed publish failed:', err))
+    }
+    publish()
+    const interval = setInterval(publish, FEED_INTERVAL_MS)
+    function onVisibilityChange() {
+      if (document.visibilityState === 'visible') publish()
+    }
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+    }
+  }, [feed, isOnline, isLocked])
+}
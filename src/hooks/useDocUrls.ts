@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react'
+import { openDocBlob } from '../db/docCrypto'
+
+interface ViewableDoc {
+  id: string
+  data: Blob
+  mimeType: string
+  encrypted?: boolean
+}
+
+/**
+ * Object URLs for image thumbnails, opened lazily from (possibly sealed)
+ * document blobs. Plaintext only ever lives in memory behind the URL;
+ * URLs are revoked when a doc goes away and on unmount.
+ */
+export function useDocThumbUrls(docs: ViewableDoc[]): (id: string) => string | undefined {
+  const urlsRef = useRef(new Map<string, string>())
+  const [, forceRender] = useState(0)
+  const docIdKey = docs.map(d => d.id).join(',')
+
+  useEffect(() => {
+    const urls = urlsRef.current
+    const ids = new Set(docs.map(d => d.id))
+    // Revoke URLs only for removed docs
+    for (const [id, url] of urls) {
+      if (!ids.has(id)) { URL.revokeObjectURL(url); urls.delete(id) }
+    }
+
+    let cancelled = false
+    ;(async () => {
+      for (const doc of docs) {
+        if (urls.has(doc.id) || !doc.mimeType.startsWith('image/')) continue
+        try {
+          const blob = await openDocBlob(doc)
+          if (cancelled) return
+          urls.set(doc.id, URL.createObjectURL(blob))
+          forceRender(n => n + 1)
+        } catch {
+          // Locked or unreadable — the file icon stands in
+        }
+      }
+    })()
+    return () => { cancelled = true }
+  }, [docIdKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Revoke all blob URLs on unmount only
+  useEffect(() => {
+    const urls = urlsRef.current
+    return () => {
+      for (const url of urls.values()) URL.revokeObjectURL(url)
+      urls.clear()
+    }
+  }, [])
+
+  return id => urlsRef.current.get(id)
+}
+
+/**
+ * Object URL for the full-screen preview of one document, or the reason it
+ * can't be opened. `onError` runs when opening fails — the place to report
+ * it and close the preview.
+ */
+export function useDocPreviewUrl(
+  doc: ViewableDoc | null,
+  onError?: (message: string) => void,
+): { url: string | null; error: string | null } {
+  const [state, setState] = useState<{ id: string; url?: string; error?: string } | null>(null)
+
+  useEffect(() => {
+    if (!doc) return
+    let url: string | undefined
+    let cancelled = false
+    openDocBlob(doc)
+      .then(blob => {
+        if (cancelled) return
+        url = URL.createObjectURL(blob)
+        setState({ id: doc.id, url })
+      })
+      .catch(err => {
+        if (cancelled) return
+        const message = (err as Error).message
+        setState({ id: doc.id, error: message })
+        onError?.(message)
+      })
+    return () => {
+      cancelled = true
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [doc]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const current = doc && state?.id === doc.id ? state : null
+  return { url: current?.url ?? null, error: current?.error ?? null }
+}
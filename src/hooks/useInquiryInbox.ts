@@ -0,0 +1,33 @@
+import { useEffect } from 'react'
+import { showToast } from '../components/Toast'
+import { pullInquiries } from '../utils/inquiries'
+
+const PULL_INTERVAL_MS = 5 * 60_000
+
+/**
+ * Pulls booking requests from the request-form inbox: on unlock, every
+ * 5 minutes and when the app returns to the foreground. Does nothing while
+ * the inbox is off, offline, or locked.
+ */
+export function useInquiryInbox(isOnline: boolean, isLocked: boolean): void {
+  useEffect(() => {
+    if (!isOnline || isLocked) return
+    function pull() {
+      pullInquiries()
+        .then(added => {
+          if (added > 0) showToast(`${added} new booking request${added === 1 ? '' : 's'}`)
+        })
+        .catch(err => console.error('Booking request pull failed:', err))
+    }
+    pull()
+    const interval = setInterval(pull, PULL_INTERVAL_MS)
+    function onVisibilityChange() {
+      if (document.visibilityState === 'visible') pull()
+    }
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+    }
+  }, [isOnline, isLocked])
+}
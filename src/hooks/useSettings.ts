@@ -6,6 +6,16 @@ export const LS_PREFIX = 'c_'
 /** Prefix a key for direct localStorage access. Use this when reading/writing outside of useLocalStorage. */
 export function lsKey(key: string): string { return LS_PREFIX + key }
 
+/** Read a stored setting outside React — the non-hook counterpart of useLocalStorage. */
+export function readSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(lsKey(key))
+    return raw ? JSON.parse(raw) as T : fallback
+  } catch {
+    return fallback
+  }
+}
+
 // Simple hook that syncs state with localStorage
 // Dispatches a custom event so other components using the same key re-render
 export function useLocalStorage<T>(key: string, defaultValue: T): [T, (value: T | ((prev: T) => T)) => void] {
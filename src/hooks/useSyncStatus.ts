@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react'
+import { useLocalStorage } from './useSettings'
+import {
+  SYNC_ENABLED_KEY, getSyncStatus, subscribeSyncStatus, loadSyncStatus, syncNow,
+  type SyncStatus,
+} from '../db/sync'
+
+const SYNC_INTERVAL_MS = 2 * 60_000
+
+/**
+ * Tracks device sync status and drives background sync rounds:
+ * on unlock, every 2 minutes, when coming back online, and when the app
+ * returns to the foreground. Does nothing while sync is off, offline, or locked.
+ */
+export function useSyncStatus(isOnline: boolean, isLocked: boolean): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus)
+  const [syncEnabled] = useLocalStorage(SYNC_ENABLED_KEY, false)
+
+  useEffect(() => {
+    loadSyncStatus().catch(() => {})
+    return subscribeSyncStatus(setStatus)
+  }, [])
+
+  useEffect(() => {
+    if (!syncEnabled || !isOnline || isLocked) return
+    syncNow()
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS)
+    function onVisibilityChange() {
+      if (document.visibilityState === 'visible') syncNow()
+    }
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+    }
+  }, [syncEnabled, isOnline, isLocked])
+
+  return status
+}
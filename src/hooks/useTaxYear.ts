@@ -0,0 +1,34 @@
+import { useMemo } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { db, getCurrency } from '../db'
+import { useLocalStorage } from './useSettings'
+import { createFxConverter } from '../utils/fx'
+import {
+  TAX_PROFILE_KEY, TAX_RATE_KEY, buildTaxYearReport, resolveTaxProfile, taxYearOf,
+} from '../utils/tax'
+import type { TaxProfile, TaxYearReport } from '../utils/tax'
+
+/** The tax profile from settings, over the defaults */
+export function useTaxProfile(): TaxProfile {
+  const [stored] = useLocalStorage<Partial<TaxProfile>>(TAX_PROFILE_KEY, {})
+  return useMemo(() => resolveTaxProfile(stored), [stored])
+}
+
+/**
+ * Live report for a tax year (default: the current one), in the home
+ * currency. Undefined while loading.
+ */
+export function useTaxYear(year?: number): TaxYearReport | undefined {
+  const profile = useTaxProfile()
+  const [flatRate] = useLocalStorage(TAX_RATE_KEY, 25)
+  const transactions = useLiveQuery(() => db.transactions.toArray())
+  const payments = useLiveQuery(() => db.taxPayments.toArray())
+  const rates = useLiveQuery(() => db.fxRates.toArray())
+  const taxYear = year ?? taxYearOf(new Date(), profile)
+
+  return useMemo(() => {
+    if (!transactions || !payments || !rates) return undefined
+    const fx = createFxConverter(rates, getCurrency())
+    return buildTaxYearReport(transactions, payments, taxYear, profile, flatRate, fx)
+  }, [transactions, payments, rates, taxYear, profile, flatRate])
+}
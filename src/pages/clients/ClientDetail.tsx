@@ -6,7 +6,8 @@ import {
   ThumbsUp, ShieldAlert, Plus, RotateCcw, Trash2, Merge,
   MapPin, Send, StickyNote
 } from 'lucide-react'
-import { fmtShortDate, fmtMediumDate, fmtShortDayDate, fmtTime } from '../../utils/dateFormat'
+import { fmtShortDate, fmtMediumDate, fmtShortDayDate } from '../../utils/dateFormat'
+import { bookingTimeZone, fmtBookingTime } from '../../utils/timeZone'
 import { db, formatCurrency, bookingTotal, bookingDurationFormatted, downgradeBookingsOnUnscreen, advanceBookingsOnScreen } from '../../db'
 import { StatusBadge } from '../../components/StatusBadge'
 import { RiskLevelBar } from '../../components/RiskLevelBar'
@@ -22,6 +23,8 @@ import { JournalLog } from '../../components/JournalLog'
 import { SendMessageSheet } from '../../components/SendMessageSheet'
 import { JournalEntryEditor } from '../../components/JournalEntryEditor'
 import { ScreeningProofManager } from '../../components/ScreeningProofManager'
+import { RevisionHistory } from '../../components/RevisionHistory'
+import { moveToTrash, restoreFromTrash } from '../../db/trash'
 import { ProGate } from '../../components/ProGate'
 import { isPro } from '../../components/planLimits'
 import { screeningStatusColors, riskLevelColors, bookingStatusColors } from '../../types'
@@ -154,51 +157,12 @@ export function ClientDetail({ clientId, onBack, onOpenBooking, onShowPaywall }:
     if (deleting) return
     setDeleting(true)
     try {
-      // Snapshot everything before deletion for undo
-      const clientSnap = await db.clients.get(clientId)
-      const bookingSnaps = await db.bookings.where('clientId').equals(clientId).toArray()
-      const bookingIds = bookingSnaps.map(b => b.id)
-      const paymentSnaps = bookingIds.length ? await db.payments.where('bookingId').anyOf(bookingIds).toArray() : []
-      const txnSnaps = bookingIds.length ? await db.transactions.where('bookingId').anyOf(bookingIds).toArray() : []
-      const checkSnaps = bookingIds.length ? await db.safetyChecks.where('bookingId').anyOf(bookingIds).toArray() : []
-      const incidentSnaps = await db.incidents.where('clientId').equals(clientId).toArray()
-      const journalSnaps = await db.journalEntries.where('clientId').equals(clientId).toArray()
-      const screeningDocSnaps = await db.screeningDocs.where('clientId').equals(clientId).toArray()
-
-      // Snapshot checklist items before delete
-      const checklistSnaps = bookingIds.length ? await db.bookingChecklist.where('bookingId').anyOf(bookingIds).toArray() : []
-
-      // Execute cascade delete atomically
-      await db.transaction('rw', [db.clients, db.bookings, db.payments, db.transactions, db.safetyChecks, db.incidents, db.journalEntries, db.screeningDocs, db.bookingChecklist], async () => {
-        for (const bid of bookingIds) {
-          await db.payments.where('bookingId').equals(bid).delete()
-          await db.transactions.where('bookingId').equals(bid).delete()
-          await db.safetyChecks.where('bookingId').equals(bid).delete()
-          await db.bookingChecklist.where('bookingId').equals(bid).delete()
-        }
-        await db.bookings.where('clientId').equals(clientId).delete()
-        await db.incidents.where('clientId').equals(clientId).delete()
-        await db.journalEntries.where('clientId').equals(clientId).delete()
-        await db.screeningDocs.where('clientId').equals(clientId).delete()
-        await db.clients.delete(clientId)
-      })
+      const alias = client?.alias ?? 'Client'
+      const trashId = await moveToTrash('client', clientId)
       setShowDeleteConfirm(false)
       onBack()
 
-      const alias = clientSnap?.alias ?? 'Client'
-      showUndoToast(`Deleted ${alias}`, async () => {
-        await db.transaction('rw', [db.clients, db.bookings, db.payments, db.transactions, db.safetyChecks, db.incidents, db.journalEntries, db.screeningDocs, db.bookingChecklist], async () => {
-          if (clientSnap) await db.clients.put(clientSnap)
-          if (bookingSnaps.length) await db.bookings.bulkPut(bookingSnaps)
-          if (paymentSnaps.length) await db.payments.bulkPut(paymentSnaps)
-          if (txnSnaps.length) await db.transactions.bulkPut(txnSnaps)
-          if (checkSnaps.length) await db.safetyChecks.bulkPut(checkSnaps)
-          if (incidentSnaps.length) await db.incidents.bulkPut(incidentSnaps)
-          if (journalSnaps.length) await db.journalEntries.bulkPut(journalSnaps)
-          if (screeningDocSnaps.length) await db.screeningDocs.bulkPut(screeningDocSnaps)
-          if (checklistSnaps.length) await db.bookingChecklist.bulkPut(checklistSnaps)
-        })
-      })
+      showUndoToast(`Moved ${alias} to trash`, () => restoreFromTrash(trashId))
     } catch (err) {
       showToast(`Delete failed: ${(err as Error).message}`)
       setDeleting(false)
@@ -453,7 +417,7 @@ export function ClientDetail({ clientId, onBack, onOpenBooking, onShowPaywall }:
                 className="flex items-center justify-between py-2 w-full text-left">
                 <div>
                   <p className="text-sm" style={{ color: 'var(--text-primary)' }}>
-                    {`${fmtShortDayDate(new Date(b.dateTime))} · ${fmtTime(new Date(b.dateTime))}`}
+                    {`${fmtShortDayDate(new Date(b.dateTime), bookingTimeZone(b))} · ${fmtBookingTime(b)}`}
                   </p>
                   <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
                     {bookingDurationFormatted(b.duration)} · {b.locationType}
@@ -462,7 +426,7 @@ export function ClientDetail({ clientId, onBack, onOpenBooking, onShowPaywall }:
                 <div className="flex items-center gap-2">
                   <StatusBadge text={b.status} color={bookingStatusColors[b.status]} />
                   <span className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>
-                    {formatCurrency(bookingTotal(b))}
+                    {formatCurrency(bookingTotal(b), b.currency)}
                   </span>
                   <ChevronRight size={14} style={{ color: 'var(--text-secondary)' }} />
                 </div>
@@ -609,7 +573,7 @@ export function ClientDetail({ clientId, onBack, onOpenBooking, onShowPaywall }:
                     {b.status !== 'Completed' && <StatusBadge text={b.status} color={bookingStatusColors[b.status]} />}
                   </div>
                 </div>
-                <span className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>{formatCurrency(bookingTotal(b))}</span>
+                <span className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>{formatCurrency(bookingTotal(b), b.currency)}</span>
               </button>
             ))}
             {pastBookings.length > 10 && (
@@ -635,6 +599,11 @@ export function ClientDetail({ clientId, onBack, onOpenBooking, onShowPaywall }:
           )}
         </CollapsibleCard>
 
+        {/* Change History */}
+        <CollapsibleCard label="Change History" id="revisions" expanded={expanded} toggle={toggle}>
+          <RevisionHistory table="clients" recordId={clientId} />
+        </CollapsibleCard>
+
         {/* Actions */}
         <CollapsibleCard label="Actions" id="actions" expanded={expanded} toggle={toggle}>
           <button onClick={toggleBlock}
@@ -676,7 +645,7 @@ export function ClientDetail({ clientId, onBack, onOpenBooking, onShowPaywall }:
       <ConfirmDialog
         isOpen={showDeleteConfirm}
         title="Delete Client"
-        message={`Delete ${client.alias} and all ${bookings.length} associated booking${bookings.length !== 1 ? 's' : ''}? You can undo this briefly after.`}
+        message={`Delete ${client.alias} and all ${bookings.length} associated booking${bookings.length !== 1 ? 's' : ''}? They'll be kept in Trash (Settings → Data) until you restore them or the retention period ends.`}
         confirmLabel="Delete"
         onConfirm={confirmDelete}
         onCancel={() => setShowDeleteConfirm(false)}
@@ -6,11 +6,12 @@
 //   3. For each field that differs, they choose which value to keep.
 //   4. On confirm: all bookings/incidents re-pointed to target, source deleted.
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import { useLiveQuery } from 'dexie-react-hooks'
 import { Search, ArrowRight, Check, ChevronDown, ChevronUp } from 'lucide-react'
 import { fmtMediumDate } from '../../utils/dateFormat'
 import { db } from '../../db'
+import { CONTACT_FIELDS, findClientsByContact } from '../../db/blindIndex'
 import { Modal } from '../../components/Modal'
 import { showToast } from '../../components/Toast'
 import type { Client, ClientTag } from '../../types'
@@ -116,6 +117,17 @@ export function ClientMergeModal({ isOpen, onClose, sourceClient, onMergeComplet
       .slice(0, 8)
   }, [allClients, search, sourceClient.id])
 
+  // Likely duplicates — clients sharing a contact value, via the blind index
+  const [likelyDuplicates, setLikelyDuplicates] = useState<Client[]>([])
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    findClientsByContact(CONTACT_FIELDS.map(f => sourceClient[f]))
+      .then(found => { if (!cancelled) setLikelyDuplicates(found.filter(c => c.id !== sourceClient.id)) })
+      .catch(err => console.error('Duplicate lookup failed:', err))
+    return () => { cancelled = true }
+  }, [isOpen, sourceClient])
+
   const mergeFields = useMemo(() => {
     if (!targetClient) return []
     return buildMergeFields(sourceClient, targetClient)
@@ -142,6 +154,33 @@ export function ClientMergeModal({ isOpen, onClose, sourceClient, onMergeComplet
     setStep('review')
   }
 
+  function renderClientOption(c: Client) {
+    return (
+      <button
+        key={c.id}
+        onClick={() => handleSelectTarget(c)}
+        className="w-full flex items-center gap-3 p-3 rounded-xl text-left active:scale-[0.98] transition-transform"
+        style={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border)' }}
+      >
+        <div
+          className="w-9 h-9 rounded-full flex items-center justify-center shrink-0"
+          style={{ backgroundColor: 'rgba(168,85,247,0.15)' }}
+        >
+          <span className="text-sm font-bold text-purple-500">
+            {c.alias.charAt(0).toUpperCase()}
+          </span>
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold truncate" style={{ color: 'var(--text-primary)' }}>{c.alias}</p>
+          <p className="text-xs truncate" style={{ color: 'var(--text-secondary)' }}>
+            {[c.nickname, c.phone].filter(Boolean).join(' · ') || c.screeningStatus}
+          </p>
+        </div>
+        <ArrowRight size={16} style={{ color: 'var(--text-secondary)' }} />
+      </button>
+    )
+  }
+
   async function executeMerge() {
     if (!targetClient) return
     setWorking(true)
@@ -200,7 +239,7 @@ export function ClientMergeModal({ isOpen, onClose, sourceClient, onMergeComplet
         requiresSafetyCheck: freshSource.requiresSafetyCheck || freshTarget.requiresSafetyCheck,
       }
 
-      await db.transaction('rw', [db.clients, db.bookings, db.incidents, db.journalEntries, db.screeningDocs, db.payments, db.safetyChecks, db.bookingChecklist], async () => {
+      await db.transaction('rw', [db.clients, db.bookings, db.incidents, db.journalEntries, db.screeningDocs, db.waitlist, db.payments, db.safetyChecks, db.bookingChecklist], async () => {
         // 2. Re-point bookings from source → target
         const sourceBookings = await db.bookings.where('clientId').equals(sourceClient.id).toArray()
         for (const b of sourceBookings) {
@@ -225,10 +264,13 @@ export function ClientMergeModal({ isOpen, onClose, sourceClient, onMergeComplet
           await db.screeningDocs.update(doc.id, { clientId: targetClient.id })
         }
 
-        // 6. Apply merged fields to target
+        // 6. Re-point waitlist entries from source → target
+        await db.waitlist.where('clientId').equals(sourceClient.id).modify({ clientId: targetClient.id })
+
+        // 7. Apply merged fields to target
         await db.clients.update(targetClient.id, merged)
 
-        // 7. Delete source
+        // 8. Delete source
         await db.clients.delete(sourceClient.id)
       })
 
@@ -307,30 +349,7 @@ export function ClientMergeModal({ isOpen, onClose, sourceClient, onMergeComplet
 
             {searchResults.length > 0 && (
               <div className="space-y-2">
-                {searchResults.map(c => (
-                  <button
-                    key={c.id}
-                    onClick={() => handleSelectTarget(c)}
-                    className="w-full flex items-center gap-3 p-3 rounded-xl text-left active:scale-[0.98] transition-transform"
-                    style={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border)' }}
-                  >
-                    <div
-                      className="w-9 h-9 rounded-full flex items-center justify-center shrink-0"
-                      style={{ backgroundColor: 'rgba(168,85,247,0.15)' }}
-                    >
-                      <span className="text-sm font-bold text-purple-500">
-                        {c.alias.charAt(0).toUpperCase()}
-                      </span>
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-semibold truncate" style={{ color: 'var(--text-primary)' }}>{c.alias}</p>
-                      <p className="text-xs truncate" style={{ color: 'var(--text-secondary)' }}>
-                        {[c.nickname, c.phone].filter(Boolean).join(' · ') || c.screeningStatus}
-                      </p>
-                    </div>
-                    <ArrowRight size={16} style={{ color: 'var(--text-secondary)' }} />
-                  </button>
-                ))}
+                {searchResults.map(renderClientOption)}
               </div>
             )}
 
@@ -340,6 +359,17 @@ export function ClientMergeModal({ isOpen, onClose, sourceClient, onMergeComplet
               </p>
             )}
 
+            {!search.trim() && likelyDuplicates.length > 0 && (
+              <>
+                <p className="text-xs font-semibold mb-2" style={{ color: 'var(--text-secondary)' }}>
+                  Shares a phone, email or handle
+                </p>
+                <div className="space-y-2">
+                  {likelyDuplicates.map(renderClientOption)}
+                </div>
+              </>
+            )}
+
             {!search.trim() && (
               <p className="text-xs text-center py-4" style={{ color: 'var(--text-secondary)' }}>
                 The selected client's bookings and records will be transferred to the one you keep.
@@ -2,7 +2,7 @@ import { useLiveQuery } from 'dexie-react-hooks'
 import {
   Plus, ArrowUpCircle, ArrowDownCircle, Trash2, Target,
   Percent, ChevronRight, AlertCircle, Search, X, Check, ArrowDownUp,
-  Settings2, CreditCard, MapPin, TrendingUp, TrendingDown, Edit2
+  Settings2, CreditCard, MapPin, TrendingUp, TrendingDown, Edit2, Paperclip
 } from 'lucide-react'
 import { useState, useMemo } from 'react'
 import {
@@ -12,19 +12,28 @@ import {
   startOfDay, endOfDay, parseISO
 } from 'date-fns'
 import { fmtShortMonth, fmtShortDate, fmtMediumDate } from '../../utils/dateFormat'
-import { db, formatCurrency, bookingTotal, removeBookingPayment } from '../../db'
+import { db, formatCurrency, getCurrency, bookingTotal, removeBookingPayment } from '../../db'
 import { PageHeader } from '../../components/PageHeader'
 import { Card } from '../../components/Card'
 import { Modal } from '../../components/Modal'
 import { ConfirmDialog } from '../../components/ConfirmDialog'
-import { SectionLabel, FieldHint, fieldInputStyle } from '../../components/FormFields'
+import { ReceiptViewer } from '../../components/ReceiptManager'
+import { FieldHint, fieldInputStyle } from '../../components/FormFields'
 import { ImportExportModal } from '../../components/ImportExport'
 import { TransactionEditor } from './TransactionEditor'
+import { FxRatesEditor } from './FxRatesEditor'
+import { TaxYearModal } from './TaxYearModal'
+import { UpcomingBillsCard } from './RecurringExpenses'
+import { VenueCostsCard } from './VenueCostsCard'
 import { StatusBadge } from '../../components/StatusBadge'
 import { bookingStatusColors } from '../../types'
 import { useLocalStorage } from '../../hooks/useSettings'
 import { showToast, showUndoToast } from '../../components/Toast'
 import { FinancesPageSkeleton } from '../../components/Skeleton'
+import { REPORTING_CURRENCY_KEY, convertAmounts, createFxConverter } from '../../utils/fx'
+import { deductionLineFor, nextInstallment } from '../../utils/tax'
+import { needsReceipt } from '../../utils/receipts'
+import { useTaxProfile, useTaxYear } from '../../hooks/useTaxYear'
 import type { Transaction, LocationType, PaymentMethod } from '../../types'
 
 type TimePeriod = 'Week' | 'Month' | 'Quarter' | 'Year' | 'All' | 'Custom'
@@ -32,7 +41,7 @@ type TimePeriod = 'Week' | 'Month' | 'Quarter' | 'Year' | 'All' | 'Custom'
 // Card visibility — user can toggle which sections appear
 type CardKey =
   // Financial
-  | 'goal' | 'stats' | 'tax' | 'bookingTypes' | 'paymentMethods' | 'expenses' | 'outstanding' | 'transactions'
+  | 'goal' | 'stats' | 'tax' | 'bookingTypes' | 'paymentMethods' | 'expenses' | 'bills' | 'venueCosts' | 'outstanding' | 'transactions'
   // Trends
   | 'monthOverMonth' | 'incomeTrend' | 'bookingVolume' | 'monthlyBreakdown'
   // Timing
@@ -42,7 +51,7 @@ type CardKey =
 
 interface CardGroup { label: string; keys: CardKey[] }
 const CARD_GROUPS: CardGroup[] = [
-  { label: '💰 Financial', keys: ['goal', 'stats', 'tax', 'bookingTypes', 'paymentMethods', 'expenses', 'outstanding', 'transactions'] },
+  { label: '💰 Financial', keys: ['goal', 'stats', 'tax', 'bookingTypes', 'paymentMethods', 'expenses', 'bills', 'venueCosts', 'outstanding', 'transactions'] },
   { label: '📈 Trends', keys: ['monthOverMonth', 'incomeTrend', 'bookingVolume', 'monthlyBreakdown'] },
   { label: '🕐 Timing', keys: ['peakTimes', 'heatmap', 'revenueByDay'] },
   { label: '👥 Clients', keys: ['retention', 'repeatRevenue', 'topClients', 'reliability', 'clientSources'] },
@@ -50,7 +59,8 @@ const CARD_GROUPS: CardGroup[] = [
 const CARD_LABELS: Record<CardKey, string> = {
   goal: 'Income Goal', stats: 'Summary Stats', tax: 'Tax Estimate',
   bookingTypes: 'Revenue by Booking Type', paymentMethods: 'Payment Methods',
-  expenses: 'Top Expenses', outstanding: 'Outstanding Balances', transactions: 'Recent Transactions',
+  expenses: 'Top Expenses', bills: 'Upcoming Bills', venueCosts: 'Venue Costs to Record',
+  outstanding: 'Outstanding Balances', transactions: 'Recent Transactions',
   monthOverMonth: 'Month over Month', incomeTrend: '12-Month Income Trend',
   bookingVolume: 'Booking Volume', monthlyBreakdown: 'Monthly Breakdown',
   peakTimes: 'Peak Times', heatmap: 'Booking Heatmap', revenueByDay: 'Revenue by Day of Week',
@@ -59,7 +69,7 @@ const CARD_LABELS: Record<CardKey, string> = {
 }
 const ALL_CARDS: CardKey[] = CARD_GROUPS.flatMap(g => g.keys)
 const DEFAULT_VISIBLE: CardKey[] = [
-  'goal', 'stats', 'tax', 'bookingTypes', 'paymentMethods', 'expenses', 'outstanding', 'transactions',
+  'goal', 'stats', 'tax', 'bookingTypes', 'paymentMethods', 'expenses', 'bills', 'venueCosts', 'outstanding', 'transactions',
   'monthOverMonth', 'incomeTrend',
 ]
 
@@ -107,6 +117,16 @@ function periodEnd(p: TimePeriod, customTo?: string): Date {
   }
 }
 
+/** Converter to the chosen reporting currency, rebuilt when rates change. Undefined while rates load. */
+function useReportingFx() {
+  const [reportingCurrency] = useLocalStorage(REPORTING_CURRENCY_KEY, getCurrency())
+  const rates = useLiveQuery(() => db.fxRates.toArray())
+  return useMemo(
+    () => rates === undefined ? undefined : createFxConverter(rates, reportingCurrency),
+    [rates, reportingCurrency],
+  )
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // MAIN FINANCES PAGE
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -118,10 +138,11 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
   const [showEditor, setShowEditor] = useState(false)
   const [editingTransaction, setEditingTransaction] = useState<Transaction | undefined>(undefined)
   const [showGoalEditor, setShowGoalEditor] = useState(false)
-  const [showTaxSettings, setShowTaxSettings] = useState(false)
+  const [showTaxYear, setShowTaxYear] = useState(false)
   const [showAllTransactions, setShowAllTransactions] = useState(false)
   const [showImportExport, setShowImportExport] = useState(false)
   const [showCardSettings, setShowCardSettings] = useState(false)
+  const [showFxRates, setShowFxRates] = useState(false)
   const [visibleCards, setVisibleCards] = useLocalStorage<CardKey[]>('financeCards_v2', DEFAULT_VISIBLE)
   const [hintDismissed, setHintDismissed] = useLocalStorage('financeHintDismissed', false)
   const isCardVisible = (key: CardKey) => visibleCards.includes(key)
@@ -130,14 +151,22 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
   const rawBookings = useLiveQuery(() => db.bookings.toArray())
   const rawClients = useLiveQuery(() => db.clients.toArray())
   const rawPayments = useLiveQuery(() => db.payments.toArray())
-  const allTransactions = rawTransactions ?? []
+  // Every total on this page is in the reporting currency; rows keep their own
+  const fx = useReportingFx()
+  const reportingCurrency = fx?.to ?? getCurrency()
+  const fmt = (amount: number) => formatCurrency(amount, reportingCurrency)
+  const { rows: allTransactions, missing: missingRates } = useMemo(
+    () => fx ? convertAmounts(rawTransactions ?? [], t => t.date, fx) : { rows: [], missing: [] },
+    [rawTransactions, fx]
+  )
   const allBookings = rawBookings ?? []
   const clients = rawClients ?? []
   const allPayments = rawPayments ?? []
   // Settings — stored in localStorage intentionally: these are user preferences
   // (display settings), not user data, so they don't need to be in IndexedDB.
-  const [taxRate] = useLocalStorage('taxRate', 25)
   const [setAsideRate] = useLocalStorage('setAsideRate', 30)
+  const taxProfile = useTaxProfile()
+  const taxYear = useTaxYear()
   // Goal targets — stored in localStorage intentionally: these are user preferences
   // for income targets per period, not transactional data.
   const [goalWeekly] = useLocalStorage('goalWeekly', 0)
@@ -213,16 +242,25 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
   const avgBooking = bookingCount > 0
     ? Math.round(bookingTxns.reduce((s, t) => s + t.amount, 0) / bookingCount)
     : 0
-  const estimatedTax = netIncome > 0 ? Math.round(netIncome * taxRate / 100) : 0
+  // The tax year's effective rate, applied to this period's taxable profit
+  const deductibleExpenses = filtered
+    .filter(t => t.type === 'expense' && deductionLineFor(t.category, taxProfile))
+    .reduce((s, t) => s + t.amount, 0)
+  const taxableProfit = totalIncome - deductibleExpenses
+  const effectiveTaxRate = taxYear?.estimate.effectiveRate ?? 0
+  const estimatedTax = taxableProfit > 0 ? Math.round(taxableProfit * effectiveTaxRate) : 0
+  const nextTaxPayment = taxYear ? nextInstallment(taxYear.schedule) : undefined
   const suggestedSetAside = totalIncome > 0 ? Math.round(totalIncome * setAsideRate / 100) : 0
 
   // Goal — tied to the active period tab
   // On 'All' period, we show the monthly goal with a note about timeframe
   const goalPeriodForDisplay = period === 'All' ? 'Month' : period === 'Custom' ? 'Month' : period
-  const goalTarget = goalPeriodForDisplay === 'Week' ? goalWeekly
+  const goalHome = goalPeriodForDisplay === 'Week' ? goalWeekly
     : goalPeriodForDisplay === 'Month' ? goalMonthly
     : goalPeriodForDisplay === 'Quarter' ? goalQuarterly
     : goalPeriodForDisplay === 'Year' ? goalYearly : 0
+  // Goals are set in the home currency — shown at today's rate
+  const goalTarget = Math.round(fx?.convert(goalHome, undefined, new Date()) ?? goalHome)
   const hasGoal = goalTarget > 0
   const goalIncome = totalIncome
   const goalProgress = goalTarget > 0 ? Math.min(1, goalIncome / goalTarget) : 0
@@ -239,13 +277,15 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
     .map(b => {
       const total = bookingTotal(b)
       const paid = paymentsByBookingId.get(b.id) ?? 0
+      // In the booking's currency; converted at today's rate for sorting and the total
       const owing = total - paid
-      return { booking: b, owing, client: clientMap.get(b.clientId ?? '') }
+      const owingReported = fx?.convert(owing, b.currency, new Date()) ?? 0
+      return { booking: b, owing, owingReported, client: clientMap.get(b.clientId ?? '') }
     })
     .filter(x => x.owing > 0)
-    .sort((a, b) => b.owing - a.owing),
-  [allBookings, paymentsByBookingId, clientMap])
-  const totalOutstanding = bookingsWithBalance.reduce((s, x) => s + x.owing, 0)
+    .sort((a, b) => b.owingReported - a.owingReported),
+  [allBookings, paymentsByBookingId, clientMap, fx])
+  const totalOutstanding = bookingsWithBalance.reduce((s, x) => s + x.owingReported, 0)
 
   // Expense breakdown — show all categories; group smallest into "Other" if more than 7
   const expenseBreakdown = useMemo(() => {
@@ -276,12 +316,13 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
       if (!grouped[type]) grouped[type] = { count: 0, revenue: 0 }
       grouped[type].count++
       const rev = incomeByBookingId.get(b.id) ?? 0
-      grouped[type].revenue += rev > 0 ? rev : (b.baseRate + (b.extras ?? 0) + (b.travelFee ?? 0))
+      grouped[type].revenue += rev > 0 ? rev
+        : fx?.convert(b.baseRate + (b.extras ?? 0) + (b.travelFee ?? 0), b.currency, new Date(b.dateTime)) ?? 0
     })
     return Object.entries(grouped)
       .map(([type, data]) => ({ type: type as LocationType, ...data }))
       .sort((a, b) => b.revenue - a.revenue)
-  }, [filteredBookings, incomeByBookingId])
+  }, [filteredBookings, incomeByBookingId, fx])
 
   // Payment method breakdown (income only)
   const paymentMethodBreakdown = useMemo(() => {
@@ -437,11 +478,15 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
     return Object.entries(counts).sort((a, b) => b[1] - a[1])
   }, [clients])
 
-  if (rawTransactions === undefined || rawBookings === undefined || rawClients === undefined || rawPayments === undefined) return <FinancesPageSkeleton />
+  if (rawTransactions === undefined || rawBookings === undefined || rawClients === undefined || rawPayments === undefined || !fx) return <FinancesPageSkeleton />
 
   return (
     <div className="pb-20">
       <PageHeader title="Finances">
+        <button onClick={() => setShowFxRates(true)} className="px-2 py-1.5 rounded-lg text-xs font-semibold"
+          style={{ color: 'var(--text-secondary)' }} aria-label="Reporting currency and exchange rates">
+          {reportingCurrency}
+        </button>
         <button onClick={() => setShowCardSettings(true)} className="p-2 rounded-lg" style={{ color: 'var(--text-secondary)' }} aria-label="Customize reports">
           <Settings2 size={18} />
         </button>
@@ -522,6 +567,25 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
           </button>
         )}
 
+        {/* Amounts that couldn't be converted */}
+        {missingRates.length > 0 && (
+          <button
+            onClick={() => setShowFxRates(true)}
+            className="flex items-center gap-3 w-full p-3 rounded-xl text-left active:opacity-70"
+            style={{ backgroundColor: 'rgba(249,115,22,0.08)', border: '1px solid rgba(249,115,22,0.25)' }}
+          >
+            <AlertCircle size={16} className="text-orange-500 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-orange-500">
+                No {missingRates.join(', ')} → {reportingCurrency} rate
+              </p>
+              <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                Those amounts are left out of the totals. Tap to add exchange rates.
+              </p>
+            </div>
+          </button>
+        )}
+
         {/* Goal Progress */}
         {isCardVisible('goal') && (hasGoal ? (
           <Card onClick={() => setShowGoalEditor(true)}>
@@ -551,8 +615,8 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
             </div>
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-lg font-bold" style={{ color: 'var(--text-primary)' }}>{formatCurrency(goalIncome)}</p>
-                <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>of {formatCurrency(goalTarget)}</p>
+                <p className="text-lg font-bold" style={{ color: 'var(--text-primary)' }}>{fmt(goalIncome)}</p>
+                <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>of {fmt(goalTarget)}</p>
               </div>
               <div className="text-right">
                 <p className={`text-lg font-bold ${goalProgress >= 1 ? 'text-green-500' : ''}`}
@@ -562,14 +626,14 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                 </p>
                 {goalProgress < 1 && goalRemaining > 0 && (
                   <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
-                    {formatCurrency(goalRemaining)} to go
+                    {fmt(goalRemaining)} to go
                   </p>
                 )}
               </div>
             </div>
             {goalProgress < 1 && goalDaysLeft > 0 && (
               <p className="text-xs mt-1" style={{ color: 'var(--text-secondary)' }}>
-                {goalDaysLeft} days left · Need {formatCurrency(Math.round(goalRemaining / goalDaysLeft))}/day
+                {goalDaysLeft} days left · Need {fmt(Math.round(goalRemaining / goalDaysLeft))}/day
               </p>
             )}
           </Card>
@@ -587,22 +651,22 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
         {isCardVisible('stats') && (
         <>
         <div className="grid grid-cols-2 gap-3">
-          <StatCard icon={<ArrowDownCircle size={18} />} color="#22c55e" label="Income" value={formatCurrency(totalIncome)} />
-          <StatCard icon={<ArrowUpCircle size={18} />} color="#ef4444" label="Expenses" value={formatCurrency(totalExpenses)} />
+          <StatCard icon={<ArrowDownCircle size={18} />} color="#22c55e" label="Income" value={fmt(totalIncome)} />
+          <StatCard icon={<ArrowUpCircle size={18} />} color="#ef4444" label="Expenses" value={fmt(totalExpenses)} />
           <StatCard
             icon={<span className="text-base">=</span>}
             color={netIncome >= 0 ? '#3b82f6' : '#f97316'}
             label="Net"
-            value={formatCurrency(netIncome)}
+            value={fmt(netIncome)}
           />
-          <StatCard icon={<span className="text-sm">📊</span>} color="#a855f7" label="Avg Booking" value={formatCurrency(avgBooking)} />
+          <StatCard icon={<span className="text-sm">📊</span>} color="#a855f7" label="Avg Booking" value={fmt(avgBooking)} />
         </div>
         </>
         )}
 
         {/* Tax Estimate */}
         {isCardVisible('tax') && (
-        <Card onClick={() => setShowTaxSettings(true)}>
+        <Card onClick={() => setShowTaxYear(true)}>
           <div className="flex items-center justify-between mb-3">
             <div className="flex items-center gap-2">
               <Percent size={16} className="text-orange-500" />
@@ -613,16 +677,29 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
           <div className="flex gap-4">
             <div className="flex-1">
               <p className="text-xs mb-0.5" style={{ color: 'var(--text-secondary)' }}>Est. Tax Owed</p>
-              <p className="text-lg font-bold text-orange-500">{formatCurrency(estimatedTax)}</p>
-              <p className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>(based on net income)</p>
+              <p className="text-lg font-bold text-orange-500">{fmt(estimatedTax)}</p>
+              <p className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>
+                ({Math.round(effectiveTaxRate * 1000) / 10}% of taxable profit)
+              </p>
             </div>
             <div className="w-px" style={{ backgroundColor: 'var(--border)' }} />
             <div className="flex-1">
               <p className="text-xs mb-0.5" style={{ color: 'var(--text-secondary)' }}>Set Aside ({setAsideRate}%)</p>
-              <p className="text-lg font-bold text-blue-500">{formatCurrency(suggestedSetAside)}</p>
+              <p className="text-lg font-bold text-blue-500">{fmt(suggestedSetAside)}</p>
               <p className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>(based on gross income)</p>
             </div>
           </div>
+          {/* Estimated payments are in the home currency, whatever the reporting currency */}
+          {nextTaxPayment && nextTaxPayment.target > nextTaxPayment.paid && (
+            <div className="flex items-center justify-between mt-3 pt-2 text-xs" style={{ borderTop: '1px solid var(--border)' }}>
+              <span style={{ color: nextTaxPayment.status === 'overdue' ? '#ef4444' : 'var(--text-secondary)' }}>
+                Installment {nextTaxPayment.number} {nextTaxPayment.status === 'overdue' ? 'overdue since' : 'due'} {fmtShortDate(nextTaxPayment.due)}
+              </span>
+              <span className="font-semibold" style={{ color: 'var(--text-primary)' }}>
+                {formatCurrency(nextTaxPayment.target - nextTaxPayment.paid)}
+              </span>
+            </div>
+          )}
         </Card>
         )}
 
@@ -642,7 +719,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                   value: d.revenue,
                   color: LOCATION_COLORS[d.type] ?? '#6b7280',
                 }))}
-                centerLabel={formatCurrency(totalTypeRevenue)}
+                centerLabel={fmt(totalTypeRevenue)}
                 centerSub="total"
               />
               {/* Legend */}
@@ -654,7 +731,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                       <span className="text-sm" style={{ color: 'var(--text-primary)' }}>{item.type}</span>
                     </div>
                     <div className="text-right">
-                      <span className="text-sm font-medium text-green-500">{formatCurrency(item.revenue)}</span>
+                      <span className="text-sm font-medium text-green-500">{fmt(item.revenue)}</span>
                       <span className="text-xs ml-1" style={{ color: 'var(--text-secondary)' }}>({item.count})</span>
                     </div>
                   </div>
@@ -666,7 +743,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
               {bookingTypeBreakdown.map(item => (
                 <div key={item.type} className="flex-1 text-center p-1.5 rounded-lg" style={{ backgroundColor: 'var(--bg-secondary)' }}>
                   <p className="text-xs font-bold" style={{ color: LOCATION_COLORS[item.type] ?? '#6b7280' }}>
-                    {formatCurrency(Math.round(item.revenue / item.count))}
+                    {fmt(Math.round(item.revenue / item.count))}
                   </p>
                   <p className="text-[9px]" style={{ color: 'var(--text-secondary)' }}>avg/{item.type.toLowerCase()}</p>
                 </div>
@@ -692,7 +769,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                   value: d.amount,
                   color: PAYMENT_COLORS[d.method] ?? '#6b7280',
                 }))}
-                centerLabel={formatCurrency(totalPaymentIncome)}
+                centerLabel={fmt(totalPaymentIncome)}
                 centerSub="income"
               />
               {/* Legend */}
@@ -704,7 +781,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                       <span className="text-sm" style={{ color: 'var(--text-primary)' }}>{item.method}</span>
                       <span className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>{item.pct}%</span>
                     </div>
-                    <span className="text-sm font-medium text-green-500">{formatCurrency(item.amount)}</span>
+                    <span className="text-sm font-medium text-green-500">{fmt(item.amount)}</span>
                   </div>
                 ))}
               </div>
@@ -726,7 +803,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                   value: d.amount,
                   color: EXPENSE_COLORS[i % EXPENSE_COLORS.length],
                 }))}
-                centerLabel={formatCurrency(totalExpenseAmount)}
+                centerLabel={fmt(totalExpenseAmount)}
                 centerSub="spent"
               />
               {/* Legend */}
@@ -738,7 +815,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                       <span className="text-sm capitalize" style={{ color: 'var(--text-primary)' }}>{item.category}</span>
                       <span className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>{item.pct}%</span>
                     </div>
-                    <span className="text-sm font-medium text-red-500">{formatCurrency(item.amount)}</span>
+                    <span className="text-sm font-medium text-red-500">{fmt(item.amount)}</span>
                   </div>
                 ))}
               </div>
@@ -747,6 +824,12 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
           )
         })()}
 
+        {/* Upcoming Bills */}
+        {isCardVisible('bills') && <UpcomingBillsCard />}
+
+        {/* Venue Costs to Record */}
+        {isCardVisible('venueCosts') && <VenueCostsCard />}
+
         {/* Outstanding Balances */}
         {isCardVisible('outstanding') && bookingsWithBalance.length > 0 && (
           <Card>
@@ -755,7 +838,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                 <AlertCircle size={16} className="text-orange-500" />
                 <p className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>Outstanding Balances</p>
               </div>
-              <span className="text-sm font-bold text-orange-500">{formatCurrency(totalOutstanding)}</span>
+              <span className="text-sm font-bold text-orange-500">{fmt(totalOutstanding)}</span>
             </div>
             <div className="space-y-2">
               {bookingsWithBalance.slice(0, 5).map(({ booking, owing, client }) => (
@@ -770,7 +853,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                       </span>
                       <StatusBadge text={booking.status} color={bookingStatusColors[booking.status]} />
                     </div>
-                    <span className="text-sm text-orange-500">{formatCurrency(owing)}</span>
+                    <span className="text-sm text-orange-500">{formatCurrency(owing, booking.currency)}</span>
                   </button>
               ))}
               {bookingsWithBalance.length > 5 && (
@@ -815,7 +898,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                     </p>
                   </div>
                   <p className={`text-sm font-medium ${t.type === 'income' ? 'text-green-500' : 'text-red-500'}`}>
-                    {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount)}
+                    {t.type === 'income' ? '+' : '-'}{formatCurrency(t.originalAmount, t.currency)}
                   </p>
                 </div>
               ))}
@@ -846,7 +929,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
             <div className="flex gap-4">
               <div className="flex-1">
                 <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>This Month</p>
-                <p className="text-xl font-bold" style={{ color: 'var(--text-primary)' }}>{formatCurrency(currentMonth.income)}</p>
+                <p className="text-xl font-bold" style={{ color: 'var(--text-primary)' }}>{fmt(currentMonth.income)}</p>
               </div>
               <div className="w-px" style={{ backgroundColor: 'var(--border)' }} />
               <div className="flex-1">
@@ -923,7 +1006,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                 <div key={m.label + m.month.getFullYear()} className="flex items-center justify-between py-1" style={{ borderBottom: '1px solid var(--border)' }}>
                   <span className="text-sm" style={{ color: 'var(--text-primary)' }}>{`${fmtShortMonth(m.month)} ${m.month.getFullYear()}`}</span>
                   <div className="text-right">
-                    <p className="text-sm font-medium text-green-500">{formatCurrency(m.income)}</p>
+                    <p className="text-sm font-medium text-green-500">{fmt(m.income)}</p>
                     <p className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>{m.bookings} bookings</p>
                   </div>
                 </div>
@@ -996,7 +1079,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
             <div className="flex items-end gap-2 h-32">
               {DAYS.map((day, i) => (
                 <div key={day} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
-                  <span className="text-[9px] font-medium" style={{ color: 'var(--text-secondary)' }}>{dayRevenue[i] > 0 ? formatCurrency(dayRevenue[i]) : ''}</span>
+                  <span className="text-[9px] font-medium" style={{ color: 'var(--text-secondary)' }}>{dayRevenue[i] > 0 ? fmt(dayRevenue[i]) : ''}</span>
                   <div className="w-full rounded-t transition-all" style={{
                     height: `${Math.max(2, (dayRevenue[i] / maxDayRev) * 100)}%`,
                     background: dayRevenue[i] > 0 ? 'linear-gradient(to top, rgba(168,85,247,0.4), rgba(168,85,247,0.8))' : 'var(--bg-secondary)',
@@ -1058,11 +1141,11 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
             <p className="text-sm font-semibold mb-3" style={{ color: 'var(--text-primary)' }}>Avg Revenue per Client</p>
             <div className="flex gap-3">
               <div className="flex-1 text-center p-3 rounded-lg" style={{ backgroundColor: 'var(--bg-secondary)' }}>
-                <p className="text-lg font-bold text-purple-500">{formatCurrency(retentionMetrics.avgRepeatRevenue)}</p>
+                <p className="text-lg font-bold text-purple-500">{fmt(retentionMetrics.avgRepeatRevenue)}</p>
                 <p className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>Repeat Clients</p>
               </div>
               <div className="flex-1 text-center p-3 rounded-lg" style={{ backgroundColor: 'var(--bg-secondary)' }}>
-                <p className="text-lg font-bold" style={{ color: 'var(--text-secondary)' }}>{formatCurrency(retentionMetrics.avgOneTimeRevenue)}</p>
+                <p className="text-lg font-bold" style={{ color: 'var(--text-secondary)' }}>{fmt(retentionMetrics.avgOneTimeRevenue)}</p>
                 <p className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>One-time Clients</p>
               </div>
             </div>
@@ -1092,7 +1175,7 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
                       <p className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>{item.client.alias}</p>
                       <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>{item.bookingCount} bookings</p>
                     </div>
-                    <span className="text-sm font-semibold text-green-500">{formatCurrency(item.revenue)}</span>
+                    <span className="text-sm font-semibold text-green-500">{fmt(item.revenue)}</span>
                   </div>
                 ))}
               </div>
@@ -1146,7 +1229,8 @@ export function FinancesPage({ onOpenBooking }: { onOpenBooking?: (bookingId: st
         transaction={editingTransaction}
       />
       <GoalEditor isOpen={showGoalEditor} onClose={() => setShowGoalEditor(false)} />
-      <TaxSettingsEditor isOpen={showTaxSettings} onClose={() => setShowTaxSettings(false)} />
+      <TaxYearModal isOpen={showTaxYear} onClose={() => setShowTaxYear(false)} />
+      <FxRatesEditor isOpen={showFxRates} onClose={() => setShowFxRates(false)} />
       <AllTransactionsModal isOpen={showAllTransactions} onClose={() => setShowAllTransactions(false)} />
       <ImportExportModal isOpen={showImportExport} onClose={() => setShowImportExport(false)} initialTab="transactions" />
       <CardSettingsModal
@@ -1410,7 +1494,7 @@ function GoalEditor({ isOpen, onClose }: { isOpen: boolean; onClose: () => void
       }
     >
       <div className="px-4 py-2" style={{ backgroundColor: 'var(--bg-secondary)' }}>
-        <FieldHint text="Set a target for any period. The matching goal appears when you switch tabs on the Finances page." />
+        <FieldHint text={`Set a target for any period, in ${getCurrency()}. The matching goal appears when you switch tabs on the Finances page.`} />
         <div className="space-y-3 mt-3">
           {fields.map(f => (
             <div key={f.label}>
@@ -1443,115 +1527,18 @@ function GoalEditor({ isOpen, onClose }: { isOpen: boolean; onClose: () => void
   )
 }
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// TAX SETTINGS
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-function TaxSettingsEditor({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
-  // Tax/savings rates — stored in localStorage intentionally: these are user
-  // preferences (rate settings), not transactional data.
-  const [storedTaxRate, setStoredTaxRate] = useLocalStorage('taxRate', 25)
-  const [storedSetAside, setStoredSetAside] = useLocalStorage('setAsideRate', 30)
-  const [taxRate, setTaxRate] = useState(storedTaxRate)
-  const [setAsideRate, setSetAsideRate] = useState(storedSetAside)
-
-  const [wasOpen, setWasOpen] = useState(false)
-  if (isOpen && !wasOpen) { setTaxRate(storedTaxRate); setSetAsideRate(storedSetAside) }
-  if (isOpen !== wasOpen) setWasOpen(isOpen)
-
-  function save() {
-    setStoredTaxRate(taxRate)
-    setStoredSetAside(setAsideRate)
-    onClose()
-  }
-
-  return (
-    <Modal
-      isOpen={isOpen}
-      onClose={onClose}
-      title="Tax Settings"
-      actions={
-        <button onClick={save} className="p-2 text-purple-500" aria-label="Save tax settings">
-          <Check size={20} />
-        </button>
-      }
-    >
-      <div className="px-4 py-2" style={{ backgroundColor: 'var(--bg-secondary)' }}>
-        <SectionLabel label="Tax Rate" />
-        <div className="mb-3">
-          <div className="flex items-center justify-between mb-2">
-            <span className="text-sm" style={{ color: 'var(--text-primary)' }}>Estimated Tax Rate</span>
-            <div className="flex items-center gap-1">
-              <input
-                type="number"
-                min={0}
-                max={100}
-                value={taxRate}
-                onChange={e => {
-                  const v = parseInt(e.target.value) || 0
-                  setTaxRate(Math.max(0, Math.min(100, v)))
-                }}
-                className="w-14 text-right text-sm font-medium px-1.5 py-0.5 rounded outline-none"
-                style={{ ...fieldInputStyle, color: 'var(--text-primary)' }}
-                aria-label="Tax rate percentage"
-              />
-              <span className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>%</span>
-            </div>
-          </div>
-          <input type="range" min={0} max={60} step={1} value={Math.min(60, taxRate)}
-            onChange={e => setTaxRate(parseInt(e.target.value))}
-            aria-label="Estimated tax rate slider"
-            className="w-full accent-purple-500" />
-          <FieldHint text="Your estimated tax bracket. Used to calculate how much tax you might owe. Use the text input for values above 60%." />
-        </div>
-
-        <SectionLabel label="Savings" />
-        <div className="mb-3">
-          <div className="flex items-center justify-between mb-2">
-            <span className="text-sm" style={{ color: 'var(--text-primary)' }}>Set Aside Percentage</span>
-            <div className="flex items-center gap-1">
-              <input
-                type="number"
-                min={0}
-                max={100}
-                value={setAsideRate}
-                onChange={e => {
-                  const v = parseInt(e.target.value) || 0
-                  setSetAsideRate(Math.max(0, Math.min(100, v)))
-                }}
-                className="w-14 text-right text-sm font-medium px-1.5 py-0.5 rounded outline-none"
-                style={{ ...fieldInputStyle, color: 'var(--text-primary)' }}
-                aria-label="Set aside percentage"
-              />
-              <span className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>%</span>
-            </div>
-          </div>
-          <input type="range" min={0} max={60} step={1} value={Math.min(60, setAsideRate)}
-            onChange={e => setSetAsideRate(parseInt(e.target.value))}
-            aria-label="Set aside percentage slider"
-            className="w-full accent-purple-500" />
-          <FieldHint text="Set aside slightly more than your tax rate to cover self-employment tax. Use the text input for values above 60%." />
-        </div>
-
-        <div className="py-4">
-          <button onClick={save}
-            className="w-full py-3 rounded-xl font-semibold text-sm bg-purple-600 text-white active:bg-purple-700">
-            Save Settings
-          </button>
-        </div>
-        <div className="h-8" />
-      </div>
-    </Modal>
-  )
-}
-
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // ALL TRANSACTIONS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 function AllTransactionsModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
   const allTransactions = useLiveQuery(() => db.transactions.orderBy('date').reverse().toArray()) ?? []
+  const fx = useReportingFx()
+  // Keys only — receipt blobs stay on disk until one is opened
+  const receiptTxnIds = new Set(useLiveQuery(() => db.receipts.orderBy('transactionId').uniqueKeys()) as string[] | undefined)
   const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all')
+  const [missingReceipts, setMissingReceipts] = useState(false)
+  const [viewingReceiptsFor, setViewingReceiptsFor] = useState<string | null>(null)
   const [search, setSearch] = useState('')
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [confirmDeleteTxn, setConfirmDeleteTxn] = useState<Transaction | null>(null)
@@ -1561,20 +1548,21 @@ function AllTransactionsModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
   const [renderLimit, setRenderLimit] = useState(30)
 
   // Reset render limit when filters change
-  const searchKey = `${filterType}:${search}`
+  const searchKey = `${filterType}:${missingReceipts}:${search}`
   const [prevSearchKey, setPrevSearchKey] = useState(searchKey)
   if (searchKey !== prevSearchKey) { setRenderLimit(30); setPrevSearchKey(searchKey) }
 
   // Extended search: match category, notes, amount (formatted), date, payment method
   const filtered = allTransactions
     .filter(t => filterType === 'all' || t.type === filterType)
+    .filter(t => !missingReceipts || needsReceipt(t, receiptTxnIds))
     .filter(t => {
       if (!search) return true
       const s = search.toLowerCase()
       return (
         t.category.toLowerCase().includes(s) ||
         (t.notes ?? '').toLowerCase().includes(s) ||
-        formatCurrency(t.amount).toLowerCase().includes(s) ||
+        formatCurrency(t.amount, t.currency).toLowerCase().includes(s) ||
         t.amount.toString().includes(s) ||
         fmtMediumDate(new Date(t.date)).toLowerCase().includes(s) ||
         (t.paymentMethod ?? '').toLowerCase().includes(s)
@@ -1591,6 +1579,7 @@ function AllTransactionsModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
       // Snapshot for undo
       const txnSnap = await db.transactions.get(t.id)
       const paySnap = txnSnap?.paymentId ? await db.payments.get(txnSnap.paymentId) : undefined
+      const receiptSnap = await db.receipts.where('transactionId').equals(t.id).toArray()
 
       if (txnSnap?.paymentId) {
         await removeBookingPayment(txnSnap.paymentId)
@@ -1599,9 +1588,11 @@ function AllTransactionsModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
       } else {
         await db.transactions.delete(t.id)
       }
+      if (receiptSnap.length > 0) await db.receipts.bulkDelete(receiptSnap.map(r => r.id))
 
       showUndoToast('Transaction deleted', async () => {
         if (txnSnap) await db.transactions.put(txnSnap)
+        if (receiptSnap.length > 0) await db.receipts.bulkPut(receiptSnap)
         if (paySnap) {
           await db.payments.put(paySnap)
           // Re-sync booking payment booleans
@@ -1646,6 +1637,18 @@ function AllTransactionsModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
               </button>
             ))}
           </div>
+          {filterType !== 'income' && (
+            <button
+              onClick={() => setMissingReceipts(m => !m)}
+              aria-pressed={missingReceipts}
+              className={`flex items-center gap-1.5 px-3 py-1.5 mb-3 rounded-full text-xs font-medium transition-colors ${
+                missingReceipts ? 'bg-purple-600 text-white' : ''
+              }`}
+              style={missingReceipts ? {} : { color: 'var(--text-secondary)', backgroundColor: 'var(--bg-primary)' }}
+            >
+              <Paperclip size={12} /> Expenses missing a receipt
+            </button>
+          )}
           <div
             className="flex items-center gap-2 px-3 py-2 rounded-lg"
             style={{ backgroundColor: 'var(--bg-primary)' }}
@@ -1700,8 +1703,18 @@ function AllTransactionsModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
                   </p>
                 </button>
                 <p className={`text-sm font-semibold ${t.type === 'income' ? 'text-green-500' : 'text-red-500'}`}>
-                  {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount)}
+                  {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount, t.currency)}
                 </p>
+                {receiptTxnIds.has(t.id) && (
+                  <button
+                    onClick={() => setViewingReceiptsFor(t.id)}
+                    className="p-1 opacity-60 active:opacity-100"
+                    style={{ color: 'var(--text-secondary)' }}
+                    aria-label={`View receipts for ${t.category} transaction`}
+                  >
+                    <Paperclip size={14} />
+                  </button>
+                )}
                 <button
                   onClick={() => { setEditingTxn(t); setShowEditModal(true) }}
                   className="p-1 opacity-40 active:opacity-100"
@@ -1740,7 +1753,11 @@ function AllTransactionsModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
               <span style={{ color: 'var(--text-secondary)' }}>{filtered.length} transactions</span>
               <span className="font-medium" style={{ color: 'var(--text-primary)' }}>
                 Net: {formatCurrency(
-                  filtered.reduce((s, t) => s + (t.type === 'income' ? t.amount : -t.amount), 0)
+                  filtered.reduce((s, t) => {
+                    const amount = fx?.convert(t.amount, t.currency, new Date(t.date)) ?? 0
+                    return s + (t.type === 'income' ? amount : -amount)
+                  }, 0),
+                  fx?.to,
                 )}
               </span>
             </div>
@@ -1753,7 +1770,7 @@ function AllTransactionsModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
     <ConfirmDialog
       isOpen={!!confirmDeleteTxn}
       title="Delete Transaction"
-      message={confirmDeleteTxn ? `Delete this ${confirmDeleteTxn.type} of ${formatCurrency(confirmDeleteTxn.amount)}?` : ''}
+      message={confirmDeleteTxn ? `Delete this ${confirmDeleteTxn.type} of ${formatCurrency(confirmDeleteTxn.amount, confirmDeleteTxn.currency)}?` : ''}
       confirmLabel="Delete"
       onConfirm={() => { if (confirmDeleteTxn) handleDelete(confirmDeleteTxn); setConfirmDeleteTxn(null) }}
       onCancel={() => setConfirmDeleteTxn(null)}
@@ -1764,6 +1781,9 @@ function AllTransactionsModal({ isOpen, onClose }: { isOpen: boolean; onClose: (
       onClose={() => { setShowEditModal(false); setEditingTxn(undefined) }}
       transaction={editingTxn}
     />
+    {viewingReceiptsFor && (
+      <ReceiptViewer transactionId={viewingReceiptsFor} onClose={() => setViewingReceiptsFor(null)} />
+    )}
     </>
   )
 }
@@ -0,0 +1,134 @@
+import { useRef, useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { FileUp, Plus, Trash2 } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { db, getCurrency } from '../../db'
+import { Modal } from '../../components/Modal'
+import { showToast } from '../../components/Toast'
+import { SectionLabel, FieldHint, FieldSelect, FieldDate, fieldInputStyle } from '../../components/FormFields'
+import { useLocalStorage } from '../../hooks/useSettings'
+import { fmtMediumDate } from '../../utils/dateFormat'
+import { REPORTING_CURRENCY_KEY, currencyLabel, currencyOptions, parseFxCsv, saveFxRates } from '../../utils/fx'
+
+interface FxRatesEditorProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+/** Reporting currency and the exchange rate table Finances converts with. */
+export function FxRatesEditor({ isOpen, onClose }: FxRatesEditorProps) {
+  const home = getCurrency()
+  const [reportingCurrency, setReportingCurrency] = useLocalStorage(REPORTING_CURRENCY_KEY, home)
+  const rates = useLiveQuery(() => db.fxRates.orderBy('date').reverse().toArray()) ?? []
+  const usedCurrencies = useLiveQuery(async () => {
+    const codes = new Set<string>()
+    await db.transactions.each(t => { if (t.currency) codes.add(t.currency) })
+    return codes
+  }) ?? new Set<string>()
+  const fileRef = useRef<HTMLInputElement>(null)
+
+  // Default the new rate to the first foreign currency actually in use
+  const foreign = [...usedCurrencies].find(c => c !== home) ?? (home === 'EUR' ? 'USD' : 'EUR')
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [base, setBase] = useState<string | null>(null)
+  const [quote, setQuote] = useState<string | null>(null)
+  const [rateText, setRateText] = useState('')
+  const rate = parseFloat(rateText)
+  const baseCode = base ?? foreign
+  const quoteCode = quote ?? home
+  const canAdd = rate > 0 && baseCode !== quoteCode && date !== ''
+
+  async function handleAdd() {
+    if (!canAdd) return
+    await saveFxRates([{ base: baseCode, quote: quoteCode, rate, date: parseISO(date) }])
+    setRateText('')
+    showToast(`${baseCode} → ${quoteCode} rate saved`)
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const { rates: parsed, skipped } = parseFxCsv(await file.text())
+      if (parsed.length === 0) {
+        showToast('No rates found — expected date,base,quote,rate per line', 'error')
+        return
+      }
+      const saved = await saveFxRates(parsed)
+      showToast(`${saved} rate${saved === 1 ? '' : 's'} imported${skipped ? ` · ${skipped} line${skipped === 1 ? '' : 's'} skipped` : ''}`)
+    } catch (err) {
+      showToast(`Import failed: ${(err as Error).message}`, 'error')
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Currencies">
+      <div className="px-4 py-2" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+        <SectionLabel label="Reporting Currency" />
+        <FieldSelect label="Show totals in" value={reportingCurrency} options={currencyOptions(reportingCurrency)}
+          onChange={setReportingCurrency} displayFn={currencyLabel}
+          hint={`Totals, goals and tax estimates are converted to this. Each booking and transaction keeps its own amount. Home currency: ${home}.`} />
+
+        <SectionLabel label="Add Rate" />
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <FieldSelect label="1 unit of" value={baseCode} options={currencyOptions(baseCode)} onChange={setBase} />
+          </div>
+          <div className="flex-1">
+            <FieldSelect label="In" value={quoteCode} options={currencyOptions(quoteCode)} onChange={setQuote} />
+          </div>
+        </div>
+        <div className="flex gap-2 items-end">
+          <div className="flex-1">
+            <label htmlFor="fx-rate" className="text-xs font-semibold block mb-1" style={{ color: 'var(--text-primary)' }}>Rate</label>
+            <input id="fx-rate" type="text" inputMode="decimal" value={rateText}
+              onChange={e => setRateText(e.target.value.replace(/[^0-9.]/g, ''))}
+              placeholder="1.08" className="w-full px-3 py-2.5 rounded-lg text-sm outline-none mb-3" style={fieldInputStyle} />
+          </div>
+          <div className="flex-1">
+            <FieldDate label="From" value={date} onChange={setDate} />
+          </div>
+        </div>
+        <button type="button" onClick={handleAdd} disabled={!canAdd}
+          className="w-full py-2.5 rounded-xl font-semibold text-sm bg-purple-600 text-white active:bg-purple-700 disabled:opacity-40 flex items-center justify-center gap-1.5">
+          <Plus size={16} /> Add Rate
+        </button>
+
+        <input ref={fileRef} type="file" accept=".csv,text/csv,text/plain" onChange={handleFile} className="hidden" />
+        <button type="button" onClick={() => fileRef.current?.click()}
+          className="flex items-center gap-3 w-full py-2.5 mt-2 active:opacity-70">
+          <FileUp size={16} style={{ color: '#a855f7' }} />
+          <span className="text-sm font-medium text-purple-500">Import Rates (CSV)</span>
+        </button>
+        <FieldHint text="One rate per line: date,base,quote,rate — e.g. 2026-03-01,EUR,USD,1.08. A rate applies from its date until the next one for the same pair." />
+
+        <SectionLabel label="Rates" />
+        {rates.length === 0 ? (
+          <p className="text-sm py-3" style={{ color: 'var(--text-secondary)' }}>
+            No rates yet. Amounts in other currencies are left out of totals until there's a rate for them.
+          </p>
+        ) : (
+          <div className="rounded-lg mb-2" style={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border)' }}>
+            {rates.map((r, i) => (
+              <div key={r.id} className="flex items-center gap-3 px-3 py-2"
+                style={{ borderTop: i > 0 ? '1px solid var(--border)' : undefined }}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm" style={{ color: 'var(--text-primary)' }}>
+                    1 {r.base} = {r.rate.toLocaleString(undefined, { maximumFractionDigits: 6 })} {r.quote}
+                  </p>
+                  <p className="text-[11px]" style={{ color: 'var(--text-secondary)' }}>From {fmtMediumDate(new Date(r.date))}</p>
+                </div>
+                <button type="button" onClick={() => db.fxRates.delete(r.id)} className="p-2"
+                  style={{ color: 'var(--text-secondary)' }} aria-label={`Delete ${r.base} to ${r.quote} rate`}>
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="h-8" />
+      </div>
+    </Modal>
+  )
+}
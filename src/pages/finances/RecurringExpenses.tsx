@@ -0,0 +1,340 @@
+import { useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Check, ChevronRight, Plus, Repeat, Trash2 } from 'lucide-react'
+import { format, parseISO, subDays } from 'date-fns'
+import { db, formatCurrency, getCurrency, newId } from '../../db'
+import { Modal } from '../../components/Modal'
+import { Card } from '../../components/Card'
+import {
+  SectionLabel, FieldCurrency, FieldDate, FieldSelect, FieldTextArea, FieldTextInput, FieldToggle,
+} from '../../components/FormFields'
+import { showToast, showUndoToast } from '../../components/Toast'
+import { fmtMediumDate, fmtShortDate } from '../../utils/dateFormat'
+import { currencyLabel, currencyOptions } from '../../utils/fx'
+import { EXPENSE_CATEGORIES } from '../../utils/tax'
+import {
+  BILL_FREQUENCIES, FREQUENCY_LABELS, UPCOMING_BILLS_DAYS, setBillOverride, upcomingBills,
+} from '../../utils/recurringExpenses'
+import type { BillOccurrence } from '../../utils/recurringExpenses'
+import type { BillFrequency, PaymentMethod, RecurringExpense, TransactionCategory } from '../../types'
+
+const paymentMethods: PaymentMethod[] = ['Cash', 'e-Transfer', 'Crypto', 'Venmo', 'Cash App', 'Zelle', 'Gift Card', 'Other']
+const titleCase = (s: string) => s.charAt(0).toUpperCase() + s.slice(1)
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// UPCOMING BILLS CARD
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Bills due in the next 30 days; tap one to skip or adjust just that occurrence. */
+export function UpcomingBillsCard() {
+  const expenses = useLiveQuery(() => db.recurringExpenses.toArray())
+  const [showManage, setShowManage] = useState(false)
+  const [occurrence, setOccurrence] = useState<BillOccurrence | null>(null)
+
+  if (!expenses) return null
+  const upcoming = upcomingBills(expenses)
+
+  return (
+    <>
+    <Card>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Repeat size={16} className="text-purple-500" />
+          <p className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>Upcoming Bills</p>
+        </div>
+        <button onClick={() => setShowManage(true)} className="text-xs text-purple-500 font-medium">
+          Manage
+        </button>
+      </div>
+      {upcoming.length === 0 ? (
+        <button onClick={() => setShowManage(true)} className="w-full text-sm text-center py-3 active:opacity-70"
+          style={{ color: 'var(--text-secondary)' }}>
+          {expenses.length === 0
+            ? 'Add rent, phone and other regular bills — they\'re recorded as expenses on their due date'
+            : `Nothing due in the next ${UPCOMING_BILLS_DAYS} days`}
+        </button>
+      ) : (
+        <div className="space-y-2">
+          {upcoming.slice(0, 5).map(o => (
+            <button key={`${o.expense.id}-${o.key}`} onClick={() => setOccurrence(o)}
+              className="flex items-center justify-between w-full text-left active:opacity-70">
+              <div className="min-w-0">
+                <p className={`text-sm truncate ${o.skipped ? 'line-through opacity-50' : ''}`} style={{ color: 'var(--text-primary)' }}>
+                  {o.expense.name}
+                </p>
+                <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                  {fmtShortDate(o.date)}{o.skipped ? ' · skipped' : o.adjusted ? ' · adjusted' : ''}
+                </p>
+              </div>
+              <span className={`text-sm font-medium text-red-500 ${o.skipped ? 'line-through opacity-50' : ''}`}>
+                {formatCurrency(o.amount, o.expense.currency)}
+              </span>
+            </button>
+          ))}
+          {upcoming.length > 5 && (
+            <button onClick={() => setShowManage(true)} className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+              + {upcoming.length - 5} more
+            </button>
+          )}
+        </div>
+      )}
+    </Card>
+
+      <RecurringExpensesModal isOpen={showManage} onClose={() => setShowManage(false)} />
+      <OccurrenceEditor occurrence={occurrence} onClose={() => setOccurrence(null)} />
+    </>
+  )
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SINGLE OCCURRENCE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function OccurrenceEditor({ occurrence, onClose }: { occurrence: BillOccurrence | null; onClose: () => void }) {
+  const [amount, setAmount] = useState(0)
+  const [openKey, setOpenKey] = useState<string | null>(null)
+  const key = occurrence ? `${occurrence.expense.id}-${occurrence.key}` : null
+  if (key !== openKey) {
+    if (occurrence) setAmount(occurrence.amount)
+    setOpenKey(key)
+  }
+
+  async function apply(change: { skip?: boolean; amount?: number } | null, message: string) {
+    if (!occurrence) return
+    try {
+      await setBillOverride(occurrence.expense.id, occurrence.key, change)
+      showToast(message)
+      onClose()
+    } catch (err) {
+      showToast((err as Error).message, 'error')
+    }
+  }
+
+  const o = occurrence
+  return (
+    <Modal isOpen={!!o} onClose={onClose} title={o ? o.expense.name : ''}>
+      {o && (
+        <div className="px-4 py-2" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+          <p className="text-sm py-2" style={{ color: 'var(--text-secondary)' }}>
+            Due {fmtMediumDate(o.date)} · {FREQUENCY_LABELS[o.expense.frequency].toLowerCase()}, usually {formatCurrency(o.expense.amount, o.expense.currency)}.
+            Changes here apply to this date only.
+          </p>
+          {o.skipped ? (
+            <div className="py-2">
+              <button onClick={() => apply(null, 'Bill restored')}
+                className="w-full py-3 rounded-xl font-semibold text-sm bg-purple-600 text-white active:bg-purple-700">
+                Don't Skip
+              </button>
+            </div>
+          ) : (
+            <>
+              <FieldCurrency label="Amount this time" value={amount} onChange={setAmount} currency={o.expense.currency} />
+              <div className="flex gap-2 py-2">
+                <button onClick={() => apply({ skip: true }, 'Bill skipped')}
+                  className="flex-1 py-3 rounded-xl font-semibold text-sm active:opacity-70"
+                  style={{ backgroundColor: 'var(--bg-card)', border: '1px solid var(--border)', color: 'var(--text-primary)' }}>
+                  Skip This One
+                </button>
+                <button
+                  onClick={() => apply(amount === o.expense.amount ? null : { amount }, 'Bill adjusted')}
+                  disabled={amount <= 0 || amount === o.amount}
+                  className="flex-1 py-3 rounded-xl font-semibold text-sm bg-purple-600 text-white active:bg-purple-700 disabled:opacity-40">
+                  Save Amount
+                </button>
+              </div>
+            </>
+          )}
+          <div className="h-8" />
+        </div>
+      )}
+    </Modal>
+  )
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MANAGE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export function RecurringExpensesModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const expenses = useLiveQuery(() => db.recurringExpenses.orderBy('startDate').toArray()) ?? []
+  const [editing, setEditing] = useState<RecurringExpense | undefined>(undefined)
+  const [showEditor, setShowEditor] = useState(false)
+  const next = new Map(upcomingBills(expenses, 400).filter(o => !o.skipped).reverse().map(o => [o.expense.id, o]))
+
+  return (
+    <>
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Recurring Expenses"
+      actions={
+        <button onClick={() => { setEditing(undefined); setShowEditor(true) }} className="p-2 text-purple-500"
+          aria-label="Add recurring expense">
+          <Plus size={20} />
+        </button>
+      }
+    >
+      <div className="px-4 py-3 space-y-1" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+        {expenses.length === 0 ? (
+          <p className="text-sm text-center py-8" style={{ color: 'var(--text-secondary)' }}>
+            No recurring expenses yet
+          </p>
+        ) : expenses.map(e => {
+          const due = next.get(e.id)
+          return (
+            <button key={e.id} onClick={() => { setEditing(e); setShowEditor(true) }}
+              className="flex items-center gap-3 w-full p-2.5 rounded-lg text-left active:opacity-70"
+              style={{ backgroundColor: 'var(--bg-primary)', opacity: e.isActive ? 1 : 0.5 }}>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>{e.name}</p>
+                <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                  {FREQUENCY_LABELS[e.frequency]} · {titleCase(e.category)}
+                  {!e.isActive ? ' · paused' : due ? ` · next ${fmtShortDate(due.date)}` : ' · ended'}
+                </p>
+              </div>
+              <span className="text-sm font-semibold text-red-500">{formatCurrency(e.amount, e.currency)}</span>
+              <ChevronRight size={14} style={{ color: 'var(--text-secondary)' }} />
+            </button>
+          )
+        })}
+        <p className="text-[11px] pt-2 pb-6" style={{ color: 'var(--text-secondary)' }}>
+          Each bill is recorded as an expense on its due date. Skip or adjust a single bill from Upcoming Bills.
+        </p>
+      </div>
+    </Modal>
+
+      <RecurringExpenseEditor isOpen={showEditor} onClose={() => setShowEditor(false)} expense={editing} />
+    </>
+  )
+}
+
+function RecurringExpenseEditor({ isOpen, onClose, expense }: {
+  isOpen: boolean
+  onClose: () => void
+  /** When provided, the form pre-fills for editing instead of creating */
+  expense?: RecurringExpense
+}) {
+  const [name, setName] = useState('')
+  const [amount, setAmount] = useState(0)
+  const [currency, setCurrency] = useState(getCurrency())
+  const [category, setCategory] = useState<TransactionCategory>('rent')
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('e-Transfer')
+  const [frequency, setFrequency] = useState<BillFrequency>('monthly')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [isActive, setIsActive] = useState(true)
+  const [notes, setNotes] = useState('')
+
+  const [wasOpen, setWasOpen] = useState(false)
+  if (isOpen && !wasOpen) {
+    setName(expense?.name ?? '')
+    setAmount(expense?.amount ?? 0)
+    setCurrency(expense?.currency ?? getCurrency())
+    setCategory(expense?.category ?? 'rent')
+    setPaymentMethod(expense?.paymentMethod ?? 'e-Transfer')
+    setFrequency(expense?.frequency ?? 'monthly')
+    setStartDate(format(expense ? new Date(expense.startDate) : new Date(), 'yyyy-MM-dd'))
+    setEndDate(expense?.endDate ? format(new Date(expense.endDate), 'yyyy-MM-dd') : '')
+    setIsActive(expense?.isActive ?? true)
+    setNotes(expense?.notes ?? '')
+  }
+  if (isOpen !== wasOpen) setWasOpen(isOpen)
+
+  const isValid = name.trim() !== '' && amount > 0 && !!startDate && (!endDate || endDate >= startDate)
+  const postsPast = !expense && startDate && startDate < format(new Date(), 'yyyy-MM-dd')
+
+  async function save() {
+    if (!isValid) return
+    const fields = {
+      name: name.trim(),
+      amount,
+      currency,
+      category,
+      paymentMethod,
+      frequency,
+      startDate: parseISO(startDate),
+      endDate: endDate ? parseISO(endDate) : undefined,
+      isActive,
+      notes: notes.trim() || undefined,
+    }
+    try {
+      if (expense) {
+        // Resuming doesn't back-post the bills that fell due while paused
+        const resumed = !expense.isActive && isActive
+        const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd')
+        await db.recurringExpenses.update(expense.id, {
+          ...fields,
+          ...(resumed && (expense.postedThrough ?? '') < yesterday ? { postedThrough: yesterday } : {}),
+          updatedAt: new Date(),
+        })
+        showToast('Recurring expense updated')
+      } else {
+        await db.recurringExpenses.add({ id: newId(), ...fields, createdAt: new Date() })
+        showToast('Recurring expense added')
+      }
+      onClose()
+    } catch (err) {
+      showToast(`Save failed: ${(err as Error).message}`, 'error')
+    }
+  }
+
+  async function remove() {
+    if (!expense) return
+    await db.recurringExpenses.delete(expense.id)
+    showUndoToast('Recurring expense deleted', async () => { await db.recurringExpenses.put(expense) })
+    onClose()
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={expense ? 'Edit Recurring Expense' : 'New Recurring Expense'}
+      actions={
+        <button onClick={save} disabled={!isValid} className={`p-2 ${isValid ? 'text-purple-500' : 'opacity-30'}`}
+          aria-label="Save recurring expense">
+          <Check size={20} />
+        </button>
+      }
+    >
+      <div className="px-4 py-2" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+        <SectionLabel label="Details" />
+        <FieldTextInput label="Name" value={name} onChange={setName} placeholder="e.g. Rent, Phone plan" required />
+        <FieldCurrency label="Amount" value={amount} onChange={setAmount} currency={currency} />
+        <FieldSelect label="Currency" value={currency} options={currencyOptions(currency)} onChange={setCurrency}
+          displayFn={currencyLabel} />
+        <FieldSelect label="Category" value={category} options={EXPENSE_CATEGORIES} onChange={setCategory} displayFn={titleCase} />
+        <FieldSelect label="Payment Method" value={paymentMethod} options={paymentMethods} onChange={setPaymentMethod} />
+
+        <SectionLabel label="Schedule" />
+        <FieldSelect label="Repeats" value={frequency} options={BILL_FREQUENCIES} onChange={setFrequency}
+          displayFn={f => FREQUENCY_LABELS[f]} />
+        <FieldDate label="First Due" value={startDate} onChange={setStartDate}
+          hint={postsPast ? 'Bills due between this date and today are recorded right away' : undefined} />
+        <FieldDate label="Ends" value={endDate} onChange={setEndDate}
+          hint={endDate && endDate < startDate ? 'Must be after the first due date' : 'Optional — leave empty to repeat indefinitely'} />
+        {expense && (
+          <FieldToggle label="Active" value={isActive} onChange={setIsActive}
+            hint="Bills due while paused aren't recorded" />
+        )}
+
+        <SectionLabel label="Notes" optional />
+        <FieldTextArea label="Notes" value={notes} onChange={setNotes} placeholder="Optional notes..." />
+
+        <div className="py-4 space-y-2">
+          <button onClick={save} disabled={!isValid}
+            className="w-full py-3 rounded-xl font-semibold text-sm bg-purple-600 text-white active:bg-purple-700 disabled:opacity-40">
+            {expense ? 'Save Changes' : 'Add Recurring Expense'}
+          </button>
+          {expense && (
+            <button onClick={remove}
+              className="w-full flex items-center justify-center gap-1.5 py-3 rounded-xl font-semibold text-sm text-red-500 active:opacity-70">
+              <Trash2 size={15} /> Delete
+            </button>
+          )}
+        </div>
+        <div className="h-8" />
+      </div>
+    </Modal>
+  )
+}
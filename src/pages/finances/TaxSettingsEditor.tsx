@@ -0,0 +1,214 @@
+import { useState } from 'react'
+import { Check, Plus, X } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { getCurrency } from '../../db'
+import { Modal } from '../../components/Modal'
+import { SectionLabel, FieldHint, FieldSelect, FieldDate, fieldInputStyle } from '../../components/FormFields'
+import { useLocalStorage } from '../../hooks/useSettings'
+import { useTaxProfile } from '../../hooks/useTaxYear'
+import {
+  CATEGORY_LABELS, DEDUCTION_LINES, EXPENSE_CATEGORIES, TAX_PROFILE_KEY, TAX_RATE_KEY,
+  installmentDueDate, installmentFromDate, taxYearOf,
+} from '../../utils/tax'
+import type { DeductionLine, TaxBracket, TaxMethod, TaxProfile } from '../../utils/tax'
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]
+
+const NOT_DEDUCTIBLE = 'Not deductible'
+type DeductionOption = DeductionLine | typeof NOT_DEDUCTIBLE
+const DEDUCTION_OPTIONS: DeductionOption[] = [NOT_DEDUCTIBLE, ...DEDUCTION_LINES]
+
+const METHOD_LABELS: Record<TaxMethod, string> = {
+  flat: 'Flat rate',
+  brackets: 'Progressive brackets',
+}
+
+function PercentInput({ value, onChange, label }: { value: number; onChange: (v: number) => void; label: string }) {
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="number"
+        min={0}
+        max={100}
+        value={value}
+        onChange={e => {
+          const v = parseFloat(e.target.value) || 0
+          onChange(Math.max(0, Math.min(100, v)))
+        }}
+        className="w-14 text-right text-sm font-medium px-1.5 py-0.5 rounded outline-none"
+        style={{ ...fieldInputStyle, color: 'var(--text-primary)' }}
+        aria-label={label}
+      />
+      <span className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>%</span>
+    </div>
+  )
+}
+
+export function TaxSettingsEditor({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  // Tax/savings rates — stored in localStorage intentionally: these are user
+  // preferences (rate settings), not transactional data.
+  const [storedTaxRate, setStoredTaxRate] = useLocalStorage(TAX_RATE_KEY, 25)
+  const [storedSetAside, setStoredSetAside] = useLocalStorage('setAsideRate', 30)
+  const [, setStoredProfile] = useLocalStorage<Partial<TaxProfile>>(TAX_PROFILE_KEY, {})
+  const storedProfile = useTaxProfile()
+  const [taxRate, setTaxRate] = useState(storedTaxRate)
+  const [setAsideRate, setSetAsideRate] = useState(storedSetAside)
+  const [profile, setProfile] = useState(storedProfile)
+
+  const [wasOpen, setWasOpen] = useState(false)
+  if (isOpen && !wasOpen) { setTaxRate(storedTaxRate); setSetAsideRate(storedSetAside); setProfile(storedProfile) }
+  if (isOpen !== wasOpen) setWasOpen(isOpen)
+
+  const update = (patch: Partial<TaxProfile>) => setProfile(p => ({ ...p, ...patch }))
+  // Due dates are edited as dates in the current tax year and stored relative to its start
+  const currentYear = taxYearOf(new Date(), profile)
+  const dueDates = profile.installments.map(inst => format(installmentDueDate(currentYear, inst, profile), 'yyyy-MM-dd'))
+
+  function setBracket(index: number, patch: Partial<TaxBracket>) {
+    update({ brackets: profile.brackets.map((b, i) => i === index ? { ...b, ...patch } : b) })
+  }
+
+  function setDueDate(index: number, value: string) {
+    if (!value) return
+    const inst = installmentFromDate(currentYear, parseISO(value), profile)
+    update({ installments: profile.installments.map((d, i) => i === index ? inst : d) })
+  }
+
+  function save() {
+    setStoredTaxRate(taxRate)
+    setStoredSetAside(setAsideRate)
+    setStoredProfile({
+      ...profile,
+      brackets: [...profile.brackets].sort((a, b) => a.from - b.from),
+      // Installment numbers on payments follow this order
+      installments: [...profile.installments].sort((a, b) => a.monthsAfterStart - b.monthsAfterStart || a.day - b.day),
+    })
+    onClose()
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Tax Settings"
+      actions={
+        <button onClick={save} className="p-2 text-purple-500" aria-label="Save tax settings">
+          <Check size={20} />
+        </button>
+      }
+    >
+      <div className="px-4 py-2" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+        <SectionLabel label="Tax Year" />
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <FieldSelect label="Starts in" value={MONTHS[profile.yearStartMonth]} options={MONTHS}
+              onChange={m => update({ yearStartMonth: MONTHS.indexOf(m) })} />
+          </div>
+          <div className="w-24">
+            <label htmlFor="tax-year-day" className="text-xs font-semibold block mb-1" style={{ color: 'var(--text-primary)' }}>Day</label>
+            <input id="tax-year-day" type="number" min={1} max={31} value={profile.yearStartDay}
+              onChange={e => update({ yearStartDay: Math.max(1, Math.min(31, parseInt(e.target.value) || 1)) })}
+              className="w-full px-3 py-2.5 rounded-lg text-sm outline-none mb-3" style={fieldInputStyle} />
+          </div>
+        </div>
+        <FieldHint text="January 1 for a calendar tax year; e.g. April 6 in the UK, July 1 in Australia." />
+
+        <SectionLabel label="Tax Rate" />
+        <FieldSelect label="Method" value={profile.method} options={['flat', 'brackets'] as TaxMethod[]}
+          onChange={method => update({ method })} displayFn={m => METHOD_LABELS[m]} />
+        {profile.method === 'flat' ? (
+          <div className="mb-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm" style={{ color: 'var(--text-primary)' }}>Estimated Tax Rate</span>
+              <PercentInput value={taxRate} onChange={setTaxRate} label="Tax rate percentage" />
+            </div>
+            <input type="range" min={0} max={60} step={1} value={Math.min(60, taxRate)}
+              onChange={e => setTaxRate(parseInt(e.target.value))}
+              aria-label="Estimated tax rate slider"
+              className="w-full accent-purple-500" />
+            <FieldHint text="Your estimated tax bracket. Used to calculate how much tax you might owe. Use the text input for values above 60%." />
+          </div>
+        ) : (
+          <div className="mb-3">
+            {profile.brackets.map((b, i) => (
+              <div key={i} className="flex items-center gap-2 mb-2">
+                <span className="text-sm w-12 shrink-0" style={{ color: 'var(--text-secondary)' }}>{i === 0 ? 'From' : 'Above'}</span>
+                <input type="number" min={0} value={b.from} disabled={i === 0}
+                  onChange={e => setBracket(i, { from: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="flex-1 min-w-0 px-2 py-1.5 rounded text-sm outline-none disabled:opacity-50"
+                  style={fieldInputStyle} aria-label={`Bracket ${i + 1} starts at`} />
+                <PercentInput value={b.rate} onChange={rate => setBracket(i, { rate })} label={`Bracket ${i + 1} rate`} />
+                <button type="button" onClick={() => update({ brackets: profile.brackets.filter((_, j) => j !== i) })}
+                  disabled={profile.brackets.length === 1} className="p-1.5 disabled:opacity-30"
+                  style={{ color: 'var(--text-secondary)' }} aria-label={`Remove bracket ${i + 1}`}>
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+            <button type="button" className="flex items-center gap-1.5 py-1.5 text-sm font-medium text-purple-500"
+              onClick={() => {
+                const last = profile.brackets[profile.brackets.length - 1]
+                update({ brackets: [...profile.brackets, { from: (last?.from ?? 0) + 10000, rate: last?.rate ?? 0 }] })
+              }}>
+              <Plus size={14} /> Add bracket
+            </button>
+            <FieldHint text={`Each rate applies only to taxable profit inside its bracket (amounts in ${getCurrency()}). Include self-employment or social contributions in the rates if you pay them.`} />
+          </div>
+        )}
+
+        <SectionLabel label="Savings" />
+        <div className="mb-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm" style={{ color: 'var(--text-primary)' }}>Set Aside Percentage</span>
+            <PercentInput value={setAsideRate} onChange={setSetAsideRate} label="Set aside percentage" />
+          </div>
+          <input type="range" min={0} max={60} step={1} value={Math.min(60, setAsideRate)}
+            onChange={e => setSetAsideRate(parseInt(e.target.value))}
+            aria-label="Set aside percentage slider"
+            className="w-full accent-purple-500" />
+          <FieldHint text="Set aside slightly more than your tax rate to cover self-employment tax. Use the text input for values above 60%." />
+        </div>
+
+        <SectionLabel label="Deductions" />
+        {EXPENSE_CATEGORIES.map(category => (
+          <FieldSelect key={category} label={CATEGORY_LABELS[category]}
+            value={profile.deductions[category] ?? NOT_DEDUCTIBLE} options={DEDUCTION_OPTIONS}
+            onChange={v => update({ deductions: { ...profile.deductions, [category]: v === NOT_DEDUCTIBLE ? null : v } })} />
+        ))}
+        <FieldHint text="Where each expense category goes on your return. Not deductible expenses are listed separately in the year-end summary." />
+
+        <SectionLabel label="Estimated Payments" />
+        {dueDates.map((due, i) => (
+          <div key={i} className="flex items-end gap-2">
+            <div className="flex-1">
+              <FieldDate label={`Installment ${i + 1} due`} value={due} onChange={v => setDueDate(i, v)} />
+            </div>
+            <button type="button" onClick={() => update({ installments: profile.installments.filter((_, j) => j !== i) })}
+              className="p-2 mb-3" style={{ color: 'var(--text-secondary)' }} aria-label={`Remove installment ${i + 1}`}>
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+        <button type="button" className="flex items-center gap-1.5 py-1.5 text-sm font-medium text-purple-500"
+          onClick={() => {
+            const last = profile.installments[profile.installments.length - 1]
+            update({ installments: [...profile.installments, { monthsAfterStart: (last?.monthsAfterStart ?? 0) + 3, day: last?.day ?? 15 }] })
+          }}>
+          <Plus size={14} /> Add due date
+        </button>
+        <FieldHint text="Dates shown for the current tax year; the same dates repeat every year. Remove them all if you don't pay estimated tax." />
+
+        <div className="py-4">
+          <button onClick={save}
+            className="w-full py-3 rounded-xl font-semibold text-sm bg-purple-600 text-white active:bg-purple-700">
+            Save Settings
+          </button>
+        </div>
+        <div className="h-8" />
+      </div>
+    </Modal>
+  )
+}
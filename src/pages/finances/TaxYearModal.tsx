@@ -0,0 +1,346 @@
+import { useState } from 'react'
+import { AlertCircle, ChevronLeft, ChevronRight, Download, FileText, Plus, Settings2, Trash2 } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { db, formatCurrency, getCurrency, newId } from '../../db'
+import { Modal } from '../../components/Modal'
+import { Card } from '../../components/Card'
+import { SectionLabel, FieldCurrency, FieldDate, FieldSelect, FieldTextInput, FieldToggle } from '../../components/FormFields'
+import { showToast, showUndoToast } from '../../components/Toast'
+import { useLocalStorage } from '../../hooks/useSettings'
+import { useTaxProfile, useTaxYear } from '../../hooks/useTaxYear'
+import { fmtMediumDate } from '../../utils/dateFormat'
+import { CATEGORY_LABELS, taxYearOf, taxYearReportHtml } from '../../utils/tax'
+import type { InstallmentState, InstallmentStatus } from '../../utils/tax'
+import type { TaxPayment } from '../../types'
+import { TaxSettingsEditor } from './TaxSettingsEditor'
+import { FxRatesEditor } from './FxRatesEditor'
+
+const STATUS_STYLE: Record<InstallmentStatus, { label: string; color: string }> = {
+  paid: { label: 'Paid', color: '#22c55e' },
+  overdue: { label: 'Overdue', color: '#ef4444' },
+  upcoming: { label: 'Upcoming', color: 'var(--text-secondary)' },
+}
+
+function Line({ label, amount, bold, muted }: { label: string; amount: number; bold?: boolean; muted?: boolean }) {
+  return (
+    <div className="flex items-center justify-between py-1">
+      <span className={`text-sm ${bold ? 'font-semibold' : ''}`} style={{ color: muted ? 'var(--text-secondary)' : 'var(--text-primary)' }}>{label}</span>
+      <span className={`text-sm ${bold ? 'font-bold' : 'font-medium'}`} style={{ color: 'var(--text-primary)' }}>{formatCurrency(amount)}</span>
+    </div>
+  )
+}
+
+/** Tax year report: totals by deduction line, the estimated-payment schedule and year-end exports. */
+export function TaxYearModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const profile = useTaxProfile()
+  const [year, setYear] = useState(() => taxYearOf(new Date(), profile))
+  const report = useTaxYear(year)
+  const [businessName] = useLocalStorage('profileWorkingName', '')
+  const [showSettings, setShowSettings] = useState(false)
+  const [showFxRates, setShowFxRates] = useState(false)
+  const [payingFor, setPayingFor] = useState<{ installment?: number; amount: number } | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [withReceipts, setWithReceipts] = useState(false)
+  const currentYear = taxYearOf(new Date(), profile)
+
+  async function handleExcel() {
+    if (!report) return
+    setExporting(true)
+    try {
+      const { exportTaxYearToExcel } = await import('../../utils/exportExcel')
+      const { receipts, skipped } = await exportTaxYearToExcel(report, {
+        receipts: withReceipts,
+        businessName: businessName || undefined,
+      })
+      if (withReceipts) {
+        showToast(skipped > 0
+          ? `${receipts} receipts bundled — ${skipped} couldn't be opened`
+          : `${receipts} receipt${receipts === 1 ? '' : 's'} bundled`, skipped > 0 ? 'error' : undefined)
+      }
+    } catch (err) {
+      showToast(`Export failed: ${(err as Error).message}`, 'error')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  function handleHtml() {
+    if (!report) return
+    const blob = new Blob([taxYearReportHtml(report, businessName || undefined)], { type: 'text/html' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `companion-tax-${report.summary.label}.html`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+    showToast('Summary saved — open it and print to PDF')
+  }
+
+  async function deletePayment(p: TaxPayment) {
+    await db.taxPayments.delete(p.id)
+    showUndoToast('Payment deleted', async () => { await db.taxPayments.put(p) })
+  }
+
+  const taxDue = report ? (report.estimate.elapsed >= 1 ? report.estimate.taxSoFar : report.estimate.projectedTax) : 0
+
+  return (
+    <>
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Tax Year"
+      actions={
+        <button onClick={() => setShowSettings(true)} className="p-2" style={{ color: 'var(--text-secondary)' }} aria-label="Tax settings">
+          <Settings2 size={18} />
+        </button>
+      }
+    >
+      <div className="px-4 py-3 space-y-3" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+        {/* Year picker */}
+        <div className="flex items-center justify-between">
+          <button onClick={() => setYear(y => y - 1)} className="p-2" style={{ color: 'var(--text-secondary)' }} aria-label="Previous tax year">
+            <ChevronLeft size={18} />
+          </button>
+          <div className="text-center">
+            <p className="text-base font-bold" style={{ color: 'var(--text-primary)' }}>{report?.summary.label ?? year}</p>
+            {report && (
+              <p className="text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+                {fmtMediumDate(report.summary.start)} – {fmtMediumDate(report.summary.end)} · {getCurrency()}
+              </p>
+            )}
+          </div>
+          <button onClick={() => setYear(y => y + 1)} disabled={year >= currentYear} className="p-2 disabled:opacity-30"
+            style={{ color: 'var(--text-secondary)' }} aria-label="Next tax year">
+            <ChevronRight size={18} />
+          </button>
+        </div>
+
+        {!report ? (
+          <div className="h-40" />
+        ) : (
+          <>
+            {report.summary.missingRates.length > 0 && (
+              <button onClick={() => setShowFxRates(true)}
+                className="flex items-center gap-3 w-full p-3 rounded-xl text-left active:opacity-70"
+                style={{ backgroundColor: 'rgba(249,115,22,0.08)', border: '1px solid rgba(249,115,22,0.25)' }}>
+                <AlertCircle size={16} className="text-orange-500 shrink-0" />
+                <p className="text-xs text-orange-500">
+                  No {report.summary.missingRates.join(', ')} → {getCurrency()} rate. Those amounts are left out — tap to add rates.
+                </p>
+              </button>
+            )}
+
+            {/* Headline */}
+            <Card>
+              <div className="flex gap-4">
+                <div className="flex-1">
+                  <p className="text-xs mb-0.5" style={{ color: 'var(--text-secondary)' }}>Taxable Profit</p>
+                  <p className="text-lg font-bold" style={{ color: 'var(--text-primary)' }}>{formatCurrency(report.summary.taxableProfit)}</p>
+                </div>
+                <div className="w-px" style={{ backgroundColor: 'var(--border)' }} />
+                <div className="flex-1">
+                  <p className="text-xs mb-0.5" style={{ color: 'var(--text-secondary)' }}>
+                    {report.estimate.elapsed >= 1 ? 'Estimated Tax' : 'Projected Tax'}
+                  </p>
+                  <p className="text-lg font-bold text-orange-500">{formatCurrency(taxDue)}</p>
+                  <p className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>
+                    {Math.round(report.estimate.effectiveRate * 1000) / 10}% effective
+                    {report.estimate.elapsed < 1 && ` · ${formatCurrency(report.estimate.taxSoFar)} so far`}
+                  </p>
+                </div>
+              </div>
+              <div className="mt-3 pt-2" style={{ borderTop: '1px solid var(--border)' }}>
+                <Line label="Paid" amount={report.totalPaid} muted />
+                <Line label="Balance" amount={taxDue - report.totalPaid} bold />
+              </div>
+            </Card>
+
+            {/* Estimated payments */}
+            {(report.schedule.length > 0 || report.payments.length > 0) && (
+              <Card>
+                <p className="text-sm font-semibold mb-2" style={{ color: 'var(--text-primary)' }}>Estimated Payments</p>
+                {report.schedule.map(s => (
+                  <InstallmentRow key={s.number} state={s}
+                    onPay={() => setPayingFor({ installment: s.number, amount: Math.max(0, s.target - s.paid) })} />
+                ))}
+                {report.payments.length > 0 && (
+                  <div className="mt-2 pt-2" style={{ borderTop: '1px solid var(--border)' }}>
+                    {report.payments.map(p => (
+                      <div key={p.id} className="flex items-center gap-2 py-1">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm" style={{ color: 'var(--text-primary)' }}>
+                            {formatCurrency(p.amount)}
+                            <span className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                              {' '}· {p.installment ? `Installment ${p.installment}` : 'Other'} · {fmtMediumDate(new Date(p.date))}
+                            </span>
+                          </p>
+                          {p.notes && <p className="text-xs truncate" style={{ color: 'var(--text-secondary)' }}>{p.notes}</p>}
+                        </div>
+                        <button onClick={() => deletePayment(p)} className="p-1.5" style={{ color: 'var(--text-secondary)' }} aria-label="Delete payment">
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <button onClick={() => setPayingFor({ amount: Math.max(0, Math.round(taxDue - report.totalPaid)) })}
+                  className="flex items-center gap-1.5 pt-2 text-sm font-medium text-purple-500">
+                  <Plus size={14} /> Record other payment
+                </button>
+              </Card>
+            )}
+
+            {/* Income */}
+            <Card>
+              <p className="text-sm font-semibold mb-2" style={{ color: 'var(--text-primary)' }}>Income</p>
+              {report.summary.income.length === 0 && (
+                <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>No income this tax year</p>
+              )}
+              {report.summary.income.map(i => (
+                <Line key={i.category} label={`${CATEGORY_LABELS[i.category]} (${i.count})`} amount={i.amount} muted />
+              ))}
+              <Line label="Gross income" amount={report.summary.grossIncome} bold />
+            </Card>
+
+            {/* Deductions */}
+            <Card>
+              <p className="text-sm font-semibold mb-2" style={{ color: 'var(--text-primary)' }}>Deductible Expenses</p>
+              {report.summary.deductions.length === 0 && (
+                <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>No deductible expenses this tax year</p>
+              )}
+              {report.summary.deductions.map(d => (
+                <Line key={d.line} label={d.line} amount={d.amount} muted />
+              ))}
+              <Line label="Total deductions" amount={report.summary.totalDeductions} bold />
+              {report.summary.nonDeductible.length > 0 && (
+                <div className="mt-2 pt-2" style={{ borderTop: '1px solid var(--border)' }}>
+                  <p className="text-xs font-semibold mb-1" style={{ color: 'var(--text-secondary)' }}>Not deducted</p>
+                  {report.summary.nonDeductible.map(n => (
+                    <Line key={n.category} label={CATEGORY_LABELS[n.category]} amount={n.amount} muted />
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            {/* Exports */}
+            <SectionLabel label="Year-End Summary" />
+            <div className="flex gap-2">
+              <button onClick={handleExcel} disabled={exporting}
+                className="flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-xl text-sm font-semibold bg-purple-600 text-white active:bg-purple-700 disabled:opacity-50">
+                <Download size={15} /> {exporting ? 'Exporting…' : withReceipts ? 'Excel + receipts' : 'Excel'}
+              </button>
+              <button onClick={handleHtml}
+                className="flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-xl text-sm font-semibold active:opacity-70"
+                style={{ backgroundColor: 'var(--bg-card)', border: '1px solid var(--border)', color: 'var(--text-primary)' }}>
+                <FileText size={15} /> Printable (PDF)
+              </button>
+            </div>
+            <div className="pt-3">
+              <FieldToggle label="Include receipts (zip)" value={withReceipts} onChange={setWithReceipts} />
+            </div>
+            <p className="text-[11px] pb-6" style={{ color: 'var(--text-secondary)' }}>
+              Grouped by deduction line, with the income and expense ledgers behind each total. Estimates only — have your accountant confirm.
+            </p>
+          </>
+        )}
+      </div>
+    </Modal>
+
+      <TaxPaymentEditor
+        isOpen={payingFor !== null}
+        onClose={() => setPayingFor(null)}
+        taxYear={year}
+        installments={report?.schedule.length ?? 0}
+        installment={payingFor?.installment}
+        suggestedAmount={payingFor?.amount ?? 0}
+      />
+      <TaxSettingsEditor isOpen={showSettings} onClose={() => setShowSettings(false)} />
+      <FxRatesEditor isOpen={showFxRates} onClose={() => setShowFxRates(false)} />
+    </>
+  )
+}
+
+function InstallmentRow({ state, onPay }: { state: InstallmentState; onPay: () => void }) {
+  const style = STATUS_STYLE[state.status]
+  return (
+    <button onClick={onPay} className="flex items-center gap-3 w-full py-2 text-left active:opacity-70"
+      aria-label={`Record payment for installment ${state.number}`}>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>
+          Installment {state.number}
+          <span className="text-xs font-normal" style={{ color: 'var(--text-secondary)' }}> · due {fmtMediumDate(state.due)}</span>
+        </p>
+        <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+          {formatCurrency(state.paid)} of {formatCurrency(state.target)} paid
+        </p>
+      </div>
+      <span className="text-xs font-semibold" style={{ color: style.color }}>{style.label}</span>
+    </button>
+  )
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// RECORD PAYMENT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const OTHER = 'Other'
+
+function TaxPaymentEditor({ isOpen, onClose, taxYear, installments, installment, suggestedAmount }: {
+  isOpen: boolean
+  onClose: () => void
+  taxYear: number
+  installments: number
+  installment?: number
+  suggestedAmount: number
+}) {
+  const [amount, setAmount] = useState(0)
+  const [date, setDate] = useState('')
+  const [slot, setSlot] = useState(OTHER)
+  const [notes, setNotes] = useState('')
+
+  const [wasOpen, setWasOpen] = useState(false)
+  if (isOpen && !wasOpen) {
+    setAmount(suggestedAmount)
+    setDate(format(new Date(), 'yyyy-MM-dd'))
+    setSlot(installment ? String(installment) : OTHER)
+    setNotes('')
+  }
+  if (isOpen !== wasOpen) setWasOpen(isOpen)
+
+  const slotOptions = [...Array.from({ length: installments }, (_, i) => String(i + 1)), OTHER]
+
+  async function save() {
+    if (amount <= 0 || !date) return
+    await db.taxPayments.add({
+      id: newId(),
+      taxYear,
+      installment: slot === OTHER ? undefined : Number(slot),
+      amount,
+      date: parseISO(date),
+      notes: notes.trim() || undefined,
+    })
+    showToast('Tax payment recorded')
+    onClose()
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Record Tax Payment">
+      <div className="px-4 py-2" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+        <FieldCurrency label="Amount" value={amount} onChange={setAmount} />
+        <FieldDate label="Paid On" value={date} onChange={setDate} />
+        <FieldSelect label="Installment" value={slot} options={slotOptions}
+          displayFn={s => s === OTHER ? 'Other (e.g. year-end balance)' : `Installment ${s}`} onChange={setSlot} />
+        <FieldTextInput label="Notes" value={notes} onChange={setNotes} placeholder="Confirmation number" />
+        <div className="py-4">
+          <button onClick={save} disabled={amount <= 0 || !date}
+            className="w-full py-3 rounded-xl font-semibold text-sm bg-purple-600 text-white active:bg-purple-700 disabled:opacity-40">
+            Save Payment
+          </button>
+        </div>
+        <div className="h-8" />
+      </div>
+    </Modal>
+  )
+}
@@ -1,16 +1,22 @@
 import { useState, useEffect } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
 import { Check } from 'lucide-react'
 import { format } from 'date-fns'
-import { db, createTransaction } from '../../db'
+import { db, createTransaction, getCurrency, newId } from '../../db'
 import { Modal } from '../../components/Modal'
+import { ReceiptManager } from '../../components/ReceiptManager'
 import { showToast } from '../../components/Toast'
 import { SectionLabel, FieldCurrency, FieldSelect, FieldDate, FieldTextArea } from '../../components/FormFields'
-import type { Transaction, TransactionType, TransactionCategory, PaymentMethod } from '../../types'
+import { currencyLabel, currencyOptions } from '../../utils/fx'
+import { addReceipt } from '../../utils/receipts'
+import { BILL_FREQUENCIES, FREQUENCY_LABELS } from '../../utils/recurringExpenses'
+import type { Transaction, TransactionType, TransactionCategory, PaymentMethod, BillFrequency } from '../../types'
 
 const incomeCategories: TransactionCategory[] = ['booking', 'tip', 'gift', 'refund', 'other']
 const expenseCategories: TransactionCategory[] = ['supplies', 'travel', 'advertising', 'clothing', 'health', 'rent', 'phone', 'refund', 'other']
 const paymentMethods: PaymentMethod[] = ['Cash', 'e-Transfer', 'Crypto', 'Venmo', 'Cash App', 'Zelle', 'Gift Card', 'Other']
 const titleCase = (s: string) => s.charAt(0).toUpperCase() + s.slice(1)
+const repeatOptions: (BillFrequency | 'never')[] = ['never', ...BILL_FREQUENCIES]
 
 interface TransactionEditorProps {
   isOpen: boolean
@@ -24,10 +30,15 @@ export function TransactionEditor({ isOpen, onClose, initialType, transaction }:
   const isEditing = !!transaction
   const [type, setType] = useState<TransactionType>(initialType ?? 'income')
   const [amount, setAmount] = useState(0)
+  const [currency, setCurrency] = useState(getCurrency())
   const [category, setCategory] = useState<TransactionCategory>('booking')
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('Cash')
   const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'))
   const [notes, setNotes] = useState('')
+  const [tourId, setTourId] = useState('')
+  const [repeat, setRepeat] = useState<BillFrequency | 'never'>('never')
+  // Receipts picked before a new expense exists; stored once it's saved
+  const [pendingReceipts, setPendingReceipts] = useState<File[]>([])
   const [saving, setSaving] = useState(false)
 
   // Reset form when modal opens — pre-fill if editing
@@ -36,22 +47,30 @@ export function TransactionEditor({ isOpen, onClose, initialType, transaction }:
       if (transaction) {
         setType(transaction.type)
         setAmount(transaction.amount)
+        setCurrency(transaction.currency ?? getCurrency())
         setCategory(transaction.category)
         setPaymentMethod(transaction.paymentMethod ?? 'Cash')
         setDate(format(new Date(transaction.date), 'yyyy-MM-dd'))
         setNotes(transaction.notes ?? '')
+        setTourId(transaction.tourId ?? '')
       } else {
         setType(initialType ?? 'income')
         setAmount(0)
+        setCurrency(getCurrency())
         setCategory(initialType === 'expense' ? 'supplies' : 'booking')
         setPaymentMethod('Cash')
         setDate(format(new Date(), 'yyyy-MM-dd'))
         setNotes('')
+        setTourId('')
       }
+      setRepeat('never')
+      setPendingReceipts([])
       setSaving(false)
     }
   }, [isOpen, initialType, transaction])
 
+  const tours = useLiveQuery(() => db.tours.toArray()) ?? []
+
   const isValid = amount > 0
 
   async function handleSave() {
@@ -60,19 +79,50 @@ export function TransactionEditor({ isOpen, onClose, initialType, transaction }:
     try {
       if (isEditing && transaction) {
         await db.transactions.update(transaction.id, {
-          amount, type, category, paymentMethod,
+          amount, currency, type, category, paymentMethod,
           date: new Date(date + 'T00:00:00'),
           notes: notes.trim(),
+          tourId: tourId || undefined,
         })
         showToast('Transaction updated')
       } else {
+        // A repeating expense starts a recurring one; this entry is its first occurrence
+        const recurringExpenseId = type === 'expense' && repeat !== 'never' ? newId() : undefined
         const txn = createTransaction({
-          amount, type, category, paymentMethod,
+          amount, currency, type, category, paymentMethod,
           date: new Date(date + 'T00:00:00'),
           notes: notes.trim(),
+          tourId: tourId || undefined,
+          recurringExpenseId,
+        })
+        await db.transaction('rw', [db.transactions, db.recurringExpenses], async () => {
+          await db.transactions.add(txn)
+          if (recurringExpenseId && repeat !== 'never') {
+            await db.recurringExpenses.add({
+              id: recurringExpenseId,
+              name: notes.trim().split('\n')[0] || titleCase(category),
+              amount, currency, category, paymentMethod,
+              frequency: repeat,
+              startDate: txn.date,
+              postedThrough: date,
+              isActive: true,
+              createdAt: new Date(),
+            })
+          }
         })
-        await db.transactions.add(txn)
         showToast(type === 'expense' ? 'Expense recorded' : 'Income recorded')
+        if (type === 'expense') {
+          for (const file of pendingReceipts) {
+            try {
+              await addReceipt(txn.id, file)
+            } catch (err) {
+              showToast(err instanceof DOMException && err.name === 'QuotaExceededError'
+                ? 'Storage full — delete old files to free space'
+                : `Failed to attach ${file.name}`, 'error')
+              break
+            }
+          }
+        }
       }
       onClose()
     } catch (err) {
@@ -112,10 +162,30 @@ export function TransactionEditor({ isOpen, onClose, initialType, transaction }:
         </div>
 
         <SectionLabel label="Details" />
-        <FieldCurrency label="Amount" value={amount} onChange={setAmount} />
+        <FieldCurrency label="Amount" value={amount} onChange={setAmount} currency={currency} />
+        <FieldSelect label="Currency" value={currency} options={currencyOptions(currency)} onChange={setCurrency}
+          displayFn={currencyLabel}
+          hint={currency !== getCurrency() ? 'Finances converts it with your exchange rates' : undefined} />
         <FieldSelect label="Category" value={category} options={type === 'income' ? incomeCategories : expenseCategories} onChange={setCategory} displayFn={titleCase} />
         <FieldSelect label="Payment Method" value={paymentMethod} options={paymentMethods} onChange={setPaymentMethod} />
         <FieldDate label="Date" value={date} onChange={setDate} />
+        {type === 'expense' && !isEditing && (
+          <FieldSelect label="Repeats" value={repeat} options={repeatOptions} onChange={setRepeat}
+            displayFn={r => r === 'never' ? 'Never' : FREQUENCY_LABELS[r]}
+            hint={repeat !== 'never' ? 'Recorded automatically from now on — manage it under Upcoming Bills' : undefined} />
+        )}
+        {tours.length > 0 && (
+          <FieldSelect label="Tour" value={tourId} options={['', ...tours.map(t => t.id)]} onChange={setTourId}
+            displayFn={id => id ? tours.find(t => t.id === id)?.name ?? 'Unknown tour' : 'None'}
+            hint="Counts toward the tour's profit & loss" />
+        )}
+
+        {type === 'expense' && (
+          <>
+            <SectionLabel label="Receipts" optional />
+            <ReceiptManager transactionId={transaction?.id} pending={pendingReceipts} onPendingChange={setPendingReceipts} />
+          </>
+        )}
 
         <SectionLabel label="Notes" optional />
         <FieldTextArea label="Notes" value={notes} onChange={setNotes} placeholder="Optional notes..." />
@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Building2, Check, X } from 'lucide-react'
+import { parseISO } from 'date-fns'
+import { formatCurrency, getCurrency } from '../../db'
+import { Card } from '../../components/Card'
+import { showToast } from '../../components/Toast'
+import { useLocalStorage } from '../../hooks/useSettings'
+import { fmtShortDate } from '../../utils/dateFormat'
+import { VENUE_COSTS_AUTO_KEY, dismissVenueCost, pendingVenueCosts, recordVenueCost } from '../../utils/venueCosts'
+import type { VenueCostProposal } from '../../utils/venueCosts'
+
+/** Venue costs of completed incall bookings, waiting to be recorded as expenses or dismissed. */
+export function VenueCostsCard() {
+  const proposals = useLiveQuery(() => pendingVenueCosts())?.filter(p => !p.covered) ?? []
+  const [auto, setAuto] = useLocalStorage(VENUE_COSTS_AUTO_KEY, false)
+  const [busy, setBusy] = useState(false)
+
+  if (proposals.length === 0) return null
+
+  async function run(action: () => Promise<unknown>, message: string) {
+    if (busy) return
+    setBusy(true)
+    try {
+      await action()
+      showToast(message)
+    } catch (err) {
+      showToast(`Failed: ${(err as Error).message}`, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const keyOf = (p: VenueCostProposal) => `${p.venue.id}-${p.day}`
+  // A total only makes sense when every cost is in the same currency
+  const currencies = new Set(proposals.map(p => p.venue.currency ?? getCurrency()))
+  const total = currencies.size === 1 ? formatCurrency(proposals.reduce((s, p) => s + p.amount, 0), [...currencies][0]) : null
+  const recordAll = () => run(async () => { for (const p of proposals) await recordVenueCost(p) }, `${proposals.length} venue costs recorded`)
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Building2 size={16} className="text-purple-500" />
+          <p className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>Venue Costs</p>
+        </div>
+        <button
+          onClick={recordAll}
+          disabled={busy}
+          className="text-xs text-purple-500 font-medium disabled:opacity-50"
+        >
+          Record all{total && ` · ${total}`}
+        </button>
+      </div>
+      <div className="space-y-2">
+        {proposals.map(p => (
+          <div key={keyOf(p)} className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>{p.venue.name}</p>
+              <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                {fmtShortDate(parseISO(p.day))} · {p.bookings.length} {p.bookings.length === 1 ? 'booking' : 'bookings'}
+                {p.basis === 'day' ? ' · day rate' : ` · ${+p.hours.toFixed(2)} h`}
+              </p>
+            </div>
+            <span className="text-sm font-medium text-red-500">{formatCurrency(p.amount, p.venue.currency)}</span>
+            <button onClick={() => run(() => recordVenueCost(p), 'Venue cost recorded')} disabled={busy}
+              className="p-1.5 text-purple-500 disabled:opacity-50" aria-label={`Record ${p.venue.name} cost`}>
+              <Check size={16} />
+            </button>
+            <button onClick={() => run(() => dismissVenueCost(p), 'Venue cost dismissed')} disabled={busy}
+              className="p-1.5 disabled:opacity-50" style={{ color: 'var(--text-secondary)' }} aria-label={`Dismiss ${p.venue.name} cost`}>
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+      {!auto && (
+        <button onClick={() => { setAuto(true); recordAll() }} className="text-[11px] mt-3" style={{ color: 'var(--text-secondary)' }}>
+          From completed incall bookings. <span className="text-purple-500 font-medium">Record automatically</span>
+        </button>
+      )}
+    </Card>
+  )
+}
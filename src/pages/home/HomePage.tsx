@@ -1,9 +1,9 @@
 import { useLiveQuery } from 'dexie-react-hooks'
 import {
   Settings, Clock, CalendarDays, DollarSign, Users,
-  ChevronRight, ShieldAlert, TrendingUp, Cake, Bell, Database, X, CircleUser, Building2
+  ChevronRight, ShieldAlert, TrendingUp, Cake, Bell, Database, X, CircleUser, Building2, Plane, Inbox
 } from 'lucide-react'
-import { startOfDay, endOfDay, startOfWeek, startOfMonth, isToday, differenceInDays, addYears, isSameDay } from 'date-fns'
+import { startOfDay, endOfDay, startOfWeek, startOfMonth, isToday, differenceInDays, addYears } from 'date-fns'
 import { useState, useRef, useEffect, useCallback, lazy, Suspense, useReducer } from 'react'
 import { useScrollLock } from '../../hooks/useScrollLock'
 import { db, formatCurrency, isUpcoming, bookingTotal } from '../../db'
@@ -14,7 +14,7 @@ import { EmptyState } from '../../components/EmptyState'
 import { SwipeableBookingRow } from '../../components/SwipeableBookingRow'
 import { CancellationSheet } from '../../components/CancellationSheet'
 import { SampleDataBanner } from '../../components/SampleDataBanner'
-import { formatTime12 } from '../../utils/availability'
+import { formatTime12, resolveAvailability } from '../../utils/availability'
 import { availabilityStatusColors, bookingStatusColors } from '../../types'
 import type { Booking } from '../../types'
 import { useLocalStorage } from '../../hooks/useSettings'
@@ -26,6 +26,8 @@ import { BookingEditor } from '../schedule/BookingEditor'
 // Lazy-load heavy modals — only fetched when opened by user tap
 const ProfilePage = lazy(() => import('./ProfilePage').then(m => ({ default: m.ProfilePage })))
 const IncallBookPage = lazy(() => import('./IncallBookPage').then(m => ({ default: m.IncallBookPage })))
+const TourPage = lazy(() => import('./TourPage').then(m => ({ default: m.TourPage })))
+const InquiriesPage = lazy(() => import('./InquiriesPage').then(m => ({ default: m.InquiriesPage })))
 const BackupRestoreModal = lazy(() => import('../../components/BackupRestore').then(m => ({ default: m.BackupRestoreModal })))
 import { GettingStarted, useGettingStartedDone } from '../../components/GettingStarted'
 import { DidYouKnowTip } from '../../components/DidYouKnowTip'
@@ -48,7 +50,6 @@ export function HomePage({ onNavigateTab, onOpenSettings, onOpenBooking, onOpenC
 
   const now = new Date()
   const todayStart = startOfDay(now)
-  const todayEnd = endOfDay(now)
   const weekStart = startOfWeek(now, { weekStartsOn: 1 })
   const monthStart = startOfMonth(now)
 
@@ -56,6 +57,8 @@ export function HomePage({ onNavigateTab, onOpenSettings, onOpenBooking, onOpenC
   const [showAllBalances, setShowAllBalances] = useState(false)
   const [showProfile, setShowProfile] = useState(false)
   const [showIncallBook, setShowIncallBook] = useState(false)
+  const [showTours, setShowTours] = useState(false)
+  const [showInquiries, setShowInquiries] = useState(false)
   const [showAvailPicker, setShowAvailPicker] = useState(false)
   const [remindersEnabled] = useLocalStorage('remindersEnabled', false)
   const [showBackup, setShowBackup] = useState(false)
@@ -73,13 +76,12 @@ export function HomePage({ onNavigateTab, onOpenSettings, onOpenBooking, onOpenC
   const allPayments = useLiveQuery(() => db.payments.toArray()) ?? []
   const safetyChecks = useLiveQuery(() => db.safetyChecks.where('status').equals('pending').toArray()) ?? []
   const availability = useLiveQuery(() => db.availability.toArray()) ?? []
-  const todayAvailability = useLiveQuery(() =>
-    db.availability.where('date').between(todayStart, todayEnd, true, true).first()
-  )
+  const newInquiryCount = useLiveQuery(() => db.inquiries.where('status').equals('new').count()) ?? 0
+  const templates = useLiveQuery(() => db.availabilityTemplates.toArray()) ?? []
   if (allBookings === undefined) return <HomePageSkeleton />
 
-  const availForDay = (day: Date) =>
-    availability.find(a => isSameDay(new Date(a.date), day))
+  const availForDay = (day: Date) => resolveAvailability(day, availability, templates)
+  const todayAvailability = availForDay(todayStart)
 
   const showNotificationPrompt = !remindersEnabled && 'Notification' in window && Notification.permission === 'default'
 
@@ -156,6 +158,25 @@ export function HomePage({ onNavigateTab, onOpenSettings, onOpenBooking, onOpenC
         >
           <Building2 size={20} />
         </button>
+        <button
+          onClick={() => setShowTours(true)}
+          className="p-2 rounded-lg active:bg-white/10 transition-colors"
+          style={{ color: 'var(--text-secondary)' }}
+          aria-label="Tours"
+        >
+          <Plane size={20} />
+        </button>
+        <button
+          onClick={() => setShowInquiries(true)}
+          className="p-2 rounded-lg active:bg-white/10 transition-colors relative"
+          style={{ color: 'var(--text-secondary)' }}
+          aria-label="Inquiries"
+        >
+          <Inbox size={20} />
+          {newInquiryCount > 0 && (
+            <div className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-purple-500" />
+          )}
+        </button>
         <button
           onClick={() => setShowProfile(true)}
           className="p-2 rounded-lg active:bg-white/10 transition-colors relative"
@@ -401,7 +422,7 @@ export function HomePage({ onNavigateTab, onOpenSettings, onOpenBooking, onOpenC
                       <StatusBadge text={booking.status} color={bookingStatusColors[booking.status]} />
                     </div>
                   </div>
-                  <span className="text-xs font-semibold text-orange-500">{formatCurrency(owing)}</span>
+                  <span className="text-xs font-semibold text-orange-500">{formatCurrency(owing, booking.currency)}</span>
                 </button>
               ))}
               {bookingsWithBalance.length > 4 && !showAllBalances && (
@@ -500,6 +521,15 @@ export function HomePage({ onNavigateTab, onOpenSettings, onOpenBooking, onOpenC
         {showBackup && <BackupRestoreModal isOpen={showBackup} onClose={() => { setShowBackup(false); dismissReminder() }} />}
         {showProfile && <ProfilePage isOpen={showProfile} onClose={() => setShowProfile(false)} />}
         {showIncallBook && <IncallBookPage isOpen={showIncallBook} onClose={() => setShowIncallBook(false)} />}
+        {showTours && (
+          <TourPage isOpen={showTours} onClose={() => setShowTours(false)}
+            onOpenBooking={(id) => { setShowTours(false); onOpenBooking(id) }} />
+        )}
+        {showInquiries && (
+          <InquiriesPage isOpen={showInquiries} onClose={() => setShowInquiries(false)}
+            onOpenBooking={(id) => { setShowInquiries(false); onOpenBooking(id) }}
+            onOpenClient={(id) => { setShowInquiries(false); onOpenClient(id) }} />
+        )}
       </Suspense>
 
       {/* Availability picker from Home tab */}
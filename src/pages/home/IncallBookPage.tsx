@@ -8,17 +8,21 @@ import {
   MessageSquare,
 } from 'lucide-react'
 import { fmtMediumDate } from '../../utils/dateFormat'
-import { db, newId, formatCurrency } from '../../db'
+import { db, newId, formatCurrency, getCurrency } from '../../db'
 import { lsKey } from '../../hooks/useSettings'
 import { Card } from '../../components/Card'
 import { ConfirmDialog } from '../../components/ConfirmDialog'
 import { SectionLabel, FieldTextInput, FieldSelect, FieldCurrency, FieldHint, fieldInputStyle } from '../../components/FormFields'
 import { VenueDocManager } from '../../components/VenueDocManager'
-import { showToast } from '../../components/Toast'
+import { showToast, showUndoToast } from '../../components/Toast'
+import { moveToTrash, restoreFromTrash } from '../../db/trash'
 import { formatPhone } from '../../utils/formatPhone'
+import { guessTimeZone, timeZoneOptions, zoneLabel } from '../../utils/timeZone'
 import type { IncallVenue, VenueType, AccessMethod, Client, ContactMethod } from '../../types'
 import { venueTypeColors } from '../../types'
 import { contactMethodMeta, getContactValue, openChannel } from '../../utils/contactChannel'
+import { createFxConverter, currencyLabel, currencyOptions } from '../../utils/fx'
+import { venueProfitability } from '../../utils/venueCosts'
 
 const contactMethodIcons: Record<ContactMethod, typeof Phone> = {
   'Phone': Phone, 'Text': MessageSquare, 'Email': Mail, 'Telegram': Send,
@@ -331,6 +335,9 @@ function VenueList({ cities, grouped, search, onSearchChange, activeCount, archi
 
 function VenueDetail({ venueId, onEdit, onBack }: { venueId: string; onEdit: () => void; onBack: () => void }) {
   const venue = useLiveQuery(() => db.incallVenues.get(venueId), [venueId])
+  const bookings = useLiveQuery(() => db.bookings.filter(b => b.venueId === venueId).toArray(), [venueId]) ?? []
+  const transactions = useLiveQuery(() => db.transactions.toArray()) ?? []
+  const fxRates = useLiveQuery(() => db.fxRates.toArray()) ?? []
   const [copiedField, setCopiedField] = useState<string | null>(null)
   const [confirmDelete, setConfirmDelete] = useState(false)
   const [showSendDirections, setShowSendDirections] = useState(false)
@@ -344,6 +351,12 @@ function VenueDetail({ venueId, onEdit, onBack }: { venueId: string; onEdit: ()
     </div>
   )
 
+  const profit = venueProfitability(venue, bookings, transactions, createFxConverter(fxRates, getCurrency()))
+  const profitRows: [string, number][] = [
+    ['Income', profit.income],
+    ['Venue costs', -profit.costs],
+  ]
+
   function copyText(text: string, field: string) {
     navigator.clipboard.writeText(text)
       .then(() => showToast('Copied to clipboard'))
@@ -363,19 +376,14 @@ function VenueDetail({ venueId, onEdit, onBack }: { venueId: string; onEdit: ()
   }
 
   async function handleDelete() {
-    await db.transaction('rw', [db.venueDocs, db.bookings, db.incallVenues], async () => {
-      await db.venueDocs.where('venueId').equals(venueId).delete()
-      // Clear venueId from any bookings referencing this venue
-      const allBookings = await db.bookings.toArray()
-      for (const b of allBookings) {
-        if (b.venueId === venueId) {
-          await db.bookings.update(b.id, { venueId: undefined })
-        }
-      }
-      await db.incallVenues.delete(venueId)
-    })
-    showToast('Venue deleted')
-    onBack()
+    try {
+      // Bookings referencing this venue are unlinked, and relinked on restore
+      const trashId = await moveToTrash('venue', venueId)
+      showUndoToast('Venue moved to trash', () => restoreFromTrash(trashId))
+      onBack()
+    } catch (err) {
+      showToast(`Delete failed: ${(err as Error).message}`)
+    }
   }
 
   const Icon = venueTypeIcons[venue.venueType] ?? Building2
@@ -519,13 +527,13 @@ function VenueDetail({ venueId, onEdit, onBack }: { venueId: string; onEdit: ()
             {venue.costPerHour != null && venue.costPerHour > 0 && (
               <div>
                 <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>Per Hour</p>
-                <p className="text-sm font-bold" style={{ color: 'var(--text-primary)' }}>{formatCurrency(venue.costPerHour)}</p>
+                <p className="text-sm font-bold" style={{ color: 'var(--text-primary)' }}>{formatCurrency(venue.costPerHour, venue.currency)}</p>
               </div>
             )}
             {venue.costPerDay != null && venue.costPerDay > 0 && (
               <div>
                 <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>Per Day</p>
-                <p className="text-sm font-bold" style={{ color: 'var(--text-primary)' }}>{formatCurrency(venue.costPerDay)}</p>
+                <p className="text-sm font-bold" style={{ color: 'var(--text-primary)' }}>{formatCurrency(venue.costPerDay, venue.currency)}</p>
               </div>
             )}
           </div>
@@ -537,6 +545,39 @@ function VenueDetail({ venueId, onEdit, onBack }: { venueId: string; onEdit: ()
         </Card>
       )}
 
+      {/* Profitability */}
+      {(profit.bookings > 0 || profit.costs > 0) && (
+        <Card>
+          <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Profitability</p>
+          <div className="flex justify-between py-0.5 text-sm">
+            <span style={{ color: 'var(--text-secondary)' }}>Bookings</span>
+            <span style={{ color: 'var(--text-primary)' }}>{profit.bookings} · {+profit.hours.toFixed(1)} h</span>
+          </div>
+          {profitRows.map(([label, amount]) => (
+            <div key={label} className="flex justify-between py-0.5 text-sm">
+              <span style={{ color: 'var(--text-secondary)' }}>{label}</span>
+              <span style={{ color: amount < 0 ? '#ef4444' : 'var(--text-primary)' }}>
+                {amount < 0 ? `−${formatCurrency(-amount)}` : formatCurrency(amount)}
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-between pt-2 mt-1 text-sm font-bold" style={{ borderTop: '1px solid var(--border)' }}>
+            <span style={{ color: 'var(--text-primary)' }}>Net</span>
+            <span style={{ color: profit.net < 0 ? '#ef4444' : '#22c55e' }}>
+              {profit.net < 0 ? `−${formatCurrency(-profit.net)}` : formatCurrency(profit.net)}
+            </span>
+          </div>
+          {profit.hours > 0 && (
+            <p className="text-xs text-right mt-0.5" style={{ color: 'var(--text-secondary)' }}>
+              {formatCurrency(profit.perHour)} per booked hour
+            </p>
+          )}
+          <p className="text-[11px] mt-2" style={{ color: 'var(--text-secondary)' }}>
+            Income from completed bookings here; venue costs as recorded in Finances.
+          </p>
+        </Card>
+      )}
+
       {/* Notes */}
       {venue.notes && (
         <Card>
@@ -584,7 +625,7 @@ function VenueDetail({ venueId, onEdit, onBack }: { venueId: string; onEdit: ()
       <ConfirmDialog
         isOpen={confirmDelete}
         title="Delete Venue"
-        message={`Permanently delete "${venue.name}" and all attached documents?`}
+        message={`Delete "${venue.name}" and all attached documents? They stay in Trash (Settings → Data) until the retention period ends.`}
         confirmLabel="Delete"
         onConfirm={handleDelete}
         onCancel={() => setConfirmDelete(false)}
@@ -888,6 +929,8 @@ function VenueEditor({ venueId, onSave, onCancel }: { venueId?: string; onSave:
   const [name, setName] = useState('')
   const [venueType, setVenueType] = useState<VenueType>('Apartment')
   const [city, setCity] = useState('')
+  const [timeZone, setTimeZone] = useState('')
+  const [zonePicked, setZonePicked] = useState(false)
   const [address, setAddress] = useState('')
   const [directions, setDirections] = useState('')
   const [contactName, setContactName] = useState('')
@@ -899,7 +942,10 @@ function VenueEditor({ venueId, onSave, onCancel }: { venueId?: string; onSave:
   const [bookingNotes, setBookingNotes] = useState('')
   const [costPerHour, setCostPerHour] = useState(0)
   const [costPerDay, setCostPerDay] = useState(0)
+  const [currency, setCurrency] = useState(getCurrency())
   const [costNotes, setCostNotes] = useState('')
+  const [bufferBefore, setBufferBefore] = useState('')
+  const [bufferAfter, setBufferAfter] = useState('')
   const [hotelFriendly, setHotelFriendly] = useState(false)
   const [notes, setNotes] = useState('')
   const [saving, setSaving] = useState(false)
@@ -909,6 +955,8 @@ function VenueEditor({ venueId, onSave, onCancel }: { venueId?: string; onSave:
       setName(existing.name)
       setVenueType(existing.venueType)
       setCity(existing.city)
+      setTimeZone(existing.timeZone ?? '')
+      setZonePicked(!!existing.timeZone)
       setAddress(existing.address)
       setDirections(existing.directions ?? '')
       setContactName(existing.contactName ?? '')
@@ -920,12 +968,20 @@ function VenueEditor({ venueId, onSave, onCancel }: { venueId?: string; onSave:
       setBookingNotes(existing.bookingNotes ?? '')
       setCostPerHour(existing.costPerHour ?? 0)
       setCostPerDay(existing.costPerDay ?? 0)
+      setCurrency(existing.currency ?? getCurrency())
       setCostNotes(existing.costNotes ?? '')
+      setBufferBefore(existing.bufferBeforeMinutes?.toString() ?? '')
+      setBufferAfter(existing.bufferAfterMinutes?.toString() ?? '')
       setHotelFriendly(existing.hotelFriendly ?? false)
       setNotes(existing.notes ?? '')
     }
   }, [existing])
 
+  function handleCityChange(value: string) {
+    setCity(value)
+    if (!zonePicked) setTimeZone(guessTimeZone(value) ?? '')
+  }
+
   async function handleSave() {
     if (!name.trim() || !city.trim()) {
       showToast('Name and city are required')
@@ -939,6 +995,7 @@ function VenueEditor({ venueId, onSave, onCancel }: { venueId?: string; onSave:
         name: name.trim(),
         venueType,
         city: city.trim(),
+        timeZone: timeZone || guessTimeZone(city),
         address: address.trim(),
         directions: directions.trim() || undefined,
         contactName: contactName.trim() || undefined,
@@ -950,7 +1007,11 @@ function VenueEditor({ venueId, onSave, onCancel }: { venueId?: string; onSave:
         bookingNotes: bookingNotes.trim() || undefined,
         costPerHour: costPerHour || undefined,
         costPerDay: costPerDay || undefined,
+        currency,
         costNotes: costNotes.trim() || undefined,
+        // Blank = use the Incall buffers from Settings
+        bufferBeforeMinutes: bufferBefore.trim() ? Math.max(0, parseInt(bufferBefore) || 0) : undefined,
+        bufferAfterMinutes: bufferAfter.trim() ? Math.max(0, parseInt(bufferAfter) || 0) : undefined,
         hotelFriendly: venueType === 'Hotel' ? (hotelFriendly || undefined) : undefined,
         notes: notes.trim() || undefined,
         updatedAt: new Date(),
@@ -983,7 +1044,11 @@ function VenueEditor({ venueId, onSave, onCancel }: { venueId?: string; onSave:
       <SectionLabel label="Basic Info" />
       <FieldTextInput label="Name" value={name} onChange={setName} placeholder="e.g. Downtown Studio" required />
       <FieldSelect label="Type" value={venueType} options={venueTypes} onChange={v => setVenueType(v as VenueType)} />
-      <FieldTextInput label="City" value={city} onChange={setCity} placeholder="e.g. Vancouver" required />
+      <FieldTextInput label="City" value={city} onChange={handleCityChange} placeholder="e.g. Vancouver" required />
+      <FieldSelect label="Time Zone" value={timeZone} options={['', ...timeZoneOptions(timeZone || undefined)]}
+        onChange={v => { setTimeZone(v); setZonePicked(true) }}
+        displayFn={z => z ? zoneLabel(z) : 'Not set'}
+        hint="Bookings here are shown on this clock. Filled in from the city." />
       <FieldTextInput label="Address" value={address} onChange={setAddress} placeholder="Full street address" />
 
       {/* Hotel friendly toggle */}
@@ -1050,14 +1115,30 @@ function VenueEditor({ venueId, onSave, onCancel }: { venueId?: string; onSave:
       <SectionLabel label="Costs" />
       <div className="flex gap-3">
         <div className="flex-1">
-          <FieldCurrency label="Per Hour" value={costPerHour} onChange={setCostPerHour} />
+          <FieldCurrency label="Per Hour" value={costPerHour} onChange={setCostPerHour} currency={currency} />
         </div>
         <div className="flex-1">
-          <FieldCurrency label="Per Day" value={costPerDay} onChange={setCostPerDay} />
+          <FieldCurrency label="Per Day" value={costPerDay} onChange={setCostPerDay} currency={currency} />
         </div>
       </div>
+      <FieldSelect label="Currency" value={currency} options={currencyOptions(currency)} onChange={setCurrency}
+        displayFn={currencyLabel}
+        hint={currency !== getCurrency() ? 'Venue costs are recorded in this currency; Finances converts them' : undefined} />
       <FieldTextInput label="Cost Notes" value={costNotes} onChange={setCostNotes} placeholder="Payment terms, cleaning fees..." />
 
+      <SectionLabel label="Turnover" optional />
+      <div className="flex gap-3">
+        <div className="flex-1">
+          <FieldTextInput label="Before (min)" type="number" value={bufferBefore} onChange={setBufferBefore} placeholder="Default" />
+        </div>
+        <div className="flex-1">
+          <FieldTextInput label="After (min)" type="number" value={bufferAfter} onChange={setBufferAfter} placeholder="Default" />
+        </div>
+      </div>
+      <p className="text-xs -mt-2 mb-3" style={{ color: 'var(--text-secondary)' }}>
+        Setup and cleanup time blocked around bookings here. Leave blank to use your Incall buffers from Settings.
+      </p>
+
       <SectionLabel label="Notes" />
       <textarea
         value={notes}
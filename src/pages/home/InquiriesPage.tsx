@@ -0,0 +1,276 @@
+import { useEffect, useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Copy, Inbox, RefreshCw, Share2, Trash2, UserPlus, X } from 'lucide-react'
+import { parseISO } from 'date-fns'
+import { db, bookingDurationFormatted } from '../../db'
+import { isFieldEncryptionReady } from '../../db/fieldCrypto'
+import { Modal } from '../../components/Modal'
+import { ConfirmDialog } from '../../components/ConfirmDialog'
+import { showToast } from '../../components/Toast'
+import { canAddBooking, canAddClient } from '../../components/planLimits'
+import { fmtDateAndTime, fmtShortDayDate } from '../../utils/dateFormat'
+import { formatTime12 } from '../../utils/availability'
+import {
+  closeInquiryInbox, convertInquiry, dismissInquiry, getInquiryInbox, inquiryLink, matchingClients,
+  openInquiryInbox, pullInquiries, type InquiryInbox,
+} from '../../utils/inquiries'
+import type { Inquiry } from '../../types'
+
+interface InquiriesPageProps {
+  isOpen: boolean
+  onClose: () => void
+  onOpenBooking?: (bookingId: string) => void
+  onOpenClient?: (clientId: string) => void
+}
+
+/**
+ * Booking requests from the public form. Each can become a client and a
+ * 'To Be Confirmed' booking in one tap, or be dismissed.
+ */
+export function InquiriesPage({ isOpen, onClose, onOpenBooking, onOpenClient }: InquiriesPageProps) {
+  const inquiries = useLiveQuery(() => db.inquiries.orderBy('receivedAt').reverse().toArray())
+  const [inbox, setInbox] = useState<InquiryInbox | null | undefined>(undefined)
+  const [busy, setBusy] = useState(false)
+  const [confirm, setConfirm] = useState<'close' | 'reset' | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    getInquiryInbox().then(setInbox).catch(() => setInbox(null))
+  }, [isOpen])
+
+  // Check for new requests whenever the inbox is opened
+  useEffect(() => {
+    if (isOpen && inbox) handleCheck(true)
+  }, [isOpen, inbox?.inboxId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const pending = (inquiries ?? []).filter(i => i.status === 'new')
+  const handled = (inquiries ?? []).filter(i => i.status !== 'new')
+  const link = inbox ? inquiryLink(inbox) : ''
+
+  async function handleOpenInbox() {
+    setBusy(true)
+    try {
+      setInbox(await openInquiryInbox())
+      showToast('Request link created')
+    } catch (err) {
+      showToast(`Could not create link: ${(err as Error).message}`, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleClose(reopen: boolean) {
+    setConfirm(null)
+    setBusy(true)
+    try {
+      await closeInquiryInbox()
+      setInbox(reopen ? await openInquiryInbox() : null)
+      showToast(reopen ? 'New link created — the old one no longer works' : 'Request link turned off')
+    } catch (err) {
+      showToast(`Failed: ${(err as Error).message}`, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleCheck(quiet = false) {
+    setBusy(true)
+    try {
+      const added = await pullInquiries()
+      if (!quiet || added > 0) showToast(added > 0 ? `${added} new request${added === 1 ? '' : 's'}` : 'No new requests')
+    } catch (err) {
+      showToast(`Could not check requests: ${(err as Error).message}`, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function handleCopy() {
+    navigator.clipboard.writeText(link)
+      .then(() => showToast('Link copied'))
+      .catch(() => showToast('Could not copy to clipboard'))
+  }
+
+  function handleShare() {
+    navigator.share({ title: 'Booking request', url: link }).catch(() => { /* dismissed */ })
+  }
+
+  async function handleConvert(inquiry: Inquiry) {
+    try {
+      const matches = await matchingClients(inquiry)
+      if (matches.some(c => c.isBlocked)) {
+        showToast('This contact belongs to a blocked client', 'error')
+        return
+      }
+      const existing = matches[0]
+      if (!existing && !await canAddClient()) {
+        showToast('Free plan limit reached — upgrade to add more clients')
+        return
+      }
+      if (inquiry.date && !await canAddBooking()) {
+        showToast('Free plan limit reached — upgrade to add more bookings')
+        return
+      }
+      const { clientId, bookingId } = await convertInquiry(inquiry, existing)
+      showToast(existing
+        ? `Added to ${existing.alias}${bookingId ? ' · booking to be confirmed' : ''}`
+        : `${inquiry.name} added${bookingId ? ' · booking to be confirmed' : ''}`)
+      if (bookingId) onOpenBooking?.(bookingId)
+      else onOpenClient?.(clientId)
+    } catch (err) {
+      showToast(`Could not create client: ${(err as Error).message}`, 'error')
+    }
+  }
+
+  function renderRequested(inquiry: Inquiry) {
+    const parts = [
+      inquiry.date ? fmtShortDayDate(parseISO(inquiry.date)) : 'Any day',
+      inquiry.time ? formatTime12(inquiry.time) : null,
+      inquiry.duration ? bookingDurationFormatted(inquiry.duration) : null,
+      inquiry.locationType ?? null,
+    ]
+    return parts.filter(Boolean).join(' · ')
+  }
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={onClose} title="Inquiries"
+        actions={inbox ? (
+          <button onClick={() => handleCheck()} disabled={busy} className="p-2 disabled:opacity-40"
+            style={{ color: 'var(--text-secondary)' }} aria-label="Check for requests">
+            <RefreshCw size={18} className={busy ? 'animate-spin' : ''} />
+          </button>
+        ) : undefined}
+      >
+        <div className="px-4 py-3 space-y-4">
+          {/* Request link */}
+          <div className="p-3 rounded-xl" style={{ backgroundColor: 'var(--bg-secondary)', border: '1px solid var(--border)' }}>
+            <p className="text-xs font-semibold uppercase mb-1" style={{ color: 'var(--text-secondary)' }}>Request Link</p>
+            {inbox === undefined ? null : inbox ? (
+              <>
+                <p className="text-xs break-all mb-2" style={{ color: 'var(--text-primary)' }}>{link}</p>
+                <div className="flex gap-2">
+                  <button onClick={handleCopy}
+                    className="flex-1 py-2 rounded-lg text-xs font-semibold flex items-center justify-center gap-1.5"
+                    style={{ backgroundColor: 'var(--bg-base)', color: 'var(--text-secondary)', border: '1px solid var(--border)' }}>
+                    <Copy size={13} /> Copy
+                  </button>
+                  {typeof navigator.share === 'function' && (
+                    <button onClick={handleShare}
+                      className="flex-1 py-2 rounded-lg text-xs font-semibold flex items-center justify-center gap-1.5"
+                      style={{ backgroundColor: 'var(--bg-base)', color: 'var(--text-secondary)', border: '1px solid var(--border)' }}>
+                      <Share2 size={13} /> Share
+                    </button>
+                  )}
+                </div>
+                <div className="flex gap-4 mt-2 px-1">
+                  <button onClick={() => setConfirm('reset')} disabled={busy} className="text-xs text-purple-500">Reset link</button>
+                  <button onClick={() => setConfirm('close')} disabled={busy} className="text-xs text-red-500">Turn off</button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+                  Send clients a link to a booking request form. Requests are encrypted in their browser to a key that
+                  only this device holds — the server stores ciphertext it can't read.
+                </p>
+                {!isFieldEncryptionReady() && (
+                  <p className="text-xs text-orange-500 mb-2">Requires PIN Lock — the key is protected by your PIN.</p>
+                )}
+                <button onClick={handleOpenInbox} disabled={busy || !isFieldEncryptionReady()}
+                  className="w-full py-2.5 rounded-lg text-sm font-semibold text-white disabled:opacity-40"
+                  style={{ backgroundColor: '#a855f7' }}>
+                  Create Request Link
+                </button>
+              </>
+            )}
+          </div>
+
+          {/* New */}
+          <div>
+            <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>New</p>
+            {inquiries === undefined ? (
+              <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>Loading…</p>
+            ) : pending.length === 0 ? (
+              <div className="flex flex-col items-center py-6 gap-2" style={{ color: 'var(--text-secondary)' }}>
+                <Inbox size={28} />
+                <p className="text-sm">No new requests</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {pending.map(inquiry => (
+                  <div key={inquiry.id} className="p-3 rounded-xl" style={{ backgroundColor: 'var(--bg-secondary)', border: '1px solid var(--border)' }}>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold truncate" style={{ color: 'var(--text-primary)' }}>{inquiry.name}</p>
+                        <p className="text-xs truncate" style={{ color: 'var(--text-secondary)' }}>
+                          {inquiry.contactMethod} · {inquiry.contact}
+                        </p>
+                      </div>
+                      <span className="text-[10px] shrink-0" style={{ color: 'var(--text-secondary)' }}>
+                        {fmtDateAndTime(new Date(inquiry.submittedAt))}
+                      </span>
+                    </div>
+                    <p className="text-xs mt-1.5 font-medium" style={{ color: '#a855f7' }}>{renderRequested(inquiry)}</p>
+                    {inquiry.message && (
+                      <p className="text-xs mt-1.5 whitespace-pre-wrap" style={{ color: 'var(--text-primary)' }}>{inquiry.message}</p>
+                    )}
+                    <div className="flex gap-2 mt-3">
+                      <button onClick={() => handleConvert(inquiry)}
+                        className="flex-1 py-2 rounded-lg text-xs font-semibold text-white flex items-center justify-center gap-1.5"
+                        style={{ backgroundColor: '#a855f7' }}>
+                        <UserPlus size={13} /> {inquiry.date ? 'Create Client & Booking' : 'Create Client'}
+                      </button>
+                      <button onClick={() => dismissInquiry(inquiry.id)} aria-label="Dismiss"
+                        className="px-3 py-2 rounded-lg" style={{ color: 'var(--text-secondary)', border: '1px solid var(--border)' }}>
+                        <X size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Handled */}
+          {handled.length > 0 && (
+            <div className="pb-4">
+              <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Handled</p>
+              <div className="space-y-1.5">
+                {handled.map(inquiry => (
+                  <div key={inquiry.id} className="flex items-center gap-2 px-3 py-2 rounded-lg" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+                    <button
+                      className="flex-1 min-w-0 text-left"
+                      disabled={inquiry.status !== 'converted'}
+                      onClick={() => inquiry.bookingId ? onOpenBooking?.(inquiry.bookingId) : inquiry.clientId && onOpenClient?.(inquiry.clientId)}
+                    >
+                      <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>{inquiry.name}</p>
+                      <p className="text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+                        {inquiry.status === 'converted' ? 'Added' : 'Dismissed'} · {renderRequested(inquiry)}
+                      </p>
+                    </button>
+                    <button onClick={() => db.inquiries.delete(inquiry.id)} aria-label="Delete"
+                      className="p-1.5" style={{ color: 'var(--text-secondary)' }}>
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </Modal>
+
+      <ConfirmDialog
+        isOpen={confirm !== null}
+        title={confirm === 'reset' ? 'Reset Request Link' : 'Turn Off Request Link'}
+        message={confirm === 'reset'
+          ? 'The current link stops working and a new one is made. Requests not yet pulled to this device are lost.'
+          : 'The link stops working. Requests not yet pulled to this device are lost; inquiries already here are kept.'}
+        confirmLabel={confirm === 'reset' ? 'Reset' : 'Turn Off'}
+        onConfirm={() => handleClose(confirm === 'reset')}
+        onCancel={() => setConfirm(null)}
+      />
+    </>
+  )
+}
@@ -7,6 +7,7 @@ import { SectionLabel, FieldHint, FieldTextInput, fieldInputStyle, deriveCurrenc
 import { ConfirmDialog } from '../../components/ConfirmDialog'
 import { showToast } from '../../components/Toast'
 import { formatPhone } from '../../utils/formatPhone'
+import { SUPPORTED_CURRENCIES } from '../../utils/fx'
 import { useLocalStorage } from '../../hooks/useSettings'
 
 interface ProfilePageProps {
@@ -51,6 +52,16 @@ export function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
     'Hi {client}, thank you for our time together! I had a wonderful time and hope to see you again soon.\n\n— {name}'
   )
 
+  const [tplOpenTimes, setTplOpenTimes] = useLocalStorage('tplOpenTimes',
+    "Hi {client}! Here's when I'm free:\n\n{slots}\n\nLet me know what works best for you.\n\n— {name}"
+  )
+  const [tplTouring, setTplTouring] = useLocalStorage('tplTouring',
+    "Hi {client}! I'll be in {tourCity} {tourDates} and have a few openings. Let me know if you'd like to meet while I'm there!\n\n— {name}"
+  )
+  const [tplSlotOpened, setTplSlotOpened] = useLocalStorage('tplSlotOpened',
+    "Hi {client}! A spot just opened up on {openSlot}. You asked to hear if anything came free — would you like it?\n\n— {name}"
+  )
+
   // Template accordion
   const [showBookingTemplates, setShowBookingTemplates] = useState(false)
 
@@ -329,7 +340,7 @@ export function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
         {showBookingTemplates && (
           <div>
             <p className="text-[11px] mb-3 px-1" style={{ color: 'var(--text-tertiary, var(--text-secondary))' }}>
-              Used from Message Client. Placeholders: {'{client}'}, {'{name}'}, {'{date}'}, {'{time}'}, {'{duration}'}, {'{rate}'}, {'{deposit}'}, {'{balance}'}, {'{venue}'}, {'{address}'}, {'{directions}'}
+              Used from Message Client. Placeholders: {'{client}'}, {'{name}'}, {'{date}'}, {'{time}'}, {'{duration}'}, {'{rate}'}, {'{deposit}'}, {'{balance}'}, {'{venue}'}, {'{address}'}, {'{directions}'}, {'{slots}'}, {'{tourCity}'}, {'{tourDates}'}, {'{openSlot}'}
             </p>
 
             <SectionLabel label="Confirmation" />
@@ -411,6 +422,57 @@ export function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
             >
               Reset to default
             </button>
+
+            <SectionLabel label="Open Times" />
+            <FieldHint text="Sent from Find Open Times on the schedule. {slots} is replaced with the times you pick." />
+            <textarea
+              value={tplOpenTimes}
+              onChange={e => setTplOpenTimes(e.target.value)}
+              rows={5}
+              aria-label="Open times template"
+              className="w-full px-3 py-2.5 rounded-lg text-sm outline-none resize-none mb-1"
+              style={{ ...fieldInputStyle, fontSize: '16px' }}
+            />
+            <button
+              onClick={() => setTplOpenTimes("Hi {client}! Here's when I'm free:\n\n{slots}\n\nLet me know what works best for you.\n\n— {name}")}
+              className="text-xs text-purple-500 mb-3 px-1"
+            >
+              Reset to default
+            </button>
+
+            <SectionLabel label="Touring Soon" />
+            <FieldHint text="Offered while a tour is under way or coming up. {tourCity} and {tourDates} are its current or next city and that city's dates." />
+            <textarea
+              value={tplTouring}
+              onChange={e => setTplTouring(e.target.value)}
+              rows={4}
+              aria-label="Touring soon template"
+              className="w-full px-3 py-2.5 rounded-lg text-sm outline-none resize-none mb-1"
+              style={{ ...fieldInputStyle, fontSize: '16px' }}
+            />
+            <button
+              onClick={() => setTplTouring("Hi {client}! I'll be in {tourCity} {tourDates} and have a few openings. Let me know if you'd like to meet while I'm there!\n\n— {name}")}
+              className="text-xs text-purple-500 mb-3 px-1"
+            >
+              Reset to default
+            </button>
+
+            <SectionLabel label="Slot Opened" />
+            <FieldHint text="Offered to waitlisted clients when a cancellation frees a time they wanted. {openSlot} is the freed day and time." />
+            <textarea
+              value={tplSlotOpened}
+              onChange={e => setTplSlotOpened(e.target.value)}
+              rows={4}
+              aria-label="Slot opened template"
+              className="w-full px-3 py-2.5 rounded-lg text-sm outline-none resize-none mb-1"
+              style={{ ...fieldInputStyle, fontSize: '16px' }}
+            />
+            <button
+              onClick={() => setTplSlotOpened("Hi {client}! A spot just opened up on {openSlot}. You asked to hear if anything came free — would you like it?\n\n— {name}")}
+              className="text-xs text-purple-500 mb-3 px-1"
+            >
+              Reset to default
+            </button>
           </div>
         )}
 
@@ -427,28 +489,3 @@ export function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
     </Modal>
   )
 }
-
-const SUPPORTED_CURRENCIES: { code: string; label: string }[] = [
-  { code: 'USD', label: 'USD — US Dollar ($)' },
-  { code: 'CAD', label: 'CAD — Canadian Dollar ($)' },
-  { code: 'AUD', label: 'AUD — Australian Dollar ($)' },
-  { code: 'NZD', label: 'NZD — New Zealand Dollar ($)' },
-  { code: 'GBP', label: 'GBP — British Pound (£)' },
-  { code: 'EUR', label: 'EUR — Euro (€)' },
-  { code: 'CHF', label: 'CHF — Swiss Franc (Fr)' },
-  { code: 'SEK', label: 'SEK — Swedish Krona (kr)' },
-  { code: 'NOK', label: 'NOK — Norwegian Krone (kr)' },
-  { code: 'DKK', label: 'DKK — Danish Krone (kr)' },
-  { code: 'JPY', label: 'JPY — Japanese Yen (¥)' },
-  { code: 'HKD', label: 'HKD — Hong Kong Dollar ($)' },
-  { code: 'SGD', label: 'SGD — Singapore Dollar ($)' },
-  { code: 'THB', label: 'THB — Thai Baht (฿)' },
-  { code: 'INR', label: 'INR — Indian Rupee (₹)' },
-  { code: 'AED', label: 'AED — UAE Dirham (د.إ)' },
-  { code: 'ZAR', label: 'ZAR — South African Rand (R)' },
-  { code: 'BRL', label: 'BRL — Brazilian Real (R$)' },
-  { code: 'MXN', label: 'MXN — Mexican Peso ($)' },
-  { code: 'COP', label: 'COP — Colombian Peso ($)' },
-  { code: 'ARS', label: 'ARS — Argentine Peso ($)' },
-  { code: 'CLP', label: 'CLP — Chilean Peso ($)' },
-]
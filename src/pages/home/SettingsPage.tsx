@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react'
-import { Database, MessageSquare, Users, Plus, X } from 'lucide-react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Database, MessageSquare, Users, Plus, X, Trash2 } from 'lucide-react'
 import { db } from '../../db'
 import { seedSampleData } from '../../data/sampleData'
 import { clearSampleData } from '../../data/sampleDataState'
@@ -14,12 +15,23 @@ import {
   isFieldEncryptionReady,
 } from '../../db/fieldCrypto'
 import { ConfirmDialog } from '../../components/ConfirmDialog'
-import { BackupRestoreModal, createBackup } from '../../components/BackupRestore'
+import { BackupRestoreModal } from '../../components/BackupRestore'
+import { TrashModal } from '../../components/TrashModal'
+import { createBackup } from '../../utils/backup'
+import { DeviceSyncSettings } from '../../components/DeviceSyncSettings'
+import { CalendarFeedSettings } from '../../components/CalendarFeedSettings'
+import { CalendarImportSettings } from '../../components/CalendarImportSettings'
 import { AdminPanel } from '../../components/AdminPanel'
 import { getActivation, isActivated, isBetaTester } from '../../components/Paywall'
 import { usePlanLimits, isPro } from '../../components/planLimits'
 import { ProBadge } from '../../components/ProGate'
 import { useLocalStorage, lsKey } from '../../hooks/useSettings'
+import {
+  BOOKING_BUFFERS_KEY, DEFAULT_BOOKING_BUFFERS, MAX_BOOKINGS_PER_DAY_KEY, MAX_BOOKED_HOURS_PER_DAY_KEY,
+  type BufferTimes,
+} from '../../utils/availability'
+import { VENUE_COSTS_AUTO_KEY } from '../../utils/venueCosts'
+import type { LocationType } from '../../types'
 import {
   BACKUP_REMINDER_INTERVAL_KEY, DEFAULT_REMINDER_INTERVAL,
   daysSinceBackup, LAST_BACKUP_KEY, recordBackupTimestamp,
@@ -49,6 +61,8 @@ export function SettingsPage({ onClose, onShowPaywall }: SettingsPageProps) {
   const [showPinSetup, setShowPinSetup] = useState(false)
   const [pinChangePhase, setPinChangePhase] = useState<'verify' | 'setup'>('setup')
   const [showBackup, setShowBackup] = useState(false)
+  const [showTrash, setShowTrash] = useState(false)
+  const trashCount = useLiveQuery(() => db.trash.count(), []) ?? 0
   const [biometricOn, setBiometricOn] = useState(() => isBiometricEnabled())
   const biometricAvailable = useBiometricAvailable()
   const [showBiometricVerify, setShowBiometricVerify] = useState(false)
@@ -64,6 +78,10 @@ export function SettingsPage({ onClose, onShowPaywall }: SettingsPageProps) {
   const [showDuressRemove, setShowDuressRemove] = useState(false)
   const [disablingPin, setDisablingPin] = useState(false)
   const [stealthEnabled, setStealthEnabled] = useLocalStorage('stealthEnabled', false)
+  const [bookingBuffers, setBookingBuffers] = useLocalStorage(BOOKING_BUFFERS_KEY, DEFAULT_BOOKING_BUFFERS)
+  const [maxBookingsPerDay, setMaxBookingsPerDay] = useLocalStorage(MAX_BOOKINGS_PER_DAY_KEY, 0)
+  const [maxBookedHoursPerDay, setMaxBookedHoursPerDay] = useLocalStorage(MAX_BOOKED_HOURS_PER_DAY_KEY, 0)
+  const [venueCostsAuto, setVenueCostsAuto] = useLocalStorage(VENUE_COSTS_AUTO_KEY, false)
 
   /** Apply the resolved dark/light state to the DOM */
   function applyDarkState(isDark: boolean) {
@@ -416,15 +434,99 @@ export function SettingsPage({ onClose, onShowPaywall }: SettingsPageProps) {
               ))}
             </div>
             <p className="text-xs mt-1.5" style={{ color: 'var(--text-secondary)' }}>
-              A reminder appears on the home screen when a backup is due.
+              A reminder appears on the home screen when a backup is due — or, with scheduled backups on, one is saved automatically.
             </p>
           </div>
+          <button type="button" onClick={() => setShowTrash(true)}
+            className="flex items-center gap-3 w-full py-2.5 mb-1 active:opacity-70">
+            <Trash2 size={16} style={{ color: '#a855f7' }} />
+            <span className="text-sm font-medium text-purple-500">Trash</span>
+            {trashCount > 0 && (
+              <span className="text-xs" style={{ color: 'var(--text-secondary)' }}>{trashCount}</span>
+            )}
+          </button>
+          <p className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+            Deleted clients, bookings, venues and incidents can be restored from here.
+          </p>
+          <DeviceSyncSettings pinEnabled={pinEnabled} />
           <button type="button" onClick={() => setShowSampleConfirm(true)}
             className="flex items-center gap-3 w-full py-2.5 mb-3 active:opacity-70">
             <Users size={16} style={{ color: '#a855f7' }} />
             <span className="text-sm font-medium text-purple-500">Load Sample Data</span>
           </button>
 
+          {/* Scheduling */}
+          <SectionLabel label="Scheduling" />
+          <p className="text-xs mb-2" style={{ color: 'var(--text-secondary)' }}>
+            Minutes blocked before and after each booking — travel for outcalls, turnover for incalls.
+            Bookings that cut into them are flagged when saving.
+          </p>
+          <div className="mb-3 rounded-lg overflow-hidden" style={{ backgroundColor: 'var(--bg-primary)' }}>
+            <div className="flex items-center px-2 pt-2 pb-1 text-[10px] font-semibold uppercase" style={{ color: 'var(--text-secondary)' }}>
+              <span className="flex-1" />
+              <span className="w-16 text-center">Before</span>
+              <span className="w-16 text-center ml-2">After</span>
+            </div>
+            {(Object.keys(DEFAULT_BOOKING_BUFFERS) as LocationType[]).map(type => {
+              const current = { ...DEFAULT_BOOKING_BUFFERS[type], ...bookingBuffers[type] }
+              const update = (side: keyof BufferTimes, value: string) =>
+                setBookingBuffers(prev => ({
+                  ...prev,
+                  [type]: { ...DEFAULT_BOOKING_BUFFERS[type], ...prev[type], [side]: Math.max(0, parseInt(value) || 0) },
+                }))
+              return (
+                <div key={type} className="flex items-center px-2 py-1.5">
+                  <span className="flex-1 text-sm" style={{ color: 'var(--text-primary)' }}>{type}</span>
+                  {(['before', 'after'] as const).map(side => (
+                    <input
+                      key={side}
+                      type="number"
+                      inputMode="numeric"
+                      min={0}
+                      step={5}
+                      value={current[side] || ''}
+                      placeholder="0"
+                      onChange={e => update(side, e.target.value)}
+                      aria-label={`${type} buffer ${side} (minutes)`}
+                      className={`w-16 text-center py-1 rounded-lg border-0 outline-none ${side === 'after' ? 'ml-2' : ''}`}
+                      style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)', fontSize: '16px' }}
+                    />
+                  ))}
+                </div>
+              )
+            })}
+          </div>
+          <div className="flex gap-3 mb-1">
+            {([
+              ['Max bookings / day', maxBookingsPerDay, setMaxBookingsPerDay],
+              ['Max booked hours / day', maxBookedHoursPerDay, setMaxBookedHoursPerDay],
+            ] as const).map(([label, value, setValue]) => (
+              <label key={label} className="flex-1">
+                <span className="text-xs font-semibold block mb-1" style={{ color: 'var(--text-primary)' }}>{label}</span>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  value={value || ''}
+                  placeholder="No limit"
+                  onChange={e => setValue(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-full text-sm py-1.5 px-2 rounded-lg border-0 outline-none"
+                  style={{ backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)', fontSize: '16px' }}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+            Cancelled and no-show bookings don't count toward daily limits.
+          </p>
+          <FieldToggle label="Record venue costs automatically" value={venueCostsAuto} onChange={setVenueCostsAuto}
+            hint="When an incall booking completes, add its venue's day rate (once per day) or hourly cost as an expense. Off: they're listed on Finances to confirm." />
+
+          {/* Calendar */}
+          <SectionLabel label="Calendar" />
+          <CalendarFeedSettings />
+          <CalendarImportSettings />
+
           {/* Default Checklist */}
           <SectionLabel label="Default Checklist" />
           <p className="text-xs mb-2" style={{ color: 'var(--text-secondary)' }}>
@@ -638,6 +740,7 @@ export function SettingsPage({ onClose, onShowPaywall }: SettingsPageProps) {
       )}
 
       <BackupRestoreModal isOpen={showBackup} onClose={() => setShowBackup(false)} />
+      <TrashModal isOpen={showTrash} onClose={() => setShowTrash(false)} />
       <AdminPanel isOpen={showAdmin} onClose={() => setShowAdmin(false)} />
       <ConfirmDialog
         isOpen={showResetConfirm}
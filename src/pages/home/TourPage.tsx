@@ -0,0 +1,567 @@
+import { useState } from 'react'
+import { useScrollLock } from '../../hooks/useScrollLock'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { X, Plus, ArrowLeft, Edit, Trash2, Plane, MapPin, Building2 } from 'lucide-react'
+import { addDays, format, parseISO } from 'date-fns'
+import { fmtShortDayDate } from '../../utils/dateFormat'
+import { db, newId, formatCurrency, getCurrency } from '../../db'
+import { Card } from '../../components/Card'
+import { ConfirmDialog } from '../../components/ConfirmDialog'
+import { StatusBadge } from '../../components/StatusBadge'
+import { SectionLabel, FieldTextInput, FieldSelect, FieldCurrency, FieldDate, fieldInputStyle } from '../../components/FormFields'
+import { showToast } from '../../components/Toast'
+import { bookingStatusColors } from '../../types'
+import type { Tour, TourStop } from '../../types'
+import { fmtBookingTime, guessTimeZone, timeZoneOptions, zoneLabel } from '../../utils/timeZone'
+import { createFxConverter } from '../../utils/fx'
+import {
+  activeOrNextTour, deleteTour, fmtDayRange, saveTour, stopDayCount, stopOn, tourBookings, tourProfitLoss, tourSpan,
+} from '../../utils/tours'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MAIN PAGE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+interface TourPageProps {
+  isOpen: boolean
+  onClose: () => void
+  onOpenBooking?: (bookingId: string) => void
+}
+
+type Screen = { view: 'list' } | { view: 'detail'; tourId: string } | { view: 'editor'; tourId?: string }
+
+export function TourPage({ isOpen, onClose, onOpenBooking }: TourPageProps) {
+  const [screen, setScreen] = useState<Screen>({ view: 'list' })
+
+  useScrollLock(isOpen)
+
+  if (!isOpen) return null
+
+  function handleBack() {
+    if (screen.view === 'editor' && screen.tourId) {
+      setScreen({ view: 'detail', tourId: screen.tourId })
+    } else if (screen.view !== 'list') {
+      setScreen({ view: 'list' })
+    } else {
+      onClose()
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col">
+      <div className="absolute inset-0 bg-black/50" onClick={screen.view === 'list' ? onClose : undefined} />
+
+      <div
+        className="relative mt-8 flex-1 flex flex-col rounded-t-2xl overflow-hidden animate-slide-up safe-bottom"
+        style={{ backgroundColor: 'var(--bg-card)' }}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between px-4 py-3 border-b shrink-0"
+          style={{ borderColor: 'var(--border)' }}
+        >
+          <button onClick={handleBack} className="p-2 -ml-1" style={{ color: 'var(--text-secondary)' }}
+            aria-label={screen.view === 'list' ? 'Close' : 'Back'}>
+            {screen.view === 'list' ? <X size={20} /> : <ArrowLeft size={20} />}
+          </button>
+          <h2 className="font-semibold text-base" style={{ color: 'var(--text-primary)' }}>
+            {screen.view === 'list' ? 'Tours' : screen.view === 'detail' ? 'Tour' : screen.tourId ? 'Edit Tour' : 'New Tour'}
+          </h2>
+          <div className="w-7">
+            {screen.view === 'list' && (
+              <button onClick={() => setScreen({ view: 'editor' })} className="p-2 text-purple-500" aria-label="Add tour">
+                <Plus size={20} />
+              </button>
+            )}
+            {screen.view === 'detail' && (
+              <button onClick={() => setScreen({ view: 'editor', tourId: screen.tourId })} className="p-2 text-purple-500" aria-label="Edit tour">
+                <Edit size={18} />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto">
+          {screen.view === 'list' && (
+            <TourList
+              onOpen={(id) => setScreen({ view: 'detail', tourId: id })}
+              onNew={() => setScreen({ view: 'editor' })}
+            />
+          )}
+          {screen.view === 'detail' && (
+            <TourDetail
+              tourId={screen.tourId}
+              onEdit={() => setScreen({ view: 'editor', tourId: screen.tourId })}
+              onBack={() => setScreen({ view: 'list' })}
+              onOpenBooking={onOpenBooking}
+            />
+          )}
+          {screen.view === 'editor' && (
+            <TourEditor
+              tourId={screen.tourId}
+              onSave={(id) => setScreen({ view: 'detail', tourId: id })}
+              onCancel={handleBack}
+            />
+          )}
+        </div>
+      </div>
+
+      <style>{`
+        @keyframes slideUp {
+          from { transform: translateY(100%); }
+          to { transform: translateY(0); }
+        }
+        .animate-slide-up {
+          animation: slideUp 0.3s ease-out;
+        }
+      `}</style>
+    </div>
+  )
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TOUR LIST
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function TourList({ onOpen, onNew }: { onOpen: (id: string) => void; onNew: () => void }) {
+  const tours = useLiveQuery(() => db.tours.toArray()) ?? []
+  const now = new Date()
+  const current = activeOrNextTour(tours, now)
+
+  // Upcoming soonest first, then past tours most recent first
+  const sorted = [...tours].sort((a, b) => {
+    const sa = tourSpan(a)
+    const sb = tourSpan(b)
+    const pastA = !sa || sa.end < now
+    const pastB = !sb || sb.end < now
+    if (pastA !== pastB) return pastA ? 1 : -1
+    const diff = (sa?.start.getTime() ?? 0) - (sb?.start.getTime() ?? 0)
+    return pastA ? -diff : diff
+  })
+
+  if (tours.length === 0) return (
+    <div className="text-center py-12 px-4">
+      <Plane size={40} className="mx-auto mb-3" style={{ color: 'var(--text-secondary)', opacity: 0.4 }} />
+      <p className="text-sm font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>No tours yet</p>
+      <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+        Plan a trip city by city — availability is set for the dates and bookings made there are grouped together.
+      </p>
+      <button onClick={onNew} className="text-sm font-medium text-purple-500 mt-3">
+        + Plan your first tour
+      </button>
+    </div>
+  )
+
+  return (
+    <div className="p-4 space-y-2">
+      {sorted.map(tour => {
+        const span = tourSpan(tour)
+        const past = !span || span.end < now
+        const cities = tour.stops.map(s => s.city).join(' → ')
+        return (
+          <button
+            key={tour.id}
+            onClick={() => onOpen(tour.id)}
+            className="w-full text-left rounded-xl p-3 active:opacity-70 transition-opacity"
+            style={{ backgroundColor: 'var(--bg-card)', border: '1px solid var(--border)', opacity: past ? 0.6 : 1 }}
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold truncate flex-1" style={{ color: 'var(--text-primary)' }}>{tour.name}</span>
+              {tour.id === current?.id && (
+                <span className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-purple-500/15 text-purple-500">
+                  {span && span.start <= now ? 'ON TOUR' : 'NEXT'}
+                </span>
+              )}
+            </div>
+            {cities && <p className="text-xs truncate" style={{ color: 'var(--text-secondary)' }}>{cities}</p>}
+            {span && (
+              <p className="text-[11px] mt-0.5" style={{ color: 'var(--text-secondary)' }}>
+                {fmtDayRange(format(span.start, 'yyyy-MM-dd'), format(span.end, 'yyyy-MM-dd'))}
+              </p>
+            )}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TOUR DETAIL
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function TourDetail({ tourId, onEdit, onBack, onOpenBooking }: {
+  tourId: string
+  onEdit: () => void
+  onBack: () => void
+  onOpenBooking?: (bookingId: string) => void
+}) {
+  const tour = useLiveQuery(() => db.tours.get(tourId), [tourId])
+  const bookings = useLiveQuery(() => db.bookings.toArray()) ?? []
+  const transactions = useLiveQuery(() => db.transactions.toArray()) ?? []
+  const venues = useLiveQuery(() => db.incallVenues.toArray()) ?? []
+  const clients = useLiveQuery(() => db.clients.toArray()) ?? []
+  const fxRates = useLiveQuery(() => db.fxRates.toArray()) ?? []
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  if (!tour) return (
+    <div className="flex flex-col items-center justify-center p-8 text-center" style={{ minHeight: '40vh' }}>
+      <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>Tour not found or loading...</p>
+      <button onClick={onBack} className="mt-3 px-4 py-2 rounded-xl text-sm font-semibold text-white bg-purple-600 active:scale-[0.97]">
+        Go back
+      </button>
+    </div>
+  )
+
+  const venueMap = new Map(venues.map(v => [v.id, v]))
+  const clientMap = new Map(clients.map(c => [c.id, c]))
+  const grouped = tourBookings(tour, bookings)
+  const pnl = tourProfitLoss(tour, bookings, transactions, venueMap, createFxConverter(fxRates, getCurrency()))
+  const linkedExpenses = transactions
+    .filter(t => t.tourId === tour.id)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+  async function handleDelete() {
+    setConfirmDelete(false)
+    try {
+      await deleteTour(tourId)
+      showToast('Tour deleted')
+      onBack()
+    } catch (err) {
+      showToast(`Delete failed: ${(err as Error).message}`)
+    }
+  }
+
+  const pnlRows: [string, number][] = [
+    ['Income', pnl.income],
+    ['Expenses', -pnl.expenses],
+    ['Venues', -pnl.venueCosts],
+    ['Lodging', -pnl.lodging],
+    ['Travel', -pnl.travel],
+  ]
+
+  return (
+    <div className="p-4 space-y-3">
+      <Card>
+        <h3 className="text-lg font-bold" style={{ color: 'var(--text-primary)' }}>{tour.name}</h3>
+        <p className="text-xs mt-0.5" style={{ color: 'var(--text-secondary)' }}>
+          {tour.stops.length} {tour.stops.length === 1 ? 'city' : 'cities'} · hours {tour.startTime} – {tour.endTime}
+        </p>
+      </Card>
+
+      {/* Stops */}
+      <Card>
+        <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Itinerary</p>
+        {tour.stops.map((stop, i) => {
+          const venue = stop.venueId ? venueMap.get(stop.venueId) : undefined
+          const count = grouped.filter(b => stopOn(tour, new Date(b.dateTime))?.id === stop.id).length
+          return (
+            <div key={stop.id} className="py-2" style={{ borderTop: i > 0 ? '1px solid var(--border)' : undefined }}>
+              <div className="flex items-center gap-2">
+                <MapPin size={14} style={{ color: '#a855f7' }} />
+                <span className="text-sm font-semibold flex-1" style={{ color: 'var(--text-primary)' }}>{stop.city}</span>
+                <span className="text-xs" style={{ color: 'var(--text-secondary)' }}>{fmtDayRange(stop.startDate, stop.endDate)}</span>
+              </div>
+              <p className="text-[11px] ml-6" style={{ color: 'var(--text-secondary)' }}>
+                {[
+                  venue?.name,
+                  stop.timeZone ? zoneLabel(stop.timeZone, parseISO(stop.startDate)) : undefined,
+                  `${count} ${count === 1 ? 'booking' : 'bookings'}`,
+                ].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+          )
+        })}
+      </Card>
+
+      {/* P&L */}
+      <Card>
+        <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Profit & Loss</p>
+        {pnlRows.map(([label, amount]) => (
+          <div key={label} className="flex justify-between py-0.5 text-sm">
+            <span style={{ color: 'var(--text-secondary)' }}>{label}</span>
+            <span style={{ color: amount < 0 ? '#ef4444' : 'var(--text-primary)' }}>
+              {amount < 0 ? `−${formatCurrency(-amount)}` : formatCurrency(amount)}
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between pt-2 mt-1 text-sm font-bold" style={{ borderTop: '1px solid var(--border)' }}>
+          <span style={{ color: 'var(--text-primary)' }}>Net</span>
+          <span style={{ color: pnl.net < 0 ? '#ef4444' : '#22c55e' }}>
+            {pnl.net < 0 ? `−${formatCurrency(-pnl.net)}` : formatCurrency(pnl.net)}
+          </span>
+        </div>
+        <p className="text-[11px] mt-2" style={{ color: 'var(--text-secondary)' }}>
+          Income and expenses come from transactions of tour bookings and expenses linked to this tour.
+          Venues count each stop's per-day cost.
+        </p>
+      </Card>
+
+      {/* Bookings */}
+      <Card>
+        <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>
+          Bookings ({grouped.length})
+        </p>
+        {grouped.length === 0 ? (
+          <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>No bookings on tour days yet</p>
+        ) : grouped.map(b => (
+          <button key={b.id} onClick={() => onOpenBooking?.(b.id)} disabled={!onOpenBooking}
+            className="flex items-center gap-2 w-full text-left py-1.5 active:opacity-70">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                {(b.clientId && clientMap.get(b.clientId)?.alias) || 'Booking'}
+              </p>
+              <p className="text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+                {stopOn(tour, new Date(b.dateTime))?.city} · {fmtShortDayDate(new Date(b.dateTime), b.timeZone)} · {fmtBookingTime(b)}
+              </p>
+            </div>
+            <StatusBadge text={b.status} color={bookingStatusColors[b.status]} />
+          </button>
+        ))}
+      </Card>
+
+      {linkedExpenses.length > 0 && (
+        <Card>
+          <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Linked Transactions</p>
+          {linkedExpenses.map(t => (
+            <div key={t.id} className="flex justify-between py-0.5 text-sm">
+              <span className="truncate" style={{ color: 'var(--text-secondary)' }}>
+                {fmtShortDayDate(new Date(t.date))} · {t.notes || t.category}
+              </span>
+              <span style={{ color: t.type === 'expense' ? '#ef4444' : '#22c55e' }}>
+                {t.type === 'expense' ? '−' : ''}{formatCurrency(t.amount, t.currency)}
+              </span>
+            </div>
+          ))}
+        </Card>
+      )}
+
+      {tour.notes && (
+        <Card>
+          <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Notes</p>
+          <p className="text-sm whitespace-pre-wrap" style={{ color: 'var(--text-primary)' }}>{tour.notes}</p>
+        </Card>
+      )}
+
+      {/* Actions */}
+      <Card>
+        <button onClick={onEdit} className="flex items-center gap-3 py-3 w-full text-left">
+          <Edit size={18} className="text-purple-500" />
+          <span className="text-sm font-medium text-purple-500">Edit Tour</span>
+        </button>
+        <div style={{ borderTop: '1px solid var(--border)' }} />
+        <button onClick={() => setConfirmDelete(true)} className="flex items-center gap-3 py-3 w-full text-left">
+          <Trash2 size={18} className="text-red-500" />
+          <span className="text-sm font-medium text-red-500">Delete Tour</span>
+        </button>
+      </Card>
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        title="Delete Tour"
+        message={`Delete "${tour.name}"? Availability it set is cleared. Bookings and transactions are kept.`}
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </div>
+  )
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TOUR EDITOR
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function emptyStop(after?: TourStop): TourStop {
+  const start = after ? format(addDays(parseISO(after.endDate), 1), 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd')
+  return { id: newId(), city: '', startDate: start, endDate: start }
+}
+
+function TourEditor({ tourId, onSave, onCancel }: {
+  tourId?: string
+  onSave: (id: string) => void
+  onCancel: () => void
+}) {
+  // null once looked up and missing
+  const existing = useLiveQuery(async () => tourId ? (await db.tours.get(tourId)) ?? null : null, [tourId])
+  if (existing === undefined) return null
+  return <TourForm key={existing?.id ?? 'new'} existing={existing ?? undefined} onSave={onSave} onCancel={onCancel} />
+}
+
+function TourForm({ existing, onSave, onCancel }: {
+  existing?: Tour
+  onSave: (id: string) => void
+  onCancel: () => void
+}) {
+  const venues = useLiveQuery(() => db.incallVenues.filter(v => !v.isArchived).toArray()) ?? []
+
+  const [name, setName] = useState(existing?.name ?? '')
+  const [stops, setStops] = useState<TourStop[]>(() => existing?.stops.length ? existing.stops : [emptyStop()])
+  const [startTime, setStartTime] = useState(existing?.startTime ?? '10:00')
+  const [endTime, setEndTime] = useState(existing?.endTime ?? '22:00')
+  const [travelCost, setTravelCost] = useState(existing?.travelCost ?? 0)
+  const [notes, setNotes] = useState(existing?.notes ?? '')
+  const [saving, setSaving] = useState(false)
+
+  function updateStop(id: string, changes: Partial<TourStop>) {
+    setStops(prev => prev.map(s => {
+      if (s.id !== id) return s
+      const next = { ...s, ...changes }
+      // Keep the range forward when the start moves past the end
+      if (changes.startDate && next.endDate < changes.startDate) next.endDate = changes.startDate
+      return next
+    }))
+  }
+
+  function handleCityChange(stop: TourStop, city: string) {
+    const venue = stop.venueId ? venues.find(v => v.id === stop.venueId) : undefined
+    updateStop(stop.id, { city, timeZone: venue?.timeZone ?? guessTimeZone(city) ?? stop.timeZone })
+  }
+
+  function handleVenueChange(stop: TourStop, venueId: string) {
+    const venue = venues.find(v => v.id === venueId)
+    updateStop(stop.id, {
+      venueId: venueId || undefined,
+      ...(venue && !stop.city.trim() ? { city: venue.city } : {}),
+      ...(venue?.timeZone ? { timeZone: venue.timeZone } : {}),
+    })
+  }
+
+  async function handleSave() {
+    const filled = stops.filter(s => s.city.trim())
+    if (!name.trim() || filled.length === 0) {
+      showToast('Name and at least one city are required')
+      return
+    }
+    if (filled.some(s => !s.startDate || !s.endDate || s.endDate < s.startDate)) {
+      showToast('Each city needs a start and end date')
+      return
+    }
+    if (startTime === endTime) {
+      showToast('Start and end time cannot be the same')
+      return
+    }
+    if (saving) return
+    setSaving(true)
+
+    try {
+      const now = new Date()
+      const tour: Tour = {
+        id: existing?.id ?? newId(),
+        name: name.trim(),
+        stops: filled
+          .map(s => ({ ...s, city: s.city.trim(), lodgingCost: s.lodgingCost || undefined }))
+          .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+        startTime,
+        endTime,
+        travelCost,
+        notes: notes.trim() || undefined,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      }
+      const { set, skipped } = await saveTour(tour)
+      showToast(skipped > 0
+        ? `Tour saved — availability set for ${set} days, ${skipped} already had their own`
+        : `Tour saved — availability set for ${set} days`)
+      onSave(tour.id)
+    } catch (err) {
+      showToast(`Save failed: ${(err as Error).message}`)
+      setSaving(false)
+    }
+  }
+
+  const venueIds = ['', ...venues.map(v => v.id)]
+  const venueName = (id: string) => id ? venues.find(v => v.id === id)?.name ?? 'Unknown venue' : 'No venue'
+
+  return (
+    <div className="p-4 pb-8 space-y-1">
+      <SectionLabel label="Tour" />
+      <FieldTextInput label="Name" value={name} onChange={setName} placeholder="e.g. West Coast, March" required />
+
+      <SectionLabel label="Cities" />
+      {stops.map((stop, i) => (
+        <div key={stop.id} className="rounded-xl p-3 mb-2" style={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border)' }}>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-bold" style={{ color: 'var(--text-secondary)' }}>STOP {i + 1}</span>
+            {stops.length > 1 && (
+              <button onClick={() => setStops(prev => prev.filter(s => s.id !== stop.id))} className="p-1"
+                style={{ color: 'var(--text-secondary)' }} aria-label={`Remove stop ${i + 1}`}>
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+          <FieldTextInput label="City" value={stop.city} onChange={v => handleCityChange(stop, v)} placeholder="e.g. Chicago" />
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <FieldDate label="From" value={stop.startDate} onChange={v => updateStop(stop.id, { startDate: v })} />
+            </div>
+            <div className="flex-1">
+              <FieldDate label="Until" value={stop.endDate} onChange={v => updateStop(stop.id, { endDate: v })} />
+            </div>
+          </div>
+          {venues.length > 0 && (
+            <FieldSelect label="Incall Venue" value={stop.venueId ?? ''} options={venueIds}
+              onChange={v => handleVenueChange(stop, v)} displayFn={venueName} icon={<Building2 size={12} />} />
+          )}
+          <FieldSelect label="Time Zone" value={stop.timeZone ?? ''} options={['', ...timeZoneOptions(stop.timeZone)]}
+            onChange={v => updateStop(stop.id, { timeZone: v || undefined })}
+            displayFn={z => z ? zoneLabel(z, parseISO(stop.startDate)) : 'This device'} />
+          <FieldCurrency label="Lodging" value={stop.lodgingCost ?? 0} onChange={v => updateStop(stop.id, { lodgingCost: v })}
+            hint={stopDayCount(stop) > 0 ? `${stopDayCount(stop)} ${stopDayCount(stop) === 1 ? 'day' : 'days'} — hotel or rental not covered by a venue` : undefined} />
+        </div>
+      ))}
+      <button onClick={() => setStops(prev => [...prev, emptyStop(prev[prev.length - 1])])}
+        className="flex items-center gap-2 text-sm font-medium text-purple-500 py-2 mb-2">
+        <Plus size={16} />
+        Add City
+      </button>
+
+      <SectionLabel label="Working Hours" />
+      <div className="flex gap-3">
+        <div className="flex-1">
+          <FieldTextInput label="From" type="time" value={startTime} onChange={setStartTime} />
+        </div>
+        <div className="flex-1">
+          <FieldTextInput label="Until" type="time" value={endTime} onChange={setEndTime} />
+        </div>
+      </div>
+      <p className="text-xs -mt-2 mb-3" style={{ color: 'var(--text-secondary)' }}>
+        Set as your availability on tour days, on each city's clock. Days you've already set are left alone.
+      </p>
+
+      <SectionLabel label="Costs" />
+      <FieldCurrency label="Travel" value={travelCost} onChange={setTravelCost}
+        hint="Flights, trains, fuel. Or log them as expenses linked to this tour — not both." />
+
+      <SectionLabel label="Notes" optional />
+      <textarea
+        value={notes}
+        onChange={e => setNotes(e.target.value)}
+        placeholder="Ads booked, who knows you're away..."
+        rows={3}
+        className="w-full px-3 py-2.5 rounded-lg text-sm outline-none resize-none mb-1"
+        style={{ ...fieldInputStyle, fontSize: '16px' }}
+      />
+
+      {/* Save / Cancel */}
+      <div className="flex gap-3 pt-4">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-3 rounded-xl text-sm font-semibold"
+          style={{ backgroundColor: 'var(--bg-card)', color: 'var(--text-secondary)', border: '1px solid var(--border)' }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex-1 py-3 rounded-xl text-sm font-semibold text-white"
+          style={{ backgroundColor: '#a855f7', opacity: saving ? 0.6 : 1 }}
+        >
+          {saving ? 'Saving…' : existing ? 'Save Changes' : 'Add Tour'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -4,7 +4,8 @@ import {
   Phone, CheckCircle, XCircle, Clock, Siren, Edit2, Ban, Download, Search
 } from 'lucide-react'
 import { useState } from 'react'
-import { fmtDateAndTime, fmtMediumDate } from '../../utils/dateFormat'
+import { fmtDateAndTime, fmtMediumDate, fmtShortDate } from '../../utils/dateFormat'
+import { bookingTimeZone, fmtBookingTime } from '../../utils/timeZone'
 import { db } from '../../db'
 import { PageHeader } from '../../components/PageHeader'
 import { Card } from '../../components/Card'
@@ -14,6 +15,7 @@ import { IncidentEditor } from './IncidentEditor'
 import { SafetyCheckEditor } from './SafetyCheckEditor'
 import { ConfirmDialog } from '../../components/ConfirmDialog'
 import { showToast, showUndoToast } from '../../components/Toast'
+import { moveToTrash, restoreFromTrash } from '../../db/trash'
 import { SafetyPageSkeleton } from '../../components/Skeleton'
 import type { SafetyCheckStatus, SafetyCheck, SafetyContact, IncidentLog, IncidentSeverity } from '../../types'
 
@@ -101,7 +103,7 @@ export function SafetyPage() {
     if (client) parts.push(`Client: ${client.alias}`)
     if (booking?.locationAddress) parts.push(`Location: ${booking.locationAddress}`)
     else if (booking?.locationType) parts.push(`Location type: ${booking.locationType}`)
-    if (booking?.dateTime) parts.push(`Scheduled: ${fmtDateAndTime(new Date(booking.dateTime))}`)
+    if (booking?.dateTime) parts.push(`Scheduled: ${fmtShortDate(new Date(booking.dateTime), bookingTimeZone(booking))}, ${fmtBookingTime(booking)}`)
     return parts.join('\n')
   }
 
@@ -335,7 +337,7 @@ export function SafetyPage() {
                           )}
                           {booking && (
                             <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
-                              Booking: {fmtDateAndTime(new Date(booking.dateTime))} · {booking.locationType}
+                              Booking: {fmtShortDate(new Date(booking.dateTime), bookingTimeZone(booking))}, {fmtBookingTime(booking)} · {booking.locationType}
                             </p>
                           )}
                           {contact && (
@@ -536,11 +538,8 @@ export function SafetyPage() {
                           </button>
                           <button
                             onClick={async () => {
-                              const snap = await db.incidents.get(incident.id)
-                              await db.incidents.delete(incident.id)
-                              showUndoToast('Incident deleted', async () => {
-                                if (snap) await db.incidents.put(snap)
-                              })
+                              const trashId = await moveToTrash('incident', incident.id)
+                              showUndoToast('Incident moved to trash', () => restoreFromTrash(trashId))
                             }}
                             className="p-1"
                             style={{ color: 'var(--text-secondary)' }}
@@ -5,11 +5,13 @@ import { fmtShortDayDate } from '../../utils/dateFormat'
 import { db, newId } from '../../db'
 import { showToast } from '../../components/Toast'
 import type { AvailabilityStatus, DayAvailability } from '../../types'
-import { formatTime12 } from '../../utils/availability'
+import { formatTime12, type EffectiveAvailability } from '../../utils/availability'
+import { timeZoneOptions, zoneLabel, deviceTimeZone } from '../../utils/timeZone'
 
 interface AvailabilityPickerProps {
   date: Date
-  current?: DayAvailability
+  /** Effective availability — a date override, or the weekly template (saving creates an override) */
+  current?: EffectiveAvailability
   onClose: () => void
 }
 
@@ -26,7 +28,9 @@ export function AvailabilityPicker({ date, current, onClose }: AvailabilityPicke
   const [startTime, setStartTime] = useState(current?.startTime ?? '10:00')
   const [endTime, setEndTime] = useState(current?.endTime ?? '22:00')
   const [notes, setNotes] = useState(current?.notes ?? '')
+  const [timeZone, setTimeZone] = useState(current?.timeZone ?? '')
   const [saving, setSaving] = useState(false)
+  const fromTemplate = !!current?.fromTemplate
 
   // Escape key to close
   useEffect(() => {
@@ -40,8 +44,8 @@ export function AvailabilityPicker({ date, current, onClose }: AvailabilityPicke
   async function handleStatusTap(status: AvailabilityStatus) {
     if (saving) return
 
-    // Toggle off if same status tapped
-    if (selectedStatus === status) {
+    // Toggle off if same status tapped (an override only — the weekly template stays)
+    if (selectedStatus === status && !fromTemplate) {
       setSaving(true)
       try {
         const dayStart = startOfDay(date)
@@ -74,6 +78,7 @@ export function AvailabilityPicker({ date, current, onClose }: AvailabilityPicke
       const record: Partial<DayAvailability> = {
         status: selectedStatus,
         notes: notes.trim() || undefined,
+        timeZone: timeZone || undefined,
       }
 
       if (selectedStatus === 'Available') {
@@ -83,7 +88,8 @@ export function AvailabilityPicker({ date, current, onClose }: AvailabilityPicke
       } else if (selectedStatus === 'Limited') {
         record.startTime = undefined
         record.endTime = undefined
-        if (existing?.openSlots) record.openSlots = existing.openSlots
+        const baseSlots = existing ? existing.openSlots : current?.openSlots
+        if (baseSlots) record.openSlots = baseSlots
       } else {
         // Off / Busy
         record.startTime = undefined
@@ -122,6 +128,7 @@ export function AvailabilityPicker({ date, current, onClose }: AvailabilityPicke
   const showTimePicker = selectedStatus === 'Available'
   const showOpenSlots = selectedStatus === 'Limited' && current?.openSlots && current.openSlots.length > 0
   const showSaveButton = !!selectedStatus
+  const showTimeZone = selectedStatus === 'Available' || selectedStatus === 'Limited'
 
   return (
     <div className="fixed inset-0 z-50 flex items-end justify-center" role="dialog" aria-modal="true">
@@ -148,7 +155,7 @@ export function AvailabilityPicker({ date, current, onClose }: AvailabilityPicke
             {fmtShortDayDate(date)}
           </p>
           <p className="text-xs mb-4 text-center" style={{ color: 'var(--text-secondary)' }}>
-            Tap a status below
+            {fromTemplate ? 'From your weekly hours — changes apply to this date only' : 'Tap a status below'}
           </p>
 
           {/* Status grid */}
@@ -268,11 +275,36 @@ export function AvailabilityPicker({ date, current, onClose }: AvailabilityPicke
                 ))}
               </div>
               <p className="text-[10px] mt-2" style={{ color: 'var(--text-secondary)' }}>
-                Auto-created from confirmed bookings
+                {fromTemplate ? 'From your weekly hours' : 'Auto-created from confirmed bookings'}
               </p>
             </div>
           )}
 
+          {/* Where you are that day — hours above are on its clock */}
+          {showTimeZone && (
+            <div className="mb-4">
+              <label className="text-[10px] uppercase block mb-1" style={{ color: 'var(--text-secondary)' }}>
+                Time Zone
+              </label>
+              <select
+                value={timeZone}
+                onChange={e => setTimeZone(e.target.value)}
+                className="w-full px-3 py-2.5 rounded-lg text-sm"
+                style={{
+                  backgroundColor: 'var(--bg-primary)',
+                  color: 'var(--text-primary)',
+                  border: '1px solid var(--border)',
+                  fontSize: '16px',
+                }}
+              >
+                <option value="">This device — {zoneLabel(deviceTimeZone(), date)}</option>
+                {timeZoneOptions(timeZone || undefined).map(z => (
+                  <option key={z} value={z}>{zoneLabel(z, date)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Notes */}
           {selectedStatus && (
             <div className="mb-4">
@@ -311,8 +343,8 @@ export function AvailabilityPicker({ date, current, onClose }: AvailabilityPicke
             </button>
           )}
 
-          {/* Clear button */}
-          {current && (
+          {/* Clear button — removes this date's override */}
+          {current && !fromTemplate && (
             <button
               type="button"
               onClick={handleClear}
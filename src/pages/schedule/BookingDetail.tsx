@@ -19,11 +19,16 @@ import { JournalEntryEditor } from '../../components/JournalEntryEditor'
 import { ProGate } from '../../components/ProGate'
 import { isPro } from '../../components/planLimits'
 import { showToast, showUndoToast } from '../../components/Toast'
+import { moveToTrash, restoreFromTrash } from '../../db/trash'
+import { isRecurring, recurrenceLabel, excludeOccurrence } from '../../utils/recurrence'
+import { bookingTimeZone, deviceTimeHint, fmtBookingTime } from '../../utils/timeZone'
 import { downloadICS } from '../../utils/icsExport'
+import { calendarOptions } from '../../utils/calendarFeed'
 import { SessionTimer } from '../../components/SessionTimer'
 import { BookingChecklist, useChecklistCount } from '../../components/BookingChecklist'
 import { CancellationSheet } from '../../components/CancellationSheet'
 import { SendMessageSheet } from '../../components/SendMessageSheet'
+import { RevisionHistory } from '../../components/RevisionHistory'
 import { bookingStatusColors, journalTagColors } from '../../types'
 import type { Booking, BookingStatus, PaymentMethod, PaymentLabel } from '../../types'
 
@@ -172,48 +177,13 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
 
   async function deleteBooking() {
     try {
-      // Snapshot everything before deletion for undo
-      const bookingSnap = await db.bookings.get(bookingId)
-      const paymentsSnap = await db.payments.where('bookingId').equals(bookingId).toArray()
-      const txnsSnap = await db.transactions.where('bookingId').equals(bookingId).toArray()
-      const checksSnap = await db.safetyChecks.where('bookingId').equals(bookingId).toArray()
-      const journalSnap = await db.journalEntries.where('bookingId').equals(bookingId).toArray()
-      const incidentsSnap = await db.incidents.where('bookingId').equals(bookingId).toArray()
-      const checklistSnap = await db.bookingChecklist.where('bookingId').equals(bookingId).toArray()
-      // Find child bookings that reference this one as parent (recurring chain)
-      const childBookings = await db.bookings.filter(b => b.parentBookingId === bookingId).toArray()
-
-      await db.transaction('rw', [db.bookings, db.payments, db.transactions, db.safetyChecks, db.journalEntries, db.incidents, db.bookingChecklist], async () => {
-        await db.payments.where('bookingId').equals(bookingId).delete()
-        await db.transactions.where('bookingId').equals(bookingId).delete()
-        await db.safetyChecks.where('bookingId').equals(bookingId).delete()
-        await db.journalEntries.where('bookingId').equals(bookingId).delete()
-        await db.incidents.where('bookingId').equals(bookingId).delete()
-        await db.bookingChecklist.where('bookingId').equals(bookingId).delete()
-        // Re-parent child bookings so the recurring chain isn't broken
-        for (const child of childBookings) {
-          await db.bookings.update(child.id, { parentBookingId: undefined })
-        }
-        await db.bookings.delete(bookingId)
-      })
+      // Keep the series from re-creating the deleted occurrence
+      if (booking) await excludeOccurrence(booking)
+      const trashId = await moveToTrash('booking', bookingId)
       setConfirmAction(null)
       onBack()
 
-      showUndoToast('Booking deleted', async () => {
-        await db.transaction('rw', [db.bookings, db.payments, db.transactions, db.safetyChecks, db.journalEntries, db.incidents, db.bookingChecklist], async () => {
-          if (bookingSnap) await db.bookings.put(bookingSnap)
-          if (paymentsSnap.length) await db.payments.bulkPut(paymentsSnap)
-          if (txnsSnap.length) await db.transactions.bulkPut(txnsSnap)
-          if (checksSnap.length) await db.safetyChecks.bulkPut(checksSnap)
-          if (journalSnap.length) await db.journalEntries.bulkPut(journalSnap)
-          if (incidentsSnap.length) await db.incidents.bulkPut(incidentsSnap)
-          if (checklistSnap.length) await db.bookingChecklist.bulkPut(checklistSnap)
-          // Restore parent references on child bookings
-          for (const child of childBookings) {
-            await db.bookings.update(child.id, { parentBookingId: bookingId })
-          }
-        })
-      })
+      showUndoToast('Booking moved to trash', () => restoreFromTrash(trashId))
     } catch (err) {
       showToast(`Delete failed: ${(err as Error).message}`)
     }
@@ -240,7 +210,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
         notes: payNotes.trim() || undefined,
       })
       setShowPaymentForm(false)
-      showToast(`${payLabel} of ${formatCurrency(amount)} recorded`)
+      showToast(`${payLabel} of ${formatCurrency(amount, booking?.currency)} recorded`)
     } catch (err) {
       showToast(`Payment failed: ${(err as Error).message}`)
     }
@@ -282,17 +252,17 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
         <div className="flex flex-col items-center py-4">
           <div className="flex items-center gap-2">
             <StatusBadge text={booking.status} color={bookingStatusColors[booking.status]} size="md" />
-            {booking.recurrence && booking.recurrence !== 'none' && (
+            {isRecurring(booking) && (
               <span className="text-[10px] px-2 py-0.5 rounded-full font-semibold bg-purple-500/15 text-purple-500">
-                🔄 {booking.recurrence === 'weekly' ? 'Weekly' : booking.recurrence === 'biweekly' ? 'Biweekly' : 'Monthly'}
+                🔄 {recurrenceLabel(booking)}
               </span>
             )}
           </div>
           <h2 className="text-xl font-bold mt-3" style={{ color: 'var(--text-primary)' }}>
-            {formatCurrency(total)}
+            {formatCurrency(total, booking.currency)}
           </h2>
           <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
-            {fmtFullDayDateYear(new Date(booking.dateTime))}
+            {fmtFullDayDateYear(new Date(booking.dateTime), bookingTimeZone(booking))}
           </p>
         </div>
 
@@ -345,17 +315,18 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
         {/* Time & Location */}
         <CollapsibleCard label="Details" id="details" expanded={expanded} toggle={toggle}
           preview={<span className="text-xs" style={{ color: 'var(--text-secondary)' }}>
-            {fmtTime(new Date(booking.dateTime))} · {booking.locationType}
+            {fmtBookingTime(booking)} · {booking.locationType}
           </span>}>
           <div className="space-y-3 pt-1">
             <div className="flex items-center gap-3">
               <Clock size={16} style={{ color: 'var(--text-secondary)' }} />
               <div className="flex-1">
                 <p className="text-sm" style={{ color: 'var(--text-primary)' }}>
-                  {fmtTime(new Date(booking.dateTime))} — {fmtTime(endTime)}
+                  {fmtTime(new Date(booking.dateTime), bookingTimeZone(booking))} — {fmtBookingTime(booking, endTime)}
                 </p>
                 <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
                   {bookingDurationFormatted(booking.duration)}
+                  {deviceTimeHint(booking) && ` · ${deviceTimeHint(booking)}`}
                 </p>
               </div>
             </div>
@@ -383,27 +354,27 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
 
         {/* Pricing Breakdown */}
         <CollapsibleCard label="Pricing" id="pricing" expanded={expanded} toggle={toggle}
-          preview={<span className="text-sm font-bold text-green-500">{formatCurrency(total)}</span>}>
+          preview={<span className="text-sm font-bold text-green-500">{formatCurrency(total, booking.currency)}</span>}>
           <div className="space-y-2 pt-1">
             <div className="flex justify-between">
               <span className="text-sm" style={{ color: 'var(--text-primary)' }}>Base Rate</span>
-              <span className="text-sm" style={{ color: 'var(--text-primary)' }}>{formatCurrency(booking.baseRate)}</span>
+              <span className="text-sm" style={{ color: 'var(--text-primary)' }}>{formatCurrency(booking.baseRate, booking.currency)}</span>
             </div>
             {booking.extras > 0 && (
               <div className="flex justify-between">
                 <span className="text-sm" style={{ color: 'var(--text-primary)' }}>Extras</span>
-                <span className="text-sm" style={{ color: 'var(--text-primary)' }}>{formatCurrency(booking.extras)}</span>
+                <span className="text-sm" style={{ color: 'var(--text-primary)' }}>{formatCurrency(booking.extras, booking.currency)}</span>
               </div>
             )}
             {booking.travelFee > 0 && (
               <div className="flex justify-between">
                 <span className="text-sm" style={{ color: 'var(--text-primary)' }}>Travel Fee</span>
-                <span className="text-sm" style={{ color: 'var(--text-primary)' }}>{formatCurrency(booking.travelFee)}</span>
+                <span className="text-sm" style={{ color: 'var(--text-primary)' }}>{formatCurrency(booking.travelFee, booking.currency)}</span>
               </div>
             )}
             <div className="flex justify-between pt-2" style={{ borderTop: '1px solid var(--border)' }}>
               <span className="text-sm font-bold" style={{ color: 'var(--text-primary)' }}>Total</span>
-              <span className="text-sm font-bold text-green-500">{formatCurrency(total)}</span>
+              <span className="text-sm font-bold text-green-500">{formatCurrency(total, booking.currency)}</span>
             </div>
           </div>
         </CollapsibleCard>
@@ -413,7 +384,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
           badge={<>
             {!isFullyPaid && (
               <span className="text-[10px] font-semibold px-2 py-0.5 rounded-full bg-orange-500/15 text-orange-500">
-                {formatCurrency(balance)} due
+                {formatCurrency(balance, booking.currency)} due
               </span>
             )}
             {isFullyPaid && totalPaid > 0 && (
@@ -438,10 +409,10 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
               </div>
               <div className="flex justify-between mt-1">
                 <span className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>
-                  {formatCurrency(totalPaid)} paid
+                  {formatCurrency(totalPaid, booking.currency)} paid
                 </span>
                 <span className="text-[10px]" style={{ color: 'var(--text-secondary)' }}>
-                  {formatCurrency(total)} total
+                  {formatCurrency(total, booking.currency)} total
                 </span>
               </div>
             </div>
@@ -471,7 +442,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
                       </p>
                     </div>
                   </div>
-                  <span className="text-sm font-semibold text-green-500">{formatCurrency(p.amount)}</span>
+                  <span className="text-sm font-semibold text-green-500">{formatCurrency(p.amount, booking.currency)}</span>
                 </button>
               ))}
             </div>
@@ -485,7 +456,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
                 className="flex-1 text-xs font-medium py-2 rounded-lg"
                 style={{ backgroundColor: 'rgba(168,85,247,0.1)', color: '#a855f7' }}
               >
-                Record Deposit ({formatCurrency(depositRemaining)})
+                Record Deposit ({formatCurrency(depositRemaining, booking.currency)})
               </button>
             )}
             {!isFullyPaid && balance > 0 && (
@@ -494,7 +465,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
                 className="flex-1 text-xs font-medium py-2 rounded-lg"
                 style={{ backgroundColor: 'rgba(34,197,94,0.1)', color: '#22c55e' }}
               >
-                Record {booking.depositReceived ? 'Balance' : 'Payment'} ({formatCurrency(balance)})
+                Record {booking.depositReceived ? 'Balance' : 'Payment'} ({formatCurrency(balance, booking.currency)})
               </button>
             )}
             <button
@@ -660,7 +631,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
             {booking.depositOutcome && totalDeposits > 0 && (
               <div className="flex items-center gap-2 mt-2 pt-2" style={{ borderTop: '1px solid var(--border)' }}>
                 <span className="text-xs" style={{ color: 'var(--text-secondary)' }}>
-                  Deposit ({formatCurrency(totalDeposits)}):
+                  Deposit ({formatCurrency(totalDeposits, booking.currency)}):
                 </span>
                 <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
                   booking.depositOutcome === 'forfeited' ? 'bg-green-500/15 text-green-500'
@@ -678,7 +649,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
                 <span className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
                   Cancellation fee{p.method ? ` · ${p.method}` : ''}
                 </span>
-                <span className="text-sm font-bold text-green-500">{formatCurrency(p.amount)}</span>
+                <span className="text-sm font-bold text-green-500">{formatCurrency(p.amount, booking.currency)}</span>
               </div>
             ))}
           </Card>
@@ -701,7 +672,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
 
           {/* Export to Calendar */}
           <button
-            onClick={() => downloadICS(booking, client ?? undefined, venue ?? undefined)}
+            onClick={() => downloadICS(booking, client ?? undefined, venue ?? undefined, calendarOptions())}
             className="flex items-center gap-3 py-3 w-full text-left"
           >
             <CalendarPlus size={18} className="text-purple-500" />
@@ -794,13 +765,18 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
             )}
           </div>
         </CollapsibleCard>
+
+        {/* Change History */}
+        <CollapsibleCard label="Change History" id="revisions" expanded={expanded} toggle={toggle}>
+          <RevisionHistory table="bookings" recordId={bookingId} />
+        </CollapsibleCard>
       </div>
 
       {/* Confirm Dialogs */}
       <ConfirmDialog
         isOpen={confirmAction === 'delete'}
         title="Delete Booking"
-        message="Permanently delete this booking? This cannot be undone."
+        message="Delete this booking with its payments, journal entries and checklist? It stays in Trash (Settings → Data) until the retention period ends."
         confirmLabel="Delete"
         onConfirm={deleteBooking}
         onCancel={() => setConfirmAction(null)}
@@ -902,7 +878,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
 
             {payAmount && parseFloat(payAmount) > 0 && balance > 0 && parseFloat(payAmount) > balance && (
               <p className="text-xs text-center mb-2" style={{ color: '#f97316' }}>
-                This exceeds the remaining balance of {formatCurrency(balance)}
+                This exceeds the remaining balance of {formatCurrency(balance, booking.currency)}
               </p>
             )}
             <button
@@ -911,7 +887,7 @@ export function BookingDetail({ bookingId, onBack, onOpenClient, onShowPaywall }
               className="w-full py-3 rounded-xl text-sm font-semibold text-white disabled:opacity-40"
               style={{ backgroundColor: '#a855f7' }}
             >
-              Record {payLabel} {payAmount && !isNaN(parseFloat(payAmount)) ? `(${formatCurrency(parseFloat(payAmount))})` : ''}
+              Record {payLabel} {payAmount && !isNaN(parseFloat(payAmount)) ? `(${formatCurrency(parseFloat(payAmount), booking.currency)})` : ''}
             </button>
           </div>
         </div>
@@ -4,7 +4,7 @@ import { useLiveQuery } from 'dexie-react-hooks'
 import { Check, ChevronRight, User, UserPlus, Search, AlertTriangle } from 'lucide-react'
 import { format } from 'date-fns'
 import { fmtDateAndTime } from '../../utils/dateFormat'
-import { db, createBooking, createClient, formatCurrency, recordBookingPayment, completeBookingPayment } from '../../db'
+import { db, createBooking, createClient, formatCurrency, getCurrency, recordBookingPayment, completeBookingPayment } from '../../db'
 import { Modal } from '../../components/Modal'
 import { CollapsibleCard, useAccordion } from '../../components/CollapsibleCard'
 import { showToast } from '../../components/Toast'
@@ -13,20 +13,37 @@ import { VerifiedBadge } from '../../components/VerifiedBadge'
 import { useLocalStorage } from '../../hooks/useSettings'
 import { checkBookingConflict, adjustAvailabilityForBooking } from '../../utils/availability'
 import { canAddClient, canAddBooking } from '../../components/planLimits'
+import {
+  ruleString, isRecurring, parseRRule, patternFromRule, hasSeriesChanges, applySeriesEdit, materializeSeries,
+} from '../../utils/recurrence'
+import type { SeriesScope } from '../../utils/recurrence'
+import { RecurrenceEditor } from './RecurrenceEditor'
 import { formatPhone } from '../../utils/formatPhone'
+import { currencyLabel, currencyOptions } from '../../utils/fx'
 import { VenuePicker } from '../home/IncallBookPage'
+import {
+  deviceTimeZone, bookingTimeZone, zonedWallTime, wallTimeToInstant, timeZoneOptions, zoneLabel, deviceTimeHint,
+} from '../../utils/timeZone'
 import type {
-  Booking, BookingStatus, LocationType, PaymentMethod, ContactMethod, ScreeningStatus, ScreeningMethod,
-  RecurrencePattern
+  Booking, BookingStatus, LocationType, PaymentMethod, ContactMethod, ScreeningStatus, ScreeningMethod
 } from '../../types'
 
 const bookingStatuses: BookingStatus[] = ['To Be Confirmed', 'Pending Deposit', 'Confirmed', 'In Progress', 'Completed', 'Cancelled', 'No Show']
 const locationTypes: LocationType[] = ['Incall', 'Outcall', 'Travel', 'Virtual']
 const paymentMethods: PaymentMethod[] = ['Cash', 'e-Transfer', 'Crypto', 'Venmo', 'Cash App', 'Zelle', 'Gift Card', 'Other']
-const recurrenceOptions: RecurrencePattern[] = ['none', 'weekly', 'biweekly', 'monthly']
 const contactMethods: ContactMethod[] = ['Phone', 'Text', 'Email', 'Telegram', 'Signal', 'WhatsApp', 'Other']
 const screeningMethods: ScreeningMethod[] = ['ID', 'LinkedIn', 'Provider Reference', 'Employment', 'Phone', 'Deposit', 'Other']
 
+function initialRRule(from?: Booking): string {
+  return from ? ruleString(from) ?? '' : ''
+}
+
+/** datetime-local value for a booking's start, on its own zone's clock */
+function initialDateTime(booking?: Booking, fallback: Date = new Date()): string {
+  const wall = booking?.dateTime ? zonedWallTime(new Date(booking.dateTime), bookingTimeZone(booking)) : fallback
+  return format(wall, "yyyy-MM-dd'T'HH:mm")
+}
+
 interface BookingEditorProps {
   isOpen: boolean
   onClose: () => void
@@ -48,7 +65,8 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
 
   // Core fields
   const [clientId, setClientId] = useState(booking?.clientId ?? preselectedClientId ?? rebookFrom?.clientId ?? '')
-  const [dateTime, setDateTime] = useState(booking?.dateTime ? format(new Date(booking.dateTime), "yyyy-MM-dd'T'HH:mm") : format(new Date(), "yyyy-MM-dd'T'HH:mm"))
+  const [dateTime, setDateTime] = useState(initialDateTime(booking))
+  const [timeZone, setTimeZone] = useState(booking?.timeZone ?? rebookFrom?.timeZone ?? deviceTimeZone())
   const [duration, setDuration] = useState(booking?.duration ?? rebookFrom?.duration ?? 60)
   const [customDuration, setCustomDuration] = useState(false)
   const [locationType, setLocationType] = useState<LocationType>(booking?.locationType ?? rebookFrom?.locationType ?? 'Incall')
@@ -58,6 +76,7 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
   const [venueName, setVenueName] = useState('')
   const [showVenuePicker, setShowVenuePicker] = useState(false)
   const [status, setStatus] = useState<BookingStatus>(booking?.status ?? 'To Be Confirmed')
+  const [currency, setCurrency] = useState(booking?.currency ?? rebookFrom?.currency ?? getCurrency())
   const [baseRate, setBaseRate] = useState(booking?.baseRate ?? rebookFrom?.baseRate ?? 0)
   const [extras, setExtras] = useState(booking?.extras ?? rebookFrom?.extras ?? 0)
   const [travelFee, setTravelFee] = useState(booking?.travelFee ?? rebookFrom?.travelFee ?? 0)
@@ -66,7 +85,7 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | ''>(booking?.paymentMethod ?? rebookFrom?.paymentMethod ?? '')
   const [requiresSafetyCheck, setRequiresSafetyCheck] = useState(booking?.requiresSafetyCheck ?? rebookFrom?.requiresSafetyCheck ?? true)
   const [safetyContactId, setSafetyContactId] = useState(booking?.safetyContactId ?? '')
-  const [recurrence, setRecurrence] = useState<RecurrencePattern>(booking?.recurrence ?? rebookFrom?.recurrence ?? 'none')
+  const [rrule, setRRule] = useState(() => initialRRule(booking ?? rebookFrom))
   const [notes, setNotes] = useState(booking?.notes ?? '')
 
   // UI state
@@ -91,8 +110,12 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
   const [newClientPreferences, setNewClientPreferences] = useState('')
   const [newClientBoundaries, setNewClientBoundaries] = useState('')
 
+  // Recurring series — which occurrences an edit applies to
+  const [showScopePicker, setShowScopePicker] = useState(false)
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>('this')
+
   // Availability conflict
-  const [conflictWarning, setConflictWarning] = useState<{ reason: string; dayStatus: string; isDoubleBook: boolean } | null>(null)
+  const [conflictWarning, setConflictWarning] = useState<{ reason: string; dayStatus: string; isDoubleBook: boolean; isSchedulingRule: boolean; isBlockedTime: boolean } | null>(null)
 
   // Escape key to dismiss conflict warning
   const handleConflictEscape = useCallback((e: KeyboardEvent) => {
@@ -110,7 +133,8 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
     if (isOpen) {
       setClientId(booking?.clientId ?? preselectedClientId ?? rebookFrom?.clientId ?? '')
       const defaultDate = preselectedDate ?? new Date()
-      setDateTime(booking?.dateTime ? format(new Date(booking.dateTime), "yyyy-MM-dd'T'HH:mm") : format(defaultDate, "yyyy-MM-dd'T'HH:mm"))
+      setDateTime(initialDateTime(booking, defaultDate))
+      setTimeZone(booking?.timeZone ?? rebookFrom?.timeZone ?? deviceTimeZone())
       setDuration(booking?.duration ?? rebookFrom?.duration ?? 60)
       setCustomDuration(false)
       setLocationType(booking?.locationType ?? rebookFrom?.locationType ?? 'Incall')
@@ -122,6 +146,7 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
       if (vid) db.incallVenues.get(vid).then(v => setVenueName(v?.name ?? ''))
       else setVenueName('')
       setStatus(booking?.status ?? 'To Be Confirmed')
+      setCurrency(booking?.currency ?? rebookFrom?.currency ?? getCurrency())
       setBaseRate(booking?.baseRate ?? rebookFrom?.baseRate ?? 0)
       setExtras(booking?.extras ?? rebookFrom?.extras ?? 0)
       setTravelFee(booking?.travelFee ?? rebookFrom?.travelFee ?? 0)
@@ -130,7 +155,7 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
       setPaymentMethod(booking?.paymentMethod ?? rebookFrom?.paymentMethod ?? '')
       setRequiresSafetyCheck(booking?.requiresSafetyCheck ?? rebookFrom?.requiresSafetyCheck ?? true)
       setSafetyContactId(booking?.safetyContactId ?? '')
-      setRecurrence(booking?.recurrence ?? rebookFrom?.recurrence ?? 'none')
+      setRRule(initialRRule(booking ?? rebookFrom))
       setNotes(booking?.notes ?? '')
       setShowClientPicker(false)
       setClientSearch('')
@@ -148,6 +173,8 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
       setNewClientScreeningMethod('')
       setNewClientPreferences('')
       setNewClientBoundaries('')
+      setShowScopePicker(false)
+      setSeriesScope('this')
       setConflictWarning(null)
     }
   }, [isOpen, booking, rebookFrom, preselectedClientId, preselectedDate])
@@ -156,6 +183,8 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
   const total = baseRate + extras + ((locationType === 'Outcall' || locationType === 'Travel') ? travelFee : 0)
   const clientIsScreened = selectedClient?.screeningStatus === 'Screened'
   const isValid = clientId && baseRate > 0 && duration > 0 && (isEditing || clientIsScreened)
+  // For zone labels while the date field is mid-edit
+  const startAt = dateTime && !isNaN(new Date(dateTime).getTime()) ? wallTimeToInstant(new Date(dateTime), timeZone) : new Date()
 
   // Filter client list
   const filteredClients = clients.filter(c =>
@@ -229,25 +258,73 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
     setCustomDuration(false)
   }
 
-  async function handleSave() {
+  /** The entered date & time read on the booking zone's clock */
+  function startInstant(): Date {
+    return wallTimeToInstant(new Date(dateTime), timeZone)
+  }
+
+  /** Bookings saved before zones existed stay zoneless unless one is picked */
+  function savedTimeZone(): string | undefined {
+    return booking && !booking.timeZone && timeZone === deviceTimeZone() ? undefined : timeZone
+  }
+
+  /** The fields an edit to a series occurrence can carry to the others */
+  function editedFields(): Partial<Booking> {
+    return {
+      clientId,
+      dateTime: startInstant(),
+      timeZone: savedTimeZone(),
+      duration,
+      locationType,
+      locationAddress: locationAddress.trim() || undefined,
+      locationNotes: locationNotes.trim() || undefined,
+      venueId: locationType === 'Incall' && venueId ? venueId : undefined,
+      currency,
+      baseRate,
+      extras,
+      travelFee: (locationType === 'Outcall' || locationType === 'Travel') ? travelFee : 0,
+      depositAmount,
+      paymentMethod: paymentMethod || undefined,
+      requiresSafetyCheck,
+      safetyContactId: requiresSafetyCheck && safetyContactId ? safetyContactId : undefined,
+      notes: notes.trim() || '',
+      rrule: rrule || undefined,
+      recurrence: patternFromRule(rrule ? parseRRule(rrule) : null),
+    }
+  }
+
+  async function handleSave(scope?: SeriesScope) {
     if (!isValid || saving) return
-    const dt = new Date(dateTime)
+    const dt = startInstant()
+
+    // Editing one occurrence of a series: ask how far the change reaches
+    if (!scope && booking && isRecurring(booking) && hasSeriesChanges(booking, editedFields())) {
+      setShowScopePicker(true)
+      return
+    }
+    setShowScopePicker(false)
+    setSeriesScope(scope ?? 'this')
 
-    const conflict = await checkBookingConflict(dt, duration, booking?.id)
+    const conflict = await checkBookingConflict(dt, duration, booking?.id, {
+      locationType,
+      venueId: locationType === 'Incall' && venueId ? venueId : undefined,
+    })
     if (conflict.hasConflict) {
       setConflictWarning({
         reason: conflict.reason,
         dayStatus: conflict.dayStatus ?? '',
         isDoubleBook: conflict.isDoubleBook ?? false,
+        isSchedulingRule: !!conflict.buffer || !!conflict.dailyLimit,
+        isBlockedTime: !!conflict.blocked,
       })
       return
     }
 
-    await saveBooking()
+    await saveBooking(false, scope)
   }
 
-  async function saveBooking(overrideAvailability = false) {
-    const dt = new Date(dateTime)
+  async function saveBooking(overrideAvailability = false, scope: SeriesScope = seriesScope) {
+    const dt = startInstant()
     const finalTravelFee = (locationType === 'Outcall' || locationType === 'Travel') ? travelFee : 0
     setSaving(true)
     try {
@@ -255,12 +332,14 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
       await db.bookings.update(booking.id, {
         clientId,
         dateTime: dt,
+        timeZone: savedTimeZone(),
         duration,
         locationType,
         locationAddress: locationAddress.trim() || undefined,
         locationNotes: locationNotes.trim() || undefined,
         venueId: locationType === 'Incall' && venueId ? venueId : undefined,
         status,
+        currency,
         baseRate,
         extras,
         travelFee: finalTravelFee,
@@ -268,7 +347,10 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
         paymentMethod: paymentMethod || undefined,
         requiresSafetyCheck,
         safetyContactId: requiresSafetyCheck && safetyContactId ? safetyContactId : undefined,
-        recurrence,
+        recurrence: patternFromRule(rrule ? parseRRule(rrule) : null),
+        rrule: rrule || undefined,
+        // A booking that starts repeating becomes the first slot of its series
+        ...(rrule && !isRecurring(booking) ? { recurrenceDate: dt } : {}),
         notes: notes.trim() || '',
         // Set timestamps when status changes
         ...(status === 'Confirmed' && booking.status !== 'Confirmed' && !booking.confirmedAt ? { confirmedAt: new Date() } : {}),
@@ -277,6 +359,12 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
         ...(status === 'No Show' && booking.status !== 'No Show' ? { cancelledAt: new Date(), cancelledBy: 'client' as const } : {}),
       })
 
+      // Payments are kept in the booking's currency — relabel them with it
+      if (currency !== (booking.currency ?? getCurrency())) {
+        await db.payments.where('bookingId').equals(booking.id).modify({ currency })
+        await db.transactions.where('bookingId').equals(booking.id).modify({ currency })
+      }
+
       // Side effects when status changes via editor
       if (status !== booking.status) {
         if (status === 'Completed') {
@@ -302,6 +390,12 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
         }
       }
 
+      if (scope !== 'this') {
+        await applySeriesEdit(booking, editedFields(), scope)
+      } else if (rrule && !isRecurring(booking)) {
+        await materializeSeries(booking.id)
+      }
+
       if (overrideAvailability) {
         await adjustAvailabilityForBooking(dt, duration, booking.id)
       }
@@ -313,12 +407,14 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
       const newBooking = createBooking({
         clientId,
         dateTime: dt,
+        timeZone: savedTimeZone(),
         duration,
         locationType,
         locationAddress: locationAddress.trim() || undefined,
         locationNotes: locationNotes.trim() || undefined,
         venueId: locationType === 'Incall' && venueId ? venueId : undefined,
         status,
+        currency,
         baseRate,
         extras,
         travelFee: finalTravelFee,
@@ -326,7 +422,9 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
         paymentMethod: paymentMethod || undefined,
         requiresSafetyCheck,
         safetyContactId: requiresSafetyCheck && safetyContactId ? safetyContactId : undefined,
-        recurrence,
+        recurrence: patternFromRule(rrule ? parseRRule(rrule) : null),
+        rrule: rrule || undefined,
+        recurrenceDate: rrule ? dt : undefined,
         notes: notes.trim() || undefined,
         // Set timestamps when creating with an advanced status
         ...(status === 'Confirmed' || status === 'In Progress' || status === 'Completed' ? { confirmedAt: new Date() } : {}),
@@ -359,10 +457,13 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
       if (overrideAvailability) {
         await adjustAvailabilityForBooking(dt, duration, newBooking.id)
       }
+      if (rrule) await materializeSeries(newBooking.id)
     }
 
     setConflictWarning(null)
-    showToast(isEditing ? 'Booking updated' : 'Booking created')
+    showToast(!isEditing ? 'Booking created'
+      : scope === 'this' ? 'Booking updated'
+      : scope === 'all' ? 'Series updated' : 'This and following updated')
     onClose()
     } catch (err) {
       showToast(`Save failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -379,7 +480,7 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
       onClose={onClose}
       title={isEditing ? 'Edit Booking' : 'New Booking'}
       actions={
-        <button onClick={handleSave} disabled={!isValid || saving}
+        <button onClick={() => handleSave()} disabled={!isValid || saving}
           aria-label="Save booking"
           title={!isValid && !isEditing ? (!clientId ? 'Select a client' : baseRate <= 0 ? 'Set a rate' : !clientIsScreened ? 'Client must be screened' : '') : undefined}
           className={`p-2 ${isValid && !saving ? 'text-purple-500' : 'opacity-30'}`}>
@@ -605,12 +706,15 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
           </span>}>
           <div className="pt-1">
             <FieldDateTime label="Date & Time" value={dateTime} onChange={setDateTime} />
+            <FieldSelect label="Time Zone" value={timeZone} options={timeZoneOptions(timeZone)}
+              onChange={setTimeZone} displayFn={z => zoneLabel(z, startAt)}
+              hint={deviceTimeHint({ dateTime: startAt, timeZone })} />
           </div>
         </CollapsibleCard>
 
         {/* ━━━ Duration & Pricing ━━━ */}
         <CollapsibleCard label="Duration & Pricing" id="duration" expanded={expanded} toggle={toggle}
-          preview={total > 0 ? <span className="text-sm font-bold text-green-500">{formatCurrency(total)}</span> : undefined}>
+          preview={total > 0 ? <span className="text-sm font-bold text-green-500">{formatCurrency(total, currency)}</span> : undefined}>
           <div className="pt-1">
 
           {/* Service rate quick-select buttons */}
@@ -655,15 +759,18 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
           )}
 
           <div className="flex gap-3">
-            <div className="flex-1"><FieldCurrency label="Base Rate" value={baseRate} onChange={setBaseRate} /></div>
-            <div className="flex-1"><FieldCurrency label="Extras" value={extras} onChange={setExtras} /></div>
+            <div className="flex-1"><FieldCurrency label="Base Rate" value={baseRate} onChange={setBaseRate} currency={currency} /></div>
+            <div className="flex-1"><FieldCurrency label="Extras" value={extras} onChange={setExtras} currency={currency} /></div>
           </div>
+          <FieldSelect label="Currency" value={currency} options={currencyOptions(currency)} onChange={setCurrency}
+            displayFn={currencyLabel}
+            hint={currency !== getCurrency() ? 'Payments are recorded in this currency; Finances converts them' : undefined} />
 
           {/* Total */}
           {total > 0 && (
             <div className="flex items-center justify-between px-3 py-2.5 rounded-lg" style={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border)' }}>
               <span className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>Total</span>
-              <span className="text-lg font-bold text-green-500">{formatCurrency(total)}</span>
+              <span className="text-lg font-bold text-green-500">{formatCurrency(total, currency)}</span>
             </div>
           )}
 
@@ -707,7 +814,7 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
           {(locationType === 'Outcall' || locationType === 'Travel') && (
             <>
               <FieldTextInput label="Address" value={locationAddress} onChange={setLocationAddress} placeholder="Address" />
-              <FieldCurrency label="Travel Fee" value={travelFee} onChange={setTravelFee} />
+              <FieldCurrency label="Travel Fee" value={travelFee} onChange={setTravelFee} currency={currency} />
             </>
           )}
           <FieldTextInput label="Location Notes" value={locationNotes} onChange={setLocationNotes}
@@ -717,9 +824,9 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
 
         {/* ━━━ Deposit ━━━ */}
         <CollapsibleCard label="Deposit" id="deposit" expanded={expanded} toggle={toggle}
-          preview={depositAmount > 0 ? <span className="text-xs" style={{ color: 'var(--text-secondary)' }}>{formatCurrency(depositAmount)}</span> : undefined}>
+          preview={depositAmount > 0 ? <span className="text-xs" style={{ color: 'var(--text-secondary)' }}>{formatCurrency(depositAmount, currency)}</span> : undefined}>
           <div className="pt-1">
-          <FieldCurrency label="Deposit Amount" value={depositAmount}
+          <FieldCurrency label="Deposit Amount" value={depositAmount} currency={currency}
             onChange={v => { setDepositAmount(v); setUserEditedDeposit(true) }}
             hint={defaultDepositType === 'flat' ? `Default flat deposit.` : `Auto-calculated at ${defaultDepositPct}% of base rate.`} />
           {depositAmount > 0 && !isEditing && (
@@ -772,9 +879,7 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
               hint="Who to notify for the safety check-in." />
           )}
 
-          <FieldSelect label="Recurrence" value={recurrence} options={recurrenceOptions} onChange={setRecurrence}
-            displayFn={(v: string) => v === 'none' ? 'None' : v === 'weekly' ? 'Weekly' : v === 'biweekly' ? 'Every 2 Weeks' : 'Monthly'}
-            hint="A new booking will auto-create when this one completes." />
+          <RecurrenceEditor value={rrule} onChange={setRRule} start={new Date(dateTime)} />
 
           <FieldTextArea label="Booking Notes" value={notes} onChange={setNotes}
             placeholder="General notes about this booking..."
@@ -800,6 +905,43 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
       </form>
 
     </Modal>
+    {/* Series scope — outside Modal to avoid transform containing block */}
+    {showScopePicker && booking && (
+      <div className="fixed inset-0 z-[60] flex items-center justify-center px-6"
+        role="dialog" aria-modal="true"
+        style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={() => setShowScopePicker(false)}>
+        <div className="w-full max-w-sm rounded-2xl p-6"
+          style={{ backgroundColor: 'var(--bg-secondary)', border: '1px solid var(--border)' }}
+          onClick={e => e.stopPropagation()}>
+          <h3 className="font-bold text-base mb-2" style={{ color: 'var(--text-primary)' }}>Edit Recurring Booking</h3>
+          <p className="text-sm mb-5" style={{ color: 'var(--text-secondary)' }}>
+            {rrule !== (ruleString(booking) ?? '')
+              ? 'A new repeat rule applies to the series from here on.'
+              : 'Apply these changes to:'}
+          </p>
+          <div className="space-y-2">
+            {([
+              ['this', 'This booking'],
+              ['following', 'This and following'],
+              ['all', 'All upcoming in series'],
+            ] as const)
+              // A rule change can't apply to a single occurrence
+              .filter(([scope]) => scope !== 'this' || rrule === (ruleString(booking) ?? ''))
+              .map(([scope, label]) => (
+                <button key={scope} onClick={() => handleSave(scope)}
+                  className="w-full py-3 rounded-xl text-sm font-semibold"
+                  style={scope === 'this'
+                    ? { backgroundColor: '#a855f7', color: '#fff' }
+                    : { backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)' }}>
+                  {label}
+                </button>
+              ))}
+            <button onClick={() => setShowScopePicker(false)}
+              className="w-full py-2 text-sm" style={{ color: 'var(--text-secondary)' }}>Cancel</button>
+          </div>
+        </div>
+      </div>
+    )}
     {/* Availability Conflict Warning — outside Modal to avoid transform containing block */}
     {conflictWarning && (
       <div className="fixed inset-0 z-[60] flex items-center justify-center px-6"
@@ -814,11 +956,23 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
               <AlertTriangle size={20} style={{ color: conflictWarning.isDoubleBook ? '#ef4444' : '#f97316' }} />
             </div>
             <h3 className="font-bold text-base" style={{ color: 'var(--text-primary)' }}>
-              {conflictWarning.isDoubleBook ? 'Double Booking' : 'Availability Conflict'}
+              {conflictWarning.isDoubleBook ? 'Double Booking'
+                : conflictWarning.isSchedulingRule ? 'Scheduling Limit'
+                : conflictWarning.isBlockedTime ? 'Calendar Conflict' : 'Availability Conflict'}
             </h3>
           </div>
           <p className="text-sm mb-2" style={{ color: 'var(--text-secondary)' }}>{conflictWarning.reason}</p>
-          {!conflictWarning.isDoubleBook && (
+          {conflictWarning.isSchedulingRule && (
+            <p className="text-xs mb-5" style={{ color: 'var(--text-secondary)', opacity: 0.7 }}>
+              Buffers and daily limits can be changed in Settings. Booking anyway ignores them for this booking only.
+            </p>
+          )}
+          {conflictWarning.isBlockedTime && (
+            <p className="text-xs mb-5" style={{ color: 'var(--text-secondary)', opacity: 0.7 }}>
+              This time is blocked by an imported calendar. Booking anyway leaves that event as it is.
+            </p>
+          )}
+          {!conflictWarning.isDoubleBook && !conflictWarning.isSchedulingRule && !conflictWarning.isBlockedTime && (
             <p className="text-xs mb-5" style={{ color: 'var(--text-secondary)', opacity: 0.7 }}>
               If you continue, this day will be set to <strong style={{ color: '#f97316' }}>Limited</strong> and
               only this booking's time slot will be open.
@@ -833,7 +987,7 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
             <button onClick={() => setConflictWarning(null)}
               className="flex-1 py-3 rounded-xl text-sm font-semibold"
               style={{ backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)' }}>Go Back</button>
-            <button onClick={() => saveBooking(!conflictWarning.isDoubleBook)}
+            <button onClick={() => saveBooking(!conflictWarning.isDoubleBook && !conflictWarning.isSchedulingRule && !conflictWarning.isBlockedTime)}
               className="flex-1 py-3 rounded-xl text-sm font-semibold text-white"
               style={{ background: conflictWarning.isDoubleBook
                 ? 'linear-gradient(135deg, #ef4444, #dc2626)'
@@ -851,6 +1005,7 @@ export function BookingEditor({ isOpen, onClose, booking, preselectedClientId, p
         setVenueName(v.name)
         setLocationAddress(v.address)
         if (v.directions) setLocationNotes(v.directions)
+        if (v.timeZone) setTimeZone(v.timeZone)
       }}
     />
     </>
@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { Check } from 'lucide-react'
+import { addDays, format } from 'date-fns'
+import { Modal } from '../../components/Modal'
+import { showToast } from '../../components/Toast'
+import { copyWeekForward } from '../../utils/availability'
+
+interface CopyWeekSheetProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Monday of the week being copied */
+  weekStart: Date
+}
+
+const WEEK_OPTIONS = [1, 2, 4, 8, 12]
+
+export function CopyWeekSheet({ isOpen, onClose, weekStart }: CopyWeekSheetProps) {
+  const [weeks, setWeeks] = useState(1)
+  const [copying, setCopying] = useState(false)
+
+  async function handleCopy() {
+    setCopying(true)
+    try {
+      const { copied, skipped } = await copyWeekForward(weekStart, weeks)
+      const msg = `Copied to ${copied} day${copied === 1 ? '' : 's'}`
+      showToast(skipped > 0 ? `${msg} · ${skipped} with bookings left as-is` : msg)
+      onClose()
+    } catch {
+      showToast('Failed to copy week', 'error')
+    } finally {
+      setCopying(false)
+    }
+  }
+
+  const rangeEnd = addDays(weekStart, 7 * weeks + 6)
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Copy Week"
+      actions={
+        <button onClick={handleCopy} disabled={copying} aria-label="Copy week"
+          className={`p-2 ${copying ? 'opacity-30' : 'text-purple-500'}`}>
+          <Check size={20} />
+        </button>
+      }
+    >
+      <div className="px-4 py-3 space-y-4">
+        <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+          Repeat the availability set on individual days of {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d')} over the following weeks.
+          Days without their own status fall back to your weekly hours.
+        </p>
+
+        <div>
+          <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Next</p>
+          <div className="flex gap-2 flex-wrap">
+            {WEEK_OPTIONS.map(n => (
+              <button
+                key={n}
+                type="button"
+                onClick={() => setWeeks(n)}
+                aria-pressed={weeks === n}
+                className="px-3 py-1.5 rounded-lg text-sm font-semibold"
+                style={{
+                  backgroundColor: weeks === n ? '#a855f7' : 'var(--bg-secondary)',
+                  color: weeks === n ? '#fff' : 'var(--text-primary)',
+                }}
+              >
+                {n} week{n === 1 ? '' : 's'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs mt-2" style={{ color: 'var(--text-secondary)' }}>
+            Through {format(rangeEnd, 'MMM d, yyyy')}. Days that already have bookings keep their current availability.
+          </p>
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Copy, MessageSquare } from 'lucide-react'
+import { addDays, format, parseISO, startOfDay } from 'date-fns'
+import { db, bookingDurationFormatted } from '../../db'
+import { Modal } from '../../components/Modal'
+import { SendMessageSheet } from '../../components/SendMessageSheet'
+import { showToast } from '../../components/Toast'
+import { fieldInputStyle } from '../../components/FormFields'
+import { fmtShortDayDate, fmtTime } from '../../utils/dateFormat'
+import { findOpenSlots, formatSlotList, slotDayKey } from '../../utils/availability'
+import type { OpenSlot } from '../../utils/availability'
+import type { LocationType } from '../../types'
+
+interface OpenSlotFinderProps {
+  isOpen: boolean
+  onClose: () => void
+  /** First day to search — usually the day or week being viewed */
+  initialDate: Date
+}
+
+const FALLBACK_DURATIONS = [60, 90, 120, 180]
+const RANGE_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: 'Week' },
+  { days: 14, label: '2 weeks' },
+]
+const LOCATION_TYPES: LocationType[] = ['Incall', 'Outcall', 'Travel', 'Virtual']
+
+const chipStyle = (active: boolean): React.CSSProperties => active
+  ? { backgroundColor: '#a855f7', color: '#fff' }
+  : { backgroundColor: 'var(--bg-secondary)', color: 'var(--text-secondary)', border: '1px solid var(--border)' }
+
+/**
+ * "When are you free Thursday?" — lists bookable start times for a duration
+ * over a few days, and hands them to Message Client as {slots}.
+ */
+export function OpenSlotFinder({ isOpen, onClose, initialDate }: OpenSlotFinderProps) {
+  const serviceRates = useLiveQuery(() => db.serviceRates.orderBy('sortOrder').filter(r => r.isActive).toArray()) ?? []
+  const clients = useLiveQuery(() => db.clients.filter(c => !c.isBlocked).sortBy('alias')) ?? []
+
+  const [fromDate, setFromDate] = useState(() => format(initialDate, 'yyyy-MM-dd'))
+  const [rangeDays, setRangeDays] = useState(3)
+  const [duration, setDuration] = useState(60)
+  const [locationType, setLocationType] = useState<LocationType>('Incall')
+  const [result, setResult] = useState<{ key: string; slots: OpenSlot[] } | null>(null)
+  const [clientId, setClientId] = useState('')
+  const [showMessage, setShowMessage] = useState(false)
+
+  const durationOptions = serviceRates.length > 0
+    ? [...new Set(serviceRates.map(r => r.duration))].sort((a, b) => a - b)
+    : FALLBACK_DURATIONS
+
+  const searchKey = `${fromDate}|${rangeDays}|${duration}|${locationType}`
+
+  useEffect(() => {
+    if (!isOpen || !fromDate) return
+    let cancelled = false
+    const from = startOfDay(parseISO(fromDate))
+    findOpenSlots({ from, to: addDays(from, rangeDays - 1), durationMinutes: duration, location: { locationType } })
+      .then(slots => { if (!cancelled) setResult({ key: searchKey, slots }) })
+      .catch(() => { if (!cancelled) showToast('Could not load open times', 'error') })
+    return () => { cancelled = true }
+  }, [isOpen, searchKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const slots = result?.key === searchKey ? result.slots : null
+  const byDay = useMemo(() => {
+    const days: { day: OpenSlot; times: OpenSlot[] }[] = []
+    for (const slot of slots ?? []) {
+      const last = days[days.length - 1]
+      if (last && last.day.timeZone === slot.timeZone && slotDayKey(last.day) === slotDayKey(slot)) last.times.push(slot)
+      else days.push({ day: slot, times: [slot] })
+    }
+    return days
+  }, [slots])
+
+  const slotText = slots && slots.length > 0 ? formatSlotList(slots, duration) : ''
+  const client = clients.find(c => c.id === clientId)
+
+  function handleCopy() {
+    navigator.clipboard.writeText(slotText)
+      .then(() => showToast('Open times copied'))
+      .catch(() => showToast('Could not copy to clipboard'))
+  }
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={onClose} title="Find Open Times">
+        <div className="px-4 py-3 space-y-4">
+          {/* Duration */}
+          <div>
+            <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Duration</p>
+            <div className="flex flex-wrap gap-2">
+              {durationOptions.map(d => {
+                const rate = serviceRates.find(r => r.duration === d)
+                return (
+                  <button key={d} type="button" onClick={() => setDuration(d)} aria-pressed={duration === d}
+                    className="px-3 py-1.5 rounded-full text-xs font-semibold" style={chipStyle(duration === d)}>
+                    {rate ? rate.name : bookingDurationFormatted(d)}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+
+          {/* Range */}
+          <div>
+            <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>From</p>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={e => setFromDate(e.target.value)}
+              aria-label="Search from date"
+              className="w-full px-3 py-2 rounded-lg text-sm outline-none"
+              style={{ ...fieldInputStyle, fontSize: '16px' }}
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {RANGE_OPTIONS.map(opt => (
+                <button key={opt.days} type="button" onClick={() => setRangeDays(opt.days)} aria-pressed={rangeDays === opt.days}
+                  className="px-3 py-1.5 rounded-full text-xs font-semibold" style={chipStyle(rangeDays === opt.days)}>
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Location — decides which buffers apply */}
+          <div>
+            <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Location</p>
+            <div className="flex flex-wrap gap-2">
+              {LOCATION_TYPES.map(t => (
+                <button key={t} type="button" onClick={() => setLocationType(t)} aria-pressed={locationType === t}
+                  className="px-3 py-1.5 rounded-full text-xs font-semibold" style={chipStyle(locationType === t)}>
+                  {t}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Results */}
+          <div>
+            <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Open Start Times</p>
+            {slots === null ? (
+              <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>Searching…</p>
+            ) : byDay.length === 0 ? (
+              <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                Nothing open in this range. Only days marked Available or Limited — or covered by your weekly hours — are searched.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {byDay.map(({ day, times }) => (
+                  <div key={day.start.toISOString()}>
+                    <p className="text-sm font-semibold mb-1.5" style={{ color: 'var(--text-primary)' }}>{fmtShortDayDate(day.start, day.timeZone)}</p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {times.map(t => (
+                        <span key={t.start.getTime()} className="px-2 py-1 rounded-lg text-xs font-medium"
+                          style={{ backgroundColor: 'rgba(34,197,94,0.12)', color: '#22c55e' }}>
+                          {fmtTime(t.start, t.timeZone)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Share */}
+          {slotText && (
+            <div className="space-y-2 pb-4">
+              <select
+                value={clientId}
+                onChange={e => setClientId(e.target.value)}
+                aria-label="Client to message"
+                className="w-full px-3 py-2.5 rounded-lg text-sm outline-none"
+                style={{ ...fieldInputStyle, fontSize: '16px' }}
+              >
+                <option value="">Choose a client to message…</option>
+                {clients.map(c => <option key={c.id} value={c.id}>{c.alias}</option>)}
+              </select>
+              <div className="flex gap-2">
+                <button type="button" onClick={handleCopy}
+                  className="flex-1 py-3 rounded-xl text-sm font-semibold flex items-center justify-center gap-2"
+                  style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-secondary)', border: '1px solid var(--border)' }}>
+                  <Copy size={14} /> Copy
+                </button>
+                <button type="button" onClick={() => setShowMessage(true)} disabled={!client}
+                  className="flex-1 py-3 rounded-xl text-sm font-semibold text-white flex items-center justify-center gap-2 disabled:opacity-40"
+                  style={{ backgroundColor: '#a855f7' }}>
+                  <MessageSquare size={14} /> Message
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </Modal>
+
+      {client && (
+        <SendMessageSheet
+          isOpen={showMessage}
+          onClose={() => setShowMessage(false)}
+          client={client}
+          slots={slotText}
+        />
+      )}
+    </>
+  )
+}
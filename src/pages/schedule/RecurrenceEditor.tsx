@@ -0,0 +1,201 @@
+import { endOfDay, format, parseISO } from 'date-fns'
+import { FieldHint, fieldInputStyle } from '../../components/FormFields'
+import { describeRule, formatRRule, parseRRule } from '../../utils/recurrence'
+import type { RecurrenceRule } from '../../utils/recurrence'
+
+interface RecurrenceEditorProps {
+  /** RRULE value, '' for a one-off booking */
+  value: string
+  onChange: (rrule: string) => void
+  /** The booking's date — defaults new rules to its weekday / day of month */
+  start: Date
+}
+
+type Frequency = 'none' | RecurrenceRule['freq']
+type EndMode = 'never' | 'until' | 'count'
+
+// Monday-first, as in the week view
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0]
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const SET_POS_OPTIONS = [
+  { value: 1, label: '1st' }, { value: 2, label: '2nd' }, { value: 3, label: '3rd' },
+  { value: 4, label: '4th' }, { value: -1, label: 'Last' },
+]
+
+const chipStyle = (active: boolean): React.CSSProperties => active
+  ? { backgroundColor: '#a855f7', color: '#fff' }
+  : { backgroundColor: 'var(--bg-primary)', color: 'var(--text-secondary)', border: '1px solid var(--border)' }
+
+/** Position of `d` among its month's same weekdays: 1–4, or -1 for a 5th (not every month has one). */
+function setPosOf(d: Date): number {
+  const n = Math.ceil(d.getDate() / 7)
+  return n > 4 ? -1 : n
+}
+
+export function RecurrenceEditor({ value, onChange, start }: RecurrenceEditorProps) {
+  const rule = value ? parseRRule(value) : null
+  const freq: Frequency = rule?.freq ?? 'none'
+  const endMode: EndMode = rule?.until ? 'until' : rule?.count ? 'count' : 'never'
+
+  function update(next: RecurrenceRule | null) {
+    onChange(next ? formatRRule(next) : '')
+  }
+
+  function setFreq(f: Frequency) {
+    if (f === freq) return
+    if (f === 'none') update(null)
+    else if (f === 'WEEKLY') update({ freq: f, interval: 1, byWeekday: [start.getDay()], until: rule?.until, count: rule?.count })
+    else update({ freq: f, interval: 1, byMonthDay: start.getDate(), until: rule?.until, count: rule?.count })
+  }
+
+  function toggleWeekday(day: number) {
+    if (!rule) return
+    const days = rule.byWeekday ?? [start.getDay()]
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day]
+    if (next.length === 0) return
+    update({ ...rule, byWeekday: next })
+  }
+
+  function setEndMode(mode: EndMode) {
+    if (!rule) return
+    if (mode === 'never') update({ ...rule, until: undefined, count: undefined })
+    else if (mode === 'until') update({ ...rule, count: undefined, until: rule.until ?? endOfDay(start) })
+    else update({ ...rule, until: undefined, count: rule.count ?? 10 })
+  }
+
+  const byNthWeekday = !!rule?.setPos
+
+  return (
+    <div className="mb-3">
+      <p className="text-xs font-semibold mb-1" style={{ color: 'var(--text-primary)' }}>Repeat</p>
+      <div className="flex gap-2 mb-2">
+        {([['none', 'Never'], ['WEEKLY', 'Weekly'], ['MONTHLY', 'Monthly']] as const).map(([f, label]) => (
+          <button key={f} type="button" onClick={() => setFreq(f)} aria-pressed={freq === f}
+            className="px-3 py-1.5 rounded-full text-xs font-semibold" style={chipStyle(freq === f)}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {rule && (
+        <div className="space-y-2.5 rounded-lg p-3" style={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border)' }}>
+          {/* Interval */}
+          <div className="flex items-center gap-2 text-sm" style={{ color: 'var(--text-primary)' }}>
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={52}
+              value={rule.interval}
+              onChange={e => update({ ...rule, interval: Math.min(52, Math.max(1, parseInt(e.target.value) || 1)) })}
+              aria-label="Repeat interval"
+              className="w-16 px-2 py-1.5 rounded-lg text-sm outline-none text-center"
+              style={{ ...fieldInputStyle, fontSize: '16px' }}
+            />
+            <span>{rule.freq === 'WEEKLY' ? (rule.interval === 1 ? 'week' : 'weeks') : (rule.interval === 1 ? 'month' : 'months')}</span>
+          </div>
+
+          {/* Weekly: which days */}
+          {rule.freq === 'WEEKLY' && (
+            <div className="flex gap-1.5">
+              {WEEKDAYS.map(d => {
+                const active = (rule.byWeekday ?? [start.getDay()]).includes(d)
+                return (
+                  <button key={d} type="button" onClick={() => toggleWeekday(d)} aria-pressed={active}
+                    aria-label={WEEKDAY_NAMES[d]}
+                    className="w-8 h-8 rounded-full text-xs font-bold" style={chipStyle(active)}>
+                    {WEEKDAY_LETTERS[d]}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          {/* Monthly: day of month or nth weekday */}
+          {rule.freq === 'MONTHLY' && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <button type="button" aria-pressed={!byNthWeekday}
+                  onClick={() => update({ ...rule, setPos: undefined, byWeekday: undefined, byMonthDay: start.getDate() })}
+                  className="px-3 py-1.5 rounded-full text-xs font-semibold" style={chipStyle(!byNthWeekday)}>
+                  Day {rule.byMonthDay ?? start.getDate()}
+                </button>
+                <button type="button" aria-pressed={byNthWeekday}
+                  onClick={() => update({ ...rule, byMonthDay: undefined, setPos: setPosOf(start), byWeekday: [start.getDay()] })}
+                  className="px-3 py-1.5 rounded-full text-xs font-semibold" style={chipStyle(byNthWeekday)}>
+                  Weekday
+                </button>
+              </div>
+              {byNthWeekday && (
+                <div className="flex gap-2">
+                  <select
+                    value={rule.setPos}
+                    onChange={e => update({ ...rule, setPos: parseInt(e.target.value) })}
+                    aria-label="Which week of the month"
+                    className="flex-1 px-3 py-2 rounded-lg text-sm outline-none"
+                    style={{ ...fieldInputStyle, fontSize: '16px' }}
+                  >
+                    {SET_POS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                  <select
+                    value={rule.byWeekday?.[0] ?? start.getDay()}
+                    onChange={e => update({ ...rule, byWeekday: [parseInt(e.target.value)] })}
+                    aria-label="Weekday"
+                    className="flex-1 px-3 py-2 rounded-lg text-sm outline-none"
+                    style={{ ...fieldInputStyle, fontSize: '16px' }}
+                  >
+                    {WEEKDAYS.map(d => <option key={d} value={d}>{WEEKDAY_NAMES[d]}</option>)}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Ends */}
+          <div>
+            <p className="text-xs font-semibold uppercase mb-1.5" style={{ color: 'var(--text-secondary)' }}>Ends</p>
+            <div className="flex gap-2 mb-2">
+              {([['never', 'Never'], ['until', 'On date'], ['count', 'After']] as const).map(([m, label]) => (
+                <button key={m} type="button" onClick={() => setEndMode(m)} aria-pressed={endMode === m}
+                  className="px-3 py-1.5 rounded-full text-xs font-semibold" style={chipStyle(endMode === m)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+            {endMode === 'until' && rule.until && (
+              <input
+                type="date"
+                value={format(rule.until, 'yyyy-MM-dd')}
+                min={format(start, 'yyyy-MM-dd')}
+                onChange={e => e.target.value && update({ ...rule, until: endOfDay(parseISO(e.target.value)) })}
+                aria-label="Last day"
+                className="w-full px-3 py-2 rounded-lg text-sm outline-none"
+                style={{ ...fieldInputStyle, fontSize: '16px' }}
+              />
+            )}
+            {endMode === 'count' && (
+              <div className="flex items-center gap-2 text-sm" style={{ color: 'var(--text-primary)' }}>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={rule.count ?? 10}
+                  onChange={e => update({ ...rule, count: Math.min(365, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  aria-label="Number of occurrences"
+                  className="w-20 px-2 py-1.5 rounded-lg text-sm outline-none text-center"
+                  style={{ ...fieldInputStyle, fontSize: '16px' }}
+                />
+                <span>times</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <FieldHint text={rule
+        ? `${describeRule(rule, start)}. Upcoming bookings are added to your calendar automatically.`
+        : 'A one-off booking.'} />
+    </div>
+  )
+}
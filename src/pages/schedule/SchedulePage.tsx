@@ -1,23 +1,27 @@
 import { useLiveQuery } from 'dexie-react-hooks'
-import { Plus, CalendarDays, CalendarRange, List, SlidersHorizontal, X, ChevronRight } from 'lucide-react'
+import { Plus, CalendarDays, CalendarRange, List, SlidersHorizontal, X, ChevronRight, Repeat, Copy, Clock, ListOrdered } from 'lucide-react'
 import { useState, useMemo, useRef, useEffect, useCallback } from 'react'
 import { useScrollLock } from '../../hooks/useScrollLock'
 import {
-  startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isToday,
+  startOfMonth, endOfMonth, eachDayOfInterval, isToday,
   startOfWeek, endOfWeek, isSameMonth, isSameWeek, addMonths, subMonths, addWeeks, subWeeks, subDays,
   parseISO, startOfDay, endOfDay, format
 } from 'date-fns'
-import { fmtMonthYear, fmtMonth, fmtFullDayDate } from '../../utils/dateFormat'
+import { fmtMonthYear, fmtMonth, fmtFullDayDate, fmtTime } from '../../utils/dateFormat'
 import { db, formatCurrency } from '../../db'
 import { PageHeader } from '../../components/PageHeader'
 import { EmptyState } from '../../components/EmptyState'
 import { BookingEditor } from './BookingEditor'
 import { AvailabilityPicker } from './AvailabilityPicker'
+import { WeeklyAvailabilityEditor } from './WeeklyAvailabilityEditor'
+import { CopyWeekSheet } from './CopyWeekSheet'
+import { OpenSlotFinder } from './OpenSlotFinder'
+import { WaitlistSheet } from './WaitlistSheet'
 import { SwipeableBookingRow } from '../../components/SwipeableBookingRow'
 import { CancellationSheet } from '../../components/CancellationSheet'
 import { JournalEntryEditor } from '../../components/JournalEntryEditor'
-import { formatTime12 } from '../../utils/availability'
-import type { Booking, BookingStatus } from '../../types'
+import { formatTime12, resolveAvailability, type EffectiveAvailability } from '../../utils/availability'
+import type { BlockedTime, Booking, BookingStatus } from '../../types'
 import { bookingStatusColors } from '../../types'
 import { SchedulePageSkeleton } from '../../components/Skeleton'
 import { isPro, usePlanLimits } from '../../components/planLimits'
@@ -56,12 +60,26 @@ const statusHex: Record<string, string> = {
 /** Max booking bars to show per calendar cell */
 const MAX_BARS = 2
 
+/** Grey used for time blocked by an imported calendar */
+const BLOCKED_COLOR = '#9ca3af'
+
+/** Compact bar time: "9a", "2:30p" */
+function shortTime(dt: Date): string {
+  const h = dt.getHours()
+  const m = dt.getMinutes()
+  return `${h > 12 ? h - 12 : h || 12}${m > 0 ? `:${m.toString().padStart(2, '0')}` : ''}${h >= 12 ? 'p' : 'a'}`
+}
+
 export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
   const [viewMode, setViewMode]         = useState<'calendar' | 'week' | 'list'>('calendar')
   const [currentMonth, setCurrentMonth] = useState(new Date())
   const [showEditor, setShowEditor]     = useState(false)
   const [editorPreDate, setEditorPreDate] = useState<Date | undefined>()
   const [showAvailPicker, setShowAvailPicker] = useState(false)
+  const [showWeeklyHours, setShowWeeklyHours] = useState(false)
+  const [showCopyWeek, setShowCopyWeek] = useState(false)
+  const [showSlotFinder, setShowSlotFinder] = useState(false)
+  const [showWaitlist, setShowWaitlist] = useState(false)
 
   // Day detail modal
   const [dayDetailDate, setDayDetailDate] = useState<Date | null>(null)
@@ -92,6 +110,8 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
   const bookings    = rawBookings ?? []
   const clients     = useLiveQuery(() => db.clients.toArray()) ?? []
   const availability = useLiveQuery(() => db.availability.toArray()) ?? []
+  const templates    = useLiveQuery(() => db.availabilityTemplates.toArray()) ?? []
+  const blockedTimes = useLiveQuery(() => db.blockedTimes.toArray()) ?? []
   const clientMap = useMemo(() => {
     const map = new Map<string, (typeof clients)[0]>()
     for (const c of clients) map.set(c.id, c)
@@ -146,8 +166,17 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
       return true
     })
 
-  const availForDay = (day: Date) =>
-    availability.find(a => isSameDay(new Date(a.date), day))
+  // Imported calendar events overlapping the day, earliest first
+  const blockedForDay = (day: Date) => {
+    const dayStart = startOfDay(day)
+    const dayEnd = endOfDay(day)
+    return blockedTimes
+      .filter(b => new Date(b.start) <= dayEnd && new Date(b.end) > dayStart)
+      .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+  }
+
+  // Date-specific overrides win; otherwise the weekly template for that weekday
+  const availForDay = (day: Date) => resolveAvailability(day, availability, templates)
 
   // ── Monthly summary ──────────────────────────────────────────
   const monthBookings = useMemo(() => {
@@ -274,6 +303,23 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
   return (
     <div className="pb-20">
       <PageHeader title="Schedule">
+        <button
+          onClick={() => setShowSlotFinder(true)}
+          className="p-2 rounded-lg"
+          style={{ color: 'var(--text-secondary)' }}
+          aria-label="Find open times"
+        >
+          <Clock size={18} />
+        </button>
+        <button
+          onClick={() => setShowWaitlist(true)}
+          className="p-2 rounded-lg"
+          style={{ color: 'var(--text-secondary)' }}
+          aria-label="Waitlist"
+        >
+          <ListOrdered size={18} />
+        </button>
+
         {/* Filter toggle with dot indicator */}
         <button
           onClick={() => setFiltersOpen(v => !v)}
@@ -434,7 +480,10 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
                 const avail       = availColor(day)
                 const sorted      = [...dayBookings].sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime())
                 const visible     = sorted.slice(0, MAX_BARS)
-                const overflow    = sorted.length - MAX_BARS
+                // Imported calendar events take whatever bars bookings leave
+                const dayBlocked  = blockedForDay(day)
+                const blockedBars = dayBlocked.slice(0, MAX_BARS - visible.length)
+                const overflow    = sorted.length + dayBlocked.length - MAX_BARS
 
                 return (
                   <button
@@ -467,10 +516,7 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
                     <div className="flex flex-col gap-px mt-0.5 flex-1">
                       {visible.map(b => {
                         const color = statusHex[bookingStatusColors[b.status]] ?? '#6b7280'
-                        const dt = new Date(b.dateTime)
-                        const h = dt.getHours()
-                        const m = dt.getMinutes()
-                        const timeStr = `${h > 12 ? h - 12 : h || 12}${m > 0 ? `:${m.toString().padStart(2, '0')}` : ''}${h >= 12 ? 'p' : 'a'}`
+                        const timeStr = shortTime(new Date(b.dateTime))
                         const client = clientFor(b.clientId)
                         return (
                           <div
@@ -489,6 +535,21 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
                           </div>
                         )
                       })}
+                      {blockedBars.map(b => (
+                        <div
+                          key={b.id}
+                          className="rounded-sm px-0.5 truncate"
+                          style={{
+                            backgroundColor: BLOCKED_COLOR + '25',
+                            borderLeft: `2px dashed ${BLOCKED_COLOR}`,
+                            fontSize: '8px',
+                            lineHeight: '13px',
+                            color: 'var(--text-secondary)',
+                          }}
+                        >
+                          {b.allDay ? b.title.slice(0, 8) : `${shortTime(new Date(b.start))} ${b.title.slice(0, 4)}`}
+                        </div>
+                      ))}
                       {overflow > 0 && (
                         <div
                           className="text-center rounded-sm"
@@ -516,6 +577,12 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
                   <span className="text-[9px]" style={{ color: 'var(--text-secondary)' }}>{label}</span>
                 </div>
               ))}
+              <button
+                onClick={() => setShowWeeklyHours(true)}
+                className="flex items-center gap-1 text-[9px] font-semibold text-purple-500"
+              >
+                <Repeat size={9} /> Weekly hours
+              </button>
             </div>
 
             {/* ── Monthly Summary ───────────────────────────────────────── */}
@@ -616,10 +683,13 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
             setCurrentMonth={setCurrentMonth}
             isViewingCurrentWeek={isViewingCurrentWeek}
             bookingsForDay={bookingsForDay}
+            blockedForDay={blockedForDay}
             availColor={availColor}
             clientFor={clientFor}
             onOpenBooking={onOpenBooking}
             onDayClick={setDayDetailDate}
+            onEditWeeklyHours={() => setShowWeeklyHours(true)}
+            onCopyWeek={() => setShowCopyWeek(true)}
           />
         ) : (
           /* List view */
@@ -698,6 +768,7 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
         <DayDetailModal
           date={dayDetailDate}
           bookings={dayDetailBookings}
+          blocked={blockedForDay(dayDetailDate)}
           clientFor={clientFor}
           availForDay={availForDay}
           availColor={availColor(dayDetailDate)}
@@ -720,6 +791,22 @@ export function SchedulePage({ onOpenBooking }: SchedulePageProps) {
           onClose={() => setShowAvailPicker(false)}
         />
       )}
+      <WeeklyAvailabilityEditor isOpen={showWeeklyHours} onClose={() => setShowWeeklyHours(false)} />
+      <CopyWeekSheet isOpen={showCopyWeek} onClose={() => setShowCopyWeek(false)} weekStart={weekStart} />
+      {showSlotFinder && (
+        <OpenSlotFinder
+          isOpen
+          onClose={() => setShowSlotFinder(false)}
+          initialDate={dayDetailDate ?? (viewMode === 'week' && weekStart > new Date() ? weekStart : new Date())}
+        />
+      )}
+      {showWaitlist && (
+        <WaitlistSheet
+          isOpen
+          onClose={() => setShowWaitlist(false)}
+          initialDate={dayDetailDate ?? new Date()}
+        />
+      )}
 
       {/* Cancellation sheet (shared across swipe rows + day detail) */}
       <CancellationSheet
@@ -755,15 +842,18 @@ interface WeekViewProps {
   setCurrentMonth: (d: Date) => void
   isViewingCurrentWeek: boolean
   bookingsForDay: (day: Date) => Booking[]
+  blockedForDay: (day: Date) => BlockedTime[]
   availColor: (day: Date) => string | undefined
   clientFor: (id?: string) => import('../../types').Client | undefined
   onOpenBooking: (id: string) => void
   onDayClick: (day: Date) => void
+  onEditWeeklyHours: () => void
+  onCopyWeek: () => void
 }
 
 function WeekView({
   weekDays, currentMonth, setCurrentMonth, isViewingCurrentWeek,
-  bookingsForDay, availColor, clientFor, onOpenBooking, onDayClick,
+  bookingsForDay, blockedForDay, availColor, clientFor, onOpenBooking, onDayClick, onEditWeeklyHours, onCopyWeek,
 }: WeekViewProps) {
   // Gather all bookings for the week and compute the time range to display
   const weekBookings = useMemo(() => {
@@ -776,15 +866,30 @@ function WeekView({
     return all
   }, [weekDays, bookingsForDay])
 
-  // Compute visible hour range from bookings (padded by 1 hour, clamped 6am–2am next day)
+  // Imported calendar events — all-day ones go in the day header, not the grid
+  const weekBlocked = useMemo(() => {
+    return weekDays.map(day => {
+      const blocked = blockedForDay(day)
+      return { allDay: blocked.filter(b => b.allDay), timed: blocked.filter(b => !b.allDay) }
+    })
+  }, [weekDays, blockedForDay])
+
+  // Compute visible hour range from bookings and blocked time (padded by 1 hour, clamped 6am–2am next day)
   const { startHour, endHour } = useMemo(() => {
-    if (weekBookings.length === 0) return { startHour: 12, endHour: 22 } // noon–10pm default
+    const spans = [
+      ...weekBookings.map(({ booking: b, dayIndex }) => {
+        const start = new Date(b.dateTime).getTime()
+        return { start, end: start + (b.duration || 60) * 60_000, dayIndex }
+      }),
+      ...weekBlocked.flatMap(({ timed }, dayIndex) => timed.map(b => ({
+        start: new Date(b.start).getTime(), end: new Date(b.end).getTime(), dayIndex,
+      }))),
+    ]
+    if (spans.length === 0) return { startHour: 12, endHour: 22 } // noon–10pm default
 
     let earliest = 24
     let latest = 0
-    for (const { booking: b, dayIndex: di } of weekBookings) {
-      const bStart = new Date(b.dateTime).getTime()
-      const bEnd = bStart + (b.duration || 60) * 60_000
+    for (const { start: bStart, end: bEnd, dayIndex: di } of spans) {
       const dStart = startOfDay(weekDays[di]).getTime()
       const dEnd = dStart + 24 * 60 * 60_000
       const visS = Math.max(bStart, dStart)
@@ -798,7 +903,7 @@ function WeekView({
       startHour: Math.max(6, Math.floor(earliest) - 1),
       endHour: Math.min(26, Math.ceil(latest) + 1), // 26 = 2am next day
     }
-  }, [weekBookings])
+  }, [weekBookings, weekBlocked])
 
   const totalHours = endHour - startHour
   const gridHeight = totalHours * HOUR_HEIGHT
@@ -864,6 +969,24 @@ function WeekView({
         </button>
       </div>
 
+      {/* Availability actions */}
+      <div className="flex items-center justify-center gap-2 mb-3">
+        <button
+          onClick={onEditWeeklyHours}
+          className="flex items-center gap-1 text-[11px] font-medium px-2.5 py-1 rounded-lg"
+          style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-secondary)' }}
+        >
+          <Repeat size={11} /> Weekly hours
+        </button>
+        <button
+          onClick={onCopyWeek}
+          className="flex items-center gap-1 text-[11px] font-medium px-2.5 py-1 rounded-lg"
+          style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-secondary)' }}
+        >
+          <Copy size={11} /> Copy week forward
+        </button>
+      </div>
+
       {/* Day headers */}
       <div className="flex" style={{ paddingLeft: '36px' }}>
         {weekDays.map((day, i) => {
@@ -883,6 +1006,14 @@ function WeekView({
                 {day.getDate()}
               </span>
               {avail && <div className="w-1.5 h-1.5 rounded-full mt-0.5" style={{ backgroundColor: avail }} />}
+              {weekBlocked[i].allDay.length > 0 && (
+                <span
+                  className="text-[8px] leading-tight truncate max-w-full px-0.5 mt-0.5 rounded-sm"
+                  style={{ backgroundColor: BLOCKED_COLOR + '25', color: 'var(--text-secondary)' }}
+                >
+                  {weekBlocked[i].allDay[0].title}
+                </span>
+              )}
             </button>
           )
         })}
@@ -954,6 +1085,31 @@ function WeekView({
                     style={{ borderLeft: dayIdx > 0 ? '1px solid var(--border)' : undefined, opacity: isToday(day) ? 1 : 0.85 }}
                     onClick={() => onDayClick(day)}
                   >
+                    {weekBlocked[dayIdx].timed.map(b => {
+                      const dayStartMs = startOfDay(day).getTime()
+                      const visStart = Math.max(new Date(b.start).getTime(), dayStartMs)
+                      const visEnd = Math.min(new Date(b.end).getTime(), dayStartMs + 24 * 60 * 60_000)
+                      const visStartDate = new Date(visStart)
+                      const top = (visStartDate.getHours() + visStartDate.getMinutes() / 60 - startHour) * HOUR_HEIGHT
+                      const height = Math.max(18, (visEnd - visStart) / 3_600_000 * HOUR_HEIGHT)
+                      return (
+                        <div
+                          key={b.id}
+                          className="absolute left-0.5 right-0.5 rounded-md px-1 overflow-hidden"
+                          style={{
+                            top: `${top}px`,
+                            height: `${height}px`,
+                            backgroundColor: BLOCKED_COLOR + '25',
+                            borderLeft: `3px dashed ${BLOCKED_COLOR}`,
+                            zIndex: 4,
+                          }}
+                        >
+                          <p className="text-[9px] truncate leading-tight mt-0.5" style={{ color: 'var(--text-secondary)' }}>
+                            {b.title}
+                          </p>
+                        </div>
+                      )
+                    })}
                     {dayBkgs.map(b => {
                       const dt = new Date(b.dateTime)
                       const bookingStart = dt.getTime()
@@ -1016,8 +1172,9 @@ function WeekView({
 interface DayDetailModalProps {
   date: Date
   bookings: import('../../types').Booking[]
+  blocked: BlockedTime[]
   clientFor: (id?: string) => import('../../types').Client | undefined
-  availForDay: (day: Date) => import('../../types').DayAvailability | undefined
+  availForDay: (day: Date) => EffectiveAvailability | undefined
   availColor?: string
   filtersActive: boolean
   onClose: () => void
@@ -1030,7 +1187,7 @@ interface DayDetailModalProps {
 }
 
 function DayDetailModal({
-  date, bookings, clientFor, availForDay, availColor, filtersActive,
+  date, bookings, blocked, clientFor, availForDay, availColor, filtersActive,
   onClose, onOpenBooking, onSetAvailability, onAddBooking, onBookingCompleted, onCancel, onNoShow,
 }: DayDetailModalProps) {
   useScrollLock(true)
@@ -1130,6 +1287,7 @@ function DayDetailModal({
                 {formatTime12(avail.startTime)} – {formatTime12(avail.endTime)}
               </span>
             )}
+            {avail?.fromTemplate && <span className="opacity-60 ml-1">· Weekly</span>}
             <ChevronRight size={12} className="ml-auto opacity-40" />
           </button>
         </div>
@@ -1156,6 +1314,34 @@ function DayDetailModal({
               ))}
             </div>
           )}
+
+          {/* Imported calendar events */}
+          {blocked.length > 0 && (
+            <div className="mt-4">
+              <p className="text-[10px] font-semibold uppercase tracking-wider mb-2" style={{ color: 'var(--text-secondary)' }}>
+                Blocked
+              </p>
+              <div className="space-y-1.5">
+                {blocked.map(b => (
+                  <div
+                    key={b.id}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg"
+                    style={{ backgroundColor: 'var(--bg-secondary)', borderLeft: `3px dashed ${BLOCKED_COLOR}` }}
+                  >
+                    <span className="text-xs shrink-0 w-28" style={{ color: 'var(--text-secondary)' }}>
+                      {b.allDay ? 'All day' : `${fmtTime(new Date(b.start))} – ${fmtTime(new Date(b.end))}`}
+                    </span>
+                    <div className="min-w-0">
+                      <p className="text-sm truncate" style={{ color: 'var(--text-secondary)' }}>{b.title}</p>
+                      <p className="text-[11px] truncate" style={{ color: 'var(--text-secondary)', opacity: 0.7 }}>
+                        {b.source}{b.location ? ` · ${b.location}` : ''}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
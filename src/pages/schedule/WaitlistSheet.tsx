@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Check, MessageSquare, Trash2 } from 'lucide-react'
+import { format, parseISO, startOfDay } from 'date-fns'
+import { db, newId, bookingDurationFormatted } from '../../db'
+import { Modal } from '../../components/Modal'
+import { SendMessageSheet } from '../../components/SendMessageSheet'
+import { showToast } from '../../components/Toast'
+import { fieldInputStyle } from '../../components/FormFields'
+import { fmtShortDayDate, fmtTime } from '../../utils/dateFormat'
+import {
+  formatOpenSlot, isWaitlistEligible, markWaitlistFulfilled, openSlotsForEntry, waitlistWindow,
+} from '../../utils/waitlist'
+import type { OpenSlot } from '../../utils/availability'
+import type { Client, WaitlistEntry } from '../../types'
+
+interface WaitlistSheetProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Day the add form starts on — usually the day being viewed */
+  initialDate: Date
+}
+
+const DURATION_OPTIONS = [60, 90, 120, 180]
+
+const chipStyle = (active: boolean): React.CSSProperties => active
+  ? { backgroundColor: '#a855f7', color: '#fff' }
+  : { backgroundColor: 'var(--bg-secondary)', color: 'var(--text-secondary)', border: '1px solid var(--border)' }
+
+/**
+ * Clients waiting on a day and time window. Each open entry is checked
+ * against the slot finder, so a window that has come free can be offered
+ * straight away with the "slot opened" template.
+ */
+export function WaitlistSheet({ isOpen, onClose, initialDate }: WaitlistSheetProps) {
+  const clients = useLiveQuery(() => db.clients.filter(c => !c.isBlocked).sortBy('alias')) ?? []
+  const entries = useLiveQuery(() => db.waitlist.orderBy('date').filter(e => !e.fulfilledAt).toArray())
+
+  const [clientId, setClientId] = useState('')
+  const [date, setDate] = useState(() => format(initialDate, 'yyyy-MM-dd'))
+  const [windowStart, setWindowStart] = useState('18:00')
+  const [windowEnd, setWindowEnd] = useState('22:00')
+  const [duration, setDuration] = useState<number | undefined>(undefined)
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  // First free start time inside each entry's window, by entry id
+  const [openings, setOpenings] = useState<Record<string, OpenSlot | null>>({})
+  const [messaging, setMessaging] = useState<{ client: Client; slot: OpenSlot } | null>(null)
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const upcoming = (entries ?? []).filter(e => e.date >= today)
+  const expired = (entries ?? []).filter(e => e.date < today)
+  const clientById = new Map(clients.map(c => [c.id, c]))
+  const entryKey = upcoming.map(e => e.id).join('|')
+
+  useEffect(() => {
+    if (!isOpen || upcoming.length === 0) return
+    let cancelled = false
+    Promise.all(upcoming.map(async e => [e.id, (await openSlotsForEntry(e))[0] ?? null] as const))
+      .then(found => { if (!cancelled) setOpenings(Object.fromEntries(found)) })
+      .catch(() => { if (!cancelled) showToast('Could not check open times', 'error') })
+    return () => { cancelled = true }
+  }, [isOpen, entryKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  async function handleAdd() {
+    if (!clientId || !date || !windowStart || !windowEnd || saving) return
+    setSaving(true)
+    try {
+      await db.waitlist.add({
+        id: newId(),
+        clientId,
+        date,
+        windowStart,
+        windowEnd,
+        duration,
+        notes: notes.trim() || undefined,
+        createdAt: new Date(),
+      })
+      showToast(`${clientById.get(clientId)?.alias ?? 'Client'} added to the waitlist`)
+      setClientId('')
+      setNotes('')
+    } catch {
+      showToast('Could not add to waitlist', 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleBooked(entry: WaitlistEntry) {
+    try {
+      await markWaitlistFulfilled(entry.id)
+      showToast('Taken off the waitlist')
+    } catch {
+      showToast('Could not update waitlist', 'error')
+    }
+  }
+
+  async function handleDelete(entry: WaitlistEntry) {
+    try {
+      await db.waitlist.delete(entry.id)
+    } catch {
+      showToast('Could not remove entry', 'error')
+    }
+  }
+
+  function renderEntry(entry: WaitlistEntry, past: boolean) {
+    const client = clientById.get(entry.clientId)
+    const { start, end } = waitlistWindow(entry)
+    const opening = past ? null : openings[entry.id]
+    const eligible = isWaitlistEligible(client)
+    return (
+      <div key={entry.id} className="p-3 rounded-xl"
+        style={{ backgroundColor: 'var(--bg-secondary)', border: '1px solid var(--border)', opacity: past ? 0.5 : 1 }}>
+        <div className="flex items-center gap-2">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold truncate" style={{ color: 'var(--text-primary)' }}>
+              {client?.alias ?? 'Unknown client'}
+            </p>
+            <p className="text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+              {fmtShortDayDate(parseISO(entry.date))} · {fmtTime(start)} – {fmtTime(end)}
+              {entry.duration ? ` · ${bookingDurationFormatted(entry.duration)}` : ''}
+            </p>
+          </div>
+          {!past && (
+            <button type="button" onClick={() => handleBooked(entry)} aria-label="Mark booked"
+              className="p-2 rounded-lg" style={{ backgroundColor: 'rgba(34,197,94,0.12)', color: '#22c55e' }}>
+              <Check size={16} />
+            </button>
+          )}
+          <button type="button" onClick={() => handleDelete(entry)} aria-label="Remove from waitlist"
+            className="p-2 rounded-lg" style={{ color: 'var(--text-secondary)' }}>
+            <Trash2 size={16} />
+          </button>
+        </div>
+        {entry.notes && (
+          <p className="text-xs mt-1" style={{ color: 'var(--text-secondary)' }}>{entry.notes}</p>
+        )}
+        {!past && client && !eligible && (
+          <p className="text-[11px] mt-1.5 text-orange-500">Not screened — won't be offered freed slots.</p>
+        )}
+        {opening && eligible && (
+          <button type="button" onClick={() => setMessaging({ client, slot: opening })}
+            className="mt-2 w-full py-2 rounded-lg text-xs font-semibold flex items-center justify-center gap-1.5"
+            style={{ backgroundColor: 'rgba(34,197,94,0.12)', color: '#22c55e' }}>
+            <MessageSquare size={13} /> Open at {fmtTime(opening.start, opening.timeZone)} — offer it
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={onClose} title="Waitlist">
+        <div className="px-4 py-3 space-y-4">
+          {/* Add */}
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase" style={{ color: 'var(--text-secondary)' }}>Add to Waitlist</p>
+            <select
+              value={clientId}
+              onChange={e => setClientId(e.target.value)}
+              aria-label="Client"
+              className="w-full px-3 py-2.5 rounded-lg text-sm outline-none"
+              style={{ ...fieldInputStyle, fontSize: '16px' }}
+            >
+              <option value="">Choose a client…</option>
+              {clients.map(c => <option key={c.id} value={c.id}>{c.alias}</option>)}
+            </select>
+            <input
+              type="date"
+              value={date}
+              min={format(startOfDay(new Date()), 'yyyy-MM-dd')}
+              onChange={e => setDate(e.target.value)}
+              aria-label="Day wanted"
+              className="w-full px-3 py-2 rounded-lg text-sm outline-none"
+              style={{ ...fieldInputStyle, fontSize: '16px' }}
+            />
+            <div className="flex items-center gap-2">
+              <input type="time" value={windowStart} onChange={e => setWindowStart(e.target.value)} aria-label="Window start"
+                className="flex-1 px-3 py-2 rounded-lg text-sm outline-none" style={{ ...fieldInputStyle, fontSize: '16px' }} />
+              <span className="text-xs" style={{ color: 'var(--text-secondary)' }}>to</span>
+              <input type="time" value={windowEnd} onChange={e => setWindowEnd(e.target.value)} aria-label="Window end"
+                className="flex-1 px-3 py-2 rounded-lg text-sm outline-none" style={{ ...fieldInputStyle, fontSize: '16px' }} />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={() => setDuration(undefined)} aria-pressed={duration === undefined}
+                className="px-3 py-1.5 rounded-full text-xs font-semibold" style={chipStyle(duration === undefined)}>
+                Any length
+              </button>
+              {DURATION_OPTIONS.map(d => (
+                <button key={d} type="button" onClick={() => setDuration(d)} aria-pressed={duration === d}
+                  className="px-3 py-1.5 rounded-full text-xs font-semibold" style={chipStyle(duration === d)}>
+                  {bookingDurationFormatted(d)}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              placeholder="Notes (optional)"
+              className="w-full px-3 py-2 rounded-lg text-sm outline-none"
+              style={{ ...fieldInputStyle, fontSize: '16px' }}
+            />
+            <button type="button" onClick={handleAdd} disabled={!clientId || saving}
+              className="w-full py-3 rounded-xl text-sm font-semibold text-white disabled:opacity-40"
+              style={{ backgroundColor: '#a855f7' }}>
+              Add to Waitlist
+            </button>
+          </div>
+
+          {/* Waiting */}
+          <div className="pb-4">
+            <p className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--text-secondary)' }}>Waiting</p>
+            {entries === undefined ? (
+              <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>Loading…</p>
+            ) : upcoming.length === 0 && expired.length === 0 ? (
+              <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                No one is waiting. Cancelled bookings are offered to clients on the waitlist whose window they fit.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {upcoming.map(e => renderEntry(e, false))}
+                {expired.map(e => renderEntry(e, true))}
+              </div>
+            )}
+          </div>
+        </div>
+      </Modal>
+
+      {messaging && (
+        <SendMessageSheet
+          isOpen={!!messaging}
+          onClose={() => setMessaging(null)}
+          client={messaging.client}
+          openSlot={formatOpenSlot(messaging.slot.start, messaging.slot.timeZone)}
+        />
+      )}
+    </>
+  )
+}
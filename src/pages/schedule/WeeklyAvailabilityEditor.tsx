@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react'
+import { Check, Plus, X, CopyPlus } from 'lucide-react'
+import { db } from '../../db'
+import { Modal } from '../../components/Modal'
+import { showToast } from '../../components/Toast'
+import { saveWeeklyTemplate, type WeeklyTemplateRule } from '../../utils/availability'
+import type { AvailabilityStatus } from '../../types'
+
+interface WeeklyAvailabilityEditorProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Monday-first, as in the week view; values are Date.getDay() numbers
+const WEEKDAYS: { weekday: number; label: string }[] = [
+  { weekday: 1, label: 'Monday' },
+  { weekday: 2, label: 'Tuesday' },
+  { weekday: 3, label: 'Wednesday' },
+  { weekday: 4, label: 'Thursday' },
+  { weekday: 5, label: 'Friday' },
+  { weekday: 6, label: 'Saturday' },
+  { weekday: 0, label: 'Sunday' },
+]
+
+const STATUS_OPTIONS: { status: AvailabilityStatus; color: string; label: string }[] = [
+  { status: 'Available', color: '#22c55e', label: 'Available' },
+  { status: 'Limited', color: '#f97316', label: 'Limited' },
+  { status: 'Busy', color: '#ef4444', label: 'Busy' },
+  { status: 'Off', color: '#6b7280', label: 'Off' },
+]
+
+type Rules = Record<number, WeeklyTemplateRule | null>
+
+const timeInputStyle: React.CSSProperties = {
+  backgroundColor: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+  border: '1px solid var(--border)',
+  fontSize: '16px',
+}
+
+/**
+ * Recurring weekly hours. Every date follows its weekday's rule unless the
+ * day has its own status set from the calendar (an override).
+ */
+export function WeeklyAvailabilityEditor({ isOpen, onClose }: WeeklyAvailabilityEditorProps) {
+  const [rules, setRules] = useState<Rules>({})
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    db.availabilityTemplates.toArray().then(templates => {
+      const loaded: Rules = {}
+      for (const t of templates) {
+        loaded[t.weekday] = { weekday: t.weekday, status: t.status, startTime: t.startTime, endTime: t.endTime, openSlots: t.openSlots }
+      }
+      setRules(loaded)
+    })
+  }, [isOpen])
+
+  function setStatus(weekday: number, status: AvailabilityStatus | null) {
+    setRules(prev => {
+      if (!status || prev[weekday]?.status === status) return { ...prev, [weekday]: null }
+      const rule: WeeklyTemplateRule = { weekday, status }
+      if (status === 'Available') { rule.startTime = '18:00'; rule.endTime = '23:00' }
+      if (status === 'Limited') rule.openSlots = [{ start: '18:00', end: '20:00' }]
+      return { ...prev, [weekday]: rule }
+    })
+  }
+
+  function updateRule(weekday: number, changes: Partial<WeeklyTemplateRule>) {
+    setRules(prev => {
+      const rule = prev[weekday]
+      return rule ? { ...prev, [weekday]: { ...rule, ...changes } } : prev
+    })
+  }
+
+  function copyFromPrevious(index: number) {
+    const from = WEEKDAYS[index - 1].weekday
+    const to = WEEKDAYS[index].weekday
+    setRules(prev => {
+      const rule = prev[from]
+      return { ...prev, [to]: rule ? { ...rule, weekday: to, openSlots: rule.openSlots?.map(s => ({ ...s })) } : null }
+    })
+  }
+
+  async function handleSave() {
+    const list = Object.values(rules).filter((r): r is WeeklyTemplateRule => !!r)
+    for (const rule of list) {
+      const day = WEEKDAYS.find(d => d.weekday === rule.weekday)?.label
+      if (rule.status === 'Available' && rule.startTime === rule.endTime) {
+        showToast(`${day}: start and end time cannot be the same`, 'error')
+        return
+      }
+      if (rule.status === 'Limited' && rule.openSlots?.some(s => s.start === s.end)) {
+        showToast(`${day}: a window can't start and end at the same time`, 'error')
+        return
+      }
+    }
+    setSaving(true)
+    try {
+      await saveWeeklyTemplate(list)
+      showToast('Weekly hours saved')
+      onClose()
+    } catch {
+      showToast('Failed to save weekly hours', 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Weekly Hours"
+      actions={
+        <button onClick={handleSave} disabled={saving} aria-label="Save weekly hours"
+          className={`p-2 ${saving ? 'opacity-30' : 'text-purple-500'}`}>
+          <Check size={20} />
+        </button>
+      }
+    >
+      <div className="px-4 py-2">
+        <p className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+          Your usual week. Each date follows its weekday here unless you set a status on that date in the calendar.
+        </p>
+
+        {WEEKDAYS.map(({ weekday, label }, index) => {
+          const rule = rules[weekday] ?? null
+          return (
+            <div key={weekday} className="py-3 border-b" style={{ borderColor: 'var(--border)' }}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>{label}</span>
+                {index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => copyFromPrevious(index)}
+                    className="flex items-center gap-1 text-[11px] font-medium text-purple-500 active:opacity-70"
+                  >
+                    <CopyPlus size={12} /> Same as {WEEKDAYS[index - 1].label.slice(0, 3)}
+                  </button>
+                )}
+              </div>
+
+              <div className="flex gap-1.5 flex-wrap">
+                {STATUS_OPTIONS.map(opt => {
+                  const active = rule?.status === opt.status
+                  return (
+                    <button
+                      key={opt.status}
+                      type="button"
+                      onClick={() => setStatus(weekday, opt.status)}
+                      aria-pressed={active}
+                      className="flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-semibold"
+                      style={{
+                        backgroundColor: active ? `${opt.color}20` : 'var(--bg-primary)',
+                        color: active ? opt.color : 'var(--text-secondary)',
+                        border: `1px solid ${active ? opt.color : 'var(--border)'}`,
+                      }}
+                    >
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: opt.color }} />
+                      {opt.label}
+                    </button>
+                  )
+                })}
+                {!rule && (
+                  <span className="text-[11px] self-center ml-1" style={{ color: 'var(--text-secondary)' }}>Not set</span>
+                )}
+              </div>
+
+              {rule?.status === 'Available' && (
+                <div className="flex items-center gap-2 mt-2">
+                  <input type="time" step="1800" value={rule.startTime ?? ''} aria-label={`${label} from`}
+                    onChange={e => updateRule(weekday, { startTime: e.target.value })}
+                    className="flex-1 px-3 py-2 rounded-lg text-sm" style={timeInputStyle} />
+                  <span className="text-sm" style={{ color: 'var(--text-secondary)' }}>→</span>
+                  <input type="time" step="1800" value={rule.endTime ?? ''} aria-label={`${label} until`}
+                    onChange={e => updateRule(weekday, { endTime: e.target.value })}
+                    className="flex-1 px-3 py-2 rounded-lg text-sm" style={timeInputStyle} />
+                </div>
+              )}
+
+              {rule?.status === 'Limited' && (
+                <div className="mt-2 space-y-1.5">
+                  {(rule.openSlots ?? []).map((slot, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <input type="time" step="1800" value={slot.start} aria-label={`${label} window ${i + 1} from`}
+                        onChange={e => updateRule(weekday, {
+                          openSlots: rule.openSlots!.map((s, j) => (j === i ? { ...s, start: e.target.value } : s)),
+                        })}
+                        className="flex-1 px-3 py-2 rounded-lg text-sm" style={timeInputStyle} />
+                      <span className="text-sm" style={{ color: 'var(--text-secondary)' }}>→</span>
+                      <input type="time" step="1800" value={slot.end} aria-label={`${label} window ${i + 1} until`}
+                        onChange={e => updateRule(weekday, {
+                          openSlots: rule.openSlots!.map((s, j) => (j === i ? { ...s, end: e.target.value } : s)),
+                        })}
+                        className="flex-1 px-3 py-2 rounded-lg text-sm" style={timeInputStyle} />
+                      <button type="button" aria-label="Remove window" className="p-1.5" style={{ color: 'var(--text-secondary)' }}
+                        onClick={() => updateRule(weekday, { openSlots: rule.openSlots!.filter((_, j) => j !== i) })}>
+                        <X size={14} />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => updateRule(weekday, { openSlots: [...(rule.openSlots ?? []), { start: '20:00', end: '22:00' }] })}
+                    className="flex items-center gap-1 text-xs font-medium"
+                    style={{ color: '#f97316' }}
+                  >
+                    <Plus size={12} /> Add open window
+                  </button>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,71 @@
+import '../index.css'
+import {
+  INQUIRY_CONTACT_METHODS, MAX_INQUIRY_BYTES, getInquiryTransport, parseInquiryLink, sealInquiry,
+} from '../utils/inquiryBox'
+import type { InquiryPayload } from '../utils/inquiryBox'
+import type { LocationType } from '../types'
+
+// Public booking-request form (/request#<inboxId>.<publicKey>). No app
+// state, no storage: the request is sealed here and posted as ciphertext.
+
+const form = document.getElementById('request-form') as HTMLFormElement
+const formError = document.getElementById('form-error')!
+const link = parseInquiryLink(window.location.hash)
+
+function showError(message: string) {
+  formError.textContent = message
+  formError.classList.remove('hidden')
+}
+
+if (!link) {
+  document.getElementById('link-error')!.classList.remove('hidden')
+} else {
+  const methodSelect = form.elements.namedItem('contactMethod') as HTMLSelectElement
+  for (const method of INQUIRY_CONTACT_METHODS) methodSelect.add(new Option(method, method))
+  const dateInput = form.elements.namedItem('date') as HTMLInputElement
+  dateInput.min = new Date(Date.now() - new Date().getTimezoneOffset() * 60000).toISOString().slice(0, 10)
+  form.classList.remove('hidden')
+
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault()
+    formError.classList.add('hidden')
+    const data = new FormData(form)
+    const field = (name: string) => String(data.get(name) ?? '').trim()
+
+    const name = field('name')
+    const contact = field('contact')
+    if (!name || !contact) {
+      showError('Please add your name and how to reach you.')
+      return
+    }
+    const payload: InquiryPayload = {
+      v: 1,
+      name,
+      contactMethod: field('contactMethod') as InquiryPayload['contactMethod'],
+      contact,
+      date: field('date') || undefined,
+      time: field('time') || undefined,
+      duration: field('duration') ? Number(field('duration')) : undefined,
+      locationType: (field('locationType') || undefined) as LocationType | undefined,
+      message: field('message') || undefined,
+      submittedAt: Date.now(),
+    }
+
+    const sealed = sealInquiry(payload, link.publicKey)
+    if (sealed.length > MAX_INQUIRY_BYTES) {
+      showError('Your message is too long — please shorten it.')
+      return
+    }
+
+    const button = form.querySelector('button[type="submit"]') as HTMLButtonElement
+    button.disabled = true
+    try {
+      await getInquiryTransport().submit(link.inboxId, sealed)
+      form.classList.add('hidden')
+      document.getElementById('sent')!.classList.remove('hidden')
+    } catch {
+      showError('Could not send your request. Please try again in a minute.')
+      button.disabled = false
+    }
+  })
+}
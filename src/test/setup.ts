@@ -0,0 +1,25 @@
+// Vitest setup — the browser globals the app expects: storage in memory,
+// a window to dispatch settings events on and a fixed locale.
+import 'fake-indexeddb/auto'
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>()
+  get length() { return this.items.size }
+  clear() { this.items.clear() }
+  getItem(key: string) { return this.items.get(key) ?? null }
+  key(index: number) { return [...this.items.keys()][index] ?? null }
+  removeItem(key: string) { this.items.delete(key) }
+  setItem(key: string, value: string) { this.items.set(key, String(value)) }
+}
+
+if (typeof globalThis.localStorage === 'undefined') {
+  Object.defineProperty(globalThis, 'localStorage', { value: new MemoryStorage() })
+}
+
+if (typeof globalThis.navigator === 'undefined') {
+  Object.defineProperty(globalThis, 'navigator', { value: { language: 'en-US' } })
+}
+
+if (typeof globalThis.window === 'undefined') {
+  Object.defineProperty(globalThis, 'window', { value: new EventTarget() })
+}
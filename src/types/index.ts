@@ -49,9 +49,12 @@ export interface Client {
   tags: ClientTag[]
   isPinned: boolean
   requiresSafetyCheck: boolean
+  /** Blind index over phone/email/handles — maintained by db hooks, see db/blindIndex.ts */
+  contactHashes?: string[]
 }
 
-export type RecurrencePattern = 'none' | 'weekly' | 'biweekly' | 'monthly'
+/** Legacy preset, kept in step with `rrule`; 'custom' = any rule the presets can't express */
+export type RecurrencePattern = 'none' | 'weekly' | 'biweekly' | 'monthly' | 'custom'
 
 export type CancelledBy = 'client' | 'provider'
 export type DepositOutcome = 'forfeited' | 'returned' | 'credit'
@@ -65,7 +68,12 @@ export interface Booking {
   locationAddress?: string
   locationNotes?: string
   venueId?: string          // links to IncallVenue for incall bookings
+  venueCostHandled?: boolean  // venue cost recorded or dismissed (utils/venueCosts.ts)
+  /** IANA zone the booking is shown and edited in (e.g. "America/Chicago"); unset = device zone */
+  timeZone?: string
   status: BookingStatus
+  /** ISO 4217 code the amounts below (and its payments) are in; unset = home currency */
+  currency?: string
   baseRate: number
   extras: number
   travelFee: number
@@ -86,6 +94,12 @@ export interface Booking {
   safetyCheckMinutesAfter: number
   safetyContactId?: string
   recurrence: RecurrencePattern
+  /** RFC 5545 RRULE value (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH"), same on every occurrence — see utils/recurrence.ts */
+  rrule?: string
+  /** The slot the rule generated this occurrence for, even if it was moved (iCal RECURRENCE-ID) */
+  recurrenceDate?: Date
+  /** Skipped days ("yyyy-MM-dd"), kept on the series root */
+  recurrenceExceptions?: string[]
   parentBookingId?: string // links to the previous booking in the chain
   recurrenceRootId?: string // links to the very first booking in the chain (enables fast chain queries)
 }
@@ -95,11 +109,15 @@ export interface Transaction {
   bookingId?: string
   paymentId?: string
   amount: number
+  currency?: string  // ISO 4217; unset = home currency
   type: TransactionType
   category: TransactionCategory
   paymentMethod?: PaymentMethod
   date: Date
   notes: string
+  tourId?: string  // expense logged against a tour (flights, hotel) — counts in its P&L
+  recurringExpenseId?: string  // posted automatically from a RecurringExpense
+  venueId?: string  // incall venue cost for a day's bookings there
 }
 
 export interface TimeSlot {
@@ -116,6 +134,38 @@ export interface DayAvailability {
   endTime?: string   // "22:00"
   notes?: string
   openSlots?: TimeSlot[]  // explicit open windows on Busy/Off/Limited days
+  timeZone?: string  // where you are that day — times above are in this zone; unset = device zone
+  tourId?: string    // set by a tour's dates; rewritten when the tour changes
+}
+
+/**
+ * Recurring weekly availability — one rule per weekday. A DayAvailability
+ * row for a specific date overrides the template for that day.
+ */
+export interface AvailabilityTemplate {
+  id: string
+  weekday: number    // 0 = Sunday … 6 = Saturday (Date.getDay())
+  status: AvailabilityStatus
+  startTime?: string // "18:00" (Available)
+  endTime?: string   // "23:00"
+  openSlots?: TimeSlot[]  // open windows (Limited)
+}
+
+/**
+ * Time blocked out by an event imported from another calendar (.ics).
+ * Recurring events are expanded into one row per occurrence. Shown greyed
+ * out on the schedule and treated as a conflict when booking.
+ */
+export interface BlockedTime {
+  id: string
+  uid: string        // event UID, plus "#<start>" for recurring occurrences
+  source: string     // calendar name — re-importing it replaces its rows
+  title: string
+  location?: string
+  start: Date
+  end: Date
+  allDay: boolean
+  importedAt: Date
 }
 
 export interface SafetyContact {
@@ -151,6 +201,7 @@ export interface BookingPayment {
   id: string
   bookingId: string
   amount: number
+  currency?: string  // always the booking's — the balance is worked out in it
   method?: PaymentMethod
   label: PaymentLabel
   date: Date
@@ -174,6 +225,7 @@ export interface IncallVenue {
   name: string
   venueType: VenueType
   city: string
+  timeZone?: string         // IANA zone for the city, guessed from it when the venue is saved
   address: string
   directions?: string       // copy-paste to client
   contactName?: string
@@ -185,7 +237,10 @@ export interface IncallVenue {
   bookingNotes?: string     // login, how to book
   costPerHour?: number
   costPerDay?: number
+  currency?: string         // ISO 4217 the rates are charged in; unset = home currency
   costNotes?: string
+  bufferBeforeMinutes?: number  // setup before a booking here; overrides the Incall default
+  bufferAfterMinutes?: number   // turnover/cleanup after
   hotelFriendly?: boolean
   notes?: string
   isFavorite?: boolean
@@ -194,12 +249,140 @@ export interface IncallVenue {
   updatedAt: Date
 }
 
+/** One city on a tour. Days are calendar dates ("yyyy-MM-dd"), both inclusive. */
+export interface TourStop {
+  id: string
+  city: string
+  startDate: string
+  endDate: string
+  venueId?: string          // incall used there — its costPerDay counts toward the tour
+  timeZone?: string         // availability for these days is set in this zone
+  lodgingCost?: number      // stay not covered by a venue (hotel, Airbnb)
+}
+
+/**
+ * A multi-city trip. Saving one sets availability for its days, and the
+ * bookings on those days belong to it — see utils/tours.ts.
+ */
+export interface Tour {
+  id: string
+  name: string
+  stops: TourStop[]         // in travel order
+  startTime: string         // working hours set on tour days, "18:00"
+  endTime: string
+  travelCost: number        // getting there and between stops
+  notes?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * A client parked for a day and time window that wasn't free when they
+ * asked. Matched against freed slots — see utils/waitlist.ts.
+ */
+export interface WaitlistEntry {
+  id: string
+  clientId: string
+  date: string              // "yyyy-MM-dd"
+  windowStart: string       // "HH:MM", on the device clock
+  windowEnd: string         // may be earlier than windowStart for an overnight window
+  duration?: number         // minutes wanted; any overlap counts when unset
+  notes?: string
+  createdAt: Date
+  fulfilledAt?: Date        // set once they're booked into a freed slot
+}
+
+/**
+ * An exchange rate entered by hand or imported from CSV: 1 `base` = `rate`
+ * `quote`, from `date` until the next rate for the pair. See utils/fx.ts.
+ */
+export interface FxRate {
+  id: string
+  base: string    // ISO 4217, e.g. "EUR"
+  quote: string   // e.g. "USD"
+  rate: number
+  date: Date
+}
+
+/**
+ * An estimated tax payment made for a tax year, in the home currency.
+ * `installment` is the 1-based slot in the year's schedule (utils/tax.ts);
+ * unset for a payment outside it, e.g. the year-end balance.
+ */
+export interface TaxPayment {
+  id: string
+  taxYear: number  // calendar year the tax year starts in
+  installment?: number
+  amount: number
+  date: Date
+  notes?: string
+}
+
+export type BillFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly'
+
+/** A single occurrence of a recurring expense, skipped or changed on its own */
+export interface BillOverride {
+  date: string     // the scheduled day, "yyyy-MM-dd"
+  skip?: boolean
+  amount?: number
+}
+
+/**
+ * A bill that repeats — rent, phone, ad subscriptions, a venue lease. Each
+ * occurrence is posted as an expense on its day (utils/recurringExpenses.ts).
+ * `postedThrough` is the last day already posted, so deleting a posted
+ * expense doesn't bring it back.
+ */
+export interface RecurringExpense {
+  id: string
+  name: string
+  amount: number
+  currency?: string  // ISO 4217; unset = home currency
+  category: TransactionCategory
+  paymentMethod?: PaymentMethod
+  frequency: BillFrequency
+  startDate: Date    // first occurrence; later ones keep its weekday / day of month
+  endDate?: Date
+  overrides?: BillOverride[]
+  postedThrough?: string  // "yyyy-MM-dd"
+  isActive: boolean
+  notes?: string
+  createdAt: Date
+  updatedAt?: Date
+}
+
+export type InquiryStatus = 'new' | 'converted' | 'dismissed'
+
+/**
+ * A booking request from the public form, opened on this device — see
+ * utils/inquiries.ts. Kept locally only; converting one creates the client
+ * and booking that get synced and backed up.
+ */
+export interface Inquiry {
+  id: string
+  status: InquiryStatus
+  name: string
+  contactMethod: ContactMethod
+  contact: string
+  date?: string             // "yyyy-MM-dd" they asked for
+  time?: string             // "HH:MM"
+  duration?: number         // minutes
+  locationType?: LocationType
+  message?: string
+  submittedAt: Date
+  receivedAt: Date
+  clientId?: string         // set on conversion
+  bookingId?: string
+}
+
 export interface VenueDoc {
   id: string
   venueId: string
   filename: string
   mimeType: string
   data: Blob
+  /** `data` is sealed with the field-encryption key — open with openDocBlob() */
+  encrypted?: boolean
   uploadedAt: Date
 }
 
@@ -207,12 +390,26 @@ export const venueTypeColors: Record<VenueType, string> = {
   'Apartment': '#3b82f6', 'Hotel': '#a855f7', 'Studio': '#22c55e', 'Airbnb': '#f43f5e', 'Other': '#6b7280'
 }
 
+/** A receipt photo or PDF kept with an expense — stored like ScreeningDoc */
+export interface Receipt {
+  id: string
+  transactionId: string
+  filename: string
+  mimeType: string
+  data: Blob
+  /** `data` is sealed with the field-encryption key — open with openDocBlob() */
+  encrypted?: boolean
+  uploadedAt: Date
+}
+
 export interface ScreeningDoc {
   id: string
   clientId: string
   filename: string
   mimeType: string
   data: Blob
+  /** `data` is sealed with the field-encryption key — open with openDocBlob() */
+  encrypted?: boolean
   thumbnailUrl?: string  // object URL, generated at runtime (not stored)
   uploadedAt: Date
 }
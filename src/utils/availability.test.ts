@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { formatSlotList } from './availability'
+
+describe('formatSlotList', () => {
+  it('reads each day on the clock of its availability zone', () => {
+    const at = (iso: string, timeZone?: string) => ({ start: new Date(iso), timeZone })
+    const text = formatSlotList([
+      at('2026-10-23T03:00:00Z', 'America/Chicago'),
+      at('2026-10-23T03:30:00Z', 'America/Chicago'),
+      at('2026-10-23T18:00:00Z', 'Europe/London'),
+    ], 60)
+    expect(text).toBe([
+      '• Thu, Oct 22: 10:00 PM – 11:30 PM',
+      '• Fri, Oct 23: 7:00 PM – 8:00 PM',
+    ].join('\n'))
+  })
+})
@@ -1,6 +1,10 @@
-import { startOfDay } from 'date-fns'
+import { startOfDay, endOfDay, addDays, addMinutes, format, isSameDay } from 'date-fns'
 import { db, newId } from '../db'
-import type { DayAvailability, TimeSlot } from '../types'
+import { readSetting } from '../hooks/useSettings'
+import { fmtShortDayDate, fmtTime } from './dateFormat'
+import { blockedTimesBetween } from './icsImport'
+import { isValidTimeZone, wallTimeToInstant, zonedWallTime } from './timeZone'
+import type { AvailabilityTemplate, BlockedTime, Booking, DayAvailability, IncallVenue, LocationType, TimeSlot } from '../types'
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // TIME SLOT HELPERS
@@ -45,26 +49,214 @@ function snapToHalfHour(time: string, roundUp = false): string {
   return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`
 }
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EFFECTIVE AVAILABILITY
+// A DayAvailability row for a date wins; otherwise the weekly template for
+// that weekday applies; otherwise the day is unset.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** A day's availability after resolution. `fromTemplate` = no override, weekly template applies. */
+export type EffectiveAvailability = DayAvailability & { fromTemplate?: boolean }
+
+function templateDay(template: AvailabilityTemplate, day: Date): EffectiveAvailability {
+  return {
+    id: template.id,
+    date: startOfDay(day),
+    status: template.status,
+    startTime: template.startTime,
+    endTime: template.endTime,
+    openSlots: template.openSlots,
+    fromTemplate: true,
+  }
+}
+
+/** Resolve a day from already-loaded overrides and templates (calendar views). */
+export function resolveAvailability(
+  day: Date,
+  overrides: DayAvailability[],
+  templates: AvailabilityTemplate[]
+): EffectiveAvailability | undefined {
+  const override = overrides.find(a => isSameDay(new Date(a.date), day))
+  if (override) return override
+  const template = templates.find(t => t.weekday === day.getDay())
+  return template ? templateDay(template, day) : undefined
+}
+
+/** Resolve a single day straight from the database. */
+export async function getEffectiveAvailability(day: Date): Promise<EffectiveAvailability | undefined> {
+  const dayStart = startOfDay(day)
+  const override = await db.availability.where('date').equals(dayStart).first()
+  if (override) return override
+  const template = await db.availabilityTemplates.where('weekday').equals(dayStart.getDay()).first()
+  return template ? templateDay(template, dayStart) : undefined
+}
+
+/**
+ * The availability governing `instant`, and the instant as wall time on that
+ * day's clock. A day kept in another zone is found by its own date there,
+ * which can be the device's day before or after.
+ */
+async function availabilityAt(instant: Date): Promise<{ avail?: EffectiveAvailability; wall: Date }> {
+  const avail = await getEffectiveAvailability(instant)
+  const zone = avail?.timeZone
+  if (!zone || !isValidTimeZone(zone)) return { avail, wall: instant }
+  const wall = zonedWallTime(instant, zone)
+  if (isSameDay(wall, instant)) return { avail, wall }
+  const there = await getEffectiveAvailability(wall)
+  return { avail: there?.timeZone === zone ? there : avail, wall }
+}
+
+/** Weekday rules to store — weekdays left out are cleared. */
+export type WeeklyTemplateRule = Omit<AvailabilityTemplate, 'id'>
+
+/** Replace the weekly template. Existing rows keep their ids so sync sees edits, not churn. */
+export async function saveWeeklyTemplate(rules: WeeklyTemplateRule[]): Promise<void> {
+  await db.transaction('rw', db.availabilityTemplates, async () => {
+    const existing = await db.availabilityTemplates.toArray()
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const rule = rules.find(r => r.weekday === weekday)
+      const current = existing.find(t => t.weekday === weekday)
+      if (rule) {
+        await db.availabilityTemplates.put({ ...rule, id: current?.id ?? newId() })
+      } else if (current) {
+        await db.availabilityTemplates.delete(current.id)
+      }
+    }
+  })
+}
+
+/**
+ * Copy the overrides of the 7 days starting at `weekStart` onto each of the
+ * next `weeks` weeks. Days without an override in the source week clear the
+ * target day back to its template, so every copy matches the source week.
+ * Target days holding windows opened for a confirmed booking are left alone.
+ */
+export async function copyWeekForward(weekStart: Date, weeks: number): Promise<{ copied: number; skipped: number }> {
+  const from = startOfDay(weekStart)
+  const source = await db.availability.where('date').between(from, addDays(from, 7), true, false).toArray()
+  let copied = 0
+  let skipped = 0
+
+  await db.transaction('rw', db.availability, async () => {
+    for (let w = 1; w <= weeks; w++) {
+      for (let d = 0; d < 7; d++) {
+        const sourceDay = addDays(from, d)
+        const target = addDays(from, w * 7 + d)
+        const src = source.find(a => isSameDay(new Date(a.date), sourceDay))
+        const existing = await db.availability.where('date').equals(target).first()
+        if (existing?.openSlots?.some(slot => slot.bookingId)) {
+          skipped++
+          continue
+        }
+        if (existing) await db.availability.delete(existing.id)
+        if (!src) continue
+        await db.availability.add({
+          id: newId(),
+          date: target,
+          status: src.status,
+          startTime: src.startTime,
+          endTime: src.endTime,
+          notes: src.notes,
+          // Booking-created windows belong to that booking's day only
+          openSlots: src.openSlots?.filter(slot => !slot.bookingId).map(({ start, end }) => ({ start, end })),
+        })
+        copied++
+      }
+    }
+  })
+
+  return { copied, skipped }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BUFFERS & DAILY LIMITS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Minutes blocked before and after a booking (travel, setup, cleanup) */
+export interface BufferTimes {
+  before: number
+  after: number
+}
+
+export const BOOKING_BUFFERS_KEY = 'bookingBuffers'
+export const MAX_BOOKINGS_PER_DAY_KEY = 'maxBookingsPerDay'
+export const MAX_BOOKED_HOURS_PER_DAY_KEY = 'maxBookedHoursPerDay'
+
+export const DEFAULT_BOOKING_BUFFERS: Record<LocationType, BufferTimes> = {
+  Incall: { before: 0, after: 0 },
+  Outcall: { before: 0, after: 0 },
+  Travel: { before: 0, after: 0 },
+  Virtual: { before: 0, after: 0 },
+}
+
+/** What the buffer is for, by location type — used in conflict messages */
+const BUFFER_PURPOSE: Record<LocationType, string> = {
+  Incall: 'turnover',
+  Outcall: 'travel time',
+  Travel: 'travel time',
+  Virtual: 'buffer',
+}
+
+interface ResolvedBuffer extends BufferTimes {
+  /** e.g. "Outcall travel time", "Downtown Studio turnover" */
+  label: string
+}
+
+/** Buffers for a booking: the venue's own turnover wins over the Incall default. */
+function buffersFor(
+  booking: Pick<Booking, 'locationType' | 'venueId'>,
+  settings: Record<LocationType, BufferTimes>,
+  venues: Map<string, IncallVenue>
+): ResolvedBuffer {
+  const type = booking.locationType
+  const base = { ...DEFAULT_BOOKING_BUFFERS[type], ...settings[type] }
+  const venue = type === 'Incall' && booking.venueId ? venues.get(booking.venueId) : undefined
+  if (venue && (venue.bufferBeforeMinutes != null || venue.bufferAfterMinutes != null)) {
+    return {
+      before: venue.bufferBeforeMinutes ?? base.before,
+      after: venue.bufferAfterMinutes ?? base.after,
+      label: `${venue.name} turnover`,
+    }
+  }
+  return { ...base, label: `${type} ${BUFFER_PURPOSE[type]}` }
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // CONFLICT CHECKING
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+/** A neighbouring booking is clear of this one, but not of its buffer. */
+export interface BufferClash {
+  bookingId: string       // the neighbouring booking
+  owner: 'new' | 'existing'  // whose buffer is cut short
+  side: 'before' | 'after'
+  minutes: number         // buffer length
+  gapMinutes: number      // actual time between the two bookings
+  label: string
+}
+
 export interface AvailabilityConflict {
   hasConflict: boolean
   reason: string
   dayStatus?: string
   dayAvail?: DayAvailability
   isDoubleBook?: boolean  // true if conflict is with another booking, not availability
+  buffer?: BufferClash
+  dailyLimit?: 'bookings' | 'hours'
+  blocked?: BlockedTime   // imported calendar event in the way
 }
 
 /**
- * Check if a booking at the given date/time conflicts with availability OR existing bookings.
+ * Check if a booking at the given date/time conflicts with availability, existing
+ * bookings OR time blocked by an imported calendar.
  * Pass excludeBookingId when editing an existing booking to avoid self-conflict.
+ * Pass the location so buffers (travel, turnover) and daily limits are enforced too.
  */
 export async function checkBookingConflict(
   bookingDateTime: Date,
   durationMinutes: number,
-  excludeBookingId?: string
+  excludeBookingId?: string,
+  location?: Pick<Booking, 'locationType' | 'venueId'>
 ): Promise<AvailabilityConflict> {
   // 1. Check for overlapping bookings first
   const bookingStartMs = bookingDateTime.getTime()
@@ -88,14 +280,42 @@ export async function checkBookingConflict(
     }
   }
 
-  // 2. Check availability
-  const dayStart = startOfDay(bookingDateTime)
-  const avail = await db.availability.where('date').equals(dayStart).first()
+  // 2. Time blocked out by an imported calendar
+  const [blocked] = await blockedTimesBetween(new Date(bookingStartMs), new Date(bookingEndMs))
+  if (blocked) {
+    const when = blocked.allDay ? 'all day' : `${fmtTime(new Date(blocked.start))} – ${fmtTime(new Date(blocked.end))}`
+    return {
+      hasConflict: true,
+      reason: `This overlaps "${blocked.title}" (${when}) from your ${blocked.source} calendar.`,
+      blocked,
+    }
+  }
+
+  // 3. Buffers — clear of every booking, but maybe not of its travel/turnover time
+  if (location) {
+    const clash = await findBufferClash(bookingStartMs, bookingEndMs, location, activeBookings, excludeBookingId)
+    if (clash) {
+      const other = activeBookings.find(b => b.id === clash.bookingId)!
+      const timeStr = formatTime12(dateToTimeStr(new Date(other.dateTime)))
+      return {
+        hasConflict: true,
+        reason: `Only ${clash.gapMinutes} min between this and the booking at ${timeStr} — ${clash.label} needs ${clash.minutes} min.`,
+        buffer: clash,
+      }
+    }
+  }
+
+  // 4. Daily limits
+  const limit = await checkDailyLimits(bookingDateTime, durationMinutes, excludeBookingId)
+  if (limit) return limit
+
+  // 5. Check availability (date override, else weekly template), on that day's clock
+  const { avail, wall } = await availabilityAt(bookingDateTime)
 
   // No availability set = no conflict
   if (!avail) return { hasConflict: false, reason: '' }
 
-  const bookingStart = dateToTimeStr(bookingDateTime)
+  const bookingStart = dateToTimeStr(wall)
   const bStartMins = timeToMinutes(bookingStart)
   const bEndMins = bStartMins + durationMinutes
 
@@ -180,6 +400,226 @@ export async function checkBookingConflict(
   }
 }
 
+/**
+ * Nearest neighbour whose gap to the new booking is shorter than the larger
+ * of the two facing buffers (new booking's after vs. next one's before, and
+ * vice versa). Raw overlaps are caught before this runs.
+ */
+async function findBufferClash(
+  startMs: number,
+  endMs: number,
+  location: Pick<Booking, 'locationType' | 'venueId'>,
+  bookings: Booking[],
+  excludeBookingId?: string
+): Promise<BufferClash | undefined> {
+  const ctx = await loadBufferContext(location, bookings)
+  return bufferClashAt(startMs, endMs, location, bookings, ctx, excludeBookingId)
+}
+
+interface BufferContext {
+  settings: Record<LocationType, BufferTimes>
+  venues: Map<string, IncallVenue>
+}
+
+async function loadBufferContext(
+  location: Pick<Booking, 'locationType' | 'venueId'>,
+  bookings: Booking[]
+): Promise<BufferContext> {
+  const settings = readSetting<Record<LocationType, BufferTimes>>(BOOKING_BUFFERS_KEY, DEFAULT_BOOKING_BUFFERS)
+  const venueIds = [...new Set([location, ...bookings].map(b => b.venueId).filter((id): id is string => !!id))]
+  const venues = new Map<string, IncallVenue>()
+  for (const v of await db.incallVenues.bulkGet(venueIds)) if (v) venues.set(v.id, v)
+  return { settings, venues }
+}
+
+function bufferClashAt(
+  startMs: number,
+  endMs: number,
+  location: Pick<Booking, 'locationType' | 'venueId'>,
+  bookings: Booking[],
+  { settings, venues }: BufferContext,
+  excludeBookingId?: string
+): BufferClash | undefined {
+  const own = buffersFor(location, settings, venues)
+  let worst: BufferClash | undefined
+  for (const b of bookings) {
+    if (b.id === excludeBookingId) continue
+    const bStart = new Date(b.dateTime).getTime()
+    const bEnd = bStart + b.duration * 60000
+    const theirs = buffersFor(b, settings, venues)
+    const isAfterNew = bStart >= endMs
+    const gapMinutes = Math.round((isAfterNew ? bStart - endMs : startMs - bEnd) / 60000)
+    if (gapMinutes < 0) continue
+    const ownMinutes = isAfterNew ? own.after : own.before
+    const theirMinutes = isAfterNew ? theirs.before : theirs.after
+    if (gapMinutes >= Math.max(ownMinutes, theirMinutes)) continue
+    if (worst && worst.gapMinutes <= gapMinutes) continue
+    worst = ownMinutes >= theirMinutes
+      ? { bookingId: b.id, owner: 'new', side: isAfterNew ? 'after' : 'before', minutes: ownMinutes, gapMinutes, label: own.label }
+      : { bookingId: b.id, owner: 'existing', side: isAfterNew ? 'before' : 'after', minutes: theirMinutes, gapMinutes, label: theirs.label }
+  }
+  return worst
+}
+
+/** Max bookings / max booked hours on the booking's start day (0 = no limit). */
+async function checkDailyLimits(
+  bookingDateTime: Date,
+  durationMinutes: number,
+  excludeBookingId?: string
+): Promise<AvailabilityConflict | undefined> {
+  if (!readSetting(MAX_BOOKINGS_PER_DAY_KEY, 0) && !readSetting(MAX_BOOKED_HOURS_PER_DAY_KEY, 0)) return undefined
+
+  const sameDay = (await db.bookings
+    .where('dateTime').between(startOfDay(bookingDateTime), endOfDay(bookingDateTime), true, true)
+    .toArray())
+    .filter(b => b.id !== excludeBookingId && b.status !== 'Cancelled' && b.status !== 'No Show')
+  return dailyLimitConflict(sameDay, durationMinutes)
+}
+
+/** `sameDay` = the day's bookings that count (not cancelled / no-show, not the one being edited). */
+function dailyLimitConflict(sameDay: Booking[], durationMinutes: number): AvailabilityConflict | undefined {
+  const maxBookings = readSetting(MAX_BOOKINGS_PER_DAY_KEY, 0)
+  const maxHours = readSetting(MAX_BOOKED_HOURS_PER_DAY_KEY, 0)
+  if (maxBookings && sameDay.length + 1 > maxBookings) {
+    return {
+      hasConflict: true,
+      reason: `You already have ${sameDay.length} booking${sameDay.length === 1 ? '' : 's'} this day — your limit is ${maxBookings}.`,
+      dailyLimit: 'bookings',
+    }
+  }
+  const totalMinutes = sameDay.reduce((sum, b) => sum + b.duration, durationMinutes)
+  if (maxHours && totalMinutes > maxHours * 60) {
+    const hours = Math.round(totalMinutes / 6) / 10
+    return {
+      hasConflict: true,
+      reason: `This would bring the day to ${hours} booked hours — your limit is ${maxHours}.`,
+      dailyLimit: 'hours',
+    }
+  }
+  return undefined
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SLOT FINDER
+// Bookable start times over a date range, by the same rules as
+// checkBookingConflict: availability, existing bookings, imported calendar
+// events, buffers and daily limits. Days with no availability set (no override, no weekly template)
+// are not suggested.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface SlotSearch {
+  from: Date
+  to: Date                 // inclusive day
+  durationMinutes: number
+  location?: Pick<Booking, 'locationType' | 'venueId'>
+  stepMinutes?: number     // spacing of suggested start times (default 30)
+}
+
+/** A bookable start time, with the zone of the availability day it falls on (unset = device zone). */
+export interface OpenSlot {
+  start: Date
+  timeZone?: string
+}
+
+/** The slot's calendar day on its own clock, as yyyy-MM-dd. */
+export function slotDayKey(slot: OpenSlot): string {
+  return format(slot.timeZone ? zonedWallTime(slot.start, slot.timeZone) : slot.start, 'yyyy-MM-dd')
+}
+
+/** Bookable windows of a day as [start, end) minutes from midnight; may run past 1440 overnight. */
+export function openWindows(avail: DayAvailability): [number, number][] {
+  const span = (start: string, end: string): [number, number] => {
+    const s = timeToMinutes(start)
+    const e = timeToMinutes(end)
+    return [s, e <= s ? e + 1440 : e]
+  }
+  switch (avail.status) {
+    case 'Available':
+      return avail.startTime && avail.endTime ? [span(avail.startTime, avail.endTime)] : [[0, 1440]]
+    case 'Limited':
+      return (avail.openSlots ?? []).map(slot => span(slot.start, slot.end))
+    default:
+      return []
+  }
+}
+
+export async function findOpenSlots({
+  from, to, durationMinutes, location, stepMinutes = 30,
+}: SlotSearch): Promise<OpenSlot[]> {
+  const first = startOfDay(from)
+  const last = startOfDay(to)
+  const [overrides, templates, bookings, blockedTimes] = await Promise.all([
+    db.availability.where('date').between(first, endOfDay(last), true, true).toArray(),
+    db.availabilityTemplates.toArray(),
+    // A day of margin either side catches overnight bookings and buffers
+    db.bookings.where('dateTime').between(addDays(first, -1), addDays(last, 2), true, false).toArray(),
+    blockedTimesBetween(first, addDays(last, 2)),
+  ])
+  const counted = bookings.filter(b => b.status !== 'Cancelled' && b.status !== 'No Show')
+  // Same set checkBookingConflict treats as blocking
+  const blocking = counted.filter(b => b.status !== 'Completed')
+  const place = location ?? { locationType: 'Incall' as LocationType }
+  const ctx = await loadBufferContext(place, blocking)
+  const nowMs = Date.now()
+
+  const slots: OpenSlot[] = []
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    const avail = resolveAvailability(day, overrides, templates)
+    if (!avail) continue
+    const sameDay = counted.filter(b => isSameDay(new Date(b.dateTime), day))
+    if (dailyLimitConflict(sameDay, durationMinutes)) continue
+    // Window times are on the clock of the zone that day is set to
+    const zone = avail.timeZone && isValidTimeZone(avail.timeZone) ? avail.timeZone : undefined
+
+    for (const [winStart, winEnd] of openWindows(avail)) {
+      // Start on the step grid, e.g. 18:00, 18:30 …
+      const firstStart = Math.ceil(winStart / stepMinutes) * stepMinutes
+      for (let m = firstStart; m + durationMinutes <= winEnd && m < 1440; m += stepMinutes) {
+        const wallStart = addMinutes(day, m)
+        const startMs = (zone ? wallTimeToInstant(wallStart, zone) : wallStart).getTime()
+        if (startMs < nowMs) continue
+        const endMs = startMs + durationMinutes * 60000
+        const overlaps = blocking.some(b => {
+          const bStart = new Date(b.dateTime).getTime()
+          return startMs < bStart + b.duration * 60000 && endMs > bStart
+        })
+        const blocked = blockedTimes.some(b => startMs < new Date(b.end).getTime() && endMs > new Date(b.start).getTime())
+        if (overlaps || blocked || bufferClashAt(startMs, endMs, place, blocking, ctx)) continue
+        slots.push({ start: new Date(startMs), timeZone: zone })
+      }
+    }
+  }
+  return slots.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Message-ready list of free times, one line per day. Back-to-back start
+ * times collapse into the window they cover, e.g.
+ * "• Thu, Oct 22: 6:00 PM – 9:00 PM, 10:00 PM – 11:00 PM".
+ * Each day reads on the clock of the zone its availability is set in.
+ */
+export function formatSlotList(slots: OpenSlot[], durationMinutes: number, stepMinutes = 30): string {
+  const lines: string[] = []
+  let i = 0
+  while (i < slots.length) {
+    const day = slots[i]
+    const zone = day.timeZone
+    const windows: string[] = []
+    while (i < slots.length && slots[i].timeZone === zone && slotDayKey(slots[i]) === slotDayKey(day)) {
+      const start = slots[i].start
+      let last = start
+      while (i + 1 < slots.length && slots[i + 1].timeZone === zone
+        && slots[i + 1].start.getTime() - last.getTime() === stepMinutes * 60000) {
+        last = slots[++i].start
+      }
+      windows.push(`${fmtTime(start, zone)} – ${fmtTime(addMinutes(last, durationMinutes), zone)}`)
+      i++
+    }
+    lines.push(`• ${fmtShortDayDate(day.start, zone)}: ${windows.join(', ')}`)
+  }
+  return lines.join('\n')
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // AUTO-ADJUST AVAILABILITY
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -194,8 +634,9 @@ export async function adjustAvailabilityForBooking(
   durationMinutes: number,
   bookingId?: string
 ): Promise<void> {
-  const dayStart = startOfDay(bookingDateTime)
-  const bookingStart = dateToTimeStr(bookingDateTime)
+  const { wall } = await availabilityAt(bookingDateTime)
+  const dayStart = startOfDay(wall)
+  const bookingStart = dateToTimeStr(wall)
   const bookingStartMins = timeToMinutes(bookingStart)
   const bookingEndMins = bookingStartMins + durationMinutes
 
@@ -224,16 +665,27 @@ export async function adjustAvailabilityForBooking(
       openSlots: merged,
     })
   } else {
-    // No availability record — create Limited with this slot
+    // No override — start from the weekly template's open windows (if any)
+    // so the new override doesn't close the rest of the day
+    const template = await db.availabilityTemplates.where('weekday').equals(dayStart.getDay()).first()
     await db.availability.put({
       id: newId(),
       date: dayStart,
       status: 'Limited',
-      openSlots: [newSlot],
+      openSlots: mergeSlots([...(template ? templateWindows(template) : []), newSlot]),
     })
   }
 }
 
+/** Open windows a template day offers, as slots (Available hours count as one window unless overnight). */
+function templateWindows(template: AvailabilityTemplate): TimeSlot[] {
+  if (template.status === 'Limited') return (template.openSlots ?? []).map(({ start, end }) => ({ start, end }))
+  if (template.status === 'Available' && template.startTime && template.endTime && template.startTime < template.endTime) {
+    return [{ start: template.startTime, end: template.endTime }]
+  }
+  return []
+}
+
 /** Merge overlapping or adjacent time slots */
 function mergeSlots(slots: TimeSlot[]): TimeSlot[] {
   if (slots.length <= 1) return slots
@@ -0,0 +1,413 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Backup engine — serialization, encryption and restore
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// UI lives in components/BackupRestore.tsx; incremental archives build on
+// these helpers in utils/incrementalBackup.ts.
+
+import { db } from '../db'
+import { lsKey } from '../hooks/useSettings'
+import { excludeFromHistory } from '../db/revisions'
+import { clearSyncedTable } from '../db/sync'
+import { DOC_TABLES, openDocRecord, sealDocRecords } from '../db/docCrypto'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CRYPTO HELPERS (AES-GCM via Web Crypto API)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function deriveKey(password: string, salt: Uint8Array, iterations = 200_000): Promise<CryptoKey> {
+  const enc = new TextEncoder()
+  const baseKey = await crypto.subtle.importKey('raw', enc.encode(password), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt.buffer as ArrayBuffer, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export async function encryptData(data: string, password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const key = await deriveKey(password, salt)
+  return encryptDataWithKey(data, key, salt)
+}
+
+/**
+ * Encrypt with an already-derived key. `salt` must be the salt the key was
+ * derived with — it's written into the header so decryptData() can re-derive
+ * the same key from the password.
+ */
+export async function encryptDataWithKey(data: string, key: CryptoKey, salt: Uint8Array): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(data))
+  // Combine salt + iv + ciphertext, encode as base64
+  const combined = new Uint8Array(salt.length + iv.length + new Uint8Array(encrypted).length)
+  combined.set(salt, 0)
+  combined.set(iv, salt.length)
+  combined.set(new Uint8Array(encrypted), salt.length + iv.length)
+  // NOTE: Do NOT use btoa(String.fromCharCode(...combined)) — spreading a large
+  // Uint8Array as function arguments will exceed the JS call stack limit on any
+  // backup with substantial data (typically > ~50k records).
+  let binary = ''
+  combined.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary)
+}
+
+export async function decryptData(encoded: string, password: string): Promise<string> {
+  const binary = atob(encoded)
+  const combined = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) combined[i] = binary.charCodeAt(i)
+  const salt = combined.slice(0, 16)
+  const iv = combined.slice(16, 28)
+  const ciphertext = combined.slice(28)
+  // Try current iteration count first (200k), fall back to legacy (100k)
+  try {
+    const key = await deriveKey(password, salt, 200_000)
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext)
+    return new TextDecoder().decode(decrypted)
+  } catch {
+    const key = await deriveKey(password, salt, 100_000)
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext)
+    return new TextDecoder().decode(decrypted)
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BACKUP / RESTORE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Bump this when adding new tables or making breaking schema changes.
+// Backups from a NEWER version than this will be rejected to prevent
+// silent data loss (future tables/fields would be silently dropped).
+// Backups from OLDER versions are fine — missing tables are just empty.
+// Incremental archives carry the same version, marked kind: 'delta'.
+export const CURRENT_BACKUP_VERSION = 11
+
+export interface BackupPayload {
+  version: number
+  created: string
+  // 'delta' = an incremental archive, only meaningful on top of its base
+  // (see utils/incrementalBackup.ts). Unset = a full backup.
+  kind?: 'full' | 'delta'
+  tables: {
+    clients: unknown[]
+    bookings: unknown[]
+    transactions: unknown[]
+    availability: unknown[]
+    safetyContacts: unknown[]
+    safetyChecks: unknown[]
+    incidents: unknown[]
+    serviceRates: unknown[]
+    payments?: unknown[]
+    journalEntries?: unknown[]
+    incallVenues?: unknown[]
+    // screeningDocs, venueDocs and receipts have Blob data — encoded as base64
+    screeningDocs?: unknown[]
+    venueDocs?: unknown[]
+    receipts?: unknown[]
+    bookingChecklist?: unknown[]
+    availabilityTemplates?: unknown[]
+    blockedTimes?: unknown[]
+    tours?: unknown[]
+    waitlist?: unknown[]
+    fxRates?: unknown[]
+    taxPayments?: unknown[]
+    recurringExpenses?: unknown[]
+  }
+  // Profile & settings from localStorage
+  profile?: Record<string, string>
+  // Incremental archives only (see utils/incrementalBackup.ts)
+  archive?: ArchiveInfo
+  deleted?: Partial<Record<keyof BackupPayload['tables'], string[]>>
+}
+
+/** Position of an archive in an incremental chain: one base snapshot (seq 0) followed by deltas. */
+export interface ArchiveInfo {
+  id: string
+  chainId: string
+  seq: number
+  parentId?: string
+}
+
+export type BackupTables = BackupPayload['tables']
+export type BackupTableName = keyof BackupTables
+
+/** Every table carried by a backup, in restore order. */
+export const BACKUP_TABLES: BackupTableName[] = [
+  'clients', 'bookings', 'transactions', 'availability', 'safetyContacts',
+  'safetyChecks', 'incidents', 'serviceRates', 'payments', 'journalEntries',
+  'incallVenues', 'screeningDocs', 'venueDocs', 'bookingChecklist',
+  'availabilityTemplates', 'blockedTimes', 'tours', 'waitlist', 'fxRates', 'taxPayments', 'receipts',
+  'recurringExpenses',
+]
+
+// ── Blob ↔ Base64 helpers ──────────────────────────────────────────────
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const result = reader.result as string
+      // Strip the data:…;base64, prefix
+      resolve(result.split(',')[1] ?? '')
+    }
+    reader.onerror = reject
+    reader.readAsDataURL(blob)
+  })
+}
+
+export function base64ToBlob(b64: string, mimeType: string): Blob {
+  const binary = atob(b64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Blob([bytes], { type: mimeType })
+}
+
+// localStorage keys to include in backup
+export const PROFILE_LS_KEYS = [
+  'profileWorkingName', 'profileWorkEmail', 'profileWorkPhone',
+  'profileWebsite', 'profileTagline', 'profileSetupDone',
+  'defaultDepositType', 'defaultDepositPercentage', 'defaultDepositFlat',
+  'currency', 'introTemplate', 'directionsTemplate',
+  'taxRate', 'setAsideRate', 'taxProfile', 'reportingCurrency',
+  'goalWeekly', 'goalMonthly', 'goalQuarterly', 'goalYearly',
+  'darkMode', 'oledBlack', 'remindersEnabled',
+  'financeCards_v2', 'financeHintDismissed',
+  'defaultChecklistItems', 'stealthEnabled',
+  'bookingBuffers', 'maxBookingsPerDay', 'maxBookedHoursPerDay', 'venueCostsAuto',
+  'calendarPrivacy', 'calendarAlarmMinutes', 'calendarIncludeAvailability',
+]
+
+export async function createBackup(): Promise<BackupPayload> {
+  // Serialize screeningDocs (sealed Blob → plaintext → base64)
+  const rawScreeningDocs = await db.screeningDocs.toArray()
+  const screeningDocs = await Promise.all(rawScreeningDocs.map(async raw => {
+    const doc = await openDocRecord(raw)
+    return { ...doc, data: await blobToBase64(doc.data), _blobMime: doc.mimeType }
+  }))
+
+  // Serialize venueDocs (sealed Blob → plaintext → base64)
+  const rawVenueDocs = await db.venueDocs.toArray()
+  const venueDocs = await Promise.all(rawVenueDocs.map(async raw => {
+    const doc = await openDocRecord(raw)
+    return { ...doc, data: await blobToBase64(doc.data), _blobMime: doc.mimeType }
+  }))
+
+  // Serialize receipts (sealed Blob → plaintext → base64)
+  const rawReceipts = await db.receipts.toArray()
+  const receipts = await Promise.all(rawReceipts.map(async raw => {
+    const doc = await openDocRecord(raw)
+    return { ...doc, data: await blobToBase64(doc.data), _blobMime: doc.mimeType }
+  }))
+
+  // Snapshot localStorage profile settings
+  const profile: Record<string, string> = {}
+  for (const key of PROFILE_LS_KEYS) {
+    const val = localStorage.getItem(lsKey(key))
+    if (val !== null) profile[key] = val
+  }
+
+  return {
+    version: CURRENT_BACKUP_VERSION,
+    created: new Date().toISOString(),
+    tables: {
+      clients: await db.clients.toArray(),
+      bookings: await db.bookings.toArray(),
+      transactions: await db.transactions.toArray(),
+      availability: await db.availability.toArray(),
+      safetyContacts: await db.safetyContacts.toArray(),
+      safetyChecks: await db.safetyChecks.toArray(),
+      incidents: await db.incidents.toArray(),
+      serviceRates: await db.serviceRates.toArray(),
+      payments: await db.payments.toArray(),
+      journalEntries: await db.journalEntries.toArray(),
+      incallVenues: await db.incallVenues.toArray(),
+      screeningDocs,
+      venueDocs,
+      bookingChecklist: await db.bookingChecklist.toArray(),
+      availabilityTemplates: await db.availabilityTemplates.toArray(),
+      blockedTimes: await db.blockedTimes.toArray(),
+      tours: await db.tours.toArray(),
+      waitlist: await db.waitlist.toArray(),
+      fxRates: await db.fxRates.toArray(),
+      taxPayments: await db.taxPayments.toArray(),
+      receipts,
+      recurringExpenses: await db.recurringExpenses.toArray(),
+    },
+    profile,
+  }
+}
+
+/**
+ * Validate records and rehydrate Dates / Blobs in place. Throws on malformed
+ * records so nothing touches the database until the whole payload is sound.
+ */
+export function prepareBackupTables(t: Partial<BackupTables>): void {
+  // ─── Validate record shapes before touching the database ────────────
+  // Every record in every table must have an 'id' field at minimum.
+  // Key tables also check for their most critical required fields so a
+  // malformed or crafted backup can't inject broken records.
+  const requiredFields: Record<string, string[]> = {
+    clients:        ['id', 'alias'],
+    bookings:       ['id'],
+    transactions:   ['id', 'amount'],
+    availability:   ['id', 'date'],
+    safetyContacts: ['id', 'name'],
+    safetyChecks:   ['id'],
+    incidents:      ['id'],
+    serviceRates:   ['id'],
+    payments:       ['id', 'bookingId'],
+    journalEntries: ['id', 'bookingId', 'clientId'],
+    incallVenues:   ['id', 'name'],
+    screeningDocs:  ['id', 'clientId'],
+    venueDocs:      ['id', 'venueId'],
+    bookingChecklist: ['id', 'bookingId'],
+    availabilityTemplates: ['id', 'weekday'],
+    blockedTimes:   ['id', 'uid', 'start', 'end'],
+    tours:          ['id', 'name', 'stops'],
+    waitlist:       ['id', 'clientId', 'date'],
+    fxRates:        ['id', 'base', 'quote', 'rate', 'date'],
+    taxPayments:    ['id', 'taxYear', 'amount', 'date'],
+    receipts:       ['id', 'transactionId'],
+    recurringExpenses: ['id', 'amount', 'frequency', 'startDate'],
+  }
+
+  for (const [tableName, records] of Object.entries(t)) {
+    if (!Array.isArray(records) || records.length === 0) continue
+    const fields = requiredFields[tableName] ?? ['id']
+    for (const record of records) {
+      if (!record || typeof record !== 'object') {
+        throw new Error(`Invalid record in "${tableName}": not an object`)
+      }
+      const rec = record as Record<string, unknown>
+      for (const field of fields) {
+        if (!(field in rec) || rec[field] === undefined || rec[field] === null) {
+          throw new Error(`Invalid record in "${tableName}": missing required field "${field}"`)
+        }
+      }
+      // id must be a string — numeric ids cause silent IndexedDB query mismatches
+      if (typeof rec.id !== 'string') {
+        rec.id = String(rec.id)
+      }
+    }
+  }
+
+  // ─── Reconstitute Date objects from ISO strings ──────────────────────
+  // JSON.stringify converts Dates to ISO strings; JSON.parse leaves them
+  // as strings. IndexedDB indexes distinguish types, so string dates break
+  // every .where() and .orderBy() on date-indexed fields.
+  const dateFields: Record<string, string[]> = {
+    clients:        ['dateAdded', 'lastSeen', 'birthday', 'clientSince'],
+    bookings:       ['dateTime', 'createdAt', 'confirmedAt', 'completedAt', 'cancelledAt', 'recurrenceDate'],
+    transactions:   ['date'],
+    availability:   ['date'],
+    safetyChecks:   ['scheduledTime', 'checkedInAt'],
+    incidents:      ['date'],
+    payments:       ['date'],
+    journalEntries: ['date', 'createdAt', 'updatedAt'],
+    incallVenues:   ['createdAt', 'updatedAt'],
+    screeningDocs:  ['uploadedAt'],
+    venueDocs:      ['uploadedAt'],
+    bookingChecklist: ['createdAt'],
+    blockedTimes:   ['start', 'end', 'importedAt'],
+    tours:          ['createdAt', 'updatedAt'],
+    waitlist:       ['createdAt', 'fulfilledAt'],
+    fxRates:        ['date'],
+    taxPayments:    ['date'],
+    receipts:       ['uploadedAt'],
+    recurringExpenses: ['startDate', 'endDate', 'createdAt', 'updatedAt'],
+  }
+
+  for (const [tableName, fields] of Object.entries(dateFields)) {
+    const records = (t as Record<string, unknown[]>)[tableName]
+    if (!Array.isArray(records)) continue
+    for (const record of records) {
+      const rec = record as Record<string, unknown>
+      for (const f of fields) {
+        if (typeof rec[f] === 'string') {
+          const d = new Date(rec[f] as string)
+          if (!isNaN(d.getTime())) rec[f] = d
+        }
+      }
+    }
+  }
+
+  // ─── Reconstitute Blobs from base64 ─────────────────────────────────
+  for (const table of DOC_TABLES) {
+    const records = t[table]
+    if (!Array.isArray(records)) continue
+    for (const rec of records) {
+      const r = rec as Record<string, unknown>
+      if (typeof r.data === 'string' && r.data.length > 0) {
+        r.data = base64ToBlob(r.data as string, (r._blobMime as string) || (r.mimeType as string) || 'application/octet-stream')
+      }
+      delete r._blobMime
+    }
+  }
+}
+
+/**
+ * Seal a prepared payload's document blobs with this device's key (backups
+ * carry them in plaintext). Idempotent — already-sealed records are skipped.
+ */
+export async function sealBackupDocs(t: Partial<BackupTables>): Promise<void> {
+  for (const table of DOC_TABLES) await sealDocRecords(t[table])
+}
+
+export async function restoreBackup(payload: BackupPayload): Promise<{ total: number }> {
+  if (payload.kind === 'delta') throw new Error('This is an incremental backup — restore it together with its base snapshot')
+  let total = 0
+  const t = payload.tables
+  prepareBackupTables(t)
+  await sealBackupDocs(t)
+
+  // Clear all tables and restore data atomically
+  await db.transaction('rw', BACKUP_TABLES.map(name => db.table(name)), async (tx) => {
+    excludeFromHistory(tx)
+    for (const name of BACKUP_TABLES) await clearSyncedTable(db.table(name))
+    for (const name of BACKUP_TABLES) {
+      const records = t[name]
+      if (records?.length) {
+        await db.table(name).bulkPut(records)
+        total += records.length
+      }
+    }
+  })
+
+  restoreProfile(payload.profile)
+
+  return { total }
+}
+
+/** Restore localStorage profile settings and notify mounted useLocalStorage hooks. */
+export function restoreProfile(profile: Record<string, string> | undefined): void {
+  if (profile && typeof profile === 'object') {
+    for (const [key, val] of Object.entries(profile)) {
+      if (typeof val === 'string') {
+        localStorage.setItem(lsKey(key), val)
+        // Notify mounted useLocalStorage hooks
+        try {
+          window.dispatchEvent(new CustomEvent('ls-sync', { detail: { key: lsKey(key), value: JSON.parse(val) } }))
+        } catch {
+          window.dispatchEvent(new CustomEvent('ls-sync', { detail: { key: lsKey(key), value: val } }))
+        }
+      }
+    }
+  }
+}
+
+export function downloadFile(content: string, filename: string) {
+  downloadBlob(new Blob([content], { type: 'application/json' }), filename)
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  // Delay revoking — Android needs time to start the download
+  setTimeout(() => URL.revokeObjectURL(url), 5000)
+}
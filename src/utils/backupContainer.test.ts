@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { db } from '../db'
+import { lsKey } from '../hooks/useSettings'
+import { createBlobSink, isBackupContainer, isEncryptedContainer, readBackupContainer, writeBackupContainer } from './backupContainer'
+import type { Client, Receipt, Transaction } from '../types'
+
+const client: Client = {
+  id: 'c1',
+  alias: 'Alex',
+  preferredContact: 'Text',
+  screeningStatus: 'Screened',
+  riskLevel: 'Low Risk',
+  isBlocked: false,
+  notes: '',
+  preferences: '',
+  boundaries: '',
+  dateAdded: new Date('2026-01-05T10:00:00Z'),
+  tags: [],
+  isPinned: false,
+  requiresSafetyCheck: false,
+}
+
+const expense: Transaction = {
+  id: 't1',
+  amount: 120,
+  currency: 'USD',
+  type: 'expense',
+  category: 'rent',
+  date: new Date('2026-02-01T00:00:00Z'),
+  notes: '',
+}
+
+async function writeToBlob(password?: string) {
+  const { sink, finish } = createBlobSink()
+  const { records } = await writeBackupContainer(sink, password)
+  return { file: finish(), records }
+}
+
+describe('backup container', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+    localStorage.clear()
+    await db.clients.add(client)
+    await db.transactions.add(expense)
+  })
+
+  it('round-trips tables, documents and profile settings', async () => {
+    // Larger than one blob frame, so the document spans several
+    const bytes = new Uint8Array(1024 * 1024 + 10).map((_, i) => i % 251)
+    const receipt: Receipt = {
+      id: 'r1',
+      transactionId: 't1',
+      filename: 'rent.jpg',
+      mimeType: 'image/jpeg',
+      data: new Blob([bytes], { type: 'image/jpeg' }),
+      uploadedAt: new Date('2026-02-01T00:00:00Z'),
+    }
+    await db.receipts.add(receipt)
+    localStorage.setItem(lsKey('currency'), JSON.stringify('CAD'))
+
+    const { file, records } = await writeToBlob()
+    expect(records).toBe(3)
+    expect(await isBackupContainer(file)).toBe(true)
+    expect(await isEncryptedContainer(file)).toBe(false)
+
+    const payload = await readBackupContainer(file)
+    expect(payload.tables.clients).toHaveLength(1)
+    expect((payload.tables.clients[0] as Client).alias).toBe('Alex')
+    expect((payload.tables.transactions[0] as Transaction).amount).toBe(120)
+    expect(payload.profile?.currency).toBe(JSON.stringify('CAD'))
+
+    const restored = payload.tables.receipts?.[0] as Receipt
+    expect(restored.filename).toBe('rent.jpg')
+    expect(restored.data.type).toBe('image/jpeg')
+    // Element-wise toEqual over a megabyte is slow enough to time out on a busy machine
+    const roundTripped = new Uint8Array(await restored.data.arrayBuffer())
+    expect(roundTripped.length).toBe(bytes.length)
+    expect(roundTripped.every((b, i) => b === bytes[i])).toBe(true)
+  })
+
+  it('encrypts every frame and rejects the wrong password', async () => {
+    const { file } = await writeToBlob('correct horse')
+    expect(await isEncryptedContainer(file)).toBe(true)
+
+    await expect(readBackupContainer(file)).rejects.toThrow(/encrypted/)
+    await expect(readBackupContainer(file, 'wrong')).rejects.toThrow(/Wrong password/)
+    const payload = await readBackupContainer(file, 'correct horse')
+    expect((payload.tables.clients[0] as Client).alias).toBe('Alex')
+  })
+
+  it('rejects a truncated file', async () => {
+    const { file } = await writeToBlob()
+    await expect(readBackupContainer(file.slice(0, file.size - 3))).rejects.toThrow(/incomplete/)
+  })
+
+  it('rejects files that are not containers', async () => {
+    const json = new Blob([JSON.stringify({ version: 1, tables: {} })])
+    expect(await isBackupContainer(json)).toBe(false)
+    await expect(readBackupContainer(json)).rejects.toThrow(/Not a Companion backup/)
+  })
+})
@@ -0,0 +1,284 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Streaming backup container (.cbak)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Binary, chunked alternative to the JSON backup. Tables are written in pages
+// and documents as raw bytes in fixed-size pieces, each frame encrypted on its
+// own — neither the writer nor the reader ever holds the whole archive (or a
+// base64 copy of a photo) in memory.
+//
+// Layout:
+//   "CBAK" | format u8 | flags u8 | salt[16] (encrypted only) | frame*
+//   frame = type u8 | length u32 BE | body
+//   body  = iv[12] ‖ AES-GCM ciphertext when encrypted, with the frame index
+//           and type as additional data so frames can't be dropped or reordered
+//
+// Frames: HEADER (JSON meta) → RECORDS (JSON page of one table) …
+//         → BLOB_START (JSON doc metadata + size) → BLOB_DATA … → END
+
+import { db } from '../db'
+import { lsKey } from '../hooks/useSettings'
+import { openDocRecord, type DocLike } from '../db/docCrypto'
+import {
+  CURRENT_BACKUP_VERSION, PROFILE_LS_KEYS, BACKUP_TABLES, deriveKey,
+  type BackupPayload, type BackupTableName,
+} from './backup'
+
+/** Bump when the byte layout changes — independent of CURRENT_BACKUP_VERSION (the data schema). */
+export const CONTAINER_FORMAT_VERSION = 1
+export const BACKUP_CONTAINER_EXTENSION = '.cbak'
+
+const MAGIC = [0x43, 0x42, 0x41, 0x4b] // "CBAK"
+const FLAG_ENCRYPTED = 1
+const SALT_BYTES = 16
+const IV_BYTES = 12
+const FRAME_HEAD_BYTES = 5
+const RECORDS_PER_FRAME = 500
+const BLOB_FRAME_BYTES = 1024 * 1024
+
+const FRAME = {
+  HEADER: 1,
+  RECORDS: 2,
+  BLOB_START: 3,
+  BLOB_DATA: 4,
+  END: 0xff,
+} as const
+
+const BLOB_TABLES: BackupTableName[] = ['screeningDocs', 'venueDocs', 'receipts']
+
+export type ChunkSink = (chunk: Uint8Array) => Promise<void>
+
+interface ContainerHeader {
+  version: number
+  created: string
+  profile: Record<string, string>
+}
+
+interface BlobStart {
+  table: BackupTableName
+  record: Record<string, unknown>
+  size: number
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function frameAad(index: number, type: number): Uint8Array<ArrayBuffer> {
+  const aad = new Uint8Array(FRAME_HEAD_BYTES)
+  new DataView(aad.buffer).setUint32(0, index)
+  aad[4] = type
+  return aad
+}
+
+// ── Writer ─────────────────────────────────────────────────────────────
+
+/**
+ * Stream the whole database into `sink` as a container. Pass a password to
+ * encrypt every frame. Resolves with the number of records written.
+ */
+export async function writeBackupContainer(sink: ChunkSink, password?: string): Promise<{ records: number }> {
+  let key: CryptoKey | null = null
+  const prologue = new Uint8Array(6 + (password ? SALT_BYTES : 0))
+  prologue.set(MAGIC)
+  prologue[4] = CONTAINER_FORMAT_VERSION
+  if (password) {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+    prologue[5] = FLAG_ENCRYPTED
+    prologue.set(salt, 6)
+    key = await deriveKey(password, salt)
+  }
+  await sink(prologue)
+
+  let index = 0
+  async function writeFrame(type: number, body: Uint8Array<ArrayBuffer>) {
+    let payload = body
+    if (key) {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+      const sealed = new Uint8Array(await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: frameAad(index, type) }, key, body,
+      ))
+      payload = new Uint8Array(IV_BYTES + sealed.length)
+      payload.set(iv)
+      payload.set(sealed, IV_BYTES)
+    }
+    const head = new Uint8Array(FRAME_HEAD_BYTES)
+    head[0] = type
+    new DataView(head.buffer).setUint32(1, payload.length)
+    await sink(head)
+    await sink(payload)
+    index++
+  }
+  const writeJson = (type: number, value: unknown) => writeFrame(type, encoder.encode(JSON.stringify(value)))
+
+  const profile: Record<string, string> = {}
+  for (const k of PROFILE_LS_KEYS) {
+    const val = localStorage.getItem(lsKey(k))
+    if (val !== null) profile[k] = val
+  }
+  await writeJson(FRAME.HEADER, { version: CURRENT_BACKUP_VERSION, created: new Date().toISOString(), profile } satisfies ContainerHeader)
+
+  let records = 0
+  for (const table of BACKUP_TABLES) {
+    if (BLOB_TABLES.includes(table)) {
+      // One document at a time — only a single photo is ever in memory
+      const ids = await db.table(table).toCollection().primaryKeys()
+      for (const id of ids) {
+        const stored = await db.table(table).get(id) as (Record<string, unknown> & DocLike) | undefined
+        if (!stored) continue
+        // Sealed with this device's key at rest — backups carry the plaintext, like every other field
+        const { data, ...record } = await openDocRecord(stored)
+        const blob = data instanceof Blob ? data : new Blob([])
+        await writeJson(FRAME.BLOB_START, { table, record, size: blob.size } satisfies BlobStart)
+        for (let off = 0; off < blob.size; off += BLOB_FRAME_BYTES) {
+          await writeFrame(FRAME.BLOB_DATA, new Uint8Array(await blob.slice(off, off + BLOB_FRAME_BYTES).arrayBuffer()))
+        }
+        records++
+      }
+      continue
+    }
+    const total = await db.table(table).count()
+    for (let off = 0; off < total; off += RECORDS_PER_FRAME) {
+      const page = await db.table(table).offset(off).limit(RECORDS_PER_FRAME).toArray()
+      await writeJson(FRAME.RECORDS, { table, records: page })
+      records += page.length
+    }
+  }
+
+  await writeFrame(FRAME.END, new Uint8Array(0))
+  return { records }
+}
+
+/**
+ * Collects chunks into a Blob, folding them in every few MB so encrypted
+ * frames are handed to the browser's blob store instead of piling up in JS.
+ */
+export function createBlobSink(): { sink: ChunkSink; finish: () => Blob } {
+  let blob = new Blob([])
+  let pending: Uint8Array[] = []
+  let pendingBytes = 0
+  const fold = () => {
+    blob = new Blob([blob, ...pending.map(p => p as Uint8Array<ArrayBuffer>)])
+    pending = []
+    pendingBytes = 0
+  }
+  return {
+    sink: async (chunk) => {
+      pending.push(chunk)
+      pendingBytes += chunk.length
+      if (pendingBytes >= 4 * 1024 * 1024) fold()
+    },
+    finish: () => {
+      fold()
+      return new Blob([blob], { type: 'application/octet-stream' })
+    },
+  }
+}
+
+// ── Reader ─────────────────────────────────────────────────────────────
+
+export async function isBackupContainer(file: Blob): Promise<boolean> {
+  const head = new Uint8Array(await file.slice(0, MAGIC.length).arrayBuffer())
+  return MAGIC.every((b, i) => head[i] === b)
+}
+
+export async function isEncryptedContainer(file: Blob): Promise<boolean> {
+  const head = new Uint8Array(await file.slice(0, 6).arrayBuffer())
+  return (head[5] & FLAG_ENCRYPTED) !== 0
+}
+
+/**
+ * Read a container frame by frame into a BackupPayload. Documents come back
+ * as Blobs (not base64), which prepareBackupTables() passes through as-is,
+ * so the result feeds restoreBackup() and the restore preview unchanged.
+ */
+export async function readBackupContainer(file: Blob, password?: string): Promise<BackupPayload> {
+  if (!(await isBackupContainer(file))) throw new Error('Not a Companion backup file')
+  const prologue = new Uint8Array(await file.slice(0, 6 + SALT_BYTES).arrayBuffer())
+  if (prologue[4] > CONTAINER_FORMAT_VERSION) {
+    throw new Error('This backup uses a newer file format. Please update the app before restoring.')
+  }
+
+  let key: CryptoKey | null = null
+  let offset = 6
+  if (prologue[5] & FLAG_ENCRYPTED) {
+    if (!password) throw new Error('This backup is encrypted — enter the password above')
+    key = await deriveKey(password, prologue.slice(6, 6 + SALT_BYTES))
+    offset += SALT_BYTES
+  }
+
+  let header: ContainerHeader | null = null
+  const tables = Object.fromEntries(BACKUP_TABLES.map(t => [t, [] as unknown[]])) as Record<BackupTableName, unknown[]>
+  let blob: { start: BlobStart; parts: Uint8Array[]; received: number } | null = null
+  let ended = false
+
+  const finishBlob = () => {
+    if (!blob) return
+    if (blob.received !== blob.start.size) throw new Error('Backup file is corrupted')
+    const mime = (blob.start.record.mimeType as string) || 'application/octet-stream'
+    const data = new Blob(blob.parts.map(p => p as Uint8Array<ArrayBuffer>), { type: mime })
+    tables[blob.start.table]?.push({ ...blob.start.record, data })
+    blob = null
+  }
+
+  for (let index = 0; offset < file.size && !ended; index++) {
+    const head = new Uint8Array(await file.slice(offset, offset + FRAME_HEAD_BYTES).arrayBuffer())
+    if (head.length < FRAME_HEAD_BYTES) break
+    const type = head[0]
+    const length = new DataView(head.buffer).getUint32(1)
+    offset += FRAME_HEAD_BYTES
+    const raw = new Uint8Array(await file.slice(offset, offset + length).arrayBuffer())
+    if (raw.length < length) break
+    offset += length
+
+    let body = raw
+    if (key) {
+      try {
+        body = new Uint8Array(await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: raw.slice(0, IV_BYTES), additionalData: frameAad(index, type) },
+          key, raw.slice(IV_BYTES),
+        ))
+      } catch {
+        throw new Error(index === 0 ? 'Wrong password or corrupted backup' : 'Backup file is corrupted')
+      }
+    }
+
+    if (type !== FRAME.BLOB_DATA) finishBlob()
+    switch (type) {
+      case FRAME.HEADER:
+        header = JSON.parse(decoder.decode(body)) as ContainerHeader
+        if (header.version > CURRENT_BACKUP_VERSION) {
+          throw new Error(`This backup is from a newer version of Companion (v${header.version}). Please update the app before restoring (current: v${CURRENT_BACKUP_VERSION}).`)
+        }
+        break
+      case FRAME.RECORDS: {
+        const page = JSON.parse(decoder.decode(body)) as { table: BackupTableName; records: unknown[] }
+        const list = tables[page.table]
+        if (list) for (const rec of page.records) list.push(rec)
+        break
+      }
+      case FRAME.BLOB_START:
+        blob = { start: JSON.parse(decoder.decode(body)) as BlobStart, parts: [], received: 0 }
+        break
+      case FRAME.BLOB_DATA:
+        if (!blob) throw new Error('Backup file is corrupted')
+        blob.parts.push(body)
+        blob.received += body.length
+        break
+      case FRAME.END:
+        ended = true
+        break
+      default:
+        // Unknown frame from a newer writer with the same format version — skip
+        break
+    }
+  }
+
+  if (!header) throw new Error('Backup file is corrupted')
+  if (!ended) throw new Error('Backup file is incomplete — it may not have finished downloading')
+
+  return {
+    version: header.version,
+    created: header.created,
+    tables,
+    profile: header.profile,
+  }
+}
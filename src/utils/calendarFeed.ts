@@ -0,0 +1,74 @@
+import { readSetting } from '../hooks/useSettings'
+import { generateCalendarICS } from './icsExport'
+import type { CalendarICSOptions } from './icsExport'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CALENDAR SUBSCRIPTION FEED
+// The full calendar is published to the calendar-feed function whenever it
+// changes; phone calendars subscribe to the webcal:// link. The link carries
+// a random feed id and token — anyone holding it can read the feed, so it
+// can be reset (new id + token, old feed deleted) at any time.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const CALENDAR_PRIVACY_KEY = 'calendarPrivacy'
+export const CALENDAR_ALARM_KEY = 'calendarAlarmMinutes'
+export const CALENDAR_AVAILABILITY_KEY = 'calendarIncludeAvailability'
+/** This device's feed credentials — not backed up, so a restore elsewhere doesn't publish twice */
+export const CALENDAR_FEED_KEY = 'calendarFeed'
+
+export interface CalendarFeed {
+  id: string
+  token: string
+}
+
+const FEED_ENDPOINT = '/.netlify/functions/calendar-feed'
+
+/** Export and feed options from Settings — privacy is on unless turned off. */
+export function calendarOptions(): CalendarICSOptions {
+  return {
+    privacy: readSetting(CALENDAR_PRIVACY_KEY, true),
+    alarmMinutes: readSetting(CALENDAR_ALARM_KEY, 30),
+    includeAvailability: readSetting(CALENDAR_AVAILABILITY_KEY, true),
+  }
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function createCalendarFeed(): CalendarFeed {
+  return { id: randomHex(16), token: randomHex(32) }
+}
+
+/** Subscription link. webcal:// opens the calendar app's subscribe prompt on iOS and macOS. */
+export function calendarFeedUrl(feed: CalendarFeed, scheme: 'webcal' | 'https' = 'webcal'): string {
+  return `${scheme}://${window.location.host}${FEED_ENDPOINT}?id=${feed.id}&token=${feed.token}`
+}
+
+async function postFeed(body: Record<string, unknown>): Promise<void> {
+  const res = await fetch(FEED_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  if (!res.ok) throw new Error(`Calendar feed update failed (${res.status})`)
+}
+
+// DTSTAMP changes on every build — leave it out when deciding whether to upload
+let lastPublished: string | null = null
+const withoutStamps = (ics: string) => ics.replace(/^DTSTAMP:.*$/gm, '')
+
+/** Upload the calendar if it changed since the last upload (or always, with `force`). */
+export async function publishCalendarFeed(feed: CalendarFeed, force = false): Promise<boolean> {
+  const ics = await generateCalendarICS(calendarOptions())
+  const key = `${feed.id}\n${withoutStamps(ics)}`
+  if (!force && key === lastPublished) return false
+  await postFeed({ action: 'publish', feedId: feed.id, token: feed.token, ics })
+  lastPublished = key
+  return true
+}
+
+export async function unpublishCalendarFeed(feed: CalendarFeed): Promise<void> {
+  await postFeed({ action: 'unpublish', feedId: feed.id, token: feed.token })
+  lastPublished = null
+}
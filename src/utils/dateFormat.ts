@@ -5,72 +5,73 @@
 
 const locale = navigator.language || 'en-US'
 
-function fmtDate(d: Date, options: Intl.DateTimeFormatOptions): string {
+// `timeZone` (IANA) renders the wall clock of that zone; omitted = device zone
+function fmtDate(d: Date, options: Intl.DateTimeFormatOptions, timeZone?: string): string {
   if (isNaN(d.getTime())) return ''
-  return d.toLocaleDateString(locale, options)
+  return d.toLocaleDateString(locale, timeZone ? { ...options, timeZone } : options)
 }
 
-function fmtTimeStr(d: Date, options: Intl.DateTimeFormatOptions): string {
+function fmtTimeStr(d: Date, options: Intl.DateTimeFormatOptions, timeZone?: string): string {
   if (isNaN(d.getTime())) return ''
-  return d.toLocaleTimeString(locale, options)
+  return d.toLocaleTimeString(locale, timeZone ? { ...options, timeZone } : options)
 }
 
 /** "Feb 28" */
-export function fmtShortDate(d: Date): string {
-  return fmtDate(d, { month: 'short', day: 'numeric' })
+export function fmtShortDate(d: Date, timeZone?: string): string {
+  return fmtDate(d, { month: 'short', day: 'numeric' }, timeZone)
 }
 
 /** "Feb 28, 2026" */
-export function fmtMediumDate(d: Date): string {
-  return fmtDate(d, { month: 'short', day: 'numeric', year: 'numeric' })
+export function fmtMediumDate(d: Date, timeZone?: string): string {
+  return fmtDate(d, { month: 'short', day: 'numeric', year: 'numeric' }, timeZone)
 }
 
 /** "February 2026" */
-export function fmtMonthYear(d: Date): string {
-  return fmtDate(d, { month: 'long', year: 'numeric' })
+export function fmtMonthYear(d: Date, timeZone?: string): string {
+  return fmtDate(d, { month: 'long', year: 'numeric' }, timeZone)
 }
 
 /** "February" */
-export function fmtMonth(d: Date): string {
-  return fmtDate(d, { month: 'long' })
+export function fmtMonth(d: Date, timeZone?: string): string {
+  return fmtDate(d, { month: 'long' }, timeZone)
 }
 
 /** "Feb" */
-export function fmtShortMonth(d: Date): string {
-  return fmtDate(d, { month: 'short' })
+export function fmtShortMonth(d: Date, timeZone?: string): string {
+  return fmtDate(d, { month: 'short' }, timeZone)
 }
 
 /** "Friday, February 28" */
-export function fmtFullDayDate(d: Date): string {
-  return fmtDate(d, { weekday: 'long', month: 'long', day: 'numeric' })
+export function fmtFullDayDate(d: Date, timeZone?: string): string {
+  return fmtDate(d, { weekday: 'long', month: 'long', day: 'numeric' }, timeZone)
 }
 
 /** "Friday, February 28, 2026" */
-export function fmtFullDayDateYear(d: Date): string {
-  return fmtDate(d, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+export function fmtFullDayDateYear(d: Date, timeZone?: string): string {
+  return fmtDate(d, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }, timeZone)
 }
 
 /** "Fri, Feb 28" */
-export function fmtShortDayDate(d: Date): string {
-  return fmtDate(d, { weekday: 'short', month: 'short', day: 'numeric' })
+export function fmtShortDayDate(d: Date, timeZone?: string): string {
+  return fmtDate(d, { weekday: 'short', month: 'short', day: 'numeric' }, timeZone)
 }
 
 /** "Friday" */
-export function fmtWeekday(d: Date): string {
-  return fmtDate(d, { weekday: 'long' })
+export function fmtWeekday(d: Date, timeZone?: string): string {
+  return fmtDate(d, { weekday: 'long' }, timeZone)
 }
 
 /** "2:30 PM" */
-export function fmtTime(d: Date): string {
-  return fmtTimeStr(d, { hour: 'numeric', minute: '2-digit' })
+export function fmtTime(d: Date, timeZone?: string): string {
+  return fmtTimeStr(d, { hour: 'numeric', minute: '2-digit' }, timeZone)
 }
 
 /** "Feb 28, 2:30 PM" */
-export function fmtDateAndTime(d: Date): string {
-  return `${fmtShortDate(d)}, ${fmtTime(d)}`
+export function fmtDateAndTime(d: Date, timeZone?: string): string {
+  return `${fmtShortDate(d, timeZone)}, ${fmtTime(d, timeZone)}`
 }
 
 /** "Feb 28, 2026 · 2:30 PM" */
-export function fmtFullDateAndTime(d: Date): string {
-  return `${fmtMediumDate(d)} · ${fmtTime(d)}`
+export function fmtFullDateAndTime(d: Date, timeZone?: string): string {
+  return `${fmtMediumDate(d, timeZone)} · ${fmtTime(d, timeZone)}`
 }
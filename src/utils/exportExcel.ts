@@ -2,7 +2,11 @@
 // Exports all app data as a styled multi-sheet Excel workbook.
 
 import ExcelJS from 'exceljs'
-import { db, bookingTotal } from '../db'
+import { db, bookingTotal, getCurrency } from '../db'
+import { CATEGORY_LABELS, deductionLineFor, readTaxProfile, taxYearReportHtml } from './tax'
+import { receiptZipEntries } from './receipts'
+import { createZip } from './zip'
+import type { TaxYearReport } from './tax'
 import type { Client, Booking, Transaction, BookingPayment, IncidentLog } from '../types'
 
 // ── Helpers ──────────────────────────────────────────────────────────────
@@ -35,6 +39,8 @@ const HEADER_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor:
 const HEADER_FONT: Partial<ExcelJS.Font> = { bold: true, color: { argb: 'FFFFFFFF' }, size: 11, name: 'Arial' }
 const BODY_FONT: Partial<ExcelJS.Font> = { size: 10, name: 'Arial' }
 const MONEY_FMT = '$#,##0.00'
+// Tax sheets name their currency in the header instead
+const AMOUNT_FMT = '#,##0.00'
 const THIN_BORDER: Partial<ExcelJS.Borders> = {
   bottom: { style: 'thin', color: { argb: 'FFD4D4D8' } },
 }
@@ -197,6 +203,7 @@ function buildIncomeSheet(wb: ExcelJS.Workbook, transactions: Transaction[]) {
     { header: 'Category', key: 'category', width: 12 },
     { header: 'Payment Method', key: 'method', width: 14 },
     { header: 'Notes', key: 'notes', width: 32 },
+    { header: 'Currency', key: 'currency', width: 10 },
   ]
   for (const t of income) {
     const row = ws.addRow({
@@ -205,6 +212,7 @@ function buildIncomeSheet(wb: ExcelJS.Workbook, transactions: Transaction[]) {
       category: t.category,
       method: t.paymentMethod ?? '',
       notes: t.notes,
+      currency: t.currency ?? getCurrency(),
     })
     row.getCell(2).numFmt = MONEY_FMT
   }
@@ -233,6 +241,7 @@ function buildExpensesSheet(wb: ExcelJS.Workbook, transactions: Transaction[]) {
     { header: 'Category', key: 'category', width: 12 },
     { header: 'Payment Method', key: 'method', width: 14 },
     { header: 'Notes', key: 'notes', width: 32 },
+    { header: 'Currency', key: 'currency', width: 10 },
   ]
   for (const t of expenses) {
     const row = ws.addRow({
@@ -241,6 +250,7 @@ function buildExpensesSheet(wb: ExcelJS.Workbook, transactions: Transaction[]) {
       category: t.category,
       method: t.paymentMethod ?? '',
       notes: t.notes,
+      currency: t.currency ?? getCurrency(),
     })
     row.getCell(2).numFmt = MONEY_FMT
   }
@@ -272,6 +282,7 @@ function buildPaymentsSheet(
     { header: 'Amount', key: 'amount', width: 12 },
     { header: 'Method', key: 'method', width: 14 },
     { header: 'Notes', key: 'notes', width: 28 },
+    { header: 'Currency', key: 'currency', width: 10 },
   ]
   const sorted = [...payments].sort(
     (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
@@ -286,6 +297,7 @@ function buildPaymentsSheet(
       amount: p.amount,
       method: p.method ?? '',
       notes: p.notes ?? '',
+      currency: p.currency ?? getCurrency(),
     })
     row.getCell(4).numFmt = MONEY_FMT
   }
@@ -355,17 +367,201 @@ export async function exportAllToExcel(): Promise<void> {
   buildPaymentsSheet(wb, payments, clientMap, bookings)
   buildIncidentsSheet(wb, incidents, clientMap)
 
-  // Generate and download
+  await downloadWorkbook(wb, `companion-export-${new Date().toISOString().split('T')[0]}.xlsx`)
+}
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+async function downloadWorkbook(wb: ExcelJS.Workbook, filename: string): Promise<void> {
   const buffer = await wb.xlsx.writeBuffer()
-  const blob = new Blob([buffer], {
-    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  })
+  downloadBlob(new Blob([buffer], { type: XLSX_TYPE }), filename)
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
-  a.download = `companion-export-${new Date().toISOString().split('T')[0]}.xlsx`
+  a.download = filename
   document.body.appendChild(a)
   a.click()
   document.body.removeChild(a)
   URL.revokeObjectURL(url)
 }
+
+// ── Tax year summary ─────────────────────────────────────────────────────
+
+function buildTaxSummarySheet(wb: ExcelJS.Workbook, report: TaxYearReport) {
+  const { summary, estimate, schedule, payments } = report
+  const ws = wb.addWorksheet('Summary')
+  ws.columns = [
+    { header: 'Line', key: 'line', width: 44 },
+    { header: `Amount (${summary.currency})`, key: 'amount', width: 16 },
+  ]
+
+  const section = (title: string) => {
+    ws.addRow({})
+    const row = ws.addRow({ line: title })
+    row.font = { ...BODY_FONT, bold: true, color: { argb: 'FF7C3AED' } }
+  }
+  const line = (label: string, amount: number, total = false) => {
+    const row = ws.addRow({ line: label, amount })
+    row.getCell(2).numFmt = AMOUNT_FMT
+    row.font = { ...BODY_FONT, bold: total }
+    if (total) row.getCell(2).border = { top: { style: 'thin' } }
+  }
+
+  const headerRow = ws.getRow(1)
+  headerRow.font = HEADER_FONT
+  headerRow.fill = HEADER_FILL
+  headerRow.height = 24
+  ws.addRow({ line: `Tax year ${summary.label}: ${fmtDate(summary.start)} to ${fmtDate(summary.end)}` }).font = BODY_FONT
+
+  section('Income')
+  for (const i of summary.income) line(`${CATEGORY_LABELS[i.category]} (${i.count})`, i.amount)
+  line('Gross income', summary.grossIncome, true)
+
+  section('Deductible expenses')
+  for (const d of summary.deductions) line(d.line, d.amount)
+  line('Total deductions', summary.totalDeductions, true)
+
+  section('Net profit')
+  line('Gross income', summary.grossIncome)
+  line('Less deductible expenses', -summary.totalDeductions)
+  line('Taxable profit', summary.taxableProfit, true)
+
+  if (summary.nonDeductible.length > 0) {
+    section('Not deducted')
+    for (const n of summary.nonDeductible) line(CATEGORY_LABELS[n.category], n.amount)
+    line('Total not deducted', summary.totalNonDeductible, true)
+  }
+
+  const taxDue = estimate.elapsed >= 1 ? estimate.taxSoFar : estimate.projectedTax
+  section('Estimated tax')
+  line(report.method === 'brackets' ? 'Estimated tax (brackets)' : `Estimated tax (flat ${report.flatRate}%)`, taxDue)
+  for (const s of schedule) line(`Installment ${s.number}, due ${fmtDate(s.due)}`, s.paid)
+  for (const p of payments.filter(p => !p.installment)) line(`Other payment ${fmtDate(p.date)}`, p.amount)
+  line('Total paid', report.totalPaid, true)
+  line('Balance', taxDue - report.totalPaid, true)
+
+  if (summary.missingRates.length > 0) {
+    ws.addRow({})
+    ws.addRow({ line: `No exchange rate for ${summary.missingRates.join(', ')} — those amounts are not included` }).font = BODY_FONT
+  }
+}
+
+function buildTaxLedgerSheet(
+  wb: ExcelJS.Workbook,
+  report: TaxYearReport,
+  type: Transaction['type'],
+  receiptNames?: Map<string, string[]>,
+) {
+  const { summary } = report
+  const profile = readTaxProfile()
+  const rows = summary.transactions.filter(t => t.type === type)
+  const ws = wb.addWorksheet(type === 'income' ? 'Income' : 'Expenses')
+  ws.columns = [
+    { header: 'Date', key: 'date', width: 12 },
+    { header: 'Category', key: 'category', width: 12 },
+    ...(type === 'expense' ? [{ header: 'Deduction Line', key: 'line', width: 20 }] : []),
+    { header: `Amount (${summary.currency})`, key: 'amount', width: 14 },
+    { header: 'Original Amount', key: 'original', width: 14 },
+    { header: 'Currency', key: 'currency', width: 10 },
+    { header: 'Payment Method', key: 'method', width: 14 },
+    { header: 'Notes', key: 'notes', width: 32 },
+    ...(receiptNames ? [{ header: 'Receipt', key: 'receipt', width: 40 }] : []),
+  ]
+  const amountCol = type === 'expense' ? 4 : 3
+  for (const t of rows) {
+    const row = ws.addRow({
+      date: fmtDate(t.date),
+      category: CATEGORY_LABELS[t.category],
+      line: deductionLineFor(t.category, profile) ?? 'Not deductible',
+      amount: t.amount,
+      original: t.originalAmount,
+      currency: t.currency ?? getCurrency(),
+      method: t.paymentMethod ?? '',
+      notes: t.notes,
+      receipt: receiptNames?.get(t.id)?.join('\n') ?? '',
+    })
+    row.getCell(amountCol).numFmt = AMOUNT_FMT
+    row.getCell(amountCol + 1).numFmt = AMOUNT_FMT
+  }
+  if (rows.length > 0) {
+    const col = String.fromCharCode(64 + amountCol)
+    const totRow = ws.addRow({ date: 'TOTAL' })
+    totRow.getCell(amountCol).value = { formula: `SUM(${col}2:${col}${rows.length + 1})` } as ExcelJS.CellFormulaValue
+    totRow.getCell(amountCol).numFmt = AMOUNT_FMT
+    totRow.font = { ...BODY_FONT, bold: true }
+  }
+  styleSheet(ws, ws.columns.length)
+}
+
+function buildTaxPaymentsSheet(wb: ExcelJS.Workbook, report: TaxYearReport) {
+  const ws = wb.addWorksheet('Estimated Payments')
+  ws.columns = [
+    { header: 'Installment', key: 'number', width: 12 },
+    { header: 'Due', key: 'due', width: 12 },
+    { header: `Target (${report.summary.currency})`, key: 'target', width: 14 },
+    { header: `Paid (${report.summary.currency})`, key: 'paid', width: 14 },
+    { header: 'Status', key: 'status', width: 12 },
+    { header: 'Paid On', key: 'paidOn', width: 24 },
+  ]
+  for (const s of report.schedule) {
+    const row = ws.addRow({
+      number: s.number,
+      due: fmtDate(s.due),
+      target: s.target,
+      paid: s.paid,
+      status: s.status,
+      paidOn: report.payments.filter(p => p.installment === s.number).map(p => fmtDate(p.date)).join(', '),
+    })
+    row.getCell(3).numFmt = AMOUNT_FMT
+    row.getCell(4).numFmt = AMOUNT_FMT
+  }
+  for (const p of report.payments.filter(p => !p.installment)) {
+    const row = ws.addRow({ number: 'Other', paid: p.amount, status: 'paid', paidOn: fmtDate(p.date) })
+    row.getCell(4).numFmt = AMOUNT_FMT
+  }
+  styleSheet(ws, ws.columns.length)
+}
+
+/**
+ * Year-end workbook for an accountant: summary by deduction line, then the ledgers behind it.
+ * With `receipts`, downloads a zip instead: the workbook, the printable summary and a
+ * receipts/ folder, with each expense row naming its files. Returns the number of receipts
+ * bundled and skipped (unreadable while the app is locked).
+ */
+export async function exportTaxYearToExcel(
+  report: TaxYearReport,
+  options: { receipts?: boolean; businessName?: string } = {},
+): Promise<{ receipts: number; skipped: number }> {
+  const wb = new ExcelJS.Workbook()
+  wb.creator = 'Companion'
+  wb.created = new Date()
+  const label = report.summary.label
+
+  // File names carry the amount as entered, not the converted one
+  const expenses = report.summary.transactions
+    .filter(t => t.type === 'expense')
+    .map(t => ({ ...t, amount: t.originalAmount }))
+  const bundle = options.receipts ? await receiptZipEntries(expenses) : null
+
+  buildTaxSummarySheet(wb, report)
+  buildTaxLedgerSheet(wb, report, 'income')
+  buildTaxLedgerSheet(wb, report, 'expense', bundle?.names)
+  buildTaxPaymentsSheet(wb, report)
+
+  if (!bundle) {
+    await downloadWorkbook(wb, `companion-tax-${label}.xlsx`)
+    return { receipts: 0, skipped: 0 }
+  }
+
+  const buffer = await wb.xlsx.writeBuffer()
+  const zip = await createZip([
+    { name: `companion-tax-${label}.xlsx`, data: new Blob([buffer], { type: XLSX_TYPE }) },
+    { name: `companion-tax-${label}.html`, data: new TextEncoder().encode(taxYearReportHtml(report, options.businessName)) },
+    ...bundle.entries,
+  ])
+  downloadBlob(zip, `companion-tax-${label}.zip`)
+  return { receipts: bundle.entries.length, skipped: bundle.skipped }
+}
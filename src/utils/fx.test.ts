@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { db, createTransaction, CURRENCY_KEY } from '../db'
+import { lsKey } from '../hooks/useSettings'
+import { convertAmounts, createFxConverter, parseFxCsv } from './fx'
+import type { FxRate } from '../types'
+
+const rate = (base: string, quote: string, value: number, date: string): FxRate =>
+  ({ id: `${base}${quote}${date}`, base, quote, rate: value, date: new Date(`${date}T00:00:00`) })
+
+const on = (date: string) => new Date(`${date}T12:00:00`)
+
+describe('createFxConverter', () => {
+  const rates = [
+    rate('EUR', 'USD', 1.1, '2026-01-01'),
+    rate('EUR', 'USD', 1.2, '2026-03-01'),
+    rate('USD', 'CAD', 1.4, '2026-01-01'),
+  ]
+
+  it('uses the rate in force on the day, and the first rate before any', () => {
+    const fx = createFxConverter(rates, 'USD', 'USD')
+    expect(fx.convert(100, 'EUR', on('2026-02-15'))).toBeCloseTo(110)
+    expect(fx.convert(100, 'EUR', on('2026-03-01'))).toBeCloseTo(120)
+    expect(fx.convert(100, 'EUR', on('2025-06-01'))).toBeCloseTo(110)
+  })
+
+  it('inverts a pair entered the other way round', () => {
+    const fx = createFxConverter(rates, 'EUR', 'USD')
+    expect(fx.convert(120, 'USD', on('2026-04-01'))).toBeCloseTo(100)
+  })
+
+  it('hops through a shared currency when no pair connects them', () => {
+    const fx = createFxConverter(rates, 'CAD', 'USD')
+    expect(fx.convert(100, 'EUR', on('2026-02-15'))).toBeCloseTo(154)
+  })
+
+  it('treats an unset currency as home and leaves same-currency amounts alone', () => {
+    const fx = createFxConverter(rates, 'CAD', 'USD')
+    expect(fx.convert(10, undefined, on('2026-02-15'))).toBeCloseTo(14)
+    expect(fx.convert(10, 'CAD', on('2026-02-15'))).toBe(10)
+  })
+
+  it('returns null when no rate connects the currencies', () => {
+    const fx = createFxConverter(rates, 'USD', 'USD')
+    expect(fx.convert(100, 'GBP', on('2026-02-15'))).toBeNull()
+  })
+})
+
+describe('convertAmounts', () => {
+  it('converts rows, keeps the original and lists currencies without a rate', () => {
+    const fx = createFxConverter([rate('EUR', 'USD', 1.1, '2026-01-01')], 'USD', 'USD')
+    const rows = [
+      { amount: 100, currency: 'EUR', date: on('2026-02-01') },
+      { amount: 50, currency: 'USD', date: on('2026-02-01') },
+      { amount: 70, currency: 'GBP', date: on('2026-02-01') },
+    ]
+    const { rows: converted, missing } = convertAmounts(rows, r => r.date, fx)
+    expect(converted.map(r => r.amount)).toEqual([expect.closeTo(110), 50, 0])
+    expect(converted[0].originalAmount).toBe(100)
+    expect(missing).toEqual(['GBP'])
+  })
+})
+
+describe('parseFxCsv', () => {
+  it('reads rates, skipping the header, blanks and bad rows', () => {
+    const { rates, skipped } = parseFxCsv([
+      'date,base,quote,rate',
+      '2026-03-01,eur,USD,1.08',
+      '',
+      '2026-03-02;GBP;USD;1.27',
+      '2026-03-03,USD,USD,1',
+      '2026-13-45,EUR,USD,1.1',
+      '2026-03-04,EUR,USD,-2',
+    ].join('\n'))
+    expect(rates.map(r => `${r.base}/${r.quote} ${r.rate}`)).toEqual(['EUR/USD 1.08', 'GBP/USD 1.27'])
+    expect(skipped).toBe(3)
+  })
+})
+
+describe('currency stamping', () => {
+  beforeEach(async () => {
+    await db.transactions.clear()
+    localStorage.clear()
+  })
+
+  it('keeps the home currency a record was written in after the setting changes', async () => {
+    localStorage.setItem(lsKey(CURRENCY_KEY), JSON.stringify('CAD'))
+    const t = createTransaction({ amount: 50, type: 'income', category: 'booking', date: new Date() })
+    await db.transactions.add(t)
+    localStorage.setItem(lsKey(CURRENCY_KEY), JSON.stringify('EUR'))
+    expect((await db.transactions.get(t.id))?.currency).toBe('CAD')
+  })
+})
@@ -0,0 +1,194 @@
+import { isValid, parseISO } from 'date-fns'
+import { db, newId, getCurrency } from '../db'
+import type { FxRate } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MULTI-CURRENCY
+// Bookings, payments and transactions keep the amount in the currency they
+// were paid in (`currency`). Rows are stamped with the home currency when
+// written without one (db/index.ts), so changing it later doesn't
+// re-denominate history; unset is only a fallback. Reports convert to a
+// reporting currency with rates the user enters or imports — there is no
+// live rate service. A rate holds from its date until the pair's next rate;
+// an amount dated before a pair's first rate uses that first rate.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const SUPPORTED_CURRENCIES: { code: string; label: string }[] = [
+  { code: 'USD', label: 'USD — US Dollar ($)' },
+  { code: 'CAD', label: 'CAD — Canadian Dollar ($)' },
+  { code: 'AUD', label: 'AUD — Australian Dollar ($)' },
+  { code: 'NZD', label: 'NZD — New Zealand Dollar ($)' },
+  { code: 'GBP', label: 'GBP — British Pound (£)' },
+  { code: 'EUR', label: 'EUR — Euro (€)' },
+  { code: 'CHF', label: 'CHF — Swiss Franc (Fr)' },
+  { code: 'SEK', label: 'SEK — Swedish Krona (kr)' },
+  { code: 'NOK', label: 'NOK — Norwegian Krone (kr)' },
+  { code: 'DKK', label: 'DKK — Danish Krone (kr)' },
+  { code: 'JPY', label: 'JPY — Japanese Yen (¥)' },
+  { code: 'HKD', label: 'HKD — Hong Kong Dollar ($)' },
+  { code: 'SGD', label: 'SGD — Singapore Dollar ($)' },
+  { code: 'THB', label: 'THB — Thai Baht (฿)' },
+  { code: 'INR', label: 'INR — Indian Rupee (₹)' },
+  { code: 'AED', label: 'AED — UAE Dirham (د.إ)' },
+  { code: 'ZAR', label: 'ZAR — South African Rand (R)' },
+  { code: 'BRL', label: 'BRL — Brazilian Real (R$)' },
+  { code: 'MXN', label: 'MXN — Mexican Peso ($)' },
+  { code: 'COP', label: 'COP — Colombian Peso ($)' },
+  { code: 'ARS', label: 'ARS — Argentine Peso ($)' },
+  { code: 'CLP', label: 'CLP — Chilean Peso ($)' },
+]
+
+/** Codes for a currency picker, with `current` kept even when it isn't in the list */
+export function currencyOptions(current: string): string[] {
+  const codes = SUPPORTED_CURRENCIES.map(c => c.code)
+  return codes.includes(current) ? codes : [current, ...codes]
+}
+
+export function currencyLabel(code: string): string {
+  return SUPPORTED_CURRENCIES.find(c => c.code === code)?.label ?? code
+}
+
+/** localStorage key — the currency Finances totals are shown in; unset = home currency */
+export const REPORTING_CURRENCY_KEY = 'reportingCurrency'
+
+const CURRENCY_RE = /^[A-Z]{3}$/
+
+export function isCurrencyCode(code: string): boolean {
+  return CURRENCY_RE.test(code)
+}
+
+// ── Conversion ─────────────────────────────────────────────────────────
+
+export interface FxConverter {
+  /** Currency everything is converted to */
+  readonly to: string
+  /** `amount` in `from` (unset = home currency) on the given day, or null when no rate connects them */
+  convert(amount: number, from: string | undefined, on: Date): number | null
+}
+
+type RatePoint = { at: number; rate: number }
+
+/** Rate in force at `at`: the latest on or before it, else the earliest. */
+function rateAt(points: RatePoint[], at: number): number {
+  let lo = 0, hi = points.length - 1, found = 0
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (points[mid].at <= at) { found = mid; lo = mid + 1 } else hi = mid - 1
+  }
+  return points[found].rate
+}
+
+/**
+ * Build a converter to `to`. Uses a direct rate, the inverse of one, or —
+ * when neither exists — one hop through another currency (e.g. EUR → USD
+ * → CAD when only those two pairs were entered).
+ */
+export function createFxConverter(rates: FxRate[], to: string, home: string = getCurrency()): FxConverter {
+  const pairs = new Map<string, RatePoint[]>()
+  const neighbours = new Map<string, Set<string>>()
+  function addPoint(base: string, quote: string, at: number, rate: number) {
+    const key = `${base}/${quote}`
+    const points = pairs.get(key) ?? []
+    points.push({ at, rate })
+    pairs.set(key, points)
+    if (!neighbours.has(base)) neighbours.set(base, new Set())
+    neighbours.get(base)!.add(quote)
+  }
+  for (const r of rates) {
+    if (!(r.rate > 0) || r.base === r.quote) continue
+    const at = new Date(r.date).getTime()
+    addPoint(r.base, r.quote, at, r.rate)
+    addPoint(r.quote, r.base, at, 1 / r.rate)
+  }
+  for (const points of pairs.values()) points.sort((a, b) => a.at - b.at)
+
+  function direct(from: string, quote: string, at: number): number | null {
+    const points = pairs.get(`${from}/${quote}`)
+    return points ? rateAt(points, at) : null
+  }
+
+  return {
+    to,
+    convert(amount, from, on) {
+      const source = from || home
+      if (source === to || amount === 0) return amount
+      const at = on.getTime()
+      const rate = direct(source, to, at)
+      if (rate !== null) return amount * rate
+      for (const via of neighbours.get(source) ?? []) {
+        const second = direct(via, to, at)
+        if (second !== null) return amount * direct(source, via, at)! * second
+      }
+      return null
+    },
+  }
+}
+
+/**
+ * Copies of `rows` with `amount` in the converter's currency and the
+ * original kept in `originalAmount`. Rows with no usable rate count as 0 —
+ * their currencies are listed in `missing` so the page can say so.
+ */
+export function convertAmounts<T extends { amount: number; currency?: string }>(
+  rows: T[],
+  dateOf: (row: T) => Date,
+  fx: FxConverter,
+): { rows: (T & { originalAmount: number })[]; missing: string[] } {
+  const missing = new Set<string>()
+  const converted = rows.map(row => {
+    const amount = fx.convert(row.amount, row.currency, new Date(dateOf(row)))
+    if (amount === null) missing.add(row.currency || getCurrency())
+    return { ...row, amount: amount ?? 0, originalAmount: row.amount }
+  })
+  return { rows: converted, missing: [...missing].sort() }
+}
+
+// ── Rate table ─────────────────────────────────────────────────────────
+
+export interface ParsedFxCsv {
+  rates: Omit<FxRate, 'id'>[]
+  skipped: number
+}
+
+/**
+ * Read rates from CSV: `date,base,quote,rate` per line, e.g.
+ * `2026-03-01,EUR,USD,1.08`. A header row and blank lines are ignored;
+ * anything else that doesn't parse is counted in `skipped`.
+ */
+export function parseFxCsv(text: string): ParsedFxCsv {
+  const rates: Omit<FxRate, 'id'>[] = []
+  let skipped = 0
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.split(/[,;\t]/).map(c => c.trim().replace(/^"|"$/g, ''))
+    if (cells.every(c => c === '')) continue
+    if (/date/i.test(cells[0] ?? '')) continue
+    const [dateStr, base, quote, rateStr] = cells
+    const date = parseISO(dateStr ?? '')
+    const rate = parseFloat(rateStr ?? '')
+    const b = (base ?? '').toUpperCase()
+    const q = (quote ?? '').toUpperCase()
+    if (!isValid(date) || !isCurrencyCode(b) || !isCurrencyCode(q) || b === q || !(rate > 0)) {
+      skipped++
+      continue
+    }
+    rates.push({ base: b, quote: q, rate, date })
+  }
+  return { rates, skipped }
+}
+
+/** Save rates, replacing any already stored for the same pair and day. Returns how many were saved. */
+export async function saveFxRates(rates: Omit<FxRate, 'id'>[]): Promise<number> {
+  const dayKey = (r: Omit<FxRate, 'id'>) => `${r.base}/${r.quote}/${new Date(r.date).toDateString()}`
+  let saved = 0
+  await db.transaction('rw', db.fxRates, async () => {
+    const existing = new Map((await db.fxRates.toArray()).map(r => [dayKey(r), r.id]))
+    const rows = new Map<string, FxRate>()
+    for (const r of rates) {
+      const key = dayKey(r)
+      rows.set(key, { ...r, id: existing.get(key) ?? rows.get(key)?.id ?? newId() })
+    }
+    await db.fxRates.bulkPut([...rows.values()])
+    saved = rows.size
+  })
+  return saved
+}
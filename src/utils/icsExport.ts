@@ -1,6 +1,9 @@
-import type { Booking, IncallVenue } from '../types'
+import { addDays, addMinutes, format, startOfDay } from 'date-fns'
+import type { Booking, BookingStatus, DayAvailability, IncallVenue } from '../types'
 import type { Client } from '../types'
-import { bookingTotal, bookingDurationFormatted, formatCurrency } from '../db'
+import { db, bookingTotal, bookingDurationFormatted, formatCurrency } from '../db'
+import { resolveAvailability, openWindows } from './availability'
+import { isValidTimeZone, zoneAbbreviation, zoneOffset, zonedWallTime } from './timeZone'
 
 /** Format a Date to ICS UTC datetime: YYYYMMDDTHHMMSSZ */
 function toICSDate(d: Date): string {
@@ -14,6 +17,79 @@ function toICSDate(d: Date): string {
   return `${y}${mo}${day}T${h}${mi}${s}Z`
 }
 
+/** Format a wall time as ICS local datetime: YYYYMMDDTHHMMSS */
+function toICSLocal(wall: Date): string {
+  return format(wall, "yyyyMMdd'T'HHmmss")
+}
+
+/** Zones the events are written in, with the years they span (for VTIMEZONE) */
+type ZoneYears = Map<string, [number, number]>
+
+function noteZone(zones: ZoneYears, zone: string, at: Date): void {
+  const year = at.getUTCFullYear()
+  const span = zones.get(zone)
+  zones.set(zone, span ? [Math.min(span[0], year), Math.max(span[1], year)] : [year, year])
+}
+
+/** DTSTART/DTEND line: TZID-local when the event has a zone, else UTC. */
+function icsTime(prop: 'DTSTART' | 'DTEND', instant: Date, zone: string | undefined, zones: ZoneYears): string {
+  if (!zone || !isValidTimeZone(zone)) return foldLine(`${prop}:${toICSDate(instant)}`)
+  noteZone(zones, zone, instant)
+  return foldLine(`${prop};TZID=${zone}:${toICSLocal(zonedWallTime(instant, zone))}`)
+}
+
+/** Same as icsTime for a wall time already on `zone`'s clock */
+function icsWallTime(prop: 'DTSTART' | 'DTEND', wall: Date, zone: string | undefined, zones: ZoneYears): string {
+  if (!zone || !isValidTimeZone(zone)) return foldLine(`${prop}:${toICSDate(wall)}`)
+  noteZone(zones, zone, wall)
+  return foldLine(`${prop};TZID=${zone}:${toICSLocal(wall)}`)
+}
+
+/** "+0530", "-0500" */
+function icsOffset(minutes: number): string {
+  const abs = Math.abs(minutes)
+  return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`
+}
+
+/**
+ * VTIMEZONE for `zone` over the given years. Offset changes are found by
+ * scanning day by day and narrowing to the minute, then written as one
+ * observance each — no RRULEs, so there is nothing for a client to misread.
+ */
+function vtimezone(zone: string, [firstYear, lastYear]: [number, number]): string[] {
+  const from = Date.UTC(firstYear, 0, 1)
+  const to = Date.UTC(lastYear + 1, 0, 1)
+  const observance = (at: number, offsetFrom: number, offsetTo: number) => [
+    offsetTo > offsetFrom ? 'BEGIN:DAYLIGHT' : 'BEGIN:STANDARD',
+    // Onset is written on the clock in force before it
+    `DTSTART:${toICSLocal(new Date(at + (offsetFrom + new Date(at).getTimezoneOffset()) * 60000))}`,
+    `TZOFFSETFROM:${icsOffset(offsetFrom)}`,
+    `TZOFFSETTO:${icsOffset(offsetTo)}`,
+    foldLine(`TZNAME:${zoneAbbreviation(zone, new Date(at))}`),
+    offsetTo > offsetFrom ? 'END:DAYLIGHT' : 'END:STANDARD',
+  ]
+
+  const initial = zoneOffset(from, zone)
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${zone}`, ...observance(from, initial, initial)]
+  let offset = initial
+  for (let day = from + 86400000; day <= to; day += 86400000) {
+    const next = zoneOffset(day, zone)
+    if (next === offset) continue
+    // Narrow the change down to the minute
+    let lo = day - 86400000
+    let hi = day
+    while (hi - lo > 60000) {
+      const mid = lo + Math.floor((hi - lo) / 120000) * 60000
+      if (zoneOffset(mid, zone) === offset) lo = mid
+      else hi = mid
+    }
+    lines.push(...observance(hi, offset, next))
+    offset = next
+  }
+  lines.push('END:VTIMEZONE')
+  return lines
+}
+
 /** Escape special chars per RFC 5545 */
 function icsEscape(text: string): string {
   return text
@@ -35,56 +111,190 @@ function foldLine(line: string): string {
   return parts.join('\r\n')
 }
 
-/** Generate an ICS VCALENDAR string for a booking */
-export function generateICS(booking: Booking, client?: Client, venue?: IncallVenue): string {
+export interface ICSOptions {
+  /** Neutral titles ("Appointment"), no client names, addresses, amounts or notes */
+  privacy?: boolean
+  /** Reminder before each booking; 0 = none (default 30) */
+  alarmMinutes?: number
+}
+
+const ICS_STATUS: Record<BookingStatus, 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'> = {
+  'To Be Confirmed': 'TENTATIVE',
+  'Pending Deposit': 'TENTATIVE',
+  'Confirmed': 'CONFIRMED',
+  'In Progress': 'CONFIRMED',
+  'Completed': 'CONFIRMED',
+  'Cancelled': 'CANCELLED',
+  'No Show': 'CANCELLED',
+}
+
+/** VEVENT lines for a booking. The UID is the booking id, so re-imports update the same event. */
+function bookingEvent(
+  booking: Booking,
+  client: Client | undefined,
+  venue: IncallVenue | undefined,
+  options: ICSOptions,
+  now: Date,
+  zones: ZoneYears
+): string[] {
   const start = new Date(booking.dateTime)
   const end = new Date(start.getTime() + booking.duration * 60000)
-  const now = new Date()
+  const status = ICS_STATUS[booking.status]
+  const alarmMinutes = options.alarmMinutes ?? 30
 
-  const summary = client ? `Booking \u2014 ${client.alias}` : 'Booking'
-  const location = venue?.address || booking.locationAddress || ''
+  const summary = options.privacy ? 'Appointment' : client ? `Booking — ${client.alias}` : 'Booking'
+  const location = options.privacy ? '' : venue?.address || booking.locationAddress || ''
 
   const descParts: string[] = []
   descParts.push(`Duration: ${bookingDurationFormatted(booking.duration)}`)
-  descParts.push(`Type: ${booking.locationType}`)
-  descParts.push(`Total: ${formatCurrency(bookingTotal(booking))}`)
-  if (booking.notes) descParts.push(`Notes: ${booking.notes}`)
+  if (!options.privacy) {
+    descParts.push(`Type: ${booking.locationType}`)
+    descParts.push(`Total: ${formatCurrency(bookingTotal(booking), booking.currency)}`)
+    if (booking.notes) descParts.push(`Notes: ${booking.notes}`)
+  }
   const description = descParts.join('\n')
 
-  const lines = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//Companion//Booking//EN',
+  return [
     'BEGIN:VEVENT',
     foldLine(`UID:${booking.id}@companion`),
     foldLine(`DTSTAMP:${toICSDate(now)}`),
-    foldLine(`DTSTART:${toICSDate(start)}`),
-    foldLine(`DTEND:${toICSDate(end)}`),
+    // Calendars only apply a cancellation that outranks the event they already have
+    `SEQUENCE:${status === 'CANCELLED' ? 1 : 0}`,
+    // On the booking's own clock, so the event stays put when the device changes zone
+    icsTime('DTSTART', start, booking.timeZone, zones),
+    icsTime('DTEND', end, booking.timeZone, zones),
     foldLine(`SUMMARY:${icsEscape(summary)}`),
+    `STATUS:${status}`,
     ...(location ? [foldLine(`LOCATION:${icsEscape(location)}`)] : []),
     foldLine(`DESCRIPTION:${icsEscape(description)}`),
-    'BEGIN:VALARM',
-    'TRIGGER:-PT30M',
-    'ACTION:DISPLAY',
-    foldLine(`DESCRIPTION:${icsEscape(summary)} in 30 minutes`),
-    'END:VALARM',
+    ...(alarmMinutes > 0 && status !== 'CANCELLED' ? [
+      'BEGIN:VALARM',
+      `TRIGGER:-PT${alarmMinutes}M`,
+      'ACTION:DISPLAY',
+      foldLine(`DESCRIPTION:${icsEscape(summary)} in ${alarmMinutes} minutes`),
+      'END:VALARM',
+    ] : []),
+    'END:VEVENT',
+  ]
+}
+
+/** VEVENT lines for a day's availability: open windows, or an all-day Busy/Off block. */
+function availabilityEvents(avail: DayAvailability, now: Date, zones: ZoneYears): string[] {
+  const day = startOfDay(new Date(avail.date))
+  const dayKey = format(day, 'yyyyMMdd')
+  const event = (uid: string, summary: string, times: string[], transparent: boolean) => [
+    'BEGIN:VEVENT',
+    foldLine(`UID:avail-${dayKey}-${uid}@companion`),
+    foldLine(`DTSTAMP:${toICSDate(now)}`),
+    ...times,
+    foldLine(`SUMMARY:${summary}`),
+    `TRANSP:${transparent ? 'TRANSPARENT' : 'OPAQUE'}`,
     'END:VEVENT',
-    'END:VCALENDAR',
   ]
 
-  return lines.join('\r\n')
+  if (avail.status === 'Busy' || avail.status === 'Off') {
+    // All-day blocks are floating dates — they stay on the right day in any time zone
+    const allDay = [`DTSTART;VALUE=DATE:${dayKey}`, `DTEND;VALUE=DATE:${format(addDays(day, 1), 'yyyyMMdd')}`]
+    return event('day', avail.status, allDay, avail.status === 'Off')
+  }
+  // Window times are on the clock of the zone the day is set to
+  return openWindows(avail).flatMap(([start, end], i) => event(String(i), 'Available', [
+    icsWallTime('DTSTART', addMinutes(day, start), avail.timeZone, zones),
+    icsWallTime('DTEND', addMinutes(day, end), avail.timeZone, zones),
+  ], true))
 }
 
-/** Download an ICS file for a booking */
-export function downloadICS(booking: Booking, client?: Client, venue?: IncallVenue): void {
-  const ics = generateICS(booking, client, venue)
+function wrapCalendar(events: string[], zones: ZoneYears, name?: string): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Companion//Booking//EN',
+    ...(name ? [
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      foldLine(`X-WR-CALNAME:${icsEscape(name)}`),
+      // Hint for subscribed calendars; most clients poll less often regardless
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+    ] : []),
+    ...[...zones].flatMap(([zone, years]) => vtimezone(zone, years)),
+    ...events,
+    'END:VCALENDAR',
+  ].join('\r\n')
+}
+
+/** Generate an ICS VCALENDAR string for a booking */
+export function generateICS(booking: Booking, client?: Client, venue?: IncallVenue, options: ICSOptions = {}): string {
+  const zones: ZoneYears = new Map()
+  const event = bookingEvent(booking, client, venue, options, new Date(), zones)
+  return wrapCalendar(event, zones)
+}
+
+function downloadCalendarFile(ics: string, filename: string): void {
   const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' })
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
-  a.download = `booking-${booking.id.slice(0, 12)}.ics`
+  a.download = filename
   document.body.appendChild(a)
   a.click()
   document.body.removeChild(a)
   URL.revokeObjectURL(url)
 }
+
+/** Download an ICS file for a booking */
+export function downloadICS(booking: Booking, client?: Client, venue?: IncallVenue, options?: ICSOptions): void {
+  downloadCalendarFile(generateICS(booking, client, venue, options), `booking-${booking.id.slice(0, 12)}.ics`)
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// FULL CALENDAR
+// Every upcoming booking (cancelled ones included, as STATUS:CANCELLED, so
+// a calendar that already has them removes them) plus availability for the
+// next few weeks. Used for the one-off export and the subscription feed.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** How far ahead availability blocks are written */
+export const CALENDAR_AVAILABILITY_DAYS = 60
+
+export interface CalendarICSOptions extends ICSOptions {
+  includeAvailability?: boolean
+}
+
+export async function generateCalendarICS(options: CalendarICSOptions = {}): Promise<string> {
+  const now = new Date()
+  const today = startOfDay(now)
+  const horizon = addDays(today, CALENDAR_AVAILABILITY_DAYS)
+  const [bookings, clients, venues, overrides, templates] = await Promise.all([
+    db.bookings.where('dateTime').aboveOrEqual(today).sortBy('dateTime'),
+    options.privacy ? Promise.resolve([]) : db.clients.toArray(),
+    options.privacy ? Promise.resolve([]) : db.incallVenues.toArray(),
+    options.includeAvailability ? db.availability.where('date').between(today, horizon, true, false).toArray() : Promise.resolve([]),
+    options.includeAvailability ? db.availabilityTemplates.toArray() : Promise.resolve([]),
+  ])
+  const clientMap = new Map(clients.map(c => [c.id, c]))
+  const venueMap = new Map(venues.map(v => [v.id, v]))
+  const zones: ZoneYears = new Map()
+
+  const events = bookings.flatMap(b => bookingEvent(
+    b,
+    b.clientId ? clientMap.get(b.clientId) : undefined,
+    b.venueId ? venueMap.get(b.venueId) : undefined,
+    options,
+    now,
+    zones,
+  ))
+  if (options.includeAvailability) {
+    for (let day = today; day < horizon; day = addDays(day, 1)) {
+      const avail = resolveAvailability(day, overrides, templates)
+      if (avail) events.push(...availabilityEvents(avail, now, zones))
+    }
+  }
+  return wrapCalendar(events, zones, options.privacy ? 'Appointments' : 'Companion Bookings')
+}
+
+/** Download the full calendar as one .ics file */
+export async function downloadCalendarICS(options?: CalendarICSOptions): Promise<void> {
+  const ics = await generateCalendarICS(options)
+  downloadCalendarFile(ics, `calendar-${format(new Date(), 'yyyy-MM-dd')}.ics`)
+}
@@ -0,0 +1,403 @@
+import { addDays, addYears, differenceInCalendarDays, endOfDay, startOfDay } from 'date-fns'
+import { db, newId } from '../db'
+import { parseRRule, occurrences } from './recurrence'
+import { isValidTimeZone, wallTimeToInstant } from './timeZone'
+import type { BlockedTime } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CALENDAR IMPORT
+// Personal events from another calendar (.ics export from Google, Apple,
+// Outlook …) become blocked time. Everything is parsed on the device:
+//   - folded lines, escaped text, TZID / UTC / floating / all-day times
+//   - RRULE (DAILY, WEEKLY, MONTHLY, YEARLY) with COUNT / UNTIL, EXDATE,
+//     and moved or cancelled occurrences (RECURRENCE-ID)
+//   - free (TRANSP:TRANSPARENT) and cancelled events are skipped
+// Only occurrences from today to IMPORT_HORIZON_DAYS ahead are kept.
+// Each import is a source, named after the calendar; importing it again
+// updates rows by UID and drops events no longer in the file.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** How far ahead recurring events are expanded */
+export const IMPORT_HORIZON_DAYS = 365
+
+/** Guards against a runaway file — far more than any real calendar has in a year */
+const MAX_IMPORTED_EVENTS = 5000
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/** A date-time as written: wall-clock fields in a local Date, plus the zone they're in. */
+interface ICSTime {
+  wall: Date
+  /** IANA zone, 'UTC', or null for floating (device-local) times and all-day dates */
+  zone: string | null
+  allDay: boolean
+}
+
+interface RawEvent {
+  props: Map<string, ContentLine>
+  exdates: ContentLine[]
+}
+
+export type ImportedEvent = Pick<BlockedTime, 'uid' | 'title' | 'location' | 'start' | 'end' | 'allDay'>
+
+export interface ParsedCalendar {
+  name?: string
+  events: ImportedEvent[]
+}
+
+// ── Lines ───────────────────────────────────────────────────────────────
+
+function parseLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter
+  let i = 0
+  let quoted = false
+  for (; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted
+    else if (line[i] === ':' && !quoted) break
+  }
+  if (i >= line.length) return null
+  const [name, ...paramParts] = line.slice(0, i).split(';')
+  const params: Record<string, string> = {}
+  for (const part of paramParts) {
+    const eq = part.indexOf('=')
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '')
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(i + 1) }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c)).trim()
+}
+
+// ── Time zones ──────────────────────────────────────────────────────────
+
+// Outlook and Exchange write Windows zone names
+const WINDOWS_ZONES: Record<string, string> = {
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Central Standard Time': 'America/Chicago',
+  'Eastern Standard Time': 'America/New_York',
+  'Atlantic Standard Time': 'America/Halifax',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'FLE Standard Time': 'Europe/Kiev',
+  'Russian Standard Time': 'Europe/Moscow',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'E. Australia Standard Time': 'Australia/Brisbane',
+  'New Zealand Standard Time': 'Pacific/Auckland',
+  'UTC': 'UTC',
+}
+
+/** IANA zone for a TZID, or null when the browser doesn't know it (treated as device time). */
+function resolveZone(tzid: string | undefined): string | null {
+  if (!tzid) return null
+  const name = WINDOWS_ZONES[tzid] ?? tzid
+  if (isValidTimeZone(name)) return name
+  // Some exporters prefix the zone with a path: /mozilla.org/20050126_1/America/New_York
+  const segments = name.split('/').filter(Boolean)
+  for (let i = 1; i < segments.length - 1; i++) {
+    const candidate = segments.slice(i).join('/')
+    if (isValidTimeZone(candidate)) return candidate
+  }
+  return null
+}
+
+function toInstant({ wall, zone }: ICSTime): Date {
+  return zone ? wallTimeToInstant(wall, zone) : wall
+}
+
+// ── Values ──────────────────────────────────────────────────────────────
+
+function parseTimeValue(value: string, params: Record<string, string>): ICSTime | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim())
+  if (!m) return null
+  const wall = new Date(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0))
+  if (isNaN(wall.getTime())) return null
+  if (!m[4]) return { wall, zone: null, allDay: true }
+  return { wall, zone: m[7] ? 'UTC' : resolveZone(params.TZID), allDay: false }
+}
+
+function parseTime(line: ContentLine | undefined): ICSTime | null {
+  return line ? parseTimeValue(line.value, line.params) : null
+}
+
+/** RFC 5545 DURATION → whole days plus exact milliseconds */
+function parseDuration(value: string): { days: number; ms: number } | null {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!m) return null
+  const sign = m[1] === '-' ? -1 : 1
+  const days = (+(m[2] ?? 0) * 7 + +(m[3] ?? 0)) * sign
+  const ms = ((+(m[4] ?? 0) * 60 + +(m[5] ?? 0)) * 60 + +(m[6] ?? 0)) * 1000 * sign
+  return { days, ms }
+}
+
+// ── Recurrence ──────────────────────────────────────────────────────────
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+/**
+ * Wall-clock start times of a rule up to `to`. WEEKLY and MONTHLY go through
+ * the booking recurrence engine; DAILY and YEARLY are simple steps. Parts the
+ * engine can't follow fall back to the first occurrence only.
+ */
+function expandRule(value: string, dtstart: Date, to: Date): Date[] {
+  const parts = new Map(value.split(';').map(p => p.split('=') as [string, string]))
+  const freq = parts.get('FREQ')
+
+  if (freq === 'WEEKLY' || freq === 'MONTHLY') {
+    const rule = parseRRule(value)
+    if (!rule || (rule.byMonthDay !== undefined && rule.byMonthDay < 1)) return [dtstart]
+    if (rule.freq === 'MONTHLY' && rule.byWeekday?.length && !rule.setPos) {
+      const setPos = parseInt(parts.get('BYSETPOS') ?? '')
+      if (setPos) rule.setPos = setPos
+      // "Every Monday" of every month is just weekly
+      else if (rule.interval === 1) rule.freq = 'WEEKLY'
+      else return [dtstart]
+    }
+    return occurrences(rule, dtstart, to)
+  }
+  if (freq !== 'DAILY' && freq !== 'YEARLY') return [dtstart]
+
+  const interval = Math.max(1, parseInt(parts.get('INTERVAL') ?? '1') || 1)
+  const count = parseInt(parts.get('COUNT') ?? '') || 0
+  const until = parts.get('UNTIL') ? parseTimeValue(parts.get('UNTIL')!, {}) : null
+  const last = until && endOfDay(until.wall) < to ? endOfDay(until.wall) : to
+  const byDay = parts.get('BYDAY')
+    ? new Set(parts.get('BYDAY')!.split(',').map(d => RRULE_DAYS.indexOf(d.slice(-2))))
+    : null
+
+  const result: Date[] = []
+  for (let step = 0, emitted = 0; step < 20000; step++) {
+    const d = freq === 'DAILY' ? addDays(dtstart, step * interval) : addYears(dtstart, step * interval)
+    if (d > last || (count && emitted >= count)) break
+    if (byDay && !byDay.has(d.getDay())) continue
+    emitted++
+    result.push(d)
+  }
+  return result
+}
+
+// ── Events ──────────────────────────────────────────────────────────────
+
+function eventText(event: RawEvent, name: string): string | undefined {
+  const line = event.props.get(name)
+  return line ? unescapeText(line.value) || undefined : undefined
+}
+
+function isBusy(event: RawEvent): boolean {
+  return eventText(event, 'STATUS')?.toUpperCase() !== 'CANCELLED'
+    && eventText(event, 'TRANSP')?.toUpperCase() !== 'TRANSPARENT'
+}
+
+/** Start and end of one event (or one occurrence starting at `start`). */
+function eventSpan(event: RawEvent, start: ICSTime): { start: Date; end: Date } | null {
+  const dtstart = parseTime(event.props.get('DTSTART'))!
+  const dtend = parseTime(event.props.get('DTEND'))
+  const duration = event.props.get('DURATION') ? parseDuration(event.props.get('DURATION')!.value) : null
+
+  if (start.allDay) {
+    let days = 1
+    if (dtend) days = differenceInCalendarDays(dtend.wall, dtstart.wall)
+    else if (duration) days = duration.days
+    return { start: start.wall, end: addDays(start.wall, Math.max(1, days)) }
+  }
+  let lengthMs = 0
+  if (dtend) lengthMs = toInstant(dtend).getTime() - toInstant(dtstart).getTime()
+  else if (duration) lengthMs = addDays(dtstart.wall, duration.days).getTime() - dtstart.wall.getTime() + duration.ms
+  // Zero-length events (reminders, deadlines) don't take up any time
+  if (lengthMs <= 0) return null
+  const instant = toInstant(start)
+  return { start: instant, end: new Date(instant.getTime() + lengthMs) }
+}
+
+function toImported(event: RawEvent, uid: string, span: { start: Date; end: Date }, allDay: boolean): ImportedEvent {
+  return {
+    uid,
+    title: eventText(event, 'SUMMARY') ?? 'Busy',
+    location: eventText(event, 'LOCATION'),
+    start: span.start,
+    end: span.end,
+    allDay,
+  }
+}
+
+/** Every busy occurrence of one UID that overlaps [from, to). */
+function expandEvent(master: RawEvent | undefined, overrides: RawEvent[], uid: string, from: Date, to: Date): ImportedEvent[] {
+  const result: ImportedEvent[] = []
+  const inWindow = (span: { start: Date; end: Date }) => span.end > from && span.start < to
+
+  // Moved or cancelled occurrences, keyed by the start they replace
+  const overrideAt = new Map<number, RawEvent>()
+  for (const o of overrides) {
+    const recurrenceId = parseTime(o.props.get('RECURRENCE-ID'))
+    if (recurrenceId) overrideAt.set(toInstant(recurrenceId).getTime(), o)
+  }
+
+  const dtstart = master ? parseTime(master.props.get('DTSTART')) : null
+  const rrule = master?.props.get('RRULE')?.value
+  if (master && dtstart) {
+    if (!rrule) {
+      const span = eventSpan(master, dtstart)
+      if (span && isBusy(master) && inWindow(span)) result.push(toImported(master, uid, span, dtstart.allDay))
+    } else {
+      const excluded = new Set(master.exdates.flatMap(line => line.value.split(',')
+        .map(v => parseTimeValue(v, line.params))
+        .filter((t): t is ICSTime => !!t)
+        .map(t => toInstant(t).getTime())))
+      const untilValue = rrule.split(';').find(p => p.startsWith('UNTIL='))?.slice(6)
+      const until = untilValue ? parseTimeValue(untilValue, {}) : null
+      const untilMs = until ? (until.allDay ? endOfDay(until.wall) : toInstant({ ...until, zone: until.zone ?? dtstart.zone })).getTime() : Infinity
+
+      for (const wall of expandRule(rrule, dtstart.wall, addDays(to, 2))) {
+        const occurrence: ICSTime = { ...dtstart, wall }
+        const key = toInstant(occurrence).getTime()
+        if (key > untilMs || excluded.has(key)) continue
+        const override = overrideAt.get(key)
+        overrideAt.delete(key)
+        const source = override ?? master
+        const start = override ? parseTime(override.props.get('DTSTART')) : occurrence
+        if (!start || !isBusy(source)) continue
+        const span = eventSpan(source, start)
+        if (span && inWindow(span)) result.push(toImported(source, `${uid}#${new Date(key).toISOString()}`, span, start.allDay))
+      }
+    }
+  }
+
+  // Overrides whose original slot the rule no longer produces still happen
+  for (const [key, override] of overrideAt) {
+    const start = parseTime(override.props.get('DTSTART'))
+    if (!start || !isBusy(override)) continue
+    const span = eventSpan(override, start)
+    if (span && inWindow(span)) result.push(toImported(override, `${uid}#${new Date(key).toISOString()}`, span, start.allDay))
+  }
+  return result
+}
+
+/**
+ * Busy events of an .ics file overlapping [from, to), recurring ones expanded.
+ * Returns null when the text isn't a calendar.
+ */
+export function parseICS(text: string, from: Date, to: Date): ParsedCalendar | null {
+  // Unfold continuation lines (CRLF or LF followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  if (!lines.some(l => l.trim().toUpperCase() === 'BEGIN:VCALENDAR')) return null
+
+  let name: string | undefined
+  const byUid = new Map<string, { master?: RawEvent; overrides: RawEvent[] }>()
+  const stack: string[] = []
+  let current: RawEvent | null = null
+
+  for (const raw of lines) {
+    const line = parseLine(raw)
+    if (!line) continue
+    if (line.name === 'BEGIN') {
+      stack.push(line.value.toUpperCase())
+      if (line.value.toUpperCase() === 'VEVENT') current = { props: new Map(), exdates: [] }
+      continue
+    }
+    if (line.name === 'END') {
+      const ended = stack.pop()
+      if (ended === 'VEVENT' && current) {
+        const uid = current.props.get('UID')?.value.trim()
+        if (uid && current.props.has('DTSTART')) {
+          const entry = byUid.get(uid) ?? { overrides: [] }
+          if (current.props.has('RECURRENCE-ID')) entry.overrides.push(current)
+          else entry.master = current
+          byUid.set(uid, entry)
+        }
+        current = null
+      }
+      continue
+    }
+    const top = stack[stack.length - 1]
+    if (top === 'VCALENDAR' && line.name === 'X-WR-CALNAME') name = unescapeText(line.value) || undefined
+    // Properties of nested components (VALARM) don't belong to the event
+    if (top !== 'VEVENT' || !current) continue
+    if (line.name === 'EXDATE') current.exdates.push(line)
+    else if (!current.props.has(line.name)) current.props.set(line.name, line)
+  }
+
+  const events: ImportedEvent[] = []
+  for (const [uid, { master, overrides }] of byUid) {
+    events.push(...expandEvent(master, overrides, uid, from, to))
+    if (events.length > MAX_IMPORTED_EVENTS) break
+  }
+  return { name, events: events.slice(0, MAX_IMPORTED_EVENTS) }
+}
+
+// ── Storage ─────────────────────────────────────────────────────────────
+
+export interface CalendarImportResult {
+  source: string
+  added: number
+  updated: number
+  removed: number
+}
+
+function sameEvent(a: ImportedEvent, b: BlockedTime): boolean {
+  return a.title === b.title && (a.location ?? '') === (b.location ?? '') && a.allDay === b.allDay
+    && a.start.getTime() === new Date(b.start).getTime() && a.end.getTime() === new Date(b.end).getTime()
+}
+
+/**
+ * Import an .ics file as blocked time. Rows are matched by UID within the
+ * source, so importing an updated export of the same calendar edits, adds
+ * and removes events instead of duplicating them. Unchanged rows aren't
+ * rewritten (and so aren't re-synced).
+ */
+export async function importCalendarFile(file: File): Promise<CalendarImportResult> {
+  const from = startOfDay(new Date())
+  const calendar = parseICS(await file.text(), from, addDays(from, IMPORT_HORIZON_DAYS))
+  if (!calendar) throw new Error('This file is not a calendar (.ics)')
+  const source = calendar.name || file.name.replace(/\.ics$/i, '').trim() || 'Imported calendar'
+  const now = new Date()
+  const result: CalendarImportResult = { source, added: 0, updated: 0, removed: 0 }
+
+  await db.transaction('rw', db.blockedTimes, async () => {
+    const existing = new Map((await db.blockedTimes.where('source').equals(source).toArray()).map(b => [b.uid, b]))
+    const changed: BlockedTime[] = []
+    const seen = new Set<string>()
+    for (const event of calendar.events) {
+      if (seen.has(event.uid)) continue
+      seen.add(event.uid)
+      const current = existing.get(event.uid)
+      if (current && sameEvent(event, current)) continue
+      if (current) result.updated++
+      else result.added++
+      changed.push({ ...event, id: current?.id ?? newId(), source, importedAt: now })
+    }
+    const stale = [...existing.values()].filter(b => !seen.has(b.uid)).map(b => b.id)
+    result.removed = stale.length
+    if (changed.length) await db.blockedTimes.bulkPut(changed)
+    if (stale.length) await db.blockedTimes.bulkDelete(stale)
+  })
+  return result
+}
+
+/** Forget an imported calendar and all its blocked time. */
+export async function removeCalendarSource(source: string): Promise<number> {
+  return db.blockedTimes.where('source').equals(source).delete()
+}
+
+/** Imported time overlapping [start, end), earliest first. */
+export async function blockedTimesBetween(start: Date, end: Date): Promise<BlockedTime[]> {
+  const candidates = await db.blockedTimes.where('start').below(end).toArray()
+  return candidates
+    .filter(b => new Date(b.end) > start)
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+}
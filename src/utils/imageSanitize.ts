@@ -0,0 +1,87 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Image sanitizing — metadata strip, downscale, redaction
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Screening photos are decoded and redrawn onto a canvas, then re-encoded.
+// Only pixels survive the round trip: EXIF (GPS, camera, timestamps), XMP
+// and embedded thumbnails are all dropped. EXIF orientation is applied while
+// decoding so the saved image still displays upright without its tag.
+// Redaction boxes are painted solid black into the pixels — nothing under
+// them can be recovered from the saved file.
+
+/** A redaction box in normalized image coordinates (0–1, origin top-left). */
+export interface RedactionRect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export interface SanitizeOptions {
+  /** Longest edge in pixels; 0 keeps the original resolution. */
+  maxDimension?: number
+  redactions?: RedactionRect[]
+}
+
+export const SCREENING_MAX_DIMENSION_KEY = 'screeningMaxDimension'
+export const DEFAULT_SCREENING_MAX_DIMENSION = 2048
+export const MAX_DIMENSION_OPTIONS = [0, 2048, 1280] as const
+
+const JPEG_QUALITY = 0.9
+
+/** Output dimensions after capping the longest edge at `maxDimension`. */
+function scaledSize(width: number, height: number, maxDimension = 0): { width: number; height: number } {
+  const longest = Math.max(width, height)
+  if (!maxDimension || longest <= maxDimension) return { width, height }
+  const scale = maxDimension / longest
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+}
+
+/**
+ * Re-encode an image without metadata, optionally downscaled and with
+ * redaction boxes burned in. PNGs stay PNG (transparency, screenshots of
+ * text); everything else becomes JPEG.
+ */
+export async function sanitizeImage(file: Blob, options: SanitizeOptions = {}): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  try {
+    const { width, height } = scaledSize(bitmap.width, bitmap.height, options.maxDimension)
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas is not available')
+
+    const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg'
+    if (type === 'image/jpeg') {
+      // JPEG has no alpha — flatten onto white instead of black
+      ctx.fillStyle = '#fff'
+      ctx.fillRect(0, 0, width, height)
+    }
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(bitmap, 0, 0, width, height)
+
+    ctx.fillStyle = '#000'
+    for (const r of options.redactions ?? []) {
+      // Round outward so a box never leaves a sliver of the original edge
+      const x0 = Math.floor(r.x * width), y0 = Math.floor(r.y * height)
+      const x1 = Math.ceil((r.x + r.w) * width), y1 = Math.ceil((r.y + r.h) * height)
+      ctx.fillRect(x0, y0, x1 - x0, y1 - y0)
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, JPEG_QUALITY))
+    // Release the canvas backing store right away (iOS caps total canvas memory)
+    canvas.width = 0
+    canvas.height = 0
+    if (!blob) throw new Error('Could not encode image')
+    return blob
+  } finally {
+    bitmap.close()
+  }
+}
+
+/** Filename for a re-encoded image: "id.HEIC" → "id.jpg". */
+export function sanitizedFilename(filename: string, type: string): string {
+  const ext = type === 'image/png' ? 'png' : 'jpg'
+  const base = filename.replace(/\.[^./]+$/, '') || 'image'
+  return `${base}.${ext}`
+}
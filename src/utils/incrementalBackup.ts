@@ -0,0 +1,388 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Incremental & scheduled backups
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// A chain is one full base snapshot followed by deltas that carry only the
+// records added/changed since the previous archive plus the ids deleted.
+// Change detection compares per-record content hashes against the hashes
+// remembered when the last archive was written (db.meta 'backup_chain').
+//
+// Scheduled backups re-use the user's backup password via a non-extractable
+// AES key kept in IndexedDB, so every archive decrypts with the normal
+// password restore flow.
+
+import { db, newId } from '../db'
+import { lsKey } from '../hooks/useSettings'
+import { recordBackupTimestamp } from '../hooks/useBackupReminder'
+import { excludeFromHistory } from '../db/revisions'
+import { openDocRecord, type DocLike } from '../db/docCrypto'
+import {
+  CURRENT_BACKUP_VERSION, createBackup, restoreBackup, prepareBackupTables, sealBackupDocs, restoreProfile,
+  deriveKey, encryptDataWithKey, blobToBase64, downloadFile,
+  PROFILE_LS_KEYS, BACKUP_TABLES, type BackupPayload, type BackupTables, type BackupTableName,
+} from './backup'
+
+/** Start a fresh base snapshot after this many deltas to keep chains short. */
+const MAX_DELTAS_PER_CHAIN = 12
+
+export const AUTO_BACKUP_ENABLED_KEY = 'autoBackupEnabled'
+
+const CHAIN_META_KEY = 'backup_chain'
+const AUTO_KEY_META_KEY = 'auto_backup_key'
+const FOLDER_META_KEY = 'auto_backup_folder'
+
+const BLOB_TABLES: BackupTableName[] = ['screeningDocs', 'venueDocs', 'receipts']
+
+interface ChainState {
+  chainId: string
+  seq: number
+  lastArchiveId: string
+  baseCreated: string
+  lastCreated: string
+  hashes: Partial<Record<BackupTableName, Record<string, string>>>
+}
+
+export interface ChainSummary {
+  seq: number
+  baseCreated: string
+  lastCreated: string
+}
+
+export interface PreparedArchive {
+  payload: BackupPayload
+  /** Added + changed + deleted records carried by this archive. */
+  changes: number
+  commit: () => Promise<void>
+}
+
+// ── Change detection ───────────────────────────────────────────────────
+
+/** cyrb53 — fast, non-cryptographic 53-bit string hash. Only used for change detection. */
+function hashString(str: string): string {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+function hashRecord(record: Record<string, unknown>): string {
+  // Blobs stringify to {} — hash their size/type instead of reading the bytes
+  if (record.data instanceof Blob) {
+    return hashString(JSON.stringify({ ...record, data: `${record.data.size}:${record.data.type}` }))
+  }
+  return hashString(JSON.stringify(record))
+}
+
+async function serializeDocs(records: Record<string, unknown>[]): Promise<unknown[]> {
+  return Promise.all(records.map(async raw => {
+    // Sealed blobs are opened — archives carry documents in plaintext
+    const doc = raw.data instanceof Blob ? await openDocRecord(raw as Record<string, unknown> & DocLike) : raw
+    return {
+      ...doc,
+      data: doc.data instanceof Blob ? await blobToBase64(doc.data) : doc.data,
+      _blobMime: doc.mimeType,
+    }
+  }))
+}
+
+function snapshotProfile(): Record<string, string> {
+  const profile: Record<string, string> = {}
+  for (const key of PROFILE_LS_KEYS) {
+    const val = localStorage.getItem(lsKey(key))
+    if (val !== null) profile[key] = val
+  }
+  return profile
+}
+
+async function readHashes(): Promise<{
+  rows: Partial<Record<BackupTableName, Record<string, unknown>[]>>
+  hashes: ChainState['hashes']
+}> {
+  const rows: Partial<Record<BackupTableName, Record<string, unknown>[]>> = {}
+  const hashes: ChainState['hashes'] = {}
+  for (const name of BACKUP_TABLES) {
+    const records = await db.table(name).toArray() as Record<string, unknown>[]
+    rows[name] = records
+    const tableHashes: Record<string, string> = {}
+    for (const rec of records) tableHashes[String(rec.id)] = hashRecord(rec)
+    hashes[name] = tableHashes
+  }
+  return { rows, hashes }
+}
+
+// ── Chain state ────────────────────────────────────────────────────────
+
+async function getChainState(): Promise<ChainState | null> {
+  const row = await db.meta.get(CHAIN_META_KEY)
+  return (row?.value as ChainState | undefined) ?? null
+}
+
+/** Summary of the current chain for display, or null if no archive has been written. */
+export async function getChainSummary(): Promise<ChainSummary | null> {
+  const state = await getChainState()
+  if (!state) return null
+  return { seq: state.seq, baseCreated: state.baseCreated, lastCreated: state.lastCreated }
+}
+
+/** Forget the current chain — the next archive will be a full base snapshot. */
+export async function resetBackupChain(): Promise<void> {
+  await db.meta.delete(CHAIN_META_KEY)
+}
+
+/**
+ * Build the next archive in the chain: a base snapshot when there is no chain
+ * (or it has grown long), otherwise a delta. Chain state only advances when
+ * the caller invokes commit() after the file was saved successfully.
+ */
+export async function prepareArchive(forceBase = false): Promise<PreparedArchive> {
+  const state = await getChainState()
+  const { rows, hashes } = await readHashes()
+  const now = new Date().toISOString()
+  const id = newId()
+
+  if (!state || forceBase || state.seq >= MAX_DELTAS_PER_CHAIN) {
+    const payload = await createBackup()
+    const chainId = newId()
+    payload.archive = { id, chainId, seq: 0 }
+    const changes = Object.values(payload.tables).reduce((sum, arr) => sum + (arr?.length ?? 0), 0)
+    return {
+      payload,
+      changes,
+      commit: () => db.meta.put({
+        key: CHAIN_META_KEY,
+        value: { chainId, seq: 0, lastArchiveId: id, baseCreated: now, lastCreated: now, hashes } satisfies ChainState,
+      }).then(() => undefined),
+    }
+  }
+
+  const tables: Partial<Record<BackupTableName, unknown[]>> = {}
+  const deleted: Partial<Record<BackupTableName, string[]>> = {}
+  let changes = 0
+
+  for (const name of BACKUP_TABLES) {
+    const prev = state.hashes[name] ?? {}
+    const next = hashes[name] ?? {}
+    const changed = (rows[name] ?? []).filter(rec => prev[String(rec.id)] !== next[String(rec.id)])
+    tables[name] = BLOB_TABLES.includes(name) ? await serializeDocs(changed) : changed
+    const gone = Object.keys(prev).filter(recId => !(recId in next))
+    if (gone.length) deleted[name] = gone
+    changes += changed.length + gone.length
+  }
+
+  const seq = state.seq + 1
+  const payload: BackupPayload = {
+    version: CURRENT_BACKUP_VERSION,
+    created: now,
+    kind: 'delta',
+    tables: tables as BackupTables,
+    profile: snapshotProfile(),
+    archive: { id, chainId: state.chainId, seq, parentId: state.lastArchiveId },
+    deleted,
+  }
+
+  return {
+    payload,
+    changes,
+    commit: () => db.meta.put({
+      key: CHAIN_META_KEY,
+      value: { ...state, seq, lastArchiveId: id, lastCreated: now, hashes } satisfies ChainState,
+    }).then(() => undefined),
+  }
+}
+
+export function archiveFilename(payload: BackupPayload, encrypted: boolean): string {
+  const date = payload.created.split('T')[0]
+  const archive = payload.archive
+  const suffix = archive
+    ? payload.kind === 'delta' ? `-delta${String(archive.seq).padStart(2, '0')}` : '-base'
+    : ''
+  return `companion-backup-${date}${suffix}${encrypted ? '.enc' : ''}.json`
+}
+
+// ── Chain restore ──────────────────────────────────────────────────────
+
+/**
+ * Restore a base snapshot plus any number of its deltas, in any order.
+ * Deltas must form an unbroken sequence from the base — a missing link
+ * would silently lose changes, so it is rejected before anything is touched.
+ */
+export async function restoreArchiveChain(payloads: BackupPayload[]): Promise<{ total: number; archives: number }> {
+  const bases = payloads.filter(p => p.kind !== 'delta')
+  if (bases.length !== 1) {
+    throw new Error(bases.length === 0
+      ? 'Select the base backup together with its incremental files'
+      : 'Select only one full backup at a time')
+  }
+  const base = bases[0]
+  const deltas = payloads
+    .filter(p => p.kind === 'delta')
+    .sort((a, b) => (a.archive?.seq ?? 0) - (b.archive?.seq ?? 0))
+
+  let parentId = base.archive?.id
+  for (const delta of deltas) {
+    const info = delta.archive
+    if (!info || !base.archive || info.chainId !== base.archive.chainId) {
+      throw new Error('An incremental file belongs to a different backup chain')
+    }
+    if (info.parentId !== parentId) {
+      throw new Error(`Incremental backup #${info.seq - 1} is missing from the selection`)
+    }
+    if (delta.version > CURRENT_BACKUP_VERSION) {
+      throw new Error(`Incremental backup #${info.seq} is from a newer version of Companion — update the app first`)
+    }
+    parentId = info.id
+  }
+
+  // Validate every delta up front so a bad file can't leave a half-applied chain
+  for (const delta of deltas) prepareBackupTables(delta.tables)
+
+  let { total } = await restoreBackup(base)
+  for (const delta of deltas) total += await applyDelta(delta)
+
+  // Restored data no longer matches this device's chain hashes
+  await resetBackupChain()
+  return { total, archives: 1 + deltas.length }
+}
+
+async function applyDelta(delta: BackupPayload): Promise<number> {
+  let total = 0
+  await sealBackupDocs(delta.tables)
+  await db.transaction('rw', BACKUP_TABLES.map(name => db.table(name)), async (tx) => {
+    excludeFromHistory(tx)
+    for (const name of BACKUP_TABLES) {
+      const records = delta.tables[name]
+      if (records?.length) {
+        await db.table(name).bulkPut(records)
+        total += records.length
+      }
+      const gone = delta.deleted?.[name]
+      if (gone?.length) await db.table(name).bulkDelete(gone)
+    }
+  })
+  restoreProfile(delta.profile)
+  return total
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SCHEDULED BACKUPS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// File System Access API — Chromium only, not in lib.dom yet
+interface BackupFolderHandle extends FileSystemDirectoryHandle {
+  queryPermission(opts: { mode: 'readwrite' }): Promise<PermissionState>
+  requestPermission(opts: { mode: 'readwrite' }): Promise<PermissionState>
+}
+type DirectoryPicker = (opts?: { id?: string; mode?: 'readwrite' }) => Promise<BackupFolderHandle>
+
+function hasDirectoryPicker(w: Window): w is Window & { showDirectoryPicker: DirectoryPicker } {
+  return 'showDirectoryPicker' in w && typeof w.showDirectoryPicker === 'function'
+}
+
+interface StoredBackupKey {
+  key: CryptoKey
+  salt: Uint8Array
+}
+
+export function isAutoBackupEnabled(): boolean {
+  return localStorage.getItem(lsKey(AUTO_BACKUP_ENABLED_KEY)) === 'true'
+}
+
+/**
+ * Derive and store the key scheduled backups encrypt with. The key is
+ * non-extractable — the password itself is never persisted.
+ */
+export async function setAutoBackupPassword(password: string): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const key = await deriveKey(password, salt)
+  await db.meta.put({ key: AUTO_KEY_META_KEY, value: { key, salt } satisfies StoredBackupKey })
+}
+
+export async function hasAutoBackupPassword(): Promise<boolean> {
+  return !!(await db.meta.get(AUTO_KEY_META_KEY))
+}
+
+export function supportsBackupFolder(): boolean {
+  return typeof window !== 'undefined' && hasDirectoryPicker(window)
+}
+
+/** Ask the user for a folder to write scheduled backups into. Returns its name. */
+export async function chooseBackupFolder(): Promise<string> {
+  if (!hasDirectoryPicker(window)) throw new Error('Choosing a backup folder isn\'t supported in this browser')
+  const handle = await window.showDirectoryPicker({ id: 'companion-backups', mode: 'readwrite' })
+  await db.meta.put({ key: FOLDER_META_KEY, value: handle })
+  return handle.name
+}
+
+export async function getBackupFolderName(): Promise<string | null> {
+  const row = await db.meta.get(FOLDER_META_KEY)
+  return (row?.value as BackupFolderHandle | undefined)?.name ?? null
+}
+
+export async function clearBackupFolder(): Promise<void> {
+  await db.meta.delete(FOLDER_META_KEY)
+}
+
+/**
+ * Write into the chosen folder when permission is still granted (browsers
+ * only re-prompt on a user gesture), otherwise fall back to a download.
+ */
+async function saveArchive(content: string, filename: string, interactive: boolean): Promise<'folder' | 'download'> {
+  const row = await db.meta.get(FOLDER_META_KEY)
+  const handle = row?.value as BackupFolderHandle | undefined
+  if (handle) {
+    try {
+      let permission = await handle.queryPermission({ mode: 'readwrite' })
+      if (permission === 'prompt' && interactive) permission = await handle.requestPermission({ mode: 'readwrite' })
+      if (permission === 'granted') {
+        const file = await handle.getFileHandle(filename, { create: true })
+        const writable = await file.createWritable()
+        await writable.write(content)
+        await writable.close()
+        return 'folder'
+      }
+    } catch {
+      // Folder moved or revoked — fall through to download
+    }
+  }
+  if (!interactive) throw new Error('Backup folder needs permission')
+  downloadFile(content, filename)
+  return 'download'
+}
+
+export type ScheduledBackupResult =
+  | { status: 'saved'; changes: number; target: 'folder' | 'download' }
+  | { status: 'unchanged' }
+  | { status: 'needs-attention'; reason: string }
+
+/**
+ * Write the next encrypted archive with the stored key. Runs unattended on
+ * app open when a backup is due (interactive = false) — in that case it only
+ * writes to the backup folder, since an unprompted download would be lost or
+ * blocked on most phones.
+ */
+export async function runScheduledBackup(interactive = false): Promise<ScheduledBackupResult> {
+  const stored = (await db.meta.get(AUTO_KEY_META_KEY))?.value as StoredBackupKey | undefined
+  if (!stored) return { status: 'needs-attention', reason: 'Set a backup password' }
+
+  const archive = await prepareArchive()
+  if (archive.payload.kind === 'delta' && archive.changes === 0) {
+    recordBackupTimestamp()
+    return { status: 'unchanged' }
+  }
+
+  const encrypted = await encryptDataWithKey(JSON.stringify(archive.payload), stored.key, stored.salt)
+  const wrapper = JSON.stringify({ encrypted: true, data: encrypted })
+  let target: 'folder' | 'download'
+  try {
+    target = await saveArchive(wrapper, archiveFilename(archive.payload, true), interactive)
+  } catch (err) {
+    return { status: 'needs-attention', reason: (err as Error).message }
+  }
+  await archive.commit()
+  recordBackupTimestamp()
+  return { status: 'saved', changes: archive.changes, target }
+}
@@ -0,0 +1,191 @@
+import { addMinutes, parseISO } from 'date-fns'
+import { db, createClient, createBooking } from '../db'
+import { isFieldEncryptionReady, sealStringSync, openStringSync } from '../db/fieldCrypto'
+import { findClientsByContact } from '../db/blindIndex'
+import type { ContactField } from '../db/blindIndex'
+import {
+  generateInboxKeyPair, getInquiryTransport, inquiryFormUrl, openInquiry, randomHex,
+} from './inquiryBox'
+import type { InquiryPayload } from './inquiryBox'
+import type { Client, ContactMethod, Inquiry, LocationType } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// INQUIRIES INBOX
+// Opening the inbox makes a box key pair on this device and claims an
+// inbox id with the booking-requests function. The secret key is sealed
+// with the PIN-protected master key, so the inbox needs PIN Lock, like
+// sync. Pulled requests are opened here, stored (field-encrypted) in the
+// local `inquiries` table and only then deleted from the server.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** db.meta key — per device, not backed up or synced */
+const INBOX_META_KEY = 'inquiry_inbox'
+
+export interface InquiryInbox {
+  inboxId: string
+  token: string
+  publicKey: string
+}
+
+interface StoredInbox extends InquiryInbox {
+  sealedSecretKey: string
+}
+
+const LOCATION_TYPES: LocationType[] = ['Incall', 'Outcall', 'Travel', 'Virtual']
+
+const CONTACT_FIELD_FOR: Record<InquiryPayload['contactMethod'], ContactField> = {
+  Text: 'phone', Email: 'email', Signal: 'signal', Telegram: 'telegram', WhatsApp: 'whatsapp',
+}
+
+async function loadInbox(): Promise<StoredInbox | null> {
+  return ((await db.meta.get(INBOX_META_KEY))?.value as StoredInbox | undefined) ?? null
+}
+
+/** This device's inbox, or null while it is off */
+export async function getInquiryInbox(): Promise<InquiryInbox | null> {
+  const stored = await loadInbox()
+  return stored ? { inboxId: stored.inboxId, token: stored.token, publicKey: stored.publicKey } : null
+}
+
+/** The link to send clients */
+export function inquiryLink(inbox: InquiryInbox): string {
+  return inquiryFormUrl(window.location.origin, inbox.inboxId, inbox.publicKey)
+}
+
+/** Create keys and claim a new inbox. Requires PIN Lock. */
+export async function openInquiryInbox(): Promise<InquiryInbox> {
+  if (!isFieldEncryptionReady()) throw new Error('Booking requests require PIN Lock')
+  const keys = generateInboxKeyPair()
+  const inbox: StoredInbox = {
+    inboxId: randomHex(16),
+    token: randomHex(32),
+    publicKey: keys.publicKey,
+    sealedSecretKey: sealStringSync(keys.secretKey),
+  }
+  await getInquiryTransport().register(inbox.inboxId, inbox.token)
+  await db.meta.put({ key: INBOX_META_KEY, value: inbox })
+  return inbox
+}
+
+/** Stop taking requests: the server inbox and anything still queued there is deleted; pulled inquiries stay. */
+export async function closeInquiryInbox(): Promise<void> {
+  const stored = await loadInbox()
+  if (!stored) return
+  await getInquiryTransport().close(stored.inboxId, stored.token)
+  await db.meta.delete(INBOX_META_KEY)
+}
+
+/**
+ * Fetch, open and store queued requests, then delete them from the server.
+ * Returns how many new inquiries arrived. Entries that don't open with
+ * this inbox's key are dropped.
+ */
+export async function pullInquiries(): Promise<number> {
+  const stored = await loadInbox()
+  if (!stored || !isFieldEncryptionReady()) return 0
+  const secretKey = openStringSync(stored.sealedSecretKey)
+  if (!secretKey) throw new Error('Inbox key could not be opened — reset the request link')
+
+  const transport = getInquiryTransport()
+  const entries = await transport.pull(stored.inboxId, stored.token)
+  if (entries.length === 0) return 0
+
+  const now = new Date()
+  const opened: Inquiry[] = []
+  for (const entry of entries) {
+    const payload = openInquiry(entry.data, secretKey)
+    if (!payload) {
+      console.warn('[inquiries] Dropping request that failed to open:', entry.key)
+      continue
+    }
+    // The entry key is unique per submit, so a pull repeated after a failed ack adds nothing twice
+    opened.push(inquiryFromPayload(entry.key.slice(entry.key.lastIndexOf('/') + 1), payload, now))
+  }
+
+  // Check and insert in one transaction — overlapping pulls (the inbox poll
+  // and a manual refresh) are serialized, so the later one skips what the
+  // earlier one stored
+  const added = await db.transaction('rw', db.inquiries, async () => {
+    let count = 0
+    for (const inquiry of opened) {
+      if (await db.inquiries.get(inquiry.id)) continue
+      await db.inquiries.add(inquiry)
+      count++
+    }
+    return count
+  })
+  await transport.ack(stored.inboxId, stored.token, entries.map(e => e.key))
+  return added
+}
+
+function inquiryFromPayload(id: string, p: InquiryPayload, receivedAt: Date): Inquiry {
+  const clip = (s: unknown, max: number) => typeof s === 'string' ? s.trim().slice(0, max) : undefined
+  return {
+    id,
+    status: 'new',
+    name: clip(p.name, 80) || 'Unknown',
+    contactMethod: (p.contactMethod in CONTACT_FIELD_FOR ? p.contactMethod : 'Text') as ContactMethod,
+    contact: clip(p.contact, 120) ?? '',
+    date: typeof p.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(p.date) ? p.date : undefined,
+    time: typeof p.time === 'string' && /^\d{2}:\d{2}$/.test(p.time) ? p.time : undefined,
+    duration: typeof p.duration === 'number' && p.duration > 0 && p.duration <= 24 * 60 ? p.duration : undefined,
+    locationType: p.locationType && LOCATION_TYPES.includes(p.locationType) ? p.locationType : undefined,
+    message: clip(p.message, 2000) || undefined,
+    submittedAt: new Date(typeof p.submittedAt === 'number' ? p.submittedAt : receivedAt.getTime()),
+    receivedAt,
+  }
+}
+
+/** Clients already on file with the inquiry's contact — checked before converting */
+export async function matchingClients(inquiry: Inquiry): Promise<Client[]> {
+  return findClientsByContact([inquiry.contact])
+}
+
+/**
+ * Turn an inquiry into a client (or use `existing`) plus a 'To Be Confirmed'
+ * booking at the time they asked for. No booking when they gave no date.
+ */
+export async function convertInquiry(
+  inquiry: Inquiry,
+  existing?: Client,
+): Promise<{ clientId: string; bookingId?: string }> {
+  const field = CONTACT_FIELD_FOR[inquiry.contactMethod as InquiryPayload['contactMethod']] ?? 'phone'
+  const client = existing ?? createClient({
+    alias: inquiry.name,
+    [field]: inquiry.contact,
+    preferredContact: inquiry.contactMethod,
+    referenceSource: 'Booking request form',
+  })
+
+  let bookingId: string | undefined
+  await db.transaction('rw', [db.clients, db.bookings, db.serviceRates, db.inquiries], async () => {
+    if (!existing) await db.clients.add(client)
+    if (inquiry.date) {
+      const duration = inquiry.duration ?? 60
+      const rate = (await db.serviceRates.toArray()).find(r => r.isActive && r.duration === duration)
+      const booking = createBooking({
+        clientId: client.id,
+        // No time given — pencil in the evening; it's to be confirmed either way
+        dateTime: addMinutes(parseISO(inquiry.date), inquiry.time ? timeToMinutes(inquiry.time) : 18 * 60),
+        duration,
+        locationType: inquiry.locationType ?? 'Incall',
+        status: 'To Be Confirmed',
+        baseRate: rate?.rate ?? 0,
+        notes: inquiry.message ?? '',
+      })
+      await db.bookings.add(booking)
+      bookingId = booking.id
+    }
+    await db.inquiries.update(inquiry.id, { status: 'converted', clientId: client.id, bookingId })
+  })
+  return { clientId: client.id, bookingId }
+}
+
+function timeToMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number)
+  return h * 60 + m
+}
+
+export async function dismissInquiry(id: string): Promise<void> {
+  await db.inquiries.update(id, { status: 'dismissed' })
+}
@@ -0,0 +1,210 @@
+import nacl from 'tweetnacl'
+import type { LocationType } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BOOKING REQUEST BOX
+// Shared by the public request form (src/request) and the app. The form
+// seals each request to the inbox's public key with a throwaway key pair
+// (nacl.box, "sealed box" style) and posts the ciphertext to the
+// booking-requests function; only the device holding the secret key can
+// open it. The link carries the inbox id and public key in the #fragment,
+// which browsers never send to the server.
+//
+// This module must stay free of Dexie and React — the form page bundles it.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** What a client fills in on the request form */
+export interface InquiryPayload {
+  v: 1
+  name: string
+  contactMethod: 'Text' | 'Email' | 'Signal' | 'Telegram' | 'WhatsApp'
+  contact: string
+  date?: string          // "yyyy-MM-dd"
+  time?: string          // "HH:MM", the client's clock
+  duration?: number      // minutes
+  locationType?: LocationType
+  message?: string
+  submittedAt: number    // ms
+}
+
+export const INQUIRY_CONTACT_METHODS: InquiryPayload['contactMethod'][] = ['Text', 'Email', 'Signal', 'Telegram', 'WhatsApp']
+
+/** Longest sealed request the function accepts (base64 chars) */
+export const MAX_INQUIRY_BYTES = 16 * 1024
+
+function toBase64(bytes: Uint8Array): string {
+  let bin = ''
+  bytes.forEach(b => { bin += String.fromCharCode(b) })
+  return btoa(bin)
+}
+
+function fromBase64(b64: string): Uint8Array {
+  return new Uint8Array(atob(b64).split('').map(c => c.charCodeAt(0)))
+}
+
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+const fromBase64Url = (s: string) => fromBase64(s.replace(/-/g, '+').replace(/_/g, '/'))
+
+// ── Keys & link ────────────────────────────────────────────────────────
+
+export interface InboxKeyPair {
+  publicKey: string   // base64url
+  secretKey: string   // base64url — never leaves the device unsealed
+}
+
+export function generateInboxKeyPair(): InboxKeyPair {
+  const pair = nacl.box.keyPair()
+  return { publicKey: toBase64Url(pair.publicKey), secretKey: toBase64Url(pair.secretKey) }
+}
+
+export function randomHex(bytes: number): string {
+  return Array.from(nacl.randomBytes(bytes), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Shareable form link: /request#<inboxId>.<publicKey> */
+export function inquiryFormUrl(origin: string, inboxId: string, publicKey: string): string {
+  return `${origin}/request#${inboxId}.${publicKey}`
+}
+
+/** Inbox id and public key from the form page's location.hash; null if malformed */
+export function parseInquiryLink(hash: string): { inboxId: string; publicKey: Uint8Array } | null {
+  const match = /^#?([0-9a-f]{32})\.([A-Za-z0-9_-]{43})$/.exec(hash)
+  if (!match) return null
+  try {
+    const publicKey = fromBase64Url(match[2])
+    return publicKey.length === nacl.box.publicKeyLength ? { inboxId: match[1], publicKey } : null
+  } catch {
+    return null
+  }
+}
+
+// ── Seal / open ────────────────────────────────────────────────────────
+
+/** Seal a request to the inbox key → base64( ephemeralPublicKey || nonce || box ). */
+export function sealInquiry(payload: InquiryPayload, publicKey: Uint8Array): string {
+  const ephemeral = nacl.box.keyPair()
+  const nonce = nacl.randomBytes(nacl.box.nonceLength)
+  const box = nacl.box(new TextEncoder().encode(JSON.stringify(payload)), nonce, publicKey, ephemeral.secretKey)
+  const combined = new Uint8Array(ephemeral.publicKey.length + nonce.length + box.length)
+  combined.set(ephemeral.publicKey, 0)
+  combined.set(nonce, ephemeral.publicKey.length)
+  combined.set(box, ephemeral.publicKey.length + nonce.length)
+  return toBase64(combined)
+}
+
+/** Open a sealed request with the inbox secret key. Null on auth failure or a malformed payload. */
+export function openInquiry(sealed: string, secretKey: string): InquiryPayload | null {
+  try {
+    const combined = fromBase64(sealed)
+    const epkEnd = nacl.box.publicKeyLength
+    const nonceEnd = epkEnd + nacl.box.nonceLength
+    const opened = nacl.box.open(
+      combined.slice(nonceEnd), combined.slice(epkEnd, nonceEnd), combined.slice(0, epkEnd), fromBase64Url(secretKey),
+    )
+    if (!opened) return null
+    const payload = JSON.parse(new TextDecoder().decode(opened)) as InquiryPayload
+    return payload?.v === 1 && typeof payload.name === 'string' && typeof payload.contact === 'string' ? payload : null
+  } catch {
+    return null
+  }
+}
+
+// ── Transport ──────────────────────────────────────────────────────────
+
+export interface InquiryEntry {
+  key: string
+  data: string   // sealed, see sealInquiry
+}
+
+/**
+ * Where sealed requests wait until the device pulls them. The server side
+ * only ever handles ciphertext; the owner token (hashed server-side)
+ * guards reading and deleting.
+ */
+export interface InquiryTransport {
+  submit(inboxId: string, data: string): Promise<void>
+  register(inboxId: string, token: string): Promise<void>
+  pull(inboxId: string, token: string): Promise<InquiryEntry[]>
+  ack(inboxId: string, token: string, keys: string[]): Promise<void>
+  close(inboxId: string, token: string): Promise<void>
+}
+
+const INQUIRY_ENDPOINT = '/.netlify/functions/booking-requests'
+
+async function post<T>(body: Record<string, unknown>): Promise<T> {
+  const res = await fetch(INQUIRY_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  if (!res.ok) throw new Error(`Booking request ${String(body.action)} failed (${res.status})`)
+  return res.json()
+}
+
+export const netlifyInquiryTransport: InquiryTransport = {
+  async submit(inboxId, data) { await post({ action: 'submit', inboxId, data }) },
+  async register(inboxId, token) { await post({ action: 'register', inboxId, token }) },
+  async pull(inboxId, token) {
+    return (await post<{ entries: InquiryEntry[] }>({ action: 'pull', inboxId, token })).entries
+  },
+  async ack(inboxId, token, keys) { await post({ action: 'ack', inboxId, token, keys }) },
+  async close(inboxId, token) { await post({ action: 'close', inboxId, token }) },
+}
+
+/**
+ * Stand-in for the Netlify function, kept in localStorage so the form page
+ * and the app see the same inboxes on one origin. Enabled in dev with
+ * VITE_INQUIRY_MOCK=1; tests can pass any Storage.
+ */
+export function createLocalInquiryTransport(storage: Pick<Storage, 'getItem' | 'setItem'> = localStorage): InquiryTransport {
+  const STORE_KEY = 'mock_booking_requests'
+  type Inbox = { token: string; entries: InquiryEntry[] }
+  const load = (): Record<string, Inbox> => JSON.parse(storage.getItem(STORE_KEY) || '{}')
+  const save = (inboxes: Record<string, Inbox>) => storage.setItem(STORE_KEY, JSON.stringify(inboxes))
+  const owned = (inboxes: Record<string, Inbox>, inboxId: string, token: string) => {
+    const inbox = inboxes[inboxId]
+    if (!inbox || inbox.token !== token) throw new Error('Booking request inbox not found')
+    return inbox
+  }
+  return {
+    async submit(inboxId, data) {
+      const inboxes = load()
+      if (!inboxes[inboxId]) throw new Error('Booking request inbox not found')
+      inboxes[inboxId].entries.push({ key: `${Date.now()}-${randomHex(4)}`, data })
+      save(inboxes)
+    },
+    async register(inboxId, token) {
+      const inboxes = load()
+      if (inboxes[inboxId] && inboxes[inboxId].token !== token) throw new Error('Forbidden')
+      inboxes[inboxId] ??= { token, entries: [] }
+      save(inboxes)
+    },
+    async pull(inboxId, token) {
+      return owned(load(), inboxId, token).entries
+    },
+    async ack(inboxId, token, keys) {
+      const inboxes = load()
+      const inbox = owned(inboxes, inboxId, token)
+      inbox.entries = inbox.entries.filter(e => !keys.includes(e.key))
+      save(inboxes)
+    },
+    async close(inboxId, token) {
+      const inboxes = load()
+      owned(inboxes, inboxId, token)
+      delete inboxes[inboxId]
+      save(inboxes)
+    },
+  }
+}
+
+let _transport: InquiryTransport = import.meta.env.VITE_INQUIRY_MOCK === '1'
+  ? createLocalInquiryTransport()
+  : netlifyInquiryTransport
+
+export function getInquiryTransport(): InquiryTransport {
+  return _transport
+}
+
+export function setInquiryTransport(transport: InquiryTransport): void {
+  _transport = transport
+}
@@ -0,0 +1,95 @@
+import { db, newId, getCurrency } from '../db'
+import { sealDocBlob, openDocBlob } from '../db/docCrypto'
+import { sanitizeImage, sanitizedFilename, DEFAULT_SCREENING_MAX_DIMENSION } from './imageSanitize'
+import type { ZipEntry } from './zip'
+import type { Receipt, Transaction } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// RECEIPTS
+// Photos and PDFs attached to expense transactions. Stored like screening
+// documents: sealed at rest (db/docCrypto.ts), carried in backups, never
+// synced. Photos are re-encoded on the way in — phone cameras write GPS
+// into EXIF — and capped at the screening photo size.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const RECEIPT_MAX_BYTES = 10 * 1024 * 1024
+
+export function isReceiptFile(file: File): boolean {
+  return file.type.startsWith('image/') || file.type === 'application/pdf'
+}
+
+/** Strip metadata from photos; PDFs are kept as picked. Falls back to the original if the image can't be decoded. */
+async function cleanReceipt(file: File): Promise<{ data: Blob; filename: string; mimeType: string }> {
+  if (!file.type.startsWith('image/')) return { data: file, filename: file.name, mimeType: file.type }
+  try {
+    const data = await sanitizeImage(file, { maxDimension: DEFAULT_SCREENING_MAX_DIMENSION })
+    return { data, filename: sanitizedFilename(file.name, data.type), mimeType: data.type }
+  } catch {
+    return { data: file, filename: file.name, mimeType: file.type }
+  }
+}
+
+/** Clean, seal and store a receipt for a transaction. Throws on storage errors (e.g. QuotaExceededError). */
+export async function addReceipt(transactionId: string, file: File): Promise<Receipt> {
+  const clean = await cleanReceipt(file)
+  const receipt: Receipt = {
+    id: newId(),
+    transactionId,
+    filename: clean.filename,
+    mimeType: clean.mimeType,
+    ...(await sealDocBlob(clean.data)),
+    uploadedAt: new Date(),
+  }
+  await db.receipts.add(receipt)
+  return receipt
+}
+
+/** Expenses are expected to have a receipt; income isn't */
+export function needsReceipt(t: Transaction, receiptIds: Set<string>): boolean {
+  return t.type === 'expense' && !receiptIds.has(t.id)
+}
+
+// ── Export ─────────────────────────────────────────────────────────────
+
+function safeName(s: string): string {
+  return s.replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Zip entries for the receipts of `transactions`, under `receipts/`, named
+ * so they sort by date and match the workbook: "2026-03-01 supplies 45.00
+ * EUR - receipt.jpg". Also returns each transaction's file names.
+ * Receipts that can't be opened (app locked) are skipped and counted.
+ */
+export async function receiptZipEntries(transactions: Transaction[]): Promise<{
+  entries: ZipEntry[]
+  names: Map<string, string[]>
+  skipped: number
+}> {
+  const byId = new Map(transactions.map(t => [t.id, t]))
+  const receipts = await db.receipts.where('transactionId').anyOf([...byId.keys()]).toArray()
+  const entries: ZipEntry[] = []
+  const names = new Map<string, string[]>()
+  const used = new Set<string>()
+  let skipped = 0
+
+  for (const r of receipts) {
+    const t = byId.get(r.transactionId)!
+    let data: Blob
+    try {
+      data = await openDocBlob(r)
+    } catch {
+      skipped++
+      continue
+    }
+    const day = new Date(t.date).toLocaleDateString('en-CA')
+    const base = safeName(`${day} ${t.category} ${t.amount.toFixed(2)} ${t.currency ?? getCurrency()} - ${r.filename}`)
+    let name = base
+    for (let n = 2; used.has(name); n++) name = base.replace(/(\.[^.]+)?$/, ` (${n})$1`)
+    used.add(name)
+    entries.push({ name: `receipts/${name}`, data, date: new Date(r.uploadedAt) })
+    names.set(t.id, [...(names.get(t.id) ?? []), name])
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name))
+  return { entries, names, skipped }
+}
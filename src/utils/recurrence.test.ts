@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { formatRRule, occurrences, parseRRule, patternFromRule, ruleFromPattern } from './recurrence'
+
+// Local wall times, so the results don't depend on the machine's zone
+const at = (y: number, m: number, d: number, h = 10) => new Date(y, m - 1, d, h)
+const days = (dates: Date[]) => dates.map(d => `${d.getMonth() + 1}/${d.getDate()}`)
+
+describe('parseRRule / formatRRule', () => {
+  it('round-trips the supported subset', () => {
+    for (const value of [
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH',
+      'FREQ=MONTHLY;BYDAY=2TU',
+      'FREQ=MONTHLY;BYDAY=-1FR',
+      'FREQ=MONTHLY;BYMONTHDAY=15;COUNT=10',
+      'FREQ=WEEKLY;BYDAY=MO;UNTIL=20261231',
+    ]) {
+      expect(formatRRule(parseRRule(value)!)).toBe(value)
+    }
+  })
+
+  it('accepts an RRULE: prefix and rejects what it cannot follow', () => {
+    expect(parseRRule('RRULE:FREQ=WEEKLY')).toEqual({ freq: 'WEEKLY', interval: 1 })
+    expect(parseRRule('FREQ=DAILY')).toBeNull()
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=XX')).toBeNull()
+  })
+
+  it('maps legacy presets both ways', () => {
+    const start = at(2026, 1, 6)
+    expect(patternFromRule(ruleFromPattern('biweekly', start))).toBe('biweekly')
+    expect(patternFromRule(ruleFromPattern('monthly', start))).toBe('monthly')
+    expect(patternFromRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR'))).toBe('custom')
+    expect(ruleFromPattern('none', start)).toBeNull()
+  })
+})
+
+describe('occurrences', () => {
+  it('walks weekly days in order, keeping the start time', () => {
+    const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH')!
+    const result = occurrences(rule, at(2026, 1, 6), at(2026, 2, 1))
+    expect(days(result)).toEqual(['1/6', '1/8', '1/20', '1/22'])
+    expect(result.every(d => d.getHours() === 10)).toBe(true)
+  })
+
+  it('skips days before the start in the first week', () => {
+    const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,FR')!
+    expect(days(occurrences(rule, at(2026, 1, 7), at(2026, 1, 14)))).toEqual(['1/9', '1/12'])
+  })
+
+  it('finds nth and last weekdays of the month', () => {
+    expect(days(occurrences(parseRRule('FREQ=MONTHLY;BYDAY=2TU')!, at(2026, 1, 13), at(2026, 3, 31))))
+      .toEqual(['1/13', '2/10', '3/10'])
+    expect(days(occurrences(parseRRule('FREQ=MONTHLY;BYDAY=-1FR')!, at(2026, 1, 30), at(2026, 3, 31))))
+      .toEqual(['1/30', '2/27', '3/27'])
+  })
+
+  it('skips months without the day of month', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYMONTHDAY=31')!
+    expect(days(occurrences(rule, at(2026, 1, 31), at(2026, 5, 31)))).toEqual(['1/31', '3/31', '5/31'])
+  })
+
+  it('stops at COUNT and UNTIL', () => {
+    expect(occurrences(parseRRule('FREQ=WEEKLY;COUNT=3')!, at(2026, 1, 6), at(2027, 1, 1))).toHaveLength(3)
+    expect(days(occurrences(parseRRule('FREQ=WEEKLY;UNTIL=20260120')!, at(2026, 1, 6), at(2027, 1, 1))))
+      .toEqual(['1/6', '1/13', '1/20'])
+  })
+})
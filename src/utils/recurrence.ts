@@ -0,0 +1,460 @@
+import {
+  addDays, addMonths, addWeeks, endOfDay, format, getDaysInMonth, parseISO,
+  startOfMonth, startOfWeek, subDays,
+} from 'date-fns'
+import { db, createBooking } from '../db'
+import { moveToTrash } from '../db/trash'
+import { isPro, canAddBooking } from '../components/planLimits'
+import { fmtMediumDate } from './dateFormat'
+import { wallTimeToInstant, zonedWallTime } from './timeZone'
+import type { Booking, BookingStatus, RecurrencePattern } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// RECURRENCE RULES
+// Bookings repeat by an RFC 5545 RRULE subset:
+//   FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH        every 2 weeks on Tue and Thu
+//   FREQ=MONTHLY;BYDAY=2TU  /  BYDAY=-1FR     2nd Tuesday / last Friday
+//   FREQ=MONTHLY;BYMONTHDAY=15                the 15th
+//   …;UNTIL=20261231  or  …;COUNT=10
+// The series start (DTSTART) is the root booking's recurrenceDate.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface RecurrenceRule {
+  freq: 'WEEKLY' | 'MONTHLY'
+  interval: number
+  /** WEEKLY: days of week (0=Sun … 6=Sat). MONTHLY: the weekday for `setPos`. */
+  byWeekday?: number[]
+  /** MONTHLY: 1–4 = nth weekday, -1 = last */
+  setPos?: number
+  /** MONTHLY: day of month (months without it are skipped) */
+  byMonthDay?: number
+  /** Last day an occurrence may fall on */
+  until?: Date
+  count?: number
+}
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const ORDINALS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' }
+
+/** How far ahead occurrences are created so they show in the calendar */
+export const RECURRENCE_HORIZON_WEEKS = 12
+
+export function parseRRule(value: string): RecurrenceRule | null {
+  const parts = new Map(value.replace(/^RRULE:/, '').split(';').map(p => p.split('=') as [string, string]))
+  const freq = parts.get('FREQ')
+  if (freq !== 'WEEKLY' && freq !== 'MONTHLY') return null
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, parseInt(parts.get('INTERVAL') ?? '1') || 1) }
+
+  const byDay = parts.get('BYDAY')
+  if (byDay) {
+    const days: number[] = []
+    for (const token of byDay.split(',')) {
+      const m = /^(-?\d)?([A-Z]{2})$/.exec(token)
+      const day = m ? RRULE_DAYS.indexOf(m[2]) : -1
+      if (day < 0) return null
+      if (m![1]) rule.setPos = parseInt(m![1])
+      days.push(day)
+    }
+    rule.byWeekday = days
+  }
+  const monthDay = parts.get('BYMONTHDAY')
+  if (monthDay) rule.byMonthDay = parseInt(monthDay)
+
+  const until = parts.get('UNTIL')
+  if (until) {
+    const d = parseISO(`${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`)
+    if (!isNaN(d.getTime())) rule.until = endOfDay(d)
+  }
+  const count = parts.get('COUNT')
+  if (count) rule.count = Math.max(1, parseInt(count) || 1)
+  return rule
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byWeekday?.length) {
+    const prefix = rule.freq === 'MONTHLY' && rule.setPos ? String(rule.setPos) : ''
+    parts.push(`BYDAY=${rule.byWeekday.map(d => prefix + RRULE_DAYS[d]).join(',')}`)
+  }
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+  // Date-only UNTIL: the rule is about days, not instants
+  if (rule.until) parts.push(`UNTIL=${format(rule.until, 'yyyyMMdd')}`)
+  else if (rule.count) parts.push(`COUNT=${rule.count}`)
+  return parts.join(';')
+}
+
+/** The rule a legacy preset stands for, anchored on the booking's own day. */
+export function ruleFromPattern(pattern: RecurrencePattern, start: Date): RecurrenceRule | null {
+  switch (pattern) {
+    case 'weekly': return { freq: 'WEEKLY', interval: 1, byWeekday: [start.getDay()] }
+    case 'biweekly': return { freq: 'WEEKLY', interval: 2, byWeekday: [start.getDay()] }
+    case 'monthly': return { freq: 'MONTHLY', interval: 1, byMonthDay: start.getDate() }
+    default: return null
+  }
+}
+
+/** Closest legacy preset, so older views and exports still read sensibly. */
+export function patternFromRule(rule: RecurrenceRule | null): RecurrencePattern {
+  if (!rule) return 'none'
+  const single = !rule.byWeekday || rule.byWeekday.length === 1
+  if (rule.freq === 'WEEKLY' && single && rule.interval <= 2) return rule.interval === 1 ? 'weekly' : 'biweekly'
+  if (rule.freq === 'MONTHLY' && rule.interval === 1 && !rule.setPos) return 'monthly'
+  return 'custom'
+}
+
+/** The rule a booking follows: its RRULE, else its legacy preset. */
+export function bookingRule(b: Pick<Booking, 'rrule' | 'recurrence' | 'dateTime' | 'recurrenceDate'>): RecurrenceRule | null {
+  if (b.rrule) return parseRRule(b.rrule)
+  return ruleFromPattern(b.recurrence ?? 'none', new Date(b.recurrenceDate ?? b.dateTime))
+}
+
+/** The booking's rule as an RRULE value — legacy presets included. */
+export function ruleString(b: Pick<Booking, 'rrule' | 'recurrence' | 'dateTime' | 'recurrenceDate'>): string | undefined {
+  const rule = bookingRule(b)
+  return rule ? formatRRule(rule) : undefined
+}
+
+export function isRecurring(b: Pick<Booking, 'rrule' | 'recurrence'>): boolean {
+  return !!b.rrule || (!!b.recurrence && b.recurrence !== 'none')
+}
+
+/** "Every 2 weeks on Tue, Thu · until Dec 31, 2026" */
+export function describeRule(rule: RecurrenceRule, start: Date): string {
+  let text: string
+  if (rule.freq === 'WEEKLY') {
+    const days = (rule.byWeekday ?? [start.getDay()]).map(d => DAY_NAMES[d]).join(', ')
+    text = rule.interval === 1 ? `Weekly on ${days}` : `Every ${rule.interval} weeks on ${days}`
+  } else {
+    const on = rule.setPos && rule.byWeekday?.length
+      ? `the ${ORDINALS[rule.setPos] ?? `${rule.setPos}th`} ${DAY_NAMES[rule.byWeekday[0]]}`
+      : `day ${rule.byMonthDay ?? start.getDate()}`
+    text = rule.interval === 1 ? `Monthly on ${on}` : `Every ${rule.interval} months on ${on}`
+  }
+  if (rule.until) text += ` · until ${fmtMediumDate(rule.until)}`
+  else if (rule.count) text += ` · ${rule.count} times`
+  return text
+}
+
+/** Short badge text for lists: "Weekly", "Every 2 weeks", "Monthly" … */
+export function recurrenceLabel(b: Pick<Booking, 'rrule' | 'recurrence' | 'dateTime' | 'recurrenceDate'>): string | null {
+  const rule = bookingRule(b)
+  if (!rule) return null
+  const unit = rule.freq === 'WEEKLY' ? 'week' : 'month'
+  return rule.interval === 1 ? (rule.freq === 'WEEKLY' ? 'Weekly' : 'Monthly') : `Every ${rule.interval} ${unit}s`
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+  const d = new Date(day)
+  d.setHours(time.getHours(), time.getMinutes(), 0, 0)
+  return d
+}
+
+/** Day in `month` for an nth (or last) weekday, or null when the month has no such day. */
+function nthWeekday(month: Date, weekday: number, setPos: number): Date | null {
+  if (setPos < 0) {
+    const last = addDays(startOfMonth(addMonths(month, 1)), -1)
+    return addDays(last, -((last.getDay() - weekday + 7) % 7))
+  }
+  const first = startOfMonth(month)
+  const day = addDays(first, (weekday - first.getDay() + 7) % 7 + (setPos - 1) * 7)
+  return day.getMonth() === first.getMonth() ? day : null
+}
+
+/**
+ * Occurrence start times of a rule from `dtstart` up to `to`, in order.
+ * COUNT is counted from dtstart, as in RFC 5545; exceptions are the caller's job.
+ */
+export function occurrences(rule: RecurrenceRule, dtstart: Date, to: Date): Date[] {
+  const result: Date[] = []
+  const last = rule.until && rule.until < to ? rule.until : to
+  const emit = (d: Date): boolean => {
+    if (d < dtstart) return true
+    if (d > last || (rule.count && result.length >= rule.count)) return false
+    result.push(d)
+    return true
+  }
+
+  // Periods are bounded by `last`; the cap only guards against a bad rule
+  for (let period = 0; period < 2000; period++) {
+    if (rule.freq === 'WEEKLY') {
+      const week = addWeeks(startOfWeek(dtstart, { weekStartsOn: 1 }), period * rule.interval)
+      if (week > last) break
+      // Monday-first order within the week
+      const days = [...(rule.byWeekday ?? [dtstart.getDay()])].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+      for (const wd of days) {
+        if (!emit(withTimeOf(addDays(week, (wd + 6) % 7), dtstart))) return result
+      }
+    } else {
+      const month = addMonths(startOfMonth(dtstart), period * rule.interval)
+      if (month > last) break
+      let day: Date | null
+      if (rule.setPos && rule.byWeekday?.length) {
+        day = nthWeekday(month, rule.byWeekday[0], rule.setPos)
+      } else {
+        const dom = rule.byMonthDay ?? dtstart.getDate()
+        day = dom <= getDaysInMonth(month) ? addDays(month, dom - 1) : null
+      }
+      if (day && !emit(withTimeOf(day, dtstart))) return result
+    }
+  }
+  return result
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SERIES
+// A series is the root booking plus every booking whose recurrenceRootId
+// points at it. Occurrences are created ahead of time by
+// materializeSeries(); each remembers the slot it was made for
+// (recurrenceDate) so a moved or cancelled one is never re-created.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type SeriesScope = 'this' | 'following' | 'all'
+
+/** Not started and not closed — the occurrences series-wide edits may touch */
+const EDITABLE_STATUSES: BookingStatus[] = ['To Be Confirmed', 'Pending Deposit', 'Confirmed']
+
+/** Booking fields an edit to "following" / "all" carries to the other occurrences */
+const SERIES_FIELDS = [
+  'clientId', 'duration', 'locationType', 'locationAddress', 'locationNotes', 'venueId',
+  'currency', 'baseRate', 'extras', 'travelFee', 'depositAmount', 'paymentMethod',
+  'requiresSafetyCheck', 'safetyCheckMinutesAfter', 'safetyContactId', 'notes', 'timeZone',
+] as const satisfies readonly (keyof Booking)[]
+
+const dayKey = (d: Date) => format(d, 'yyyy-MM-dd')
+
+function slotOf(b: Booking): Date {
+  return new Date(b.recurrenceDate ?? b.dateTime)
+}
+
+function isEditable(b: Booking): boolean {
+  return EDITABLE_STATUSES.includes(b.status)
+}
+
+export function seriesRootId(b: Booking): string {
+  return b.recurrenceRootId ?? b.id
+}
+
+/** occurrences() on the wall clock of the series' zone, so "every Tuesday 8 PM" holds there. */
+function seriesOccurrences(rule: RecurrenceRule, dtstart: Date, to: Date, zone?: string): Date[] {
+  if (!zone) return occurrences(rule, dtstart, to)
+  return occurrences(rule, zonedWallTime(dtstart, zone), zonedWallTime(to, zone)).map(d => wallTimeToInstant(d, zone))
+}
+
+/** Members in slot order, plus the head that carries the rule's start and exceptions. */
+async function loadSeries(rootId: string): Promise<{ members: Booking[]; head: Booking | undefined }> {
+  const [root, rest] = await Promise.all([
+    db.bookings.get(rootId),
+    db.bookings.where('recurrenceRootId').equals(rootId).toArray(),
+  ])
+  const members = (root ? [root, ...rest] : rest).sort((a, b) => slotOf(a).getTime() - slotOf(b).getTime())
+  // A deleted root hands over to the earliest remaining occurrence
+  return { members, head: root ?? members[0] }
+}
+
+/**
+ * Create the series' missing occurrences up to the horizon. Only slots after
+ * the latest existing one and after now are filled, so past gaps stay gaps.
+ * Free plan keeps just the next occurrence, as before.
+ */
+export async function materializeSeries(rootId: string): Promise<number> {
+  const { members, head } = await loadSeries(rootId)
+  if (!head) return 0
+  const rule = bookingRule(head)
+  if (!rule) return 0
+
+  const latest = members[members.length - 1]
+  const now = new Date()
+  if (!isPro() && members.some(m => isEditable(m) && new Date(m.dateTime) > now)) return 0
+
+  const client = latest.clientId ? await db.clients.get(latest.clientId) : undefined
+  if (!client || client.screeningStatus !== 'Screened') return 0
+
+  const after = Math.max(slotOf(latest).getTime(), now.getTime())
+  const skipped = new Set(head.recurrenceExceptions ?? [])
+  const taken = new Set(members.map(m => dayKey(slotOf(m))))
+  const due = seriesOccurrences(rule, slotOf(head), addWeeks(now, RECURRENCE_HORIZON_WEEKS), head.timeZone)
+    .filter(d => d.getTime() > after && !skipped.has(dayKey(d)) && !taken.has(dayKey(d)))
+    .slice(0, isPro() ? undefined : 1)
+
+  let parent = latest
+  let created = 0
+  for (const date of due) {
+    if (!await canAddBooking()) break
+    const needsDeposit = (latest.depositAmount ?? 0) > 0
+    const next = createBooking({
+      ...Object.fromEntries(SERIES_FIELDS.map(f => [f, latest[f]])),
+      depositMethod: latest.depositMethod,
+      dateTime: date,
+      status: needsDeposit ? 'Pending Deposit' : 'Confirmed',
+      confirmedAt: needsDeposit ? undefined : new Date(),
+      recurrence: head.recurrence,
+      rrule: head.rrule,
+      recurrenceDate: date,
+      parentBookingId: parent.id,
+      recurrenceRootId: rootId,
+    })
+    await db.bookings.add(next)
+    parent = next
+    created++
+  }
+  return created
+}
+
+/** Top up every series — run periodically from the auto-status loop. */
+export async function materializeAllSeries(): Promise<void> {
+  const rootIds = new Set<string>()
+  await db.bookings.each(b => {
+    if (isRecurring(b)) rootIds.add(seriesRootId(b))
+  })
+  for (const rootId of rootIds) await materializeSeries(rootId)
+}
+
+/** Rewrite the rule on every member (e.g. to end it), converting legacy presets. */
+async function setSeriesRule(members: Booking[], rule: RecurrenceRule | null) {
+  const rrule = rule ? formatRRule(rule) : undefined
+  const recurrence = patternFromRule(rule)
+  for (const m of members) await db.bookings.update(m.id, { rrule, recurrence })
+}
+
+/** End the rule on the day before `slot`; later slots are no longer generated. */
+function endRuleBefore(rule: RecurrenceRule, slot: Date): RecurrenceRule {
+  return { ...rule, until: endOfDay(subDays(slot, 1)), count: undefined }
+}
+
+/**
+ * Cut a series in two at `pivot`: earlier occurrences keep the old rule,
+ * ended the day before; the pivot becomes root of itself and everything after.
+ */
+async function splitSeries(pivot: Booking): Promise<void> {
+  const rootId = seriesRootId(pivot)
+  if (rootId === pivot.id) return
+  const { members, head } = await loadSeries(rootId)
+  const rule = head ? bookingRule(head) : null
+  if (!head || !rule) return
+  const pivotSlot = slotOf(pivot)
+  const before = members.filter(m => slotOf(m) < pivotSlot)
+  const from = members.filter(m => slotOf(m) >= pivotSlot)
+
+  // COUNT carries over as whatever the old series had left
+  const used = rule.count ? occurrences(rule, slotOf(head), pivotSlot).filter(d => d < pivotSlot).length : 0
+  const tailRule: RecurrenceRule = rule.count ? { ...rule, count: Math.max(1, rule.count - used) } : rule
+  const pivotKey = dayKey(pivotSlot)
+  const exceptions = head.recurrenceExceptions ?? []
+
+  await db.transaction('rw', db.bookings, async () => {
+    await setSeriesRule(before, endRuleBefore(rule, pivotSlot))
+    await db.bookings.update(head.id, { recurrenceExceptions: exceptions.filter(d => d < pivotKey) })
+    for (const m of from) {
+      await db.bookings.update(m.id, {
+        rrule: formatRRule(tailRule),
+        recurrence: patternFromRule(tailRule),
+        recurrenceRootId: m.id === pivot.id ? undefined : pivot.id,
+        ...(m.id === pivot.id ? { recurrenceExceptions: exceptions.filter(d => d >= pivotKey) } : {}),
+      })
+    }
+  })
+}
+
+/** Whether an edit touches anything the rest of the series would share. */
+export function hasSeriesChanges(original: Booking, changes: Partial<Booking>): boolean {
+  const differs = (a: unknown, b: unknown) => (a instanceof Date || b instanceof Date)
+    ? new Date(a as Date).getTime() !== new Date(b as Date).getTime()
+    : (a ?? '') !== (b ?? '')
+  return SERIES_FIELDS.some(f => f in changes && differs(changes[f], original[f]))
+    || ('dateTime' in changes && differs(changes.dateTime, original.dateTime))
+    || ('rrule' in changes && changes.rrule !== ruleString(original))
+}
+
+/**
+ * Carry an edit of `original` to the rest of its series. The edited booking
+ * itself is saved by the caller; this moves the other editable occurrences
+ * by the same time shift, copies the shared fields, and — if the rule
+ * changed — moves unpaid future occurrences to the trash (with their
+ * checklist and safety checks) so the new rule can refill them.
+ */
+export async function applySeriesEdit(
+  original: Booking,
+  changes: Partial<Booking>,
+  scope: Exclude<SeriesScope, 'this'>
+): Promise<void> {
+  if (scope === 'following') await splitSeries(original)
+  const rootId = scope === 'following' ? original.id : seriesRootId(original)
+  const { members, head } = await loadSeries(rootId)
+  const pivotSlot = slotOf(original)
+  const shiftMs = changes.dateTime ? new Date(changes.dateTime).getTime() - new Date(original.dateTime).getTime() : 0
+  const ruleChanged = 'rrule' in changes && changes.rrule !== ruleString(original)
+  const shared = Object.fromEntries(SERIES_FIELDS.filter(f => f in changes).map(f => [f, changes[f]]))
+  const now = new Date()
+  const dropped: string[] = []
+
+  await db.transaction('rw', [db.bookings, db.payments], async () => {
+    for (const m of members) {
+      const isPivot = m.id === original.id
+      const patch: Partial<Booking> = {}
+      if (shiftMs) patch.recurrenceDate = new Date(slotOf(m).getTime() + shiftMs)
+      if ('rrule' in changes) { patch.rrule = changes.rrule; patch.recurrence = changes.recurrence }
+      const inScope = scope === 'all' || slotOf(m) >= pivotSlot
+      if (!isPivot && inScope && isEditable(m)) {
+        if (ruleChanged && new Date(m.dateTime) > now && slotOf(m) > pivotSlot
+          && await db.payments.where('bookingId').equals(m.id).count() === 0) {
+          dropped.push(m.id)
+          continue
+        }
+        Object.assign(patch, shared)
+        if (shiftMs) patch.dateTime = new Date(new Date(m.dateTime).getTime() + shiftMs)
+      }
+      if (Object.keys(patch).length) await db.bookings.update(m.id, patch)
+    }
+    if (head && shiftMs && head.recurrenceExceptions?.length) {
+      await db.bookings.update(head.id, {
+        recurrenceExceptions: head.recurrenceExceptions.map(d => dayKey(new Date(parseISO(d).getTime() + shiftMs))),
+      })
+    }
+  })
+  for (const id of dropped) await moveToTrash('booking', id)
+  await materializeSeries(rootId)
+}
+
+/**
+ * Cancel the occurrences after `booking` ("following") or every upcoming one
+ * ("all"), and end the rule so no more are created. The booking itself is
+ * cancelled by the caller. Returns how many others were cancelled.
+ */
+export async function cancelSeries(
+  booking: Booking,
+  scope: Exclude<SeriesScope, 'this'>,
+  details: Pick<Booking, 'cancelledBy' | 'cancellationReason'>
+): Promise<number> {
+  const { members, head } = await loadSeries(seriesRootId(booking))
+  const rule = head ? bookingRule(head) : null
+  const pivotSlot = slotOf(booking)
+  const targets = members.filter(m => m.id !== booking.id && isEditable(m) && (scope === 'all' || slotOf(m) > pivotSlot))
+  const firstCut = [pivotSlot, ...targets.map(slotOf)].reduce((a, b) => (b < a ? b : a))
+
+  await db.transaction('rw', db.bookings, async () => {
+    for (const m of targets) {
+      await db.bookings.update(m.id, {
+        status: 'Cancelled',
+        cancelledAt: new Date(),
+        cancelledBy: details.cancelledBy,
+        cancellationReason: details.cancellationReason,
+      })
+    }
+    if (rule) await setSeriesRule(members, endRuleBefore(rule, firstCut))
+  })
+  return targets.length
+}
+
+/** Remember a deleted occurrence's day so the series doesn't re-create it. */
+export async function excludeOccurrence(booking: Booking): Promise<void> {
+  if (!isRecurring(booking)) return
+  const { members } = await loadSeries(seriesRootId(booking))
+  const head = members.find(m => m.id === seriesRootId(booking) && m.id !== booking.id)
+    ?? members.find(m => m.id !== booking.id)
+  if (!head) return
+  const key = dayKey(slotOf(booking))
+  const current = head.recurrenceExceptions ?? []
+  if (!current.includes(key)) await db.bookings.update(head.id, { recurrenceExceptions: [...current, key] })
+}
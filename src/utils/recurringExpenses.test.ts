@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { db } from '../db'
+import { billOccurrences, postDueExpenses, setBillOverride, upcomingBills } from './recurringExpenses'
+import type { RecurringExpense } from '../types'
+
+const day = (y: number, m: number, d: number) => new Date(y, m - 1, d)
+const keys = (expense: RecurringExpense, from: Date, to: Date) => billOccurrences(expense, from, to).map(o => o.key)
+
+function bill(overrides: Partial<RecurringExpense> = {}): RecurringExpense {
+  return {
+    id: 'rent',
+    name: 'Studio rent',
+    amount: 900,
+    category: 'rent',
+    frequency: 'monthly',
+    startDate: day(2026, 1, 31),
+    isActive: true,
+    createdAt: day(2026, 1, 1),
+    ...overrides,
+  }
+}
+
+describe('billOccurrences', () => {
+  it('keeps a month-end bill on the last day of short months', () => {
+    expect(keys(bill(), day(2026, 1, 1), day(2026, 4, 30)))
+      .toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30'])
+  })
+
+  it('steps weekly, fortnightly, quarterly and yearly schedules', () => {
+    const start = day(2026, 1, 5)
+    expect(keys(bill({ frequency: 'biweekly', startDate: start }), start, day(2026, 2, 5)))
+      .toEqual(['2026-01-05', '2026-01-19', '2026-02-02'])
+    expect(keys(bill({ frequency: 'quarterly', startDate: start }), start, day(2026, 12, 31)))
+      .toEqual(['2026-01-05', '2026-04-05', '2026-07-05', '2026-10-05'])
+    expect(keys(bill({ frequency: 'yearly', startDate: start }), start, day(2028, 1, 5)))
+      .toEqual(['2026-01-05', '2027-01-05', '2028-01-05'])
+  })
+
+  it('stops at the end date', () => {
+    expect(keys(bill({ endDate: day(2026, 3, 31) }), day(2026, 1, 1), day(2026, 12, 31)))
+      .toEqual(['2026-01-31', '2026-02-28', '2026-03-31'])
+  })
+
+  it('applies skips and one-off amounts', () => {
+    const expense = bill({ overrides: [{ date: '2026-02-28', skip: true }, { date: '2026-03-31', amount: 950 }] })
+    const [jan, feb, mar] = billOccurrences(expense, day(2026, 1, 1), day(2026, 3, 31))
+    expect([jan.amount, jan.skipped, jan.adjusted]).toEqual([900, false, false])
+    expect(feb.skipped).toBe(true)
+    expect([mar.amount, mar.adjusted]).toEqual([950, true])
+  })
+})
+
+describe('upcomingBills', () => {
+  it('lists unposted occurrences of active bills through the horizon', () => {
+    const posted = bill({ postedThrough: '2026-02-28' })
+    const paused = bill({ id: 'phone', isActive: false })
+    expect(upcomingBills([posted, paused], 45, day(2026, 3, 1)).map(o => o.key)).toEqual(['2026-03-31'])
+  })
+})
+
+describe('postDueExpenses', () => {
+  beforeEach(async () => {
+    await db.recurringExpenses.clear()
+    await db.transactions.clear()
+  })
+
+  it('posts each due occurrence once, skipping skipped ones', async () => {
+    await db.recurringExpenses.add(bill({ overrides: [{ date: '2026-02-28', skip: true }] }))
+
+    expect(await postDueExpenses(day(2026, 3, 31))).toBe(2)
+    expect(await postDueExpenses(day(2026, 3, 31))).toBe(0)
+
+    const posted = await db.transactions.orderBy('date').toArray()
+    expect(posted.map(t => [t.amount, t.category, t.recurringExpenseId, t.notes])).toEqual([
+      [900, 'rent', 'rent', 'Studio rent'],
+      [900, 'rent', 'rent', 'Studio rent'],
+    ])
+    const stored = await db.recurringExpenses.get('rent')
+    expect(stored?.postedThrough).toBe('2026-03-31')
+    expect(stored?.overrides).toEqual([])
+  })
+
+  it('refuses to override a day already posted', async () => {
+    await db.recurringExpenses.add(bill({ postedThrough: '2026-02-28' }))
+    await expect(setBillOverride('rent', '2026-02-28', { skip: true })).rejects.toThrow(/Already posted/)
+    await setBillOverride('rent', '2026-03-31', { amount: 1000 })
+    expect((await db.recurringExpenses.get('rent'))?.overrides).toEqual([{ date: '2026-03-31', amount: 1000 }])
+  })
+})
@@ -0,0 +1,158 @@
+import { addDays, addMonths, addWeeks, endOfDay, format, parseISO, startOfDay } from 'date-fns'
+import { db, createTransaction } from '../db'
+import type { BillFrequency, BillOverride, RecurringExpense } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// RECURRING EXPENSES
+// Bills on a fixed schedule. Each occurrence is posted as an expense
+// Transaction on its day by postDueExpenses(), run from the auto-status
+// loop. A single occurrence can be skipped or re-priced ahead of time
+// (overrides) without touching the rest of the schedule.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const BILL_FREQUENCIES: BillFrequency[] = ['weekly', 'biweekly', 'monthly', 'quarterly', 'yearly']
+
+export const FREQUENCY_LABELS: Record<BillFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  quarterly: 'Every 3 months',
+  yearly: 'Yearly',
+}
+
+/** How far ahead the upcoming-bills list looks */
+export const UPCOMING_BILLS_DAYS = 30
+
+const dayKey = (d: Date) => format(d, 'yyyy-MM-dd')
+
+/**
+ * The nth scheduled day. Months are counted from the start date rather than
+ * the previous occurrence, so a bill on the 31st lands on the last day of
+ * shorter months and returns to the 31st after.
+ */
+function nthOccurrence(start: Date, frequency: BillFrequency, n: number): Date {
+  switch (frequency) {
+    case 'weekly': return addWeeks(start, n)
+    case 'biweekly': return addWeeks(start, n * 2)
+    case 'monthly': return addMonths(start, n)
+    case 'quarterly': return addMonths(start, n * 3)
+    case 'yearly': return addMonths(start, n * 12)
+  }
+}
+
+export interface BillOccurrence {
+  expense: RecurringExpense
+  date: Date
+  /** The scheduled day, "yyyy-MM-dd" — what overrides are keyed on */
+  key: string
+  /** After any override */
+  amount: number
+  skipped: boolean
+  adjusted: boolean
+}
+
+/** Scheduled occurrences on the days `from` … `to`, overrides applied. */
+export function billOccurrences(expense: RecurringExpense, from: Date, to: Date): BillOccurrence[] {
+  const start = startOfDay(new Date(expense.startDate))
+  const end = expense.endDate ? endOfDay(new Date(expense.endDate)) : null
+  const last = end && end < to ? end : to
+  const first = startOfDay(from)
+  const overrides = new Map((expense.overrides ?? []).map(o => [o.date, o]))
+  const result: BillOccurrence[] = []
+
+  // Bounded by `last`; the cap only guards against a bad record
+  for (let n = 0; n < 5000; n++) {
+    const date = nthOccurrence(start, expense.frequency, n)
+    if (date > last) break
+    if (date < first) continue
+    const key = dayKey(date)
+    const override = overrides.get(key)
+    result.push({
+      expense,
+      date,
+      key,
+      amount: override?.amount ?? expense.amount,
+      skipped: !!override?.skip,
+      adjusted: override?.amount !== undefined,
+    })
+  }
+  return result
+}
+
+/** First day not yet posted */
+function nextUnposted(expense: RecurringExpense): Date {
+  return expense.postedThrough ? addDays(parseISO(expense.postedThrough), 1) : new Date(expense.startDate)
+}
+
+/** Occurrences still to be posted, from tomorrow (or the next unposted day) through `days` ahead. */
+export function upcomingBills(expenses: RecurringExpense[], days = UPCOMING_BILLS_DAYS, now = new Date()): BillOccurrence[] {
+  const horizon = endOfDay(addDays(now, days))
+  return expenses
+    .filter(e => e.isActive)
+    .flatMap(e => billOccurrences(e, nextUnposted(e), horizon))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+/** The expense an occurrence posts as */
+function postingFor(o: BillOccurrence) {
+  const { expense } = o
+  return createTransaction({
+    amount: o.amount,
+    currency: expense.currency,
+    type: 'expense',
+    category: expense.category,
+    paymentMethod: expense.paymentMethod,
+    date: o.date,
+    notes: expense.name,
+    recurringExpenseId: expense.id,
+  })
+}
+
+/** Post one bill's due occurrences. Re-read inside the transaction so a day is never posted twice. */
+async function postExpense(id: string, now: Date): Promise<number> {
+  return db.transaction('rw', [db.recurringExpenses, db.transactions], async () => {
+    const expense = await db.recurringExpenses.get(id)
+    if (!expense?.isActive) return 0
+    const due = billOccurrences(expense, nextUnposted(expense), endOfDay(now))
+    if (due.length === 0) return 0
+    const postings = due.filter(o => !o.skipped && o.amount > 0).map(postingFor)
+    if (postings.length) await db.transactions.bulkAdd(postings)
+    // Overrides for posted days have done their job
+    const postedThrough = due[due.length - 1].key
+    await db.recurringExpenses.update(id, {
+      postedThrough,
+      overrides: (expense.overrides ?? []).filter(o => o.date > postedThrough),
+    })
+    return postings.length
+  })
+}
+
+/** Post every active bill that has come due — run periodically from the auto-status loop. */
+export async function postDueExpenses(now = new Date()): Promise<number> {
+  const expenses = await db.recurringExpenses.toArray()
+  let posted = 0
+  for (const e of expenses) {
+    if (e.isActive) posted += await postExpense(e.id, now)
+  }
+  return posted
+}
+
+/** Skip, re-price or (with null) restore a single unposted occurrence. */
+export async function setBillOverride(
+  expenseId: string,
+  key: string,
+  change: Omit<BillOverride, 'date'> | null,
+): Promise<void> {
+  await db.transaction('rw', db.recurringExpenses, async () => {
+    const expense = await db.recurringExpenses.get(expenseId)
+    if (!expense) return
+    if (expense.postedThrough && key <= expense.postedThrough) {
+      throw new Error('Already posted — edit the expense instead')
+    }
+    const rest = (expense.overrides ?? []).filter(o => o.date !== key)
+    await db.recurringExpenses.update(expenseId, {
+      overrides: change ? [...rest, { date: key, ...change }] : rest,
+      updatedAt: new Date(),
+    })
+  })
+}
@@ -0,0 +1,171 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Restore preview & selective restore
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Compares a parsed backup against the live database and restores only the
+// chosen tables — either replacing them outright or merging record by record
+// (new records added, changed records keep whichever copy is newer, local-only
+// records left alone). Profile settings are never touched here.
+
+import { db } from '../db'
+import { excludeFromHistory } from '../db/revisions'
+import { clearSyncedTable } from '../db/sync'
+import { prepareBackupTables, sealBackupDocs, BACKUP_TABLES, type BackupPayload, type BackupTableName } from './backup'
+
+export type RestoreMode = 'replace' | 'merge'
+
+export interface TableDiff {
+  table: BackupTableName
+  label: string
+  /** In the backup but not on this device */
+  added: number
+  /** On both, with different contents */
+  changed: number
+  identical: number
+  /** On this device but not in the backup */
+  localOnly: number
+}
+
+export const BACKUP_TABLE_LABELS: Record<BackupTableName, string> = {
+  clients: 'Clients',
+  bookings: 'Bookings',
+  transactions: 'Transactions',
+  availability: 'Availability',
+  safetyContacts: 'Safety contacts',
+  safetyChecks: 'Safety check-ins',
+  incidents: 'Incidents',
+  serviceRates: 'Service rates',
+  payments: 'Payments',
+  journalEntries: 'Journal entries',
+  incallVenues: 'Incall venues',
+  screeningDocs: 'Screening documents',
+  venueDocs: 'Venue documents',
+  bookingChecklist: 'Booking checklists',
+  availabilityTemplates: 'Weekly availability',
+  blockedTimes: 'Blocked time',
+  tours: 'Tours',
+  waitlist: 'Waitlist',
+  fxRates: 'Exchange rates',
+  taxPayments: 'Tax payments',
+  receipts: 'Receipts',
+  recurringExpenses: 'Recurring expenses',
+}
+
+// Fields that move forward when a record is edited, most telling first.
+// Records without any of these can't be ordered — merge keeps the local copy.
+const MODIFIED_FIELDS: Partial<Record<BackupTableName, string[]>> = {
+  clients:        ['lastSeen', 'dateAdded'],
+  bookings:       ['completedAt', 'cancelledAt', 'confirmedAt', 'createdAt'],
+  safetyChecks:   ['checkedInAt', 'scheduledTime'],
+  journalEntries: ['updatedAt', 'createdAt'],
+  incallVenues:   ['updatedAt', 'createdAt'],
+  screeningDocs:  ['uploadedAt'],
+  venueDocs:      ['uploadedAt'],
+  receipts:       ['uploadedAt'],
+  bookingChecklist: ['createdAt'],
+  blockedTimes:   ['importedAt'],
+  tours:          ['updatedAt', 'createdAt'],
+  waitlist:       ['createdAt'],
+  recurringExpenses: ['updatedAt', 'createdAt'],
+}
+
+type Row = Record<string, unknown>
+
+/** Key-order-independent serialization; Dates as ISO, Blobs by size/type. */
+function canonical(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString())
+  if (value instanceof Blob) return JSON.stringify(`blob:${value.size}:${value.type}`)
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Row)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+function modifiedAt(table: BackupTableName, rec: Row): number {
+  let latest = 0
+  for (const f of MODIFIED_FIELDS[table] ?? []) {
+    const v = rec[f]
+    const t = v instanceof Date ? v.getTime() : typeof v === 'string' ? new Date(v).getTime() : NaN
+    if (!isNaN(t) && t > latest) latest = t
+  }
+  return latest
+}
+
+async function localRows(table: BackupTableName): Promise<Map<string, Row>> {
+  const rows = await db.table(table).toArray() as Row[]
+  return new Map(rows.map(r => [String(r.id), r]))
+}
+
+/**
+ * Per-table comparison of a backup against the live database. Rehydrates the
+ * payload's Dates and Blobs in place and seals documents with this device's
+ * key (same as restoreBackup would), so sealed copies compare like for like
+ * and the payload can be passed straight on to restoreSelectedTables().
+ */
+export async function previewRestore(payload: BackupPayload): Promise<TableDiff[]> {
+  prepareBackupTables(payload.tables)
+  await sealBackupDocs(payload.tables)
+  const diffs: TableDiff[] = []
+  for (const table of BACKUP_TABLES) {
+    const incoming = (payload.tables[table] ?? []) as Row[]
+    const local = await localRows(table)
+    const diff: TableDiff = { table, label: BACKUP_TABLE_LABELS[table], added: 0, changed: 0, identical: 0, localOnly: 0 }
+    const seen = new Set<string>()
+    for (const rec of incoming) {
+      const id = String(rec.id)
+      seen.add(id)
+      const current = local.get(id)
+      if (!current) diff.added++
+      else if (canonical(current) === canonical(rec)) diff.identical++
+      else diff.changed++
+    }
+    for (const id of local.keys()) if (!seen.has(id)) diff.localOnly++
+    if (incoming.length > 0 || local.size > 0) diffs.push(diff)
+  }
+  return diffs
+}
+
+/**
+ * Restore only the chosen tables from a backup already passed through
+ * previewRestore(). 'replace' makes each chosen table match the backup
+ * exactly; 'merge' adds missing records and overwrites a local record only
+ * when the backup copy is demonstrably newer.
+ */
+export async function restoreSelectedTables(
+  payload: BackupPayload,
+  tables: BackupTableName[],
+  mode: RestoreMode,
+): Promise<{ written: number }> {
+  prepareBackupTables(payload.tables)
+  await sealBackupDocs(payload.tables)
+  let written = 0
+  const chosen = BACKUP_TABLES.filter(t => tables.includes(t))
+
+  await db.transaction('rw', chosen.map(t => db.table(t)), async (tx) => {
+    // Merges are ordinary edits worth logging; wholesale replacement isn't
+    if (mode === 'replace') excludeFromHistory(tx)
+    for (const table of chosen) {
+      const incoming = (payload.tables[table] ?? []) as Row[]
+      if (mode === 'replace') {
+        await clearSyncedTable(db.table(table))
+        if (incoming.length) await db.table(table).bulkPut(incoming)
+        written += incoming.length
+        continue
+      }
+      const local = await localRows(table)
+      const toWrite = incoming.filter(rec => {
+        const current = local.get(String(rec.id))
+        if (!current) return true
+        if (canonical(current) === canonical(rec)) return false
+        return modifiedAt(table, rec) > modifiedAt(table, current)
+      })
+      if (toWrite.length) await db.table(table).bulkPut(toWrite)
+      written += toWrite.length
+    }
+  })
+
+  return { written }
+}
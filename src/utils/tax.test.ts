@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import { createTransaction } from '../db'
+import { createFxConverter } from './fx'
+import {
+  DEFAULT_TAX_PROFILE, bracketTax, estimateTax, installmentDueDate, installmentFromDate,
+  installmentSchedule, resolveTaxProfile, summarizeTaxYear, taxOnProfit, taxYearEnd, taxYearLabel,
+  taxYearOf, taxYearStart,
+} from './tax'
+import type { TaxPayment, TransactionCategory, TransactionType } from '../types'
+
+const calendar = DEFAULT_TAX_PROFILE
+// UK-style year: 6 April – 5 April
+const april = resolveTaxProfile({ yearStartMonth: 3, yearStartDay: 6 })
+const day = (y: number, m: number, d: number) => new Date(y, m - 1, d)
+
+describe('bracketTax', () => {
+  const brackets = [{ from: 12000, rate: 20 }, { from: 0, rate: 10 }, { from: 50000, rate: 30 }]
+
+  it('charges each rate only on the slice of profit inside its bracket', () => {
+    expect(bracketTax(10000, brackets)).toBe(1000)
+    expect(bracketTax(12000, brackets)).toBe(1200)
+    expect(bracketTax(30000, brackets)).toBe(1200 + 3600)
+    expect(bracketTax(60000, brackets)).toBe(1200 + 7600 + 3000)
+  })
+
+  it('is zero with no profit', () => {
+    expect(bracketTax(0, brackets)).toBe(0)
+    expect(taxOnProfit(-500, { ...calendar, method: 'brackets', brackets }, 25)).toBe(0)
+  })
+
+  it('uses the flat rate unless the profile says brackets', () => {
+    expect(taxOnProfit(1000, calendar, 25)).toBe(250)
+    expect(taxOnProfit(30000, { ...calendar, method: 'brackets', brackets }, 25)).toBe(4800)
+  })
+})
+
+describe('tax years', () => {
+  it('places dates in the year they start in', () => {
+    expect(taxYearOf(day(2026, 4, 5), april)).toBe(2025)
+    expect(taxYearOf(day(2026, 4, 6), april)).toBe(2026)
+    expect(taxYearOf(day(2026, 12, 31), calendar)).toBe(2026)
+  })
+
+  it('runs from the start day to just before the next', () => {
+    expect(taxYearStart(2026, april)).toEqual(day(2026, 4, 6))
+    expect(taxYearEnd(2026, april)).toEqual(new Date(day(2027, 4, 6).getTime() - 1))
+  })
+
+  it('labels split years by both calendar years', () => {
+    expect(taxYearLabel(2026, calendar)).toBe('2026')
+    expect(taxYearLabel(2026, april)).toBe('2026–27')
+  })
+})
+
+describe('installments', () => {
+  it('counts months from the start of the tax year', () => {
+    expect(calendar.installments.map(i => installmentDueDate(2026, i, calendar)))
+      .toEqual([day(2026, 4, 15), day(2026, 6, 15), day(2026, 9, 15), day(2027, 1, 15)])
+  })
+
+  it('clamps the day to short months', () => {
+    expect(installmentDueDate(2026, { monthsAfterStart: 1, day: 31 }, calendar)).toEqual(day(2026, 2, 28))
+  })
+
+  it('inverts a picked due date back to a schedule entry', () => {
+    const inst = installmentFromDate(2026, day(2027, 1, 31), april)
+    expect(inst).toEqual({ monthsAfterStart: 9, day: 31 })
+    expect(installmentDueDate(2026, inst, april)).toEqual(day(2027, 1, 31))
+  })
+
+  it('marks each installment paid, overdue or upcoming', () => {
+    const payments = [
+      { id: 'p1', taxYear: 2026, installment: 1, amount: 999, date: day(2026, 4, 10) },
+      { id: 'p2', taxYear: 2025, installment: 2, amount: 1000, date: day(2025, 6, 10) },
+    ] as TaxPayment[]
+    const schedule = installmentSchedule(2026, calendar, 4000, payments, day(2026, 7, 1))
+    expect(schedule.map(s => [s.number, s.target, s.paid, s.status])).toEqual([
+      [1, 1000, 999, 'paid'],
+      [2, 1000, 0, 'overdue'],
+      [3, 1000, 0, 'upcoming'],
+      [4, 1000, 0, 'upcoming'],
+    ])
+  })
+})
+
+describe('summarizeTaxYear', () => {
+  const tx = (type: TransactionType, category: TransactionCategory, amount: number, date: Date, currency = 'USD') =>
+    createTransaction({ type, category, amount, date, currency })
+
+  const transactions = [
+    tx('income', 'booking', 1000, day(2026, 2, 1)),
+    tx('income', 'booking', 100, day(2026, 3, 1), 'EUR'),
+    tx('income', 'tip', 50, day(2026, 3, 2)),
+    tx('expense', 'rent', 300, day(2026, 3, 3)),
+    tx('expense', 'phone', 40, day(2026, 3, 4)),
+    tx('expense', 'clothing', 80, day(2026, 3, 5)),
+    tx('income', 'booking', 9999, day(2025, 12, 31)),
+  ]
+  const fx = createFxConverter([{ id: 'r', base: 'EUR', quote: 'USD', rate: 1.5, date: day(2026, 1, 1) }], 'USD', 'USD')
+
+  it('groups income, deduction lines and non-deductible spending in the home currency', () => {
+    const s = summarizeTaxYear(transactions, 2026, calendar, fx)
+    expect(s.transactions).toHaveLength(6)
+    expect(s.income).toEqual([
+      { category: 'booking', amount: 1150, count: 2 },
+      { category: 'tip', amount: 50, count: 1 },
+    ])
+    expect(s.grossIncome).toBe(1200)
+    expect(s.deductions).toEqual([
+      { line: 'Rent or lease', amount: 300, categories: ['rent'] },
+      { line: 'Utilities & phone', amount: 40, categories: ['phone'] },
+    ])
+    expect(s.totalNonDeductible).toBe(80)
+    expect(s.taxableProfit).toBe(860)
+    expect(s.missingRates).toEqual([])
+  })
+
+  it('projects the year from the share of it gone by', () => {
+    const s = summarizeTaxYear(transactions, 2026, calendar, fx)
+    const estimate = estimateTax(s, calendar, 25, day(2026, 7, 2))
+    expect(estimate.elapsed).toBeCloseTo(183 / 365)
+    expect(estimate.taxSoFar).toBe(215)
+    expect(estimate.projectedProfit).toBeCloseTo(860 * 365 / 183)
+    expect(estimate.effectiveRate).toBeCloseTo(0.25)
+
+    const early = estimateTax(s, calendar, 25, day(2026, 1, 3))
+    expect(early.projectedProfit).toBeCloseTo(860 * 12)
+    expect(estimateTax(s, calendar, 25, day(2027, 3, 1)).projectedProfit).toBe(860)
+  })
+})
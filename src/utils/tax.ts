@@ -0,0 +1,486 @@
+import { addMonths, differenceInCalendarDays, getDaysInMonth } from 'date-fns'
+import { getCurrency } from '../db'
+import { readSetting } from '../hooks/useSettings'
+import { convertAmounts } from './fx'
+import type { FxConverter } from './fx'
+import type { TaxPayment, Transaction, TransactionCategory } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TAX YEAR
+// Everything here is in the home currency — the one the tax authority
+// wants. A tax year is named by the calendar year it starts in. Expense
+// categories map to deduction lines (or to none: not deductible); taxable
+// profit is income less deductible expenses. This is an estimate for
+// budgeting and for the accountant's summary, not tax advice.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** localStorage key — the flat rate, kept from before tax profiles so old settings carry over */
+export const TAX_RATE_KEY = 'taxRate'
+/** localStorage key — everything else in the tax profile */
+export const TAX_PROFILE_KEY = 'taxProfile'
+
+export const DEDUCTION_LINES = [
+  'Advertising',
+  'Travel',
+  'Rent or lease',
+  'Supplies',
+  'Utilities & phone',
+  'Wardrobe & costumes',
+  'Health & wellbeing',
+  'Refunds to clients',
+  'Professional fees',
+  'Other expenses',
+] as const
+
+export type DeductionLine = typeof DEDUCTION_LINES[number]
+
+export type TaxMethod = 'flat' | 'brackets'
+
+/** `rate` percent is charged on profit above `from` (up to the next bracket's `from`) */
+export interface TaxBracket {
+  from: number
+  rate: number
+}
+
+/** An estimated payment due date, relative to the start of the tax year */
+export interface TaxInstallment {
+  monthsAfterStart: number
+  day: number
+}
+
+export interface TaxProfile {
+  yearStartMonth: number  // 0–11
+  yearStartDay: number
+  method: TaxMethod
+  brackets: TaxBracket[]
+  /** Expense category → deduction line; null = not deductible */
+  deductions: Partial<Record<TransactionCategory, DeductionLine | null>>
+  /** Estimated payment schedule; empty = no estimated payments */
+  installments: TaxInstallment[]
+}
+
+export const EXPENSE_CATEGORIES: TransactionCategory[] = [
+  'supplies', 'travel', 'advertising', 'clothing', 'health', 'rent', 'phone', 'refund', 'other',
+]
+
+export const DEFAULT_DEDUCTIONS: Record<TransactionCategory, DeductionLine | null> = {
+  booking: null,
+  tip: null,
+  gift: null,
+  supplies: 'Supplies',
+  travel: 'Travel',
+  advertising: 'Advertising',
+  clothing: null,
+  health: null,
+  rent: 'Rent or lease',
+  phone: 'Utilities & phone',
+  refund: 'Refunds to clients',
+  other: 'Other expenses',
+}
+
+export const DEFAULT_TAX_PROFILE: TaxProfile = {
+  yearStartMonth: 0,
+  yearStartDay: 1,
+  method: 'flat',
+  brackets: [
+    { from: 0, rate: 10 },
+    { from: 12000, rate: 20 },
+    { from: 50000, rate: 30 },
+  ],
+  deductions: DEFAULT_DEDUCTIONS,
+  // Apr 15, Jun 15, Sep 15 and Jan 15 for a calendar tax year
+  installments: [
+    { monthsAfterStart: 3, day: 15 },
+    { monthsAfterStart: 5, day: 15 },
+    { monthsAfterStart: 8, day: 15 },
+    { monthsAfterStart: 12, day: 15 },
+  ],
+}
+
+/** Stored profile over the defaults, for use outside React */
+export function readTaxProfile(): TaxProfile {
+  return resolveTaxProfile(readSetting<Partial<TaxProfile>>(TAX_PROFILE_KEY, {}))
+}
+
+export function resolveTaxProfile(stored: Partial<TaxProfile>): TaxProfile {
+  return {
+    ...DEFAULT_TAX_PROFILE,
+    ...stored,
+    deductions: { ...DEFAULT_DEDUCTIONS, ...stored.deductions },
+  }
+}
+
+export function deductionLineFor(category: TransactionCategory, profile: TaxProfile): DeductionLine | null {
+  return profile.deductions[category] ?? null
+}
+
+// ── Dates ──────────────────────────────────────────────────────────────
+
+function dayInMonth(year: number, month: number, day: number): Date {
+  const first = new Date(year, month, 1)
+  return new Date(year, month, Math.min(day, getDaysInMonth(first)))
+}
+
+export function taxYearStart(year: number, profile: TaxProfile): Date {
+  return dayInMonth(year, profile.yearStartMonth, profile.yearStartDay)
+}
+
+/** Last millisecond of the tax year */
+export function taxYearEnd(year: number, profile: TaxProfile): Date {
+  return new Date(taxYearStart(year + 1, profile).getTime() - 1)
+}
+
+/** The tax year `date` falls in */
+export function taxYearOf(date: Date, profile: TaxProfile): number {
+  const year = date.getFullYear()
+  return date < taxYearStart(year, profile) ? year - 1 : year
+}
+
+/** "2026" for a calendar tax year, "2026–27" otherwise */
+export function taxYearLabel(year: number, profile: TaxProfile): string {
+  if (profile.yearStartMonth === 0 && profile.yearStartDay === 1) return String(year)
+  return `${year}–${String(year + 1).slice(-2)}`
+}
+
+export function installmentDueDate(year: number, inst: TaxInstallment, profile: TaxProfile): Date {
+  const month = addMonths(taxYearStart(year, profile), inst.monthsAfterStart)
+  return dayInMonth(month.getFullYear(), month.getMonth(), inst.day)
+}
+
+/** The schedule entry for a due date picked in `year` — the inverse of installmentDueDate */
+export function installmentFromDate(year: number, due: Date, profile: TaxProfile): TaxInstallment {
+  const start = taxYearStart(year, profile)
+  const monthsAfterStart = (due.getFullYear() - start.getFullYear()) * 12 + due.getMonth() - start.getMonth()
+  return { monthsAfterStart: Math.max(0, monthsAfterStart), day: due.getDate() }
+}
+
+// ── Tax ────────────────────────────────────────────────────────────────
+
+/** Progressive tax: each bracket's rate applies only to the slice of profit inside it */
+export function bracketTax(profit: number, brackets: TaxBracket[]): number {
+  const sorted = [...brackets].sort((a, b) => a.from - b.from)
+  let tax = 0
+  for (let i = 0; i < sorted.length; i++) {
+    const lower = sorted[i].from
+    const upper = sorted[i + 1]?.from ?? Infinity
+    if (profit <= lower) break
+    tax += (Math.min(profit, upper) - lower) * sorted[i].rate / 100
+  }
+  return tax
+}
+
+export function taxOnProfit(profit: number, profile: TaxProfile, flatRate: number): number {
+  if (profit <= 0) return 0
+  return profile.method === 'brackets' ? bracketTax(profit, profile.brackets) : profit * flatRate / 100
+}
+
+// ── Year summary ───────────────────────────────────────────────────────
+
+export type TaxTransaction = Transaction & { originalAmount: number }
+
+export interface TaxYearSummary {
+  year: number
+  label: string
+  start: Date
+  end: Date
+  /** Home currency — every amount below is in it */
+  currency: string
+  /** The year's transactions, converted, oldest first */
+  transactions: TaxTransaction[]
+  income: { category: TransactionCategory; amount: number; count: number }[]
+  grossIncome: number
+  deductions: { line: DeductionLine; amount: number; categories: TransactionCategory[] }[]
+  totalDeductions: number
+  nonDeductible: { category: TransactionCategory; amount: number }[]
+  totalNonDeductible: number
+  taxableProfit: number
+  /** Currencies with no rate to the home currency — those amounts count as 0 */
+  missingRates: string[]
+}
+
+/** Group a tax year's income and expenses the way an accountant reads them. `fx` must convert to the home currency. */
+export function summarizeTaxYear(
+  transactions: Transaction[],
+  year: number,
+  profile: TaxProfile,
+  fx: FxConverter,
+): TaxYearSummary {
+  const start = taxYearStart(year, profile)
+  const end = taxYearEnd(year, profile)
+  const inYear = transactions
+    .filter(t => { const d = new Date(t.date); return d >= start && d <= end })
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  const { rows, missing } = convertAmounts(inYear, t => t.date, fx)
+
+  const income = new Map<TransactionCategory, { amount: number; count: number }>()
+  const lines = new Map<DeductionLine, { amount: number; categories: Set<TransactionCategory> }>()
+  const nonDeductible = new Map<TransactionCategory, number>()
+  for (const t of rows) {
+    if (t.type === 'income') {
+      const entry = income.get(t.category) ?? { amount: 0, count: 0 }
+      entry.amount += t.amount
+      entry.count++
+      income.set(t.category, entry)
+      continue
+    }
+    const line = deductionLineFor(t.category, profile)
+    if (!line) {
+      nonDeductible.set(t.category, (nonDeductible.get(t.category) ?? 0) + t.amount)
+      continue
+    }
+    const entry = lines.get(line) ?? { amount: 0, categories: new Set() }
+    entry.amount += t.amount
+    entry.categories.add(t.category)
+    lines.set(line, entry)
+  }
+
+  const grossIncome = [...income.values()].reduce((s, e) => s + e.amount, 0)
+  const totalDeductions = [...lines.values()].reduce((s, e) => s + e.amount, 0)
+  return {
+    year,
+    label: taxYearLabel(year, profile),
+    start,
+    end,
+    currency: fx.to,
+    transactions: rows,
+    income: [...income.entries()]
+      .map(([category, e]) => ({ category, ...e }))
+      .sort((a, b) => b.amount - a.amount),
+    grossIncome,
+    // Deduction lines in their fixed order, so every year's report lines up
+    deductions: DEDUCTION_LINES
+      .filter(line => lines.has(line))
+      .map(line => ({ line, amount: lines.get(line)!.amount, categories: [...lines.get(line)!.categories] })),
+    totalDeductions,
+    nonDeductible: [...nonDeductible.entries()]
+      .map(([category, amount]) => ({ category, amount }))
+      .sort((a, b) => b.amount - a.amount),
+    totalNonDeductible: [...nonDeductible.values()].reduce((s, a) => s + a, 0),
+    taxableProfit: grossIncome - totalDeductions,
+    missingRates: missing,
+  }
+}
+
+export interface TaxEstimate {
+  /** Tax on the profit made so far */
+  taxSoFar: number
+  /** Profit so far scaled up to the whole year; the actual profit once the year is over */
+  projectedProfit: number
+  projectedTax: number
+  /** projectedTax / projectedProfit — applied to shorter periods on the Finances page */
+  effectiveRate: number
+  /** Share of the tax year gone by at `asOf`, 0–1 */
+  elapsed: number
+}
+
+export function estimateTax(summary: TaxYearSummary, profile: TaxProfile, flatRate: number, asOf: Date): TaxEstimate {
+  const totalDays = differenceInCalendarDays(summary.end, summary.start) + 1
+  const elapsed = Math.min(1, Math.max(0, (differenceInCalendarDays(asOf, summary.start) + 1) / totalDays))
+  // Don't extrapolate from the first few days — treat at least a month as gone by
+  const projectedProfit = elapsed >= 1 ? summary.taxableProfit : summary.taxableProfit / Math.max(elapsed, 1 / 12)
+  const projectedTax = taxOnProfit(projectedProfit, profile, flatRate)
+  return {
+    taxSoFar: taxOnProfit(summary.taxableProfit, profile, flatRate),
+    projectedProfit,
+    projectedTax,
+    effectiveRate: projectedProfit > 0 ? projectedTax / projectedProfit : (profile.method === 'flat' ? flatRate / 100 : 0),
+    elapsed,
+  }
+}
+
+// ── Estimated payments ─────────────────────────────────────────────────
+
+export type InstallmentStatus = 'paid' | 'overdue' | 'upcoming'
+
+export interface InstallmentState {
+  /** 1-based, matches TaxPayment.installment */
+  number: number
+  due: Date
+  /** Even share of the projected tax */
+  target: number
+  paid: number
+  status: InstallmentStatus
+}
+
+export function installmentSchedule(
+  year: number,
+  profile: TaxProfile,
+  projectedTax: number,
+  payments: TaxPayment[],
+  asOf: Date,
+): InstallmentState[] {
+  const count = profile.installments.length
+  return profile.installments
+    .map(inst => installmentDueDate(year, inst, profile))
+    .sort((a, b) => a.getTime() - b.getTime())
+    .map((due, i) => {
+      const number = i + 1
+      const target = count > 0 ? Math.round(projectedTax / count) : 0
+      const paid = payments
+        .filter(p => p.taxYear === year && p.installment === number)
+        .reduce((s, p) => s + p.amount, 0)
+      // Within a unit of the target counts as paid — targets are rounded
+      const status: InstallmentStatus = paid > 0 && paid >= target - 1 ? 'paid'
+        : due < asOf ? 'overdue' : 'upcoming'
+      return { number, due, target, paid, status }
+    })
+}
+
+/** The first installment still to pay */
+export function nextInstallment(schedule: InstallmentState[]): InstallmentState | undefined {
+  return schedule.find(s => s.status !== 'paid')
+}
+
+/** A tax year with its estimate and payments — what the report screen and the exports are built from */
+export interface TaxYearReport {
+  summary: TaxYearSummary
+  estimate: TaxEstimate
+  schedule: InstallmentState[]
+  payments: TaxPayment[]
+  totalPaid: number
+  method: TaxMethod
+  flatRate: number
+}
+
+export function buildTaxYearReport(
+  transactions: Transaction[],
+  payments: TaxPayment[],
+  year: number,
+  profile: TaxProfile,
+  flatRate: number,
+  fx: FxConverter,
+  asOf: Date = new Date(),
+): TaxYearReport {
+  const summary = summarizeTaxYear(transactions, year, profile, fx)
+  const estimate = estimateTax(summary, profile, flatRate, asOf)
+  const yearPayments = payments
+    .filter(p => p.taxYear === year)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  return {
+    summary,
+    estimate,
+    schedule: installmentSchedule(year, profile, estimate.projectedTax, yearPayments, asOf),
+    payments: yearPayments,
+    totalPaid: yearPayments.reduce((s, p) => s + p.amount, 0),
+    method: profile.method,
+    flatRate,
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// YEAR-END SUMMARY (HTML)
+// A standalone page with print styles — open it and print to PDF.
+// The XLSX version lives in utils/exportExcel.ts.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const CATEGORY_LABELS: Record<TransactionCategory, string> = {
+  booking: 'Bookings', tip: 'Tips', gift: 'Gifts', refund: 'Refunds', supplies: 'Supplies',
+  travel: 'Travel', advertising: 'Advertising', clothing: 'Clothing', health: 'Health',
+  rent: 'Rent', phone: 'Phone', other: 'Other',
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function moneyFormatter(currency: string): (amount: number) => string {
+  try {
+    const nf = new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: 2 })
+    return amount => nf.format(amount)
+  } catch {
+    return amount => `${amount.toFixed(2)} ${currency}`
+  }
+}
+
+function isoDay(d: Date): string {
+  return new Date(d).toLocaleDateString('en-CA')
+}
+
+export function taxYearReportHtml(report: TaxYearReport, businessName?: string): string {
+  const { summary, estimate, schedule, payments } = report
+  const money = moneyFormatter(summary.currency)
+  const row = (label: string, amount: number, cls = '') =>
+    `<tr class="${cls}"><td>${escapeHtml(label)}</td><td class="num">${money(amount)}</td></tr>`
+  const home = getCurrency()
+
+  const foreign = summary.transactions.filter(t => (t.currency || home) !== summary.currency)
+  const basis = report.method === 'brackets' ? 'progressive brackets' : `flat ${report.flatRate}%`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Tax year ${escapeHtml(summary.label)} summary</title>
+<style>
+  body { font: 11pt/1.45 -apple-system, 'Segoe UI', Arial, sans-serif; color: #18181b; max-width: 760px; margin: 32px auto; padding: 0 16px; }
+  h1 { font-size: 18pt; margin: 0 0 4px; }
+  h2 { font-size: 12pt; margin: 28px 0 8px; padding-bottom: 4px; border-bottom: 2px solid #7c3aed; }
+  .meta { color: #52525b; font-size: 9.5pt; margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { padding: 5px 6px; border-bottom: 1px solid #e4e4e7; text-align: left; vertical-align: top; }
+  th { font-size: 9pt; text-transform: uppercase; letter-spacing: .03em; color: #52525b; }
+  .num { text-align: right; white-space: nowrap; font-variant-numeric: tabular-nums; }
+  .total td { font-weight: 700; border-top: 1.5px solid #18181b; }
+  .muted { color: #71717a; }
+  .note { font-size: 9pt; color: #71717a; margin-top: 24px; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Tax year ${escapeHtml(summary.label)}</h1>
+<p class="meta">${businessName ? `${escapeHtml(businessName)} · ` : ''}${isoDay(summary.start)} to ${isoDay(summary.end)} · amounts in ${escapeHtml(summary.currency)}</p>
+<p class="meta">Prepared ${isoDay(new Date())}</p>
+
+<h2>Income</h2>
+<table>
+${summary.income.map(i => row(`${CATEGORY_LABELS[i.category]} (${i.count})`, i.amount)).join('\n')}
+${row('Gross income', summary.grossIncome, 'total')}
+</table>
+
+<h2>Deductible expenses</h2>
+<table>
+${summary.deductions.map(d => row(`${d.line} — ${d.categories.map(c => CATEGORY_LABELS[c]).join(', ')}`, d.amount)).join('\n')}
+${row('Total deductions', summary.totalDeductions, 'total')}
+</table>
+
+<h2>Net profit</h2>
+<table>
+${row('Gross income', summary.grossIncome)}
+${row('Less deductible expenses', -summary.totalDeductions)}
+${row('Taxable profit', summary.taxableProfit, 'total')}
+</table>
+
+${summary.nonDeductible.length > 0 ? `<h2>Not deducted</h2>
+<table>
+${summary.nonDeductible.map(n => row(CATEGORY_LABELS[n.category], n.amount)).join('\n')}
+${row('Total not deducted', summary.totalNonDeductible, 'total')}
+</table>` : ''}
+
+<h2>Estimated tax</h2>
+<table>
+${row(`Estimated tax (${basis})`, estimate.elapsed >= 1 ? estimate.taxSoFar : estimate.projectedTax)}
+${schedule.map(s => `<tr><td>Installment ${s.number} <span class="muted">due ${isoDay(s.due)}</span></td><td class="num">${money(s.paid)}${s.status === 'paid' ? '' : ` <span class="muted">of ${money(s.target)}</span>`}</td></tr>`).join('\n')}
+${payments.filter(p => !p.installment).map(p => row(`Other payment ${isoDay(p.date)}`, p.amount)).join('\n')}
+${row('Total paid', report.totalPaid, 'total')}
+${row('Balance', (estimate.elapsed >= 1 ? estimate.taxSoFar : estimate.projectedTax) - report.totalPaid)}
+</table>
+
+${payments.length > 0 ? `<h2>Payments made</h2>
+<table>
+<tr><th>Date</th><th>Installment</th><th>Notes</th><th class="num">Amount</th></tr>
+${payments.map(p => `<tr><td>${isoDay(p.date)}</td><td>${p.installment ?? '—'}</td><td>${escapeHtml(p.notes ?? '')}</td><td class="num">${money(p.amount)}</td></tr>`).join('\n')}
+</table>` : ''}
+
+${foreign.length > 0 ? `<h2>Converted amounts</h2>
+<table>
+<tr><th>Date</th><th>Category</th><th class="num">Original</th><th class="num">${escapeHtml(summary.currency)}</th></tr>
+${foreign.map(t => `<tr><td>${isoDay(t.date)}</td><td>${CATEGORY_LABELS[t.category]}</td><td class="num">${t.originalAmount.toFixed(2)} ${escapeHtml(t.currency ?? home)}</td><td class="num">${money(t.amount)}</td></tr>`).join('\n')}
+</table>` : ''}
+
+<p class="note">${summary.missingRates.length > 0
+    ? `No exchange rate to ${escapeHtml(summary.currency)} for ${escapeHtml(summary.missingRates.join(', '))} — those amounts are not included. `
+    : ''}Estimates for planning only; have your accountant confirm the figures.</p>
+</body>
+</html>
+`
+}
@@ -0,0 +1,147 @@
+import { fmtTime } from './dateFormat'
+import type { Booking } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TIME ZONES
+// Bookings, venues and availability days can carry an IANA zone
+// ("America/Chicago"). Dates stay absolute instants in the database; a zone
+// only says which wall clock they are shown and entered in. Records without
+// one use the device's zone, as before.
+//
+// "Wall time" below is a local Date whose fields (year … minute) read as
+// the clock in another zone — the shape date-fns and <input type=
+// "datetime-local"> work with. Convert with zonedWallTime / wallTimeToInstant.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+const partFormatters = new Map<string, Intl.DateTimeFormat | null>()
+
+function partFormatter(zone: string): Intl.DateTimeFormat | null {
+  if (!partFormatters.has(zone)) {
+    try {
+      partFormatters.set(zone, new Intl.DateTimeFormat('en-US', {
+        timeZone: zone, hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+      }))
+    } catch {
+      partFormatters.set(zone, null)
+    }
+  }
+  return partFormatters.get(zone)!
+}
+
+export function isValidTimeZone(zone: string | undefined): boolean {
+  return !!zone && partFormatter(zone) !== null
+}
+
+/** Minutes `zone` is ahead of UTC at `instant`. */
+export function zoneOffset(instant: Date | number, zone: string): number {
+  const ms = typeof instant === 'number' ? instant : instant.getTime()
+  const formatter = partFormatter(zone)
+  if (!formatter) return -new Date(ms).getTimezoneOffset()
+  const parts = formatter.formatToParts(new Date(ms))
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0)
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'))
+  return Math.round((asUtc - Math.floor(ms / 1000) * 1000) / 60000)
+}
+
+/** Wall time in `zone` at `instant`. */
+export function zonedWallTime(instant: Date, zone: string): Date {
+  const shift = zoneOffset(instant, zone) + instant.getTimezoneOffset()
+  const wall = new Date(instant.getTime() + shift * 60000)
+  // The device's own offset can differ at the shifted time (across a DST change)
+  const drift = wall.getTimezoneOffset() - instant.getTimezoneOffset()
+  return drift ? new Date(wall.getTime() + drift * 60000) : wall
+}
+
+/** The instant a wall time in `zone` stands for. Times skipped by a DST change roll forward. */
+export function wallTimeToInstant(wall: Date, zone: string): Date {
+  const asUtc = Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes(), wall.getSeconds())
+  // Second pass settles times near a DST change
+  let ms = asUtc - zoneOffset(asUtc, zone) * 60000
+  ms = asUtc - zoneOffset(ms, zone) * 60000
+  return new Date(ms)
+}
+
+/** True when `zone` and the device are on different clocks at `at`. */
+export function isForeignZone(zone: string | undefined, at: Date = new Date()): boolean {
+  return !!zone && isValidTimeZone(zone) && zoneOffset(at, zone) !== -at.getTimezoneOffset()
+}
+
+/** "CDT", "GMT+2" */
+export function zoneAbbreviation(zone: string, at: Date = new Date()): string {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' }).formatToParts(at)
+    return parts.find(p => p.type === 'timeZoneName')?.value ?? zone
+  } catch {
+    return zone
+  }
+}
+
+/** "Chicago (CDT)" */
+export function zoneLabel(zone: string, at: Date = new Date()): string {
+  const city = zone.split('/').pop()!.replace(/_/g, ' ')
+  return `${city} (${zoneAbbreviation(zone, at)})`
+}
+
+/** Every zone the browser knows, for pickers; `include` is added if missing. */
+export function timeZoneOptions(include?: string): string[] {
+  let zones: string[]
+  try {
+    zones = Intl.supportedValuesOf('timeZone')
+  } catch {
+    zones = Object.values(CITY_ZONES)
+  }
+  const all = new Set([deviceTimeZone(), ...zones])
+  if (include) all.add(include)
+  return [...all].sort()
+}
+
+/** The zone a booking is shown and edited in. */
+export function bookingTimeZone(booking: Pick<Booking, 'timeZone'>): string {
+  return booking.timeZone && isValidTimeZone(booking.timeZone) ? booking.timeZone : deviceTimeZone()
+}
+
+/** Start time in the booking's zone — "9:00 PM", or "9:00 PM CDT" when that isn't the device's zone. */
+export function fmtBookingTime(booking: Pick<Booking, 'dateTime' | 'timeZone'>, at: Date = new Date(booking.dateTime)): string {
+  const zone = bookingTimeZone(booking)
+  const time = fmtTime(at, zone)
+  return isForeignZone(zone, at) ? `${time} ${zoneAbbreviation(zone, at)}` : time
+}
+
+/** "10:00 PM your time" when the booking's zone isn't the device's, else '' */
+export function deviceTimeHint(booking: Pick<Booking, 'dateTime' | 'timeZone'>, at: Date = new Date(booking.dateTime)): string {
+  return isForeignZone(booking.timeZone, at) ? `${fmtTime(at)} your time` : ''
+}
+
+// ── City lookup ─────────────────────────────────────────────────────────
+
+// Cities whose name isn't itself a zone (zones are named after one city per region)
+const CITY_ZONES: Record<string, string> = {
+  'san francisco': 'America/Los_Angeles', 'san diego': 'America/Los_Angeles', 'seattle': 'America/Los_Angeles',
+  'portland': 'America/Los_Angeles', 'las vegas': 'America/Los_Angeles', 'vancouver': 'America/Vancouver',
+  'phoenix': 'America/Phoenix', 'salt lake city': 'America/Denver', 'calgary': 'America/Edmonton',
+  'dallas': 'America/Chicago', 'houston': 'America/Chicago', 'austin': 'America/Chicago',
+  'minneapolis': 'America/Chicago', 'nashville': 'America/Chicago', 'new orleans': 'America/Chicago',
+  'boston': 'America/New_York', 'washington': 'America/New_York', 'philadelphia': 'America/New_York',
+  'miami': 'America/New_York', 'atlanta': 'America/New_York', 'orlando': 'America/New_York',
+  'montreal': 'America/Toronto', 'ottawa': 'America/Toronto', 'manchester': 'Europe/London',
+  'edinburgh': 'Europe/London', 'barcelona': 'Europe/Madrid', 'munich': 'Europe/Berlin',
+  'frankfurt': 'Europe/Berlin', 'milan': 'Europe/Rome', 'geneva': 'Europe/Zurich',
+  'canberra': 'Australia/Sydney', 'gold coast': 'Australia/Brisbane', 'wellington': 'Pacific/Auckland',
+}
+
+/**
+ * Best guess at a city's zone: the table above, else a zone named after the
+ * city ("Chicago" → America/Chicago). Undefined when nothing matches.
+ */
+export function guessTimeZone(city: string): string | undefined {
+  const key = city.split(',')[0].trim().toLowerCase()
+  if (!key) return undefined
+  if (CITY_ZONES[key]) return CITY_ZONES[key]
+  const name = key.replace(/\s+/g, '_')
+  return timeZoneOptions().find(zone => zone.split('/').pop()!.toLowerCase() === name)
+}
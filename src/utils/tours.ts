@@ -0,0 +1,158 @@
+import { addDays, differenceInCalendarDays, endOfDay, format, parseISO } from 'date-fns'
+import { db, newId } from '../db'
+import { fmtShortDate } from './dateFormat'
+import { isValidTimeZone, zonedWallTime } from './timeZone'
+import type { FxConverter } from './fx'
+import type { Booking, IncallVenue, Tour, TourStop, Transaction } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TOURS
+// A tour is a run of city stops. Saving one writes an Available day (on the
+// stop's clock) for every tour day that has no availability set yet; those
+// rows carry the tourId, so editing or deleting the tour rewrites them and
+// leaves days you set yourself alone. Bookings belong to a tour by falling
+// on one of its days — nothing is stored on the booking.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Every day of a stop, as local midnights */
+export function stopDays(stop: TourStop): Date[] {
+  const days: Date[] = []
+  const last = parseISO(stop.endDate)
+  for (let day = parseISO(stop.startDate); day <= last; day = addDays(day, 1)) days.push(day)
+  return days
+}
+
+export function stopDayCount(stop: TourStop): number {
+  return Math.max(0, differenceInCalendarDays(parseISO(stop.endDate), parseISO(stop.startDate)) + 1)
+}
+
+/** "Nov 3 – Nov 6", or "Nov 3" for a single day */
+export function fmtDayRange(startDate: string, endDate: string): string {
+  const start = fmtShortDate(parseISO(startDate))
+  return startDate === endDate ? start : `${start} – ${fmtShortDate(parseISO(endDate))}`
+}
+
+/** First to last day of a tour; undefined while it has no stops */
+export function tourSpan(tour: Tour): { start: Date; end: Date } | undefined {
+  if (tour.stops.length === 0) return undefined
+  const first = tour.stops.reduce((min, s) => s.startDate < min ? s.startDate : min, tour.stops[0].startDate)
+  const last = tour.stops.reduce((max, s) => s.endDate > max ? s.endDate : max, tour.stops[0].endDate)
+  return { start: parseISO(first), end: endOfDay(parseISO(last)) }
+}
+
+/** The stop whose days cover `when`, read on that stop's clock */
+export function stopOn(tour: Tour, when: Date): TourStop | undefined {
+  return tour.stops.find(stop => {
+    const local = stop.timeZone && isValidTimeZone(stop.timeZone) ? zonedWallTime(when, stop.timeZone) : when
+    const day = format(local, 'yyyy-MM-dd')
+    return stop.startDate <= day && day <= stop.endDate
+  })
+}
+
+/** The tour under way at `now`, else the next one to start */
+export function activeOrNextTour(tours: Tour[], now: Date = new Date()): Tour | undefined {
+  return tours
+    .map(tour => ({ tour, span: tourSpan(tour) }))
+    .filter(({ span }) => span && span.end >= now)
+    .sort((a, b) => a.span!.start.getTime() - b.span!.start.getTime())[0]?.tour
+}
+
+/** Bookings falling on the tour's days, in date order */
+export function tourBookings(tour: Tour, bookings: Booking[]): Booking[] {
+  return bookings
+    .filter(b => stopOn(tour, new Date(b.dateTime)))
+    .sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime())
+}
+
+/** Amounts are in the home currency; transactions in other currencies are converted by `fx` when given */
+export interface TourProfitLoss {
+  income: number      // income transactions of tour bookings, or linked to the tour
+  expenses: number    // expense transactions linked the same way
+  venueCosts: number  // each stop's venue costPerDay × days there
+  lodging: number
+  travel: number
+  net: number
+}
+
+export function tourProfitLoss(
+  tour: Tour,
+  bookings: Booking[],
+  transactions: Transaction[],
+  venues: Map<string, IncallVenue>,
+  fx?: FxConverter
+): TourProfitLoss {
+  const bookingIds = new Set(tourBookings(tour, bookings).map(b => b.id))
+  const linked = transactions.filter(t => t.tourId === tour.id || (t.bookingId && bookingIds.has(t.bookingId)))
+  const amountOf = (t: Transaction) => fx ? fx.convert(t.amount, t.currency, new Date(t.date)) ?? 0 : t.amount
+  const income = linked.filter(t => t.type === 'income').reduce((sum, t) => sum + amountOf(t), 0)
+  const expenses = linked.filter(t => t.type === 'expense').reduce((sum, t) => sum + amountOf(t), 0)
+  const venueCosts = tour.stops.reduce((sum, stop) => {
+    const venue = stop.venueId ? venues.get(stop.venueId) : undefined
+    return sum + (venue?.costPerDay ?? 0) * stopDayCount(stop)
+  }, 0)
+  const lodging = tour.stops.reduce((sum, stop) => sum + (stop.lodgingCost ?? 0), 0)
+  const travel = tour.travelCost
+  return { income, expenses, venueCosts, lodging, travel, net: income - expenses - venueCosts - lodging - travel }
+}
+
+/**
+ * Values for the {tourCity} and {tourDates} message placeholders: the
+ * current or next stop of the active or next tour.
+ */
+export function tourPlaceholders(tours: Tour[], now: Date = new Date()): { tourCity: string; tourDates: string } | undefined {
+  const tour = activeOrNextTour(tours, now)
+  if (!tour) return undefined
+  const today = format(now, 'yyyy-MM-dd')
+  const stop = [...tour.stops]
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .find(s => s.endDate >= today)
+  return stop ? { tourCity: stop.city, tourDates: fmtDayRange(stop.startDate, stop.endDate) } : undefined
+}
+
+// ── Saving ─────────────────────────────────────────────────────────────
+
+/**
+ * Rewrite the availability a tour sets. Returns how many days it set and
+ * how many it skipped because they already had availability of their own.
+ */
+async function applyTourAvailability(tour: Tour): Promise<{ set: number; skipped: number }> {
+  let set = 0
+  let skipped = 0
+  await db.transaction('rw', db.availability, async () => {
+    await db.availability.filter(a => a.tourId === tour.id).delete()
+    for (const stop of tour.stops) {
+      for (const day of stopDays(stop)) {
+        if (await db.availability.where('date').equals(day).count()) {
+          skipped++
+          continue
+        }
+        await db.availability.add({
+          id: newId(),
+          date: day,
+          status: 'Available',
+          startTime: tour.startTime,
+          endTime: tour.endTime,
+          timeZone: stop.timeZone,
+          notes: `${tour.name} — ${stop.city}`,
+          tourId: tour.id,
+        })
+        set++
+      }
+    }
+  })
+  return { set, skipped }
+}
+
+export async function saveTour(tour: Tour): Promise<{ set: number; skipped: number }> {
+  await db.tours.put(tour)
+  return applyTourAvailability(tour)
+}
+
+/** Delete a tour with the availability it set. Expenses linked to it stay, unlinked. */
+export async function deleteTour(tourId: string): Promise<void> {
+  await db.transaction('rw', [db.tours, db.availability, db.transactions], async () => {
+    await db.tours.delete(tourId)
+    await db.availability.filter(a => a.tourId === tourId).delete()
+    await db.transactions.filter(t => t.tourId === tourId).modify(t => { delete t.tourId })
+  })
+}
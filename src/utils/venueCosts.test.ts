@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { db, createTransaction } from '../db'
+import { lsKey } from '../hooks/useSettings'
+import { createFxConverter } from './fx'
+import {
+  VENUE_COSTS_AUTO_KEY, dismissVenueCost, pendingVenueCosts, postVenueCosts, recordVenueCost,
+  venueCostFor, venueProfitability,
+} from './venueCosts'
+import type { Booking, IncallVenue } from '../types'
+
+const now = new Date(2026, 5, 30, 12)
+const at = (d: number, h: number) => new Date(2026, 5, d, h)
+
+const studio = { id: 'studio', name: 'Studio', costPerDay: 120 } as IncallVenue
+const hotel = { id: 'hotel', name: 'Hotel', costPerHour: 40 } as IncallVenue
+
+function booking(id: string, venue: IncallVenue, dateTime: Date, duration = 60, extra: Partial<Booking> = {}): Booking {
+  return {
+    id, venueId: venue.id, dateTime, duration, status: 'Completed', locationType: 'Incall', ...extra,
+  } as Booking
+}
+
+describe('venueCostFor', () => {
+  it('charges the day rate once, else the hourly rate for the booked hours', () => {
+    expect(venueCostFor(studio, [{ duration: 60 }, { duration: 90 }])).toEqual({ basis: 'day', hours: 2.5, amount: 120 })
+    expect(venueCostFor(hotel, [{ duration: 90 }])).toEqual({ basis: 'hour', hours: 1.5, amount: 60 })
+    expect(venueCostFor({ ...hotel, costPerDay: 200 }, [{ duration: 90 }])?.basis).toBe('day')
+    expect(venueCostFor({ id: 'free', name: 'Home' } as IncallVenue, [{ duration: 60 }])).toBeNull()
+  })
+})
+
+describe('pending venue costs', () => {
+  beforeEach(async () => {
+    await Promise.all([db.bookings.clear(), db.transactions.clear(), db.incallVenues.clear()])
+    localStorage.clear()
+    await db.incallVenues.bulkAdd([studio, hotel])
+    await db.bookings.bulkAdd([
+      booking('b1', studio, at(20, 10)),
+      booking('b2', studio, at(20, 15), 120),
+      booking('b3', hotel, at(21, 10), 90),
+      booking('b4', studio, at(22, 10), 60, { status: 'Cancelled' }),
+      booking('b5', studio, at(23, 10), 60, { locationType: 'Outcall' }),
+      booking('old', studio, new Date(2026, 2, 1, 10)),
+    ])
+  })
+
+  it('groups completed incall bookings by venue and day within the lookback', async () => {
+    const proposals = await pendingVenueCosts(now)
+    expect(proposals.map(p => [p.venue.id, p.day, p.bookings.length, p.amount, p.covered])).toEqual([
+      ['studio', '2026-06-20', 2, 120, false],
+      ['hotel', '2026-06-21', 1, 60, false],
+    ])
+  })
+
+  it('records a cost once and never proposes handled bookings again', async () => {
+    const [studioDay, hotelDay] = await pendingVenueCosts(now)
+    await recordVenueCost(studioDay)
+    await dismissVenueCost(hotelDay)
+    expect(await pendingVenueCosts(now)).toEqual([])
+
+    const [expense] = await db.transactions.toArray()
+    expect([expense.amount, expense.type, expense.category, expense.venueId, expense.bookingId])
+      .toEqual([120, 'expense', 'rent', 'studio', undefined])
+  })
+
+  it('records the cost in the venue\'s currency unless told otherwise', async () => {
+    await db.incallVenues.update('hotel', { currency: 'EUR' })
+    const [studioDay, hotelDay] = await pendingVenueCosts(now)
+    await recordVenueCost(hotelDay)
+    await recordVenueCost(studioDay, studioDay.amount, 'GBP')
+
+    const byVenue = Object.fromEntries((await db.transactions.toArray()).map(t => [t.venueId, t.currency]))
+    expect(byVenue).toEqual({ hotel: 'EUR', studio: 'GBP' })
+  })
+
+  it('marks a day whose rate is already recorded as covered', async () => {
+    await db.transactions.add(createTransaction({
+      amount: 120, type: 'expense', category: 'rent', date: at(20, 0), venueId: 'studio',
+    }))
+    const [studioDay] = await pendingVenueCosts(now)
+    expect(studioDay.covered).toBe(true)
+
+    // Settled without a second expense, even with the auto setting off
+    expect(await postVenueCosts(now)).toBe(0)
+    expect(await db.transactions.count()).toBe(1)
+    expect((await pendingVenueCosts(now)).map(p => p.venue.id)).toEqual(['hotel'])
+  })
+
+  it('records everything from the loop when the auto setting is on', async () => {
+    localStorage.setItem(lsKey(VENUE_COSTS_AUTO_KEY), 'true')
+    expect(await postVenueCosts(now)).toBe(2)
+    expect(await pendingVenueCosts(now)).toEqual([])
+  })
+})
+
+describe('venueProfitability', () => {
+  it('nets income of completed bookings against recorded venue costs', () => {
+    const bookings = [
+      booking('b1', studio, at(20, 10), 120),
+      booking('b2', studio, at(21, 10), 60, { status: 'Cancelled' }),
+      booking('b3', hotel, at(21, 10), 60),
+    ]
+    const transactions = [
+      createTransaction({ amount: 600, type: 'income', category: 'booking', date: at(20, 12), bookingId: 'b1' }),
+      createTransaction({ amount: 200, currency: 'EUR', type: 'income', category: 'tip', date: at(20, 12), bookingId: 'b1' }),
+      createTransaction({ amount: 300, type: 'income', category: 'booking', date: at(21, 12), bookingId: 'b2' }),
+      createTransaction({ amount: 120, type: 'expense', category: 'rent', date: at(20, 0), venueId: 'studio' }),
+    ]
+    const fx = createFxConverter([{ id: 'r', base: 'EUR', quote: 'USD', rate: 1.5, date: at(1, 0) }], 'USD', 'USD')
+    expect(venueProfitability(studio, bookings, transactions, fx))
+      .toEqual({ bookings: 1, hours: 2, income: 900, costs: 120, net: 780, perHour: 390 })
+  })
+})
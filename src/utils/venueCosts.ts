@@ -0,0 +1,166 @@
+import { format, subDays } from 'date-fns'
+import { db, createTransaction } from '../db'
+import { readSetting } from '../hooks/useSettings'
+import type { FxConverter } from './fx'
+import type { Booking, IncallVenue, Transaction } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// VENUE COSTS
+// Completed incall bookings turn their venue's rates into an expense:
+// the day rate once per venue per day, however many bookings were there,
+// otherwise the hourly rate × booked hours. Costs are proposed on the
+// Finances page, or recorded from the auto-status loop when the setting
+// is on. Each booking remembers it was handled (venueCostHandled) so a
+// dismissed or deleted cost isn't proposed again.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const VENUE_COSTS_AUTO_KEY = 'venueCostsAuto'
+
+/** Older completed bookings aren't proposed — history isn't back-filled */
+export const VENUE_COST_LOOKBACK_DAYS = 60
+
+export interface VenueCostProposal {
+  venue: IncallVenue
+  /** "yyyy-MM-dd" */
+  day: string
+  /** Completed bookings the cost covers */
+  bookings: Booking[]
+  basis: 'day' | 'hour'
+  hours: number
+  amount: number
+  /** Day rate already recorded for this venue and day — nothing more to add */
+  covered: boolean
+}
+
+const dayKey = (d: Date) => format(d, 'yyyy-MM-dd')
+
+/** The venue's cost for a day's bookings there, or null when it has no rates. */
+export function venueCostFor(venue: IncallVenue, bookings: Pick<Booking, 'duration'>[]): { basis: 'day' | 'hour'; hours: number; amount: number } | null {
+  const hours = bookings.reduce((sum, b) => sum + b.duration, 0) / 60
+  if (venue.costPerDay) return { basis: 'day', hours, amount: venue.costPerDay }
+  if (venue.costPerHour) return { basis: 'hour', hours, amount: Math.round(venue.costPerHour * hours * 100) / 100 }
+  return null
+}
+
+/** Completed incall bookings whose venue cost hasn't been recorded or dismissed, grouped by venue and day. */
+export async function pendingVenueCosts(now = new Date()): Promise<VenueCostProposal[]> {
+  const since = subDays(now, VENUE_COST_LOOKBACK_DAYS)
+  const bookings = await db.bookings.where('dateTime').aboveOrEqual(since)
+    .filter(b => b.status === 'Completed' && b.locationType === 'Incall' && !!b.venueId && !b.venueCostHandled)
+    .toArray()
+  if (bookings.length === 0) return []
+
+  const groups = new Map<string, Booking[]>()
+  for (const b of bookings) {
+    const key = `${b.venueId}|${dayKey(new Date(b.dateTime))}`
+    groups.set(key, [...(groups.get(key) ?? []), b])
+  }
+  const venues = new Map((await db.incallVenues.bulkGet([...new Set(bookings.map(b => b.venueId!))]))
+    .filter((v): v is IncallVenue => !!v)
+    .map(v => [v.id, v]))
+  const recorded = await db.transactions.where('date').aboveOrEqual(since)
+    .filter(t => !!t.venueId)
+    .toArray()
+  const recordedDays = new Set(recorded.map(t => `${t.venueId}|${dayKey(new Date(t.date))}`))
+
+  const proposals: VenueCostProposal[] = []
+  for (const [key, group] of groups) {
+    const [venueId, day] = key.split('|')
+    const venue = venues.get(venueId)
+    const cost = venue ? venueCostFor(venue, group) : null
+    if (!venue || !cost) continue
+    proposals.push({
+      venue,
+      day,
+      bookings: group,
+      ...cost,
+      covered: cost.basis === 'day' && recordedDays.has(key),
+    })
+  }
+  return proposals.sort((a, b) => a.day.localeCompare(b.day))
+}
+
+function markHandled(bookings: Booking[]) {
+  return Promise.all(bookings.map(b => db.bookings.update(b.id, { venueCostHandled: true })))
+}
+
+/**
+ * Record a proposal as an expense (category rent) dated on its day, in the
+ * currency it was paid in — the venue's by default, home currency when unset.
+ */
+export async function recordVenueCost(
+  p: VenueCostProposal,
+  amount = p.amount,
+  currency = p.venue.currency
+): Promise<void> {
+  await db.transaction('rw', [db.transactions, db.bookings], async () => {
+    if (!p.covered && amount > 0) {
+      const count = p.bookings.length
+      await db.transactions.add(createTransaction({
+        amount,
+        currency,
+        type: 'expense',
+        category: 'rent',
+        date: new Date(`${p.day}T00:00:00`),
+        notes: p.basis === 'day'
+          ? `${p.venue.name} — day rate, ${count} ${count === 1 ? 'booking' : 'bookings'}`
+          : `${p.venue.name} — ${+p.hours.toFixed(2)} h`,
+        venueId: p.venue.id,
+      }))
+    }
+    await markHandled(p.bookings)
+  })
+}
+
+/** Don't record this one; the bookings won't be proposed again. */
+export async function dismissVenueCost(p: VenueCostProposal): Promise<void> {
+  await db.transaction('rw', db.bookings, () => markHandled(p.bookings))
+}
+
+/**
+ * Settle what needs no decision — bookings on a day whose rate is already
+ * recorded — and, with the auto setting on, record the rest. Run
+ * periodically from the auto-status loop.
+ */
+export async function postVenueCosts(now = new Date()): Promise<number> {
+  const auto = readSetting(VENUE_COSTS_AUTO_KEY, false)
+  let recorded = 0
+  for (const p of await pendingVenueCosts(now)) {
+    if (!p.covered && !auto) continue
+    await recordVenueCost(p)
+    if (!p.covered) recorded++
+  }
+  return recorded
+}
+
+// ── Profitability ──────────────────────────────────────────────────────
+
+/** Amounts are in the home currency; transactions in other currencies are converted by `fx` when given */
+export interface VenueProfitability {
+  bookings: number
+  hours: number
+  income: number     // income transactions of completed bookings here
+  costs: number      // venue cost expenses recorded for it
+  net: number
+  perHour: number    // net per booked hour
+}
+
+export function venueProfitability(
+  venue: IncallVenue,
+  bookings: Booking[],
+  transactions: Transaction[],
+  fx?: FxConverter
+): VenueProfitability {
+  const here = bookings.filter(b => b.venueId === venue.id && b.status === 'Completed')
+  const ids = new Set(here.map(b => b.id))
+  const amountOf = (t: Transaction) => fx ? fx.convert(t.amount, t.currency, new Date(t.date)) ?? 0 : t.amount
+  const income = transactions
+    .filter(t => t.type === 'income' && t.bookingId && ids.has(t.bookingId))
+    .reduce((sum, t) => sum + amountOf(t), 0)
+  const costs = transactions
+    .filter(t => t.type === 'expense' && t.venueId === venue.id)
+    .reduce((sum, t) => sum + amountOf(t), 0)
+  const hours = here.reduce((sum, b) => sum + b.duration, 0) / 60
+  const net = income - costs
+  return { bookings: here.length, hours, income, costs, net, perHour: hours > 0 ? net / hours : 0 }
+}
@@ -0,0 +1,120 @@
+import { addDays, addMinutes, format, parseISO } from 'date-fns'
+import { db } from '../db'
+import { fmtShortDayDate, fmtTime } from './dateFormat'
+import { findOpenSlots } from './availability'
+import type { OpenSlot } from './availability'
+import type { Booking, Client, WaitlistEntry } from '../types'
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// WAITLIST
+// Clients parked for a day and time window. When a booking is cancelled
+// (or the slot finder turns up a free time inside a window), the entries it
+// fits are offered back — screened, non-blocked clients only, most reliable
+// first. An entry stays open until it is marked fulfilled or deleted.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Minutes assumed when an entry doesn't say how long they want */
+const DEFAULT_WAITLIST_DURATION = 60
+
+export interface WaitlistMatch {
+  entry: WaitlistEntry
+  client: Client
+  /** 0–1, see clientReliability */
+  reliability: number
+}
+
+/** The entry's window as instants; an end at or before the start runs past midnight */
+export function waitlistWindow(entry: WaitlistEntry): { start: Date; end: Date } {
+  const day = parseISO(entry.date)
+  const [sh, sm] = entry.windowStart.split(':').map(Number)
+  const [eh, em] = entry.windowEnd.split(':').map(Number)
+  const start = addMinutes(day, sh * 60 + sm)
+  let end = addMinutes(day, eh * 60 + em)
+  if (end <= start) end = addDays(end, 1)
+  return { start, end }
+}
+
+/** Whether a free stretch [start, end) gives the entry what it asked for */
+export function fitsWaitlistEntry(entry: WaitlistEntry, start: Date, end: Date): boolean {
+  const win = waitlistWindow(entry)
+  const overlap = Math.min(end.getTime(), win.end.getTime()) - Math.max(start.getTime(), win.start.getTime())
+  if (overlap <= 0) return false
+  return !entry.duration || overlap >= entry.duration * 60000
+}
+
+/**
+ * Share of a client's past bookings they kept, smoothed so a first-timer
+ * sits at 0.5 rather than 0 or 1. No-shows count double; cancellations the
+ * provider made don't count against them.
+ */
+export function clientReliability(bookings: Booking[]): number {
+  let kept = 0
+  let lost = 0
+  for (const b of bookings) {
+    if (b.status === 'Completed') kept++
+    else if (b.status === 'No Show') lost += 2
+    else if (b.status === 'Cancelled' && b.cancelledBy !== 'provider') lost++
+  }
+  return (kept + 1) / (kept + lost + 2)
+}
+
+/** Whether a client may be offered a freed slot at all */
+export function isWaitlistEligible(client: Client | undefined): client is Client {
+  return !!client && !client.isBlocked && client.screeningStatus === 'Screened'
+}
+
+/**
+ * Open waitlist entries that a freed slot [start, end) fits, best first:
+ * most reliable client, then whoever has waited longest. One match per
+ * client. `excludeClientId` leaves out the client who just gave the slot up.
+ */
+export async function findWaitlistMatches(start: Date, end: Date, excludeClientId?: string): Promise<WaitlistMatch[]> {
+  // Windows can run overnight, so the day before may reach into the slot
+  const days = [addDays(start, -1), start, end].map(d => format(d, 'yyyy-MM-dd'))
+  const entries = (await db.waitlist.where('date').between(days[0], days[2], true, true).toArray())
+    .filter(e => !e.fulfilledAt && e.clientId !== excludeClientId && fitsWaitlistEntry(e, start, end))
+  return rankWaitlist(entries)
+}
+
+/** Screened, non-blocked clients' entries, most reliable first, one per client */
+export async function rankWaitlist(entries: WaitlistEntry[]): Promise<WaitlistMatch[]> {
+  const clientIds = [...new Set(entries.map(e => e.clientId))]
+  const [clients, bookings] = await Promise.all([
+    db.clients.bulkGet(clientIds),
+    db.bookings.where('clientId').anyOf(clientIds).toArray(),
+  ])
+  const byId = new Map(clients.filter(isWaitlistEligible).map(c => [c.id, c]))
+
+  const ranked: WaitlistMatch[] = []
+  for (const entry of entries) {
+    const client = byId.get(entry.clientId)
+    if (!client) continue
+    ranked.push({ entry, client, reliability: clientReliability(bookings.filter(b => b.clientId === client.id)) })
+  }
+  ranked.sort((a, b) => b.reliability - a.reliability
+    || new Date(a.entry.createdAt).getTime() - new Date(b.entry.createdAt).getTime())
+
+  const seen = new Set<string>()
+  return ranked.filter(m => {
+    if (seen.has(m.client.id)) return false
+    seen.add(m.client.id)
+    return true
+  })
+}
+
+/** Bookable start times inside an entry's window, by the slot finder's rules */
+export async function openSlotsForEntry(entry: WaitlistEntry): Promise<OpenSlot[]> {
+  const { start, end } = waitlistWindow(entry)
+  const duration = entry.duration ?? DEFAULT_WAITLIST_DURATION
+  const slots = await findOpenSlots({ from: start, to: end, durationMinutes: duration })
+  return slots.filter(s => s.start >= start && addMinutes(s.start, duration) <= end)
+}
+
+/** "Thu, Oct 22 at 6:00 PM" — the {openSlot} placeholder, on the clock of `timeZone` (unset = device zone) */
+export function formatOpenSlot(start: Date, timeZone?: string): string {
+  return `${fmtShortDayDate(start, timeZone)} at ${fmtTime(start, timeZone)}`
+}
+
+export async function markWaitlistFulfilled(id: string): Promise<void> {
+  await db.waitlist.update(id, { fulfilledAt: new Date() })
+}
@@ -0,0 +1,99 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Minimal ZIP writer — stored entries only
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Used to bundle a year-end workbook with its receipts. Receipts are JPEG,
+// PNG or PDF — already compressed — so entries are stored, not deflated,
+// and no compression library is needed. Names are UTF-8 (flag bit 11).
+// No ZIP64: the archive and every entry must stay under 4 GB.
+
+export interface ZipEntry {
+  /** Path inside the archive, "/"-separated */
+  name: string
+  data: Blob | Uint8Array
+  date?: Date
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/** MS-DOS time and date words (2-second resolution, local time, 1980+) */
+function dosDateTime(d: Date): { time: number; date: number } {
+  const year = Math.max(1980, d.getFullYear())
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  }
+}
+
+/** Build a ZIP archive. Entries are read one at a time. */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const data = entry.data instanceof Blob ? new Uint8Array(await entry.data.arrayBuffer()) : entry.data
+    const crc = crc32(data)
+    const { time, date } = dosDateTime(entry.date ?? new Date())
+
+    const local = new Uint8Array(30 + name.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034b50, true)   // local file header signature
+    lv.setUint16(4, 20, true)           // version needed
+    lv.setUint16(6, 0x0800, true)       // UTF-8 names
+    lv.setUint16(8, 0, true)            // stored
+    lv.setUint16(10, time, true)
+    lv.setUint16(12, date, true)
+    lv.setUint32(14, crc, true)
+    lv.setUint32(18, data.length, true) // compressed size
+    lv.setUint32(22, data.length, true) // uncompressed size
+    lv.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const header = new Uint8Array(46 + name.length)
+    const cv = new DataView(header.buffer)
+    cv.setUint32(0, 0x02014b50, true)   // central directory signature
+    cv.setUint16(4, 20, true)           // version made by
+    cv.setUint16(6, 20, true)           // version needed
+    cv.setUint16(8, 0x0800, true)
+    cv.setUint16(10, 0, true)
+    cv.setUint16(12, time, true)
+    cv.setUint16(14, date, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, data.length, true)
+    cv.setUint32(24, data.length, true)
+    cv.setUint16(28, name.length, true)
+    cv.setUint32(42, offset, true)      // local header offset
+    header.set(name, 46)
+
+    parts.push(local as Uint8Array<ArrayBuffer>, data as Uint8Array<ArrayBuffer>)
+    central.push(header)
+    offset += local.length + data.length
+  }
+
+  const centralSize = central.reduce((s, h) => s + h.length, 0)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054b50, true)     // end of central directory signature
+  ev.setUint16(8, entries.length, true)
+  ev.setUint16(10, entries.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central as Uint8Array<ArrayBuffer>[], end], { type: 'application/zip' })
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -50,9 +51,17 @@ export default defineConfig({
     tailwindcss(),
     swBuildStamp(),
   ],
+  test: {
+    setupFiles: ['src/test/setup.ts'],
+  },
   build: {
     sourcemap: true,
     rollupOptions: {
+      // The public booking-request form is its own small page, without the React app
+      input: {
+        index: resolve(__dirname, 'index.html'),
+        request: resolve(__dirname, 'request.html'),
+      },
       output: {
         manualChunks: {
           'vendor-react': ['react', 'react-dom'],